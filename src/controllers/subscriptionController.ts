@@ -6,14 +6,27 @@ import { Request, Response } from 'express';
 import { Pool } from 'mysql2/promise';
 import { SubscriptionService } from '../services/subscriptionService';
 import { WalletService } from '../services/walletService';
+import { WalletAsset, parseWalletAsset } from '../models/walletModel';
 import { ActivityLogService } from '../services/activityLogService';
 import { PaymentGatewayService } from '../services/paymentGatewayService';
+import { RefundService } from '../services/refundService';
+import { isSandboxEnabled } from '../services/paymentProviders';
+import { AuthRequest } from '../middleware/auth';
+
+// Request body field carrying the gateway's payment token
+const GATEWAY_SOURCE_FIELDS: Record<string, string> = {
+    STRIPE: 'stripePaymentIntentId',
+    EWAY: 'ewayTokenCustomerID',
+    POLI: 'poliTransactionToken',
+    SANDBOX: 'sandboxToken',
+};
 
 export class SubscriptionController {
     private subscriptionService: SubscriptionService;
     private walletService: WalletService;
     private activityLogService: ActivityLogService;
     private paymentGatewayService: PaymentGatewayService;
+    private refundService: RefundService;
     private db: Pool;
 
     constructor(db: Pool) {
@@ -21,6 +34,7 @@ export class SubscriptionController {
         this.walletService = new WalletService(db);
         this.activityLogService = new ActivityLogService(db);
         this.paymentGatewayService = new PaymentGatewayService(db);
+        this.refundService = new RefundService(db);
         this.db = db;
     }
 
@@ -150,6 +164,14 @@ export class SubscriptionController {
                 return;
             }
 
+            if (paymentMethod.toUpperCase() === 'SANDBOX' && !isSandboxEnabled()) {
+                res.status(400).json({
+                    success: false,
+                    message: `Unsupported payment method: ${paymentMethod}`,
+                });
+                return;
+            }
+
             // Check availability before processing subscription
             const availability = await this.subscriptionService.checkAvailability(propertyId, subscriptionAmount);
             if (!availability.isAvailable) {
@@ -171,35 +193,17 @@ export class SubscriptionController {
 
                 switch (paymentMethod.toUpperCase()) {
                     case 'STRIPE':
-                        subscription = await this.handleStripePayment(
-                            propertyId,
-                            subscriberUserId,
-                            subscriberWalletAddress,
-                            subscriptionAmount,
-                            currency,
-                            req.body.stripePaymentIntentId
-                        );
-                        break;
-
                     case 'EWAY':
-                        subscription = await this.handleEwayPayment(
-                            propertyId,
-                            subscriberUserId,
-                            subscriberWalletAddress,
-                            subscriptionAmount,
-                            currency,
-                            req.body.ewayTokenCustomerID
-                        );
-                        break;
-
                     case 'POLI':
-                        subscription = await this.handlePOLiPayment(
+                    case 'SANDBOX':
+                        subscription = await this.handleGatewayPayment(
+                            paymentMethod.toUpperCase(),
                             propertyId,
                             subscriberUserId,
                             subscriberWalletAddress,
                             subscriptionAmount,
                             currency,
-                            req.body.poliTransactionToken
+                            req.body[GATEWAY_SOURCE_FIELDS[paymentMethod.toUpperCase()]]
                         );
                         break;
 
@@ -283,96 +287,47 @@ export class SubscriptionController {
     }
 
     /**
-     * Handle Stripe payment processing
+     * Handle card and online payments through a registered gateway
+     * (Stripe, Eway, POLi, or the sandbox gateway when it is enabled)
      */
-    private async handleStripePayment(
+    private async handleGatewayPayment(
+        gateway: string,
         propertyId: string,
         subscriberUserId: string,
         subscriberWalletAddress: string,
         amount: number,
         currency: string,
-        paymentIntentId?: string
+        source?: string
     ) {
-        const result = await this.paymentGatewayService.processStripePayment({
-            propertyId,
-            subscriberUserId,
-            amount,
-            currency,
-            paymentIntentId,
-        });
-
-        return await this.subscriptionService.createSubscription({
-            propertyId,
-            subscriberUserId,
-            subscriberWalletAddress,
-            subscriptionAmount: amount,
-            currency: currency || 'AUD',
-            transactionHash: result.transactionId,
-            paymentMethod: 'STRIPE',
-            paymentStatus: result.status,
-        });
-    }
-
-    /**
-     * Handle Eway payment processing
-     */
-    private async handleEwayPayment(
-        propertyId: string,
-        subscriberUserId: string,
-        subscriberWalletAddress: string,
-        amount: number,
-        currency: string,
-        tokenCustomerID?: string
-    ) {
-        const result = await this.paymentGatewayService.processEwayPayment({
-            propertyId,
-            subscriberUserId,
-            amount,
-            currency,
-            tokenCustomerID,
-        });
+        const request = { propertyId, subscriberUserId, amount, currency, source };
+        let result;
+        switch (gateway) {
+            case 'STRIPE':
+                result = await this.paymentGatewayService.processStripePayment({ ...request, paymentIntentId: source });
+                break;
+            case 'POLI':
+                result = await this.paymentGatewayService.processPOLiPayment({ ...request, transactionToken: source });
+                break;
+            default:
+                result = await this.paymentGatewayService.charge(gateway, request);
+        }
 
-        return await this.subscriptionService.createSubscription({
+        const subscription = await this.subscriptionService.createSubscription({
             propertyId,
             subscriberUserId,
             subscriberWalletAddress,
             subscriptionAmount: amount,
             currency: currency || 'AUD',
             transactionHash: result.transactionId,
-            paymentMethod: 'EWAY',
+            paymentMethod: gateway,
             paymentStatus: result.status,
         });
-    }
 
-    /**
-     * Handle POLi payment processing
-     */
-    private async handlePOLiPayment(
-        propertyId: string,
-        subscriberUserId: string,
-        subscriberWalletAddress: string,
-        amount: number,
-        currency: string,
-        transactionToken?: string
-    ) {
-        const result = await this.paymentGatewayService.processPOLiPayment({
-            propertyId,
-            subscriberUserId,
-            amount,
-            currency,
-            transactionToken,
-        });
-
-        return await this.subscriptionService.createSubscription({
-            propertyId,
-            subscriberUserId,
-            subscriberWalletAddress,
-            subscriptionAmount: amount,
-            currency: currency || 'AUD',
-            transactionHash: result.transactionId,
-            paymentMethod: 'POLI',
-            paymentStatus: result.status,
-        });
+        // Pending subscriptions activate when the payment's settlement webhook arrives
+        if (result.paymentId) {
+            await this.paymentGatewayService.linkSubscription(result.paymentId, subscription.id);
+        }
+        return subscription;
     }
 
     /**
@@ -407,16 +362,16 @@ export class SubscriptionController {
             transferDetails: transferDetails || {},
         });
 
-        // Log transfer for reconciliation
-        await this.paymentGatewayService.logPendingTransfer({
+        // The subscription stays PENDING until an imported bank statement matches the transfer
+        const transferReference = await this.paymentGatewayService.logPendingTransfer({
             subscriptionId: subscription.id,
             amount,
-            currency,
+            currency: currency || 'NZD',
             accountDetails,
             subscriber: { userId: subscriberUserId, address: subscriberWalletAddress },
         });
 
-        return subscription;
+        return { ...subscription, transferReference };
     }
 
     /**
@@ -436,12 +391,13 @@ export class SubscriptionController {
         // 3. Stripe's NZD support (requires NZ bank account)
 
         const result = await this.paymentGatewayService.processNZDPayment({
+            propertyId,
             subscriberUserId,
             amount,
             paymentMethodId,
         });
 
-        return await this.subscriptionService.createSubscription({
+        const subscription = await this.subscriptionService.createSubscription({
             propertyId,
             subscriberUserId,
             subscriberWalletAddress,
@@ -451,6 +407,11 @@ export class SubscriptionController {
             paymentMethod: 'NZD',
             paymentStatus: result.status,
         });
+
+        if (result.paymentId) {
+            await this.paymentGatewayService.linkSubscription(result.paymentId, subscription.id);
+        }
+        return subscription;
     }
 
     /**
@@ -463,10 +424,12 @@ export class SubscriptionController {
         amount: number,
         currency: string
     ) {
-        // Check wallet balance
+        const asset = parseWalletAsset(currency);
+
+        // Check wallet balance in the subscription's currency
         const walletBalance = await this.walletService.getWalletBalance(subscriberUserId);
-        if (!walletBalance || walletBalance.balanceUsdc < amount) {
-            throw new Error(`Insufficient wallet balance. Required: ${amount}, Available: ${walletBalance?.balanceUsdc || 0}`);
+        if (!walletBalance || walletBalance.balances[asset] < amount) {
+            throw new Error(`Insufficient ${asset} wallet balance. Required: ${amount}, Available: ${walletBalance?.balances[asset] || 0}`);
         }
 
         // Get subscriber's wallet
@@ -475,20 +438,15 @@ export class SubscriptionController {
             throw new Error('Wallet not found for subscriber');
         }
 
-        // Transfer from wallet
-        await this.walletService.transferBetweenWallets(
-            subscriberUserId,
-            process.env.SYSTEM_WALLET_USER_ID || 'system',
-            amount,
-            `Subscription to property ${propertyId}`
-        );
+        // Pay from wallet into subscription proceeds
+        await this.walletService.paySubscriptionFromWallet(subscriberUserId, amount, propertyId, asset);
 
         return await this.subscriptionService.createSubscription({
             propertyId,
             subscriberUserId,
             subscriberWalletAddress: wallet.wallet_address,
             subscriptionAmount: amount,
-            currency: currency || 'USDC',
+            currency: asset,
             transactionHash: `wallet-transfer-${Date.now()}`,
             paymentMethod: 'WALLET',
             paymentStatus: 'COMPLETED',
@@ -787,13 +745,28 @@ export class SubscriptionController {
 
     /**
      * POST /subscriptions/:subscriptionId/cancel
-     * Cancel a subscription
+     * Cancel a subscription. A paid subscription raises a full refund request
+     * and is cancelled once an admin approves it.
      */
-    async cancelSubscription(req: Request, res: Response): Promise<void> {
+    async cancelSubscription(req: AuthRequest, res: Response): Promise<void> {
         try {
             const { subscriptionId } = req.params;
 
-            await this.subscriptionService.cancelSubscription(subscriptionId);
+            if (!req.user) {
+                res.status(401).json({ success: false, message: 'Authentication required' });
+                return;
+            }
+
+            const refund = await this.refundService.cancelSubscription(subscriptionId, req.user);
+
+            if (refund) {
+                res.status(202).json({
+                    success: true,
+                    message: 'Refund requested; the subscription is cancelled once it is approved',
+                    data: refund,
+                });
+                return;
+            }
 
             res.status(200).json({
                 success: true,
@@ -801,14 +774,87 @@ export class SubscriptionController {
             });
         } catch (error) {
             console.error('Cancel subscription error:', error);
-            res.status(500).json({
-                success: false,
-                message: 'Failed to cancel subscription',
-                error: error instanceof Error ? error.message : 'Unknown error',
+            this.sendRefundError(res, error, 'Failed to cancel subscription');
+        }
+    }
+
+    /**
+     * POST /subscriptions/:subscriptionId/refunds
+     * Request a full or partial refund; body: amount (defaults to the full
+     * subscription), reason, paymentId
+     */
+    async requestRefund(req: AuthRequest, res: Response): Promise<void> {
+        try {
+            const { subscriptionId } = req.params;
+            const { amount, reason, paymentId } = req.body;
+
+            if (!req.user) {
+                res.status(401).json({ success: false, message: 'Authentication required' });
+                return;
+            }
+
+            if (!reason) {
+                res.status(400).json({
+                    success: false,
+                    message: 'A reason is required',
+                });
+                return;
+            }
+
+            const refund = await this.refundService.requestRefund(
+                subscriptionId,
+                { amount: amount === undefined ? undefined : Number(amount), reason, paymentId },
+                req.user
+            );
+
+            res.status(201).json({
+                success: true,
+                message: 'Refund requested',
+                data: refund,
             });
+        } catch (error) {
+            console.error('Request refund error:', error);
+            this.sendRefundError(res, error, 'Failed to request refund');
         }
     }
 
+    /**
+     * GET /subscriptions/:subscriptionId/refunds
+     * Refund requests for a subscription
+     */
+    async getRefunds(req: AuthRequest, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                res.status(401).json({ success: false, message: 'Authentication required' });
+                return;
+            }
+
+            const refunds = await this.refundService.getSubscriptionRefunds(req.params.subscriptionId, req.user);
+
+            res.status(200).json({
+                success: true,
+                data: refunds,
+            });
+        } catch (error) {
+            console.error('Get refunds error:', error);
+            this.sendRefundError(res, error, 'Failed to fetch refunds');
+        }
+    }
+
+    private sendRefundError(res: Response, error: unknown, message: string): void {
+        const detail = error instanceof Error ? error.message : 'Unknown error';
+        const status = detail.endsWith('not found') ? 404
+            : detail.startsWith('Not authorised') ? 403
+            : detail.startsWith('Invalid state') ? 409
+            : detail.startsWith('Invalid') ? 400
+            : 500;
+        res.status(status).json({
+            success: false,
+            message,
+            error: detail,
+        });
+    }
+
     /**
      * POST /subscriptions/:subscriptionId/verify-kyc
      * Verify KYC for a subscription
@@ -877,7 +923,7 @@ export class SubscriptionController {
     async createAndExecuteDisbursements(req: Request, res: Response): Promise<void> {
         try {
             const { propertyId } = req.params;
-            const { distributionId, disbursementAmount, currency, type } = req.body;
+            const { distributionId, disbursementAmount, withholdingTax, currency, type } = req.body;
 
             // Validate required fields
             if (!distributionId || !disbursementAmount || !currency || !type) {
@@ -894,7 +940,8 @@ export class SubscriptionController {
                 distributionId,
                 disbursementAmount,
                 currency,
-                type
+                type,
+                withholdingTax
             );
 
             res.status(201).json({
@@ -1033,6 +1080,17 @@ export class SubscriptionController {
                 return;
             }
 
+            let asset: WalletAsset;
+            try {
+                asset = parseWalletAsset(currency);
+            } catch (error) {
+                res.status(400).json({
+                    success: false,
+                    message: error instanceof Error ? error.message : 'Unsupported currency',
+                });
+                return;
+            }
+
             // Check availability first
             const availability = await this.subscriptionService.checkAvailability(propertyId, subscriptionAmount);
             if (!availability.isAvailable) {
@@ -1045,14 +1103,15 @@ export class SubscriptionController {
                 return;
             }
 
-            // Check wallet balance
+            // Check wallet balance in the requested currency
             const walletBalance = await this.walletService.getWalletBalance(subscriberUserId);
-            if (!walletBalance || walletBalance.balanceUsdc < subscriptionAmount) {
+            if (!walletBalance || walletBalance.balances[asset] < subscriptionAmount) {
                 res.status(402).json({
                     success: false,
-                    message: 'Insufficient wallet balance',
+                    message: `Insufficient ${asset} wallet balance`,
                     required: subscriptionAmount,
-                    available: walletBalance?.balanceUsdc || 0,
+                    available: walletBalance?.balances[asset] || 0,
+                    currency: asset,
                 });
                 return;
             }
@@ -1072,13 +1131,11 @@ export class SubscriptionController {
             try {
                 await connection.beginTransaction();
 
-                const walletId = wallet.id;
-                const balanceBefore = wallet.balance_usdc;
-                const newBalance = await this.walletService.transferBetweenWallets(
+                const payment = await this.walletService.paySubscriptionFromWallet(
                     subscriberUserId,
-                    process.env.SYSTEM_WALLET_USER_ID || 'system',
                     subscriptionAmount,
-                    `Subscription to property ${propertyId}`
+                    propertyId,
+                    asset
                 );
 
                 // Create subscription record
@@ -1087,7 +1144,7 @@ export class SubscriptionController {
                     subscriberUserId,
                     subscriberWalletAddress: wallet.wallet_address,
                     subscriptionAmount: subscriptionAmount.toString(),
-                    currency: currency || 'USDC',
+                    currency: asset,
                     transactionHash: `wallet-transfer-${Date.now()}`,
                 });
 
@@ -1098,9 +1155,10 @@ export class SubscriptionController {
                     message: 'Subscription created from wallet successfully',
                     data: subscription,
                     walletUpdate: {
-                        balanceBefore,
-                        balanceAfter: newBalance,
+                        balanceBefore: payment.balanceBefore,
+                        balanceAfter: payment.balanceAfter,
                         deducted: subscriptionAmount,
+                        currency: asset,
                     },
                 });
             } catch (error) {
@@ -1152,14 +1210,15 @@ export class SubscriptionController {
             const results: any[] = [];
             const errors: any[] = [];
 
-            // Disburse to each subscriber's wallet
+            // Disburse to each subscriber's wallet in the currency they subscribed with
             for (const subscription of subscriptions) {
                 try {
                     const result = await this.walletService.disburseROI(
                         subscription.subscriber_user_id,
                         disbursementAmount,
                         subscription.id,
-                        roiPercentage || 0
+                        roiPercentage || 0,
+                        parseWalletAsset(subscription.currency)
                     );
 
                     results.push({
@@ -1490,7 +1549,7 @@ export class SubscriptionController {
                 return;
             }
 
-            const { amount, subscriptionId } = req.body;
+            const { amount, subscriptionId, currency } = req.body;
 
             if (!amount || !subscriptionId) {
                 res.status(400).json({
@@ -1500,11 +1559,23 @@ export class SubscriptionController {
                 return;
             }
 
+            let asset: WalletAsset;
+            try {
+                asset = parseWalletAsset(currency);
+            } catch (error) {
+                res.status(400).json({
+                    success: false,
+                    message: error instanceof Error ? error.message : 'Unsupported currency',
+                });
+                return;
+            }
+
             const result = await this.walletService.disburseROI(
                 userId,
                 amount,
                 subscriptionId,
-                0
+                0,
+                asset
             );
 
             res.status(201).json({
@@ -1573,14 +1644,15 @@ export class SubscriptionController {
                     return;
                 }
 
-                // Disburse to each subscriber's in-app wallet
+                // Disburse to each subscriber's in-app wallet in the currency they subscribed with
                 for (const subscription of subscribers) {
                     try {
                         const result = await this.walletService.disburseROI(
                             subscription.subscriber_user_id,
                             parseFloat(disbursementAmount as string),
                             subscription.id,
-                            roiPercentage || 0
+                            roiPercentage || 0,
+                            parseWalletAsset(subscription.currency)
                         );
 
                         results.successful.push({
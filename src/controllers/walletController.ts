@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { Pool } from 'mysql2/promise';
 import { WalletService } from '../services/walletService';
-import { WalletModel } from '../models/walletModel';
+import { WalletModel, WalletAsset, parseWalletAsset } from '../models/walletModel';
+import { LedgerService } from '../services/ledgerService';
 
 export interface AuthRequest extends Request {
   user?: any;
@@ -10,10 +11,12 @@ export interface AuthRequest extends Request {
 export class WalletController {
   private walletService: WalletService;
   private walletModel: WalletModel;
+  private ledgerService: LedgerService;
 
   constructor(private pool: Pool) {
     this.walletService = new WalletService(pool);
     this.walletModel = new WalletModel(pool);
+    this.ledgerService = new LedgerService(pool);
   }
 
   // ========== Wallet Creation & Management ==========
@@ -96,6 +99,7 @@ export class WalletController {
           walletId: balance.walletId,
           address: balance.address,
           balanceUsdc: balance.balanceUsdc,
+          balances: balance.balances,
           kycStatus: balance.kycStatus,
           nonce: balance.nonce
         }
@@ -127,10 +131,14 @@ export class WalletController {
         return;
       }
 
+      const asset = this.readAsset(req.body.asset, res);
+      if (!asset) return;
+
       const deposit = await this.walletService.initiateDeposit(
         req.user.id,
         parseFloat(amount),
-        sourceAddress
+        sourceAddress,
+        asset
       );
 
       res.status(201).json({
@@ -138,8 +146,9 @@ export class WalletController {
         deposit: {
           depositId: deposit.depositId,
           depositAddress: deposit.depositAddress,
+          asset: deposit.asset,
           status: 'pending',
-          instructions: `Send ${amount} USDC from ${sourceAddress} to ${deposit.depositAddress}. Your balance will be updated once the transaction is confirmed.`
+          instructions: `Send ${amount} ${deposit.asset} from ${sourceAddress} to ${deposit.depositAddress}. Your balance will be updated once the transaction is confirmed.`
         }
       });
     } catch (error: any) {
@@ -155,14 +164,15 @@ export class WalletController {
         return;
       }
 
-      const { depositId, txHash, amount } = req.body;
+      const { depositId, txHash } = req.body;
 
       if (!depositId || !txHash) {
         res.status(400).json({ error: 'Missing required fields: depositId, txHash' });
         return;
       }
 
-      await this.walletService.confirmDeposit(depositId, txHash, amount);
+      // The credited amount is the one recorded when the deposit was initiated
+      await this.walletService.confirmDeposit(depositId, txHash, { id: req.user.id, permissions: req.user.permissions || [] });
 
       res.json({
         success: true,
@@ -171,7 +181,13 @@ export class WalletController {
       });
     } catch (error: any) {
       console.error('Confirm deposit error:', error);
-      res.status(500).json({ error: error.message || 'Failed to confirm deposit' });
+      const message: string = error.message || 'Failed to confirm deposit';
+      const status = message.endsWith('not found') ? 404
+        : message.startsWith('Not authorised') ? 403
+        : message.startsWith('Deposit already') ? 409
+        : message.startsWith('Invalid') || message.startsWith('Cannot verify') ? 400
+        : 500;
+      res.status(status).json({ error: message });
     }
   }
 
@@ -184,7 +200,7 @@ export class WalletController {
         return;
       }
 
-      const { amount, destinationAddress } = req.body;
+      const { amount, destinationAddress, network, promoCode } = req.body;
 
       if (!amount || !destinationAddress) {
         res.status(400).json({ error: 'Missing required fields: amount, destinationAddress' });
@@ -201,10 +217,14 @@ export class WalletController {
         return;
       }
 
+      const asset = this.readAsset(req.body.asset, res);
+      if (!asset) return;
+
       const result = await this.walletService.requestWithdrawal(
         req.user.id,
         parseFloat(amount),
-        destinationAddress
+        destinationAddress,
+        { asset, network, promoCode }
       );
 
       if (result.requiresKYC) {
@@ -212,6 +232,7 @@ export class WalletController {
           success: true,
           withdrawalId: result.withdrawalId,
           status: 'pending_kyc',
+          fee: result.fee,
           message: 'Withdrawal request created. KYC verification is required before processing.'
         });
       } else {
@@ -219,6 +240,7 @@ export class WalletController {
           success: true,
           withdrawalId: result.withdrawalId,
           status: 'approved',
+          fee: result.fee,
           message: 'Withdrawal approved and will be processed shortly.'
         });
       }
@@ -235,12 +257,6 @@ export class WalletController {
         return;
       }
 
-      // Check if user is admin
-      if (!['admin', 'super-admin'].includes(req.user.role)) {
-        res.status(403).json({ error: 'Admin access required' });
-        return;
-      }
-
       const { withdrawalId, txHash } = req.body;
 
       if (!withdrawalId) {
@@ -268,12 +284,6 @@ export class WalletController {
         return;
       }
 
-      // Check if user is admin
-      if (!['admin', 'super-admin'].includes(req.user.role)) {
-        res.status(403).json({ error: 'Admin access required' });
-        return;
-      }
-
       const { withdrawalId, reason } = req.body;
 
       if (!withdrawalId || !reason) {
@@ -315,11 +325,15 @@ export class WalletController {
         return;
       }
 
+      const asset = this.readAsset(req.body.asset, res);
+      if (!asset) return;
+
       const result = await this.walletService.transferBetweenWallets(
         req.user.id,
         toUserId,
         parseFloat(amount),
-        reason || 'Internal transfer'
+        reason || 'Internal transfer',
+        asset
       );
 
       res.json({
@@ -328,6 +342,7 @@ export class WalletController {
           transactionId: result.transactionId,
           status: result.status,
           amount: parseFloat(amount),
+          asset,
           balanceBefore: result.balanceBefore,
           balanceAfter: result.balanceAfter
         }
@@ -362,6 +377,7 @@ export class WalletController {
         transactions: transactions.map(tx => ({
           id: tx.id,
           type: tx.transaction_type,
+          asset: tx.asset,
           amount: tx.amount,
           status: tx.status,
           from: tx.from_address,
@@ -398,6 +414,58 @@ export class WalletController {
     }
   }
 
+  // ========== Ledger ==========
+
+  async getLedgerStatement(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { limit = '50', offset = '0' } = req.query;
+      const limitNum = Math.min(parseInt(limit as string) || 50, 100);
+      const offsetNum = parseInt(offset as string) || 0;
+
+      const asset = this.readAsset(req.query.asset, res);
+      if (!asset) return;
+
+      const statement = await this.walletService.getLedgerStatement(req.user.id, limitNum, offsetNum, asset);
+
+      if (!statement) {
+        res.status(404).json({ error: 'Wallet not found' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        ...statement
+      });
+    } catch (error) {
+      console.error('Get ledger statement error:', error);
+      res.status(500).json({ error: 'Failed to fetch ledger statement' });
+    }
+  }
+
+  async getTrialBalance(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const trialBalance = await this.ledgerService.getTrialBalance();
+
+      res.json({
+        success: true,
+        trialBalance
+      });
+    } catch (error) {
+      console.error('Get trial balance error:', error);
+      res.status(500).json({ error: 'Failed to fetch trial balance' });
+    }
+  }
+
   // ========== Wallet Summary ==========
 
   async getWalletSummary(req: AuthRequest, res: Response): Promise<void> {
@@ -418,6 +486,7 @@ export class WalletController {
         success: true,
         summary: {
           wallet: summary.wallet,
+          balances: summary.wallet.balances,
           recentTransactions: summary.recentTransactions,
           deposits: summary.deposits,
           withdrawals: summary.withdrawals,
@@ -439,7 +508,7 @@ export class WalletController {
         return;
       }
 
-      const { amount, destinationAddress, currency = 'USDC' } = req.body;
+      const { amount, destinationAddress, currency, network, promoCode } = req.body;
 
       // Validate inputs
       if (!amount || !destinationAddress) {
@@ -458,6 +527,9 @@ export class WalletController {
         return;
       }
 
+      const asset = this.readAsset(currency, res);
+      if (!asset) return;
+
       // Check KYC status
       const wallet = await this.walletService.getWalletInfo(req.user.id);
       if (!wallet || wallet.kyc_status !== 'verified') {
@@ -465,10 +537,20 @@ export class WalletController {
         return;
       }
 
-      // Check balance
+      // Check balance in the asset being withdrawn
       const balance = await this.walletService.getWalletBalance(req.user.id);
-      if (!balance || balance.balanceUsdc < amount) {
-        res.status(400).json({ error: 'Insufficient balance' });
+      if (!balance || balance.balances[asset] < amount) {
+        res.status(400).json({ error: `Insufficient ${asset} balance` });
+        return;
+      }
+
+      // Check withdrawal limits
+      const limits = await this.walletService.getWithdrawalLimits(req.user.id, asset);
+      if (parseFloat(amount as string) > limits.maxWithdrawable) {
+        res.status(400).json({
+          error: `Amount exceeds withdrawal limits. Maximum withdrawable now: ${limits.maxWithdrawable} ${limits.currency}`,
+          limits
+        });
         return;
       }
 
@@ -476,7 +558,8 @@ export class WalletController {
       const result = await this.walletService.requestWithdrawal(
         req.user.id,
         parseFloat(amount as string),
-        destinationAddress
+        destinationAddress,
+        { asset, network, promoCode }
       );
 
       res.status(201).json({
@@ -484,7 +567,11 @@ export class WalletController {
         withdrawal: {
           withdrawalId: result.withdrawalId,
           amount: parseFloat(amount as string),
-          currency,
+          grossAmount: result.fee.grossAmount,
+          fee: result.fee.feeAmount,
+          netAmount: result.fee.netAmount,
+          network: result.fee.network,
+          currency: asset,
           destinationAddress: destinationAddress.substring(0, 6) + '...' + destinationAddress.substring(38),
           status: result.requiresKYC ? 'pending_approval' : 'processing',
           createdAt: new Date().toISOString(),
@@ -529,7 +616,12 @@ export class WalletController {
         success: true,
         withdrawal: {
           id: withdrawal.id,
+          asset: withdrawal.asset,
           amount: withdrawal.amount,
+          grossAmount: Number(withdrawal.amount),
+          fee: Number(withdrawal.fee_amount || 0),
+          netAmount: withdrawal.net_amount !== null ? Number(withdrawal.net_amount) : Number(withdrawal.amount),
+          network: withdrawal.network,
           destinationAddress: withdrawal.destination_address,
           status: withdrawal.status,
           txHash: withdrawal.tx_hash,
@@ -551,17 +643,11 @@ export class WalletController {
         return;
       }
 
-      // Return withdrawal limits based on KYC tier
-      const wallet = await this.walletService.getWalletInfo(req.user.id);
+      const asset = this.readAsset(req.query.asset, res);
+      if (!asset) return;
 
-      const limits = {
-        perTransaction: 50000, // Max per single withdrawal
-        daily: 100000, // Max per day
-        monthly: 500000, // Max per month
-        kycTier: wallet?.kyc_status || 'unverified',
-        used24h: 0, // Would be queried from DB
-        used30d: 0 // Would be queried from DB
-      };
+      // Limits for the user's KYC tier with rolling 24h / 30d usage
+      const limits = await this.walletService.getWithdrawalLimits(req.user.id, asset);
 
       res.json({
         success: true,
@@ -575,21 +661,47 @@ export class WalletController {
 
   async getWithdrawalFees(req: AuthRequest, res: Response): Promise<void> {
     try {
+      const asset = this.readAsset(req.query.asset, res);
+      if (!asset) return;
+
+      const schedule = await this.walletService.getWithdrawalFeeSchedule(asset);
+
       const fees = {
-        networkFee: 0.01, // 1% network fee
-        minFee: 1, // Minimum $1
-        maxFee: 100, // Maximum $100
+        asset,
+        networkFee: schedule.default.feePercentage,
+        minFee: schedule.default.minFee,
+        maxFee: schedule.default.maxFee,
         processingTime: '1-2 business days',
-        networks: {
-          ethereum: { fee: 0.01, minAmount: 10 },
-          polygon: { fee: 0.005, minAmount: 5 },
-          base: { fee: 0.005, minAmount: 5 }
-        }
+        networks: Object.fromEntries(
+          Object.entries(schedule.networks).map(([network, terms]) => [
+            network,
+            { fee: terms.feePercentage, minFee: terms.minFee, maxFee: terms.maxFee, minAmount: terms.minAmount }
+          ])
+        )
       };
 
+      // Optional quote for a specific amount, including any waiver the user qualifies for
+      const { amount, network, promoCode } = req.query;
+      let quote = null;
+      if (amount && req.user) {
+        try {
+          quote = await this.walletService.quoteWithdrawalFee(
+            req.user.id,
+            parseFloat(amount as string),
+            network as string | undefined,
+            promoCode as string | undefined,
+            asset
+          );
+        } catch (quoteError: any) {
+          res.status(400).json({ error: quoteError.message || 'Failed to quote withdrawal fee' });
+          return;
+        }
+      }
+
       res.json({
         success: true,
-        fees
+        fees,
+        quote
       });
     } catch (error) {
       console.error('Get withdrawal fees error:', error);
@@ -651,4 +763,17 @@ export class WalletController {
       res.status(500).json({ error: 'Failed to fetch linked wallets' });
     }
   }
+
+  /**
+   * Read an optional asset code from the request (USDC when omitted),
+   * answering 400 for unsupported assets
+   */
+  private readAsset(value: unknown, res: Response): WalletAsset | null {
+    try {
+      return parseWalletAsset(value);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+      return null;
+    }
+  }
 }
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { getPool } from '../utils/database';
+import { AuthSessionService } from '../services/authSessionService';
+import { PermissionService } from '../services/permissionService';
+import { PERMISSIONS } from '../models/permissionModel';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -9,10 +13,11 @@ export interface AuthRequest extends Request {
     name?: string;
     role: string;
     permissions: string[];
+    sessionId?: string;
   };
 }
 
-export const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction): void => {
+export const authenticateToken = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -27,20 +32,73 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
     return;
   }
 
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    req.user = {
-      id: decoded.id || decoded.userId,
-      address: decoded.address,
-      email: decoded.email,
-      name: decoded.name,
-      role: decoded.role || 'user',
-      permissions: decoded.permissions || []
-    };
-    next();
+    decoded = jwt.verify(token, jwtSecret);
   } catch (error) {
     res.status(403).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  // Tokens issued for a server-side session stop working once it is revoked
+  if (decoded.sid) {
+    try {
+      const active = await new AuthSessionService(getPool()).isSessionActive(decoded.sid, req.ip || null);
+      if (!active) {
+        res.status(401).json({ error: 'Session has been revoked or has expired' });
+        return;
+      }
+    } catch (error) {
+      console.error('Session check error:', error);
+      res.status(500).json({ error: 'Failed to validate session' });
+      return;
+    }
+  }
+
+  const userId = decoded.id || decoded.userId;
+
+  // Role and permissions come from the database, not the token, so grants
+  // and revocations apply to tokens that are already issued
+  let access;
+  try {
+    access = await new PermissionService(getPool()).resolveUser(userId);
+  } catch (error) {
+    console.error('Permission lookup error:', error);
+    res.status(500).json({ error: 'Failed to load permissions' });
+    return;
+  }
+
+  if (!access) {
+    res.status(401).json({ error: 'User no longer exists' });
+    return;
+  }
+  if (!access.isActive) {
+    res.status(403).json({ error: 'Account is deactivated' });
+    return;
   }
+
+  req.user = {
+    id: userId,
+    address: decoded.address,
+    email: decoded.email,
+    name: decoded.name,
+    role: access.role,
+    permissions: access.permissions,
+    sessionId: decoded.sid
+  };
+  next();
+};
+
+/**
+ * Authenticates the request when it carries a token and lets anonymous
+ * requests through, for routes that serve public and private content
+ */
+export const optionalAuthenticateToken = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.headers['authorization']) {
+    next();
+    return;
+  }
+  await authenticateToken(req, res, next);
 };
 
 export const requireRole = (roles: string[]) => {
@@ -73,4 +131,9 @@ export const requirePermission = (permission: string) => {
 
     next();
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Shared guard for admin-only routes
+ */
+export const requireAdmin = requirePermission(PERMISSIONS.ADMIN_ACCESS);
@@ -0,0 +1,147 @@
+import { Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../utils/database';
+import {
+  idempotencyQueries,
+  IdempotencyKeyRecord,
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_PROCESSING_LEASE_SECONDS
+} from '../models/idempotencyModel';
+import { AuthRequest } from './auth';
+
+/**
+ * Serialise with sorted object keys so logically equal bodies hash the same
+ */
+const canonicalize = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const hashRequest = (req: AuthRequest): string =>
+  crypto
+    .createHash('sha256')
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalize(req.body)}`)
+    .digest('hex');
+
+const ageMs = (record: IdempotencyKeyRecord): number => Date.now() - new Date(record.created_at).getTime();
+
+const isExpired = (record: IdempotencyKeyRecord): boolean => ageMs(record) > IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000;
+
+const isLeaseExpired = (record: IdempotencyKeyRecord): boolean =>
+  record.status === 'processing' && ageMs(record) > IDEMPOTENCY_PROCESSING_LEASE_SECONDS * 1000;
+
+/**
+ * Honour an optional `Idempotency-Key` header on money-moving routes.
+ *
+ * The first request for a (user, key) pair runs the handler and stores its
+ * response; later requests with the same key and body get that response
+ * replayed. Reusing a key with a different body is a 409. Server errors
+ * release the key so the client can retry, as does a claim left processing
+ * past its lease. Keys are scoped to the user, so mount after
+ * authenticateToken; on routes without a user the header is ignored, as
+ * anonymous callers could otherwise replay each other's responses.
+ */
+export const idempotent = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.header('Idempotency-Key');
+  if (!key || !req.user) {
+    next();
+    return;
+  }
+
+  if (key.length > 255) {
+    res.status(400).json({ error: 'Idempotency-Key must be at most 255 characters' });
+    return;
+  }
+
+  const userId = req.user.id;
+  const requestHash = hashRequest(req);
+  const recordId = uuidv4();
+
+  try {
+    let claimed = false;
+    for (let attempt = 0; attempt < 2 && !claimed; attempt++) {
+      try {
+        await query(idempotencyQueries.insert, [
+          recordId,
+          userId,
+          key,
+          req.method,
+          `${req.baseUrl}${req.path}`,
+          requestHash
+        ]);
+        claimed = true;
+      } catch (error: any) {
+        if (error?.code !== 'ER_DUP_ENTRY') throw error;
+
+        const rows: IdempotencyKeyRecord[] = await query(idempotencyQueries.findByUserAndKey, [userId, key]);
+        const existing = rows[0];
+        if (!existing) continue;
+
+        if (isExpired(existing)) {
+          await query(idempotencyQueries.deleteById, [existing.id]);
+          continue;
+        }
+
+        if (existing.request_hash !== requestHash) {
+          res.status(409).json({ error: 'Idempotency-Key was already used with a different request' });
+          return;
+        }
+
+        // The request holding the key died without responding; let this one retry
+        if (isLeaseExpired(existing)) {
+          await query(idempotencyQueries.deleteStaleProcessing, [existing.id]);
+          continue;
+        }
+
+        if (existing.status === 'processing') {
+          res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+          return;
+        }
+
+        const body = typeof existing.response_body === 'string'
+          ? JSON.parse(existing.response_body)
+          : existing.response_body;
+
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(existing.response_status || 200).json(body);
+        return;
+      }
+    }
+
+    if (!claimed) {
+      res.status(409).json({ error: 'Could not claim Idempotency-Key, please retry' });
+      return;
+    }
+  } catch (error) {
+    console.error('Idempotency key check failed:', error);
+    res.status(500).json({ error: 'Failed to process Idempotency-Key' });
+    return;
+  }
+
+  // Capture the handler's JSON response so it can be replayed later
+  let responseBody: any;
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => {
+    responseBody = body;
+    return originalJson(body);
+  };
+
+  res.on('finish', () => {
+    const persist = res.statusCode >= 500 || responseBody === undefined
+      ? query(idempotencyQueries.deleteById, [recordId])
+      : query(idempotencyQueries.complete, [res.statusCode, JSON.stringify(responseBody), recordId]);
+
+    persist.catch(error => console.error('Failed to store idempotent response:', error));
+  });
+
+  next();
+};
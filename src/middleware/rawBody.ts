@@ -0,0 +1,20 @@
+import { Request } from 'express';
+import { IncomingMessage } from 'http';
+
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+/**
+ * `verify` hook for the body parsers: keeps the exact bytes received so
+ * webhook signatures can be checked against them after JSON parsing
+ */
+export const captureRawBody = (req: IncomingMessage, _res: unknown, buffer: Buffer): void => {
+  (req as RawBodyRequest).rawBody = buffer;
+};
+
+/**
+ * The body as it arrived, whether the JSON parser or express.raw read it
+ */
+export const getRawBody = (req: RawBodyRequest): Buffer =>
+  req.rawBody ?? (Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0));
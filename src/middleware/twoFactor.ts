@@ -0,0 +1,66 @@
+import { Response, NextFunction } from 'express';
+import { getPool } from '../utils/database';
+import { TwoFactorService } from '../services/twoFactorService';
+import { SUPER_ADMIN_USER_ID } from '../models/permissionModel';
+import { AuthRequest } from './auth';
+
+/**
+ * Step-up verification for sensitive routes. Users with 2FA enabled must
+ * send either an `X-Step-Up-Token` from POST /api/auth/2fa/step-up or a
+ * current code in `X-2FA-Code`. With `enrolmentRequired`, users who have not
+ * enabled 2FA are refused instead of let through. The password-only
+ * super-admin has no users row to enrol against, so those routes are closed
+ * to it. Mount after authenticateToken.
+ */
+export const requireStepUp = (options: { enrolmentRequired?: boolean } = {}) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    try {
+      const twoFactorService = new TwoFactorService(getPool());
+
+      if (!(await twoFactorService.isEnabled(req.user.id))) {
+        if (options.enrolmentRequired && req.user.id === SUPER_ADMIN_USER_ID) {
+          res.status(403).json({ error: 'The super-admin login cannot enrol in two-factor authentication; use an enrolled admin account' });
+          return;
+        }
+        if (options.enrolmentRequired) {
+          res.status(403).json({
+            error: 'Two-factor authentication must be enabled for this action',
+            twoFactorEnrolmentRequired: true
+          });
+          return;
+        }
+        next();
+        return;
+      }
+
+      const stepUpToken = req.header('X-Step-Up-Token');
+      if (stepUpToken && twoFactorService.verifyStepUpToken(stepUpToken, req.user.id, req.user.sessionId)) {
+        next();
+        return;
+      }
+
+      const code = req.header('X-2FA-Code');
+      if (!code) {
+        res.status(403).json({ error: 'Two-factor verification required', twoFactorRequired: true });
+        return;
+      }
+
+      try {
+        await twoFactorService.verifyCode(req.user.id, code);
+      } catch (error: any) {
+        res.status(403).json({ error: error.message || 'Invalid verification code', twoFactorRequired: true });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Step-up verification error:', error);
+      res.status(500).json({ error: 'Failed to verify second factor' });
+    }
+  };
+};
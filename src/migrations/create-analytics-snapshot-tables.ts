@@ -0,0 +1,69 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the daily platform and per-property analytics snapshot tables
+ */
+export async function createAnalyticsSnapshotTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // One row per UTC day. Counts such as active_listings are as of the end
+    // of the day (or capture time for today); bids_placed, bid_volume,
+    // new_users and disbursed_by_currency cover only that day.
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS platform_daily_snapshots (
+        snapshot_date DATE PRIMARY KEY,
+        total_aum DECIMAL(24, 2) NOT NULL DEFAULT 0,
+        total_properties INT NOT NULL DEFAULT 0,
+        unique_locations INT NOT NULL DEFAULT 0,
+        avg_property_value DECIMAL(24, 2) NOT NULL DEFAULT 0,
+        total_listings INT NOT NULL DEFAULT 0,
+        active_listings INT NOT NULL DEFAULT 0,
+        auction_listings INT NOT NULL DEFAULT 0,
+        fixed_price_listings INT NOT NULL DEFAULT 0,
+        avg_active_price DECIMAL(36, 8) NOT NULL DEFAULT 0,
+        active_listing_volume DECIMAL(36, 8) NOT NULL DEFAULT 0,
+        total_bids INT NOT NULL DEFAULT 0,
+        active_bids INT NOT NULL DEFAULT 0,
+        bids_placed INT NOT NULL DEFAULT 0,
+        bid_volume DECIMAL(36, 8) NOT NULL DEFAULT 0,
+        avg_active_bid DECIMAL(36, 8) NOT NULL DEFAULT 0,
+        max_active_bid DECIMAL(36, 8) NOT NULL DEFAULT 0,
+        total_users INT NOT NULL DEFAULT 0,
+        investor_count INT NOT NULL DEFAULT 0,
+        seller_count INT NOT NULL DEFAULT 0,
+        new_users INT NOT NULL DEFAULT 0,
+        active_subscribers INT NOT NULL DEFAULT 0,
+        subscribed_by_currency JSON NOT NULL,
+        disbursed_by_currency JSON NOT NULL,
+        captured_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS property_daily_snapshots (
+        snapshot_date DATE NOT NULL,
+        property_id VARCHAR(36) NOT NULL,
+        assessed_value DECIMAL(24, 2) NOT NULL DEFAULT 0,
+        active_listings INT NOT NULL DEFAULT 0,
+        lowest_active_price DECIMAL(36, 8) NULL,
+        bids_placed INT NOT NULL DEFAULT 0,
+        bid_volume DECIMAL(36, 8) NOT NULL DEFAULT 0,
+        active_subscribers INT NOT NULL DEFAULT 0,
+        subscribed_share DECIMAL(10, 4) NOT NULL DEFAULT 0,
+        subscribed_by_currency JSON NOT NULL,
+        disbursed_by_currency JSON NOT NULL,
+        captured_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (property_id, snapshot_date),
+        KEY idx_snapshot_date (snapshot_date)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Analytics snapshot tables created successfully');
+  } catch (error) {
+    console.error('Error creating analytics snapshot tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
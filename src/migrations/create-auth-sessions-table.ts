@@ -0,0 +1,37 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the auth_sessions table backing refresh tokens and the device list
+ */
+export async function createAuthSessionsTable(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // One row per login; only hashes of refresh tokens are stored
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id VARCHAR(36) NOT NULL,
+        refresh_token_hash CHAR(64) NOT NULL,
+        previous_token_hash CHAR(64) NULL,
+        claims JSON NOT NULL,
+        device_name VARCHAR(255),
+        user_agent VARCHAR(512),
+        ip_address VARCHAR(64),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP NULL,
+        revoked_reason VARCHAR(50),
+        KEY idx_user_active (user_id, revoked_at, expires_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Auth sessions table created successfully');
+  } catch (error) {
+    console.error('Error creating auth sessions table:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
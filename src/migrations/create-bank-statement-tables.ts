@@ -0,0 +1,102 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Bank statement imports and their lines, matched against pending bank
+ * transfers to confirm subscriptions paid offline
+ */
+export async function createBankStatementTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // ========== Pending Transfers ==========
+
+    // Same shape as add_payment_and_allotment_tables.sql, for databases that never ran it
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS pending_transfers (
+        id VARCHAR(36) PRIMARY KEY,
+        subscription_id VARCHAR(36) NOT NULL,
+        amount DECIMAL(18, 2) NOT NULL,
+        currency VARCHAR(3) NOT NULL DEFAULT 'NZD',
+        account_holder VARCHAR(255) NOT NULL,
+        account_number VARCHAR(50) NOT NULL,
+        bank_name VARCHAR(255) NOT NULL,
+        reference VARCHAR(100),
+        subscriber_user_id VARCHAR(36),
+        status VARCHAR(50) NOT NULL DEFAULT 'PENDING' COMMENT 'PENDING, RECONCILED, FAILED',
+        reconciled_at TIMESTAMP NULL,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_subscription (subscription_id),
+        INDEX idx_status (status),
+        INDEX idx_subscriber (subscriber_user_id),
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      ALTER TABLE pending_transfers
+      ADD COLUMN IF NOT EXISTS statement_line_id VARCHAR(36) NULL AFTER status,
+      ADD COLUMN IF NOT EXISTS payment_id VARCHAR(36) NULL AFTER statement_line_id,
+      ADD KEY IF NOT EXISTS idx_reference (reference)
+    `);
+
+    // ========== Statements ==========
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS bank_statement_imports (
+        id VARCHAR(36) PRIMARY KEY,
+        format ENUM('csv', 'nz-bank', 'ofx') NOT NULL,
+        file_name VARCHAR(255) NULL,
+        account_number VARCHAR(50) NULL,
+        currency VARCHAR(3) NULL,
+        line_count INT NOT NULL DEFAULT 0,
+        matched_count INT NOT NULL DEFAULT 0,
+        unmatched_count INT NOT NULL DEFAULT 0,
+        duplicate_count INT NOT NULL DEFAULT 0,
+        imported_by VARCHAR(36) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_created_at (created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // fingerprint stops overlapping statements importing the same line twice;
+    // unmatched credits are the admin review queue
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS bank_statement_lines (
+        id VARCHAR(36) PRIMARY KEY,
+        import_id VARCHAR(36) NOT NULL,
+        line_number INT NOT NULL,
+        transaction_date DATE NOT NULL,
+        amount DECIMAL(18, 2) NOT NULL,
+        currency VARCHAR(3) NULL,
+        description VARCHAR(500) NULL,
+        reference VARCHAR(255) NULL,
+        bank_transaction_id VARCHAR(255) NULL,
+        fingerprint CHAR(64) NOT NULL,
+        status ENUM('unmatched', 'matched', 'ignored') NOT NULL DEFAULT 'unmatched',
+        review_reason VARCHAR(50) NULL,
+        candidate_transfer_ids JSON NULL,
+        pending_transfer_id VARCHAR(36) NULL,
+        payment_id VARCHAR(36) NULL,
+        match_type ENUM('auto', 'manual') NULL,
+        resolved_by VARCHAR(36) NULL,
+        resolution_note VARCHAR(500) NULL,
+        resolved_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_fingerprint (fingerprint),
+        KEY idx_import (import_id, line_number),
+        KEY idx_status (status, transaction_date),
+        KEY idx_transfer (pending_transfer_id),
+        FOREIGN KEY (import_id) REFERENCES bank_statement_imports(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Bank statement tables created successfully');
+  } catch (error) {
+    console.error('Error creating bank statement tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
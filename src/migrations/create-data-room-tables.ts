@@ -0,0 +1,75 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the property data-room tables: typed documents, their version
+ * history and the download audit log
+ */
+export async function createDataRoomTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS property_documents (
+        id VARCHAR(36) PRIMARY KEY,
+        property_id VARCHAR(36) NOT NULL,
+        document_type ENUM('title_deed', 'valuation', 'insurance', 'lease', 'building_report', 'financials', 'legal', 'other') NOT NULL,
+        title VARCHAR(255) NOT NULL,
+        access_level ENUM('public', 'subscribers', 'kyc_verified') NOT NULL DEFAULT 'subscribers',
+        current_version INT NOT NULL DEFAULT 1,
+        created_by VARCHAR(36) NULL,
+        archived_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        KEY idx_property (property_id, archived_at),
+        FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Versions are never overwritten; storage_key addresses the content by
+    // its SHA-256 so identical uploads share one stored file
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS property_document_versions (
+        id VARCHAR(36) PRIMARY KEY,
+        document_id VARCHAR(36) NOT NULL,
+        version INT NOT NULL,
+        file_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(127) NOT NULL,
+        size_bytes BIGINT NOT NULL,
+        sha256 CHAR(64) NOT NULL,
+        storage_backend VARCHAR(32) NOT NULL,
+        storage_key VARCHAR(255) NOT NULL,
+        notes TEXT NULL,
+        uploaded_by VARCHAR(36) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_document_version (document_id, version),
+        KEY idx_sha256 (sha256),
+        FOREIGN KEY (document_id) REFERENCES property_documents(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Kept when users are deleted so the audit trail survives
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS property_document_downloads (
+        id VARCHAR(36) PRIMARY KEY,
+        document_id VARCHAR(36) NOT NULL,
+        version_id VARCHAR(36) NOT NULL,
+        property_id VARCHAR(36) NOT NULL,
+        user_id VARCHAR(36) NULL,
+        access_level VARCHAR(32) NOT NULL,
+        ip_address VARCHAR(45) NULL,
+        user_agent VARCHAR(512) NULL,
+        downloaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_document (document_id, downloaded_at),
+        KEY idx_property (property_id, downloaded_at),
+        KEY idx_user (user_id, downloaded_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Data room tables created successfully');
+  } catch (error) {
+    console.error('Error creating data room tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,72 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Chargebacks and payment disputes, opened by gateway webhooks or recorded
+ * by an admin, with the evidence prepared to contest them
+ */
+export async function createDisputeTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS payment_disputes (
+        id VARCHAR(36) PRIMARY KEY,
+        payment_id VARCHAR(36) NOT NULL,
+        subscription_id VARCHAR(36) NULL,
+        gateway VARCHAR(50) NOT NULL,
+        gateway_dispute_id VARCHAR(255) NULL,
+        amount DECIMAL(18, 2) NOT NULL,
+        currency VARCHAR(20) NOT NULL,
+        reason VARCHAR(255) NOT NULL,
+        status ENUM('needs_response', 'under_review', 'won', 'lost') NOT NULL DEFAULT 'needs_response',
+        evidence JSON NULL,
+        evidence_due_by TIMESTAMP NULL,
+        evidence_submitted_at TIMESTAMP NULL,
+        evidence_submitted_by VARCHAR(36) NULL,
+        submitted_to_gateway TINYINT(1) NOT NULL DEFAULT 0,
+        subscription_frozen TINYINT(1) NOT NULL DEFAULT 0,
+        opened_by VARCHAR(36) NULL,
+        resolved_by VARCHAR(36) NULL,
+        resolution_note VARCHAR(500) NULL,
+        closed_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_gateway_dispute (gateway, gateway_dispute_id),
+        KEY idx_payment (payment_id),
+        KEY idx_subscription (subscription_id, status),
+        KEY idx_status (status, evidence_due_by),
+        FOREIGN KEY (payment_id) REFERENCES payment_transactions(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // A dispute lost in full leaves the payment charged back and claws back its wallet credits
+    await connection.execute(`
+      ALTER TABLE payment_transactions
+      MODIFY COLUMN state ENUM('created', 'authorized', 'captured', 'settled', 'failed', 'refunded', 'disputed', 'chargeback')
+        NOT NULL DEFAULT 'created'
+    `);
+
+    await connection.execute(`
+      ALTER TABLE wallet_transactions
+      MODIFY COLUMN transaction_type ENUM(
+        'deposit', 'withdraw', 'withdrawal', 'withdrawal_fee', 'transfer', 'internal_transfer',
+        'subscription_payment', 'roi_disbursement', 'refund', 'chargeback'
+      ) NOT NULL
+    `);
+
+    await connection.execute(`
+      ALTER TABLE ledger_journal_entries
+      MODIFY COLUMN entry_type ENUM(
+        'opening_balance', 'deposit', 'withdrawal', 'withdrawal_fee', 'transfer',
+        'subscription_payment', 'roi_disbursement', 'refund', 'chargeback', 'adjustment'
+      ) NOT NULL
+    `);
+
+    console.log('Dispute tables created successfully');
+  } catch (error) {
+    console.error('Error creating dispute tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
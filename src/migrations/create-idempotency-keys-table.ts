@@ -0,0 +1,29 @@
+// Migration script to create the idempotency_keys table
+// Run this after setting up the database connection
+
+import { query } from '../utils/database';
+import { idempotencyQueries } from '../models/idempotencyModel';
+
+export async function createIdempotencyKeysTable(): Promise<void> {
+  try {
+    console.log('Creating idempotency_keys table...');
+    await query(idempotencyQueries.createTable, []);
+    console.log('✓ idempotency_keys table created');
+  } catch (error) {
+    console.error('Error creating idempotency_keys table:', error);
+    throw error;
+  }
+}
+
+// Run migration if executed directly
+if (require.main === module) {
+  createIdempotencyKeysTable()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,111 @@
+import { Pool } from 'mysql2/promise';
+import { LedgerService } from '../services/ledgerService';
+
+/**
+ * Create double-entry ledger tables and seed opening balances
+ * for wallets that existed before the ledger
+ */
+export async function createLedgerTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // ========== Ledger Tables ==========
+
+    // Chart of accounts: one per user wallet and asset, plus platform system accounts
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS ledger_accounts (
+        id VARCHAR(36) PRIMARY KEY,
+        account_code VARCHAR(100) NOT NULL UNIQUE,
+        account_type ENUM('user_wallet', 'system') NOT NULL,
+        wallet_id VARCHAR(36) NULL,
+        name VARCHAR(255) NOT NULL,
+        currency VARCHAR(10) NOT NULL DEFAULT 'USDC',
+        normal_balance ENUM('debit', 'credit') NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_wallet_currency (wallet_id, currency),
+        KEY idx_account_type (account_type),
+        FOREIGN KEY (wallet_id) REFERENCES user_wallets(id) ON DELETE RESTRICT
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Ledgers created before multi-asset wallets allowed one account per wallet
+    await connection.execute(`
+      ALTER TABLE ledger_accounts
+      ADD UNIQUE KEY IF NOT EXISTS uniq_wallet_currency (wallet_id, currency)
+    `);
+    await connection.execute(`
+      ALTER TABLE ledger_accounts
+      DROP INDEX IF EXISTS wallet_id
+    `);
+
+    // One row per business event; postings hang off it
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS ledger_journal_entries (
+        id VARCHAR(36) PRIMARY KEY,
+        entry_type ENUM('opening_balance', 'deposit', 'withdrawal', 'withdrawal_fee', 'transfer', 'subscription_payment', 'roi_disbursement', 'refund', 'adjustment') NOT NULL,
+        reference_type VARCHAR(50),
+        reference_id VARCHAR(36),
+        description TEXT,
+        metadata JSON,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_entry_type (entry_type),
+        KEY idx_reference (reference_type, reference_id),
+        KEY idx_created_at (created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Append-only debit/credit lines; each entry's postings net to zero
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS ledger_postings (
+        id VARCHAR(36) PRIMARY KEY,
+        journal_entry_id VARCHAR(36) NOT NULL,
+        account_id VARCHAR(36) NOT NULL,
+        direction ENUM('debit', 'credit') NOT NULL,
+        amount DECIMAL(18, 6) NOT NULL,
+        currency VARCHAR(10) NOT NULL DEFAULT 'USDC',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_journal_entry_id (journal_entry_id),
+        KEY idx_account_created (account_id, created_at),
+        FOREIGN KEY (journal_entry_id) REFERENCES ledger_journal_entries(id) ON DELETE RESTRICT,
+        FOREIGN KEY (account_id) REFERENCES ledger_accounts(id) ON DELETE RESTRICT
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Cached per-asset wallet balances, written only alongside ledger postings
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS wallet_balances (
+        wallet_id VARCHAR(36) NOT NULL,
+        asset VARCHAR(10) NOT NULL,
+        balance DECIMAL(18, 6) NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (wallet_id, asset),
+        FOREIGN KEY (wallet_id) REFERENCES user_wallets(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Existing USDC balances carry over as each wallet's USDC row
+    await connection.execute(`
+      INSERT IGNORE INTO wallet_balances (wallet_id, asset, balance)
+      SELECT id, 'USDC', COALESCE(balance_usdc, 0) FROM user_wallets
+    `);
+
+    // Link wallet history rows to the entry that moved the money
+    await connection.execute(`
+      ALTER TABLE wallet_transactions
+      ADD COLUMN IF NOT EXISTS journal_entry_id VARCHAR(36) NULL,
+      ADD KEY IF NOT EXISTS idx_journal_entry_id (journal_entry_id)
+    `);
+
+    console.log('Ledger tables created successfully');
+  } catch (error) {
+    console.error('Error creating ledger tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  const seeded = await new LedgerService(pool).backfillOpeningBalances();
+  if (seeded > 0) {
+    console.log(`Seeded opening ledger balances for ${seeded} wallet(s)`);
+  }
+}
@@ -0,0 +1,83 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create notification preference, webhook and delivery tracking tables
+ */
+export async function createNotificationDeliveryTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Hidden from the in-app list when the user turned the in-app channel off
+    await connection.execute(`
+      ALTER TABLE notifications
+      ADD COLUMN IF NOT EXISTS in_app_visible BOOLEAN NOT NULL DEFAULT TRUE
+    `);
+
+    // Only overrides are stored; defaults live in code
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notification_preferences (
+        user_id VARCHAR(36) NOT NULL,
+        notification_type VARCHAR(50) NOT NULL,
+        channel ENUM('in_app', 'email', 'webhook') NOT NULL,
+        enabled BOOLEAN NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, notification_type, channel),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notification_webhooks (
+        user_id VARCHAR(36) PRIMARY KEY,
+        url VARCHAR(2048) NOT NULL,
+        secret VARCHAR(128) NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // One row per notification and channel
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notification_deliveries (
+        id VARCHAR(36) PRIMARY KEY,
+        notification_id VARCHAR(36) NOT NULL,
+        user_id VARCHAR(36) NOT NULL,
+        channel ENUM('in_app', 'email', 'webhook') NOT NULL,
+        status ENUM('pending', 'delivered', 'failed') NOT NULL DEFAULT 'pending',
+        attempts INT NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMP NULL,
+        delivered_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        KEY idx_status_next_attempt (status, next_attempt_at),
+        KEY idx_notification_id (notification_id),
+        KEY idx_user_created (user_id, created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notification_delivery_attempts (
+        id VARCHAR(36) PRIMARY KEY,
+        delivery_id VARCHAR(36) NOT NULL,
+        attempt_number INT NOT NULL,
+        succeeded BOOLEAN NOT NULL,
+        response_code INT NULL,
+        error TEXT,
+        duration_ms INT NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_delivery_id (delivery_id),
+        FOREIGN KEY (delivery_id) REFERENCES notification_deliveries(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Notification delivery tables created successfully');
+  } catch (error) {
+    console.error('Error creating notification delivery tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
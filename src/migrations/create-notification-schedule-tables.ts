@@ -0,0 +1,44 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the per-user digest and quiet-hours settings, and the delivery
+ * states for notifications waiting on a digest
+ */
+export async function createNotificationScheduleTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Users without a row get immediate delivery and no quiet hours
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notification_schedules (
+        user_id VARCHAR(36) PRIMARY KEY,
+        digest_frequency ENUM('immediate', 'hourly', 'daily') NOT NULL DEFAULT 'immediate',
+        digest_hour TINYINT UNSIGNED NOT NULL DEFAULT 8,
+        timezone VARCHAR(64) NULL,
+        quiet_hours_start CHAR(5) NULL,
+        quiet_hours_end CHAR(5) NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      ALTER TABLE notification_deliveries
+      MODIFY COLUMN status ENUM('pending', 'batched', 'digested', 'delivered', 'failed') NOT NULL DEFAULT 'pending'
+    `);
+
+    // Set on deliveries folded into a digest; points at the digest notification
+    await connection.execute(`
+      ALTER TABLE notification_deliveries
+      ADD COLUMN IF NOT EXISTS digest_notification_id VARCHAR(36) NULL,
+      ADD KEY IF NOT EXISTS idx_digest_notification_id (digest_notification_id)
+    `);
+
+    console.log('Notification schedule tables created successfully');
+  } catch (error) {
+    console.error('Error creating notification schedule tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,44 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the notification template table and the user locale column
+ */
+export async function createNotificationTemplateTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Admin-edited copy; types and locales without a row use the defaults in code
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS notification_templates (
+        id VARCHAR(36) PRIMARY KEY,
+        notification_type VARCHAR(50) NOT NULL,
+        locale VARCHAR(16) NOT NULL,
+        title_template TEXT NOT NULL,
+        message_template TEXT NOT NULL,
+        updated_by VARCHAR(36) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_type_locale (notification_type, locale)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS locale VARCHAR(16) NULL
+    `);
+
+    // Templated notifications are re-rendered from their data whenever they
+    // are delivered; title and message hold the rendering at creation time
+    await connection.execute(`
+      ALTER TABLE notifications
+      ADD COLUMN IF NOT EXISTS templated BOOLEAN NOT NULL DEFAULT FALSE
+    `);
+
+    console.log('Notification template tables created successfully');
+  } catch (error) {
+    console.error('Error creating notification template tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
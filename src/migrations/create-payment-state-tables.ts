@@ -0,0 +1,103 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Payment lifecycle: a state on every gateway transaction, the history of
+ * transitions, and the webhook events already applied
+ */
+export async function createPaymentStateTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // ========== Payment Transactions ==========
+
+    // Same shape as add_payment_and_allotment_tables.sql, for databases that never ran it
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS payment_transactions (
+        id VARCHAR(36) PRIMARY KEY,
+        property_id VARCHAR(36),
+        subscriber_user_id VARCHAR(36),
+        amount DECIMAL(18, 2) NOT NULL,
+        currency VARCHAR(3) NOT NULL DEFAULT 'AUD',
+        gateway VARCHAR(50) NOT NULL,
+        gateway_transaction_id VARCHAR(255) NOT NULL,
+        status VARCHAR(50) NOT NULL,
+        metadata JSON,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_subscriber (subscriber_user_id),
+        INDEX idx_property (property_id),
+        INDEX idx_gateway_tx (gateway_transaction_id),
+        INDEX idx_status (status),
+        FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // status stays as the legacy summary (PENDING/COMPLETED/...); state drives the lifecycle
+    await connection.execute(`
+      ALTER TABLE payment_transactions
+      ADD COLUMN IF NOT EXISTS subscription_id VARCHAR(36) NULL AFTER subscriber_user_id,
+      ADD COLUMN IF NOT EXISTS state ENUM('created', 'authorized', 'captured', 'settled', 'failed', 'refunded', 'disputed', 'chargeback')
+        NOT NULL DEFAULT 'created' AFTER status,
+      ADD COLUMN IF NOT EXISTS state_changed_at TIMESTAMP NULL AFTER state,
+      ADD COLUMN IF NOT EXISTS failure_reason VARCHAR(500) NULL AFTER state_changed_at,
+      ADD KEY IF NOT EXISTS idx_gateway_transaction (gateway, gateway_transaction_id),
+      ADD KEY IF NOT EXISTS idx_subscription (subscription_id)
+    `);
+
+    // Rows written before states existed
+    await connection.execute(`
+      UPDATE payment_transactions
+      SET state = CASE status WHEN 'COMPLETED' THEN 'settled' WHEN 'FAILED' THEN 'failed' ELSE 'refunded' END,
+          state_changed_at = updated_at
+      WHERE state = 'created' AND state_changed_at IS NULL AND status IN ('COMPLETED', 'FAILED', 'REFUNDED')
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS payment_state_transitions (
+        id VARCHAR(36) PRIMARY KEY,
+        payment_id VARCHAR(36) NOT NULL,
+        from_state VARCHAR(20) NULL,
+        to_state VARCHAR(20) NOT NULL,
+        source ENUM('api', 'webhook', 'admin', 'system') NOT NULL,
+        event_id VARCHAR(255) NULL,
+        note VARCHAR(500) NULL,
+        created_by VARCHAR(36) NULL,
+        created_at TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP(3),
+        KEY idx_payment (payment_id, created_at),
+        FOREIGN KEY (payment_id) REFERENCES payment_transactions(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // ========== Webhook Events ==========
+
+    // One row per applied gateway event so redeliveries are acknowledged without replaying
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS payment_webhook_events (
+        id VARCHAR(36) PRIMARY KEY,
+        gateway VARCHAR(50) NOT NULL,
+        event_id VARCHAR(255) NOT NULL,
+        event_type VARCHAR(100) NOT NULL,
+        payment_id VARCHAR(36) NULL,
+        outcome ENUM('applied', 'ignored', 'flagged') NOT NULL,
+        received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_gateway_event (gateway, event_id),
+        KEY idx_payment (payment_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // ========== Subscriptions ==========
+
+    // Subscriptions paid by redirect or bank transfer wait here until the payment settles
+    await connection.execute(`
+      ALTER TABLE subscriptions
+      MODIFY COLUMN status ENUM('PENDING', 'ACTIVE', 'INACTIVE', 'CANCELLED', 'EXPIRED') DEFAULT 'ACTIVE'
+    `);
+
+    console.log('Payment state tables created successfully');
+  } catch (error) {
+    console.error('Error creating payment state tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
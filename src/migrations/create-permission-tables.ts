@@ -0,0 +1,111 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { PERMISSION_DESCRIPTIONS, DEFAULT_ROLES } from '../models/permissionModel';
+
+/**
+ * Create role and permission tables, seed the default catalogue and carry
+ * over permissions that were stored on the user row
+ */
+export async function createPermissionTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS roles (
+        name VARCHAR(50) PRIMARY KEY,
+        description VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS permissions (
+        name VARCHAR(100) PRIMARY KEY,
+        description VARCHAR(255)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS role_permissions (
+        role VARCHAR(50) NOT NULL,
+        permission VARCHAR(100) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (role, permission),
+        FOREIGN KEY (role) REFERENCES roles(name) ON DELETE CASCADE,
+        FOREIGN KEY (permission) REFERENCES permissions(name) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Per-user allow/deny on top of the role
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_permissions (
+        user_id VARCHAR(36) NOT NULL,
+        permission VARCHAR(100) NOT NULL,
+        effect ENUM('allow', 'deny') NOT NULL DEFAULT 'allow',
+        granted_by VARCHAR(36) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, permission),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (permission) REFERENCES permissions(name) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    for (const [name, description] of Object.entries(PERMISSION_DESCRIPTIONS)) {
+      await connection.execute(
+        'INSERT IGNORE INTO permissions (name, description) VALUES (?, ?)',
+        [name, description]
+      );
+    }
+
+    // Role permissions are only seeded for roles that do not exist yet so
+    // admin edits survive restarts
+    for (const [role, definition] of Object.entries(DEFAULT_ROLES)) {
+      const [existing] = await connection.query<RowDataPacket[]>('SELECT name FROM roles WHERE name = ?', [role]);
+      if (existing.length > 0) continue;
+
+      await connection.execute('INSERT INTO roles (name, description) VALUES (?, ?)', [role, definition.description]);
+      for (const permission of definition.permissions) {
+        await connection.execute(
+          'INSERT IGNORE INTO role_permissions (role, permission) VALUES (?, ?)',
+          [role, permission]
+        );
+      }
+    }
+
+    // Permissions previously baked into users.permissions become explicit
+    // allows, once, and only where the user's role does not already grant them
+    const [overrideCount] = await connection.query<RowDataPacket[]>('SELECT COUNT(*) AS total FROM user_permissions');
+    if (Number(overrideCount[0].total) === 0) {
+      const [users] = await connection.query<RowDataPacket[]>(
+        'SELECT id, role, permissions FROM users WHERE permissions IS NOT NULL AND JSON_LENGTH(permissions) > 0'
+      );
+
+      for (const user of users) {
+        let legacy: unknown;
+        try {
+          legacy = typeof user.permissions === 'string' ? JSON.parse(user.permissions) : user.permissions;
+        } catch {
+          continue;
+        }
+        if (!Array.isArray(legacy)) continue;
+
+        const rolePermissions: string[] = DEFAULT_ROLES[user.role || 'user']?.permissions || [];
+        for (const permission of legacy) {
+          if (typeof permission !== 'string' || !(permission in PERMISSION_DESCRIPTIONS)) continue;
+          if (rolePermissions.includes(permission)) continue;
+          await connection.execute(
+            `INSERT IGNORE INTO user_permissions (user_id, permission, effect) VALUES (?, ?, 'allow')`,
+            [user.id, permission]
+          );
+        }
+      }
+    }
+
+    console.log('Permission tables created successfully');
+  } catch (error) {
+    console.error('Error creating permission tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,31 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the event log behind the real-time stream
+ */
+export async function createRealtimeEventsTable(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Sequential ids double as SSE event ids so clients can resume after a
+    // reconnect; rows without a user are broadcast to every stream
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS realtime_events (
+        id BIGINT UNSIGNED AUTO_INCREMENT PRIMARY KEY,
+        user_id VARCHAR(36) NULL,
+        event_type VARCHAR(100) NOT NULL,
+        payload JSON NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_user_id (user_id, id),
+        KEY idx_created_at (created_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Realtime events table created successfully');
+  } catch (error) {
+    console.error('Error creating realtime events table:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,61 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create reconciliation run and discrepancy report tables
+ */
+export async function createReconciliationTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // One row per reconciliation pass (nightly or admin-triggered)
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS reconciliation_runs (
+        id VARCHAR(36) PRIMARY KEY,
+        status ENUM('running', 'completed', 'failed') DEFAULT 'running',
+        triggered_by VARCHAR(255) NOT NULL,
+        wallets_checked INT DEFAULT 0,
+        disbursements_checked INT DEFAULT 0,
+        discrepancies_found INT DEFAULT 0,
+        error_message TEXT,
+        started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        completed_at TIMESTAMP NULL,
+        KEY idx_status (status),
+        KEY idx_started_at (started_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Findings awaiting admin review; one open row per entity and type
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+        id VARCHAR(36) PRIMARY KEY,
+        run_id VARCHAR(36) NOT NULL,
+        last_seen_run_id VARCHAR(36) NOT NULL,
+        discrepancy_type VARCHAR(50) NOT NULL,
+        entity_type ENUM('wallet', 'disbursement') NOT NULL,
+        entity_id VARCHAR(36) NOT NULL,
+        asset VARCHAR(10) NULL,
+        expected_value VARCHAR(255),
+        actual_value TEXT,
+        details JSON,
+        status ENUM('open', 'resolved', 'ignored') DEFAULT 'open',
+        resolved_by VARCHAR(36),
+        resolution_note TEXT,
+        resolved_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        KEY idx_run_id (run_id),
+        KEY idx_status (status),
+        KEY idx_entity (entity_type, entity_id),
+        KEY idx_discrepancy_type (discrepancy_type),
+        FOREIGN KEY (run_id) REFERENCES reconciliation_runs(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Reconciliation tables created successfully');
+  } catch (error) {
+    console.error('Error creating reconciliation tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,49 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Subscription refund requests: raised by the subscriber, approved by an
+ * admin, then paid back through the gateway or credited to the wallet
+ */
+export async function createRefundTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS refund_requests (
+        id VARCHAR(36) PRIMARY KEY,
+        subscription_id VARCHAR(36) NOT NULL,
+        payment_id VARCHAR(36) NULL,
+        amount DECIMAL(18, 2) NOT NULL,
+        currency VARCHAR(20) NOT NULL,
+        reason VARCHAR(500) NOT NULL,
+        status ENUM('requested', 'processing', 'completed', 'failed', 'rejected') NOT NULL DEFAULT 'requested',
+        method ENUM('gateway', 'wallet') NULL,
+        requested_by VARCHAR(36) NOT NULL,
+        reviewed_by VARCHAR(36) NULL,
+        review_note VARCHAR(500) NULL,
+        reviewed_at TIMESTAMP NULL,
+        gateway VARCHAR(50) NULL,
+        gateway_refund_id VARCHAR(255) NULL,
+        wallet_transaction_id VARCHAR(36) NULL,
+        share_percentage_before DECIMAL(10, 4) NULL,
+        share_percentage_after DECIMAL(10, 4) NULL,
+        failure_reason VARCHAR(500) NULL,
+        completed_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        KEY idx_subscription (subscription_id, status),
+        KEY idx_status (status, created_at),
+        KEY idx_payment (payment_id),
+        KEY idx_wallet_transaction (wallet_transaction_id),
+        FOREIGN KEY (subscription_id) REFERENCES subscriptions(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Refund tables created successfully');
+  } catch (error) {
+    console.error('Error creating refund tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,29 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the single-use nonce table for Sign-In with Ethereum
+ */
+export async function createSiweNoncesTable(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Nonces are issued by the server and consumed by the first successful login
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS siwe_nonces (
+        nonce VARCHAR(64) PRIMARY KEY,
+        address VARCHAR(42) NULL,
+        issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL,
+        consumed_at TIMESTAMP NULL,
+        KEY idx_expires_at (expires_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('SIWE nonces table created successfully');
+  } catch (error) {
+    console.error('Error creating SIWE nonces table:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
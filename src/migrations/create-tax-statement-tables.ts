@@ -0,0 +1,45 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the stored tax statement table and record tax withheld on
+ * disbursements
+ */
+export async function createTaxStatementTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Statements for closed financial years are kept as issued; open years
+    // are rebuilt on request
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS tax_statements (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id VARCHAR(36) NOT NULL,
+        jurisdiction VARCHAR(8) NOT NULL,
+        financial_year SMALLINT NOT NULL,
+        period_start DATE NOT NULL,
+        period_end DATE NOT NULL,
+        totals JSON NOT NULL,
+        statement JSON NOT NULL,
+        generated_by VARCHAR(36) NULL,
+        generated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_user_year (user_id, jurisdiction, financial_year),
+        KEY idx_jurisdiction_year (jurisdiction, financial_year),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Amount withheld at source, in the disbursement's currency; the
+    // disbursement amount stays gross
+    await connection.execute(`
+      ALTER TABLE disbursements
+      ADD COLUMN IF NOT EXISTS withholding_tax VARCHAR(255) NOT NULL DEFAULT '0'
+    `);
+
+    console.log('Tax statement tables created successfully');
+  } catch (error) {
+    console.error('Error creating tax statement tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,45 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the token metadata version history
+ */
+export async function createTokenMetadataTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // One row per pinned metadata document. document_hash is the SHA-256 of
+    // the JSON and the bytes32 passed to TitleNFT.updateMetadata; tx_hash
+    // is that call (or the mint for the first version).
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS token_metadata_versions (
+        id VARCHAR(36) PRIMARY KEY,
+        property_id VARCHAR(36) NOT NULL,
+        token_id BIGINT NULL,
+        version INT NOT NULL,
+        cid VARCHAR(255) NOT NULL,
+        document_hash CHAR(66) NOT NULL,
+        metadata JSON NOT NULL,
+        source ENUM('mint', 'update', 'refresh') NOT NULL,
+        reason VARCHAR(500) NULL,
+        chain_status ENUM('not_submitted', 'submitted', 'confirmed', 'failed') NOT NULL DEFAULT 'not_submitted',
+        tx_hash VARCHAR(66) NULL,
+        block_number BIGINT NULL,
+        chain_error TEXT NULL,
+        created_by VARCHAR(36) NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        confirmed_at TIMESTAMP NULL,
+        UNIQUE KEY uniq_property_version (property_id, version),
+        KEY idx_token (token_id, version),
+        KEY idx_cid (cid),
+        FOREIGN KEY (property_id) REFERENCES properties(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Token metadata tables created successfully');
+  } catch (error) {
+    console.error('Error creating token metadata tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,69 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create TOTP enrolment, backup code and login challenge tables
+ */
+export async function createTwoFactorTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Secrets are stored encrypted; last_used_step blocks code replay
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS user_two_factor (
+        user_id VARCHAR(36) PRIMARY KEY,
+        secret_encrypted TEXT NOT NULL,
+        status ENUM('pending', 'enabled') NOT NULL DEFAULT 'pending',
+        last_used_step BIGINT NULL,
+        failed_attempts INT NOT NULL DEFAULT 0,
+        locked_until TIMESTAMP NULL,
+        enabled_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Failed codes across every verification path; too many locks 2FA for a while
+    await connection.execute(`
+      ALTER TABLE user_two_factor
+      ADD COLUMN IF NOT EXISTS failed_attempts INT NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP NULL
+    `);
+
+    // Single-use recovery codes, hashed
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS two_factor_backup_codes (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id VARCHAR(36) NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        used_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_user_code (user_id, code_hash),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Issued after a correct password when the account has 2FA enabled
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS two_factor_challenges (
+        id VARCHAR(36) PRIMARY KEY,
+        user_id VARCHAR(36) NOT NULL,
+        token_hash CHAR(64) NOT NULL UNIQUE,
+        purpose VARCHAR(30) NOT NULL,
+        attempts INT NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        consumed_at TIMESTAMP NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_user_id (user_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    console.log('Two-factor tables created successfully');
+  } catch (error) {
+    console.error('Error creating two-factor tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
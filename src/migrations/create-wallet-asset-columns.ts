@@ -0,0 +1,69 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+
+/**
+ * Tag wallet history, deposits and withdrawals with the asset they move, and
+ * key withdrawal limits and fee schedules by asset. Rows written before
+ * multi-asset wallets were all USDC.
+ */
+export async function createWalletAssetColumns(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // ========== Asset Codes on Wallet Activity ==========
+
+    await connection.execute(`
+      ALTER TABLE wallet_transactions
+      ADD COLUMN IF NOT EXISTS asset VARCHAR(10) NOT NULL DEFAULT 'USDC' AFTER transaction_type,
+      ADD KEY IF NOT EXISTS idx_wallet_asset (wallet_id, asset)
+    `);
+
+    await connection.execute(`
+      ALTER TABLE wallet_deposits
+      ADD COLUMN IF NOT EXISTS asset VARCHAR(10) NOT NULL DEFAULT 'USDC' AFTER wallet_id
+    `);
+
+    await connection.execute(`
+      ALTER TABLE withdrawal_requests
+      ADD COLUMN IF NOT EXISTS asset VARCHAR(10) NOT NULL DEFAULT 'USDC' AFTER wallet_id
+    `);
+
+    // Wallet findings are raised per asset
+    await connection.execute(`
+      ALTER TABLE reconciliation_discrepancies
+      ADD COLUMN IF NOT EXISTS asset VARCHAR(10) NULL AFTER entity_id
+    `);
+
+    // ========== Per-Asset Limits & Fees ==========
+
+    // Limit policies were keyed by tier alone; every existing row is a USDC policy.
+    // Rebuilding the key locks the table, so only do it once
+    const [keyColumns] = await connection.query<RowDataPacket[]>(`
+      SELECT COLUMN_NAME FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+      WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'withdrawal_limit_policies' AND CONSTRAINT_NAME = 'PRIMARY'
+    `);
+    if (!keyColumns.some(column => column.COLUMN_NAME === 'currency')) {
+      await connection.execute(`
+        ALTER TABLE withdrawal_limit_policies
+        DROP PRIMARY KEY,
+        ADD PRIMARY KEY (kyc_tier, currency)
+      `);
+    }
+
+    await connection.execute(`
+      ALTER TABLE withdrawal_fee_schedules
+      ADD COLUMN IF NOT EXISTS asset VARCHAR(10) NOT NULL DEFAULT 'USDC' AFTER network,
+      ADD UNIQUE KEY IF NOT EXISTS uniq_network_asset (network, asset)
+    `);
+    await connection.execute(`
+      ALTER TABLE withdrawal_fee_schedules
+      DROP INDEX IF EXISTS network
+    `);
+
+    console.log('Wallet asset columns created successfully');
+  } catch (error) {
+    console.error('Error creating wallet asset columns:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
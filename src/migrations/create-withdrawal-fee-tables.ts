@@ -0,0 +1,90 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create withdrawal fee schedule and waiver tables, and add the locked
+ * fee quote columns to withdrawal_requests
+ */
+export async function createWithdrawalFeeTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // ========== Fee Schedule ==========
+
+    // One row per network and asset plus a 'default' row per asset; NULL fields inherit the default
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS withdrawal_fee_schedules (
+        id VARCHAR(36) PRIMARY KEY,
+        network VARCHAR(20) NOT NULL,
+        asset VARCHAR(10) NOT NULL DEFAULT 'USDC',
+        fee_percentage DECIMAL(7, 6) NULL,
+        min_fee DECIMAL(18, 6) NULL,
+        max_fee DECIMAL(18, 6) NULL,
+        min_amount DECIMAL(18, 6) NULL,
+        is_active BOOLEAN DEFAULT TRUE,
+        updated_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uniq_network_asset (network, asset)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Promotional waivers, optionally scoped to a user, network or promo code
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS withdrawal_fee_waivers (
+        id VARCHAR(36) PRIMARY KEY,
+        description VARCHAR(255) NOT NULL,
+        promo_code VARCHAR(50) NULL,
+        user_id VARCHAR(36) NULL,
+        network VARCHAR(20) NULL,
+        discount_percentage DECIMAL(5, 2) NOT NULL DEFAULT 100,
+        starts_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        ends_at TIMESTAMP NULL,
+        max_uses INT NULL,
+        used_count INT NOT NULL DEFAULT 0,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        KEY idx_promo_code (promo_code),
+        KEY idx_user_id (user_id),
+        KEY idx_active_window (is_active, starts_at, ends_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // ========== Locked Quotes on Requests ==========
+
+    // amount stays the gross figure; fee and net are fixed at request time
+    await connection.execute(`
+      ALTER TABLE withdrawal_requests
+      ADD COLUMN IF NOT EXISTS network VARCHAR(20) NOT NULL DEFAULT 'base',
+      ADD COLUMN IF NOT EXISTS fee_amount DECIMAL(18, 6) NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS net_amount DECIMAL(18, 6) NULL,
+      ADD COLUMN IF NOT EXISTS fee_waiver_id VARCHAR(36) NULL,
+      ADD COLUMN IF NOT EXISTS fee_quote JSON NULL
+    `);
+
+    // Fee debits get their own history rows and journal entries
+    await connection.execute(`
+      ALTER TABLE wallet_transactions
+      MODIFY COLUMN transaction_type ENUM(
+        'deposit', 'withdraw', 'withdrawal', 'withdrawal_fee', 'transfer', 'internal_transfer',
+        'subscription_payment', 'roi_disbursement', 'refund'
+      ) NOT NULL
+    `);
+
+    await connection.execute(`
+      ALTER TABLE ledger_journal_entries
+      MODIFY COLUMN entry_type ENUM(
+        'opening_balance', 'deposit', 'withdrawal', 'withdrawal_fee', 'transfer',
+        'subscription_payment', 'roi_disbursement', 'refund', 'adjustment'
+      ) NOT NULL
+    `);
+
+    console.log('Withdrawal fee tables created successfully');
+  } catch (error) {
+    console.error('Error creating withdrawal fee tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,38 @@
+import { Pool } from 'mysql2/promise';
+
+/**
+ * Create the KYC-tier withdrawal limit policy table
+ */
+export async function createWithdrawalLimitTables(pool: Pool): Promise<void> {
+  const connection = await pool.getConnection();
+
+  try {
+    // Admin-editable caps per KYC tier and asset; pairs without a row use service defaults
+    await connection.execute(`
+      CREATE TABLE IF NOT EXISTS withdrawal_limit_policies (
+        kyc_tier VARCHAR(20) NOT NULL,
+        per_transaction_limit DECIMAL(18, 6) NOT NULL,
+        daily_limit DECIMAL(18, 6) NOT NULL,
+        monthly_limit DECIMAL(18, 6) NOT NULL,
+        currency VARCHAR(10) NOT NULL DEFAULT 'USDC',
+        updated_by VARCHAR(36),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (kyc_tier, currency)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // Rolling-window usage is summed per user over recent requests
+    await connection.execute(`
+      ALTER TABLE withdrawal_requests
+      ADD KEY IF NOT EXISTS idx_user_created (user_id, created_at)
+    `);
+
+    console.log('Withdrawal limit tables created successfully');
+  } catch (error) {
+    console.error('Error creating withdrawal limit tables:', error);
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
@@ -0,0 +1,167 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+
+/** Amounts keyed by currency code, e.g. { USDC: 1250.5 } */
+export type CurrencyAmounts = Record<string, number>;
+
+export interface PlatformSnapshot {
+  snapshot_date: string; // YYYY-MM-DD (UTC)
+  total_aum: number;
+  total_properties: number;
+  unique_locations: number;
+  avg_property_value: number;
+  total_listings: number;
+  active_listings: number;
+  auction_listings: number;
+  fixed_price_listings: number;
+  avg_active_price: number;
+  active_listing_volume: number;
+  total_bids: number;
+  active_bids: number;
+  bids_placed: number;
+  bid_volume: number;
+  avg_active_bid: number;
+  max_active_bid: number;
+  total_users: number;
+  investor_count: number;
+  seller_count: number;
+  new_users: number;
+  active_subscribers: number;
+  subscribed_by_currency: CurrencyAmounts;
+  disbursed_by_currency: CurrencyAmounts;
+  captured_at?: Date;
+}
+
+export interface PropertySnapshot {
+  snapshot_date: string;
+  property_id: string;
+  assessed_value: number;
+  active_listings: number;
+  lowest_active_price: number | null;
+  bids_placed: number;
+  bid_volume: number;
+  active_subscribers: number;
+  subscribed_share: number;
+  subscribed_by_currency: CurrencyAmounts;
+  disbursed_by_currency: CurrencyAmounts;
+  captured_at?: Date;
+}
+
+const PLATFORM_COLUMNS: Array<keyof PlatformSnapshot> = [
+  'snapshot_date', 'total_aum', 'total_properties', 'unique_locations', 'avg_property_value',
+  'total_listings', 'active_listings', 'auction_listings', 'fixed_price_listings', 'avg_active_price',
+  'active_listing_volume', 'total_bids', 'active_bids', 'bids_placed', 'bid_volume', 'avg_active_bid',
+  'max_active_bid', 'total_users', 'investor_count', 'seller_count', 'new_users', 'active_subscribers',
+  'subscribed_by_currency', 'disbursed_by_currency'
+];
+
+const PROPERTY_COLUMNS: Array<keyof PropertySnapshot> = [
+  'snapshot_date', 'property_id', 'assessed_value', 'active_listings', 'lowest_active_price',
+  'bids_placed', 'bid_volume', 'active_subscribers', 'subscribed_share',
+  'subscribed_by_currency', 'disbursed_by_currency'
+];
+
+const JSON_COLUMNS = new Set(['subscribed_by_currency', 'disbursed_by_currency']);
+
+const PROPERTY_UPSERT_BATCH = 500;
+
+const toParam = (column: string, value: any) => (JSON_COLUMNS.has(column) ? JSON.stringify(value || {}) : value);
+
+/**
+ * DECIMAL columns come back as strings and JSON columns may come back as
+ * text depending on the server; snapshots leave here as plain numbers
+ */
+const fromRow = <T>(row: RowDataPacket): T => {
+  const snapshot: any = {};
+  for (const [column, value] of Object.entries(row)) {
+    if (JSON_COLUMNS.has(column)) {
+      const amounts = typeof value === 'string' ? JSON.parse(value) : value || {};
+      snapshot[column] = Object.fromEntries(Object.entries(amounts).map(([currency, amount]) => [currency, Number(amount)]));
+    } else if (column === 'snapshot_date' || column === 'property_id' || column === 'captured_at' || value === null) {
+      snapshot[column] = value;
+    } else {
+      snapshot[column] = Number(value);
+    }
+  }
+  return snapshot as T;
+};
+
+const selectColumns = (columns: string[]) =>
+  columns.map(column => (column === 'snapshot_date' ? `DATE_FORMAT(snapshot_date, '%Y-%m-%d') AS snapshot_date` : column))
+    .concat('captured_at')
+    .join(', ');
+
+export class AnalyticsSnapshotModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Platform ==========
+
+  async upsertPlatformSnapshot(snapshot: PlatformSnapshot): Promise<void> {
+    const updates = PLATFORM_COLUMNS.filter(column => column !== 'snapshot_date')
+      .map(column => `${column} = VALUES(${column})`);
+
+    await this.pool.execute(
+      `INSERT INTO platform_daily_snapshots (${PLATFORM_COLUMNS.join(', ')})
+       VALUES (${PLATFORM_COLUMNS.map(() => '?').join(', ')})
+       ON DUPLICATE KEY UPDATE ${updates.join(', ')}, captured_at = CURRENT_TIMESTAMP`,
+      PLATFORM_COLUMNS.map(column => toParam(column, snapshot[column]))
+    );
+  }
+
+  async getPlatformSnapshots(from: string, to: string): Promise<PlatformSnapshot[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT ${selectColumns(PLATFORM_COLUMNS)}
+       FROM platform_daily_snapshots
+       WHERE snapshot_date BETWEEN ? AND ?
+       ORDER BY snapshot_date`,
+      [from, to]
+    );
+    return rows.map(row => fromRow<PlatformSnapshot>(row));
+  }
+
+  async getLatestPlatformSnapshot(): Promise<PlatformSnapshot | null> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT ${selectColumns(PLATFORM_COLUMNS)}
+       FROM platform_daily_snapshots
+       ORDER BY snapshot_date DESC
+       LIMIT 1`
+    );
+    return rows.length > 0 ? fromRow<PlatformSnapshot>(rows[0]) : null;
+  }
+
+  async getCapturedAt(snapshotDate: string): Promise<Date | null> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT captured_at FROM platform_daily_snapshots WHERE snapshot_date = ?',
+      [snapshotDate]
+    );
+    return rows.length > 0 ? new Date(rows[0].captured_at) : null;
+  }
+
+  // ========== Properties ==========
+
+  async upsertPropertySnapshots(snapshots: PropertySnapshot[]): Promise<void> {
+    const updates = PROPERTY_COLUMNS.filter(column => column !== 'snapshot_date' && column !== 'property_id')
+      .map(column => `${column} = VALUES(${column})`);
+    const placeholders = `(${PROPERTY_COLUMNS.map(() => '?').join(', ')})`;
+
+    for (let offset = 0; offset < snapshots.length; offset += PROPERTY_UPSERT_BATCH) {
+      const batch = snapshots.slice(offset, offset + PROPERTY_UPSERT_BATCH);
+      await this.pool.query(
+        `INSERT INTO property_daily_snapshots (${PROPERTY_COLUMNS.join(', ')})
+         VALUES ${batch.map(() => placeholders).join(', ')}
+         ON DUPLICATE KEY UPDATE ${updates.join(', ')}, captured_at = CURRENT_TIMESTAMP`,
+        batch.flatMap(snapshot => PROPERTY_COLUMNS.map(column => toParam(column, snapshot[column])))
+      );
+    }
+  }
+
+  async getPropertySnapshots(propertyId: string, from: string, to: string): Promise<PropertySnapshot[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT ${selectColumns(PROPERTY_COLUMNS)}
+       FROM property_daily_snapshots
+       WHERE property_id = ? AND snapshot_date BETWEEN ? AND ?
+       ORDER BY snapshot_date`,
+      [propertyId, from, to]
+    );
+    return rows.map(row => fromRow<PropertySnapshot>(row));
+  }
+}
@@ -0,0 +1,122 @@
+import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+
+export interface AuthSession extends RowDataPacket {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  claims: any;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: string | null;
+}
+
+export class AuthSessionModel {
+  constructor(private pool: Pool) {}
+
+  async createSession(session: {
+    id: string;
+    userId: string;
+    refreshTokenHash: string;
+    claims: Record<string, any>;
+    deviceName: string | null;
+    userAgent: string | null;
+    ipAddress: string | null;
+    expiresAt: Date;
+  }): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO auth_sessions
+       (id, user_id, refresh_token_hash, claims, device_name, user_agent, ip_address, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        session.id,
+        session.userId,
+        session.refreshTokenHash,
+        JSON.stringify(session.claims),
+        session.deviceName,
+        session.userAgent,
+        session.ipAddress,
+        session.expiresAt
+      ]
+    );
+  }
+
+  async getSessionById(sessionId: string): Promise<AuthSession | null> {
+    const [rows] = await this.pool.query<AuthSession[]>(
+      'SELECT * FROM auth_sessions WHERE id = ?',
+      [sessionId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getActiveSessionsByUser(userId: string): Promise<AuthSession[]> {
+    const [rows] = await this.pool.query<AuthSession[]>(
+      `SELECT * FROM auth_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_seen_at DESC`,
+      [userId]
+    );
+    return rows;
+  }
+
+  /**
+   * Swap in a new refresh token, but only if the presented one is still the
+   * current token; returns false if another refresh won the race
+   */
+  async rotateRefreshToken(
+    sessionId: string,
+    currentHash: string,
+    nextHash: string,
+    claims: Record<string, any>,
+    ipAddress: string | null,
+    userAgent: string | null
+  ): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE auth_sessions
+       SET previous_token_hash = refresh_token_hash,
+           refresh_token_hash = ?,
+           claims = ?,
+           ip_address = COALESCE(?, ip_address),
+           user_agent = COALESCE(?, user_agent),
+           last_seen_at = NOW()
+       WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`,
+      [nextHash, JSON.stringify(claims), ipAddress, userAgent, sessionId, currentHash]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Record activity at most once a minute to keep per-request writes down
+   */
+  async touchSession(sessionId: string, ipAddress: string | null): Promise<void> {
+    await this.pool.execute(
+      `UPDATE auth_sessions
+       SET last_seen_at = NOW(), ip_address = COALESCE(?, ip_address)
+       WHERE id = ? AND last_seen_at < DATE_SUB(NOW(), INTERVAL 1 MINUTE)`,
+      [ipAddress, sessionId]
+    );
+  }
+
+  async revokeSession(sessionId: string, reason: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = ?
+       WHERE id = ? AND revoked_at IS NULL`,
+      [reason, sessionId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async revokeUserSessions(userId: string, reason: string, exceptSessionId: string | null = null): Promise<number> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE auth_sessions SET revoked_at = NOW(), revoked_reason = ?
+       WHERE user_id = ? AND revoked_at IS NULL AND (? IS NULL OR id <> ?)`,
+      [reason, userId, exceptSessionId, exceptSessionId]
+    );
+    return result.affectedRows;
+  }
+}
@@ -0,0 +1,274 @@
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { StatementFormat, StatementLine } from '../utils/bankStatement';
+
+export type StatementLineStatus = 'unmatched' | 'matched' | 'ignored';
+export type MatchType = 'auto' | 'manual';
+
+export interface BankStatementImport extends RowDataPacket {
+  id: string;
+  format: StatementFormat;
+  file_name: string | null;
+  account_number: string | null;
+  currency: string | null;
+  line_count: number;
+  matched_count: number;
+  unmatched_count: number;
+  duplicate_count: number;
+  imported_by: string;
+  created_at: Date;
+}
+
+export interface BankStatementLine extends RowDataPacket {
+  id: string;
+  import_id: string;
+  line_number: number;
+  transaction_date: Date;
+  amount: string;
+  currency: string | null;
+  description: string | null;
+  reference: string | null;
+  bank_transaction_id: string | null;
+  fingerprint: string;
+  status: StatementLineStatus;
+  review_reason: string | null;
+  candidate_transfer_ids: string[] | null;
+  pending_transfer_id: string | null;
+  payment_id: string | null;
+  match_type: MatchType | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+}
+
+export interface PendingTransfer extends RowDataPacket {
+  id: string;
+  subscription_id: string;
+  amount: string;
+  currency: string;
+  account_holder: string;
+  account_number: string;
+  bank_name: string;
+  reference: string | null;
+  subscriber_user_id: string | null;
+  status: 'PENDING' | 'RECONCILED' | 'FAILED';
+  statement_line_id: string | null;
+  payment_id: string | null;
+  reconciled_at: Date | null;
+  notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+  subscription_status?: string;
+}
+
+export class BankStatementModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Imports ==========
+
+  async createImport(data: {
+    format: StatementFormat;
+    fileName: string | null;
+    accountNumber: string | null;
+    currency: string | null;
+    lineCount: number;
+    importedBy: string;
+  }): Promise<string> {
+    const id = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO bank_statement_imports (id, format, file_name, account_number, currency, line_count, imported_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, data.format, data.fileName, data.accountNumber, data.currency, data.lineCount, data.importedBy]
+    );
+    return id;
+  }
+
+  async completeImport(id: string, counts: { matched: number; unmatched: number; duplicates: number }): Promise<void> {
+    await this.pool.execute(
+      'UPDATE bank_statement_imports SET matched_count = ?, unmatched_count = ?, duplicate_count = ? WHERE id = ?',
+      [counts.matched, counts.unmatched, counts.duplicates, id]
+    );
+  }
+
+  async getImport(id: string): Promise<BankStatementImport | null> {
+    const [rows] = await this.pool.query<BankStatementImport[]>('SELECT * FROM bank_statement_imports WHERE id = ?', [id]);
+    return rows[0] || null;
+  }
+
+  async listImports(limit: number, offset: number): Promise<{ imports: BankStatementImport[]; total: number }> {
+    const [rows] = await this.pool.query<BankStatementImport[]>(
+      'SELECT * FROM bank_statement_imports ORDER BY created_at DESC LIMIT ? OFFSET ?',
+      [limit, offset]
+    );
+    const [count] = await this.pool.query<RowDataPacket[]>('SELECT COUNT(*) AS total FROM bank_statement_imports');
+    return { imports: rows, total: Number(count[0].total) };
+  }
+
+  // ========== Lines ==========
+
+  /**
+   * Insert a statement line; null when the same line was already imported
+   */
+  async insertLine(importId: string, line: StatementLine, currency: string | null, fingerprint: string): Promise<string | null> {
+    const id = uuidv4();
+    try {
+      await this.pool.execute(
+        `INSERT INTO bank_statement_lines
+           (id, import_id, line_number, transaction_date, amount, currency, description, reference, bank_transaction_id, fingerprint, status)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          importId,
+          line.lineNumber,
+          line.transactionDate,
+          line.amount,
+          currency,
+          line.description.slice(0, 500) || null,
+          line.reference ? line.reference.slice(0, 255) : null,
+          line.bankTransactionId ? line.bankTransactionId.slice(0, 255) : null,
+          fingerprint,
+          line.amount > 0 ? 'unmatched' : 'ignored'
+        ]
+      );
+      return id;
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getLine(id: string, connection?: PoolConnection, forUpdate: boolean = false): Promise<BankStatementLine | null> {
+    const [rows] = await (connection || this.pool).query<BankStatementLine[]>(
+      `SELECT * FROM bank_statement_lines WHERE id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async getLinesForImport(importId: string): Promise<BankStatementLine[]> {
+    const [rows] = await this.pool.query<BankStatementLine[]>(
+      'SELECT * FROM bank_statement_lines WHERE import_id = ? ORDER BY line_number ASC',
+      [importId]
+    );
+    return rows;
+  }
+
+  async listLines(
+    filters: { status?: StatementLineStatus; reason?: string },
+    limit: number,
+    offset: number
+  ): Promise<{ lines: BankStatementLine[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.reason) {
+      conditions.push('review_reason = ?');
+      params.push(filters.reason);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows] = await this.pool.query<BankStatementLine[]>(
+      `SELECT * FROM bank_statement_lines ${where} ORDER BY transaction_date ASC, line_number ASC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    const [count] = await this.pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS total FROM bank_statement_lines ${where}`,
+      params
+    );
+    return { lines: rows, total: Number(count[0].total) };
+  }
+
+  /**
+   * Leave a line in the review queue with the reason it was not matched
+   */
+  async flagForReview(id: string, reason: string, candidateTransferIds: string[]): Promise<void> {
+    await this.pool.execute(
+      `UPDATE bank_statement_lines SET review_reason = ?, candidate_transfer_ids = ?
+       WHERE id = ? AND status = 'unmatched'`,
+      [reason, candidateTransferIds.length > 0 ? JSON.stringify(candidateTransferIds) : null, id]
+    );
+  }
+
+  async markMatched(
+    connection: PoolConnection,
+    id: string,
+    match: { transferId: string; paymentId: string; matchType: MatchType; actorId: string | null; note: string | null }
+  ): Promise<void> {
+    await connection.execute(
+      `UPDATE bank_statement_lines
+       SET status = 'matched', pending_transfer_id = ?, payment_id = ?, match_type = ?,
+           resolved_by = ?, resolution_note = ?, resolved_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [match.transferId, match.paymentId, match.matchType, match.actorId, match.note ? match.note.slice(0, 500) : null, id]
+    );
+  }
+
+  async markIgnored(id: string, actorId: string, note: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE bank_statement_lines
+       SET status = 'ignored', resolved_by = ?, resolution_note = ?, resolved_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'unmatched'`,
+      [actorId, note.slice(0, 500), id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // ========== Pending Transfers ==========
+
+  /**
+   * Transfers still waiting for their money, with the state of the
+   * subscription each one pays for
+   */
+  async getOpenTransfers(): Promise<PendingTransfer[]> {
+    const [rows] = await this.pool.query<PendingTransfer[]>(
+      `SELECT pt.*, s.status AS subscription_status
+       FROM pending_transfers pt
+       JOIN subscriptions s ON s.id = pt.subscription_id
+       WHERE pt.status = 'PENDING'
+       ORDER BY pt.created_at ASC`
+    );
+    return rows;
+  }
+
+  async listTransfers(status: string | undefined, limit: number, offset: number): Promise<PendingTransfer[]> {
+    const [rows] = await this.pool.query<PendingTransfer[]>(
+      `SELECT pt.*, s.status AS subscription_status
+       FROM pending_transfers pt
+       JOIN subscriptions s ON s.id = pt.subscription_id
+       ${status ? 'WHERE pt.status = ?' : ''}
+       ORDER BY pt.created_at DESC LIMIT ? OFFSET ?`,
+      status ? [status, limit, offset] : [limit, offset]
+    );
+    return rows;
+  }
+
+  async getTransfer(id: string, connection?: PoolConnection, forUpdate: boolean = false): Promise<PendingTransfer | null> {
+    const [rows] = await (connection || this.pool).query<PendingTransfer[]>(
+      `SELECT * FROM pending_transfers WHERE id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async reconcileTransfer(
+    connection: PoolConnection,
+    id: string,
+    lineId: string,
+    paymentId: string,
+    note: string | null
+  ): Promise<void> {
+    await connection.execute(
+      `UPDATE pending_transfers
+       SET status = 'RECONCILED', statement_line_id = ?, payment_id = ?, reconciled_at = CURRENT_TIMESTAMP,
+           notes = COALESCE(?, notes)
+       WHERE id = ?`,
+      [lineId, paymentId, note, id]
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export type DocumentType =
+  | 'title_deed'
+  | 'valuation'
+  | 'insurance'
+  | 'lease'
+  | 'building_report'
+  | 'financials'
+  | 'legal'
+  | 'other';
+
+export const DOCUMENT_TYPES: DocumentType[] = [
+  'title_deed',
+  'valuation',
+  'insurance',
+  'lease',
+  'building_report',
+  'financials',
+  'legal',
+  'other'
+];
+
+// public: anyone; subscribers: holders of an active subscription in the
+// property; kyc_verified: any user who has passed KYC
+export type DocumentAccessLevel = 'public' | 'subscribers' | 'kyc_verified';
+
+export const DOCUMENT_ACCESS_LEVELS: DocumentAccessLevel[] = ['public', 'subscribers', 'kyc_verified'];
+
+export interface PropertyDocument extends RowDataPacket {
+  id: string;
+  property_id: string;
+  document_type: DocumentType;
+  title: string;
+  access_level: DocumentAccessLevel;
+  current_version: number;
+  created_by: string | null;
+  archived_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  // Current version, joined
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string;
+  version_uploaded_at: Date;
+}
+
+export interface PropertyDocumentVersion extends RowDataPacket {
+  id: string;
+  document_id: string;
+  version: number;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  sha256: string;
+  storage_backend: string;
+  storage_key: string;
+  notes: string | null;
+  uploaded_by: string | null;
+  created_at: Date;
+}
+
+export interface DocumentDownload extends RowDataPacket {
+  id: string;
+  document_id: string;
+  version_id: string;
+  property_id: string;
+  user_id: string | null;
+  access_level: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  downloaded_at: Date;
+  // Joined
+  title: string;
+  version: number;
+  username: string | null;
+  email: string | null;
+}
+
+export interface NewDocumentVersion {
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  sha256: string;
+  storageBackend: string;
+  storageKey: string;
+  notes?: string | null;
+  uploadedBy: string | null;
+}
+
+const DOCUMENT_COLUMNS = `d.*, v.file_name, v.mime_type, v.size_bytes, v.sha256, v.created_at AS version_uploaded_at`;
+
+export class DataRoomModel {
+  constructor(private pool: Pool) {}
+
+  async getDocuments(propertyId: string, includeArchived: boolean = false): Promise<PropertyDocument[]> {
+    const [rows] = await this.pool.query<PropertyDocument[]>(
+      `SELECT ${DOCUMENT_COLUMNS}
+       FROM property_documents d
+       JOIN property_document_versions v ON v.document_id = d.id AND v.version = d.current_version
+       WHERE d.property_id = ? ${includeArchived ? '' : 'AND d.archived_at IS NULL'}
+       ORDER BY d.document_type, d.title`,
+      [propertyId]
+    );
+    return rows;
+  }
+
+  async getDocument(documentId: string): Promise<PropertyDocument | null> {
+    const [rows] = await this.pool.query<PropertyDocument[]>(
+      `SELECT ${DOCUMENT_COLUMNS}
+       FROM property_documents d
+       JOIN property_document_versions v ON v.document_id = d.id AND v.version = d.current_version
+       WHERE d.id = ?`,
+      [documentId]
+    );
+    return rows[0] || null;
+  }
+
+  async getVersions(documentId: string): Promise<PropertyDocumentVersion[]> {
+    const [rows] = await this.pool.query<PropertyDocumentVersion[]>(
+      'SELECT * FROM property_document_versions WHERE document_id = ? ORDER BY version DESC',
+      [documentId]
+    );
+    return rows;
+  }
+
+  async getVersion(documentId: string, version: number): Promise<PropertyDocumentVersion | null> {
+    const [rows] = await this.pool.query<PropertyDocumentVersion[]>(
+      'SELECT * FROM property_document_versions WHERE document_id = ? AND version = ?',
+      [documentId, version]
+    );
+    return rows[0] || null;
+  }
+
+  async createDocument(
+    propertyId: string,
+    documentType: DocumentType,
+    title: string,
+    accessLevel: DocumentAccessLevel,
+    version: NewDocumentVersion
+  ): Promise<string> {
+    const documentId = uuidv4();
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      await connection.execute(
+        `INSERT INTO property_documents (id, property_id, document_type, title, access_level, current_version, created_by)
+         VALUES (?, ?, ?, ?, ?, 1, ?)`,
+        [documentId, propertyId, documentType, title, accessLevel, version.uploadedBy]
+      );
+      await this.insertVersion(connection, documentId, 1, version);
+      await connection.commit();
+      return documentId;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Append a version and make it current; returns the new version number
+   */
+  async addVersion(documentId: string, version: NewDocumentVersion): Promise<number> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const [rows] = await connection.query<RowDataPacket[]>(
+        'SELECT current_version FROM property_documents WHERE id = ? FOR UPDATE',
+        [documentId]
+      );
+      if (rows.length === 0) {
+        throw new Error('Document not found');
+      }
+
+      const next = rows[0].current_version + 1;
+      await this.insertVersion(connection, documentId, next, version);
+      await connection.execute(
+        'UPDATE property_documents SET current_version = ? WHERE id = ?',
+        [next, documentId]
+      );
+      await connection.commit();
+      return next;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async updateDocument(
+    documentId: string,
+    updates: { title?: string; documentType?: DocumentType; accessLevel?: DocumentAccessLevel }
+  ): Promise<void> {
+    const fields: string[] = [];
+    const params: any[] = [];
+    if (updates.title !== undefined) {
+      fields.push('title = ?');
+      params.push(updates.title);
+    }
+    if (updates.documentType !== undefined) {
+      fields.push('document_type = ?');
+      params.push(updates.documentType);
+    }
+    if (updates.accessLevel !== undefined) {
+      fields.push('access_level = ?');
+      params.push(updates.accessLevel);
+    }
+    if (fields.length === 0) return;
+
+    await this.pool.execute(`UPDATE property_documents SET ${fields.join(', ')} WHERE id = ?`, [...params, documentId]);
+  }
+
+  /**
+   * Hide a document from the data room; its versions and audit trail stay
+   */
+  async archiveDocument(documentId: string): Promise<boolean> {
+    const [result]: any = await this.pool.execute(
+      'UPDATE property_documents SET archived_at = CURRENT_TIMESTAMP WHERE id = ? AND archived_at IS NULL',
+      [documentId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async recordDownload(
+    document: PropertyDocument,
+    version: PropertyDocumentVersion,
+    userId: string | null,
+    ipAddress: string | null,
+    userAgent: string | null
+  ): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO property_document_downloads
+         (id, document_id, version_id, property_id, user_id, access_level, ip_address, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), document.id, version.id, document.property_id, userId, document.access_level, ipAddress, userAgent ? userAgent.slice(0, 512) : null]
+    );
+  }
+
+  async getDownloads(
+    filters: { propertyId: string; documentId?: string; userId?: string },
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<DocumentDownload[]> {
+    const conditions = ['dl.property_id = ?'];
+    const params: any[] = [filters.propertyId];
+    if (filters.documentId) {
+      conditions.push('dl.document_id = ?');
+      params.push(filters.documentId);
+    }
+    if (filters.userId) {
+      conditions.push('dl.user_id = ?');
+      params.push(filters.userId);
+    }
+
+    const [rows] = await this.pool.query<DocumentDownload[]>(
+      `SELECT dl.*, d.title, v.version, u.username, u.email
+       FROM property_document_downloads dl
+       JOIN property_documents d ON d.id = dl.document_id
+       JOIN property_document_versions v ON v.id = dl.version_id
+       LEFT JOIN users u ON u.id = dl.user_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY dl.downloaded_at DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    return rows;
+  }
+
+  private async insertVersion(connection: PoolConnection, documentId: string, versionNumber: number, version: NewDocumentVersion) {
+    await connection.execute(
+      `INSERT INTO property_document_versions
+         (id, document_id, version, file_name, mime_type, size_bytes, sha256, storage_backend, storage_key, notes, uploaded_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        documentId,
+        versionNumber,
+        version.fileName,
+        version.mimeType,
+        version.sizeBytes,
+        version.sha256,
+        version.storageBackend,
+        version.storageKey,
+        version.notes || null,
+        version.uploadedBy
+      ]
+    );
+  }
+}
@@ -0,0 +1,263 @@
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { WalletAsset } from './walletModel';
+
+export const DISPUTE_STATUSES = ['needs_response', 'under_review', 'won', 'lost'] as const;
+export type DisputeStatus = typeof DISPUTE_STATUSES[number];
+export type DisputeOutcome = 'won' | 'lost';
+
+// Disputes still waiting for the card network's decision
+export const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['needs_response', 'under_review'];
+
+// Text evidence accepted for a dispute, named as Stripe names them
+export const DISPUTE_EVIDENCE_FIELDS = [
+  'product_description',
+  'customer_name',
+  'customer_email_address',
+  'billing_address',
+  'service_date',
+  'access_activity_log',
+  'cancellation_policy_disclosure',
+  'cancellation_rebuttal',
+  'refund_policy_disclosure',
+  'refund_refusal_explanation',
+  'duplicate_charge_explanation',
+  'uncategorized_text'
+] as const;
+export type DisputeEvidenceField = typeof DISPUTE_EVIDENCE_FIELDS[number];
+export type DisputeEvidence = Partial<Record<DisputeEvidenceField, string>>;
+
+export interface PaymentDispute extends RowDataPacket {
+  id: string;
+  payment_id: string;
+  subscription_id: string | null;
+  gateway: string;
+  gateway_dispute_id: string | null;
+  amount: string;
+  currency: string;
+  reason: string;
+  status: DisputeStatus;
+  evidence: DisputeEvidence | null;
+  evidence_due_by: Date | null;
+  evidence_submitted_at: Date | null;
+  evidence_submitted_by: string | null;
+  submitted_to_gateway: number;
+  subscription_frozen: number;
+  opened_by: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  closed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NewDispute {
+  paymentId: string;
+  subscriptionId: string | null;
+  gateway: string;
+  gatewayDisputeId: string | null;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: DisputeStatus;
+  evidenceDueBy: Date | null;
+  openedBy: string | null;
+}
+
+export interface SubscriptionCredit extends RowDataPacket {
+  user_id: string;
+  wallet_id: string;
+  asset: WalletAsset;
+  credited: string;
+  balance: string;
+}
+
+const OPEN_STATUS_LIST = OPEN_DISPUTE_STATUSES.map(status => `'${status}'`).join(', ');
+
+export class DisputeModel {
+  constructor(private pool: Pool) {}
+
+  async create(connection: PoolConnection, dispute: NewDispute): Promise<string> {
+    const id = uuidv4();
+    await connection.execute(
+      `INSERT INTO payment_disputes
+         (id, payment_id, subscription_id, gateway, gateway_dispute_id, amount, currency, reason, status, evidence_due_by, opened_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        dispute.paymentId,
+        dispute.subscriptionId,
+        dispute.gateway,
+        dispute.gatewayDisputeId,
+        dispute.amount,
+        dispute.currency,
+        dispute.reason.slice(0, 255),
+        dispute.status,
+        dispute.evidenceDueBy,
+        dispute.openedBy
+      ]
+    );
+    return id;
+  }
+
+  async getById(id: string, connection?: PoolConnection, forUpdate: boolean = false): Promise<PaymentDispute | null> {
+    const [rows] = await (connection || this.pool).query<PaymentDispute[]>(
+      `SELECT * FROM payment_disputes WHERE id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async findByGatewayDispute(gateway: string, gatewayDisputeId: string, connection?: PoolConnection): Promise<PaymentDispute | null> {
+    const [rows] = await (connection || this.pool).query<PaymentDispute[]>(
+      `SELECT * FROM payment_disputes WHERE gateway = ? AND gateway_dispute_id = ?${connection ? ' FOR UPDATE' : ''}`,
+      [gateway, gatewayDisputeId]
+    );
+    return rows[0] || null;
+  }
+
+  async list(
+    filters: { status?: DisputeStatus; open?: boolean; subscriptionId?: string },
+    limit: number,
+    offset: number
+  ): Promise<{ disputes: PaymentDispute[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    } else if (filters.open) {
+      conditions.push(`status IN (${OPEN_STATUS_LIST})`);
+    }
+    if (filters.subscriptionId) {
+      conditions.push('subscription_id = ?');
+      params.push(filters.subscriptionId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Soonest evidence deadline first
+    const [rows] = await this.pool.query<PaymentDispute[]>(
+      `SELECT * FROM payment_disputes ${where}
+       ORDER BY evidence_due_by IS NULL, evidence_due_by ASC, created_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    const [count] = await this.pool.query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM payment_disputes ${where}`, params);
+    return { disputes: rows, total: Number(count[0].total) };
+  }
+
+  async hasOpenDispute(subscriptionId: string, connection?: PoolConnection, excludeId?: string): Promise<boolean> {
+    const [rows] = await (connection || this.pool).query<RowDataPacket[]>(
+      `SELECT id FROM payment_disputes
+       WHERE subscription_id = ? AND status IN (${OPEN_STATUS_LIST})${excludeId ? ' AND id <> ?' : ''} LIMIT 1`,
+      excludeId ? [subscriptionId, excludeId] : [subscriptionId]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Wallet credits a user received from subscriptions under an open dispute
+   * (disbursements and wallet refunds); these cannot be withdrawn until the
+   * dispute closes
+   */
+  async getHeldBalance(userId: string, asset: WalletAsset, connection?: PoolConnection): Promise<number> {
+    const [rows] = await (connection || this.pool).query<RowDataPacket[]>(
+      `SELECT COALESCE(SUM(wt.amount), 0) AS held
+       FROM wallet_transactions wt
+       WHERE wt.user_id = ? AND wt.asset = ? AND wt.status = 'completed'
+         AND wt.transaction_type IN ('roi_disbursement', 'refund')
+         AND EXISTS (
+           SELECT 1 FROM payment_disputes d
+           WHERE d.subscription_id = JSON_UNQUOTE(JSON_EXTRACT(wt.metadata, '$.subscriptionId'))
+             AND d.status IN (${OPEN_STATUS_LIST})
+         )`,
+      [userId, asset]
+    );
+    return Number(rows[0].held);
+  }
+
+  /**
+   * The held kinds of wallet credit paid out on a subscription, per wallet
+   * and asset, with each wallet's current balance of that asset
+   */
+  async getSubscriptionCredits(connection: PoolConnection, subscriptionId: string): Promise<SubscriptionCredit[]> {
+    const [rows] = await connection.query<SubscriptionCredit[]>(
+      `SELECT wt.user_id, wt.wallet_id, wt.asset, SUM(wt.amount) AS credited, COALESCE(MAX(b.balance), 0) AS balance
+       FROM wallet_transactions wt
+       LEFT JOIN wallet_balances b ON b.wallet_id = wt.wallet_id AND b.asset = wt.asset
+       WHERE wt.status = 'completed' AND wt.transaction_type IN ('roi_disbursement', 'refund')
+         AND JSON_UNQUOTE(JSON_EXTRACT(wt.metadata, '$.subscriptionId')) = ?
+       GROUP BY wt.user_id, wt.wallet_id, wt.asset`,
+      [subscriptionId]
+    );
+    return rows;
+  }
+
+  async updateStatus(
+    connection: PoolConnection,
+    id: string,
+    status: DisputeStatus,
+    details: { amount?: number; evidenceDueBy?: Date | null } = {}
+  ): Promise<void> {
+    await connection.execute(
+      `UPDATE payment_disputes
+       SET status = ?, amount = COALESCE(?, amount), evidence_due_by = COALESCE(?, evidence_due_by)
+       WHERE id = ?`,
+      [status, details.amount ?? null, details.evidenceDueBy ?? null, id]
+    );
+  }
+
+  async setSubscriptionFrozen(connection: PoolConnection, id: string, frozen: boolean): Promise<void> {
+    await connection.execute('UPDATE payment_disputes SET subscription_frozen = ? WHERE id = ?', [frozen ? 1 : 0, id]);
+  }
+
+  /**
+   * Pass responsibility for unfreezing a subscription to another of its open
+   * disputes; false if there is none
+   */
+  async handOverFreeze(connection: PoolConnection, subscriptionId: string, fromId: string): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE payment_disputes SET subscription_frozen = 1
+       WHERE subscription_id = ? AND id <> ? AND status IN (${OPEN_STATUS_LIST})
+       ORDER BY created_at ASC LIMIT 1`,
+      [subscriptionId, fromId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async close(
+    connection: PoolConnection,
+    id: string,
+    outcome: DisputeOutcome,
+    resolution: { resolvedBy: string | null; note: string | null }
+  ): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE payment_disputes
+       SET status = ?, subscription_frozen = 0, resolved_by = ?, resolution_note = ?, closed_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status IN (${OPEN_STATUS_LIST})`,
+      [outcome, resolution.resolvedBy, resolution.note ? resolution.note.slice(0, 500) : null, id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Replace the draft evidence; false once it has been submitted
+   */
+  async saveEvidence(id: string, evidence: DisputeEvidence): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE payment_disputes SET evidence = ?
+       WHERE id = ? AND status = 'needs_response' AND evidence_submitted_at IS NULL`,
+      [JSON.stringify(evidence), id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async markEvidenceSubmitted(id: string, submittedBy: string, submittedToGateway: boolean): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE payment_disputes
+       SET status = 'under_review', evidence_submitted_at = CURRENT_TIMESTAMP, evidence_submitted_by = ?, submitted_to_gateway = ?
+       WHERE id = ? AND status = 'needs_response' AND evidence_submitted_at IS NULL`,
+      [submittedBy, submittedToGateway ? 1 : 0, id]
+    );
+    return result.affectedRows > 0;
+  }
+}
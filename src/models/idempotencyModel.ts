@@ -0,0 +1,74 @@
+// Idempotency Key Model
+// Stores the first response for each (user, Idempotency-Key) pair so retries can be replayed
+
+// How long a stored response can be replayed
+export const IDEMPOTENCY_KEY_TTL_HOURS = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+
+// A claim still processing after this long belongs to a request that never finished
+export const IDEMPOTENCY_PROCESSING_LEASE_SECONDS = parseInt(process.env.IDEMPOTENCY_PROCESSING_LEASE_SECONDS || '300');
+
+export interface IdempotencyKeyRecord {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  method: string;
+  path: string;
+  request_hash: string;
+  status: 'processing' | 'completed';
+  response_status: number | null;
+  response_body: any;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export const idempotencyQueries = {
+  createTable: `
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      id VARCHAR(36) PRIMARY KEY,
+      user_id VARCHAR(255) NOT NULL,
+      idempotency_key VARCHAR(255) NOT NULL,
+      method VARCHAR(10) NOT NULL,
+      path VARCHAR(500) NOT NULL,
+      request_hash CHAR(64) NOT NULL,
+      status ENUM('processing', 'completed') NOT NULL DEFAULT 'processing',
+      response_status INT NULL,
+      response_body JSON NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      completed_at TIMESTAMP NULL,
+      UNIQUE KEY unique_user_key (user_id, idempotency_key),
+      INDEX idx_created_at (created_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+  `,
+
+  // Claim a key before running the handler; fails on the unique key if already claimed
+  insert: `
+    INSERT INTO idempotency_keys (id, user_id, idempotency_key, method, path, request_hash, status)
+    VALUES (?, ?, ?, ?, ?, ?, 'processing')
+  `,
+
+  findByUserAndKey: `
+    SELECT * FROM idempotency_keys
+    WHERE user_id = ? AND idempotency_key = ?
+  `,
+
+  complete: `
+    UPDATE idempotency_keys
+    SET status = 'completed', response_status = ?, response_body = ?, completed_at = NOW()
+    WHERE id = ?
+  `,
+
+  // Release a claim so the client can retry (handler failed with a server error)
+  deleteById: `
+    DELETE FROM idempotency_keys WHERE id = ?
+  `,
+
+  // Take back a claim whose lease ran out, unless it completed in the meantime
+  deleteStaleProcessing: `
+    DELETE FROM idempotency_keys WHERE id = ? AND status = 'processing'
+  `,
+
+  deleteExpired: `
+    DELETE FROM idempotency_keys
+    WHERE created_at < DATE_SUB(NOW(), INTERVAL ? HOUR)
+  `,
+};
@@ -0,0 +1,321 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { WalletAsset, DEFAULT_WALLET_ASSET } from './walletModel';
+
+export type LedgerDirection = 'debit' | 'credit';
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'deposit'
+  | 'withdrawal'
+  | 'withdrawal_fee'
+  | 'transfer'
+  | 'subscription_payment'
+  | 'roi_disbursement'
+  | 'refund'
+  | 'chargeback'
+  | 'adjustment';
+
+/**
+ * Platform-owned accounts. User wallets are credit-normal liabilities
+ * (money the platform owes its users); the float is the debit-normal asset
+ * that backs them. Each account exists once per asset.
+ */
+export const SYSTEM_ACCOUNTS = {
+  FLOAT: 'system:float',
+  SUBSCRIPTION_PROCEEDS: 'system:subscription_proceeds',
+  ROI_DISTRIBUTIONS: 'system:roi_distributions',
+  FEE_REVENUE: 'system:fee_revenue'
+} as const;
+
+export type SystemAccountCode = typeof SYSTEM_ACCOUNTS[keyof typeof SYSTEM_ACCOUNTS];
+
+const SYSTEM_ACCOUNT_DEFINITIONS: Record<SystemAccountCode, { name: string; normalBalance: LedgerDirection }> = {
+  'system:float': { name: 'Platform float', normalBalance: 'debit' },
+  'system:subscription_proceeds': { name: 'Subscription proceeds', normalBalance: 'credit' },
+  'system:roi_distributions': { name: 'ROI distributions clearing', normalBalance: 'debit' },
+  'system:fee_revenue': { name: 'Withdrawal fee revenue', normalBalance: 'credit' }
+};
+
+/**
+ * USDC accounts keep the codes they had before other assets were supported;
+ * every other asset gets an asset suffix.
+ */
+export function walletAccountCode(walletId: string, asset: WalletAsset = DEFAULT_WALLET_ASSET): string {
+  return asset === DEFAULT_WALLET_ASSET ? `wallet:${walletId}` : `wallet:${walletId}:${asset}`;
+}
+
+export function systemAccountCode(code: SystemAccountCode, asset: WalletAsset = DEFAULT_WALLET_ASSET): string {
+  return asset === DEFAULT_WALLET_ASSET ? code : `${code}:${asset}`;
+}
+
+export interface LedgerAccount extends RowDataPacket {
+  id: string;
+  account_code: string;
+  account_type: 'user_wallet' | 'system';
+  wallet_id: string | null;
+  name: string;
+  currency: string;
+  normal_balance: LedgerDirection;
+  created_at: Date;
+}
+
+export interface LedgerJournalEntry extends RowDataPacket {
+  id: string;
+  entry_type: LedgerEntryType;
+  reference_type: string | null;
+  reference_id: string | null;
+  description: string | null;
+  metadata: any;
+  created_at: Date;
+}
+
+export interface LedgerPosting extends RowDataPacket {
+  id: string;
+  journal_entry_id: string;
+  account_id: string;
+  direction: LedgerDirection;
+  amount: string;
+  currency: string;
+  created_at: Date;
+}
+
+export interface NewJournalEntry {
+  entryType: LedgerEntryType;
+  asset?: WalletAsset; // defaults to USDC; every posting in the entry is in this asset
+  description?: string;
+  referenceType?: string;
+  referenceId?: string;
+  metadata?: any;
+}
+
+export interface NewPosting {
+  accountId: string;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+/** Amounts are compared in 6-decimal integer units to avoid float drift */
+export function toMicroUnits(amount: number | string): number {
+  return Math.round(Number(amount) * 1_000_000);
+}
+
+export class LedgerModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Accounts ==========
+
+  async getAccountById(accountId: string): Promise<LedgerAccount | null> {
+    const [rows] = await this.pool.query<LedgerAccount[]>(
+      'SELECT * FROM ledger_accounts WHERE id = ?',
+      [accountId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getAccountByCode(accountCode: string, connection?: PoolConnection): Promise<LedgerAccount | null> {
+    const [rows] = await (connection || this.pool).query<LedgerAccount[]>(
+      'SELECT * FROM ledger_accounts WHERE account_code = ?',
+      [accountCode]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getWalletAccount(
+    walletId: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection
+  ): Promise<LedgerAccount | null> {
+    return this.getAccountByCode(walletAccountCode(walletId, asset), connection);
+  }
+
+  async getWalletAccounts(walletId: string): Promise<LedgerAccount[]> {
+    const [rows] = await this.pool.query<LedgerAccount[]>(
+      'SELECT * FROM ledger_accounts WHERE wallet_id = ? ORDER BY currency',
+      [walletId]
+    );
+    return rows;
+  }
+
+  async getOrCreateWalletAccount(
+    walletId: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection
+  ): Promise<LedgerAccount> {
+    const existing = await this.getWalletAccount(walletId, asset, connection);
+    if (existing) return existing;
+
+    await (connection || this.pool).execute(
+      `INSERT INTO ledger_accounts (id, account_code, account_type, wallet_id, name, currency, normal_balance)
+       VALUES (?, ?, 'user_wallet', ?, ?, ?, 'credit')
+       ON DUPLICATE KEY UPDATE id = id`,
+      [uuidv4(), walletAccountCode(walletId, asset), walletId, `User wallet ${walletId} (${asset})`, asset]
+    );
+
+    const account = await this.getWalletAccount(walletId, asset, connection);
+    if (!account) throw new Error('Failed to create ledger account');
+    return account;
+  }
+
+  async getOrCreateSystemAccount(
+    code: SystemAccountCode,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection
+  ): Promise<LedgerAccount> {
+    const accountCode = systemAccountCode(code, asset);
+    const existing = await this.getAccountByCode(accountCode, connection);
+    if (existing) return existing;
+
+    const definition = SYSTEM_ACCOUNT_DEFINITIONS[code];
+    await (connection || this.pool).execute(
+      `INSERT INTO ledger_accounts (id, account_code, account_type, wallet_id, name, currency, normal_balance)
+       VALUES (?, ?, 'system', NULL, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE id = id`,
+      [uuidv4(), accountCode, `${definition.name} (${asset})`, asset, definition.normalBalance]
+    );
+
+    const account = await this.getAccountByCode(accountCode, connection);
+    if (!account) throw new Error('Failed to create system ledger account');
+    return account;
+  }
+
+  async getAllAccounts(): Promise<LedgerAccount[]> {
+    const [rows] = await this.pool.query<LedgerAccount[]>(
+      'SELECT * FROM ledger_accounts ORDER BY account_type DESC, account_code'
+    );
+    return rows;
+  }
+
+  // ========== Journal Entries ==========
+
+  /**
+   * Write a journal entry and its postings. Rejects entries whose debits and
+   * credits do not net to zero; the caller owns the surrounding transaction.
+   */
+  async createJournalEntry(
+    connection: PoolConnection,
+    entry: NewJournalEntry,
+    postings: NewPosting[]
+  ): Promise<string> {
+    if (postings.length < 2) {
+      throw new Error('Journal entry requires at least two postings');
+    }
+
+    let debits = 0;
+    let credits = 0;
+    for (const posting of postings) {
+      const units = toMicroUnits(posting.amount);
+      if (units <= 0) {
+        throw new Error('Posting amounts must be positive');
+      }
+      if (posting.direction === 'debit') debits += units;
+      else credits += units;
+    }
+
+    if (debits !== credits) {
+      throw new Error('Unbalanced journal entry');
+    }
+
+    const entryId = uuidv4();
+    await connection.execute(
+      `INSERT INTO ledger_journal_entries (id, entry_type, reference_type, reference_id, description, metadata)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        entryId,
+        entry.entryType,
+        entry.referenceType || null,
+        entry.referenceId || null,
+        entry.description || null,
+        entry.metadata ? JSON.stringify(entry.metadata) : null
+      ]
+    );
+
+    for (const posting of postings) {
+      await connection.execute(
+        `INSERT INTO ledger_postings (id, journal_entry_id, account_id, direction, amount, currency)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          entryId,
+          posting.accountId,
+          posting.direction,
+          (toMicroUnits(posting.amount) / 1_000_000).toFixed(6),
+          entry.asset || DEFAULT_WALLET_ASSET
+        ]
+      );
+    }
+
+    return entryId;
+  }
+
+  async getJournalEntry(entryId: string): Promise<LedgerJournalEntry | null> {
+    const [rows] = await this.pool.query<LedgerJournalEntry[]>(
+      'SELECT * FROM ledger_journal_entries WHERE id = ?',
+      [entryId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getPostingsByEntry(entryId: string): Promise<LedgerPosting[]> {
+    const [rows] = await this.pool.query<LedgerPosting[]>(
+      'SELECT * FROM ledger_postings WHERE journal_entry_id = ? ORDER BY direction DESC',
+      [entryId]
+    );
+    return rows;
+  }
+
+  async getPostingsByAccount(
+    accountId: string,
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<(LedgerPosting & { entry_type: LedgerEntryType; description: string | null; reference_type: string | null; reference_id: string | null })[]> {
+    const [rows] = await this.pool.query<any[]>(
+      `SELECT p.*, e.entry_type, e.description, e.reference_type, e.reference_id
+       FROM ledger_postings p
+       JOIN ledger_journal_entries e ON e.id = p.journal_entry_id
+       WHERE p.account_id = ?
+       ORDER BY p.created_at DESC, p.id
+       LIMIT ? OFFSET ?`,
+      [accountId, limit, offset]
+    );
+    return rows;
+  }
+
+  // ========== Balances ==========
+
+  /**
+   * Sum an account's postings, signed by its normal balance
+   */
+  async getAccountBalance(accountId: string, connection?: PoolConnection): Promise<number> {
+    const [rows] = await (connection || this.pool).query<RowDataPacket[]>(
+      `SELECT a.normal_balance,
+              COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE 0 END), 0) AS debits,
+              COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE 0 END), 0) AS credits
+       FROM ledger_accounts a
+       LEFT JOIN ledger_postings p ON p.account_id = a.id
+       WHERE a.id = ?
+       GROUP BY a.id, a.normal_balance`,
+      [accountId]
+    );
+
+    if (rows.length === 0) return 0;
+
+    const debits = toMicroUnits(rows[0].debits);
+    const credits = toMicroUnits(rows[0].credits);
+    const units = rows[0].normal_balance === 'credit' ? credits - debits : debits - credits;
+    return units / 1_000_000;
+  }
+
+  async getPostingTotals(): Promise<RowDataPacket[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT a.id, a.account_code, a.account_type, a.currency, a.normal_balance,
+              COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount ELSE 0 END), 0) AS debits,
+              COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount ELSE 0 END), 0) AS credits
+       FROM ledger_accounts a
+       LEFT JOIN ledger_postings p ON p.account_id = a.id
+       GROUP BY a.id, a.account_code, a.account_type, a.currency, a.normal_balance
+       ORDER BY a.currency, a.account_type DESC, a.account_code`
+    );
+    return rows;
+  }
+}
@@ -0,0 +1,350 @@
+import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'webhook'];
+
+/**
+ * Channels each notification type goes to until the user says otherwise.
+ * Types not listed here are delivered in-app only.
+ */
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<string, NotificationChannel[]> = {
+  bid_received: ['in_app', 'email', 'webhook'],
+  dividend_paid: ['in_app', 'email', 'webhook'],
+  kyc_submission: ['in_app'],
+  kyc_approved: ['in_app', 'email', 'webhook'],
+  kyc_rejected: ['in_app', 'email', 'webhook'],
+  escrow_dispute: ['in_app', 'email', 'webhook'],
+  escrow_released: ['in_app', 'email', 'webhook'],
+  property_listed: ['in_app', 'webhook'],
+  auction_ended: ['in_app', 'email', 'webhook'],
+  subscription_update: ['in_app', 'email', 'webhook']
+};
+
+export type NotificationPriority = 'urgent' | 'normal' | 'low';
+
+/**
+ * Urgent types skip quiet hours and digests; low-priority types are folded
+ * into digests for users who asked for them. Types not listed are normal.
+ */
+export const NOTIFICATION_PRIORITIES: Record<string, NotificationPriority> = {
+  security_alert: 'urgent',
+  kyc_submission: 'urgent',
+  kyc_approved: 'urgent',
+  kyc_rejected: 'urgent',
+  dividend_paid: 'low',
+  property_listed: 'low',
+  subscription_update: 'low'
+};
+
+export const DIGEST_NOTIFICATION_TYPE = 'notification_digest';
+
+// batched: waiting for the user's next digest; digested: sent as part of one
+export type DeliveryStatus = 'pending' | 'batched' | 'digested' | 'delivered' | 'failed';
+
+export interface NotificationPreference extends RowDataPacket {
+  user_id: string;
+  notification_type: string;
+  channel: NotificationChannel;
+  enabled: boolean;
+  updated_at: Date;
+}
+
+export interface NotificationWebhook extends RowDataPacket {
+  user_id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NotificationDelivery extends RowDataPacket {
+  id: string;
+  notification_id: string;
+  user_id: string;
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: Date | null;
+  delivered_at: Date | null;
+  digest_notification_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NotificationDeliveryAttempt extends RowDataPacket {
+  id: string;
+  delivery_id: string;
+  attempt_number: number;
+  succeeded: boolean;
+  response_code: number | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: Date;
+}
+
+export class NotificationDeliveryModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Preferences ==========
+
+  async getPreferences(userId: string, notificationType?: string): Promise<NotificationPreference[]> {
+    const [rows] = await this.pool.query<NotificationPreference[]>(
+      `SELECT * FROM notification_preferences
+       WHERE user_id = ? ${notificationType ? 'AND notification_type = ?' : ''}
+       ORDER BY notification_type, channel`,
+      notificationType ? [userId, notificationType] : [userId]
+    );
+    return rows;
+  }
+
+  async upsertPreference(userId: string, notificationType: string, channel: NotificationChannel, enabled: boolean): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO notification_preferences (user_id, notification_type, channel, enabled)
+       VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE enabled = VALUES(enabled)`,
+      [userId, notificationType, channel, enabled]
+    );
+  }
+
+  // ========== Webhooks ==========
+
+  async getWebhook(userId: string): Promise<NotificationWebhook | null> {
+    const [rows] = await this.pool.query<NotificationWebhook[]>(
+      'SELECT * FROM notification_webhooks WHERE user_id = ?',
+      [userId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async upsertWebhook(userId: string, url: string, secret: string): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO notification_webhooks (user_id, url, secret, is_active)
+       VALUES (?, ?, ?, TRUE)
+       ON DUPLICATE KEY UPDATE url = VALUES(url), secret = VALUES(secret), is_active = TRUE`,
+      [userId, url, secret]
+    );
+  }
+
+  async deactivateWebhook(userId: string): Promise<void> {
+    await this.pool.execute(
+      'UPDATE notification_webhooks SET is_active = FALSE WHERE user_id = ?',
+      [userId]
+    );
+  }
+
+  // ========== Deliveries ==========
+
+  async createDelivery(
+    notificationId: string,
+    userId: string,
+    channel: NotificationChannel,
+    status: DeliveryStatus = 'pending'
+  ): Promise<string> {
+    const deliveryId = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO notification_deliveries (id, notification_id, user_id, channel, status, next_attempt_at, delivered_at)
+       VALUES (?, ?, ?, ?, ?, ${status === 'pending' ? 'NOW()' : 'NULL'}, ${status === 'delivered' ? 'NOW()' : 'NULL'})`,
+      [deliveryId, notificationId, userId, channel, status]
+    );
+    return deliveryId;
+  }
+
+  async getDeliveryById(deliveryId: string): Promise<NotificationDelivery | null> {
+    const [rows] = await this.pool.query<NotificationDelivery[]>(
+      'SELECT * FROM notification_deliveries WHERE id = ?',
+      [deliveryId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getDeliveriesByUser(userId: string, limit: number = 50, offset: number = 0): Promise<RowDataPacket[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT d.*, n.type, n.title
+       FROM notification_deliveries d
+       JOIN notifications n ON n.id = d.notification_id
+       WHERE d.user_id = ?
+       ORDER BY d.created_at DESC
+       LIMIT ? OFFSET ?`,
+      [userId, limit, offset]
+    );
+    return rows;
+  }
+
+  async getDeliveries(filters: { status?: DeliveryStatus; channel?: NotificationChannel }, limit: number = 50, offset: number = 0): Promise<NotificationDelivery[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.channel) {
+      conditions.push('channel = ?');
+      params.push(filters.channel);
+    }
+
+    const [rows] = await this.pool.query<NotificationDelivery[]>(
+      `SELECT * FROM notification_deliveries
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    return rows;
+  }
+
+  async getDueDeliveryIds(limit: number): Promise<string[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT id FROM notification_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT ?`,
+      [limit]
+    );
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Lease a due delivery for `leaseSeconds` so concurrent workers skip it;
+   * returns false if another worker got there first
+   */
+  async claimDelivery(deliveryId: string, leaseSeconds: number): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE notification_deliveries
+       SET next_attempt_at = DATE_ADD(NOW(), INTERVAL ? SECOND)
+       WHERE id = ? AND status = 'pending' AND next_attempt_at <= NOW()`,
+      [leaseSeconds, deliveryId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async recordAttempt(
+    delivery: NotificationDelivery,
+    outcome: { succeeded: boolean; responseCode: number | null; error: string | null; durationMs: number },
+    nextAttemptAt: Date | null
+  ): Promise<void> {
+    const attemptNumber = delivery.attempts + 1;
+    await this.pool.execute(
+      `INSERT INTO notification_delivery_attempts (id, delivery_id, attempt_number, succeeded, response_code, error, duration_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [uuidv4(), delivery.id, attemptNumber, outcome.succeeded, outcome.responseCode, outcome.error, outcome.durationMs]
+    );
+
+    const status: DeliveryStatus = outcome.succeeded ? 'delivered' : nextAttemptAt ? 'pending' : 'failed';
+    await this.pool.execute(
+      `UPDATE notification_deliveries
+       SET attempts = ?, status = ?, last_error = ?, next_attempt_at = ?,
+           delivered_at = ${outcome.succeeded ? 'NOW()' : 'delivered_at'}
+       WHERE id = ?`,
+      [attemptNumber, status, outcome.error, outcome.succeeded ? null : nextAttemptAt, delivery.id]
+    );
+  }
+
+  async getAttempts(deliveryId: string): Promise<NotificationDeliveryAttempt[]> {
+    const [rows] = await this.pool.query<NotificationDeliveryAttempt[]>(
+      'SELECT * FROM notification_delivery_attempts WHERE delivery_id = ? ORDER BY attempt_number',
+      [deliveryId]
+    );
+    return rows;
+  }
+
+  /**
+   * Push a pending delivery back without counting an attempt
+   */
+  async deferDelivery(deliveryId: string, until: Date): Promise<void> {
+    await this.pool.execute(
+      `UPDATE notification_deliveries SET next_attempt_at = ? WHERE id = ? AND status = 'pending'`,
+      [until, deliveryId]
+    );
+  }
+
+  /**
+   * Put a failed delivery back in the queue for an immediate retry
+   */
+  async requeueDelivery(deliveryId: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE notification_deliveries SET status = 'pending', next_attempt_at = NOW()
+       WHERE id = ? AND status = 'failed'`,
+      [deliveryId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // ========== Digests ==========
+
+  /**
+   * Users and channels with deliveries waiting for a digest, with the
+   * oldest one's age
+   */
+  async getBatchedQueues(limit: number): Promise<Array<{ user_id: string; channel: NotificationChannel; oldest: Date }>> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT user_id, channel, MIN(created_at) AS oldest
+       FROM notification_deliveries
+       WHERE status = 'batched'
+       GROUP BY user_id, channel
+       ORDER BY oldest
+       LIMIT ?`,
+      [limit]
+    );
+    return rows as Array<{ user_id: string; channel: NotificationChannel; oldest: Date }>;
+  }
+
+  /**
+   * Move a user's batched deliveries on a channel into a digest; returns how
+   * many were taken, 0 if another worker got there first
+   */
+  async claimBatchedDeliveries(userId: string, channel: NotificationChannel, digestNotificationId: string): Promise<number> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE notification_deliveries
+       SET status = 'digested', digest_notification_id = ?
+       WHERE user_id = ? AND channel = ? AND status = 'batched'`,
+      [digestNotificationId, userId, channel]
+    );
+    return result.affectedRows;
+  }
+
+  /**
+   * Hand claimed deliveries back to the batch when their digest could not be built
+   */
+  async releaseDigestedDeliveries(digestNotificationId: string): Promise<void> {
+    await this.pool.execute(
+      `UPDATE notification_deliveries
+       SET status = 'batched', digest_notification_id = NULL
+       WHERE digest_notification_id = ? AND status = 'digested'`,
+      [digestNotificationId]
+    );
+  }
+
+  async getDigestedDeliveries(digestNotificationId: string): Promise<RowDataPacket[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT d.id AS delivery_id, n.id, n.type, n.title, n.message, n.data, n.templated, n.created_at
+       FROM notification_deliveries d
+       JOIN notifications n ON n.id = d.notification_id
+       WHERE d.digest_notification_id = ?
+       ORDER BY n.created_at`,
+      [digestNotificationId]
+    );
+    return rows;
+  }
+
+  /**
+   * Store a digest as a notification of its own, kept out of the in-app list
+   * since its contents are already there
+   */
+  async insertDigestNotification(
+    notificationId: string,
+    userId: string,
+    title: string,
+    message: string,
+    data: Record<string, any>
+  ): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO notifications (id, user_id, type, title, message, data, in_app_visible, templated, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, FALSE, TRUE, CURRENT_TIMESTAMP)`,
+      [notificationId, userId, DIGEST_NOTIFICATION_TYPE, title, message, JSON.stringify(data)]
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+
+export type DigestFrequency = 'immediate' | 'hourly' | 'daily';
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['immediate', 'hourly', 'daily'];
+
+export interface NotificationSchedule {
+  user_id: string;
+  digest_frequency: DigestFrequency;
+  digest_hour: number;
+  timezone: string | null;
+  quiet_hours_start: string | null; // HH:MM in the user's time zone
+  quiet_hours_end: string | null;
+}
+
+export class NotificationScheduleModel {
+  constructor(private pool: Pool) {}
+
+  async getSchedule(userId: string): Promise<NotificationSchedule | null> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT user_id, digest_frequency, digest_hour, timezone, quiet_hours_start, quiet_hours_end
+       FROM notification_schedules WHERE user_id = ?`,
+      [userId]
+    );
+    return rows.length > 0 ? (rows[0] as NotificationSchedule) : null;
+  }
+
+  async upsertSchedule(schedule: NotificationSchedule): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO notification_schedules
+         (user_id, digest_frequency, digest_hour, timezone, quiet_hours_start, quiet_hours_end)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         digest_frequency = VALUES(digest_frequency),
+         digest_hour = VALUES(digest_hour),
+         timezone = VALUES(timezone),
+         quiet_hours_start = VALUES(quiet_hours_start),
+         quiet_hours_end = VALUES(quiet_hours_end)`,
+      [
+        schedule.user_id,
+        schedule.digest_frequency,
+        schedule.digest_hour,
+        schedule.timezone,
+        schedule.quiet_hours_start,
+        schedule.quiet_hours_end
+      ]
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+/** Locale every template falls back to; the built-in copy is written for it */
+export const BASE_TEMPLATE_LOCALE = 'en';
+
+export interface TemplateDefinition {
+  title: string;
+  message: string;
+}
+
+export interface DefaultNotificationTemplate {
+  locales: Record<string, TemplateDefinition>;
+  sampleData: Record<string, any>; // used by admin previews
+}
+
+/**
+ * Built-in copy for each notification type. Admins override it per locale
+ * through the notification_templates table.
+ */
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<string, DefaultNotificationTemplate> = {
+  bid_received: {
+    locales: {
+      en: {
+        title: 'New Bid Received',
+        message: '{bidderUsername} placed a bid of {bidAmount} ETH on {propertyTitle}'
+      }
+    },
+    sampleData: { bidderUsername: 'kiwi_investor', bidAmount: '1.25', propertyTitle: '12 Ponsonby Road', listingId: 'sample' }
+  },
+  dividend_paid: {
+    locales: {
+      en: {
+        title: 'Dividend Payment Received',
+        message: 'You received {amount} {currency} dividend from {propertyTitle}'
+      }
+    },
+    sampleData: { amount: '42.50', currency: 'USDC', propertyTitle: '12 Ponsonby Road' }
+  },
+  kyc_submission: {
+    locales: {
+      en: {
+        title: 'KYC Submission Received',
+        message: 'KYC submission from {username} has been received and is under review'
+      }
+    },
+    sampleData: { username: 'kiwi_investor' }
+  },
+  kyc_approved: {
+    locales: {
+      en: {
+        title: 'KYC Verification Approved',
+        message: 'Your KYC verification has been approved. You can now access full platform features.'
+      }
+    },
+    sampleData: {}
+  },
+  kyc_rejected: {
+    locales: {
+      en: {
+        title: 'KYC Verification Rejected',
+        message: 'Your KYC verification has been rejected. Reason: {reason}'
+      }
+    },
+    sampleData: { reason: 'Document image was unreadable' }
+  },
+  escrow_dispute: {
+    locales: {
+      en: {
+        title: 'Escrow Dispute Filed',
+        message: 'A dispute has been filed for {propertyTitle}. Please review the details.'
+      }
+    },
+    sampleData: { propertyTitle: '12 Ponsonby Road', escrowId: 'sample' }
+  },
+  escrow_released: {
+    locales: {
+      en: {
+        title: 'Escrow Funds Released',
+        message: '{amount} {currency} has been released for {propertyTitle}'
+      }
+    },
+    sampleData: { amount: '1.5', currency: 'ETH', propertyTitle: '12 Ponsonby Road' }
+  },
+  property_listed: {
+    locales: {
+      en: {
+        title: 'Property Listed Successfully',
+        message: 'Your property "{propertyTitle}" has been listed on the marketplace'
+      }
+    },
+    sampleData: { propertyTitle: '12 Ponsonby Road', propertyId: 'sample' }
+  },
+  auction_ended: {
+    locales: {
+      en: {
+        title: 'Auction Ended',
+        message: 'Auction for {propertyTitle} has ended. Won by {winnerUsername} at {finalAmount} ETH'
+      }
+    },
+    sampleData: { propertyTitle: '12 Ponsonby Road', winnerUsername: 'kiwi_investor', finalAmount: '2.4' }
+  },
+  subscription_update: {
+    locales: {
+      en: {
+        title: 'Subscription Updated',
+        message: 'Your {subscriptionType} subscription is now {status}'
+      }
+    },
+    sampleData: { subscriptionType: 'premium', status: 'active' }
+  },
+  notification_digest: {
+    locales: {
+      en: {
+        title: 'Your TitleBase summary: {count, plural, one {# update} other {# updates}}',
+        message: 'Here is what happened since your last summary:\n{summary}'
+      }
+    },
+    sampleData: {
+      count: 2,
+      summary: '- Dividend Payment Received: You received 42.50 USDC dividend from 12 Ponsonby Road\n- Subscription Updated: Your premium subscription is now active',
+      notifications: []
+    }
+  }
+};
+
+export interface NotificationTemplate extends RowDataPacket {
+  id: string;
+  notification_type: string;
+  locale: string;
+  title_template: string;
+  message_template: string;
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class NotificationTemplateModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Templates ==========
+
+  async getTemplates(): Promise<NotificationTemplate[]> {
+    const [rows] = await this.pool.query<NotificationTemplate[]>(
+      'SELECT * FROM notification_templates ORDER BY notification_type, locale'
+    );
+    return rows;
+  }
+
+  async getTemplate(notificationType: string, locale: string): Promise<NotificationTemplate | null> {
+    const [rows] = await this.pool.query<NotificationTemplate[]>(
+      'SELECT * FROM notification_templates WHERE notification_type = ? AND locale = ?',
+      [notificationType, locale]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async upsertTemplate(
+    notificationType: string,
+    locale: string,
+    titleTemplate: string,
+    messageTemplate: string,
+    updatedBy: string | null
+  ): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO notification_templates (id, notification_type, locale, title_template, message_template, updated_by)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         title_template = VALUES(title_template),
+         message_template = VALUES(message_template),
+         updated_by = VALUES(updated_by)`,
+      [uuidv4(), notificationType, locale, titleTemplate, messageTemplate, updatedBy]
+    );
+  }
+
+  async deleteTemplate(notificationType: string, locale: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      'DELETE FROM notification_templates WHERE notification_type = ? AND locale = ?',
+      [notificationType, locale]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // ========== User Locale ==========
+
+  async getUserLocale(userId: string): Promise<string | null> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT locale FROM users WHERE id = ?',
+      [userId]
+    );
+    return rows[0]?.locale || null;
+  }
+
+  async setUserLocale(userId: string, locale: string | null): Promise<void> {
+    await this.pool.execute('UPDATE users SET locale = ? WHERE id = ?', [locale, userId]);
+  }
+}
@@ -0,0 +1,267 @@
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export const PAYMENT_STATES = ['created', 'authorized', 'captured', 'settled', 'failed', 'refunded', 'disputed', 'chargeback'] as const;
+export type PaymentState = typeof PAYMENT_STATES[number];
+export type TransitionSource = 'api' | 'webhook' | 'admin' | 'system';
+
+export interface PaymentTransaction extends RowDataPacket {
+  id: string;
+  property_id: string | null;
+  subscriber_user_id: string | null;
+  subscription_id: string | null;
+  amount: string;
+  currency: string;
+  gateway: string;
+  gateway_transaction_id: string;
+  status: string;
+  state: PaymentState;
+  state_changed_at: Date | null;
+  failure_reason: string | null;
+  metadata: any;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PaymentStateTransition extends RowDataPacket {
+  id: string;
+  payment_id: string;
+  from_state: PaymentState | null;
+  to_state: PaymentState;
+  source: TransitionSource;
+  event_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface TransitionDetails {
+  eventId?: string | null;
+  note?: string | null;
+  failureReason?: string | null;
+  actorId?: string | null;
+}
+
+export interface NewPayment {
+  propertyId: string | null;
+  subscriberUserId: string;
+  subscriptionId?: string | null;
+  amount: number;
+  currency: string;
+  gateway: string;
+  gatewayTransactionId: string;
+  state: PaymentState;
+  failureReason?: string | null;
+}
+
+// payment_transactions.status kept alongside the state for older readers
+export const LEGACY_STATUSES: Record<PaymentState, string> = {
+  created: 'PENDING',
+  authorized: 'AUTHORIZED',
+  captured: 'COMPLETED',
+  settled: 'COMPLETED',
+  failed: 'FAILED',
+  refunded: 'REFUNDED',
+  disputed: 'DISPUTED',
+  chargeback: 'CHARGEBACK'
+};
+
+export class PaymentModel {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Insert a payment and its first transition, inside the caller's
+   * transaction when a connection is given
+   */
+  async create(
+    payment: NewPayment,
+    source: TransitionSource,
+    details: TransitionDetails = {},
+    connection?: PoolConnection
+  ): Promise<PaymentTransaction> {
+    if (connection) {
+      return this.insert(connection, payment, source, details);
+    }
+
+    const own = await this.pool.getConnection();
+    try {
+      await own.beginTransaction();
+      const created = await this.insert(own, payment, source, details);
+      await own.commit();
+      return created;
+    } catch (error) {
+      await own.rollback();
+      throw error;
+    } finally {
+      own.release();
+    }
+  }
+
+  async getById(id: string, connection?: PoolConnection, forUpdate: boolean = false): Promise<PaymentTransaction | null> {
+    const [rows] = await (connection || this.pool).query<PaymentTransaction[]>(
+      `SELECT * FROM payment_transactions WHERE id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    return rows[0] || null;
+  }
+
+  async findByGatewayTransaction(gateway: string, gatewayTransactionId: string): Promise<PaymentTransaction | null> {
+    const [rows] = await this.pool.query<PaymentTransaction[]>(
+      `SELECT * FROM payment_transactions
+       WHERE gateway = ? AND gateway_transaction_id = ?
+       ORDER BY created_at DESC LIMIT 1`,
+      [gateway, gatewayTransactionId]
+    );
+    return rows[0] || null;
+  }
+
+  async findBySubscription(subscriptionId: string): Promise<PaymentTransaction[]> {
+    const [rows] = await this.pool.query<PaymentTransaction[]>(
+      'SELECT * FROM payment_transactions WHERE subscription_id = ? ORDER BY created_at DESC',
+      [subscriptionId]
+    );
+    return rows;
+  }
+
+  async list(filters: { state?: PaymentState; gateway?: string; subscriptionId?: string }, limit: number, offset: number): Promise<PaymentTransaction[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.state) {
+      conditions.push('state = ?');
+      params.push(filters.state);
+    }
+    if (filters.gateway) {
+      conditions.push('gateway = ?');
+      params.push(filters.gateway);
+    }
+    if (filters.subscriptionId) {
+      conditions.push('subscription_id = ?');
+      params.push(filters.subscriptionId);
+    }
+
+    const [rows] = await this.pool.query<PaymentTransaction[]>(
+      `SELECT * FROM payment_transactions
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    return rows;
+  }
+
+  async getTransitions(paymentId: string): Promise<PaymentStateTransition[]> {
+    const [rows] = await this.pool.query<PaymentStateTransition[]>(
+      'SELECT * FROM payment_state_transitions WHERE payment_id = ? ORDER BY created_at ASC',
+      [paymentId]
+    );
+    return rows;
+  }
+
+  async setSubscription(connection: PoolConnection, paymentId: string, subscriptionId: string): Promise<void> {
+    await connection.execute(
+      'UPDATE payment_transactions SET subscription_id = ? WHERE id = ?',
+      [subscriptionId, paymentId]
+    );
+  }
+
+  /**
+   * Move a payment from one state to another; false if it was no longer in
+   * the expected state
+   */
+  async transition(
+    connection: PoolConnection,
+    paymentId: string,
+    from: PaymentState,
+    to: PaymentState,
+    source: TransitionSource,
+    details: TransitionDetails = {}
+  ): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE payment_transactions
+       SET state = ?, status = ?, state_changed_at = CURRENT_TIMESTAMP,
+           failure_reason = COALESCE(?, failure_reason)
+       WHERE id = ? AND state = ?`,
+      [to, LEGACY_STATUSES[to], details.failureReason ? details.failureReason.slice(0, 500) : null, paymentId, from]
+    );
+    if (result.affectedRows === 0) {
+      return false;
+    }
+    await this.insertTransition(connection, paymentId, from, to, source, details);
+    return true;
+  }
+
+  /**
+   * Claim a webhook event; false when it was already handled
+   */
+  async recordWebhookEvent(
+    connection: PoolConnection,
+    event: { gateway: string; eventId: string; eventType: string; paymentId: string | null; outcome: 'applied' | 'ignored' | 'flagged' }
+  ): Promise<boolean> {
+    try {
+      await connection.execute(
+        `INSERT INTO payment_webhook_events (id, gateway, event_id, event_type, payment_id, outcome)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), event.gateway, event.eventId.slice(0, 255), event.eventType.slice(0, 100), event.paymentId, event.outcome]
+      );
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ER_DUP_ENTRY') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async insert(
+    connection: PoolConnection,
+    payment: NewPayment,
+    source: TransitionSource,
+    details: TransitionDetails
+  ): Promise<PaymentTransaction> {
+    const id = uuidv4();
+    await connection.execute(
+      `INSERT INTO payment_transactions
+         (id, property_id, subscriber_user_id, subscription_id, amount, currency, gateway, gateway_transaction_id,
+          status, state, state_changed_at, failure_reason, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?, NOW())`,
+      [
+        id,
+        payment.propertyId,
+        payment.subscriberUserId,
+        payment.subscriptionId || null,
+        payment.amount,
+        payment.currency,
+        payment.gateway,
+        payment.gatewayTransactionId,
+        LEGACY_STATUSES[payment.state],
+        payment.state,
+        payment.failureReason ? payment.failureReason.slice(0, 500) : null
+      ]
+    );
+    await this.insertTransition(connection, id, null, payment.state, source, details);
+    return (await this.getById(id, connection))!;
+  }
+
+  private async insertTransition(
+    connection: PoolConnection,
+    paymentId: string,
+    from: PaymentState | null,
+    to: PaymentState,
+    source: TransitionSource,
+    details: TransitionDetails
+  ): Promise<void> {
+    await connection.execute(
+      `INSERT INTO payment_state_transitions (id, payment_id, from_state, to_state, source, event_id, note, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        uuidv4(),
+        paymentId,
+        from,
+        to,
+        source,
+        details.eventId ? details.eventId.slice(0, 255) : null,
+        details.note ? details.note.slice(0, 500) : null,
+        details.actorId || null
+      ]
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+
+/**
+ * Permission catalogue. Roles are granted a set of these; individual users
+ * can additionally be allowed or denied a permission on top of their role.
+ */
+export const PERMISSIONS = {
+  CREATE_PROPERTY: 'create_property',
+  ADMIN_ACCESS: 'admin_access',
+  MANAGE_USERS: 'manage_users',
+  MANAGE_ROLES: 'manage_roles',
+  MANAGE_PROPERTIES: 'manage_properties',
+  MINT_PROPERTIES: 'mint_properties',
+  MANAGE_PAYMENTS: 'manage_payments',
+  PROCESS_DISTRIBUTIONS: 'process_distributions',
+  REVIEW_KYC: 'review_kyc',
+  VIEW_REPORTS: 'view_reports'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  create_property: 'List new properties',
+  admin_access: 'Open the admin console',
+  manage_users: 'View users and change their permissions',
+  manage_roles: 'Change user roles and role permissions',
+  manage_properties: 'Approve, edit and remove properties',
+  mint_properties: 'Mint, sync and register property tokens',
+  manage_payments: 'Configure payment options, withdrawal limits and fees',
+  process_distributions: 'Run and export ROI distributions',
+  review_kyc: 'Approve and reject KYC submissions',
+  view_reports: 'View analytics, activity and reconciliation reports'
+};
+
+const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+// Seeded once; admins can change role permissions afterwards
+export const DEFAULT_ROLES: Record<string, { description: string; permissions: Permission[] }> = {
+  'super-admin': { description: 'Full platform access', permissions: ALL_PERMISSIONS },
+  admin: {
+    description: 'Platform administrator',
+    permissions: ALL_PERMISSIONS.filter(permission => permission !== PERMISSIONS.MANAGE_ROLES)
+  },
+  account_manager: { description: 'Investor account manager', permissions: [PERMISSIONS.VIEW_REPORTS] },
+  property_lawyer: { description: 'Property legal review', permissions: [PERMISSIONS.CREATE_PROPERTY] },
+  auditor: { description: 'Read-only financial audit', permissions: [PERMISSIONS.VIEW_REPORTS] },
+  compliance_officer: { description: 'KYC and compliance review', permissions: [PERMISSIONS.REVIEW_KYC, PERMISSIONS.VIEW_REPORTS] },
+  front_office: { description: 'Front office support', permissions: [] },
+  user: { description: 'Investor', permissions: [PERMISSIONS.CREATE_PROPERTY] }
+};
+
+// Password-only super-admin login; has no users row and always holds the super-admin role
+export const SUPER_ADMIN_USER_ID = 'super-admin';
+
+export type PermissionEffect = 'allow' | 'deny';
+
+export interface RoleRow extends RowDataPacket {
+  name: string;
+  description: string | null;
+  created_at: Date;
+}
+
+export interface PermissionRow extends RowDataPacket {
+  name: string;
+  description: string | null;
+}
+
+export interface UserPermissionOverride extends RowDataPacket {
+  user_id: string;
+  permission: string;
+  effect: PermissionEffect;
+  granted_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PermissionModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Catalogue ==========
+
+  async getRoles(): Promise<RoleRow[]> {
+    const [rows] = await this.pool.query<RoleRow[]>('SELECT * FROM roles ORDER BY name');
+    return rows;
+  }
+
+  async getRole(name: string): Promise<RoleRow | null> {
+    const [rows] = await this.pool.query<RoleRow[]>('SELECT * FROM roles WHERE name = ?', [name]);
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getPermissions(): Promise<PermissionRow[]> {
+    const [rows] = await this.pool.query<PermissionRow[]>('SELECT * FROM permissions ORDER BY name');
+    return rows;
+  }
+
+  async getPermission(name: string): Promise<PermissionRow | null> {
+    const [rows] = await this.pool.query<PermissionRow[]>('SELECT * FROM permissions WHERE name = ?', [name]);
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  // ========== Role Permissions ==========
+
+  async getRolePermissions(role: string): Promise<string[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT permission FROM role_permissions WHERE role = ? ORDER BY permission',
+      [role]
+    );
+    return rows.map(row => row.permission);
+  }
+
+  async addRolePermission(role: string, permission: string): Promise<void> {
+    await this.pool.execute(
+      'INSERT IGNORE INTO role_permissions (role, permission) VALUES (?, ?)',
+      [role, permission]
+    );
+  }
+
+  async removeRolePermission(role: string, permission: string): Promise<void> {
+    await this.pool.execute(
+      'DELETE FROM role_permissions WHERE role = ? AND permission = ?',
+      [role, permission]
+    );
+  }
+
+  // ========== User Overrides ==========
+
+  async getUserOverrides(userId: string): Promise<UserPermissionOverride[]> {
+    const [rows] = await this.pool.query<UserPermissionOverride[]>(
+      'SELECT * FROM user_permissions WHERE user_id = ? ORDER BY permission',
+      [userId]
+    );
+    return rows;
+  }
+
+  async setUserOverride(userId: string, permission: string, effect: PermissionEffect, grantedBy: string | null): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO user_permissions (user_id, permission, effect, granted_by)
+       VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE effect = VALUES(effect), granted_by = VALUES(granted_by)`,
+      [userId, permission, effect, grantedBy]
+    );
+  }
+
+  async clearUserOverride(userId: string, permission: string): Promise<void> {
+    await this.pool.execute(
+      'DELETE FROM user_permissions WHERE user_id = ? AND permission = ?',
+      [userId, permission]
+    );
+  }
+
+  // ========== Users ==========
+
+  async getUserAccess(userId: string): Promise<{ role: string; is_active: any } | null> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT role, is_active FROM users WHERE id = ?',
+      [userId]
+    );
+    return rows.length > 0 ? { role: rows[0].role, is_active: rows[0].is_active } : null;
+  }
+
+  async setUserRole(userId: string, role: string): Promise<void> {
+    await this.pool.execute('UPDATE users SET role = ? WHERE id = ?', [role, userId]);
+  }
+}
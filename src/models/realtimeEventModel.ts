@@ -0,0 +1,57 @@
+import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+
+export interface RealtimeEventRow extends RowDataPacket {
+  id: number;
+  user_id: string | null;
+  event_type: string;
+  payload: any;
+  created_at: Date;
+}
+
+export class RealtimeEventModel {
+  constructor(private pool: Pool) {}
+
+  async insertEvent(userId: string | null, eventType: string, payload: Record<string, any>): Promise<number> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      'INSERT INTO realtime_events (user_id, event_type, payload) VALUES (?, ?, ?)',
+      [userId, eventType, JSON.stringify(payload)]
+    );
+    return result.insertId;
+  }
+
+  /**
+   * Events a user can see after the given id: their own plus broadcasts
+   */
+  async getEventsAfter(userId: string, afterId: number, limit: number): Promise<RealtimeEventRow[]> {
+    const [rows] = await this.pool.query<RealtimeEventRow[]>(
+      `SELECT * FROM realtime_events
+       WHERE id > ? AND (user_id = ? OR user_id IS NULL)
+       ORDER BY id ASC
+       LIMIT ?`,
+      [afterId, userId, limit]
+    );
+    return rows;
+  }
+
+  async getOldestEventId(): Promise<number | null> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT MIN(id) AS id FROM realtime_events'
+    );
+    return rows[0]?.id !== null && rows[0]?.id !== undefined ? Number(rows[0].id) : null;
+  }
+
+  async getLatestEventId(): Promise<number> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT COALESCE(MAX(id), 0) AS id FROM realtime_events'
+    );
+    return Number(rows[0].id);
+  }
+
+  async deleteOlderThan(hours: number): Promise<number> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      'DELETE FROM realtime_events WHERE created_at < DATE_SUB(NOW(), INTERVAL ? HOUR)',
+      [hours]
+    );
+    return result.affectedRows;
+  }
+}
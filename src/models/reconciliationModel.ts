@@ -0,0 +1,213 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export type DiscrepancyType =
+  | 'wallet_history_mismatch'
+  | 'wallet_history_gap'
+  | 'wallet_ledger_mismatch'
+  | 'disbursement_missing_hash'
+  | 'disbursement_missing_receipt'
+  | 'disbursement_failed_onchain'
+  | 'disbursement_recipient_mismatch'
+  | 'disbursement_amount_mismatch';
+
+export type DiscrepancyStatus = 'open' | 'resolved' | 'ignored';
+
+export interface ReconciliationRun extends RowDataPacket {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  triggered_by: string;
+  wallets_checked: number;
+  disbursements_checked: number;
+  discrepancies_found: number;
+  error_message: string | null;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+export interface ReconciliationDiscrepancy extends RowDataPacket {
+  id: string;
+  run_id: string;
+  last_seen_run_id: string;
+  discrepancy_type: DiscrepancyType;
+  entity_type: 'wallet' | 'disbursement';
+  entity_id: string;
+  asset: string | null;
+  expected_value: string | null;
+  actual_value: string | null;
+  details: any;
+  status: DiscrepancyStatus;
+  resolved_by: string | null;
+  resolution_note: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NewDiscrepancy {
+  discrepancyType: DiscrepancyType;
+  entityType: 'wallet' | 'disbursement';
+  entityId: string;
+  asset?: string | null;
+  expectedValue?: string | null;
+  actualValue?: string | null;
+  details?: Record<string, any>;
+}
+
+export class ReconciliationModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Runs ==========
+
+  async createRun(triggeredBy: string): Promise<string> {
+    const runId = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO reconciliation_runs (id, status, triggered_by) VALUES (?, 'running', ?)`,
+      [runId, triggeredBy]
+    );
+    return runId;
+  }
+
+  async completeRun(
+    runId: string,
+    walletsChecked: number,
+    disbursementsChecked: number,
+    discrepanciesFound: number
+  ): Promise<void> {
+    await this.pool.execute(
+      `UPDATE reconciliation_runs
+       SET status = 'completed', wallets_checked = ?, disbursements_checked = ?,
+           discrepancies_found = ?, completed_at = NOW()
+       WHERE id = ?`,
+      [walletsChecked, disbursementsChecked, discrepanciesFound, runId]
+    );
+  }
+
+  async failRun(runId: string, errorMessage: string): Promise<void> {
+    await this.pool.execute(
+      `UPDATE reconciliation_runs SET status = 'failed', error_message = ?, completed_at = NOW() WHERE id = ?`,
+      [errorMessage, runId]
+    );
+  }
+
+  async getRunById(runId: string): Promise<ReconciliationRun | null> {
+    const [rows] = await this.pool.query<ReconciliationRun[]>(
+      'SELECT * FROM reconciliation_runs WHERE id = ?',
+      [runId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getRuns(limit: number = 20, offset: number = 0): Promise<ReconciliationRun[]> {
+    const [rows] = await this.pool.query<ReconciliationRun[]>(
+      'SELECT * FROM reconciliation_runs ORDER BY started_at DESC LIMIT ? OFFSET ?',
+      [limit, offset]
+    );
+    return rows;
+  }
+
+  // ========== Discrepancies ==========
+
+  /**
+   * Record a discrepancy, or refresh the open one already tracked for the
+   * same entity and type so nightly runs do not pile up duplicates
+   */
+  async upsertDiscrepancy(runId: string, discrepancy: NewDiscrepancy): Promise<string> {
+    const [existing] = await this.pool.query<ReconciliationDiscrepancy[]>(
+      `SELECT id FROM reconciliation_discrepancies
+       WHERE entity_type = ? AND entity_id = ? AND asset <=> ? AND discrepancy_type = ? AND status = 'open'`,
+      [discrepancy.entityType, discrepancy.entityId, discrepancy.asset ?? null, discrepancy.discrepancyType]
+    );
+
+    const details = discrepancy.details ? JSON.stringify(discrepancy.details) : null;
+
+    if (existing.length > 0) {
+      await this.pool.execute(
+        `UPDATE reconciliation_discrepancies
+         SET last_seen_run_id = ?, expected_value = ?, actual_value = ?, details = ?
+         WHERE id = ?`,
+        [runId, discrepancy.expectedValue ?? null, discrepancy.actualValue ?? null, details, existing[0].id]
+      );
+      return existing[0].id;
+    }
+
+    const discrepancyId = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO reconciliation_discrepancies
+       (id, run_id, last_seen_run_id, discrepancy_type, entity_type, entity_id, asset, expected_value, actual_value, details, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open')`,
+      [
+        discrepancyId,
+        runId,
+        runId,
+        discrepancy.discrepancyType,
+        discrepancy.entityType,
+        discrepancy.entityId,
+        discrepancy.asset ?? null,
+        discrepancy.expectedValue ?? null,
+        discrepancy.actualValue ?? null,
+        details
+      ]
+    );
+    return discrepancyId;
+  }
+
+  async getDiscrepancyById(discrepancyId: string): Promise<ReconciliationDiscrepancy | null> {
+    const [rows] = await this.pool.query<ReconciliationDiscrepancy[]>(
+      'SELECT * FROM reconciliation_discrepancies WHERE id = ?',
+      [discrepancyId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getDiscrepancies(
+    filters: { status?: DiscrepancyStatus; type?: DiscrepancyType; entityType?: string; runId?: string },
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ discrepancies: ReconciliationDiscrepancy[]; total: number }> {
+    let where = 'WHERE 1=1';
+    const params: any[] = [];
+
+    if (filters.status) {
+      where += ' AND status = ?';
+      params.push(filters.status);
+    }
+    if (filters.type) {
+      where += ' AND discrepancy_type = ?';
+      params.push(filters.type);
+    }
+    if (filters.entityType) {
+      where += ' AND entity_type = ?';
+      params.push(filters.entityType);
+    }
+    if (filters.runId) {
+      where += ' AND (run_id = ? OR last_seen_run_id = ?)';
+      params.push(filters.runId, filters.runId);
+    }
+
+    const [rows] = await this.pool.query<ReconciliationDiscrepancy[]>(
+      `SELECT * FROM reconciliation_discrepancies ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    const [countRows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT COUNT(*) AS total FROM reconciliation_discrepancies ${where}`,
+      params
+    );
+
+    return { discrepancies: rows, total: countRows[0]?.total || 0 };
+  }
+
+  async resolveDiscrepancy(
+    discrepancyId: string,
+    status: 'resolved' | 'ignored',
+    resolvedBy: string,
+    note: string
+  ): Promise<void> {
+    await this.pool.execute(
+      `UPDATE reconciliation_discrepancies
+       SET status = ?, resolved_by = ?, resolution_note = ?, resolved_at = NOW()
+       WHERE id = ?`,
+      [status, resolvedBy, note, discrepancyId]
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export const REFUND_STATUSES = ['requested', 'processing', 'completed', 'failed', 'rejected'] as const;
+export type RefundStatus = typeof REFUND_STATUSES[number];
+export type RefundMethod = 'gateway' | 'wallet';
+
+export interface RefundRequest extends RowDataPacket {
+  id: string;
+  subscription_id: string;
+  payment_id: string | null;
+  amount: string;
+  currency: string;
+  reason: string;
+  status: RefundStatus;
+  method: RefundMethod | null;
+  requested_by: string;
+  reviewed_by: string | null;
+  review_note: string | null;
+  reviewed_at: Date | null;
+  gateway: string | null;
+  gateway_refund_id: string | null;
+  wallet_transaction_id: string | null;
+  share_percentage_before: string | null;
+  share_percentage_after: string | null;
+  failure_reason: string | null;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface NewRefundRequest {
+  subscriptionId: string;
+  paymentId: string | null;
+  amount: number;
+  currency: string;
+  reason: string;
+  requestedBy: string;
+}
+
+export interface CompletedRefund {
+  method: RefundMethod;
+  gateway: string | null;
+  gatewayRefundId: string | null;
+  walletTransactionId: string | null;
+  sharePercentageBefore: number;
+  sharePercentageAfter: number;
+}
+
+export class RefundModel {
+  constructor(private pool: Pool) {}
+
+  async create(refund: NewRefundRequest): Promise<RefundRequest> {
+    const id = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO refund_requests (id, subscription_id, payment_id, amount, currency, reason, status, requested_by)
+       VALUES (?, ?, ?, ?, ?, ?, 'requested', ?)`,
+      [id, refund.subscriptionId, refund.paymentId, refund.amount, refund.currency, refund.reason.slice(0, 500), refund.requestedBy]
+    );
+    return (await this.getById(id))!;
+  }
+
+  async getById(id: string, connection?: PoolConnection): Promise<RefundRequest | null> {
+    const [rows] = await (connection || this.pool).query<RefundRequest[]>('SELECT * FROM refund_requests WHERE id = ?', [id]);
+    return rows[0] || null;
+  }
+
+  async findBySubscription(subscriptionId: string): Promise<RefundRequest[]> {
+    const [rows] = await this.pool.query<RefundRequest[]>(
+      'SELECT * FROM refund_requests WHERE subscription_id = ? ORDER BY created_at DESC',
+      [subscriptionId]
+    );
+    return rows;
+  }
+
+  async hasOpenRequest(subscriptionId: string): Promise<boolean> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      "SELECT id FROM refund_requests WHERE subscription_id = ? AND status IN ('requested', 'processing', 'failed') LIMIT 1",
+      [subscriptionId]
+    );
+    return rows.length > 0;
+  }
+
+  /**
+   * Total already paid back through the gateway against a payment
+   */
+  async getGatewayRefundedAmount(paymentId: string, connection?: PoolConnection): Promise<number> {
+    const [rows] = await (connection || this.pool).query<RowDataPacket[]>(
+      `SELECT COALESCE(SUM(amount), 0) AS total FROM refund_requests
+       WHERE payment_id = ? AND method = 'gateway' AND status = 'completed'`,
+      [paymentId]
+    );
+    return Number(rows[0].total);
+  }
+
+  async list(
+    filters: { status?: RefundStatus; subscriptionId?: string },
+    limit: number,
+    offset: number
+  ): Promise<{ refunds: RefundRequest[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.status) {
+      conditions.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.subscriptionId) {
+      conditions.push('subscription_id = ?');
+      params.push(filters.subscriptionId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows] = await this.pool.query<RefundRequest[]>(
+      `SELECT * FROM refund_requests ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    const [count] = await this.pool.query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM refund_requests ${where}`, params);
+    return { refunds: rows, total: Number(count[0].total) };
+  }
+
+  /**
+   * Take a request for processing; false if it is not awaiting a decision
+   * (failed requests may be retried)
+   */
+  async claim(id: string, reviewerId: string, note: string | null): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE refund_requests
+       SET status = 'processing', reviewed_by = ?, review_note = ?, reviewed_at = CURRENT_TIMESTAMP, failure_reason = NULL
+       WHERE id = ? AND status IN ('requested', 'failed')`,
+      [reviewerId, note ? note.slice(0, 500) : null, id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async reject(id: string, reviewerId: string, note: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE refund_requests
+       SET status = 'rejected', reviewed_by = ?, review_note = ?, reviewed_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status IN ('requested', 'failed')`,
+      [reviewerId, note.slice(0, 500), id]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async complete(connection: PoolConnection, id: string, refund: CompletedRefund): Promise<void> {
+    await connection.execute(
+      `UPDATE refund_requests
+       SET status = 'completed', method = ?, gateway = ?, gateway_refund_id = ?, wallet_transaction_id = ?,
+           share_percentage_before = ?, share_percentage_after = ?, completed_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND status = 'processing'`,
+      [
+        refund.method,
+        refund.gateway,
+        refund.gatewayRefundId,
+        refund.walletTransactionId,
+        refund.sharePercentageBefore,
+        refund.sharePercentageAfter,
+        id
+      ]
+    );
+  }
+
+  async fail(id: string, reason: string, gateway?: { gateway: string; gatewayRefundId: string | null }): Promise<void> {
+    await this.pool.execute(
+      `UPDATE refund_requests
+       SET status = 'failed', failure_reason = ?, gateway = COALESCE(?, gateway), gateway_refund_id = COALESCE(?, gateway_refund_id)
+       WHERE id = ? AND status = 'processing'`,
+      [reason.slice(0, 500), gateway?.gateway || null, gateway?.gatewayRefundId || null, id]
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+
+export interface SiweNonce extends RowDataPacket {
+  nonce: string;
+  address: string | null;
+  issued_at: Date;
+  expires_at: Date;
+  consumed_at: Date | null;
+}
+
+export class SiweNonceModel {
+  constructor(private pool: Pool) {}
+
+  async createNonce(nonce: string, address: string | null, expiresAt: Date): Promise<void> {
+    await this.pool.execute(
+      'INSERT INTO siwe_nonces (nonce, address, expires_at) VALUES (?, ?, ?)',
+      [nonce, address, expiresAt]
+    );
+  }
+
+  async getNonce(nonce: string): Promise<SiweNonce | null> {
+    const [rows] = await this.pool.query<SiweNonce[]>(
+      'SELECT * FROM siwe_nonces WHERE nonce = ?',
+      [nonce]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Mark a nonce used; returns false if it was already consumed or has expired
+   */
+  async consumeNonce(nonce: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE siwe_nonces SET consumed_at = NOW()
+       WHERE nonce = ? AND consumed_at IS NULL AND expires_at > NOW()`,
+      [nonce]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async deleteExpired(): Promise<void> {
+    await this.pool.execute(
+      'DELETE FROM siwe_nonces WHERE expires_at < DATE_SUB(NOW(), INTERVAL 1 DAY)'
+    );
+  }
+}
@@ -8,7 +8,7 @@ export interface Subscription {
   subscriber_wallet_address: string;
   subscription_amount: string; // In smallest unit (wei)
   subscription_date: Date;
-  status: 'ACTIVE' | 'INACTIVE' | 'CANCELLED' | 'EXPIRED';
+  status: 'PENDING' | 'ACTIVE' | 'INACTIVE' | 'CANCELLED' | 'EXPIRED'; // PENDING until the payment settles
   share_percentage: number; // Percentage ownership from this subscription
   currency: string; // USDC, ETH, dNZD, etc.
   transaction_hash?: string;
@@ -29,6 +29,7 @@ export interface DisbursementRecord {
   subscriber_id: string;
   subscriber_wallet_address: string;
   disbursement_amount: string;
+  withholding_tax?: string;
   disbursement_date: Date;
   currency: string;
   type: 'YIELD' | 'RETURN' | 'REVENUE' | 'DIVIDEND';
@@ -54,7 +55,7 @@ export const subscriptionQueries = {
       subscriber_wallet_address VARCHAR(42) NOT NULL,
       subscription_amount VARCHAR(255) NOT NULL,
       subscription_date TIMESTAMP NOT NULL,
-      status ENUM('ACTIVE', 'INACTIVE', 'CANCELLED', 'EXPIRED') DEFAULT 'ACTIVE',
+      status ENUM('PENDING', 'ACTIVE', 'INACTIVE', 'CANCELLED', 'EXPIRED') DEFAULT 'ACTIVE',
       share_percentage DECIMAL(10,4) NOT NULL,
       currency VARCHAR(20) NOT NULL DEFAULT 'USDC',
       transaction_hash VARCHAR(66),
@@ -149,6 +150,7 @@ export const disbursementQueries = {
       subscriber_id VARCHAR(36) NOT NULL,
       subscriber_wallet_address VARCHAR(42) NOT NULL,
       disbursement_amount VARCHAR(255) NOT NULL,
+      withholding_tax VARCHAR(255) NOT NULL DEFAULT '0',
       disbursement_date TIMESTAMP NOT NULL,
       currency VARCHAR(20) NOT NULL,
       type ENUM('YIELD', 'RETURN', 'REVENUE', 'DIVIDEND') DEFAULT 'YIELD',
@@ -170,9 +172,9 @@ export const disbursementQueries = {
   insert: `
     INSERT INTO disbursements (
       id, property_id, distribution_id, subscriber_id,
-      subscriber_wallet_address, disbursement_amount, disbursement_date,
+      subscriber_wallet_address, disbursement_amount, withholding_tax, disbursement_date,
       currency, type, status
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `,
 
   findById: `
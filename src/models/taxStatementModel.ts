@@ -0,0 +1,93 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface StoredTaxStatement extends RowDataPacket {
+  id: string;
+  user_id: string;
+  jurisdiction: string;
+  financial_year: number;
+  period_start: string;
+  period_end: string;
+  totals: any;
+  statement: any;
+  generated_by: string | null;
+  generated_at: Date;
+}
+
+const SUMMARY_COLUMNS = `id, user_id, jurisdiction, financial_year,
+  DATE_FORMAT(period_start, '%Y-%m-%d') AS period_start, DATE_FORMAT(period_end, '%Y-%m-%d') AS period_end,
+  totals, generated_by, generated_at`;
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+export class TaxStatementModel {
+  constructor(private pool: Pool) {}
+
+  async getStatement(userId: string, jurisdiction: string, financialYear: number): Promise<StoredTaxStatement | null> {
+    const [rows] = await this.pool.query<StoredTaxStatement[]>(
+      `SELECT ${SUMMARY_COLUMNS}, statement FROM tax_statements
+       WHERE user_id = ? AND jurisdiction = ? AND financial_year = ?`,
+      [userId, jurisdiction, financialYear]
+    );
+    if (rows.length === 0) return null;
+    return { ...rows[0], totals: parseJson(rows[0].totals), statement: parseJson(rows[0].statement) } as StoredTaxStatement;
+  }
+
+  async upsertStatement(
+    userId: string,
+    jurisdiction: string,
+    financialYear: number,
+    periodStart: string,
+    periodEnd: string,
+    totals: any,
+    statement: any,
+    generatedBy: string | null
+  ): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO tax_statements
+         (id, user_id, jurisdiction, financial_year, period_start, period_end, totals, statement, generated_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         period_start = VALUES(period_start),
+         period_end = VALUES(period_end),
+         totals = VALUES(totals),
+         statement = VALUES(statement),
+         generated_by = VALUES(generated_by),
+         generated_at = CURRENT_TIMESTAMP`,
+      [uuidv4(), userId, jurisdiction, financialYear, periodStart, periodEnd, JSON.stringify(totals), JSON.stringify(statement), generatedBy]
+    );
+  }
+
+  /**
+   * Stored statements without their line items
+   */
+  async listStatements(
+    filters: { userId?: string; jurisdiction?: string; financialYear?: number },
+    limit: number = 100,
+    offset: number = 0
+  ): Promise<StoredTaxStatement[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filters.userId) {
+      conditions.push('user_id = ?');
+      params.push(filters.userId);
+    }
+    if (filters.jurisdiction) {
+      conditions.push('jurisdiction = ?');
+      params.push(filters.jurisdiction);
+    }
+    if (filters.financialYear) {
+      conditions.push('financial_year = ?');
+      params.push(filters.financialYear);
+    }
+
+    const [rows] = await this.pool.query<StoredTaxStatement[]>(
+      `SELECT ${SUMMARY_COLUMNS} FROM tax_statements
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY financial_year DESC, generated_at DESC
+       LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    );
+    return rows.map(row => ({ ...row, totals: parseJson(row.totals) }) as StoredTaxStatement);
+  }
+}
@@ -0,0 +1,134 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export type MetadataVersionSource = 'mint' | 'update' | 'refresh';
+export type MetadataChainStatus = 'not_submitted' | 'submitted' | 'confirmed' | 'failed';
+
+export interface TokenMetadataVersion extends RowDataPacket {
+  id: string;
+  property_id: string;
+  token_id: number | null;
+  version: number;
+  cid: string;
+  document_hash: string;
+  metadata: any;
+  source: MetadataVersionSource;
+  reason: string | null;
+  chain_status: MetadataChainStatus;
+  tx_hash: string | null;
+  block_number: number | null;
+  chain_error: string | null;
+  created_by: string | null;
+  created_at: Date;
+  confirmed_at: Date | null;
+}
+
+export interface NewMetadataVersion {
+  propertyId: string;
+  tokenId: number | null;
+  cid: string;
+  documentHash: string;
+  metadata: object;
+  source: MetadataVersionSource;
+  reason?: string | null;
+  createdBy: string | null;
+  chainStatus?: MetadataChainStatus;
+  txHash?: string | null;
+  blockNumber?: number | null;
+}
+
+const parseJson = (value: any) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+export class TokenMetadataModel {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Insert the next version for a property; retries once if another writer
+   * took the same number
+   */
+  async createVersion(version: NewMetadataVersion): Promise<TokenMetadataVersion> {
+    const id = uuidv4();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.pool.execute(
+          `INSERT INTO token_metadata_versions
+             (id, property_id, token_id, version, cid, document_hash, metadata, source, reason,
+              chain_status, tx_hash, block_number, created_by, confirmed_at)
+           SELECT ?, ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+           FROM token_metadata_versions WHERE property_id = ?`,
+          [
+            id,
+            version.propertyId,
+            version.tokenId,
+            version.cid,
+            version.documentHash,
+            JSON.stringify(version.metadata),
+            version.source,
+            version.reason || null,
+            version.chainStatus || 'not_submitted',
+            version.txHash || null,
+            version.blockNumber ?? null,
+            version.createdBy,
+            version.chainStatus === 'confirmed' ? new Date() : null,
+            version.propertyId
+          ]
+        );
+        break;
+      } catch (error: any) {
+        if (error.code !== 'ER_DUP_ENTRY' || attempt > 0) throw error;
+      }
+    }
+    return (await this.getVersionById(id))!;
+  }
+
+  async getVersionById(id: string): Promise<TokenMetadataVersion | null> {
+    const [rows] = await this.pool.query<TokenMetadataVersion[]>(
+      'SELECT * FROM token_metadata_versions WHERE id = ?',
+      [id]
+    );
+    return rows.length > 0 ? this.parse(rows[0]) : null;
+  }
+
+  async getHistoryByProperty(propertyId: string): Promise<TokenMetadataVersion[]> {
+    const [rows] = await this.pool.query<TokenMetadataVersion[]>(
+      'SELECT * FROM token_metadata_versions WHERE property_id = ? ORDER BY version DESC',
+      [propertyId]
+    );
+    return rows.map(row => this.parse(row));
+  }
+
+  async findByCid(propertyId: string, cid: string): Promise<TokenMetadataVersion | null> {
+    const [rows] = await this.pool.query<TokenMetadataVersion[]>(
+      'SELECT * FROM token_metadata_versions WHERE property_id = ? AND cid = ? ORDER BY version DESC LIMIT 1',
+      [propertyId, cid]
+    );
+    return rows.length > 0 ? this.parse(rows[0]) : null;
+  }
+
+  async markSubmitted(id: string, txHash: string): Promise<void> {
+    await this.pool.execute(
+      "UPDATE token_metadata_versions SET chain_status = 'submitted', tx_hash = ?, chain_error = NULL WHERE id = ?",
+      [txHash, id]
+    );
+  }
+
+  async markConfirmed(id: string, txHash: string, blockNumber: number): Promise<void> {
+    await this.pool.execute(
+      `UPDATE token_metadata_versions
+       SET chain_status = 'confirmed', tx_hash = ?, block_number = ?, chain_error = NULL, confirmed_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [txHash, blockNumber, id]
+    );
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.pool.execute(
+      "UPDATE token_metadata_versions SET chain_status = 'failed', chain_error = ? WHERE id = ?",
+      [error.slice(0, 2000), id]
+    );
+  }
+
+  private parse(row: TokenMetadataVersion): TokenMetadataVersion {
+    return { ...row, metadata: parseJson(row.metadata) } as TokenMetadataVersion;
+  }
+}
@@ -0,0 +1,168 @@
+import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface UserTwoFactor extends RowDataPacket {
+  user_id: string;
+  secret_encrypted: string;
+  status: 'pending' | 'enabled';
+  last_used_step: number | null;
+  failed_attempts: number;
+  locked_until: Date | null;
+  enabled_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TwoFactorChallenge extends RowDataPacket {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  purpose: string;
+  attempts: number;
+  expires_at: Date;
+  consumed_at: Date | null;
+  created_at: Date;
+}
+
+export class TwoFactorModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Enrolment ==========
+
+  async getByUser(userId: string): Promise<UserTwoFactor | null> {
+    const [rows] = await this.pool.query<UserTwoFactor[]>(
+      'SELECT * FROM user_two_factor WHERE user_id = ?',
+      [userId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Start (or restart) enrolment; never overwrites an enabled secret
+   */
+  async savePendingSecret(userId: string, secretEncrypted: string): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO user_two_factor (user_id, secret_encrypted, status)
+       VALUES (?, ?, 'pending')
+       ON DUPLICATE KEY UPDATE
+         secret_encrypted = IF(status = 'enabled', secret_encrypted, VALUES(secret_encrypted)),
+         last_used_step = IF(status = 'enabled', last_used_step, NULL)`,
+      [userId, secretEncrypted]
+    );
+  }
+
+  async enable(userId: string): Promise<void> {
+    await this.pool.execute(
+      `UPDATE user_two_factor SET status = 'enabled', enabled_at = NOW() WHERE user_id = ?`,
+      [userId]
+    );
+  }
+
+  async remove(userId: string): Promise<void> {
+    await this.pool.execute('DELETE FROM two_factor_backup_codes WHERE user_id = ?', [userId]);
+    await this.pool.execute('DELETE FROM user_two_factor WHERE user_id = ?', [userId]);
+  }
+
+  /**
+   * Record the TOTP step just used; returns false if it (or a later step)
+   * was already used, which makes each code single-use
+   */
+  async recordUsedStep(userId: string, step: number): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE user_two_factor SET last_used_step = ?
+       WHERE user_id = ? AND (last_used_step IS NULL OR last_used_step < ?)`,
+      [step, userId, step]
+    );
+    return result.affectedRows > 0;
+  }
+
+  // ========== Failed Attempts ==========
+
+  /**
+   * Count a failed code; the one that reaches maxAttempts locks the user out
+   * for lockoutSeconds and starts the count again
+   */
+  async recordFailedAttempt(userId: string, maxAttempts: number, lockoutSeconds: number): Promise<void> {
+    // Assignments apply left to right, so locked_until reads the old count
+    await this.pool.execute(
+      `UPDATE user_two_factor
+       SET locked_until = IF(failed_attempts + 1 >= ?, DATE_ADD(NOW(), INTERVAL ? SECOND), locked_until),
+           failed_attempts = IF(failed_attempts + 1 >= ?, 0, failed_attempts + 1)
+       WHERE user_id = ?`,
+      [maxAttempts, lockoutSeconds, maxAttempts, userId]
+    );
+  }
+
+  async clearFailedAttempts(userId: string): Promise<void> {
+    await this.pool.execute(
+      `UPDATE user_two_factor SET failed_attempts = 0, locked_until = NULL
+       WHERE user_id = ? AND (failed_attempts > 0 OR locked_until IS NOT NULL)`,
+      [userId]
+    );
+  }
+
+  // ========== Backup Codes ==========
+
+  async replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.pool.execute('DELETE FROM two_factor_backup_codes WHERE user_id = ?', [userId]);
+    for (const codeHash of codeHashes) {
+      await this.pool.execute(
+        'INSERT INTO two_factor_backup_codes (id, user_id, code_hash) VALUES (?, ?, ?)',
+        [uuidv4(), userId, codeHash]
+      );
+    }
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE two_factor_backup_codes SET used_at = NOW()
+       WHERE user_id = ? AND code_hash = ? AND used_at IS NULL`,
+      [userId, codeHash]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async countUnusedBackupCodes(userId: string): Promise<number> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      'SELECT COUNT(*) AS total FROM two_factor_backup_codes WHERE user_id = ? AND used_at IS NULL',
+      [userId]
+    );
+    return Number(rows[0].total);
+  }
+
+  // ========== Login Challenges ==========
+
+  async createChallenge(userId: string, tokenHash: string, purpose: string, expiresAt: Date): Promise<string> {
+    const challengeId = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO two_factor_challenges (id, user_id, token_hash, purpose, expires_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [challengeId, userId, tokenHash, purpose, expiresAt]
+    );
+    return challengeId;
+  }
+
+  async getChallengeByHash(tokenHash: string): Promise<TwoFactorChallenge | null> {
+    const [rows] = await this.pool.query<TwoFactorChallenge[]>(
+      'SELECT * FROM two_factor_challenges WHERE token_hash = ?',
+      [tokenHash]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async incrementChallengeAttempts(challengeId: string): Promise<void> {
+    await this.pool.execute(
+      'UPDATE two_factor_challenges SET attempts = attempts + 1 WHERE id = ?',
+      [challengeId]
+    );
+  }
+
+  async consumeChallenge(challengeId: string): Promise<boolean> {
+    const [result] = await this.pool.execute<ResultSetHeader>(
+      `UPDATE two_factor_challenges SET consumed_at = NOW()
+       WHERE id = ? AND consumed_at IS NULL AND expires_at > NOW()`,
+      [challengeId]
+    );
+    return result.affectedRows > 0;
+  }
+}
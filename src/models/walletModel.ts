@@ -1,6 +1,29 @@
-import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Assets a wallet can hold. Ledger amounts are kept at 6-decimal precision
+ * for every asset, so ETH is tracked to the micro-ether.
+ */
+export type WalletAsset = 'USDC' | 'dNZD' | 'ETH';
+
+export const WALLET_ASSETS: WalletAsset[] = ['USDC', 'dNZD', 'ETH'];
+
+export const DEFAULT_WALLET_ASSET: WalletAsset = 'USDC';
+
+/**
+ * Normalise a client-supplied asset code (case-insensitive), defaulting to USDC
+ */
+export function parseWalletAsset(value: unknown): WalletAsset {
+  if (value === undefined || value === null || value === '') return DEFAULT_WALLET_ASSET;
+
+  const asset = WALLET_ASSETS.find(code => code.toLowerCase() === String(value).toLowerCase());
+  if (!asset) {
+    throw new Error(`Unsupported asset: ${value}. Supported assets: ${WALLET_ASSETS.join(', ')}`);
+  }
+  return asset;
+}
+
 export interface UserWallet extends RowDataPacket {
   id: string;
   user_id: string;
@@ -14,11 +37,19 @@ export interface UserWallet extends RowDataPacket {
   updated_at: Date;
 }
 
+export interface WalletAssetBalance extends RowDataPacket {
+  wallet_id: string;
+  asset: WalletAsset;
+  balance: string;
+  updated_at: Date;
+}
+
 export interface WalletTransaction extends RowDataPacket {
   id: string;
   user_id: string;
   wallet_id: string;
   transaction_type: string;
+  asset: WalletAsset;
   amount: number;
   balance_before: number;
   balance_after: number;
@@ -28,6 +59,7 @@ export interface WalletTransaction extends RowDataPacket {
   status: 'pending' | 'completed' | 'failed' | 'cancelled';
   description: string | null;
   metadata: any;
+  journal_entry_id: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -36,6 +68,7 @@ export interface WalletDeposit extends RowDataPacket {
   id: string;
   user_id: string;
   wallet_id: string;
+  asset: WalletAsset;
   amount: number;
   source_address: string;
   deposit_address: string;
@@ -65,9 +98,15 @@ export interface WithdrawalRequest extends RowDataPacket {
   id: string;
   user_id: string;
   wallet_id: string;
+  asset: WalletAsset;
   amount: number;
   destination_address: string;
   status: 'pending' | 'approved' | 'rejected' | 'completed' | 'failed';
+  network: string;
+  fee_amount: number;
+  net_amount: number | null;
+  fee_waiver_id: string | null;
+  fee_quote: any;
   requires_kyc: boolean;
   kyc_verified: boolean;
   tx_hash: string | null;
@@ -77,6 +116,10 @@ export interface WithdrawalRequest extends RowDataPacket {
   completed_at: Date | null;
 }
 
+/**
+ * Wallet persistence. Balances are not written here: every balance change
+ * goes through LedgerService so it is backed by journal postings.
+ */
 export class WalletModel {
   constructor(private pool: Pool) {}
 
@@ -124,49 +167,27 @@ export class WalletModel {
     return rows.length > 0 ? rows[0] : null;
   }
 
-  async updateWalletBalance(walletId: string, newBalance: number): Promise<void> {
-    await this.pool.execute(
-      'UPDATE user_wallets SET balance_usdc = ? WHERE id = ?',
-      [newBalance, walletId]
+  /**
+   * Cached per-asset balances, with zero for assets the wallet has never held
+   */
+  async getAssetBalances(walletId: string): Promise<Record<WalletAsset, number>> {
+    const [rows] = await this.pool.query<WalletAssetBalance[]>(
+      'SELECT * FROM wallet_balances WHERE wallet_id = ?',
+      [walletId]
     );
-  }
-
-  async incrementWalletBalance(walletId: string, amount: number): Promise<number> {
-    const connection = await this.pool.getConnection();
-    try {
-      const wallet = await this.getWalletById(walletId);
-      if (!wallet) throw new Error('Wallet not found');
 
-      const newBalance = wallet.balance_usdc + amount;
-      await connection.execute(
-        'UPDATE user_wallets SET balance_usdc = ? WHERE id = ?',
-        [newBalance, walletId]
-      );
-      return newBalance;
-    } finally {
-      connection.release();
+    const balances = Object.fromEntries(WALLET_ASSETS.map(asset => [asset, 0])) as Record<WalletAsset, number>;
+    for (const row of rows) {
+      if (WALLET_ASSETS.includes(row.asset)) {
+        balances[row.asset] = Number(row.balance);
+      }
     }
+    return balances;
   }
 
-  async decrementWalletBalance(walletId: string, amount: number): Promise<number> {
-    const connection = await this.pool.getConnection();
-    try {
-      const wallet = await this.getWalletById(walletId);
-      if (!wallet) throw new Error('Wallet not found');
-
-      if (wallet.balance_usdc < amount) {
-        throw new Error('Insufficient balance');
-      }
-
-      const newBalance = wallet.balance_usdc - amount;
-      await connection.execute(
-        'UPDATE user_wallets SET balance_usdc = ? WHERE id = ?',
-        [newBalance, walletId]
-      );
-      return newBalance;
-    } finally {
-      connection.release();
-    }
+  async getAssetBalance(walletId: string, asset: WalletAsset): Promise<number> {
+    const balances = await this.getAssetBalances(walletId);
+    return balances[asset];
   }
 
   async incrementNonce(walletId: string): Promise<number> {
@@ -283,14 +304,15 @@ export class WalletModel {
     walletId: string,
     amount: number,
     sourceAddress: string,
-    depositAddress: string
+    depositAddress: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
   ): Promise<WalletDeposit> {
     const depositId = uuidv4();
     await this.pool.execute(
       `INSERT INTO wallet_deposits 
-       (id, user_id, wallet_id, amount, source_address, deposit_address, status)
-       VALUES (?, ?, ?, ?, ?, ?, 'pending')`,
-      [depositId, userId, walletId, amount, sourceAddress, depositAddress]
+       (id, user_id, wallet_id, asset, amount, source_address, deposit_address, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [depositId, userId, walletId, asset, amount, sourceAddress, depositAddress]
     );
 
     const deposit = await this.getDepositById(depositId);
@@ -306,6 +328,17 @@ export class WalletModel {
     return rows.length > 0 ? rows[0] : null;
   }
 
+  /**
+   * Whether a transaction has already been credited through another deposit
+   */
+  async isDepositTxHashUsed(txHash: string, excludeDepositId: string): Promise<boolean> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT id FROM wallet_deposits WHERE tx_hash = ? AND id <> ? AND status = 'confirmed' LIMIT 1`,
+      [txHash, excludeDepositId]
+    );
+    return rows.length > 0;
+  }
+
   async getDepositsByWalletId(walletId: string): Promise<WalletDeposit[]> {
     const [rows] = await this.pool.query<WalletDeposit[]>(
       'SELECT * FROM wallet_deposits WHERE wallet_id = ? ORDER BY created_at DESC',
@@ -426,23 +459,39 @@ export class WalletModel {
     userId: string,
     walletId: string,
     amount: number,
-    destinationAddress: string
+    destinationAddress: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection,
+    fee?: { network: string; feeAmount: number; netAmount: number; waiverId: string | null; quote: any }
   ): Promise<WithdrawalRequest> {
     const requestId = uuidv4();
-    await this.pool.execute(
+    await (connection || this.pool).execute(
       `INSERT INTO withdrawal_requests 
-       (id, user_id, wallet_id, amount, destination_address, status, requires_kyc)
-       VALUES (?, ?, ?, ?, ?, 'pending', TRUE)`,
-      [requestId, userId, walletId, amount, destinationAddress]
+       (id, user_id, wallet_id, asset, amount, destination_address, status, requires_kyc,
+        network, fee_amount, net_amount, fee_waiver_id, fee_quote)
+       VALUES (?, ?, ?, ?, ?, ?, 'pending', TRUE, ?, ?, ?, ?, ?)`,
+      [
+        requestId,
+        userId,
+        walletId,
+        asset,
+        amount,
+        destinationAddress,
+        fee?.network || 'base',
+        fee?.feeAmount || 0,
+        fee ? fee.netAmount : amount,
+        fee?.waiverId || null,
+        fee ? JSON.stringify(fee.quote) : null
+      ]
     );
 
-    const request = await this.getWithdrawalRequest(requestId);
+    const request = await this.getWithdrawalRequest(requestId, connection);
     if (!request) throw new Error('Failed to create withdrawal request');
     return request;
   }
 
-  async getWithdrawalRequest(requestId: string): Promise<WithdrawalRequest | null> {
-    const [rows] = await this.pool.query<WithdrawalRequest[]>(
+  async getWithdrawalRequest(requestId: string, connection?: PoolConnection): Promise<WithdrawalRequest | null> {
+    const [rows] = await (connection || this.pool).query<WithdrawalRequest[]>(
       'SELECT * FROM withdrawal_requests WHERE id = ?',
       [requestId]
     );
@@ -478,8 +527,34 @@ export class WalletModel {
     await this.pool.execute(query, params);
   }
 
-  async markWithdrawalKYCVerified(requestId: string): Promise<void> {
-    await this.pool.execute(
+  /**
+   * Mark a withdrawal that has not been paid out as completed; false if
+   * another approval or a rejection got to it first
+   */
+  async completeWithdrawalRequest(requestId: string, txHash: string | null, connection: PoolConnection): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE withdrawal_requests SET status = 'completed', tx_hash = ?, completed_at = NOW()
+       WHERE id = ? AND status IN ('pending', 'approved')`,
+      [txHash, requestId]
+    );
+    return result.affectedRows === 1;
+  }
+
+  /**
+   * Reject a withdrawal that has not been paid out; false if it already
+   * completed, failed or was rejected
+   */
+  async rejectWithdrawalRequest(requestId: string, reason: string, connection: PoolConnection): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE withdrawal_requests SET status = 'rejected', rejection_reason = ?
+       WHERE id = ? AND status IN ('pending', 'approved')`,
+      [reason, requestId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  async markWithdrawalKYCVerified(requestId: string, connection?: PoolConnection): Promise<void> {
+    await (connection || this.pool).execute(
       'UPDATE withdrawal_requests SET kyc_verified = TRUE WHERE id = ?',
       [requestId]
     );
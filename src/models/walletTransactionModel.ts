@@ -1,11 +1,11 @@
-import { Pool, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface WalletTransactionRecord extends RowDataPacket {
   id: string;
   user_id: string;
   wallet_id: string;
-  transaction_type: 'deposit' | 'withdrawal' | 'transfer' | 'roi_disbursement' | 'subscription_payment' | 'refund';
+  transaction_type: 'deposit' | 'withdrawal' | 'transfer' | 'roi_disbursement' | 'subscription_payment' | 'refund' | 'chargeback';
   amount: number;
   balance_before: number;
   balance_after: number;
@@ -77,6 +77,52 @@ export class WalletTransactionModel {
     return transaction;
   }
 
+  /**
+   * Insert the completed history row for an entry already posted to the
+   * ledger, inside the caller's transaction
+   */
+  async createPostedTransaction(
+    connection: PoolConnection,
+    record: {
+      userId: string;
+      walletId: string;
+      type: WalletTransactionRecord['transaction_type'];
+      asset: string;
+      amount: number;
+      balanceBefore: number;
+      balanceAfter: number;
+      fromAddress: string;
+      toAddress: string;
+      description: string;
+      metadata?: TransactionMetadata;
+      journalEntryId: string;
+    }
+  ): Promise<string> {
+    const transactionId = uuidv4();
+    await connection.execute(
+      `INSERT INTO wallet_transactions
+       (id, user_id, wallet_id, transaction_type, asset, amount, balance_before, balance_after,
+        from_address, to_address, status, description, metadata, journal_entry_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'completed', ?, ?, ?)`,
+      [
+        transactionId,
+        record.userId,
+        record.walletId,
+        record.type,
+        record.asset,
+        record.amount,
+        record.balanceBefore,
+        record.balanceAfter,
+        record.fromAddress,
+        record.toAddress,
+        record.description,
+        record.metadata ? JSON.stringify(record.metadata) : null,
+        record.journalEntryId
+      ]
+    );
+    return transactionId;
+  }
+
   async getTransactionById(transactionId: string): Promise<WalletTransactionRecord | null> {
     const [rows] = await this.pool.query<WalletTransactionRecord[]>(
       'SELECT * FROM wallet_transactions WHERE id = ?',
@@ -0,0 +1,192 @@
+import { Pool, PoolConnection, RowDataPacket, ResultSetHeader } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import { WalletAsset } from './walletModel';
+
+/** Schedule row for the per-asset fallback applied to networks without their own row */
+export const DEFAULT_FEE_NETWORK = 'default';
+
+export interface WithdrawalFeeSchedule extends RowDataPacket {
+  id: string;
+  network: string;
+  asset: WalletAsset;
+  fee_percentage: string | null;
+  min_fee: string | null;
+  max_fee: string | null;
+  min_amount: string | null;
+  is_active: boolean;
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WithdrawalFeeWaiver extends RowDataPacket {
+  id: string;
+  description: string;
+  promo_code: string | null;
+  user_id: string | null;
+  network: string | null;
+  discount_percentage: string;
+  starts_at: Date;
+  ends_at: Date | null;
+  max_uses: number | null;
+  used_count: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class WithdrawalFeeModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Fee Schedules ==========
+
+  async getSchedules(asset: WalletAsset): Promise<WithdrawalFeeSchedule[]> {
+    const [rows] = await this.pool.query<WithdrawalFeeSchedule[]>(
+      'SELECT * FROM withdrawal_fee_schedules WHERE asset = ? AND is_active = TRUE ORDER BY network',
+      [asset]
+    );
+    return rows;
+  }
+
+  async getSchedule(network: string, asset: WalletAsset): Promise<WithdrawalFeeSchedule | null> {
+    const [rows] = await this.pool.query<WithdrawalFeeSchedule[]>(
+      'SELECT * FROM withdrawal_fee_schedules WHERE network = ? AND asset = ? AND is_active = TRUE',
+      [network, asset]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async upsertSchedule(
+    network: string,
+    asset: WalletAsset,
+    values: { feePercentage: number | null; minFee: number | null; maxFee: number | null; minAmount: number | null },
+    updatedBy: string | null
+  ): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO withdrawal_fee_schedules (id, network, asset, fee_percentage, min_fee, max_fee, min_amount, is_active, updated_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, TRUE, ?)
+       ON DUPLICATE KEY UPDATE
+         fee_percentage = VALUES(fee_percentage),
+         min_fee = VALUES(min_fee),
+         max_fee = VALUES(max_fee),
+         min_amount = VALUES(min_amount),
+         is_active = TRUE,
+         updated_by = VALUES(updated_by)`,
+      [uuidv4(), network, asset, values.feePercentage, values.minFee, values.maxFee, values.minAmount, updatedBy]
+    );
+  }
+
+  async deactivateSchedule(network: string, asset: WalletAsset): Promise<void> {
+    await this.pool.execute(
+      'UPDATE withdrawal_fee_schedules SET is_active = FALSE WHERE network = ? AND asset = ?',
+      [network, asset]
+    );
+  }
+
+  // ========== Promotional Waivers ==========
+
+  /**
+   * Active waivers that could apply to this user and network, best discount first
+   */
+  async findApplicableWaivers(
+    userId: string,
+    network: string,
+    promoCode: string | null,
+    connection?: PoolConnection
+  ): Promise<WithdrawalFeeWaiver[]> {
+    const [rows] = await (connection || this.pool).query<WithdrawalFeeWaiver[]>(
+      `SELECT * FROM withdrawal_fee_waivers
+       WHERE is_active = TRUE
+         AND starts_at <= NOW()
+         AND (ends_at IS NULL OR ends_at > NOW())
+         AND (max_uses IS NULL OR used_count < max_uses)
+         AND (user_id IS NULL OR user_id = ?)
+         AND (network IS NULL OR network = ?)
+         AND (promo_code IS NULL OR promo_code = ?)
+       ORDER BY discount_percentage DESC, created_at ASC`,
+      [userId, network, promoCode]
+    );
+    return rows;
+  }
+
+  async getWaiverById(waiverId: string): Promise<WithdrawalFeeWaiver | null> {
+    const [rows] = await this.pool.query<WithdrawalFeeWaiver[]>(
+      'SELECT * FROM withdrawal_fee_waivers WHERE id = ?',
+      [waiverId]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getWaivers(includeInactive: boolean = false): Promise<WithdrawalFeeWaiver[]> {
+    const [rows] = await this.pool.query<WithdrawalFeeWaiver[]>(
+      `SELECT * FROM withdrawal_fee_waivers ${includeInactive ? '' : 'WHERE is_active = TRUE'} ORDER BY created_at DESC`
+    );
+    return rows;
+  }
+
+  async createWaiver(waiver: {
+    description: string;
+    promoCode: string | null;
+    userId: string | null;
+    network: string | null;
+    discountPercentage: number;
+    startsAt: Date;
+    endsAt: Date | null;
+    maxUses: number | null;
+    createdBy: string | null;
+  }): Promise<WithdrawalFeeWaiver> {
+    const waiverId = uuidv4();
+    await this.pool.execute(
+      `INSERT INTO withdrawal_fee_waivers
+       (id, description, promo_code, user_id, network, discount_percentage, starts_at, ends_at, max_uses, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        waiverId,
+        waiver.description,
+        waiver.promoCode,
+        waiver.userId,
+        waiver.network,
+        waiver.discountPercentage,
+        waiver.startsAt,
+        waiver.endsAt,
+        waiver.maxUses,
+        waiver.createdBy
+      ]
+    );
+
+    const created = await this.getWaiverById(waiverId);
+    if (!created) throw new Error('Failed to create fee waiver');
+    return created;
+  }
+
+  async deactivateWaiver(waiverId: string): Promise<void> {
+    await this.pool.execute(
+      'UPDATE withdrawal_fee_waivers SET is_active = FALSE WHERE id = ?',
+      [waiverId]
+    );
+  }
+
+  /**
+   * Consume one use of a waiver; returns false if it ran out in the meantime
+   */
+  async incrementWaiverUse(waiverId: string, connection: PoolConnection): Promise<boolean> {
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE withdrawal_fee_waivers
+       SET used_count = used_count + 1
+       WHERE id = ? AND (max_uses IS NULL OR used_count < max_uses)`,
+      [waiverId]
+    );
+    return result.affectedRows > 0;
+  }
+
+  /**
+   * Give back a use consumed by a withdrawal that will not go ahead
+   */
+  async releaseWaiverUse(waiverId: string, connection: PoolConnection): Promise<void> {
+    await connection.execute(
+      'UPDATE withdrawal_fee_waivers SET used_count = used_count - 1 WHERE id = ? AND used_count > 0',
+      [waiverId]
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { WalletAsset } from './walletModel';
+
+export type KYCTier = 'unverified' | 'verified';
+
+export interface WithdrawalLimitPolicy extends RowDataPacket {
+  kyc_tier: KYCTier;
+  per_transaction_limit: number;
+  daily_limit: number;
+  monthly_limit: number;
+  currency: string;
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Statuses that count against a user's limits (rejected/failed do not)
+const COUNTED_STATUSES = ['pending', 'approved', 'completed'];
+
+export class WithdrawalLimitModel {
+  constructor(private pool: Pool) {}
+
+  // ========== Policies ==========
+
+  async getPolicy(kycTier: KYCTier, currency: WalletAsset): Promise<WithdrawalLimitPolicy | null> {
+    const [rows] = await this.pool.query<WithdrawalLimitPolicy[]>(
+      'SELECT * FROM withdrawal_limit_policies WHERE kyc_tier = ? AND currency = ?',
+      [kycTier, currency]
+    );
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  async getAllPolicies(): Promise<WithdrawalLimitPolicy[]> {
+    const [rows] = await this.pool.query<WithdrawalLimitPolicy[]>(
+      'SELECT * FROM withdrawal_limit_policies ORDER BY currency, per_transaction_limit ASC'
+    );
+    return rows;
+  }
+
+  async upsertPolicy(
+    kycTier: KYCTier,
+    currency: WalletAsset,
+    perTransactionLimit: number,
+    dailyLimit: number,
+    monthlyLimit: number,
+    updatedBy: string | null
+  ): Promise<void> {
+    await this.pool.execute(
+      `INSERT INTO withdrawal_limit_policies (kyc_tier, currency, per_transaction_limit, daily_limit, monthly_limit, updated_by)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE
+         per_transaction_limit = VALUES(per_transaction_limit),
+         daily_limit = VALUES(daily_limit),
+         monthly_limit = VALUES(monthly_limit),
+         updated_by = VALUES(updated_by)`,
+      [kycTier, currency, perTransactionLimit, dailyLimit, monthlyLimit, updatedBy]
+    );
+  }
+
+  // ========== Usage ==========
+
+  /**
+   * Sum of withdrawals of one asset requested in the trailing window. Pass
+   * the connection holding the wallet lock so concurrent requests see each other.
+   */
+  async getUsage(
+    userId: string,
+    asset: WalletAsset,
+    windowHours: number,
+    connection?: PoolConnection
+  ): Promise<number> {
+    const [rows] = await (connection || this.pool).query<RowDataPacket[]>(
+      `SELECT COALESCE(SUM(amount), 0) AS used
+       FROM withdrawal_requests
+       WHERE user_id = ?
+         AND asset = ?
+         AND status IN (?)
+         AND created_at >= DATE_SUB(NOW(), INTERVAL ? HOUR)`,
+      [userId, asset, COUNTED_STATUSES, windowHours]
+    );
+    return Number(rows[0]?.used || 0);
+  }
+}
@@ -1,9 +1,30 @@
 require("dotenv").config(); 
 import express from 'express';
-import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth';
-import { query } from '../utils/database';
+import { authenticateToken, requireAdmin, requirePermission, AuthRequest } from '../middleware/auth';
+import { query, getPool } from '../utils/database';
 import { v4 as uuidv4 } from 'uuid';
 import { mintTitleNFT } from '../services/blockchain';
+import { ReconciliationService } from '../services/reconciliationService';
+import { WithdrawalLimitService } from '../services/withdrawalLimitService';
+import { WithdrawalFeeService } from '../services/withdrawalFeeService';
+import { KYCTier } from '../models/withdrawalLimitModel';
+import { parseWalletAsset } from '../models/walletModel';
+import { PermissionService } from '../services/permissionService';
+import { PERMISSIONS } from '../models/permissionModel';
+import { requireStepUp } from '../middleware/twoFactor';
+import { NotificationDeliveryService } from '../services/notificationDeliveryService';
+import { NotificationTemplateService } from '../services/notificationTemplateService';
+import { AnalyticsService } from '../services/analyticsService';
+import { TaxStatementService } from '../services/taxStatementService';
+import { PaymentStateService, isPaymentState } from '../services/paymentStateService';
+import { PaymentState } from '../models/paymentModel';
+import { BankStatementService } from '../services/bankStatementService';
+import { StatementLineStatus } from '../models/bankStatementModel';
+import { StatementFormat, isStatementFormat } from '../utils/bankStatement';
+import { RefundService } from '../services/refundService';
+import { REFUND_STATUSES, RefundMethod, RefundStatus } from '../models/refundModel';
+import { DisputeService } from '../services/disputeService';
+import { DISPUTE_STATUSES, DisputeStatus } from '../models/disputeModel';
 
 console.log('Loaded MINTER_ADDRESS:', process.env.MINTER_ADDRESS);
 console.log('Loaded PRIVATE_KEY:', process.env.PRIVATE_KEY ? '✔️ Exists' : '❌ Missing');
@@ -11,9 +32,9 @@ console.log('Loaded PRIVATE_KEY:', process.env.PRIVATE_KEY ? '✔️ Exists' : '
 
 const router = express.Router();
 
-  // Apply authentication and admin role check to all routes
+  // Apply authentication and admin access check to all routes
   router.use(authenticateToken);
-  router.use(requireRole(['admin', 'super-admin']));
+  router.use(requireAdmin);
 
   // Users routes
   router.get('/users', async (req: AuthRequest, res) => {
@@ -137,12 +158,466 @@ const router = express.Router();
     }
   });
 
+  // Body: { from: 'YYYY-MM-DD', to?: 'YYYY-MM-DD' }; recaptures each day's snapshot
+  router.post('/analytics/snapshots', requirePermission(PERMISSIONS.VIEW_REPORTS), async (req: AuthRequest, res) => {
+    try {
+      const { from, to } = req.body;
+      if (!from) {
+        return res.status(400).json({ error: 'from is required' });
+      }
+
+      const captured = await new AnalyticsService(getPool()).backfill(from, to || from);
+      res.json({ message: `Captured ${captured.length} daily snapshots`, dates: captured });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to capture analytics snapshots' });
+    }
+  });
+
+  // Tax statement routes
+  // Body: { year, jurisdiction? }; builds and stores statements for every investor with activity in the year
+  router.post('/tax-statements/generate', requirePermission(PERMISSIONS.VIEW_REPORTS), async (req: AuthRequest, res) => {
+    try {
+      const service = new TaxStatementService(getPool());
+      const jurisdiction = service.resolveJurisdiction(req.body.jurisdiction);
+      const result = await service.generateAll(jurisdiction, Number(req.body.year), req.user!.id);
+      res.json({ message: `Generated ${result.generated} of ${result.investors} tax statements`, ...result });
+    } catch (error: any) {
+      if (/^(Unsupported|Invalid)/.test(error.message)) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Generate tax statements error:', error);
+      res.status(500).json({ error: 'Failed to generate tax statements' });
+    }
+  });
+
+  router.get('/tax-statements', requirePermission(PERMISSIONS.VIEW_REPORTS), async (req: AuthRequest, res) => {
+    try {
+      const { page = '1', limit = '50', userId, jurisdiction, year } = req.query;
+      const limitNum = Number.parseInt(limit as string);
+      const statements = await new TaxStatementService(getPool()).listStatements(
+        {
+          userId: userId as string | undefined,
+          jurisdiction: jurisdiction ? (jurisdiction as string).toUpperCase() : undefined,
+          financialYear: year ? Number(year) : undefined
+        },
+        limitNum,
+        (Number.parseInt(page as string) - 1) * limitNum
+      );
+      res.json({ statements });
+    } catch (error) {
+      console.error('List tax statements error:', error);
+      res.status(500).json({ error: 'Failed to fetch tax statements' });
+    }
+  });
+
+  router.get('/tax-statements/:userId/:year', requirePermission(PERMISSIONS.VIEW_REPORTS), async (req: AuthRequest, res) => {
+    try {
+      const service = new TaxStatementService(getPool());
+      const jurisdiction = service.resolveJurisdiction(req.query.jurisdiction as string | undefined);
+      const statement = await service.getStatement(req.params.userId, jurisdiction, Number(req.params.year));
+      const { contentType, filename, body } = service.render(statement, (req.query.format as string) || 'json');
+
+      if (contentType !== 'application/json') {
+        res.attachment(filename);
+      }
+      res.type(contentType).send(body);
+    } catch (error: any) {
+      if (error.message === 'User not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (/^(Unsupported|Invalid)/.test(error.message)) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Get tax statement error:', error);
+      res.status(500).json({ error: 'Failed to generate tax statement' });
+    }
+  });
+
+  // Payments
+  router.get('/payments', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { page = '1', limit = '50', state, gateway, subscriptionId } = req.query;
+      if (state && !isPaymentState(state)) {
+        return res.status(400).json({ error: `Invalid state: ${state}` });
+      }
+      const limitNum = Number.parseInt(limit as string);
+      const payments = await new PaymentStateService(getPool()).listPayments(
+        {
+          state: state as PaymentState | undefined,
+          gateway: gateway ? (gateway as string).toUpperCase() : undefined,
+          subscriptionId: subscriptionId as string | undefined
+        },
+        limitNum,
+        (Number.parseInt(page as string) - 1) * limitNum
+      );
+      res.json({ payments });
+    } catch (error) {
+      console.error('List payments error:', error);
+      res.status(500).json({ error: 'Failed to fetch payments' });
+    }
+  });
+
+  router.get('/payments/:id', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      res.json({ payment: await new PaymentStateService(getPool()).getPayment(req.params.id) });
+    } catch (error: any) {
+      if (error.message === 'Payment not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      console.error('Get payment error:', error);
+      res.status(500).json({ error: 'Failed to fetch payment' });
+    }
+  });
+
+  // Manual correction, e.g. settling a payment confirmed with the gateway out of band
+  router.post('/payments/:id/transition', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { state, note } = req.body;
+      if (!isPaymentState(state)) {
+        return res.status(400).json({ error: `Invalid state: ${state}` });
+      }
+      const payment = await new PaymentStateService(getPool()).transition(req.params.id, state, 'admin', {
+        note: note || null,
+        actorId: req.user!.id
+      });
+      res.json({ message: `Payment is ${payment.state}`, payment });
+    } catch (error: any) {
+      if (error.message === 'Payment not found') {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.startsWith('Invalid state')) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Payment transition error:', error);
+      res.status(500).json({ error: 'Failed to update payment' });
+    }
+  });
+
+  // Bank statement reconciliation for offline transfers
+  const statementError = (res: express.Response, error: any, fallback: string) => {
+    const message: string = error.message || '';
+    if (message.endsWith('not found')) {
+      return res.status(404).json({ error: message });
+    }
+    if (message.startsWith('Invalid state')) {
+      return res.status(409).json({ error: message });
+    }
+    if (message.startsWith('Invalid')) {
+      return res.status(400).json({ error: message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+  };
+
+  // The statement file is the raw request body; details go in the query string
+  router.post(
+    '/bank-statements',
+    requirePermission(PERMISSIONS.MANAGE_PAYMENTS),
+    express.raw({ type: () => true, limit: '10mb' }),
+    async (req: AuthRequest, res) => {
+      try {
+        const { format, fileName, accountNumber, currency } = req.query;
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: 'Invalid statement: send the file as the request body' });
+        }
+        if (format && !isStatementFormat(format)) {
+          return res.status(400).json({ error: `Invalid format: ${format}` });
+        }
+
+        const summary = await new BankStatementService(getPool()).importStatement(
+          req.body.toString('utf8'),
+          {
+            format: format as StatementFormat | undefined,
+            fileName: fileName as string | undefined,
+            accountNumber: accountNumber as string | undefined,
+            currency: currency as string | undefined
+          },
+          req.user!.id
+        );
+        res.status(201).json({ message: 'Statement imported', summary });
+      } catch (error: any) {
+        statementError(res, error, 'Failed to import statement');
+      }
+    }
+  );
+
+  router.get('/bank-statements', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { page = '1', limit = '20' } = req.query;
+      const pageNum = Number.parseInt(page as string) || 1;
+      const limitNum = Math.min(Number.parseInt(limit as string) || 20, 100);
+      const { imports, total } = await new BankStatementService(getPool()).getImports(limitNum, (pageNum - 1) * limitNum);
+      res.json({
+        imports,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) }
+      });
+    } catch (error: any) {
+      statementError(res, error, 'Failed to fetch statement imports');
+    }
+  });
+
+  router.get('/bank-statements/:id', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      res.json({ import: await new BankStatementService(getPool()).getImport(req.params.id) });
+    } catch (error: any) {
+      statementError(res, error, 'Failed to fetch statement import');
+    }
+  });
+
+  // Review queue: unmatched credits by default
+  router.get('/bank-statement-lines', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { status = 'unmatched', reason, page = '1', limit = '50' } = req.query;
+      if (!['unmatched', 'matched', 'ignored', 'all'].includes(status as string)) {
+        return res.status(400).json({ error: `Invalid status: ${status}` });
+      }
+      const pageNum = Number.parseInt(page as string) || 1;
+      const limitNum = Math.min(Number.parseInt(limit as string) || 50, 100);
+
+      const { lines, total } = await new BankStatementService(getPool()).getLines(
+        {
+          status: status === 'all' ? undefined : status as StatementLineStatus,
+          reason: reason as string | undefined
+        },
+        limitNum,
+        (pageNum - 1) * limitNum
+      );
+      res.json({
+        lines,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) }
+      });
+    } catch (error: any) {
+      statementError(res, error, 'Failed to fetch statement lines');
+    }
+  });
+
+  router.post('/bank-statement-lines/:id/match', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { transferId, note } = req.body;
+      if (!transferId) {
+        return res.status(400).json({ error: 'transferId is required' });
+      }
+      const line = await new BankStatementService(getPool()).matchLine(req.params.id, transferId, req.user!.id, note || null);
+      res.json({ message: 'Statement line matched', line });
+    } catch (error: any) {
+      statementError(res, error, 'Failed to match statement line');
+    }
+  });
+
+  router.post('/bank-statement-lines/:id/ignore', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { note } = req.body;
+      if (!note) {
+        return res.status(400).json({ error: 'A note is required' });
+      }
+      const line = await new BankStatementService(getPool()).ignoreLine(req.params.id, req.user!.id, note);
+      res.json({ message: 'Statement line ignored', line });
+    } catch (error: any) {
+      statementError(res, error, 'Failed to ignore statement line');
+    }
+  });
+
+  router.get('/pending-transfers', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { status = 'PENDING', page = '1', limit = '50' } = req.query;
+      const pageNum = Number.parseInt(page as string) || 1;
+      const limitNum = Math.min(Number.parseInt(limit as string) || 50, 100);
+      const transfers = await new BankStatementService(getPool()).getTransfers(
+        status === 'all' ? undefined : (status as string).toUpperCase(),
+        limitNum,
+        (pageNum - 1) * limitNum
+      );
+      res.json({ transfers });
+    } catch (error: any) {
+      statementError(res, error, 'Failed to fetch pending transfers');
+    }
+  });
+
+  // Refund requests raised by subscribers
+  const refundError = (res: express.Response, error: any, fallback: string) => {
+    if (error.message?.startsWith('Gateway refund failed')) {
+      return res.status(502).json({ error: error.message });
+    }
+    statementError(res, error, fallback);
+  };
+
+  router.get('/refunds', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { status = 'requested', subscriptionId, page = '1', limit = '50' } = req.query;
+      if (status !== 'all' && !REFUND_STATUSES.includes(status as RefundStatus)) {
+        return res.status(400).json({ error: `Invalid status: ${status}` });
+      }
+      const pageNum = Number.parseInt(page as string) || 1;
+      const limitNum = Math.min(Number.parseInt(limit as string) || 50, 100);
+
+      const { refunds, total } = await new RefundService(getPool()).listRefunds(
+        {
+          status: status === 'all' ? undefined : status as RefundStatus,
+          subscriptionId: subscriptionId as string | undefined
+        },
+        limitNum,
+        (pageNum - 1) * limitNum
+      );
+      res.json({
+        refunds,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) }
+      });
+    } catch (error: any) {
+      refundError(res, error, 'Failed to fetch refunds');
+    }
+  });
+
+  router.get('/refunds/:id', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      res.json({ refund: await new RefundService(getPool()).getRefund(req.params.id) });
+    } catch (error: any) {
+      refundError(res, error, 'Failed to fetch refund');
+    }
+  });
+
+  // Pays the refund back through the gateway where it supports refunds,
+  // otherwise credits the subscriber's wallet; a failed refund can be approved again
+  router.post('/refunds/:id/approve', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { method, note } = req.body;
+      if (method && method !== 'gateway' && method !== 'wallet') {
+        return res.status(400).json({ error: `Invalid method: ${method}` });
+      }
+      const refund = await new RefundService(getPool()).approveRefund(req.params.id, req.user!.id, {
+        method: method as RefundMethod | undefined,
+        note: note || null
+      });
+      res.json({ message: `Refund is ${refund.status}`, refund });
+    } catch (error: any) {
+      refundError(res, error, 'Failed to approve refund');
+    }
+  });
+
+  router.post('/refunds/:id/reject', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { note } = req.body;
+      if (!note) {
+        return res.status(400).json({ error: 'A note is required' });
+      }
+      const refund = await new RefundService(getPool()).rejectRefund(req.params.id, req.user!.id, note);
+      res.json({ message: 'Refund rejected', refund });
+    } catch (error: any) {
+      refundError(res, error, 'Failed to reject refund');
+    }
+  });
+
+  // Chargebacks and payment disputes
+  const disputeError = (res: express.Response, error: any, fallback: string) => {
+    if (error.message?.startsWith('Gateway rejected')) {
+      return res.status(502).json({ error: error.message });
+    }
+    statementError(res, error, fallback);
+  };
+
+  // Open disputes by default, soonest evidence deadline first
+  router.get('/disputes', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { status = 'open', subscriptionId, page = '1', limit = '50' } = req.query;
+      if (status !== 'open' && status !== 'all' && !DISPUTE_STATUSES.includes(status as DisputeStatus)) {
+        return res.status(400).json({ error: `Invalid status: ${status}` });
+      }
+      const pageNum = Number.parseInt(page as string) || 1;
+      const limitNum = Math.min(Number.parseInt(limit as string) || 50, 100);
+
+      const { disputes, total } = await new DisputeService(getPool()).listDisputes(
+        {
+          status: status === 'open' || status === 'all' ? undefined : status as DisputeStatus,
+          open: status === 'open',
+          subscriptionId: subscriptionId as string | undefined
+        },
+        limitNum,
+        (pageNum - 1) * limitNum
+      );
+      res.json({
+        disputes,
+        pagination: { page: pageNum, limit: limitNum, total, pages: Math.ceil(total / limitNum) }
+      });
+    } catch (error: any) {
+      disputeError(res, error, 'Failed to fetch disputes');
+    }
+  });
+
+  router.get('/disputes/:id', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      res.json({ dispute: await new DisputeService(getPool()).getDispute(req.params.id) });
+    } catch (error: any) {
+      disputeError(res, error, 'Failed to fetch dispute');
+    }
+  });
+
+  // For chargebacks the gateway reports outside its webhooks, e.g. eWAY notices
+  router.post('/disputes', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { paymentId, amount, reason, gatewayDisputeId, evidenceDueBy } = req.body;
+      if (!paymentId || !reason) {
+        return res.status(400).json({ error: 'paymentId and reason are required' });
+      }
+      const dueBy = evidenceDueBy ? new Date(evidenceDueBy) : null;
+      if (dueBy && Number.isNaN(dueBy.getTime())) {
+        return res.status(400).json({ error: `Invalid evidenceDueBy: ${evidenceDueBy}` });
+      }
+      const dispute = await new DisputeService(getPool()).recordDispute(
+        paymentId,
+        { amount: amount === undefined ? undefined : Number(amount), reason, gatewayDisputeId, evidenceDueBy: dueBy },
+        req.user!.id
+      );
+      res.status(201).json({ message: 'Dispute recorded', dispute });
+    } catch (error: any) {
+      disputeError(res, error, 'Failed to record dispute');
+    }
+  });
+
+  router.put('/disputes/:id/evidence', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { evidence } = req.body;
+      if (!evidence || typeof evidence !== 'object' || Array.isArray(evidence)) {
+        return res.status(400).json({ error: 'evidence must be an object of evidence fields' });
+      }
+      const dispute = await new DisputeService(getPool()).saveEvidence(req.params.id, evidence);
+      res.json({ message: 'Evidence saved', dispute });
+    } catch (error: any) {
+      disputeError(res, error, 'Failed to save evidence');
+    }
+  });
+
+  router.post('/disputes/:id/evidence/submit', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const dispute = await new DisputeService(getPool()).submitEvidence(req.params.id, req.user!.id);
+      res.json({
+        message: dispute.submitted_to_gateway ? 'Evidence submitted to the gateway' : 'Evidence submission recorded',
+        dispute
+      });
+    } catch (error: any) {
+      disputeError(res, error, 'Failed to submit evidence');
+    }
+  });
+
+  // Outcomes normally arrive by webhook; this records ones decided elsewhere
+  router.post('/disputes/:id/resolve', requirePermission(PERMISSIONS.MANAGE_PAYMENTS), async (req: AuthRequest, res) => {
+    try {
+      const { outcome, note } = req.body;
+      if (outcome !== 'won' && outcome !== 'lost') {
+        return res.status(400).json({ error: `Invalid outcome: ${outcome}` });
+      }
+      const dispute = await new DisputeService(getPool()).resolveDispute(req.params.id, outcome, req.user!.id, note || null);
+      res.json({ message: `Dispute ${dispute.status}`, dispute });
+    } catch (error: any) {
+      disputeError(res, error, 'Failed to resolve dispute');
+    }
+  });
+
   // Distribution routes
   router.get('/distributions', (req: AuthRequest, res) => {
     res.json({ message: 'Distributions endpoint' });
   });
 
-  router.post('/distributions/process', (req: AuthRequest, res) => {
+  // Executing disbursements always needs a second factor
+  router.post('/distributions/process', requirePermission(PERMISSIONS.PROCESS_DISTRIBUTIONS), requireStepUp({ enrolmentRequired: true }), (req: AuthRequest, res) => {
     res.json({ message: 'Process distributions endpoint' });
   });
 
@@ -536,4 +1011,375 @@ router.post('/properties/:id/mint', async (req, res) => {
     }
   });
 
+  // Withdrawal limit policy routes
+  router.get('/withdrawal-limits', async (req: AuthRequest, res) => {
+    try {
+      const policies = await new WithdrawalLimitService(getPool()).getAllPolicies();
+      res.json({ policies });
+    } catch (error) {
+      console.error('Failed to fetch withdrawal limit policies:', error);
+      res.status(500).json({ error: 'Failed to fetch withdrawal limit policies' });
+    }
+  });
+
+  // Limits are per asset; omit asset to update the USDC policy
+  router.put('/withdrawal-limits/:tier', async (req: AuthRequest, res) => {
+    try {
+      const { perTransaction, daily, monthly, asset } = req.body;
+      const policy = await new WithdrawalLimitService(getPool()).updatePolicy(
+        req.params.tier as KYCTier,
+        {
+          perTransaction: Number(perTransaction),
+          daily: Number(daily),
+          monthly: Number(monthly)
+        },
+        req.user!.id,
+        parseWalletAsset(asset)
+      );
+      res.json({ message: 'Withdrawal limits updated', policy });
+    } catch (error: any) {
+      console.error('Failed to update withdrawal limit policy:', error);
+      res.status(400).json({ error: error.message || 'Failed to update withdrawal limit policy' });
+    }
+  });
+
+  // Withdrawal fee schedule routes
+  router.get('/withdrawal-fees', async (req: AuthRequest, res) => {
+    try {
+      const feeService = new WithdrawalFeeService(getPool());
+      const [schedules, waivers] = await Promise.all([
+        feeService.getAllSchedules(),
+        feeService.getWaivers(req.query.includeInactive === 'true')
+      ]);
+      res.json({ schedules, waivers });
+    } catch (error) {
+      console.error('Failed to fetch withdrawal fee schedule:', error);
+      res.status(500).json({ error: 'Failed to fetch withdrawal fee schedule' });
+    }
+  });
+
+  // Use 'default' as the network to change an asset's fallback terms; omit asset for USDC
+  router.put('/withdrawal-fees/:network', async (req: AuthRequest, res) => {
+    try {
+      const { feePercentage, minFee, maxFee, minAmount, asset } = req.body;
+      const toNumber = (value: any) => (value === undefined || value === null || value === '' ? null : Number(value));
+
+      const schedule = await new WithdrawalFeeService(getPool()).updateSchedule(
+        req.params.network,
+        {
+          feePercentage: toNumber(feePercentage),
+          minFee: toNumber(minFee),
+          maxFee: toNumber(maxFee),
+          minAmount: toNumber(minAmount)
+        },
+        req.user!.id,
+        parseWalletAsset(asset)
+      );
+      res.json({ message: 'Withdrawal fee schedule updated', schedule });
+    } catch (error: any) {
+      console.error('Failed to update withdrawal fee schedule:', error);
+      res.status(400).json({ error: error.message || 'Failed to update withdrawal fee schedule' });
+    }
+  });
+
+  router.delete('/withdrawal-fees/:network', async (req: AuthRequest, res) => {
+    try {
+      const schedule = await new WithdrawalFeeService(getPool()).removeNetworkOverride(
+        req.params.network,
+        parseWalletAsset(req.query.asset)
+      );
+      res.json({ message: 'Withdrawal fee override removed', schedule });
+    } catch (error: any) {
+      console.error('Failed to remove withdrawal fee override:', error);
+      res.status(400).json({ error: error.message || 'Failed to remove withdrawal fee override' });
+    }
+  });
+
+  router.post('/withdrawal-fee-waivers', async (req: AuthRequest, res) => {
+    try {
+      const waiver = await new WithdrawalFeeService(getPool()).createWaiver(req.body, req.user!.id);
+      res.status(201).json({ message: 'Fee waiver created', waiver });
+    } catch (error: any) {
+      console.error('Failed to create fee waiver:', error);
+      res.status(400).json({ error: error.message || 'Failed to create fee waiver' });
+    }
+  });
+
+  router.delete('/withdrawal-fee-waivers/:id', async (req: AuthRequest, res) => {
+    try {
+      await new WithdrawalFeeService(getPool()).deactivateWaiver(req.params.id);
+      res.json({ message: 'Fee waiver deactivated' });
+    } catch (error: any) {
+      console.error('Failed to deactivate fee waiver:', error);
+      res.status(404).json({ error: error.message || 'Failed to deactivate fee waiver' });
+    }
+  });
+
+  // Reconciliation routes
+  router.get('/reconciliation/runs', async (req: AuthRequest, res) => {
+    try {
+      const { limit = '20', offset = '0' } = req.query;
+      const runs = await new ReconciliationService(getPool()).getRuns(
+        Math.min(Number.parseInt(limit as string) || 20, 100),
+        Number.parseInt(offset as string) || 0
+      );
+      res.json({ runs });
+    } catch (error) {
+      console.error('Failed to fetch reconciliation runs:', error);
+      res.status(500).json({ error: 'Failed to fetch reconciliation runs' });
+    }
+  });
+
+  router.post('/reconciliation/run', async (req: AuthRequest, res) => {
+    try {
+      const summary = await new ReconciliationService(getPool()).runReconciliation(`admin:${req.user!.id}`);
+      res.json({ message: 'Reconciliation completed', summary });
+    } catch (error: any) {
+      console.error('Failed to run reconciliation:', error);
+      res.status(500).json({ error: error.message || 'Failed to run reconciliation' });
+    }
+  });
+
+  router.get('/reconciliation/discrepancies', async (req: AuthRequest, res) => {
+    try {
+      const { status = 'open', type, entityType, runId, page = '1', limit = '50' } = req.query;
+      const pageNum = Number.parseInt(page as string) || 1;
+      const limitNum = Math.min(Number.parseInt(limit as string) || 50, 100);
+
+      const { discrepancies, total } = await new ReconciliationService(getPool()).getDiscrepancies(
+        {
+          status: status === 'all' ? undefined : status as any,
+          type: type as any,
+          entityType: entityType as string | undefined,
+          runId: runId as string | undefined
+        },
+        limitNum,
+        (pageNum - 1) * limitNum
+      );
+
+      res.json({
+        discrepancies,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      });
+    } catch (error) {
+      console.error('Failed to fetch discrepancies:', error);
+      res.status(500).json({ error: 'Failed to fetch discrepancies' });
+    }
+  });
+
+  router.get('/reconciliation/discrepancies/:id', async (req: AuthRequest, res) => {
+    try {
+      const discrepancy = await new ReconciliationService(getPool()).getDiscrepancy(req.params.id);
+      if (!discrepancy) {
+        return res.status(404).json({ error: 'Discrepancy not found' });
+      }
+      res.json({ discrepancy });
+    } catch (error) {
+      console.error('Failed to fetch discrepancy:', error);
+      res.status(500).json({ error: 'Failed to fetch discrepancy' });
+    }
+  });
+
+  router.post('/reconciliation/discrepancies/:id/resolve', async (req: AuthRequest, res) => {
+    try {
+      const { note, status = 'resolved' } = req.body;
+      if (!note) {
+        return res.status(400).json({ error: 'A resolution note is required' });
+      }
+      if (!['resolved', 'ignored'].includes(status)) {
+        return res.status(400).json({ error: 'Status must be resolved or ignored' });
+      }
+
+      const discrepancy = await new ReconciliationService(getPool()).resolveDiscrepancy(
+        req.params.id,
+        req.user!.id,
+        note,
+        status
+      );
+      res.json({ message: 'Discrepancy updated', discrepancy });
+    } catch (error: any) {
+      console.error('Failed to resolve discrepancy:', error);
+      res.status(400).json({ error: error.message || 'Failed to resolve discrepancy' });
+    }
+  });
+
+  // Role and permission management
+  router.get('/roles', async (req: AuthRequest, res) => {
+    try {
+      const permissionService = new PermissionService(getPool());
+      const [roles, permissions] = await Promise.all([
+        permissionService.getRoles(),
+        permissionService.getPermissions()
+      ]);
+      res.json({ roles, permissions });
+    } catch (error) {
+      console.error('Failed to fetch roles:', error);
+      res.status(500).json({ error: 'Failed to fetch roles' });
+    }
+  });
+
+  router.post('/roles/:role/permissions', requirePermission(PERMISSIONS.MANAGE_ROLES), async (req: AuthRequest, res) => {
+    try {
+      const { permission } = req.body;
+      if (!permission) {
+        return res.status(400).json({ error: 'permission is required' });
+      }
+      const permissions = await new PermissionService(getPool()).grantRolePermission(req.params.role, permission);
+      res.json({ message: 'Permission granted to role', role: req.params.role, permissions });
+    } catch (error: any) {
+      console.error('Failed to grant role permission:', error);
+      res.status(400).json({ error: error.message || 'Failed to grant role permission' });
+    }
+  });
+
+  router.delete('/roles/:role/permissions/:permission', requirePermission(PERMISSIONS.MANAGE_ROLES), async (req: AuthRequest, res) => {
+    try {
+      const permissions = await new PermissionService(getPool()).revokeRolePermission(
+        req.params.role,
+        req.params.permission
+      );
+      res.json({ message: 'Permission revoked from role', role: req.params.role, permissions });
+    } catch (error: any) {
+      console.error('Failed to revoke role permission:', error);
+      res.status(400).json({ error: error.message || 'Failed to revoke role permission' });
+    }
+  });
+
+  router.get('/users/:id/permissions', requirePermission(PERMISSIONS.MANAGE_USERS), async (req: AuthRequest, res) => {
+    try {
+      const access = await new PermissionService(getPool()).getUserAccess(req.params.id);
+      res.json(access);
+    } catch (error: any) {
+      console.error('Failed to fetch user permissions:', error);
+      res.status(404).json({ error: error.message || 'Failed to fetch user permissions' });
+    }
+  });
+
+  router.put('/users/:id/role', requirePermission(PERMISSIONS.MANAGE_ROLES), async (req: AuthRequest, res) => {
+    try {
+      const { role } = req.body;
+      if (!role) {
+        return res.status(400).json({ error: 'role is required' });
+      }
+      const access = await new PermissionService(getPool()).setUserRole(req.params.id, role, req.user!);
+      res.json({ message: 'User role updated', access });
+    } catch (error: any) {
+      console.error('Failed to update user role:', error);
+      res.status(400).json({ error: error.message || 'Failed to update user role' });
+    }
+  });
+
+  router.post('/users/:id/permissions', requirePermission(PERMISSIONS.MANAGE_USERS), async (req: AuthRequest, res) => {
+    try {
+      const { permission } = req.body;
+      if (!permission) {
+        return res.status(400).json({ error: 'permission is required' });
+      }
+      const access = await new PermissionService(getPool()).grantUserPermission(req.params.id, permission, req.user!.id);
+      res.json({ message: 'Permission granted', access });
+    } catch (error: any) {
+      console.error('Failed to grant permission:', error);
+      res.status(400).json({ error: error.message || 'Failed to grant permission' });
+    }
+  });
+
+  // Revoking denies the permission even when the user's role grants it;
+  // pass ?reset=true to drop the user-level override instead
+  router.delete('/users/:id/permissions/:permission', requirePermission(PERMISSIONS.MANAGE_USERS), async (req: AuthRequest, res) => {
+    try {
+      const permissionService = new PermissionService(getPool());
+      const access = req.query.reset === 'true'
+        ? await permissionService.resetUserPermission(req.params.id, req.params.permission)
+        : await permissionService.revokeUserPermission(req.params.id, req.params.permission, req.user!.id);
+      res.json({ message: req.query.reset === 'true' ? 'Permission override removed' : 'Permission revoked', access });
+    } catch (error: any) {
+      console.error('Failed to revoke permission:', error);
+      res.status(400).json({ error: error.message || 'Failed to revoke permission' });
+    }
+  });
+
+  // Notification delivery monitoring
+  router.get('/notification-deliveries', async (req: AuthRequest, res) => {
+    try {
+      const { status, channel, limit = '50', offset = '0' } = req.query;
+      const deliveries = await new NotificationDeliveryService(getPool()).getDeliveries(
+        { status: status as any, channel: channel as any },
+        Math.min(Number.parseInt(limit as string) || 50, 200),
+        Number.parseInt(offset as string) || 0
+      );
+      res.json({ deliveries });
+    } catch (error) {
+      console.error('Failed to fetch notification deliveries:', error);
+      res.status(500).json({ error: 'Failed to fetch notification deliveries' });
+    }
+  });
+
+  router.get('/notification-deliveries/:id', async (req: AuthRequest, res) => {
+    try {
+      const delivery = await new NotificationDeliveryService(getPool()).getDeliveryWithAttempts(req.params.id);
+      res.json({ delivery });
+    } catch (error: any) {
+      res.status(404).json({ error: error.message || 'Delivery not found' });
+    }
+  });
+
+  router.post('/notification-deliveries/:id/retry', async (req: AuthRequest, res) => {
+    try {
+      const delivery = await new NotificationDeliveryService(getPool()).retryDelivery(req.params.id);
+      res.json({ message: delivery.status === 'delivered' ? 'Delivery succeeded' : 'Retry attempted', delivery });
+    } catch (error: any) {
+      console.error('Failed to retry notification delivery:', error);
+      res.status(400).json({ error: error.message || 'Failed to retry notification delivery' });
+    }
+  });
+
+  // Notification templates, per type and locale
+  router.get('/notification-templates', async (req: AuthRequest, res) => {
+    try {
+      const templates = await new NotificationTemplateService(getPool()).listTemplates();
+      res.json({ templates });
+    } catch (error) {
+      console.error('Failed to fetch notification templates:', error);
+      res.status(500).json({ error: 'Failed to fetch notification templates' });
+    }
+  });
+
+  // Body: { type, locale?, title?, message?, data? }; title/message preview unsaved copy
+  router.post('/notification-templates/preview', async (req: AuthRequest, res) => {
+    try {
+      const preview = await new NotificationTemplateService(getPool()).preview(req.body);
+      res.json({ preview });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to preview notification template' });
+    }
+  });
+
+  router.put('/notification-templates/:type/:locale', async (req: AuthRequest, res) => {
+    try {
+      const template = await new NotificationTemplateService(getPool()).saveTemplate(
+        req.params.type,
+        req.params.locale,
+        { title: req.body.title, message: req.body.message },
+        req.user!.id
+      );
+      res.json({ message: 'Notification template saved', template });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to save notification template' });
+    }
+  });
+
+  router.delete('/notification-templates/:type/:locale', async (req: AuthRequest, res) => {
+    try {
+      await new NotificationTemplateService(getPool()).deleteTemplate(req.params.type, req.params.locale);
+      res.json({ message: 'Custom notification template removed' });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to remove notification template' });
+    }
+  });
+
 export default router;
\ No newline at end of file
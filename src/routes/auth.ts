@@ -1,12 +1,15 @@
 import express from 'express';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
-import { query } from '../utils/database';
+import { query, getPool } from '../utils/database';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { AuthSessionService, SessionTokens } from '../services/authSessionService';
+import { SiweService } from '../services/siweService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { SUPER_ADMIN_USER_ID } from '../models/permissionModel';
+import { defaultLocale } from '../services/notificationTemplateService';
 import { v4 as uuidv4 } from 'uuid';
 
-import { verifyMessage } from 'ethers';
-
 const router = express.Router();
 
 // Helper function to get role-based redirect URL
@@ -23,19 +26,25 @@ const router = express.Router();
 //   }
 // }
 
-// Login route
+// Login route: Sign-In with Ethereum (EIP-4361)
 router.get('/nonce', async (req, res) => {
   try {
-    const { address } = req.query;
+    const { address, chainId } = req.query;
 
     if (!address) {
       return res.status(400).json({ error: 'Address is required' });
     }
 
-    const nonce = `TitleBase login for ${address}: ${Date.now()}`;
+    const challenge = await new SiweService(getPool()).issueNonce(
+      String(address),
+      chainId !== undefined ? Number(chainId) : undefined
+    );
 
-    res.json({ nonce });
-  } catch (error) {
+    res.json(challenge);
+  } catch (error: any) {
+    if (error.message === 'Invalid address' || error.message?.startsWith('Unsupported chain ID')) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Nonce error:', error);
     res.status(500).json({ error: 'Failed to generate nonce' });
   }
@@ -43,31 +52,34 @@ router.get('/nonce', async (req, res) => {
 
 router.post('/login', async (req, res) => {
   try {
-    const { walletAddress, signature, role, nonce } = req.body;
+    const { message, signature } = req.body;
 
-    if (!walletAddress || !signature || !nonce) {
-      return res.status(400).json({ error: 'Wallet address, signature, and nonce are required' });
+    if (!message || !signature) {
+      return res.status(400).json({ error: 'Message and signature are required' });
     }
 
-    // Verify signature
-    const recoveredAddress = verifyMessage(nonce, signature);
-    if (recoveredAddress.toLowerCase() !== walletAddress.toLowerCase()) {
-      return res.status(401).json({ error: 'Invalid signature' });
+    let walletAddress: string;
+    try {
+      const verified = await new SiweService(getPool()).verify(message, signature);
+      walletAddress = verified.address;
+    } catch (error: any) {
+      return res.status(401).json({ error: error.message || 'Invalid signature' });
     }
 
-    // Find user by wallet address
-    let users = await query('SELECT * FROM users WHERE wallet_address = ?', [walletAddress]);
+    // Find user by wallet address; smart accounts sign in as their owner
+    let users = await query(
+      'SELECT * FROM users WHERE wallet_address = ? OR smart_account_address = ?',
+      [walletAddress, walletAddress]
+    );
 
     let user;
     if (users.length === 0) {
-      // Create new user if doesn't exist
+      // Create new user if doesn't exist; roles are only granted through PermissionService.setUserRole
       const userId = uuidv4();
-      const defaultRole = role || 'user';
-      const defaultPermissions = defaultRole === 'user' ? ['create_property'] : [];
 
       await query(
         'INSERT INTO users (id, wallet_address, role, permissions, is_active) VALUES (?, ?, ?, ?, ?)',
-        [userId, walletAddress, defaultRole, JSON.stringify(defaultPermissions), true]
+        [userId, walletAddress, 'user', JSON.stringify(['create_property']), true]
       );
 
       users = await query('SELECT * FROM users WHERE id = ?', [userId]);
@@ -89,7 +101,7 @@ router.post('/login', async (req, res) => {
     // Update last login
     await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?', [user.id]);
 
-    const token = jwt.sign(
+    const session = await new AuthSessionService(getPool()).startSession(
       {
         id: user.id,
         userId: user.id,
@@ -108,12 +120,11 @@ router.post('/login', async (req, res) => {
         isActive: user.is_active !== false,
         lastLogin: new Date().toISOString(),
       },
-      jwtSecret,
-      { expiresIn: '24h' }
+      getSessionContext(req)
     );
 
     res.json({
-      token,
+      ...sessionResponse(session),
       user: {
         id: user.id,
         address: user.wallet_address,
@@ -167,10 +178,13 @@ router.post('/email-auth', async (req, res) => {
       const results = await query('SELECT * FROM users WHERE id = ?', [userId]);
       const newUser = results[0];
 
-      const token = jwt.sign({ id: newUser.id, userId: newUser.id, address: '', email: newUser.email, name: newUser.username || '', role: newUser.role, permissions: ['create_property'], isActive: true }, jwtSecret, { expiresIn: '24h' });
+      const session = await new AuthSessionService(getPool()).startSession(
+        { id: newUser.id, userId: newUser.id, address: '', email: newUser.email, name: newUser.username || '', role: newUser.role, permissions: ['create_property'], isActive: true },
+        getSessionContext(req)
+      );
 
       return res.status(201).json({
-          token,
+          ...sessionResponse(session),
           message: 'User created successfully',
           redirectUrl: getRoleBasedRedirectUrl(newUser.role || 'user')
       });
@@ -197,14 +211,15 @@ router.post('/email-auth', async (req, res) => {
       if (!user.is_active) {
           return res.status(403).json({ error: 'This account has been deactivated.' });
       }
-      
-      await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?', [user.id]);
-      const token = jwt.sign({ id: user.id, userId: user.id, address: '', email: user.email, name: user.username || '', role: user.role, permissions: user.permissions ? JSON.parse(user.permissions) : ['create_property'], isActive: user.is_active, lastLogin: new Date().toISOString() }, jwtSecret, { expiresIn: '24h' });
 
-      return res.json({
-          token,
-          redirectUrl: getRoleBasedRedirectUrl(user.role || 'user')
-      });
+      // Accounts with 2FA get a challenge instead of tokens
+      const twoFactorService = new TwoFactorService(getPool());
+      if (await twoFactorService.isEnabled(user.id)) {
+        const challenge = await twoFactorService.createLoginChallenge(user.id);
+        return res.json({ twoFactorRequired: true, ...challenge });
+      }
+
+      return res.json(await completeEmailLogin(user, req));
     }
 
   } catch (error) {
@@ -213,6 +228,125 @@ router.post('/email-auth', async (req, res) => {
   }
 });
 
+// Second step of an email login for accounts with 2FA enabled
+router.post('/2fa/verify-login', async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+    if (!challengeToken || !code) {
+      return res.status(400).json({ error: 'challengeToken and code are required' });
+    }
+
+    let userId: string;
+    try {
+      userId = await new TwoFactorService(getPool()).completeLoginChallenge(challengeToken, code);
+    } catch (error: any) {
+      return res.status(401).json({ error: error.message || 'Invalid verification code' });
+    }
+
+    const users = await query('SELECT * FROM users WHERE id = ?', [userId]);
+    if (users.length === 0 || !users[0].is_active) {
+      return res.status(403).json({ error: 'This account has been deactivated.' });
+    }
+
+    res.json(await completeEmailLogin(users[0], req));
+  } catch (error) {
+    console.error('2FA login error:', error);
+    res.status(500).json({ error: 'An internal server error occurred.' });
+  }
+});
+
+async function completeEmailLogin(user: any, req: express.Request) {
+  await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?', [user.id]);
+  const session = await new AuthSessionService(getPool()).startSession(
+    { id: user.id, userId: user.id, address: '', email: user.email, name: user.username || '', role: user.role, permissions: user.permissions ? JSON.parse(user.permissions) : ['create_property'], isActive: user.is_active, lastLogin: new Date().toISOString() },
+    getSessionContext(req)
+  );
+
+  return {
+    ...sessionResponse(session),
+    redirectUrl: getRoleBasedRedirectUrl(user.role || 'user')
+  };
+}
+
+// Two-factor enrolment and management
+router.get('/2fa/status', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    res.json(await new TwoFactorService(getPool()).getStatus(req.user!.id));
+  } catch (error) {
+    console.error('2FA status error:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+router.post('/2fa/enroll', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    // The super-admin login has no users row for the secret to belong to
+    if (req.user!.id === SUPER_ADMIN_USER_ID) {
+      return res.status(400).json({ error: 'The super-admin login cannot enrol in two-factor authentication' });
+    }
+    const enrolment = await new TwoFactorService(getPool()).beginEnrolment(
+      req.user!.id,
+      req.user!.email || req.user!.address || req.user!.id
+    );
+    res.json({ ...enrolment, message: 'Scan the QR code, then confirm with a code from your authenticator app' });
+  } catch (error: any) {
+    console.error('2FA enrolment error:', error);
+    res.status(400).json({ error: error.message || 'Failed to start two-factor enrolment' });
+  }
+});
+
+router.post('/2fa/enroll/confirm', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'code is required' });
+    }
+    const { backupCodes } = await new TwoFactorService(getPool()).confirmEnrolment(req.user!.id, code);
+    res.json({ message: 'Two-factor authentication enabled', backupCodes });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to confirm two-factor enrolment' });
+  }
+});
+
+router.post('/2fa/disable', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'code is required' });
+    }
+    await new TwoFactorService(getPool()).disable(req.user!.id, code);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to disable two-factor authentication' });
+  }
+});
+
+router.post('/2fa/backup-codes', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'code is required' });
+    }
+    const { backupCodes } = await new TwoFactorService(getPool()).regenerateBackupCodes(req.user!.id, code);
+    res.json({ message: 'Backup codes regenerated', backupCodes });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to regenerate backup codes' });
+  }
+});
+
+// Exchange a code for a short-lived token accepted by sensitive routes
+router.post('/2fa/step-up', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { code } = req.body;
+    if (!code) {
+      return res.status(400).json({ error: 'code is required' });
+    }
+    const stepUp = await new TwoFactorService(getPool()).issueStepUpToken(req.user!.id, req.user!.sessionId, code);
+    res.json(stepUp);
+  } catch (error: any) {
+    res.status(403).json({ error: error.message || 'Invalid verification code' });
+  }
+});
 
 // Helper function to get role-based redirect URL
 function getRoleBasedRedirectUrl(role: string): string {
@@ -236,6 +370,23 @@ function getRoleBasedRedirectUrl(role: string): string {
   }
 }
 
+// Device details recorded against a new or refreshed session
+function getSessionContext(req: express.Request) {
+  return {
+    ipAddress: req.ip || null,
+    userAgent: req.get('user-agent') || null,
+    deviceName: typeof req.body?.deviceName === 'string' ? req.body.deviceName.substring(0, 255) : null
+  };
+}
+
+function sessionResponse(session: SessionTokens) {
+  return {
+    token: session.token,
+    refreshToken: session.refreshToken,
+    expiresIn: session.expiresIn
+  };
+}
+
 // Register route
 // router.post('/register', async (req, res) => {
 //   try {
@@ -292,12 +443,13 @@ router.get('/session', authenticateToken, async (req: AuthRequest, res) => {
       isKYCVerified: user.kyc_status === 'approved',
       isWhitelisted: user.is_whitelisted || false,
       smartAccountAddress: user.smart_account_address,
-      role: user.role || 'user',
-      permissions: user.permissions ? JSON.parse(user.permissions) : [],
+      role: req.user.role,
+      permissions: req.user.permissions,
       department: user.department,
       isActive: user.is_active !== false,
       lastLogin: user.last_login,
-      redirectUrl: getRoleBasedRedirectUrl(user.role || 'user')
+      locale: user.locale || defaultLocale(),
+      redirectUrl: getRoleBasedRedirectUrl(req.user.role)
     });
   } catch (error) {
     console.error('Session error:', error);
@@ -305,10 +457,86 @@ router.get('/session', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Logout route
-router.post('/logout', (req, res) => {
-  // In a stateless JWT system, logout is handled client-side
-  res.json({ message: 'Logged out successfully' });
+// Exchange a refresh token for a new access token; the refresh token rotates on every use
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+
+    const session = await new AuthSessionService(getPool()).refresh(refreshToken, getSessionContext(req));
+
+    res.json(sessionResponse(session));
+  } catch (error: any) {
+    console.error('Refresh token error:', error);
+    res.status(401).json({ error: error.message || 'Failed to refresh session' });
+  }
+});
+
+// Logout route: revokes the session behind the refresh token or the bearer token
+router.post('/logout', async (req, res) => {
+  try {
+    const sessionService = new AuthSessionService(getPool());
+    const { refreshToken } = req.body || {};
+
+    if (refreshToken) {
+      await sessionService.revokeByRefreshToken(refreshToken);
+    } else {
+      const token = req.headers['authorization']?.split(' ')[1];
+      const jwtSecret = process.env.JWT_SECRET;
+      if (token && jwtSecret) {
+        try {
+          // An expired access token is still good enough to identify the session to end
+          const decoded = jwt.verify(token, jwtSecret, { ignoreExpiration: true }) as any;
+          if (decoded.sid) {
+            await sessionService.revokeById(decoded.sid, 'logout');
+          }
+        } catch (error) {
+          // Invalid tokens have no session to revoke
+        }
+      }
+    }
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// Session (device) management
+router.get('/sessions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await new AuthSessionService(getPool()).listSessions(req.user!.id, req.user!.sessionId);
+    res.json({ sessions });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+router.delete('/sessions/:id', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    await new AuthSessionService(getPool()).revokeSession(req.user!.id, req.params.id);
+    res.json({ message: 'Session revoked', sessionId: req.params.id });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(404).json({ error: error.message || 'Failed to revoke session' });
+  }
+});
+
+// Revokes every other session; pass ?includeCurrent=true to sign out this device too
+router.delete('/sessions', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const keepSessionId = req.query.includeCurrent === 'true' ? null : req.user!.sessionId || null;
+    const revoked = await new AuthSessionService(getPool()).revokeAllSessions(req.user!.id, keepSessionId);
+    res.json({ message: 'Sessions revoked', revoked });
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
 });
 
 // Google OAuth routes
@@ -418,7 +646,7 @@ router.post('/google/callback', async (req, res) => {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const token = jwt.sign(
+    const session = await new AuthSessionService(getPool()).startSession(
       {
         id: user.id,
         userId: user.id,
@@ -437,12 +665,11 @@ router.post('/google/callback', async (req, res) => {
         isActive: user.is_active !== false,
         lastLogin: new Date().toISOString(),
       },
-      jwtSecret,
-      { expiresIn: '24h' }
+      getSessionContext(req)
     );
 
     res.json({
-      token,
+      ...sessionResponse(session),
       user: {
         id: user.id,
         address: user.wallet_address || '',
@@ -529,7 +756,7 @@ router.post('/wallet', async (req, res) => {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const token = jwt.sign(
+    const session = await new AuthSessionService(getPool()).startSession(
       {
         id: user.id,
         userId: user.id,
@@ -548,12 +775,11 @@ router.post('/wallet', async (req, res) => {
         isActive: user.is_active !== false,
         lastLogin: new Date().toISOString(),
       },
-      jwtSecret,
-      { expiresIn: '24h' }
+      getSessionContext(req)
     );
 
     res.json({
-      token,
+      ...sessionResponse(session),
       user: {
         id: user.id,
         address: user.wallet_address,
@@ -587,7 +813,7 @@ router.post('/superadmin', async (req, res) => {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const token = jwt.sign(
+    const session = await new AuthSessionService(getPool()).startSession(
       {
         id: 'super-admin',
         userId: 'super-admin',
@@ -598,12 +824,11 @@ router.post('/superadmin', async (req, res) => {
         permissions: ['all'],
         isActive: true,
       },
-      jwtSecret,
-      { expiresIn: '24h' }
+      getSessionContext(req)
     );
 
     res.json({
-      token,
+      ...sessionResponse(session),
       user: {
         id: 'super-admin',
         address: '0x0000000000000000000000000000000000000000',
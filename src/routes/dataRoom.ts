@@ -0,0 +1,177 @@
+import express from 'express';
+import { Pool } from 'mysql2/promise';
+import { DataRoomService } from '../services/dataRoomService';
+import { authenticateToken, optionalAuthenticateToken, AuthRequest } from '../middleware/auth';
+
+const maxUploadBytes = () => Number(process.env.DATA_ROOM_MAX_UPLOAD_MB || 25) * 1024 * 1024;
+
+const errorStatus = (message: string = ''): number => {
+  if (message === 'Property not found' || message.endsWith('not found')) return 404;
+  if (message.startsWith('Authentication required')) return 401;
+  if (message.startsWith('Not authorised') || message.startsWith('This document is only available')) return 403;
+  if (message.startsWith('Invalid')) return 400;
+  return 500;
+};
+
+/**
+ * Property data room, mounted at /api/properties/:propertyId/documents.
+ * Files are uploaded as the raw request body with their Content-Type;
+ * document details go in the query string.
+ */
+export const createDataRoomRoutes = (db: Pool) => {
+  const router = express.Router({ mergeParams: true });
+  const dataRoomService = new DataRoomService(db);
+  const rawUpload = express.raw({ type: () => true, limit: maxUploadBytes() });
+
+  const fail = (res: express.Response, error: any, fallback: string) => {
+    const status = errorStatus(error.message);
+    if (status === 500) {
+      console.error(`${fallback}:`, error);
+      return res.status(500).json({ error: fallback });
+    }
+    res.status(status).json({ error: error.message });
+  };
+
+  const readUpload = (req: AuthRequest) => {
+    if (!Buffer.isBuffer(req.body)) {
+      throw new Error('Invalid file: send the file as the request body');
+    }
+    return {
+      fileName: (req.query.fileName as string) || '',
+      mimeType: req.headers['content-type'] || '',
+      content: req.body as Buffer,
+      notes: req.query.notes as string | undefined
+    };
+  };
+
+  /**
+   * GET /api/properties/:propertyId/documents
+   * Query params: includeArchived (managers only)
+   */
+  router.get('/', optionalAuthenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const documents = await dataRoomService.listDocuments(
+        req.params.propertyId,
+        req.user || null,
+        req.query.includeArchived === 'true'
+      );
+      res.json({ documents });
+    } catch (error: any) {
+      fail(res, error, 'Failed to fetch documents');
+    }
+  });
+
+  /**
+   * GET /api/properties/:propertyId/documents/downloads
+   * Download audit log for the property's managers
+   * Query params: documentId, userId, limit, offset
+   */
+  router.get('/downloads', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const downloads = await dataRoomService.getDownloads(
+        req.params.propertyId,
+        req.user!,
+        { documentId: req.query.documentId as string | undefined, userId: req.query.userId as string | undefined },
+        Math.min(parseInt(req.query.limit as string) || 100, 500),
+        parseInt(req.query.offset as string) || 0
+      );
+      res.json({ downloads });
+    } catch (error: any) {
+      fail(res, error, 'Failed to fetch download log');
+    }
+  });
+
+  router.get('/:documentId', optionalAuthenticateToken, async (req: AuthRequest, res) => {
+    try {
+      res.json({ document: await dataRoomService.getDocument(req.params.propertyId, req.params.documentId, req.user || null) });
+    } catch (error: any) {
+      fail(res, error, 'Failed to fetch document');
+    }
+  });
+
+  /**
+   * GET /api/properties/:propertyId/documents/:documentId/download
+   * Query params: version (defaults to the current one)
+   */
+  router.get('/:documentId/download', optionalAuthenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const file = await dataRoomService.download(req.params.propertyId, req.params.documentId, req.user || null, {
+        version: req.query.version ? Number(req.query.version) : undefined,
+        ipAddress: req.ip || null,
+        userAgent: req.headers['user-agent'] || null
+      });
+
+      res.attachment(file.fileName);
+      res.set({
+        'Content-Type': file.mimeType,
+        'X-Content-SHA256': file.sha256,
+        'X-Document-Version': String(file.version),
+        'Cache-Control': 'private, no-store'
+      });
+      res.send(file.content);
+    } catch (error: any) {
+      fail(res, error, 'Failed to download document');
+    }
+  });
+
+  /**
+   * POST /api/properties/:propertyId/documents
+   * Query params: documentType, title, accessLevel, fileName, notes
+   */
+  router.post('/', authenticateToken, rawUpload, async (req: AuthRequest, res) => {
+    try {
+      const document = await dataRoomService.createDocument(
+        req.params.propertyId,
+        req.user!,
+        {
+          documentType: req.query.documentType as string,
+          title: req.query.title as string,
+          accessLevel: req.query.accessLevel as string | undefined
+        },
+        readUpload(req)
+      );
+      res.status(201).json({ document });
+    } catch (error: any) {
+      fail(res, error, 'Failed to upload document');
+    }
+  });
+
+  /**
+   * POST /api/properties/:propertyId/documents/:documentId/versions
+   * Query params: fileName, notes
+   */
+  router.post('/:documentId/versions', authenticateToken, rawUpload, async (req: AuthRequest, res) => {
+    try {
+      const document = await dataRoomService.addVersion(req.params.propertyId, req.params.documentId, req.user!, readUpload(req));
+      res.status(201).json({ document });
+    } catch (error: any) {
+      fail(res, error, 'Failed to upload document version');
+    }
+  });
+
+  // Body: { title?, documentType?, accessLevel? }
+  router.patch('/:documentId', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { title, documentType, accessLevel } = req.body || {};
+      const document = await dataRoomService.updateDocument(req.params.propertyId, req.params.documentId, req.user!, {
+        title,
+        documentType,
+        accessLevel
+      });
+      res.json({ document });
+    } catch (error: any) {
+      fail(res, error, 'Failed to update document');
+    }
+  });
+
+  router.delete('/:documentId', authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await dataRoomService.archiveDocument(req.params.propertyId, req.params.documentId, req.user!);
+      res.json({ message: 'Document archived' });
+    } catch (error: any) {
+      fail(res, error, 'Failed to archive document');
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,127 @@
+import express, { Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { getPool } from '../utils/database';
+import { RealtimeEventService, RealtimeEvent } from '../services/realtimeEventService';
+import { AuthSessionService } from '../services/authSessionService';
+
+const router = express.Router();
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const RECONNECT_DELAY_MS = 5_000;
+
+// EventSource cannot send headers, so browsers pass the access token as a
+// query parameter instead; it is verified exactly like the header
+const acceptQueryToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.query.access_token;
+  if (!req.headers['authorization'] && typeof token === 'string' && token) {
+    req.headers['authorization'] = `Bearer ${token}`;
+  }
+  next();
+};
+
+const parseEventId = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  return Number(value);
+};
+
+const writeEvent = (res: Response, type: string, data: Record<string, any>, id?: number) => {
+  if (res.writableEnded) return;
+  res.write(`${id !== undefined ? `id: ${id}\n` : ''}event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Server-sent event stream of notifications, wallet, disbursement and
+ * marketplace events. Clients resume with the Last-Event-ID header (sent by
+ * EventSource on reconnect) or ?lastEventId=.
+ */
+router.get('/stream', acceptQueryToken, authenticateToken, async (req: AuthRequest, res) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const userId = req.user.id;
+  const sessionId = req.user.sessionId;
+  const token = (req.headers['authorization'] || '').split(' ')[1];
+  const tokenExpiresAt = ((jwt.decode(token) as any)?.exp || 0) * 1000;
+  const realtimeService = new RealtimeEventService(getPool());
+  const lastEventId = parseEventId(req.headers['last-event-id']) ?? parseEventId(req.query.lastEventId);
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  // Live events are buffered while the backlog is replayed, then anything
+  // newer than the replay is flushed, so nothing is dropped or sent twice
+  let replayedThrough = lastEventId ?? 0;
+  let buffered: RealtimeEvent[] | null = [];
+  let closed = false;
+
+  const send = (event: RealtimeEvent) => {
+    if (event.id <= replayedThrough) return;
+    writeEvent(res, event.type, { ...event.data, createdAt: event.createdAt }, event.id);
+  };
+
+  const unsubscribe = RealtimeEventService.subscribe(userId, event => {
+    if (buffered) buffered.push(event);
+    else send(event);
+  });
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  // Streams outlive the request that opened them, so keep checking that the
+  // credentials they were opened with are still good
+  const heartbeat = setInterval(async () => {
+    try {
+      const sessionActive = !sessionId || await new AuthSessionService(getPool()).isSessionActive(sessionId, req.ip || null);
+      if (Date.now() >= tokenExpiresAt || !sessionActive) {
+        writeEvent(res, 'stream.expired', { reason: sessionActive ? 'token_expired' : 'session_revoked' });
+        close();
+        return;
+      }
+      if (!res.writableEnded) res.write(': heartbeat\n\n');
+    } catch (error) {
+      console.error('Event stream heartbeat error:', error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', close);
+
+  try {
+    if (lastEventId !== null) {
+      const { events, complete } = await realtimeService.getEventsSince(userId, lastEventId);
+      if (!complete) {
+        // The log has been pruned past this client; it should refetch state
+        writeEvent(res, 'stream.reset', { lastEventId });
+      }
+      for (const event of events) send(event);
+      if (events.length > 0) replayedThrough = events[events.length - 1].id;
+    } else {
+      replayedThrough = await realtimeService.getLatestEventId();
+    }
+
+    // Carries an id so a client that disconnects before its first event can still resume
+    writeEvent(res, 'stream.ready', { lastEventId: replayedThrough }, replayedThrough || undefined);
+
+    const pending = (buffered || []).sort((a, b) => a.id - b.id);
+    buffered = null;
+    for (const event of pending) send(event);
+  } catch (error) {
+    console.error('Event stream replay error:', error);
+    writeEvent(res, 'stream.error', { error: 'Failed to replay missed events' });
+    close();
+  }
+});
+
+export default router;
@@ -1,8 +1,18 @@
 import express from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { query } from '../utils/database';
+import { query, getPool } from '../utils/database';
 import { v4 as uuidv4 } from 'uuid';
 import { NotificationService } from '../services/notificationService';
+import { NotificationDeliveryService } from '../services/notificationDeliveryService';
+import { NotificationTemplateService } from '../services/notificationTemplateService';
+import { NotificationScheduleService } from '../services/notificationScheduleService';
+import { AnalyticsService } from '../services/analyticsService';
+import { PortfolioService } from '../services/portfolioService';
+import { TaxStatementService } from '../services/taxStatementService';
+import { metadataService, buildTokenMetadata } from '../services/metadataService';
+import { TokenMetadataService } from '../services/tokenMetadataService';
+import { PaymentGatewayService } from '../services/paymentGatewayService';
+import { RawBodyRequest, getRawBody } from '../middleware/rawBody';
 
 // Notifications routes
 const notificationsRouter = express.Router();
@@ -18,7 +28,7 @@ notificationsRouter.get('/', async (req: AuthRequest, res) => {
     const pageNum = Number.parseInt(page as string);
     const limitNum = Number.parseInt(limit as string);
 
-    let sqlQuery = "SELECT * FROM notifications WHERE user_id = ?";
+    let sqlQuery = "SELECT * FROM notifications WHERE user_id = ? AND in_app_visible = TRUE";
     const params: any[] = [req.user.id];
 
     if (read !== undefined) {
@@ -31,7 +41,7 @@ notificationsRouter.get('/', async (req: AuthRequest, res) => {
     const notifications = await query(sqlQuery, params);
 
     // Get total count for pagination
-    let countQuery = "SELECT COUNT(*) as total FROM notifications WHERE user_id = ?";
+    let countQuery = "SELECT COUNT(*) as total FROM notifications WHERE user_id = ? AND in_app_visible = TRUE";
     const countParams: any[] = [req.user.id];
 
     if (read !== undefined) {
@@ -41,11 +51,16 @@ notificationsRouter.get('/', async (req: AuthRequest, res) => {
     const countResult = await query(countQuery, countParams);
     const total = countResult[0]?.total || 0;
 
+    // Templated notifications are rendered in the user's current locale
+    const templateService = new NotificationTemplateService(getPool());
+    const locale = await templateService.getUserLocale(req.user.id);
+
     res.json({
-      notifications: notifications.map((n: any) => ({
+      notifications: await Promise.all(notifications.map(async (n: any) => ({
         ...n,
+        ...(await templateService.renderNotification(n, locale)),
         data: n.data ? JSON.parse(n.data) : null,
-      })),
+      }))),
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -122,10 +137,14 @@ notificationsRouter.post('/:id/read', async (req: AuthRequest, res) => {
       );
     }
 
+    const templateService = new NotificationTemplateService(getPool());
+    const locale = await templateService.getUserLocale(req.user.id);
+
     res.json({
       message: 'Notification marked as read',
       notification: {
         ...notification,
+        ...(await templateService.renderNotification(notification, locale)),
         data: notification.data ? JSON.parse(notification.data) : null,
       },
     });
@@ -135,11 +154,178 @@ notificationsRouter.post('/:id/read', async (req: AuthRequest, res) => {
   }
 });
 
+// Per-type, per-channel delivery preferences
+notificationsRouter.get('/preferences', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const [preferences, locale] = await Promise.all([
+      new NotificationDeliveryService(getPool()).getPreferences(req.user.id),
+      new NotificationTemplateService(getPool()).getUserLocale(req.user.id)
+    ]);
+    res.json({ ...preferences, locale });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Body: { preferences?: [{ type, channel, enabled }], locale?: 'en-NZ' | null }
+notificationsRouter.put('/preferences', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (req.body.preferences === undefined && req.body.locale === undefined) {
+      return res.status(400).json({ error: 'preferences or locale is required' });
+    }
+
+    const deliveryService = new NotificationDeliveryService(getPool());
+    const templateService = new NotificationTemplateService(getPool());
+
+    // Validate the locale before anything is written; null clears the user's
+    // choice and falls back to the platform default
+    if (req.body.locale) {
+      templateService.normalizeLocale(req.body.locale);
+    }
+    const preferences = req.body.preferences !== undefined
+      ? await deliveryService.updatePreferences(req.user.id, req.body.preferences)
+      : await deliveryService.getPreferences(req.user.id);
+    const locale = req.body.locale !== undefined
+      ? await templateService.setUserLocale(req.user.id, req.body.locale)
+      : await templateService.getUserLocale(req.user.id);
+
+    res.json({ message: 'Notification preferences updated', ...preferences, locale });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to update notification preferences' });
+  }
+});
+
+// Digest frequency and quiet hours for email and webhook notifications
+notificationsRouter.get('/schedule', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.json(await new NotificationScheduleService(getPool()).getSettings(req.user.id));
+  } catch (error) {
+    console.error('Get notification schedule error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification schedule' });
+  }
+});
+
+// Body: { digestFrequency?, digestHour?, timezone?, quietHours?: { start: 'HH:MM', end: 'HH:MM' } | null }
+notificationsRouter.put('/schedule', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { digestFrequency, digestHour, timezone, quietHours } = req.body;
+    const settings = await new NotificationScheduleService(getPool()).updateSchedule(req.user.id, {
+      digestFrequency,
+      digestHour,
+      timezone,
+      quietHours
+    });
+    res.json({ message: 'Notification schedule updated', ...settings });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to update notification schedule' });
+  }
+});
+
+notificationsRouter.put('/webhook', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    if (!req.body.url) {
+      return res.status(400).json({ error: 'url is required' });
+    }
+
+    const webhook = await new NotificationDeliveryService(getPool()).setWebhook(req.user.id, req.body.url);
+    res.json({
+      message: 'Webhook registered. Store the secret now; it will not be shown again.',
+      ...webhook
+    });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to register webhook' });
+  }
+});
+
+notificationsRouter.delete('/webhook', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    await new NotificationDeliveryService(getPool()).removeWebhook(req.user.id);
+    res.json({ message: 'Webhook removed' });
+  } catch (error) {
+    console.error('Remove webhook error:', error);
+    res.status(500).json({ error: 'Failed to remove webhook' });
+  }
+});
+
+notificationsRouter.get('/deliveries', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { limit = '50', offset = '0' } = req.query;
+    const deliveries = await new NotificationDeliveryService(getPool()).getUserDeliveries(
+      req.user.id,
+      Math.min(Number.parseInt(limit as string) || 50, 100),
+      Number.parseInt(offset as string) || 0
+    );
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Get notification deliveries error:', error);
+    res.status(500).json({ error: 'Failed to fetch notification deliveries' });
+  }
+});
+
 export const notifications = notificationsRouter;
 
 // Metadata routes
 const metadataRouter = express.Router();
 
+const CONTENT_SIGNATURES: Array<{ prefix: string; type: string }> = [
+  { prefix: '89504e47', type: 'image/png' },
+  { prefix: 'ffd8ff', type: 'image/jpeg' },
+  { prefix: '47494638', type: 'image/gif' },
+  { prefix: '25504446', type: 'application/pdf' }
+];
+
+// Content from the metadata store, checked against its CID; the gateway for
+// local and in-memory storage
+metadataRouter.get('/content/:cid', async (req, res) => {
+  try {
+    const content = await metadataService.getContent(req.params.cid);
+    const head = content.subarray(0, 4).toString('hex');
+    const signature = CONTENT_SIGNATURES.find(candidate => head.startsWith(candidate.prefix));
+    const text = content.toString('utf8').trimStart();
+    const type = signature ? signature.type : text.startsWith('{') || text.startsWith('[') ? 'application/json' : 'application/octet-stream';
+
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    res.type(type).send(content);
+  } catch (error: any) {
+    if (error.message === 'Content not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (/^(Invalid CID|Cannot verify CID)/.test(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Get content error:', error);
+    res.status(502).json({ error: 'Failed to fetch verified content' });
+  }
+});
+
+// ERC-721 / OpenSea metadata built from the property's current data
 metadataRouter.get('/:tokenId', async (req, res) => {
   try {
     const { tokenId } = req.params;
@@ -156,49 +342,32 @@ metadataRouter.get('/:tokenId', async (req, res) => {
       return res.status(404).json({ error: 'Property not found' });
     }
 
-    const property = propertyResult[0];
-
-    // Generate NFT metadata
-    const metadata = {
-      name: property.title,
-      description: property.description,
-      image: property.images ? JSON.parse(property.images)[0] : null,
-      attributes: [
-        {
-          trait_type: "Property Type",
-          value: property.property_type,
-        },
-        {
-          trait_type: "Location",
-          value: property.address,
-        },
-        {
-          trait_type: "Square Footage",
-          value: property.square_footage,
-        },
-        {
-          trait_type: "Bedrooms",
-          value: property.bedrooms,
-        },
-        {
-          trait_type: "Bathrooms",
-          value: property.bathrooms,
-        },
-        {
-          trait_type: "Year Built",
-          value: property.year_built,
-        },
-      ],
-      external_url: `${process.env.FRONTEND_URL}/property/${property.id}`,
-    };
-
-    res.json(metadata);
+    const metadata = buildTokenMetadata(propertyResult[0]);
+    // Marketplaces resolve ipfs:// themselves; anything else is served as stored
+    res.json({ ...metadata, image: metadata.image || undefined });
   } catch (error) {
     console.error('Get metadata error:', error);
     res.status(500).json({ error: 'Failed to fetch metadata' });
   }
 });
 
+// Every published metadata version with its CID and on-chain update
+metadataRouter.get('/:tokenId/history', async (req, res) => {
+  try {
+    const history = await new TokenMetadataService(getPool()).getHistoryByToken(
+      req.params.tokenId,
+      req.query.includeMetadata === 'true'
+    );
+    res.json(history);
+  } catch (error: any) {
+    if (error.message === 'Token not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get metadata history error:', error);
+    res.status(500).json({ error: 'Failed to fetch metadata history' });
+  }
+});
+
 export const metadata = metadataRouter;
 
 // Vouchers routes
@@ -265,96 +434,35 @@ const analyticsRouter = express.Router();
 // Protected analytics endpoint - requires authentication
 analyticsRouter.get('/dashboard', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    // Get comprehensive analytics data
-    const [propertyStats, listingStats, bidStats, userStats] = await Promise.all([
-      // Property statistics
-      query(`
-        SELECT
-          COUNT(*) as total_properties,
-          COUNT(DISTINCT p.location) as unique_locations,
-          AVG(p.assessed_value) as avg_property_value,
-          SUM(p.assessed_value) as total_aum
-        FROM properties p
-      `),
-      // Listing statistics
-      query(`
-        SELECT
-          COUNT(*) as total_listings,
-          COUNT(CASE WHEN status = 'active' THEN 1 END) as active_listings,
-          COUNT(CASE WHEN listing_type = 'auction' THEN 1 END) as auction_listings,
-          COUNT(CASE WHEN listing_type = 'fixed_price' THEN 1 END) as fixed_price_listings,
-          AVG(CASE WHEN status = 'active' THEN price END) as avg_active_price,
-          SUM(CASE WHEN status = 'active' THEN price END) as total_active_volume
-        FROM listings
-      `),
-      // Bid statistics
-      query(`
-        SELECT
-          COUNT(*) as total_bids,
-          COUNT(CASE WHEN status = 'active' THEN 1 END) as active_bids,
-          AVG(CASE WHEN status = 'active' THEN amount END) as avg_bid_amount,
-          MAX(CASE WHEN status = 'active' THEN amount END) as max_bid_amount
-        FROM bids
-      `),
-      // User statistics
-      query(`
-        SELECT
-          COUNT(*) as total_users,
-          COUNT(CASE WHEN role = 'investor' THEN 1 END) as investor_count,
-          COUNT(CASE WHEN role = 'seller' THEN 1 END) as seller_count,
-          COUNT(CASE WHEN created_at >= DATE_SUB(NOW(), INTERVAL 30 DAY) THEN 1 END) as new_users_30d
-        FROM users
-        WHERE status = 'active'
-      `)
-    ]);
-
-    const props = propertyStats[0];
-    const listings = listingStats[0];
-    const bids = bidStats[0];
-    const users = userStats[0];
-
-    // Calculate platform yield (simplified: average returns)
-    const platformYield = listings.avg_active_price ? (listings.avg_active_price / (props.avg_property_value || 1)) * 100 : 7.4;
-
-    res.json({
-      metrics: {
-        totalAUM: props.total_aum || 0,
-        activeProperties: props.total_properties || 0,
-        platformYield: parseFloat(platformYield.toFixed(1)),
-        activeInvestors: users.investor_count || 0,
-      },
-      propertyMetrics: {
-        totalProperties: props.total_properties || 0,
-        uniqueLocations: props.unique_locations || 0,
-        avgPropertyValue: props.avg_property_value || 0,
-      },
-      listingMetrics: {
-        totalListings: listings.total_listings || 0,
-        activeListings: listings.active_listings || 0,
-        auctionListings: listings.auction_listings || 0,
-        fixedPriceListings: listings.fixed_price_listings || 0,
-        avgActivePrice: listings.avg_active_price || 0,
-        totalActiveVolume: listings.total_active_volume || 0,
-      },
-      bidMetrics: {
-        totalBids: bids.total_bids || 0,
-        activeBids: bids.active_bids || 0,
-        avgBidAmount: bids.avg_bid_amount || 0,
-        maxBidAmount: bids.max_bid_amount || 0,
-      },
-      userMetrics: {
-        totalUsers: users.total_users || 0,
-        investorCount: users.investor_count || 0,
-        sellerCount: users.seller_count || 0,
-        newUsers30d: users.new_users_30d || 0,
-      },
-    });
+    // Served from the daily snapshot rather than live aggregates
+    res.json(await new AnalyticsService(getPool()).getDashboard());
   } catch (error) {
     console.error('Get analytics dashboard error:', error);
     res.status(500).json({ error: 'Failed to fetch analytics dashboard' });
   }
 });
 
+// Query: from, to (YYYY-MM-DD), granularity (day|week|month), metrics (comma-separated)
+analyticsRouter.get('/timeseries', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { from, to, granularity, metrics } = req.query as Record<string, string | undefined>;
+    res.json(await new AnalyticsService(getPool()).getPlatformSeries({ from, to, granularity, metrics }));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to fetch analytics time series' });
+  }
+});
+
+analyticsRouter.get('/properties/:propertyId/timeseries', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { from, to, granularity, metrics } = req.query as Record<string, string | undefined>;
+    const series = await new AnalyticsService(getPool()).getPropertySeries(req.params.propertyId, { from, to, granularity, metrics });
+    res.json(series);
+  } catch (error: any) {
+    const status = error.message === 'Property not found' ? 404 : 400;
+    res.status(status).json({ error: error.message || 'Failed to fetch property time series' });
+  }
+});
+
 analyticsRouter.get('/market-insights', authenticateToken, async (req: AuthRequest, res) => {
   try {
     // Get market statistics
@@ -424,6 +532,25 @@ export const analytics = analyticsRouter;
 
 // Billing routes
 const billingRouter = express.Router();
+
+// Same handler as /api/payments/webhooks/stripe, for endpoints registered with Stripe under billing.
+// Declared before the auth middleware: Stripe authenticates with its signature.
+billingRouter.post('/webhooks/stripe', async (req: RawBodyRequest, res) => {
+  try {
+    const result = await new PaymentGatewayService(getPool()).handleWebhook('STRIPE', getRawBody(req), req.headers);
+    res.json({ received: true, ...result });
+  } catch (error: any) {
+    if (/^(Invalid signature|Invalid webhook payload)/.test(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message === 'Payment not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Stripe webhook error:', error);
+    res.status(500).json({ error: 'Webhook processing failed' });
+  }
+});
+
 billingRouter.use(authenticateToken);
 
 billingRouter.get('/subscriptions', async (req: AuthRequest, res) => {
@@ -477,18 +604,6 @@ billingRouter.get('/subscriptions/:id', async (req: AuthRequest, res) => {
   }
 });
 
-billingRouter.post('/webhooks/stripe', async (req, res) => {
-  try {
-    // Placeholder for Stripe webhook handling
-    console.log('Stripe webhook received:', req.body);
-
-    res.json({ received: true });
-  } catch (error) {
-    console.error('Stripe webhook error:', error);
-    res.status(500).json({ error: 'Webhook processing failed' });
-  }
-});
-
 export const billing = billingRouter;
 
 // Investments routes
@@ -512,6 +627,75 @@ investmentsRouter.get('/', async (req: AuthRequest, res) => {
   }
 });
 
+// Cost basis, income, cash-on-cash yield, XIRR and allocation across active holdings
+investmentsRouter.get('/portfolio', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.json(await new PortfolioService(getPool()).getPortfolio(req.user.id));
+  } catch (error) {
+    console.error('Get portfolio error:', error);
+    res.status(500).json({ error: 'Failed to fetch portfolio' });
+  }
+});
+
+investmentsRouter.get('/portfolio/properties/:propertyId', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.json(await new PortfolioService(getPool()).getPropertyPerformance(req.user.id, req.params.propertyId));
+  } catch (error: any) {
+    if (error.message === 'No active holding in this property') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Get property performance error:', error);
+    res.status(500).json({ error: 'Failed to fetch property performance' });
+  }
+});
+
+investmentsRouter.get('/tax-statements', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const statements = await new TaxStatementService(getPool()).listStatements({ userId: req.user.id });
+    res.json({ statements });
+  } catch (error) {
+    console.error('List tax statements error:', error);
+    res.status(500).json({ error: 'Failed to fetch tax statements' });
+  }
+});
+
+// Financial-year income statement; ?jurisdiction=NZ|AU&format=json|csv|pdf
+investmentsRouter.get('/tax-statements/:year', async (req: AuthRequest, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const service = new TaxStatementService(getPool());
+    const jurisdiction = service.resolveJurisdiction(req.query.jurisdiction as string | undefined);
+    const statement = await service.getStatement(req.user.id, jurisdiction, Number(req.params.year));
+    const { contentType, filename, body } = service.render(statement, (req.query.format as string) || 'json');
+
+    if (contentType !== 'application/json') {
+      res.attachment(filename);
+    }
+    res.type(contentType).send(body);
+  } catch (error: any) {
+    if (/^(Unsupported|Invalid)/.test(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Get tax statement error:', error);
+    res.status(500).json({ error: 'Failed to generate tax statement' });
+  }
+});
+
 investmentsRouter.post('/', async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
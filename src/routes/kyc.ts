@@ -1,5 +1,6 @@
 import express from 'express';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../models/permissionModel';
 import { query } from '../utils/database';
 import { NotificationService } from '../services/notificationService';
 
@@ -94,18 +95,13 @@ router.post('/submit', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Admin route to approve/reject KYC (should be protected by admin middleware)
-router.post('/:userId/approve', authenticateToken, async (req: AuthRequest, res) => {
+// Admin route to approve/reject KYC
+router.post('/:userId/approve', authenticateToken, requirePermission(PERMISSIONS.REVIEW_KYC), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    // Check if user is admin
-    if (!['admin', 'super-admin'].includes(req.user.role)) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { userId } = req.params;
     const { approved, rejectionReason } = req.body;
 
@@ -132,17 +128,12 @@ router.post('/:userId/approve', authenticateToken, async (req: AuthRequest, res)
 });
 
 // Get all KYC submissions (admin only)
-router.get('/admin/all', authenticateToken, async (req: AuthRequest, res) => {
+router.get('/admin/all', authenticateToken, requirePermission(PERMISSIONS.REVIEW_KYC), async (req: AuthRequest, res) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    // Check if user is admin
-    if (!['admin', 'super-admin'].includes(req.user.role)) {
-      return res.status(403).json({ error: 'Admin access required' });
-    }
-
     const { page = '1', limit = '20', status } = req.query;
     const pageNum = Number.parseInt(page as string);
     const limitNum = Number.parseInt(limit as string);
@@ -1,7 +1,8 @@
 import express from 'express';
 import { Pool } from 'mysql2/promise';
 import { KYCIntegrationService } from '../services/kycIntegrationService';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../models/permissionModel';
 import crypto from 'crypto';
 
 export const createKYCIntegrationRoutes = (db: Pool) => {
@@ -198,12 +199,8 @@ export const createKYCIntegrationRoutes = (db: Pool) => {
    * Admin: Get all pending verifications
    * GET /api/kyc/admin/pending
    */
-  router.get('/admin/pending', authenticateToken, async (req: AuthRequest, res) => {
+  router.get('/admin/pending', authenticateToken, requirePermission(PERMISSIONS.REVIEW_KYC), async (req: AuthRequest, res) => {
     try {
-      if (!req.user || !['admin', 'super-admin'].includes(req.user.role)) {
-        return res.status(403).json({ error: 'Admin access required' });
-      }
-
       const { limit = '50', offset = '0' } = req.query;
       const verifications = await kycService.getPendingVerifications(
         parseInt(limit as string),
@@ -228,12 +225,8 @@ export const createKYCIntegrationRoutes = (db: Pool) => {
    * Admin: Approve verification
    * POST /api/kyc/admin/approve/:verificationId
    */
-  router.post('/admin/approve/:verificationId', authenticateToken, async (req: AuthRequest, res) => {
+  router.post('/admin/approve/:verificationId', authenticateToken, requirePermission(PERMISSIONS.REVIEW_KYC), async (req: AuthRequest, res) => {
     try {
-      if (!req.user || !['admin', 'super-admin'].includes(req.user.role)) {
-        return res.status(403).json({ error: 'Admin access required' });
-      }
-
       const { verificationId } = req.params;
       const result = await kycService.approveVerification(verificationId);
 
@@ -253,12 +246,8 @@ export const createKYCIntegrationRoutes = (db: Pool) => {
     * Admin: Reject verification
     * POST /api/kyc/admin/reject/:verificationId
     */
-   router.post('/admin/reject/:verificationId', authenticateToken, async (req: AuthRequest, res) => {
+   router.post('/admin/reject/:verificationId', authenticateToken, requirePermission(PERMISSIONS.REVIEW_KYC), async (req: AuthRequest, res) => {
      try {
-       if (!req.user || !['admin', 'super-admin'].includes(req.user.role)) {
-         return res.status(403).json({ error: 'Admin access required' });
-       }
-
        const { verificationId } = req.params;
        const { reason } = req.body;
 
@@ -1,7 +1,8 @@
 import express from 'express';
 import { Pool } from 'mysql2/promise';
 import { KYCWalletService } from '../services/kycWalletService';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../models/permissionModel';
 
 export const createKYCWalletRoutes = (db: Pool) => {
   const router = express.Router();
@@ -196,17 +197,12 @@ export const createKYCWalletRoutes = (db: Pool) => {
    * Admin: Reject KYC submission
    * POST /api/kyc-wallet/admin/reject
    */
-  router.post('/admin/reject', authenticateToken, async (req: AuthRequest, res) => {
+  router.post('/admin/reject', authenticateToken, requirePermission(PERMISSIONS.REVIEW_KYC), async (req: AuthRequest, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ error: 'Unauthorized' });
       }
 
-      // Check if user is admin
-      if (!['admin', 'super-admin'].includes(req.user.role)) {
-        return res.status(403).json({ error: 'Admin access required' });
-      }
-
       const { userId, reason } = req.body;
 
       if (!userId || !reason) {
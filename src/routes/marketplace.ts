@@ -1,8 +1,9 @@
 import express from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { query } from '../utils/database';
+import { query, getPool } from '../utils/database';
 import { v4 as uuidv4 } from 'uuid';
 import { NotificationService } from '../services/notificationService';
+import { RealtimeEventService, REALTIME_EVENTS } from '../services/realtimeEventService';
 
 const router = express.Router();
 
@@ -143,6 +144,17 @@ router.post('/listings', authenticateToken, async (req: AuthRequest, res) => {
 
     const listing = listingResult[0];
 
+    await new RealtimeEventService(getPool()).publish(null, REALTIME_EVENTS.LISTING_CREATED, {
+      listingId,
+      propertyId,
+      propertyTitle: listing.property_title,
+      sellerId: req.user.id,
+      listingType,
+      price: listing.price,
+      currency: listing.currency,
+      endTime
+    });
+
     res.status(201).json({
       listing: {
         ...listing,
@@ -234,6 +246,15 @@ router.put('/listings/:id', authenticateToken, async (req: AuthRequest, res) =>
 
     const listing = updatedResult[0];
 
+    await new RealtimeEventService(getPool()).publish(null, REALTIME_EVENTS.LISTING_UPDATED, {
+      listingId: id,
+      propertyId: listing.property_id,
+      status: listing.status,
+      price: listing.price,
+      currency: listing.currency,
+      endTime: listing.end_time
+    });
+
     res.json({
       listing: {
         ...listing,
@@ -268,6 +289,11 @@ router.delete('/listings/:id', authenticateToken, async (req: AuthRequest, res)
 
     await query("UPDATE listings SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ?", [id]);
 
+    await new RealtimeEventService(getPool()).publish(null, REALTIME_EVENTS.LISTING_CANCELLED, {
+      listingId: id,
+      propertyId: listingResult[0].property_id
+    });
+
     res.json({ message: 'Listing cancelled successfully' });
   } catch (error) {
     console.error('Delete listing error:', error);
@@ -366,6 +392,11 @@ router.post('/bids', authenticateToken, async (req: AuthRequest, res) => {
     ]);
 
     // Update other bids to 'outbid' status
+    const outbidBidders = await query(`
+      SELECT DISTINCT bidder_id FROM bids
+      WHERE listing_id = ? AND id != ? AND status = 'active' AND bidder_id != ?
+    `, [listingId, bidId, req.user.id]);
+
     await query(`
       UPDATE bids SET status = 'outbid'
       WHERE listing_id = ? AND id != ? AND status = 'active'
@@ -384,12 +415,28 @@ router.post('/bids', authenticateToken, async (req: AuthRequest, res) => {
 
     const bid = bidResult[0];
 
+    const realtimeService = new RealtimeEventService(getPool());
+    await realtimeService.publish(null, REALTIME_EVENTS.BID_PLACED, {
+      bidId,
+      listingId,
+      amount,
+      currency
+    });
+    for (const { bidder_id } of outbidBidders) {
+      await realtimeService.publish(bidder_id, REALTIME_EVENTS.BID_OUTBID, {
+        listingId,
+        propertyTitle: bid.listing_title,
+        amount,
+        currency
+      });
+    }
+
     // Notify the property owner about the new bid
     try {
       await NotificationService.notifyBidReceived(
         listing.seller_id,
         req.user.name || req.user.address,
-        listing.property_title,
+        bid.listing_title,
         amount,
         listingId
       );
@@ -480,6 +527,14 @@ router.put('/bids/:id', authenticateToken, async (req: AuthRequest, res) => {
 
     const bid = updatedResult[0];
 
+    await new RealtimeEventService(getPool()).publish(null, REALTIME_EVENTS.BID_UPDATED, {
+      bidId: id,
+      listingId: bid.listing_id,
+      status: bid.status,
+      amount: bid.amount,
+      currency: bid.currency
+    });
+
     res.json({ bid });
   } catch (error) {
     console.error('Update bid error:', error);
@@ -508,6 +563,14 @@ router.delete('/bids/:id', authenticateToken, async (req: AuthRequest, res) => {
 
     await query("UPDATE bids SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP WHERE id = ?", [id]);
 
+    await new RealtimeEventService(getPool()).publish(null, REALTIME_EVENTS.BID_UPDATED, {
+      bidId: id,
+      listingId: bidResult[0].listing_id,
+      status: 'cancelled',
+      amount: bidResult[0].amount,
+      currency: bidResult[0].currency
+    });
+
     res.json({ message: 'Bid cancelled successfully' });
   } catch (error) {
     console.error('Delete bid error:', error);
@@ -1,22 +1,16 @@
 import express from 'express';
 import { mintingService } from '../services/mintingService';
-import { metadataService } from '../services/metadataService';
 import { tbaService } from '../services/tbaService';
 import { marketplaceRegistrationService } from '../services/marketplaceRegistrationService';
 import { distributionService } from '../services/distributionService';
 import { propertySyncService } from '../services/propertySyncService';
-import { query } from '../utils/database';
+import { query, getPool } from '../utils/database';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { TokenMetadataService } from '../services/tokenMetadataService';
+import { PERMISSIONS } from '../models/permissionModel';
 
 const router = express.Router();
 
-// Middleware to check admin/superadmin role
-const requireAdmin = (req: any, res: express.Response, next: express.NextFunction) => {
-  if (!req.user || (req.user.role !== 'admin' && req.user.role !== 'superadmin')) {
-    return res.status(403).json({ error: 'Admin access required' });
-  }
-  next();
-};
-
 // Rate limiting middleware for sensitive operations
 const rateLimit = (req: any, res: express.Response, next: express.NextFunction) => {
   // Simple in-memory rate limiting (use Redis in production)
@@ -60,7 +54,7 @@ router.get('/status/:propertyId', async (req, res) => {
 });
 
 // Trigger manual minting for approved property
-router.post('/mint/:propertyId', requireAdmin, rateLimit, async (req, res) => {
+router.post('/mint/:propertyId', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), rateLimit, async (req, res) => {
   try {
     const { propertyId } = req.params;
 
@@ -95,7 +89,7 @@ router.post('/mint/:propertyId', requireAdmin, rateLimit, async (req, res) => {
 });
 
 // Retry failed minting
-router.post('/retry/:propertyId', requireAdmin, async (req, res) => {
+router.post('/retry/:propertyId', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
   try {
     const { propertyId } = req.params;
     const result = await mintingService.retryMint(propertyId);
@@ -114,7 +108,7 @@ router.post('/retry/:propertyId', requireAdmin, async (req, res) => {
 });
 
 // Create TBA for minted token
-router.post('/tba/:tokenId', requireAdmin, async (req, res) => {
+router.post('/tba/:tokenId', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
   try {
     const { tokenId } = req.params;
 
@@ -143,7 +137,7 @@ router.post('/tba/:tokenId', requireAdmin, async (req, res) => {
 });
 
 // Initialize PolicyModule for TBA
-router.post('/policy/:tbaAddress', requireAdmin, async (req, res) => {
+router.post('/policy/:tbaAddress', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
   try {
     const { tbaAddress } = req.params;
     const config = req.body; // PolicyModuleConfig
@@ -162,7 +156,7 @@ router.post('/policy/:tbaAddress', requireAdmin, async (req, res) => {
 });
 
 // Register token with marketplace
-router.post('/marketplace/:tokenId', requireAdmin, async (req, res) => {
+router.post('/marketplace/:tokenId', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
   try {
     const { tokenId } = req.params;
     const { projectId } = req.body;
@@ -183,7 +177,7 @@ router.post('/marketplace/:tokenId', requireAdmin, async (req, res) => {
 });
 
 // Distribute initial shares
-router.post('/distribute/:propertyId', requireAdmin, async (req, res) => {
+router.post('/distribute/:propertyId', authenticateToken, requirePermission(PERMISSIONS.PROCESS_DISTRIBUTIONS), async (req, res) => {
   try {
     const { propertyId } = req.params;
     const { tokenId } = req.body;
@@ -214,7 +208,7 @@ router.get('/tba/:tbaAddress/balance/:tokenAddress', async (req, res) => {
 });
 
 // Generate withdrawal voucher
-router.post('/voucher', requireAdmin, rateLimit, async (req, res) => {
+router.post('/voucher', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), rateLimit, async (req, res) => {
   try {
     const { tbaAddress, recipient, amount, tokenAddress } = req.body;
 
@@ -263,7 +257,7 @@ router.post('/withdraw', rateLimit, async (req, res) => {
 });
 
 // Sync property status
-router.post('/sync/:propertyId', requireAdmin, async (req, res) => {
+router.post('/sync/:propertyId', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
   try {
     const { propertyId } = req.params;
     await propertySyncService.syncPropertyStatus(propertyId);
@@ -308,7 +302,7 @@ router.get('/shareholders/:propertyId', async (req, res) => {
 });
 
 // Manual event sync (admin only)
-router.post('/sync-events', requireAdmin, async (req, res) => {
+router.post('/sync-events', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
   try {
     await propertySyncService.syncEvents();
 
@@ -324,29 +318,68 @@ router.post('/sync-events', requireAdmin, async (req, res) => {
 });
 
 // Override metadata (admin only)
-router.put('/metadata/:propertyId', requireAdmin, async (req, res) => {
+// Body: the ERC-721 metadata document, or { metadata, reason }. Publishes a
+// new version and anchors it on-chain when the property is minted.
+router.put('/metadata/:propertyId', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req: AuthRequest, res) => {
   try {
     const { propertyId } = req.params;
-    const metadata = req.body;
-
-    // Upload new metadata to IPFS
-    const metadataURI = await metadataService.uploadMetadataToIPFS(metadata);
-
-    // Update property
-    await query(
-      'UPDATE properties SET metadata_hash = ? WHERE id = ?',
-      [metadataURI.replace('ipfs://', ''), propertyId]
+    const wrapped = req.body && typeof req.body.metadata === 'object' && req.body.metadata !== null;
+    const metadata = wrapped ? req.body.metadata : req.body;
+
+    const version = await new TokenMetadataService(getPool()).publish(
+      propertyId,
+      metadata,
+      req.user!.id,
+      wrapped ? req.body.reason : undefined
     );
 
     res.json({
       success: true,
-      metadataURI
+      metadataURI: version.uri,
+      version
     });
 
   } catch (error: any) {
+    if (error.message === 'Property not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.startsWith('Invalid metadata')) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Metadata override error:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// Rebuild metadata from the property's current data and publish it as a new version
+router.post('/metadata/:propertyId/refresh', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req: AuthRequest, res) => {
+  try {
+    const version = await new TokenMetadataService(getPool()).publish(req.params.propertyId, null, req.user!.id, req.body?.reason);
+    res.json({ success: true, metadataURI: version.uri, version });
+  } catch (error: any) {
+    if (error.message === 'Property not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Metadata refresh error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Retry anchoring a version on-chain after a failed updateMetadata call
+router.post('/metadata/:propertyId/versions/:version/submit', authenticateToken, requirePermission(PERMISSIONS.MINT_PROPERTIES), async (req, res) => {
+  try {
+    const version = await new TokenMetadataService(getPool()).resubmit(req.params.propertyId, Number(req.params.version));
+    res.json({ success: version.chain.status === 'confirmed', version });
+  } catch (error: any) {
+    if (error.message === 'Metadata version not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.startsWith('Invalid state')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Metadata resubmit error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
\ No newline at end of file
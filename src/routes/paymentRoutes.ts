@@ -5,11 +5,12 @@ import { Router, Request, Response } from 'express';
 import { SubscriptionController } from '../controllers/subscriptionController';
 import { Pool } from 'mysql2/promise';
 import { PaymentGatewayService } from '../services/paymentGatewayService';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { idempotent } from '../middleware/idempotency';
 
 export function createPaymentRoutes(db: Pool): Router {
   const router = Router();
   const subscriptionController = new SubscriptionController(db);
-  const paymentGatewayService = new PaymentGatewayService(db);
 
   // ==================== ALLOTMENT MANAGEMENT ====================
 
@@ -74,108 +75,9 @@ export function createPaymentRoutes(db: Pool): Router {
     subscriptionController.setupTransferAccount(req, res)
   );
 
-  // ==================== STRIPE PAYMENT ====================
-
-  /**
-   * POST /api/payments/stripe/intent
-   * Create Stripe Payment Intent
-   */
-  router.post('/api/payments/stripe/intent', async (req: Request, res: Response) => {
-    try {
-      const { amount, currency, metadata } = req.body;
-
-      if (!amount || !currency) {
-        res.status(400).json({
-          success: false,
-          message: 'Missing required fields: amount, currency'
-        });
-        return;
-      }
-
-      const paymentIntent = await paymentGatewayService.createStripePaymentIntent(
-        amount,
-        currency,
-        metadata
-      );
-
-      res.status(200).json({
-        success: true,
-        data: paymentIntent
-      });
-    } catch (error) {
-      console.error('Stripe intent creation error:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Failed to create payment intent',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
-
-  /**
-   * POST /api/payments/stripe/verify
-   * Verify Stripe payment
-   */
-  router.post('/api/payments/stripe/verify', async (req: Request, res: Response) => {
-    try {
-      const { transactionId } = req.body;
-
-      const verified = await paymentGatewayService.verifyPaymentStatus(
-        transactionId,
-        'STRIPE'
-      );
-
-      res.status(200).json({
-        success: true,
-        verified
-      });
-    } catch (error) {
-      console.error('Payment verification error:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Failed to verify payment'
-      });
-    }
-  });
-
   // ==================== EWAY PAYMENT ====================
 
-  /**
-   * POST /api/payments/eway/token
-   * Create Eway payment token for stored payments
-   */
-  router.post('/api/payments/eway/token', async (req: Request, res: Response) => {
-    try {
-      const { customerName, cardNumber, expiryMonth, expiryYear } = req.body;
-
-      if (!customerName || !cardNumber || !expiryMonth || !expiryYear) {
-        res.status(400).json({
-          success: false,
-          message: 'Missing required fields: customerName, cardNumber, expiryMonth, expiryYear'
-        });
-        return;
-      }
-
-      const tokenId = await paymentGatewayService.createEwayPaymentToken(
-        customerName,
-        cardNumber,
-        expiryMonth,
-        expiryYear
-      );
-
-      res.status(200).json({
-        success: true,
-        data: { tokenCustomerID: tokenId }
-      });
-    } catch (error) {
-      console.error('Eway token creation error:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Failed to create payment token',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
+  // Token creation is served by createPaymentGatewayRoutes
 
   /**
    * POST /api/payments/eway/callback
@@ -198,41 +100,7 @@ export function createPaymentRoutes(db: Pool): Router {
 
   // ==================== POLI PAYMENT ====================
 
-  /**
-   * POST /api/payments/poli/initiate
-   * Initiate POLi payment (returns redirect URL)
-   */
-  router.post('/api/payments/poli/initiate', async (req: Request, res: Response) => {
-    try {
-      const { amount, currency, merchantReference } = req.body;
-
-      if (!amount || !currency || !merchantReference) {
-        res.status(400).json({
-          success: false,
-          message: 'Missing required fields: amount, currency, merchantReference'
-        });
-        return;
-      }
-
-      const redirectUrl = await paymentGatewayService.initiatePOLiPayment(
-        amount,
-        currency,
-        merchantReference
-      );
-
-      res.status(200).json({
-        success: true,
-        data: { redirectUrl }
-      });
-    } catch (error) {
-      console.error('POLi initiation error:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Failed to initiate POLi payment',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
+  // Initiation is served by createPaymentGatewayRoutes
 
   /**
    * POST /api/payments/poli/notification
@@ -474,3 +342,149 @@ export function createPaymentRoutes(db: Pool): Router {
 
   return router;
 }
+
+/**
+ * Gateway payment endpoints that move money, mounted at /api/payments. They
+ * need a signed-in user so Idempotency-Key retries are scoped to them.
+ */
+export function createPaymentGatewayRoutes(db: Pool): Router {
+  const router = Router();
+  const paymentGatewayService = new PaymentGatewayService(db);
+
+  /**
+   * POST /api/payments/stripe/intent
+   * Create Stripe Payment Intent
+   */
+  router.post('/stripe/intent', authenticateToken, idempotent, async (req: AuthRequest, res: Response) => {
+    try {
+      const { amount, currency, metadata } = req.body;
+
+      if (!amount || !currency) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields: amount, currency'
+        });
+        return;
+      }
+
+      const paymentIntent = await paymentGatewayService.createStripePaymentIntent(
+        amount,
+        currency,
+        metadata
+      );
+
+      res.status(200).json({
+        success: true,
+        data: paymentIntent
+      });
+    } catch (error) {
+      console.error('Stripe intent creation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create payment intent',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * POST /api/payments/stripe/verify
+   * Verify Stripe payment
+   */
+  router.post('/stripe/verify', authenticateToken, idempotent, async (req: AuthRequest, res: Response) => {
+    try {
+      const { transactionId } = req.body;
+
+      const verified = await paymentGatewayService.verifyPaymentStatus(
+        transactionId,
+        'STRIPE'
+      );
+
+      res.status(200).json({
+        success: true,
+        verified
+      });
+    } catch (error) {
+      console.error('Payment verification error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to verify payment'
+      });
+    }
+  });
+
+  /**
+   * POST /api/payments/eway/token
+   * Create Eway payment token for stored payments
+   */
+  router.post('/eway/token', authenticateToken, idempotent, async (req: AuthRequest, res: Response) => {
+    try {
+      const { customerName, cardNumber, expiryMonth, expiryYear } = req.body;
+
+      if (!customerName || !cardNumber || !expiryMonth || !expiryYear) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields: customerName, cardNumber, expiryMonth, expiryYear'
+        });
+        return;
+      }
+
+      const tokenId = await paymentGatewayService.createEwayPaymentToken(
+        customerName,
+        cardNumber,
+        expiryMonth,
+        expiryYear
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { tokenCustomerID: tokenId }
+      });
+    } catch (error) {
+      console.error('Eway token creation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to create payment token',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  /**
+   * POST /api/payments/poli/initiate
+   * Initiate POLi payment (returns redirect URL)
+   */
+  router.post('/poli/initiate', authenticateToken, idempotent, async (req: AuthRequest, res: Response) => {
+    try {
+      const { amount, currency, merchantReference } = req.body;
+
+      if (!amount || !currency || !merchantReference) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields: amount, currency, merchantReference'
+        });
+        return;
+      }
+
+      const redirectUrl = await paymentGatewayService.initiatePOLiPayment(
+        amount,
+        currency,
+        merchantReference
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { redirectUrl }
+      });
+    } catch (error) {
+      console.error('POLi initiation error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Failed to initiate POLi payment',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  return router;
+}
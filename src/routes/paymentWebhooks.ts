@@ -0,0 +1,38 @@
+import express from 'express';
+import { Pool } from 'mysql2/promise';
+import { PaymentGatewayService } from '../services/paymentGatewayService';
+import { RawBodyRequest, getRawBody } from '../middleware/rawBody';
+
+/**
+ * Gateway webhooks: POST /api/payments/webhooks/:gateway (stripe, eway,
+ * poli, sandbox). Deliveries are verified by the gateway's provider before
+ * they move a payment.
+ */
+export const createPaymentWebhookRoutes = (db: Pool) => {
+  const router = express.Router();
+  const paymentGatewayService = new PaymentGatewayService(db);
+
+  // JSON arrives through the global parser with rawBody kept; form posts from eWAY and POLi are read raw here
+  const rawWebhook = express.raw({ type: () => true, limit: '1mb' });
+
+  router.post('/:gateway', rawWebhook, async (req: RawBodyRequest, res) => {
+    try {
+      const result = await paymentGatewayService.handleWebhook(req.params.gateway, getRawBody(req), req.headers);
+      res.json({ received: true, ...result });
+    } catch (error: any) {
+      if (/^(Invalid signature|Invalid webhook payload)/.test(error.message)) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error.message === 'Payment not found' || error.message.startsWith('Unsupported payment gateway')) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error.message.startsWith('Invalid state')) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error(`${req.params.gateway} webhook error:`, error);
+      res.status(500).json({ error: 'Webhook processing failed' });
+    }
+  });
+
+  return router;
+};
@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { SubscriptionController } from '../controllers/subscriptionController';
 import { Pool } from 'mysql2/promise';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../models/permissionModel';
+import { idempotent } from '../middleware/idempotency';
 
 export const createSubscriptionRoutes = (db: Pool) => {
     const router = Router();
@@ -26,13 +28,18 @@ export const createSubscriptionRoutes = (db: Pool) => {
     router.post('/properties/:id/subscribe-wallet', authenticateToken, (req: AuthRequest, res) => subscriptionController.subscribeWithWallet(req, res));
     router.get('/wallet', authenticateToken, (req: AuthRequest, res) => subscriptionController.getWalletSubscriptions(req, res));
     
+    // Cancellation and refunds, by the subscriber or a manage_payments holder
+    router.post('/:subscriptionId/cancel', authenticateToken, (req: AuthRequest, res) => subscriptionController.cancelSubscription(req, res));
+    router.post('/:subscriptionId/refunds', authenticateToken, (req: AuthRequest, res) => subscriptionController.requestRefund(req, res));
+    router.get('/:subscriptionId/refunds', authenticateToken, (req: AuthRequest, res) => subscriptionController.getRefunds(req, res));
+    
     // ROI Disbursement routes
-    router.post('/disburse', (req, res) => subscriptionController.disburseROI(req, res));
+    router.post('/disburse', authenticateToken, requirePermission(PERMISSIONS.PROCESS_DISTRIBUTIONS), idempotent, (req: AuthRequest, res) => subscriptionController.disburseROI(req, res));
     router.get('/disbursements/:userId', authenticateToken, (req: AuthRequest, res) => subscriptionController.getUserDisbursements(req, res));
-    router.post('/disburse-wallet', authenticateToken, (req: AuthRequest, res) => subscriptionController.disburseToWallet(req, res));
+    router.post('/disburse-wallet', authenticateToken, idempotent, (req: AuthRequest, res) => subscriptionController.disburseToWallet(req, res));
     
     // Batch ROI disbursement to in-app wallets (NEW)
-    router.post('/disburse-to-wallets/:propertyId', authenticateToken, (req: AuthRequest, res) => subscriptionController.disburseBatchToWallets(req, res));
+    router.post('/disburse-to-wallets/:propertyId', authenticateToken, idempotent, (req: AuthRequest, res) => subscriptionController.disburseBatchToWallets(req, res));
 
     return router;
 };
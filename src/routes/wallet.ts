@@ -1,7 +1,10 @@
 import express from 'express';
 import { Pool } from 'mysql2/promise';
 import { WalletController } from '../controllers/walletController';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, requirePermission, AuthRequest } from '../middleware/auth';
+import { PERMISSIONS } from '../models/permissionModel';
+import { idempotent } from '../middleware/idempotency';
+import { requireStepUp } from '../middleware/twoFactor';
 
 export const createWalletRoutes = (db: Pool) => {
   const router = express.Router();
@@ -36,32 +39,32 @@ export const createWalletRoutes = (db: Pool) => {
     walletController.initiateDeposit(req, res)
   );
 
-  // Confirm a deposit was received
-  router.post('/deposit/confirm', authenticateToken, (req: AuthRequest, res) =>
+  // Confirm a deposit was received: the depositor with a verifiable on-chain transfer, or a payments manager
+  router.post('/deposit/confirm', authenticateToken, idempotent, (req: AuthRequest, res) =>
     walletController.confirmDeposit(req, res)
   );
 
   // ========== Withdrawals ==========
 
   // Request a withdrawal (requires KYC if not verified)
-  router.post('/withdraw/request', authenticateToken, (req: AuthRequest, res) =>
+  router.post('/withdraw/request', authenticateToken, requireStepUp(), idempotent, (req: AuthRequest, res) =>
     walletController.requestWithdrawal(req, res)
   );
 
   // Admin: Approve a withdrawal
-  router.post('/withdraw/approve', authenticateToken, (req: AuthRequest, res) =>
+  router.post('/withdraw/approve', authenticateToken, requirePermission(PERMISSIONS.MANAGE_PAYMENTS), (req: AuthRequest, res) =>
     walletController.approveWithdrawal(req, res)
   );
 
   // Admin: Reject a withdrawal
-  router.post('/withdraw/reject', authenticateToken, (req: AuthRequest, res) =>
+  router.post('/withdraw/reject', authenticateToken, requirePermission(PERMISSIONS.MANAGE_PAYMENTS), (req: AuthRequest, res) =>
     walletController.rejectWithdrawal(req, res)
   );
 
   // ========== Transfers ==========
 
   // Transfer USDC between in-app wallets
-  router.post('/transfer', authenticateToken, (req: AuthRequest, res) =>
+  router.post('/transfer', authenticateToken, idempotent, (req: AuthRequest, res) =>
     walletController.transferBetweenWallets(req, res)
   );
 
@@ -77,10 +80,20 @@ export const createWalletRoutes = (db: Pool) => {
     walletController.getTransactionSummary(req, res)
   );
 
+  // Get ledger postings backing the wallet balance
+  router.get('/ledger', authenticateToken, (req: AuthRequest, res) =>
+    walletController.getLedgerStatement(req, res)
+  );
+
+  // Get platform trial balance (admin only)
+  router.get('/ledger/trial-balance', authenticateToken, requirePermission(PERMISSIONS.VIEW_REPORTS), (req: AuthRequest, res) =>
+    walletController.getTrialBalance(req, res)
+  );
+
   // ========== External Wallet Withdrawal ==========
 
   // Withdraw to external wallet
-  router.post('/withdraw-external', authenticateToken, (req: AuthRequest, res) =>
+  router.post('/withdraw-external', authenticateToken, requireStepUp(), (req: AuthRequest, res) =>
     walletController.withdrawToExternalWallet(req, res)
   );
 
@@ -102,7 +115,7 @@ export const createWalletRoutes = (db: Pool) => {
   // ========== Wallet Linking ==========
 
   // Link external wallet
-  router.post('/link-external', authenticateToken, (req: AuthRequest, res) =>
+  router.post('/link-external', authenticateToken, requireStepUp(), (req: AuthRequest, res) =>
     walletController.linkExternalWallet(req, res)
   );
 
@@ -0,0 +1,76 @@
+import { Pool } from 'mysql2/promise';
+import { connectDB, getPool } from '../utils/database';
+import { AnalyticsService } from '../services/analyticsService';
+
+/**
+ * Keeps today's analytics snapshot current and closes off yesterday's once
+ * the day is over. ANALYTICS_SNAPSHOT_INTERVAL_MINUTES sets how often
+ * (default 60).
+ */
+export class AnalyticsSnapshotJob {
+  private timeoutId?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(private pool: Pool) {}
+
+  start(): void {
+    if (this.timeoutId) {
+      console.log('Analytics snapshot job already scheduled');
+      return;
+    }
+    this.scheduleNext(0);
+  }
+
+  stop(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+  }
+
+  async runOnce() {
+    if (this.isRunning) {
+      return null;
+    }
+
+    this.isRunning = true;
+    try {
+      const captured = await new AnalyticsService(this.pool).captureRecent();
+      console.log(`Analytics snapshots captured for ${captured.join(', ')}`);
+      return captured;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private scheduleNext(delayMs?: number): void {
+    const intervalMinutes = parseInt(process.env.ANALYTICS_SNAPSHOT_INTERVAL_MINUTES || '60');
+
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Analytics snapshot run failed:', error);
+      }
+      this.scheduleNext();
+    }, delayMs ?? intervalMinutes * 60 * 1000);
+  }
+}
+
+// Run once if called directly; pass FROM and TO dates (YYYY-MM-DD) to backfill
+if (require.main === module) {
+  const [from, to] = process.argv.slice(2);
+
+  connectDB()
+    .then(() => from
+      ? new AnalyticsService(getPool()).backfill(from, to || from)
+      : new AnalyticsSnapshotJob(getPool()).runOnce())
+    .then(() => {
+      console.log('✅ Analytics snapshots complete');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Analytics snapshots failed:', error);
+      process.exit(1);
+    });
+}
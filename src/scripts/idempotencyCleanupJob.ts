@@ -0,0 +1,74 @@
+import { Pool, ResultSetHeader } from 'mysql2/promise';
+import { connectDB, getPool } from '../utils/database';
+import { idempotencyQueries, IDEMPOTENCY_KEY_TTL_HOURS } from '../models/idempotencyModel';
+
+/**
+ * Deletes Idempotency-Key records older than IDEMPOTENCY_KEY_TTL_HOURS,
+ * which can no longer be replayed.
+ * IDEMPOTENCY_CLEANUP_INTERVAL_MINUTES sets how often (default 60).
+ */
+export class IdempotencyCleanupJob {
+  private timeoutId?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(private pool: Pool) {}
+
+  start(): void {
+    if (this.timeoutId) {
+      console.log('Idempotency cleanup job already scheduled');
+      return;
+    }
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+  }
+
+  async runOnce(): Promise<number | null> {
+    if (this.isRunning) {
+      return null;
+    }
+
+    this.isRunning = true;
+    try {
+      const [result] = await this.pool.execute<ResultSetHeader>(idempotencyQueries.deleteExpired, [IDEMPOTENCY_KEY_TTL_HOURS]);
+      if (result.affectedRows > 0) {
+        console.log(`Idempotency cleanup: removed ${result.affectedRows} expired keys`);
+      }
+      return result.affectedRows;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private scheduleNext(): void {
+    const intervalMinutes = parseInt(process.env.IDEMPOTENCY_CLEANUP_INTERVAL_MINUTES || '60');
+
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Idempotency cleanup run failed:', error);
+      }
+      this.scheduleNext();
+    }, intervalMinutes * 60 * 1000);
+  }
+}
+
+// Run a single pass if called directly (e.g. from cron)
+if (require.main === module) {
+  connectDB()
+    .then(() => new IdempotencyCleanupJob(getPool()).runOnce())
+    .then(() => {
+      console.log('✅ Idempotency cleanup complete');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Idempotency cleanup failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,80 @@
+import { Pool } from 'mysql2/promise';
+import { connectDB, getPool } from '../utils/database';
+import { NotificationDeliveryService } from '../services/notificationDeliveryService';
+
+/**
+ * Retries pending email and webhook deliveries that are due and sends
+ * digests whose time has come.
+ * NOTIFICATION_RETRY_INTERVAL_SECONDS sets how often (default 60s).
+ */
+export class NotificationRetryJob {
+  private timeoutId?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(private pool: Pool) {}
+
+  start(): void {
+    if (this.timeoutId) {
+      console.log('Notification retry job already scheduled');
+      return;
+    }
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+  }
+
+  async runOnce() {
+    if (this.isRunning) {
+      return null;
+    }
+
+    this.isRunning = true;
+    try {
+      const deliveryService = new NotificationDeliveryService(this.pool);
+      const result = await deliveryService.processDueDeliveries();
+      if (result.attempted > 0) {
+        console.log(`Notification retries: ${result.delivered}/${result.attempted} delivered`);
+      }
+
+      const digests = await deliveryService.processDueDigests();
+      if (digests.digests > 0) {
+        console.log(`Notification digests: ${digests.digests} sent covering ${digests.notifications} notifications`);
+      }
+      return { ...result, ...digests };
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private scheduleNext(): void {
+    const intervalSeconds = parseInt(process.env.NOTIFICATION_RETRY_INTERVAL_SECONDS || '60');
+
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Notification retry run failed:', error);
+      }
+      this.scheduleNext();
+    }, intervalSeconds * 1000);
+  }
+}
+
+// Run a single pass if called directly (e.g. from cron)
+if (require.main === module) {
+  connectDB()
+    .then(() => new NotificationRetryJob(getPool()).runOnce())
+    .then(() => {
+      console.log('✅ Notification retries complete');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Notification retries failed:', error);
+      process.exit(1);
+    });
+}
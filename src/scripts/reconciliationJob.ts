@@ -0,0 +1,80 @@
+import { Pool } from 'mysql2/promise';
+import { connectDB, getPool } from '../utils/database';
+import { ReconciliationService } from '../services/reconciliationService';
+
+/**
+ * Runs wallet and disbursement reconciliation once a night.
+ * RECONCILIATION_HOUR_UTC picks the hour (default 02:00 UTC).
+ */
+export class ReconciliationJob {
+  private timeoutId?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+
+  constructor(private pool: Pool) {}
+
+  start(): void {
+    if (this.timeoutId) {
+      console.log('Reconciliation job already scheduled');
+      return;
+    }
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = undefined;
+    }
+  }
+
+  async runOnce(triggeredBy: string = 'scheduler') {
+    if (this.isRunning) {
+      console.log('Reconciliation already in progress, skipping');
+      return null;
+    }
+
+    this.isRunning = true;
+    try {
+      const summary = await new ReconciliationService(this.pool).runReconciliation(triggeredBy);
+      console.log(
+        `Reconciliation ${summary.runId}: ${summary.walletsChecked} wallets, ` +
+        `${summary.disbursementsChecked} disbursements, ${summary.discrepanciesFound} discrepancies`
+      );
+      return summary;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private scheduleNext(): void {
+    const hour = parseInt(process.env.RECONCILIATION_HOUR_UTC || '2');
+    const now = new Date();
+    const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour, 0, 0));
+    if (next <= now) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+
+    this.timeoutId = setTimeout(async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Nightly reconciliation failed:', error);
+      }
+      this.scheduleNext();
+    }, next.getTime() - now.getTime());
+  }
+}
+
+// Run a single pass if called directly (e.g. from cron)
+if (require.main === module) {
+  connectDB()
+    .then(() => new ReconciliationJob(getPool()).runOnce('cli'))
+    .then(() => {
+      console.log('✅ Reconciliation complete');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Reconciliation failed:', error);
+      process.exit(1);
+    });
+}
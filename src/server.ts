@@ -5,6 +5,7 @@ import express from 'express';
 import cors from 'cors';
 import { Pool } from 'mysql2/promise';
 import { connectDB, getPool } from './utils/database'; // Import connectDB
+import { captureRawBody } from './middleware/rawBody';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -15,10 +16,14 @@ import kycRoutes from './routes/kyc';
 import mintingRoutes from './routes/minting';
 import paymentsRoutes from './routes/payments';
 import adminRoutes from './routes/admin';
+import eventsRoutes from './routes/events';
 import { createSubscriptionRoutes } from './routes/subscription';
 import { createWalletRoutes } from './routes/wallet';
 import { createWalletTransactionRoutes } from './routes/walletTransactions';
 import { createKYCWalletRoutes } from './routes/kycWallet';
+import { createDataRoomRoutes } from './routes/dataRoom';
+import { createPaymentWebhookRoutes } from './routes/paymentWebhooks';
+import { createPaymentGatewayRoutes } from './routes/paymentRoutes';
 import { 
     notifications, 
     metadata, 
@@ -29,12 +34,39 @@ import {
     investments 
 } from './routes/index';
 import { createSubscriptionsTables } from './migrations/create-subscriptions-tables';
+import { createLedgerTables } from './migrations/create-ledger-tables';
+import { createIdempotencyKeysTable } from './migrations/create-idempotency-keys-table';
+import { createReconciliationTables } from './migrations/create-reconciliation-tables';
+import { createWithdrawalLimitTables } from './migrations/create-withdrawal-limit-tables';
+import { createWithdrawalFeeTables } from './migrations/create-withdrawal-fee-tables';
+import { createWalletAssetColumns } from './migrations/create-wallet-asset-columns';
+import { createAuthSessionsTable } from './migrations/create-auth-sessions-table';
+import { createSiweNoncesTable } from './migrations/create-siwe-nonces-table';
+import { createPermissionTables } from './migrations/create-permission-tables';
+import { createTwoFactorTables } from './migrations/create-two-factor-tables';
+import { createNotificationDeliveryTables } from './migrations/create-notification-delivery-tables';
+import { createRealtimeEventsTable } from './migrations/create-realtime-events-table';
+import { createNotificationTemplateTables } from './migrations/create-notification-template-tables';
+import { createNotificationScheduleTables } from './migrations/create-notification-schedule-tables';
+import { createAnalyticsSnapshotTables } from './migrations/create-analytics-snapshot-tables';
+import { createTaxStatementTables } from './migrations/create-tax-statement-tables';
+import { createDataRoomTables } from './migrations/create-data-room-tables';
+import { createTokenMetadataTables } from './migrations/create-token-metadata-tables';
+import { createPaymentStateTables } from './migrations/create-payment-state-tables';
+import { createBankStatementTables } from './migrations/create-bank-statement-tables';
+import { createRefundTables } from './migrations/create-refund-tables';
+import { createDisputeTables } from './migrations/create-dispute-tables';
+import { ReconciliationJob } from './scripts/reconciliationJob';
+import { NotificationRetryJob } from './scripts/notificationRetryJob';
+import { AnalyticsSnapshotJob } from './scripts/analyticsSnapshotJob';
+import { IdempotencyCleanupJob } from './scripts/idempotencyCleanupJob';
 
 const app = express();
 const port = process.env.PORT || 5000;
 
 app.use(cors());
-app.use(express.json());
+// rawBody is kept for webhook signature checks
+app.use(express.json({ verify: captureRawBody }));
 
 let db: Pool;
 
@@ -47,6 +79,28 @@ async function startServer() {
         // Run migrations to create necessary tables
         try {
             await createSubscriptionsTables();
+            await createLedgerTables(db);
+            await createIdempotencyKeysTable();
+            await createReconciliationTables(db);
+            await createWithdrawalLimitTables(db);
+            await createWithdrawalFeeTables(db);
+            await createWalletAssetColumns(db);
+            await createAuthSessionsTable(db);
+            await createSiweNoncesTable(db);
+            await createPermissionTables(db);
+            await createTwoFactorTables(db);
+            await createNotificationDeliveryTables(db);
+            await createRealtimeEventsTable(db);
+            await createNotificationTemplateTables(db);
+            await createNotificationScheduleTables(db);
+            await createAnalyticsSnapshotTables(db);
+            await createTaxStatementTables(db);
+            await createDataRoomTables(db);
+            await createTokenMetadataTables(db);
+            await createPaymentStateTables(db);
+            await createBankStatementTables(db);
+            await createRefundTables(db);
+            await createDisputeTables(db);
         } catch (migrationError) {
             console.warn('Migration warning (tables may already exist):', migrationError instanceof Error ? migrationError.message : 'Unknown error');
             // Continue anyway - tables might already exist
@@ -54,14 +108,18 @@ async function startServer() {
 
         // Setup routes
         app.use('/api/auth', authRoutes);
+        app.use('/api/properties/:propertyId/documents', createDataRoomRoutes(db));
         app.use('/api/properties', propertiesRoutes);
         app.use('/api/marketplace', marketplaceRoutes);
         app.use('/api/escrow', escrowRoutes);
         app.use('/api/kyc', kycRoutes);
         app.use('/api/minting', mintingRoutes);
+        app.use('/api/payments/webhooks', createPaymentWebhookRoutes(db));
+        app.use('/api/payments', createPaymentGatewayRoutes(db));
         app.use('/api/payments', paymentsRoutes);
         app.use('/api/admin', adminRoutes);
         app.use('/api/notifications', notifications);
+        app.use('/api/events', eventsRoutes);
         app.use('/api/metadata', metadata);
         app.use('/api/vouchers', vouchers);
         app.use('/api/blockchain', blockchain);
@@ -73,6 +131,26 @@ async function startServer() {
         app.use('/api/kyc-wallet', createKYCWalletRoutes(db)); // Pass the initialized db pool
         app.use('/api/subscriptions', createSubscriptionRoutes(db)); // Pass the initialized db pool
 
+        // Nightly wallet and disbursement reconciliation
+        if (process.env.RECONCILIATION_JOB_ENABLED !== 'false') {
+            new ReconciliationJob(db).start();
+        }
+
+        // Email and webhook notification retries
+        if (process.env.NOTIFICATION_RETRY_JOB_ENABLED !== 'false') {
+            new NotificationRetryJob(db).start();
+        }
+
+        // Daily analytics snapshots, refreshed through the day
+        if (process.env.ANALYTICS_SNAPSHOT_JOB_ENABLED !== 'false') {
+            new AnalyticsSnapshotJob(db).start();
+        }
+
+        // Expired Idempotency-Key records
+        if (process.env.IDEMPOTENCY_CLEANUP_JOB_ENABLED !== 'false') {
+            new IdempotencyCleanupJob(db).start();
+        }
+
         app.listen(port, () => {
             console.log(`Server is running on http://localhost:${port}`);
         });
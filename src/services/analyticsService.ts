@@ -0,0 +1,517 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import {
+  AnalyticsSnapshotModel,
+  PlatformSnapshot,
+  PropertySnapshot,
+  CurrencyAmounts
+} from '../models/analyticsSnapshotModel';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+interface MetricDefinition {
+  column: string;
+  // Levels report the bucket's last snapshot; daily flows are summed
+  aggregate: 'last' | 'sum';
+}
+
+const PLATFORM_METRICS: Record<string, MetricDefinition> = {
+  totalAUM: { column: 'total_aum', aggregate: 'last' },
+  totalProperties: { column: 'total_properties', aggregate: 'last' },
+  activeListings: { column: 'active_listings', aggregate: 'last' },
+  activeListingVolume: { column: 'active_listing_volume', aggregate: 'last' },
+  avgActivePrice: { column: 'avg_active_price', aggregate: 'last' },
+  activeBids: { column: 'active_bids', aggregate: 'last' },
+  bidsPlaced: { column: 'bids_placed', aggregate: 'sum' },
+  bidVolume: { column: 'bid_volume', aggregate: 'sum' },
+  totalUsers: { column: 'total_users', aggregate: 'last' },
+  newUsers: { column: 'new_users', aggregate: 'sum' },
+  activeSubscribers: { column: 'active_subscribers', aggregate: 'last' },
+  subscribedByCurrency: { column: 'subscribed_by_currency', aggregate: 'last' },
+  disbursedByCurrency: { column: 'disbursed_by_currency', aggregate: 'sum' }
+};
+
+const PROPERTY_METRICS: Record<string, MetricDefinition> = {
+  assessedValue: { column: 'assessed_value', aggregate: 'last' },
+  activeListings: { column: 'active_listings', aggregate: 'last' },
+  lowestActivePrice: { column: 'lowest_active_price', aggregate: 'last' },
+  bidsPlaced: { column: 'bids_placed', aggregate: 'sum' },
+  bidVolume: { column: 'bid_volume', aggregate: 'sum' },
+  activeSubscribers: { column: 'active_subscribers', aggregate: 'last' },
+  subscribedShare: { column: 'subscribed_share', aggregate: 'last' },
+  subscribedByCurrency: { column: 'subscribed_by_currency', aggregate: 'last' },
+  disbursedByCurrency: { column: 'disbursed_by_currency', aggregate: 'sum' }
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 731;
+const MAX_BACKFILL_DAYS = 366;
+const DEFAULT_RANGE_DAYS: Record<Granularity, number> = { day: 30, week: 12 * 7, month: 365 };
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+const parseDate = (value: string): Date => new Date(`${value}T00:00:00Z`);
+const addDays = (value: string, days: number): string => toDateString(new Date(parseDate(value).getTime() + days * DAY_MS));
+
+const bucketStart = (value: string, granularity: Granularity): string => {
+  if (granularity === 'month') return `${value.slice(0, 7)}-01`;
+  if (granularity === 'week') {
+    const weekday = (parseDate(value).getUTCDay() + 6) % 7; // Monday = 0
+    return addDays(value, -weekday);
+  }
+  return value;
+};
+
+const nextBucket = (start: string, granularity: Granularity): string => {
+  if (granularity === 'month') {
+    const date = parseDate(start);
+    return toDateString(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)));
+  }
+  return addDays(start, granularity === 'week' ? 7 : 1);
+};
+
+const amountsByCurrency = (rows: RowDataPacket[], key: string = 'currency'): CurrencyAmounts =>
+  Object.fromEntries(rows.map(row => [row[key], Number(row.amount)]));
+
+const addAmounts = (total: CurrencyAmounts, amounts: CurrencyAmounts): CurrencyAmounts => {
+  for (const [currency, amount] of Object.entries(amounts)) {
+    total[currency] = (total[currency] || 0) + amount;
+  }
+  return total;
+};
+
+/**
+ * Daily platform and per-property metrics, captured into snapshot tables so
+ * dashboards and charts read a handful of rows instead of aggregating the
+ * live tables on every request
+ */
+export class AnalyticsService {
+  private snapshotModel: AnalyticsSnapshotModel;
+
+  constructor(private pool: Pool) {
+    this.snapshotModel = new AnalyticsSnapshotModel(pool);
+  }
+
+  static today(): string {
+    return toDateString(new Date());
+  }
+
+  // ========== Capture ==========
+
+  /**
+   * Record the platform and property snapshots for one UTC day. Levels are
+   * taken as of the end of the day from creation dates, so a backfilled day
+   * still reflects each row's current status.
+   */
+  async captureDay(snapshotDate: string): Promise<{ snapshotDate: string; properties: number }> {
+    this.assertDate(snapshotDate, 'date');
+    const dayStart = parseDate(snapshotDate);
+    const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+
+    const platform = await this.computePlatformSnapshot(snapshotDate, dayStart, dayEnd);
+    const properties = await this.computePropertySnapshots(snapshotDate, dayStart, dayEnd);
+
+    await this.snapshotModel.upsertPlatformSnapshot(platform);
+    await this.snapshotModel.upsertPropertySnapshots(properties);
+    return { snapshotDate, properties: properties.length };
+  }
+
+  /**
+   * Refresh today's snapshot, and yesterday's if it was last captured before
+   * the day was over
+   */
+  async captureRecent(): Promise<string[]> {
+    const today = AnalyticsService.today();
+    const yesterday = addDays(today, -1);
+    const captured: string[] = [];
+
+    const yesterdayCapturedAt = await this.snapshotModel.getCapturedAt(yesterday);
+    if (!yesterdayCapturedAt || yesterdayCapturedAt < parseDate(today)) {
+      await this.captureDay(yesterday);
+      captured.push(yesterday);
+    }
+
+    await this.captureDay(today);
+    captured.push(today);
+    return captured;
+  }
+
+  async backfill(from: string, to: string): Promise<string[]> {
+    this.assertDate(from, 'from');
+    this.assertDate(to, 'to');
+    const today = AnalyticsService.today();
+    if (from > to) {
+      throw new Error('from must be on or before to');
+    }
+    if (to > today) {
+      throw new Error('Cannot capture snapshots for future dates');
+    }
+    if ((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS + 1 > MAX_BACKFILL_DAYS) {
+      throw new Error(`Backfill is limited to ${MAX_BACKFILL_DAYS} days at a time`);
+    }
+
+    const captured: string[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      await this.captureDay(date);
+      captured.push(date);
+    }
+    return captured;
+  }
+
+  // ========== Dashboard ==========
+
+  /**
+   * Headline metrics from the latest snapshot; today's is captured on demand
+   * when the snapshot job has not run yet. Platform yield is ROI disbursed
+   * over the trailing twelve months against active subscribed principal,
+   * per currency, or null before any has been disbursed.
+   */
+  async getDashboard() {
+    const today = AnalyticsService.today();
+    let latest = await this.snapshotModel.getLatestPlatformSnapshot();
+    if (!latest || latest.snapshot_date !== today) {
+      await this.captureDay(today);
+      latest = (await this.snapshotModel.getLatestPlatformSnapshot())!;
+    }
+
+    const trailing = await this.snapshotModel.getPlatformSnapshots(addDays(today, -364), today);
+    const disbursed = trailing.reduce((total, snapshot) => addAmounts(total, snapshot.disbursed_by_currency), {} as CurrencyAmounts);
+    const yieldByCurrency: Record<string, number> = {};
+    for (const [currency, principal] of Object.entries(latest.subscribed_by_currency)) {
+      if (principal > 0 && disbursed[currency]) {
+        yieldByCurrency[currency] = parseFloat(((disbursed[currency] / principal) * 100).toFixed(2));
+      }
+    }
+    // Headline figure is the yield in the currency holding the most principal
+    const mainCurrency = Object.entries(latest.subscribed_by_currency)
+      .filter(([currency]) => yieldByCurrency[currency] !== undefined)
+      .sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    return {
+      snapshotDate: latest.snapshot_date,
+      capturedAt: latest.captured_at,
+      metrics: {
+        totalAUM: latest.total_aum,
+        activeProperties: latest.total_properties,
+        platformYield: mainCurrency ? yieldByCurrency[mainCurrency] : null,
+        yieldByCurrency,
+        activeInvestors: latest.active_subscribers
+      },
+      propertyMetrics: {
+        totalProperties: latest.total_properties,
+        uniqueLocations: latest.unique_locations,
+        avgPropertyValue: latest.avg_property_value
+      },
+      listingMetrics: {
+        totalListings: latest.total_listings,
+        activeListings: latest.active_listings,
+        auctionListings: latest.auction_listings,
+        fixedPriceListings: latest.fixed_price_listings,
+        avgActivePrice: latest.avg_active_price,
+        totalActiveVolume: latest.active_listing_volume
+      },
+      bidMetrics: {
+        totalBids: latest.total_bids,
+        activeBids: latest.active_bids,
+        avgBidAmount: latest.avg_active_bid,
+        maxBidAmount: latest.max_active_bid
+      },
+      userMetrics: {
+        totalUsers: latest.total_users,
+        investorCount: latest.investor_count,
+        sellerCount: latest.seller_count,
+        newUsersToday: latest.new_users,
+        activeSubscribers: latest.active_subscribers
+      },
+      disbursedByCurrency12m: disbursed
+    };
+  }
+
+  // ========== Time Series ==========
+
+  async getPlatformSeries(options: { from?: string; to?: string; granularity?: string; metrics?: string }) {
+    const range = this.resolveRange(options);
+    const metrics = this.resolveMetrics(options.metrics, PLATFORM_METRICS);
+    const snapshots = await this.snapshotModel.getPlatformSnapshots(range.from, range.to);
+    return { ...range, metrics, series: this.buildSeries(snapshots, range, metrics, PLATFORM_METRICS) };
+  }
+
+  async getPropertySeries(
+    propertyId: string,
+    options: { from?: string; to?: string; granularity?: string; metrics?: string }
+  ) {
+    const range = this.resolveRange(options);
+    const metrics = this.resolveMetrics(options.metrics, PROPERTY_METRICS);
+
+    const [properties] = await this.pool.query<RowDataPacket[]>('SELECT id, title FROM properties WHERE id = ?', [propertyId]);
+    if (properties.length === 0) {
+      throw new Error('Property not found');
+    }
+
+    const snapshots = await this.snapshotModel.getPropertySnapshots(propertyId, range.from, range.to);
+    return {
+      property: { id: properties[0].id, title: properties[0].title },
+      ...range,
+      metrics,
+      series: this.buildSeries(snapshots, range, metrics, PROPERTY_METRICS)
+    };
+  }
+
+  /**
+   * One entry per period in the range; periods without snapshots carry
+   * nulls so charts show the gap
+   */
+  private buildSeries<T extends PlatformSnapshot | PropertySnapshot>(
+    snapshots: T[],
+    range: { from: string; to: string; granularity: Granularity },
+    metrics: string[],
+    definitions: Record<string, MetricDefinition>
+  ) {
+    const buckets = new Map<string, T[]>();
+    for (let period = bucketStart(range.from, range.granularity); period <= range.to; period = nextBucket(period, range.granularity)) {
+      buckets.set(period, []);
+    }
+    for (const snapshot of snapshots) {
+      buckets.get(bucketStart(snapshot.snapshot_date, range.granularity))?.push(snapshot);
+    }
+
+    return Array.from(buckets.entries()).map(([period, rows]) => {
+      const point: Record<string, any> = { period, snapshots: rows.length };
+      for (const metric of metrics) {
+        const { column, aggregate } = definitions[metric];
+        const values = rows.map(row => (row as any)[column]);
+        if (values.length === 0) {
+          point[metric] = null;
+        } else if (aggregate === 'last') {
+          point[metric] = values[values.length - 1];
+        } else if (typeof values[0] === 'object') {
+          point[metric] = values.reduce((total, amounts) => addAmounts(total, amounts), {} as CurrencyAmounts);
+        } else {
+          point[metric] = values.reduce((total, value) => total + (value || 0), 0);
+        }
+      }
+      return point;
+    });
+  }
+
+  private resolveRange(options: { from?: string; to?: string; granularity?: string }) {
+    const granularity = (options.granularity || 'day') as Granularity;
+    if (!GRANULARITIES.includes(granularity)) {
+      throw new Error(`granularity must be one of: ${GRANULARITIES.join(', ')}`);
+    }
+
+    const to = options.to || AnalyticsService.today();
+    this.assertDate(to, 'to');
+    const from = options.from || addDays(to, -(DEFAULT_RANGE_DAYS[granularity] - 1));
+    this.assertDate(from, 'from');
+
+    if (from > to) {
+      throw new Error('from must be on or before to');
+    }
+    if ((parseDate(to).getTime() - parseDate(from).getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+      throw new Error(`Range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+    return { from, to, granularity };
+  }
+
+  private resolveMetrics(requested: string | undefined, definitions: Record<string, MetricDefinition>): string[] {
+    if (!requested) return Object.keys(definitions);
+
+    const metrics = requested.split(',').map(metric => metric.trim()).filter(Boolean);
+    const unknown = metrics.filter(metric => !definitions[metric]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown metrics: ${unknown.join(', ')}. Available: ${Object.keys(definitions).join(', ')}`);
+    }
+    return metrics;
+  }
+
+  private assertDate(value: string, field: string): void {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || toDateString(parseDate(value)) !== value) {
+      throw new Error(`${field} must be a date in YYYY-MM-DD format`);
+    }
+  }
+
+  // ========== Metric Queries ==========
+
+  private async computePlatformSnapshot(snapshotDate: string, dayStart: Date, dayEnd: Date): Promise<PlatformSnapshot> {
+    const [[properties], [listings], [bids], [users], [subscribers], subscribed, disbursed] = await Promise.all([
+      this.rows(
+        `SELECT
+           COUNT(*) AS total_properties,
+           COUNT(DISTINCT address) AS unique_locations,
+           COALESCE(SUM(assessed_value), 0) AS total_aum,
+           COALESCE(AVG(assessed_value), 0) AS avg_property_value
+         FROM properties
+         WHERE created_at < ?`,
+        [dayEnd]
+      ),
+      this.rows(
+        `SELECT
+           COUNT(*) AS total_listings,
+           COUNT(CASE WHEN status = 'active' THEN 1 END) AS active_listings,
+           COUNT(CASE WHEN listing_type = 'auction' THEN 1 END) AS auction_listings,
+           COUNT(CASE WHEN listing_type = 'fixed_price' THEN 1 END) AS fixed_price_listings,
+           COALESCE(AVG(CASE WHEN status = 'active' THEN price END), 0) AS avg_active_price,
+           COALESCE(SUM(CASE WHEN status = 'active' THEN price END), 0) AS active_listing_volume
+         FROM listings
+         WHERE created_at < ?`,
+        [dayEnd]
+      ),
+      this.rows(
+        `SELECT
+           COUNT(*) AS total_bids,
+           COUNT(CASE WHEN status = 'active' THEN 1 END) AS active_bids,
+           COUNT(CASE WHEN created_at >= ? THEN 1 END) AS bids_placed,
+           COALESCE(SUM(CASE WHEN created_at >= ? THEN amount END), 0) AS bid_volume,
+           COALESCE(AVG(CASE WHEN status = 'active' THEN amount END), 0) AS avg_active_bid,
+           COALESCE(MAX(CASE WHEN status = 'active' THEN amount END), 0) AS max_active_bid
+         FROM bids
+         WHERE created_at < ?`,
+        [dayStart, dayStart, dayEnd]
+      ),
+      this.rows(
+        `SELECT
+           COUNT(*) AS total_users,
+           COUNT(CASE WHEN role = 'investor' THEN 1 END) AS investor_count,
+           COUNT(CASE WHEN role = 'seller' THEN 1 END) AS seller_count,
+           COUNT(CASE WHEN created_at >= ? THEN 1 END) AS new_users
+         FROM users
+         WHERE is_active = TRUE AND created_at < ?`,
+        [dayStart, dayEnd]
+      ),
+      this.rows(
+        `SELECT COUNT(DISTINCT subscriber_user_id) AS active_subscribers
+         FROM subscriptions
+         WHERE status = 'ACTIVE' AND subscription_date < ?`,
+        [dayEnd]
+      ),
+      this.rows(
+        `SELECT currency, SUM(CAST(subscription_amount AS DECIMAL(36, 8))) AS amount
+         FROM subscriptions
+         WHERE status = 'ACTIVE' AND subscription_date < ?
+         GROUP BY currency`,
+        [dayEnd]
+      ),
+      this.rows(
+        `SELECT asset AS currency, SUM(amount) AS amount
+         FROM wallet_transactions
+         WHERE transaction_type = 'roi_disbursement' AND status = 'completed'
+           AND created_at >= ? AND created_at < ?
+         GROUP BY asset`,
+        [dayStart, dayEnd]
+      )
+    ]);
+
+    return {
+      snapshot_date: snapshotDate,
+      total_aum: Number(properties.total_aum),
+      total_properties: Number(properties.total_properties),
+      unique_locations: Number(properties.unique_locations),
+      avg_property_value: Number(properties.avg_property_value),
+      total_listings: Number(listings.total_listings),
+      active_listings: Number(listings.active_listings),
+      auction_listings: Number(listings.auction_listings),
+      fixed_price_listings: Number(listings.fixed_price_listings),
+      avg_active_price: Number(listings.avg_active_price),
+      active_listing_volume: Number(listings.active_listing_volume),
+      total_bids: Number(bids.total_bids),
+      active_bids: Number(bids.active_bids),
+      bids_placed: Number(bids.bids_placed),
+      bid_volume: Number(bids.bid_volume),
+      avg_active_bid: Number(bids.avg_active_bid),
+      max_active_bid: Number(bids.max_active_bid),
+      total_users: Number(users.total_users),
+      investor_count: Number(users.investor_count),
+      seller_count: Number(users.seller_count),
+      new_users: Number(users.new_users),
+      active_subscribers: Number(subscribers.active_subscribers),
+      subscribed_by_currency: amountsByCurrency(subscribed),
+      disbursed_by_currency: amountsByCurrency(disbursed)
+    };
+  }
+
+  private async computePropertySnapshots(snapshotDate: string, dayStart: Date, dayEnd: Date): Promise<PropertySnapshot[]> {
+    const [properties, listings, bids, subscribers, subscribed, disbursed] = await Promise.all([
+      this.rows('SELECT id, COALESCE(assessed_value, 0) AS assessed_value FROM properties WHERE created_at < ?', [dayEnd]),
+      this.rows(
+        `SELECT property_id, COUNT(*) AS active_listings, MIN(price) AS lowest_active_price
+         FROM listings
+         WHERE status = 'active' AND created_at < ?
+         GROUP BY property_id`,
+        [dayEnd]
+      ),
+      this.rows(
+        `SELECT l.property_id, COUNT(*) AS bids_placed, SUM(b.amount) AS bid_volume
+         FROM bids b
+         JOIN listings l ON l.id = b.listing_id
+         WHERE b.created_at >= ? AND b.created_at < ?
+         GROUP BY l.property_id`,
+        [dayStart, dayEnd]
+      ),
+      this.rows(
+        `SELECT property_id, COUNT(DISTINCT subscriber_user_id) AS active_subscribers, SUM(share_percentage) AS subscribed_share
+         FROM subscriptions
+         WHERE status = 'ACTIVE' AND subscription_date < ?
+         GROUP BY property_id`,
+        [dayEnd]
+      ),
+      this.rows(
+        `SELECT property_id, currency, SUM(CAST(subscription_amount AS DECIMAL(36, 8))) AS amount
+         FROM subscriptions
+         WHERE status = 'ACTIVE' AND subscription_date < ?
+         GROUP BY property_id, currency`,
+        [dayEnd]
+      ),
+      // ROI credits name their subscription in the transaction metadata
+      this.rows(
+        `SELECT s.property_id, wt.asset AS currency, SUM(wt.amount) AS amount
+         FROM wallet_transactions wt
+         JOIN subscriptions s
+           ON s.id = JSON_UNQUOTE(JSON_EXTRACT(wt.metadata, '$.subscriptionId')) COLLATE utf8mb4_unicode_ci
+         WHERE wt.transaction_type = 'roi_disbursement' AND wt.status = 'completed'
+           AND wt.created_at >= ? AND wt.created_at < ?
+         GROUP BY s.property_id, wt.asset`,
+        [dayStart, dayEnd]
+      )
+    ]);
+
+    const byProperty = (rows: RowDataPacket[]) => new Map(rows.map(row => [row.property_id, row]));
+    const amountsByProperty = (rows: RowDataPacket[]) => {
+      const amounts = new Map<string, CurrencyAmounts>();
+      for (const row of rows) {
+        amounts.set(row.property_id, { ...(amounts.get(row.property_id) || {}), [row.currency]: Number(row.amount) });
+      }
+      return amounts;
+    };
+
+    const listingRows = byProperty(listings);
+    const bidRows = byProperty(bids);
+    const subscriberRows = byProperty(subscribers);
+    const subscribedAmounts = amountsByProperty(subscribed);
+    const disbursedAmounts = amountsByProperty(disbursed);
+
+    return properties.map(property => {
+      const listing = listingRows.get(property.id);
+      const bid = bidRows.get(property.id);
+      const subscriber = subscriberRows.get(property.id);
+      return {
+        snapshot_date: snapshotDate,
+        property_id: property.id,
+        assessed_value: Number(property.assessed_value),
+        active_listings: Number(listing?.active_listings || 0),
+        lowest_active_price: listing?.lowest_active_price != null ? Number(listing.lowest_active_price) : null,
+        bids_placed: Number(bid?.bids_placed || 0),
+        bid_volume: Number(bid?.bid_volume || 0),
+        active_subscribers: Number(subscriber?.active_subscribers || 0),
+        subscribed_share: Number(subscriber?.subscribed_share || 0),
+        subscribed_by_currency: subscribedAmounts.get(property.id) || {},
+        disbursed_by_currency: disbursedAmounts.get(property.id) || {}
+      };
+    });
+  }
+
+  private async rows(sql: string, params: any[]): Promise<RowDataPacket[]> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(sql, params);
+    return rows;
+  }
+}
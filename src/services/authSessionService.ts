@@ -0,0 +1,245 @@
+import { Pool } from 'mysql2/promise';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { AuthSessionModel, AuthSession } from '../models/authSessionModel';
+import { PermissionService } from './permissionService';
+
+export interface SessionContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+  deviceName?: string | null;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  sessionId: string;
+}
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Server-side login sessions. Each login gets a short-lived access JWT that
+ * carries the session id (`sid`) and a rotating refresh token stored only as
+ * a hash. Presenting a refresh token that was already rotated out is treated
+ * as theft and revokes the whole session.
+ */
+export class AuthSessionService {
+  private sessionModel: AuthSessionModel;
+
+  constructor(private pool: Pool) {
+    this.sessionModel = new AuthSessionModel(pool);
+  }
+
+  // ========== Issuing ==========
+
+  async startSession(claims: Record<string, any>, context: SessionContext): Promise<SessionTokens> {
+    const access = await new PermissionService(this.pool).resolveUser(claims.id);
+    if (access) {
+      claims = { ...claims, role: access.role, permissions: access.permissions };
+    }
+
+    const sessionId = uuidv4();
+    const refreshToken = this.generateRefreshToken(sessionId);
+
+    await this.sessionModel.createSession({
+      id: sessionId,
+      userId: claims.id,
+      refreshTokenHash: hashToken(refreshToken),
+      claims,
+      deviceName: context.deviceName || this.describeDevice(context.userAgent),
+      userAgent: context.userAgent,
+      ipAddress: context.ipAddress,
+      expiresAt: new Date(Date.now() + this.refreshTokenTtlDays() * 24 * 60 * 60 * 1000)
+    });
+
+    return this.issueTokens(sessionId, claims, refreshToken);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and a new refresh token
+   */
+  async refresh(refreshToken: string, context: SessionContext): Promise<SessionTokens> {
+    const session = await this.findSessionForToken(refreshToken);
+    if (!session) {
+      throw new Error('Invalid refresh token');
+    }
+
+    if (session.revoked_at) {
+      throw new Error('Session has been revoked');
+    }
+    if (new Date(session.expires_at) <= new Date()) {
+      throw new Error('Session has expired');
+    }
+
+    const presentedHash = hashToken(refreshToken);
+    if (session.previous_token_hash && presentedHash === session.previous_token_hash) {
+      await this.sessionModel.revokeSession(session.id, 'refresh_token_reuse');
+      throw new Error('Refresh token has already been used; session revoked');
+    }
+    if (presentedHash !== session.refresh_token_hash) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const claims = await this.refreshClaims(session);
+    if (!claims) {
+      await this.sessionModel.revokeSession(session.id, 'account_deactivated');
+      throw new Error('Account is deactivated');
+    }
+
+    const nextToken = this.generateRefreshToken(session.id);
+    const rotated = await this.sessionModel.rotateRefreshToken(
+      session.id,
+      presentedHash,
+      hashToken(nextToken),
+      claims,
+      context.ipAddress,
+      context.userAgent
+    );
+    if (!rotated) {
+      throw new Error('Refresh token has already been used');
+    }
+
+    return this.issueTokens(session.id, claims, nextToken);
+  }
+
+  // ========== Validation ==========
+
+  /**
+   * Whether an access token's session is still live; records activity
+   */
+  async isSessionActive(sessionId: string, ipAddress: string | null = null): Promise<boolean> {
+    const session = await this.sessionModel.getSessionById(sessionId);
+    if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      return false;
+    }
+
+    await this.sessionModel.touchSession(sessionId, ipAddress);
+    return true;
+  }
+
+  // ========== Device List & Revocation ==========
+
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionModel.getActiveSessionsByUser(userId);
+    return sessions.map(session => ({
+      id: session.id,
+      device: session.device_name,
+      userAgent: session.user_agent,
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastSeenAt: session.last_seen_at,
+      expiresAt: session.expires_at,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string, reason: string = 'user_revoked'): Promise<void> {
+    const session = await this.sessionModel.getSessionById(sessionId);
+    if (!session || session.user_id !== userId) {
+      throw new Error('Session not found');
+    }
+    await this.sessionModel.revokeSession(sessionId, reason);
+  }
+
+  async revokeAllSessions(userId: string, exceptSessionId: string | null = null): Promise<number> {
+    return this.sessionModel.revokeUserSessions(userId, 'user_revoked_all', exceptSessionId);
+  }
+
+  /**
+   * Logout with a refresh token; unknown tokens are ignored
+   */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const session = await this.findSessionForToken(refreshToken);
+    if (session && hashToken(refreshToken) === session.refresh_token_hash) {
+      await this.sessionModel.revokeSession(session.id, 'logout');
+    }
+  }
+
+  async revokeById(sessionId: string, reason: string): Promise<void> {
+    await this.sessionModel.revokeSession(sessionId, reason);
+  }
+
+  // ========== Helpers ==========
+
+  private issueTokens(sessionId: string, claims: Record<string, any>, refreshToken: string): SessionTokens {
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      throw new Error('Server configuration error');
+    }
+
+    const expiresIn = this.accessTokenTtlSeconds();
+    const token = jwt.sign({ ...claims, sid: sessionId }, jwtSecret, { expiresIn });
+
+    return { token, refreshToken, expiresIn, sessionId };
+  }
+
+  // Refresh tokens are `<sessionId>.<secret>` so the session can be found without scanning hashes
+  private generateRefreshToken(sessionId: string): string {
+    return `${sessionId}.${crypto.randomBytes(48).toString('base64url')}`;
+  }
+
+  private async findSessionForToken(refreshToken: string): Promise<AuthSession | null> {
+    const [sessionId] = String(refreshToken || '').split('.');
+    if (!sessionId) return null;
+    return this.sessionModel.getSessionById(sessionId);
+  }
+
+  /**
+   * Re-read role and permissions so a refreshed token reflects the current
+   * account; returns null if the account has been deactivated
+   */
+  private async refreshClaims(session: AuthSession): Promise<Record<string, any> | null> {
+    const claims = typeof session.claims === 'string' ? JSON.parse(session.claims) : { ...session.claims };
+
+    const access = await new PermissionService(this.pool).resolveUser(session.user_id);
+    if (!access) {
+      return claims;
+    }
+    if (!access.isActive) {
+      return null;
+    }
+
+    return {
+      ...claims,
+      role: access.role,
+      permissions: access.permissions,
+      isActive: true
+    };
+  }
+
+  private describeDevice(userAgent: string | null): string | null {
+    if (!userAgent) return null;
+
+    const os = [
+      ['iPhone', 'iPhone'],
+      ['iPad', 'iPad'],
+      ['Android', 'Android'],
+      ['Windows', 'Windows'],
+      ['Mac OS', 'macOS'],
+      ['Linux', 'Linux']
+    ].find(([marker]) => userAgent.includes(marker))?.[1];
+    const browser = [
+      ['Edg/', 'Edge'],
+      ['Chrome/', 'Chrome'],
+      ['Firefox/', 'Firefox'],
+      ['Safari/', 'Safari']
+    ].find(([marker]) => userAgent.includes(marker))?.[1];
+
+    if (!os && !browser) return userAgent.substring(0, 100);
+    return [browser, os].filter(Boolean).join(' on ');
+  }
+
+  private accessTokenTtlSeconds(): number {
+    return parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '') || DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+  }
+
+  private refreshTokenTtlDays(): number {
+    return parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '') || DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+  }
+}
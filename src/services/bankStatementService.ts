@@ -0,0 +1,340 @@
+import crypto from 'crypto';
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import {
+  BankStatementLine,
+  BankStatementModel,
+  MatchType,
+  PendingTransfer,
+  StatementLineStatus
+} from '../models/bankStatementModel';
+import { PaymentModel } from '../models/paymentModel';
+import {
+  ParsedStatement,
+  StatementFormat,
+  StatementLine,
+  normaliseReference,
+  parseStatement
+} from '../utils/bankStatement';
+
+// Shorter references (e.g. a bare invoice number) are too easy to hit by accident
+const MIN_REFERENCE_LENGTH = 6;
+const MAX_CANDIDATES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How far a statement line may differ from the transfer it pays. The amount
+ * tolerance is the larger of the fixed and percentage allowances; the window
+ * counts days after the transfer was logged, plus a day before for time zones.
+ */
+const matchTolerance = () => ({
+  amountCents: Math.round(Number(process.env.BANK_MATCH_AMOUNT_TOLERANCE || 0.5) * 100),
+  percent: Number(process.env.BANK_MATCH_PERCENT_TOLERANCE || 0),
+  windowDays: Number(process.env.BANK_MATCH_WINDOW_DAYS || 30)
+});
+
+export type ReviewReason =
+  | 'no_reference'
+  | 'ambiguous_reference'
+  | 'amount_mismatch'
+  | 'currency_mismatch'
+  | 'outside_window'
+  | 'subscription_not_pending'
+  | 'transfer_unavailable';
+
+export interface StatementImportOptions {
+  format?: StatementFormat;
+  fileName?: string | null;
+  accountNumber?: string | null;
+  currency?: string | null;
+}
+
+export interface StatementImportSummary {
+  importId: string;
+  format: StatementFormat;
+  lines: number;
+  matched: number;
+  unmatched: number;
+  ignored: number;
+  duplicates: number;
+}
+
+type MatchDecision =
+  | { transfer: PendingTransfer }
+  | { reason: ReviewReason; candidates: PendingTransfer[] };
+
+const toCents = (amount: number | string): number => Math.round(Number(amount) * 100);
+
+/**
+ * Imports bank statements and matches incoming credits to pending bank
+ * transfers. A match reconciles the transfer, records a settled TRANSFER
+ * payment and activates the subscription; anything else waits in the
+ * review queue for an admin.
+ */
+export class BankStatementService {
+  private bankStatementModel: BankStatementModel;
+  private paymentModel: PaymentModel;
+
+  constructor(private pool: Pool) {
+    this.bankStatementModel = new BankStatementModel(pool);
+    this.paymentModel = new PaymentModel(pool);
+  }
+
+  // ========== Import ==========
+
+  async importStatement(content: string, options: StatementImportOptions, importedBy: string): Promise<StatementImportSummary> {
+    const statement = parseStatement(content, options.format);
+    const currency = (options.currency || statement.currency || '').toUpperCase() || null;
+    const accountNumber = options.accountNumber || statement.accountNumber;
+
+    const importId = await this.bankStatementModel.createImport({
+      format: statement.format,
+      fileName: options.fileName || null,
+      accountNumber,
+      currency,
+      lineCount: statement.lines.length,
+      importedBy
+    });
+
+    const fingerprints = this.fingerprint(statement, accountNumber);
+    const transfers = await this.bankStatementModel.getOpenTransfers();
+    const counts = { matched: 0, unmatched: 0, ignored: 0, duplicates: 0 };
+
+    for (const [i, line] of statement.lines.entries()) {
+      const lineCurrency = line.currency || currency;
+      const lineId = await this.bankStatementModel.insertLine(importId, line, lineCurrency, fingerprints[i]);
+      if (!lineId) {
+        counts.duplicates++;
+        continue;
+      }
+      if (line.amount <= 0) {
+        counts.ignored++;
+        continue;
+      }
+
+      const decision = this.findMatch(line, lineCurrency, transfers);
+      if ('transfer' in decision) {
+        try {
+          await this.confirmMatch(lineId, decision.transfer.id, 'auto', null, null);
+          // A transfer is paid once, so later lines cannot claim it
+          transfers.splice(transfers.indexOf(decision.transfer), 1);
+          counts.matched++;
+          continue;
+        } catch (error: any) {
+          if (!error.message?.startsWith('Invalid state')) throw error;
+          await this.bankStatementModel.flagForReview(lineId, 'transfer_unavailable', [decision.transfer.id]);
+        }
+      } else {
+        await this.bankStatementModel.flagForReview(lineId, decision.reason, decision.candidates.map(t => t.id));
+      }
+      counts.unmatched++;
+    }
+
+    await this.bankStatementModel.completeImport(importId, counts);
+    return { importId, format: statement.format, lines: statement.lines.length, ...counts };
+  }
+
+  // ========== Review ==========
+
+  /**
+   * Match a queued line to a transfer by hand, e.g. when the payer left the
+   * reference off or paid a slightly different amount
+   */
+  async matchLine(lineId: string, transferId: string, actorId: string, note: string | null): Promise<BankStatementLine> {
+    await this.confirmMatch(lineId, transferId, 'manual', actorId, note);
+    return (await this.bankStatementModel.getLine(lineId))!;
+  }
+
+  /**
+   * Take a line out of the review queue without matching it
+   */
+  async ignoreLine(lineId: string, actorId: string, note: string): Promise<BankStatementLine> {
+    const line = await this.bankStatementModel.getLine(lineId);
+    if (!line) {
+      throw new Error('Statement line not found');
+    }
+    if (!(await this.bankStatementModel.markIgnored(lineId, actorId, note))) {
+      throw new Error(`Invalid state: statement line is already ${line.status}`);
+    }
+    return (await this.bankStatementModel.getLine(lineId))!;
+  }
+
+  // ========== Queries ==========
+
+  async getImports(limit: number, offset: number) {
+    return this.bankStatementModel.listImports(limit, offset);
+  }
+
+  async getImport(importId: string) {
+    const statementImport = await this.bankStatementModel.getImport(importId);
+    if (!statementImport) {
+      throw new Error('Statement import not found');
+    }
+    return { ...statementImport, lines: await this.bankStatementModel.getLinesForImport(importId) };
+  }
+
+  async getLines(filters: { status?: StatementLineStatus; reason?: string }, limit: number, offset: number) {
+    return this.bankStatementModel.listLines(filters, limit, offset);
+  }
+
+  async getTransfers(status: string | undefined, limit: number, offset: number) {
+    return this.bankStatementModel.listTransfers(status, limit, offset);
+  }
+
+  // ========== Matching ==========
+
+  /**
+   * Match on the transfer reference first, then narrow by currency, date
+   * window and amount tolerance. Only a single survivor is matched
+   * automatically; lines without a reference are never auto-matched but get
+   * same-amount transfers suggested.
+   */
+  private findMatch(line: StatementLine, currency: string | null, transfers: PendingTransfer[]): MatchDecision {
+    const tolerance = matchTolerance();
+    const text = normaliseReference(`${line.reference || ''} ${line.description}`);
+    const lineTime = Date.parse(`${line.transactionDate}T00:00:00Z`);
+
+    const sameCurrency = (t: PendingTransfer) => !currency || t.currency.toUpperCase() === currency;
+    const inWindow = (t: PendingTransfer) => {
+      const loggedAt = new Date(t.created_at).getTime();
+      return lineTime >= loggedAt - DAY_MS && lineTime <= loggedAt + tolerance.windowDays * DAY_MS;
+    };
+    const amountFits = (t: PendingTransfer) => {
+      const allowed = Math.max(tolerance.amountCents, Math.round(toCents(t.amount) * tolerance.percent / 100));
+      return Math.abs(toCents(t.amount) - toCents(line.amount)) <= allowed;
+    };
+
+    const referenced = transfers.filter(t => {
+      const reference = normaliseReference(t.reference);
+      return reference.length >= MIN_REFERENCE_LENGTH && text.includes(reference);
+    });
+
+    if (referenced.length === 0) {
+      const suggestions = transfers.filter(t => sameCurrency(t) && inWindow(t) && amountFits(t));
+      return { reason: 'no_reference', candidates: suggestions.slice(0, MAX_CANDIDATES) };
+    }
+
+    const narrowed: [ReviewReason, (t: PendingTransfer) => boolean][] = [
+      ['currency_mismatch', sameCurrency],
+      ['outside_window', inWindow],
+      ['amount_mismatch', amountFits]
+    ];
+    let candidates = referenced;
+    for (const [reason, keep] of narrowed) {
+      const kept = candidates.filter(keep);
+      if (kept.length === 0) {
+        return { reason, candidates: candidates.slice(0, MAX_CANDIDATES) };
+      }
+      candidates = kept;
+    }
+
+    if (candidates.length > 1) {
+      return { reason: 'ambiguous_reference', candidates: candidates.slice(0, MAX_CANDIDATES) };
+    }
+    if (candidates[0].subscription_status !== 'PENDING') {
+      return { reason: 'subscription_not_pending', candidates };
+    }
+    return { transfer: candidates[0] };
+  }
+
+  /**
+   * Reconcile a transfer against a statement line: log the settled payment,
+   * link both records and activate the subscription, all or nothing
+   */
+  private async confirmMatch(
+    lineId: string,
+    transferId: string,
+    matchType: MatchType,
+    actorId: string | null,
+    note: string | null
+  ): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const line = await this.bankStatementModel.getLine(lineId, connection, true);
+      if (!line) {
+        throw new Error('Statement line not found');
+      }
+      if (line.status !== 'unmatched') {
+        throw new Error(`Invalid state: statement line is already ${line.status}`);
+      }
+
+      const transfer = await this.bankStatementModel.getTransfer(transferId, connection, true);
+      if (!transfer) {
+        throw new Error('Pending transfer not found');
+      }
+      if (transfer.status !== 'PENDING') {
+        throw new Error(`Invalid state: transfer is already ${transfer.status}`);
+      }
+
+      const [subscriptions] = await connection.query<RowDataPacket[]>(
+        'SELECT id, property_id, subscriber_user_id, status FROM subscriptions WHERE id = ? FOR UPDATE',
+        [transfer.subscription_id]
+      );
+      const subscription = subscriptions[0];
+      if (!subscription) {
+        throw new Error('Subscription not found');
+      }
+      if (subscription.status !== 'PENDING') {
+        throw new Error(`Invalid state: subscription is ${subscription.status}`);
+      }
+
+      const payment = await this.paymentModel.create(
+        {
+          propertyId: subscription.property_id,
+          subscriberUserId: subscription.subscriber_user_id,
+          subscriptionId: subscription.id,
+          amount: Number(line.amount),
+          currency: (line.currency || transfer.currency).toUpperCase(),
+          gateway: 'TRANSFER',
+          gatewayTransactionId: line.bank_transaction_id || line.id,
+          state: 'settled'
+        },
+        matchType === 'auto' ? 'system' : 'admin',
+        { note: `Bank statement line ${line.id}`, actorId },
+        connection
+      );
+
+      await this.bankStatementModel.reconcileTransfer(connection, transfer.id, line.id, payment.id, note);
+      await this.bankStatementModel.markMatched(connection, line.id, {
+        transferId: transfer.id,
+        paymentId: payment.id,
+        matchType,
+        actorId,
+        note
+      });
+      await connection.execute(
+        "UPDATE subscriptions SET status = 'ACTIVE', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'PENDING'",
+        [subscription.id]
+      );
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Stable per-line keys so re-importing an overlapping statement skips lines
+   * already seen. Lines without a bank id are told apart by their position
+   * among identical lines.
+   */
+  private fingerprint(statement: ParsedStatement, accountNumber: string | null): string[] {
+    const seen = new Map<string, number>();
+    return statement.lines.map(line => {
+      let key = [accountNumber || '', line.transactionDate, line.amount.toFixed(2)].join('|');
+      if (line.bankTransactionId) {
+        key += `|id:${line.bankTransactionId}`;
+      } else {
+        key += `|${line.description}|${line.reference || ''}`;
+        const occurrence = (seen.get(key) || 0) + 1;
+        seen.set(key, occurrence);
+        key += `|#${occurrence}`;
+      }
+      return crypto.createHash('sha256').update(key).digest('hex');
+    });
+  }
+}
@@ -102,4 +102,42 @@ export async function mintTitleNFT(
     console.error("Error minting TitleNFT:", error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Record a new metadata document hash for a title token. onSubmitted runs
+ * once the transaction is broadcast, before it is mined.
+ */
+export async function updateTitleMetadata(
+  tokenId: string | number,
+  documentHash: string,
+  onSubmitted?: (transactionHash: string) => Promise<void>
+): Promise<{ transactionHash: string; blockNumber: number }> {
+  if (!PRIVATE_KEY || !TITLE_NFT_ADDRESS) {
+    throw new Error("Blockchain service not fully configured. Check .env variables.");
+  }
+  if (!ethers.isHexString(documentHash, 32)) {
+    throw new Error(`Invalid document hash: ${documentHash}`);
+  }
+
+  try {
+    // function updateMetadata(uint256 tokenId, bytes32 newDocumentHash) external onlyRole(METADATA_UPDATER_ROLE)
+    const tx = await titleNFTContract.updateMetadata(BigInt(tokenId), documentHash);
+    if (onSubmitted) {
+      await onSubmitted(tx.hash);
+    }
+
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error("Transaction failed or was reverted.");
+    }
+
+    return {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  } catch (error) {
+    console.error("Error updating TitleNFT metadata:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,155 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PinataSDK } from 'pinata-web3';
+import { computeCid, parseCid } from '../utils/cid';
+
+export interface ContentUploadOptions {
+  name?: string;
+  mimeType?: string;
+}
+
+/**
+ * Where token metadata and the files it points to are stored. Content is
+ * addressed by CID; callers verify what they read back against the CID.
+ */
+export interface ContentStorageProvider {
+  readonly name: string;
+  put(content: Buffer, options?: ContentUploadOptions): Promise<string>;
+  get(cid: string): Promise<Buffer>;
+  gatewayUrl(cid: string): string;
+}
+
+const GATEWAY_TIMEOUT_MS = 30_000;
+
+// Served by GET /api/metadata/content/:cid for providers without a public gateway
+const apiGatewayUrl = (cid: string): string => `${process.env.BACKEND_URL || ''}/api/metadata/content/${cid}`;
+
+/**
+ * Pins to IPFS through Pinata with CID version 1 and reads raw bytes back
+ * from the configured gateway
+ */
+export class PinataStorageProvider implements ContentStorageProvider {
+  readonly name = 'pinata';
+  private pinata: PinataSDK;
+
+  constructor(private config: { jwt: string; gateway: string; gatewayKey?: string }) {
+    this.pinata = new PinataSDK({
+      pinataJwt: config.jwt,
+      pinataGateway: config.gateway,
+      pinataGatewayKey: config.gatewayKey
+    });
+  }
+
+  async put(content: Buffer, options: ContentUploadOptions = {}): Promise<string> {
+    const file = new File([content], options.name || 'content', { type: options.mimeType || 'application/octet-stream' });
+    const upload = await this.pinata.upload.file(file).cidVersion(1);
+    return upload.IpfsHash;
+  }
+
+  async get(cid: string): Promise<Buffer> {
+    const response = await fetch(this.gatewayUrl(cid), {
+      headers: this.config.gatewayKey ? { 'x-pinata-gateway-token': this.config.gatewayKey } : {},
+      signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS)
+    });
+    if (response.status === 404) {
+      throw new Error('Content not found');
+    }
+    if (!response.ok) {
+      throw new Error(`Gateway returned ${response.status} for ${cid}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  gatewayUrl(cid: string): string {
+    return `https://${this.config.gateway}/ipfs/${cid}`;
+  }
+}
+
+/**
+ * Files on local disk named by their raw CIDv1, for development and CI.
+ * The CID matches what IPFS would assign when the file fits in one chunk.
+ */
+export class LocalStorageProvider implements ContentStorageProvider {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  async put(content: Buffer): Promise<string> {
+    const cid = computeCid(content);
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = path.join(this.directory, cid);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temporary, content);
+    await fs.rename(temporary, target);
+    return cid;
+  }
+
+  async get(cid: string): Promise<Buffer> {
+    // Parsing first keeps arbitrary paths out of the file name
+    parseCid(cid);
+    try {
+      return await fs.readFile(path.join(this.directory, cid));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error('Content not found');
+      }
+      throw error;
+    }
+  }
+
+  gatewayUrl(cid: string): string {
+    return apiGatewayUrl(cid);
+  }
+}
+
+/**
+ * Content-addressed store held in memory; nothing survives a restart
+ */
+export class InMemoryStorageProvider implements ContentStorageProvider {
+  readonly name = 'memory';
+  private contents = new Map<string, Buffer>();
+
+  async put(content: Buffer): Promise<string> {
+    const cid = computeCid(content);
+    this.contents.set(cid, Buffer.from(content));
+    return cid;
+  }
+
+  async get(cid: string): Promise<Buffer> {
+    const content = this.contents.get(cid);
+    if (!content) {
+      throw new Error('Content not found');
+    }
+    return Buffer.from(content);
+  }
+
+  gatewayUrl(cid: string): string {
+    return apiGatewayUrl(cid);
+  }
+}
+
+/**
+ * METADATA_STORAGE picks the provider explicitly; otherwise Pinata is used
+ * when PINATA_JWT is set and local disk when it is not
+ */
+export function getContentStorageProvider(): ContentStorageProvider {
+  const provider = process.env.METADATA_STORAGE || (process.env.PINATA_JWT ? 'pinata' : 'local');
+
+  switch (provider) {
+    case 'pinata':
+      if (!process.env.PINATA_JWT) {
+        throw new Error('PINATA_JWT is required for Pinata metadata storage');
+      }
+      return new PinataStorageProvider({
+        jwt: process.env.PINATA_JWT,
+        gateway: process.env.PINATA_GATEWAY || 'gateway.pinata.cloud',
+        gatewayKey: process.env.PINATA_GATEWAY_KEY
+      });
+    case 'local':
+      return new LocalStorageProvider(process.env.METADATA_STORAGE_DIR || path.join(process.cwd(), 'storage', 'ipfs'));
+    case 'memory':
+      return new InMemoryStorageProvider();
+    default:
+      throw new Error(`Unsupported metadata storage: ${provider}`);
+  }
+}
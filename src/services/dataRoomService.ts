@@ -0,0 +1,364 @@
+import path from 'path';
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import {
+  DataRoomModel,
+  DocumentAccessLevel,
+  DocumentType,
+  DOCUMENT_ACCESS_LEVELS,
+  DOCUMENT_TYPES,
+  NewDocumentVersion,
+  PropertyDocument,
+  PropertyDocumentVersion
+} from '../models/dataRoomModel';
+import { PERMISSIONS } from '../models/permissionModel';
+import { DocumentStorage, getDocumentStorage, sha256, contentKey } from './documentStorage';
+
+export const ALLOWED_DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+export interface DataRoomViewer {
+  id: string;
+  permissions: string[];
+}
+
+export interface DocumentUpload {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+  notes?: string;
+}
+
+interface PropertyAccess {
+  propertyId: string;
+  canManage: boolean;
+  levels: Set<DocumentAccessLevel>;
+}
+
+const ACCESS_DENIED: Record<DocumentAccessLevel, string> = {
+  public: '',
+  subscribers: 'This document is only available to subscribers of the property',
+  kyc_verified: 'This document is only available to KYC-verified investors'
+};
+
+/**
+ * Keep the base name only and drop characters that break a
+ * Content-Disposition header
+ */
+const cleanFileName = (value: string): string =>
+  path.basename(value.replace(/\\/g, '/')).replace(/[\x00-\x1f"\x7f]/g, '').trim().slice(0, 255);
+
+/**
+ * Property data room: typed documents with version history, content hashes,
+ * per-document access rules and an audit log of every download. Property
+ * owners and holders of manage_properties maintain the documents.
+ */
+export class DataRoomService {
+  private dataRoomModel: DataRoomModel;
+
+  constructor(private pool: Pool, private storage: DocumentStorage = getDocumentStorage()) {
+    this.dataRoomModel = new DataRoomModel(pool);
+  }
+
+  // ========== Access ==========
+
+  private async getAccess(propertyId: string, viewer: DataRoomViewer | null): Promise<PropertyAccess> {
+    const [properties] = await this.pool.query<RowDataPacket[]>(
+      'SELECT id, owner_id FROM properties WHERE id = ?',
+      [propertyId]
+    );
+    if (properties.length === 0) {
+      throw new Error('Property not found');
+    }
+
+    const levels = new Set<DocumentAccessLevel>(['public']);
+    if (!viewer) {
+      return { propertyId, canManage: false, levels };
+    }
+
+    const canManage = properties[0].owner_id === viewer.id || viewer.permissions.includes(PERMISSIONS.MANAGE_PROPERTIES);
+    if (canManage) {
+      return { propertyId, canManage, levels: new Set(DOCUMENT_ACCESS_LEVELS) };
+    }
+
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT
+         (SELECT kyc_status FROM users WHERE id = ?) AS kyc_status,
+         EXISTS (
+           SELECT 1 FROM subscriptions
+           WHERE property_id = ? AND subscriber_user_id = ? AND status = 'ACTIVE'
+         ) AS subscribed`,
+      [viewer.id, propertyId, viewer.id]
+    );
+    // The KYC review sets 'approved'; wallet verification sets 'verified'
+    if (['approved', 'verified'].includes(rows[0]?.kyc_status)) levels.add('kyc_verified');
+    if (Number(rows[0]?.subscribed) === 1) levels.add('subscribers');
+
+    return { propertyId, canManage, levels };
+  }
+
+  private async requireManager(propertyId: string, actor: DataRoomViewer): Promise<PropertyAccess> {
+    const access = await this.getAccess(propertyId, actor);
+    if (!access.canManage) {
+      throw new Error('Not authorised to manage documents for this property');
+    }
+    return access;
+  }
+
+  private async getPropertyDocument(propertyId: string, documentId: string): Promise<PropertyDocument> {
+    const document = await this.dataRoomModel.getDocument(documentId);
+    if (!document || document.property_id !== propertyId) {
+      throw new Error('Document not found');
+    }
+    return document;
+  }
+
+  // ========== Documents ==========
+
+  /**
+   * Every document in the data room with whether the viewer may download it.
+   * Managers can include archived documents.
+   */
+  async listDocuments(propertyId: string, viewer: DataRoomViewer | null, includeArchived: boolean = false) {
+    const access = await this.getAccess(propertyId, viewer);
+    const documents = await this.dataRoomModel.getDocuments(propertyId, includeArchived && access.canManage);
+    return documents.map(document => this.present(document, access));
+  }
+
+  async getDocument(propertyId: string, documentId: string, viewer: DataRoomViewer | null) {
+    const access = await this.getAccess(propertyId, viewer);
+    const document = await this.getPropertyDocument(propertyId, documentId);
+    if (document.archived_at && !access.canManage) {
+      throw new Error('Document not found');
+    }
+
+    const presented = this.present(document, access);
+    if (!presented.canDownload) {
+      return presented;
+    }
+
+    const versions = await this.dataRoomModel.getVersions(documentId);
+    return {
+      ...presented,
+      versions: versions.map(version => ({
+        version: version.version,
+        fileName: version.file_name,
+        mimeType: version.mime_type,
+        sizeBytes: Number(version.size_bytes),
+        sha256: version.sha256,
+        notes: version.notes,
+        uploadedBy: version.uploaded_by,
+        uploadedAt: version.created_at
+      }))
+    };
+  }
+
+  async createDocument(
+    propertyId: string,
+    actor: DataRoomViewer,
+    details: { documentType: string; title: string; accessLevel?: string },
+    upload: DocumentUpload
+  ) {
+    await this.requireManager(propertyId, actor);
+    const documentType = this.parseDocumentType(details.documentType);
+    const accessLevel = this.parseAccessLevel(details.accessLevel || 'subscribers');
+    const title = (details.title || '').trim();
+    if (!title || title.length > 255) {
+      throw new Error('Invalid title: 1-255 characters required');
+    }
+
+    const version = await this.store(upload, actor.id);
+    const documentId = await this.dataRoomModel.createDocument(propertyId, documentType, title, accessLevel, version);
+    return this.getDocument(propertyId, documentId, actor);
+  }
+
+  /**
+   * Upload a new version; earlier versions stay downloadable
+   */
+  async addVersion(propertyId: string, documentId: string, actor: DataRoomViewer, upload: DocumentUpload) {
+    await this.requireManager(propertyId, actor);
+    const document = await this.getPropertyDocument(propertyId, documentId);
+    if (document.archived_at) {
+      throw new Error('Invalid document: archived documents cannot take new versions');
+    }
+
+    await this.dataRoomModel.addVersion(documentId, await this.store(upload, actor.id));
+    return this.getDocument(propertyId, documentId, actor);
+  }
+
+  async updateDocument(
+    propertyId: string,
+    documentId: string,
+    actor: DataRoomViewer,
+    updates: { title?: string; documentType?: string; accessLevel?: string }
+  ) {
+    await this.requireManager(propertyId, actor);
+    await this.getPropertyDocument(propertyId, documentId);
+
+    const title = updates.title !== undefined ? updates.title.trim() : undefined;
+    if (title !== undefined && (!title || title.length > 255)) {
+      throw new Error('Invalid title: 1-255 characters required');
+    }
+
+    await this.dataRoomModel.updateDocument(documentId, {
+      title,
+      documentType: updates.documentType !== undefined ? this.parseDocumentType(updates.documentType) : undefined,
+      accessLevel: updates.accessLevel !== undefined ? this.parseAccessLevel(updates.accessLevel) : undefined
+    });
+    return this.getDocument(propertyId, documentId, actor);
+  }
+
+  async archiveDocument(propertyId: string, documentId: string, actor: DataRoomViewer): Promise<void> {
+    await this.requireManager(propertyId, actor);
+    await this.getPropertyDocument(propertyId, documentId);
+    await this.dataRoomModel.archiveDocument(documentId);
+  }
+
+  // ========== Downloads ==========
+
+  /**
+   * File content for the current or a given version. The content is hashed
+   * again before it is served and every download is logged.
+   */
+  async download(
+    propertyId: string,
+    documentId: string,
+    viewer: DataRoomViewer | null,
+    options: { version?: number; ipAddress?: string | null; userAgent?: string | null } = {}
+  ): Promise<{ fileName: string; mimeType: string; sha256: string; version: number; content: Buffer }> {
+    const access = await this.getAccess(propertyId, viewer);
+    const document = await this.getPropertyDocument(propertyId, documentId);
+    if (document.archived_at && !access.canManage) {
+      throw new Error('Document not found');
+    }
+    if (!access.levels.has(document.access_level)) {
+      throw new Error(viewer ? ACCESS_DENIED[document.access_level] : 'Authentication required to view this document');
+    }
+
+    const version: PropertyDocumentVersion | null = await this.dataRoomModel.getVersion(
+      documentId,
+      options.version || document.current_version
+    );
+    if (!version) {
+      throw new Error('Document version not found');
+    }
+
+    const content = await this.storage.get(version.storage_key);
+    if (sha256(content) !== version.sha256) {
+      console.error(`Data room file ${version.storage_key} does not match its recorded hash`);
+      throw new Error('Stored file failed its integrity check');
+    }
+
+    await this.dataRoomModel.recordDownload(
+      document,
+      version,
+      viewer ? viewer.id : null,
+      options.ipAddress || null,
+      options.userAgent || null
+    );
+
+    return {
+      fileName: version.file_name,
+      mimeType: version.mime_type,
+      sha256: version.sha256,
+      version: version.version,
+      content
+    };
+  }
+
+  async getDownloads(
+    propertyId: string,
+    actor: DataRoomViewer,
+    filters: { documentId?: string; userId?: string } = {},
+    limit?: number,
+    offset?: number
+  ) {
+    await this.requireManager(propertyId, actor);
+    const downloads = await this.dataRoomModel.getDownloads({ propertyId, ...filters }, limit, offset);
+    return downloads.map(download => ({
+      id: download.id,
+      documentId: download.document_id,
+      title: download.title,
+      version: download.version,
+      accessLevel: download.access_level,
+      userId: download.user_id,
+      username: download.username,
+      email: download.email,
+      ipAddress: download.ip_address,
+      userAgent: download.user_agent,
+      downloadedAt: download.downloaded_at
+    }));
+  }
+
+  // ========== Helpers ==========
+
+  private async store(upload: DocumentUpload, uploadedBy: string): Promise<NewDocumentVersion> {
+    const fileName = cleanFileName(upload.fileName || '');
+    if (!fileName) {
+      throw new Error('Invalid file name');
+    }
+    const mimeType = (upload.mimeType || '').split(';')[0].trim().toLowerCase();
+    if (!ALLOWED_DOCUMENT_MIME_TYPES.includes(mimeType)) {
+      throw new Error(`Invalid file type: ${mimeType || 'unknown'}. Allowed: ${ALLOWED_DOCUMENT_MIME_TYPES.join(', ')}`);
+    }
+    if (!upload.content || upload.content.length === 0) {
+      throw new Error('Invalid file: the upload is empty');
+    }
+
+    const hash = sha256(upload.content);
+    const storageKey = contentKey(hash);
+    await this.storage.put(storageKey, upload.content);
+
+    return {
+      fileName,
+      mimeType,
+      sizeBytes: upload.content.length,
+      sha256: hash,
+      storageBackend: this.storage.name,
+      storageKey,
+      notes: upload.notes ? upload.notes.slice(0, 2000) : null,
+      uploadedBy
+    };
+  }
+
+  private present(document: PropertyDocument, access: PropertyAccess) {
+    return {
+      id: document.id,
+      propertyId: document.property_id,
+      documentType: document.document_type,
+      title: document.title,
+      accessLevel: document.access_level,
+      canDownload: access.levels.has(document.access_level),
+      currentVersion: document.current_version,
+      fileName: document.file_name,
+      mimeType: document.mime_type,
+      sizeBytes: Number(document.size_bytes),
+      sha256: document.sha256,
+      updatedAt: document.version_uploaded_at,
+      createdAt: document.created_at,
+      archivedAt: document.archived_at
+    };
+  }
+
+  private parseDocumentType(value: string): DocumentType {
+    if (!DOCUMENT_TYPES.includes(value as DocumentType)) {
+      throw new Error(`Invalid document type. Use one of: ${DOCUMENT_TYPES.join(', ')}`);
+    }
+    return value as DocumentType;
+  }
+
+  private parseAccessLevel(value: string): DocumentAccessLevel {
+    if (!DOCUMENT_ACCESS_LEVELS.includes(value as DocumentAccessLevel)) {
+      throw new Error(`Invalid access level. Use one of: ${DOCUMENT_ACCESS_LEVELS.join(', ')}`);
+    }
+    return value as DocumentAccessLevel;
+  }
+}
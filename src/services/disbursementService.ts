@@ -1,7 +1,11 @@
 import { Pool } from 'mysql2/promise';
 import { v4 as uuidv4 } from 'uuid';
 import { WalletTransactionService } from './walletTransactionService';
-import { WalletModel } from '../models/walletModel';
+import { WalletModel, parseWalletAsset } from '../models/walletModel';
+import { DisputeModel } from '../models/disputeModel';
+import { SYSTEM_ACCOUNTS, toMicroUnits } from '../models/ledgerModel';
+import { LedgerService } from './ledgerService';
+import { RealtimeEventService, REALTIME_EVENTS } from './realtimeEventService';
 
 export interface DisbursementRequest {
   subscriptionId: string;
@@ -36,10 +40,16 @@ export interface DisbursementSchedule {
 export class DisbursementService {
   private transactionService: WalletTransactionService;
   private walletModel: WalletModel;
+  private disputeModel: DisputeModel;
+  private ledgerService: LedgerService;
+  private realtimeService: RealtimeEventService;
 
   constructor(private pool: Pool) {
     this.transactionService = new WalletTransactionService(pool);
     this.walletModel = new WalletModel(pool);
+    this.disputeModel = new DisputeModel(pool);
+    this.ledgerService = new LedgerService(pool);
+    this.realtimeService = new RealtimeEventService(pool);
   }
 
   async createDisbursement(request: DisbursementRequest): Promise<DisbursementRecord> {
@@ -97,6 +107,10 @@ export class DisbursementService {
     if (!disbursement) {
       return { success: false, error: 'Disbursement not found' };
     }
+    // Left pending so it can be processed once the dispute is resolved
+    if (await this.disputeModel.hasOpenDispute(disbursement.subscriptionId)) {
+      return { success: false, error: 'Disbursements are frozen while a payment dispute is open' };
+    }
 
     const connection = await this.pool.getConnection();
     try {
@@ -108,29 +122,51 @@ export class DisbursementService {
         return { success: false, error: 'User wallet not found' };
       }
 
+      // Paid in the asset the subscription was made in
+      const [subscriptions] = await connection.query<any[]>(
+        'SELECT currency FROM subscriptions WHERE id = ?',
+        [disbursement.subscriptionId]
+      );
+      const asset = parseWalletAsset(subscriptions[0]?.currency);
+
       // Update disbursement status to processing
       await connection.execute(
         'UPDATE disbursements SET status = ?, updated_at = NOW() WHERE id = ?',
         ['processing', disbursementId]
       );
 
-      // Record transaction
-      const balanceBefore = wallet.balance_usdc;
-      const newBalance = balanceBefore + disbursement.amount;
+      // Credit the wallet through the ledger
+      const posted = await this.ledgerService.postEntry(
+        connection,
+        {
+          entryType: 'roi_disbursement',
+          asset,
+          description: `ROI Disbursement (${disbursement.roiPercentage}%) for subscription ${disbursement.subscriptionId}`,
+          referenceType: 'disbursement',
+          referenceId: disbursementId
+        },
+        [
+          { systemAccount: SYSTEM_ACCOUNTS.ROI_DISTRIBUTIONS, direction: 'debit', amount: disbursement.amount },
+          { walletId: wallet.id, direction: 'credit', amount: disbursement.amount }
+        ]
+      );
+      const balances = posted.walletBalances[wallet.id];
 
+      // Record transaction
       const txId = uuidv4();
       await connection.execute(
         `INSERT INTO wallet_transactions 
-         (id, user_id, wallet_id, transaction_type, amount, balance_before, balance_after,
-          from_address, to_address, status, description, metadata, created_at, updated_at)
-         VALUES (?, ?, ?, 'roi_disbursement', ?, ?, ?, 'system', ?, 'completed', ?, ?, NOW(), NOW())`,
+         (id, user_id, wallet_id, transaction_type, asset, amount, balance_before, balance_after,
+          from_address, to_address, status, description, metadata, journal_entry_id, created_at, updated_at)
+         VALUES (?, ?, ?, 'roi_disbursement', ?, ?, ?, ?, 'system', ?, 'completed', ?, ?, ?, NOW(), NOW())`,
         [
           txId,
           disbursement.userId,
           wallet.id,
+          asset,
           disbursement.amount,
-          balanceBefore,
-          newBalance,
+          balances.before,
+          balances.after,
           wallet.wallet_address,
           `ROI Disbursement (${disbursement.roiPercentage}%) for subscription ${disbursement.subscriptionId}`,
           JSON.stringify({
@@ -138,16 +174,11 @@ export class DisbursementService {
             roiPercentage: disbursement.roiPercentage,
             disbursementId: disbursementId,
             disbursementDate: new Date().toISOString()
-          })
+          }),
+          posted.journalEntryId
         ]
       );
 
-      // Update wallet balance
-      await connection.execute(
-        'UPDATE user_wallets SET balance_usdc = ?, updated_at = NOW() WHERE id = ?',
-        [newBalance, wallet.id]
-      );
-
       // Mark disbursement as completed
       await connection.execute(
         `UPDATE disbursements 
@@ -158,6 +189,17 @@ export class DisbursementService {
 
       await connection.commit();
 
+      await this.realtimeService.publish(disbursement.userId, REALTIME_EVENTS.WALLET_BALANCE_CHANGED, {
+        walletId: wallet.id,
+        asset,
+        balanceBefore: balances.before,
+        balance: balances.after,
+        change: (toMicroUnits(balances.after) - toMicroUnits(balances.before)) / 1_000_000,
+        reason: 'roi_disbursement',
+        transactionId: txId
+      });
+      await this.publishStatusChange(disbursement, 'completed', { txHash: txId });
+
       return { success: true, txHash: txId };
     } catch (error) {
       await connection.rollback();
@@ -168,6 +210,7 @@ export class DisbursementService {
         'UPDATE disbursements SET status = ?, failure_reason = ?, updated_at = NOW() WHERE id = ?',
         ['failed', errorMessage, disbursementId]
       );
+      await this.publishStatusChange(disbursement, 'failed', { failureReason: errorMessage });
 
       return { success: false, error: errorMessage };
     } finally {
@@ -186,6 +229,7 @@ export class DisbursementService {
       'UPDATE disbursements SET status = ?, failure_reason = NULL, updated_at = NOW() WHERE id = ?',
       ['pending', disbursementId]
     );
+    await this.publishStatusChange(disbursement, 'pending');
 
     return this.processDisbursement(disbursementId);
   }
@@ -353,6 +397,21 @@ export class DisbursementService {
     return next;
   }
 
+  private async publishStatusChange(
+    disbursement: DisbursementRecord,
+    status: DisbursementRecord['status'],
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    await this.realtimeService.publish(disbursement.userId, REALTIME_EVENTS.DISBURSEMENT_STATUS_CHANGED, {
+      disbursementId: disbursement.id,
+      subscriptionId: disbursement.subscriptionId,
+      amount: disbursement.amount,
+      previousStatus: disbursement.status,
+      status,
+      ...details
+    });
+  }
+
   private formatDisbursement(row: any): DisbursementRecord {
     return {
       id: row.id,
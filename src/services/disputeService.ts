@@ -0,0 +1,422 @@
+import { Pool, PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import {
+  DISPUTE_EVIDENCE_FIELDS,
+  DisputeEvidence,
+  DisputeModel,
+  DisputeOutcome,
+  DisputeStatus,
+  OPEN_DISPUTE_STATUSES,
+  PaymentDispute
+} from '../models/disputeModel';
+import { PaymentModel, PaymentTransaction, TransitionSource } from '../models/paymentModel';
+import { PaymentProviderRegistry, PaymentWebhookEvent, ProviderDispute, getPaymentProviders } from './paymentProviders';
+import { RefundService } from './refundService';
+import { WalletTransactionService } from './walletTransactionService';
+import type { WebhookResult } from './paymentStateService';
+
+// Stripe's limit on the combined length of text evidence
+const MAX_EVIDENCE_LENGTH = 150_000;
+
+const toCents = (amount: number | string): number => Math.round(Number(amount) * 100);
+
+const toMicros = (amount: number | string): number => Math.round(Number(amount) * 1_000_000);
+
+const isOpen = (status: DisputeStatus): boolean => OPEN_DISPUTE_STATUSES.includes(status);
+
+interface DisputeActor {
+  source: TransitionSource;
+  actorId: string | null;
+  eventId?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Chargebacks and payment disputes. While a dispute is open the payment is
+ * disputed, its subscription is frozen (INACTIVE, so nothing is disbursed on
+ * it) and wallet credits that came from the subscription cannot be
+ * withdrawn. Winning restores the payment and subscription; losing reverses
+ * the disputed amount off the subscription and claws back its share of the
+ * held credits.
+ */
+export class DisputeService {
+  private disputeModel: DisputeModel;
+  private paymentModel: PaymentModel;
+  private refundService: RefundService;
+  private walletTransactionService: WalletTransactionService;
+
+  constructor(private pool: Pool, private providers: PaymentProviderRegistry = getPaymentProviders()) {
+    this.disputeModel = new DisputeModel(pool);
+    this.paymentModel = new PaymentModel(pool);
+    this.refundService = new RefundService(pool, providers);
+    this.walletTransactionService = new WalletTransactionService(pool);
+  }
+
+  // ========== Webhooks ==========
+
+  /**
+   * Apply a verified dispute webhook: open the dispute on first sight, follow
+   * its status, and settle the outcome once the gateway decides it. Each
+   * event is applied once; events for a closed dispute are ignored.
+   */
+  async handleWebhookEvent(gateway: string, event: PaymentWebhookEvent, paymentId: string): Promise<WebhookResult> {
+    const dispute = event.dispute!;
+    let outcome: WebhookResult['outcome'] = 'duplicate';
+    let disputeId: string | undefined;
+
+    await this.withPayment(paymentId, async (connection, payment) => {
+      const existing = await this.disputeModel.findByGatewayDispute(gateway, dispute.disputeId, connection);
+      const applies = !existing || (isOpen(existing.status) && existing.status !== dispute.status);
+
+      const claimed = await this.paymentModel.recordWebhookEvent(connection, {
+        gateway,
+        eventId: event.eventId,
+        eventType: event.type,
+        paymentId: payment.id,
+        outcome: applies ? 'applied' : 'ignored'
+      });
+      disputeId = existing?.id;
+      if (!claimed) {
+        return;
+      }
+
+      outcome = applies ? 'applied' : 'ignored';
+      if (!applies) {
+        return;
+      }
+      const actor: DisputeActor = { source: 'webhook', actorId: null, eventId: event.eventId, note: event.type };
+      disputeId = existing
+        ? await this.follow(connection, existing, payment, dispute, actor)
+        : await this.open(connection, payment, this.fromGateway(dispute), actor);
+    });
+
+    const payment = (await this.paymentModel.getById(paymentId))!;
+    return { outcome, gateway, eventId: event.eventId, paymentId, state: payment.state, disputeId };
+  }
+
+  // ========== Admin ==========
+
+  /**
+   * Record a chargeback the gateway reported outside its webhooks, e.g. an
+   * eWAY chargeback notice
+   */
+  async recordDispute(
+    paymentId: string,
+    details: { amount?: number; reason: string; gatewayDisputeId?: string | null; evidenceDueBy?: Date | null },
+    actorId: string
+  ): Promise<PaymentDispute> {
+    let disputeId = '';
+    await this.withPayment(paymentId, async (connection, payment) => {
+      const amount = details.amount === undefined ? Number(payment.amount) : Number(details.amount);
+      if (!(toCents(amount) > 0) || toCents(amount) > toCents(payment.amount)) {
+        throw new Error(`Invalid amount: must be more than 0 and at most ${payment.amount}`);
+      }
+      if (details.gatewayDisputeId && (await this.disputeModel.findByGatewayDispute(payment.gateway, details.gatewayDisputeId, connection))) {
+        throw new Error('Invalid state: this dispute has already been recorded');
+      }
+
+      disputeId = await this.open(
+        connection,
+        payment,
+        {
+          gatewayDisputeId: details.gatewayDisputeId || null,
+          status: 'needs_response',
+          reason: details.reason,
+          amount,
+          currency: payment.currency,
+          evidenceDueBy: details.evidenceDueBy || null
+        },
+        { source: 'admin', actorId }
+      );
+    });
+    return this.getDispute(disputeId);
+  }
+
+  /**
+   * Save draft evidence, merged over what was saved before; an empty value
+   * clears a field
+   */
+  async saveEvidence(disputeId: string, evidence: Record<string, unknown>): Promise<PaymentDispute> {
+    const dispute = await this.getDispute(disputeId);
+    const merged: DisputeEvidence = { ...(dispute.evidence || {}) };
+    for (const [field, value] of Object.entries(evidence)) {
+      if (!(DISPUTE_EVIDENCE_FIELDS as readonly string[]).includes(field)) {
+        throw new Error(`Invalid evidence field: ${field}`);
+      }
+      if (value !== null && value !== undefined && typeof value !== 'string') {
+        throw new Error(`Invalid evidence: ${field} must be text`);
+      }
+      if (value) {
+        merged[field as keyof DisputeEvidence] = value as string;
+      } else {
+        delete merged[field as keyof DisputeEvidence];
+      }
+    }
+    const length = Object.values(merged).reduce((total, value) => total + (value || '').length, 0);
+    if (length > MAX_EVIDENCE_LENGTH) {
+      throw new Error(`Invalid evidence: at most ${MAX_EVIDENCE_LENGTH} characters in total`);
+    }
+
+    if (!(await this.disputeModel.saveEvidence(disputeId, merged))) {
+      throw new Error(`Invalid state: evidence can no longer be changed (dispute is ${dispute.status})`);
+    }
+    return this.getDispute(disputeId);
+  }
+
+  /**
+   * Submit the saved evidence. Gateways without a disputes API (eWAY, or a
+   * dispute with no gateway id) are answered through their portal, so the
+   * submission is only recorded here.
+   */
+  async submitEvidence(disputeId: string, actorId: string): Promise<PaymentDispute> {
+    const dispute = await this.getDispute(disputeId);
+    if (dispute.status !== 'needs_response' || dispute.evidence_submitted_at) {
+      throw new Error(`Invalid state: dispute is ${dispute.status}`);
+    }
+    if (!dispute.evidence || Object.keys(dispute.evidence).length === 0) {
+      throw new Error('Invalid evidence: save evidence before submitting it');
+    }
+    if (dispute.evidence_due_by && new Date(dispute.evidence_due_by).getTime() < Date.now()) {
+      throw new Error('Invalid state: the evidence deadline has passed');
+    }
+
+    let submittedToGateway = false;
+    if (dispute.gateway_dispute_id && this.providers.has(dispute.gateway)) {
+      try {
+        await this.providers.get(dispute.gateway).submitDisputeEvidence(dispute.gateway_dispute_id, dispute.evidence as Record<string, string>);
+        submittedToGateway = true;
+      } catch (error: any) {
+        if (!error.message?.startsWith('Not supported')) {
+          throw new Error(`Gateway rejected the evidence: ${error.message}`);
+        }
+      }
+    }
+
+    if (!(await this.disputeModel.markEvidenceSubmitted(disputeId, actorId, submittedToGateway))) {
+      throw new Error('Invalid state: evidence has already been submitted');
+    }
+    return this.getDispute(disputeId);
+  }
+
+  /**
+   * Record the outcome of a dispute decided outside the gateway's webhooks
+   */
+  async resolveDispute(disputeId: string, outcome: DisputeOutcome, actorId: string, note: string | null): Promise<PaymentDispute> {
+    const found = await this.getDispute(disputeId);
+    await this.withPayment(found.payment_id, async (connection, payment) => {
+      const dispute = (await this.disputeModel.getById(disputeId, connection, true))!;
+      if (!isOpen(dispute.status)) {
+        throw new Error(`Invalid state: dispute is already ${dispute.status}`);
+      }
+      await this.close(connection, dispute, payment, outcome, { source: 'admin', actorId, note });
+    });
+    return this.getDispute(disputeId);
+  }
+
+  // ========== Queries ==========
+
+  async getDispute(disputeId: string): Promise<PaymentDispute> {
+    const dispute = await this.disputeModel.getById(disputeId);
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    return dispute;
+  }
+
+  async listDisputes(filters: { status?: DisputeStatus; open?: boolean; subscriptionId?: string }, limit: number, offset: number) {
+    return this.disputeModel.list(filters, limit, offset);
+  }
+
+  // ========== Lifecycle ==========
+
+  private async open(
+    connection: PoolConnection,
+    payment: PaymentTransaction,
+    dispute: Omit<ProviderDispute, 'disputeId' | 'evidenceDueBy'> & { gatewayDisputeId: string | null; evidenceDueBy: Date | null },
+    actor: DisputeActor
+  ): Promise<string> {
+    const disputeId = await this.disputeModel.create(connection, {
+      paymentId: payment.id,
+      subscriptionId: payment.subscription_id,
+      gateway: payment.gateway,
+      gatewayDisputeId: dispute.gatewayDisputeId,
+      amount: dispute.amount,
+      currency: dispute.currency || payment.currency,
+      reason: dispute.reason,
+      status: isOpen(dispute.status) ? dispute.status : 'needs_response',
+      evidenceDueBy: dispute.evidenceDueBy,
+      openedBy: actor.actorId
+    });
+
+    if (payment.state === 'captured' || payment.state === 'settled') {
+      await this.transitionPayment(connection, payment, 'disputed', actor, `Dispute ${disputeId} opened`);
+    }
+    if (payment.subscription_id) {
+      const [result] = await connection.execute<ResultSetHeader>(
+        "UPDATE subscriptions SET status = 'INACTIVE', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'ACTIVE'",
+        [payment.subscription_id]
+      );
+      if (result.affectedRows > 0) {
+        await this.disputeModel.setSubscriptionFrozen(connection, disputeId, true);
+      }
+    }
+
+    // Some gateways only report a dispute once it has been decided
+    if (!isOpen(dispute.status)) {
+      const created = (await this.disputeModel.getById(disputeId, connection))!;
+      await this.close(connection, created, payment, dispute.status as DisputeOutcome, actor);
+    }
+    return disputeId;
+  }
+
+  private async follow(
+    connection: PoolConnection,
+    dispute: PaymentDispute,
+    payment: PaymentTransaction,
+    update: ProviderDispute,
+    actor: DisputeActor
+  ): Promise<string> {
+    if (isOpen(update.status)) {
+      await this.disputeModel.updateStatus(connection, dispute.id, update.status, {
+        amount: update.amount,
+        evidenceDueBy: update.evidenceDueBy || null
+      });
+    } else {
+      await this.close(connection, { ...dispute, amount: String(update.amount) } as PaymentDispute, payment, update.status as DisputeOutcome, actor);
+    }
+    return dispute.id;
+  }
+
+  /**
+   * Close a dispute. Won: the payment settles again and the subscription is
+   * unfrozen. Lost: the disputed amount comes off the subscription (all of
+   * it cancels the subscription), the same share of its wallet credits is
+   * clawed back, and a payment lost in full is marked as charged back.
+   */
+  private async close(
+    connection: PoolConnection,
+    dispute: PaymentDispute,
+    payment: PaymentTransaction,
+    outcome: DisputeOutcome,
+    actor: DisputeActor
+  ): Promise<void> {
+    if (!(await this.disputeModel.close(connection, dispute.id, outcome, { resolvedBy: actor.actorId, note: actor.note || null }))) {
+      throw new Error(`Invalid state: dispute is no longer ${dispute.status}`);
+    }
+
+    if (payment.state === 'disputed') {
+      const chargedBack = outcome === 'lost' && toCents(dispute.amount) >= toCents(payment.amount);
+      await this.transitionPayment(connection, payment, chargedBack ? 'chargeback' : 'settled', actor, `Dispute ${dispute.id} ${outcome}`);
+    }
+
+    const subscriptionId = dispute.subscription_id;
+    if (!subscriptionId) {
+      return;
+    }
+    // Another open dispute keeps the subscription frozen
+    const stillFrozen = dispute.subscription_frozen
+      ? await this.disputeModel.handOverFreeze(connection, subscriptionId, dispute.id)
+      : await this.disputeModel.hasOpenDispute(subscriptionId, connection, dispute.id);
+
+    if (outcome === 'lost') {
+      await this.refundService.reduceSubscription(connection, subscriptionId, Number(dispute.amount));
+      await this.clawBackCredits(connection, dispute, payment, subscriptionId);
+    }
+    if (dispute.subscription_frozen && !stillFrozen) {
+      await connection.execute(
+        "UPDATE subscriptions SET status = 'ACTIVE', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'INACTIVE'",
+        [subscriptionId]
+      );
+    }
+  }
+
+  /**
+   * Take the lost share of the subscription's disbursement and refund credits
+   * back out of the wallets they were paid to. Credits already withdrawn
+   * before the dispute opened cannot be recovered here; the shortfall is
+   * logged for finance to pursue.
+   */
+  private async clawBackCredits(
+    connection: PoolConnection,
+    dispute: PaymentDispute,
+    payment: PaymentTransaction,
+    subscriptionId: string
+  ): Promise<void> {
+    const share = Math.min(1, Number(dispute.amount) / Number(payment.amount));
+
+    for (const credit of await this.disputeModel.getSubscriptionCredits(connection, subscriptionId)) {
+      const owed = toMicros(Number(credit.credited) * share);
+      const held = toMicros(await this.disputeModel.getHeldBalance(credit.user_id, credit.asset, connection));
+      const available = Math.max(0, toMicros(credit.balance) - held);
+      const amount = Math.min(owed, available);
+      if (amount < owed) {
+        console.warn(
+          `Dispute ${dispute.id}: ${(owed - amount) / 1_000_000} ${credit.asset} of credits from subscription ${subscriptionId} ` +
+          `could not be clawed back from wallet ${credit.wallet_id}`
+        );
+      }
+      if (amount === 0) {
+        continue;
+      }
+
+      await this.walletTransactionService.recordChargeback(
+        connection,
+        credit.user_id,
+        credit.wallet_id,
+        amount / 1_000_000,
+        credit.asset,
+        `lost dispute ${dispute.id}`,
+        { disputeId: dispute.id, subscriptionId, paymentId: payment.id, shortfall: (owed - amount) / 1_000_000 }
+      );
+    }
+  }
+
+  private async transitionPayment(
+    connection: PoolConnection,
+    payment: PaymentTransaction,
+    to: 'disputed' | 'settled' | 'chargeback',
+    actor: DisputeActor,
+    note: string
+  ): Promise<void> {
+    const moved = await this.paymentModel.transition(connection, payment.id, payment.state, to, actor.source, {
+      eventId: actor.eventId || null,
+      note: actor.note ? `${note} (${actor.note})` : note,
+      actorId: actor.actorId
+    });
+    if (!moved) {
+      throw new Error(`Invalid state: payment is no longer ${payment.state}`);
+    }
+    payment.state = to;
+  }
+
+  private fromGateway(dispute: ProviderDispute) {
+    return {
+      gatewayDisputeId: dispute.disputeId,
+      status: dispute.status,
+      reason: dispute.reason,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      evidenceDueBy: dispute.evidenceDueBy || null
+    };
+  }
+
+  private async withPayment(
+    paymentId: string,
+    work: (connection: PoolConnection, payment: PaymentTransaction) => Promise<void>
+  ): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const payment = await this.paymentModel.getById(paymentId, connection, true);
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      await work(connection, payment);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
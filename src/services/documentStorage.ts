@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface DocumentStorage {
+  readonly name: string;
+  put(key: string, content: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+}
+
+export const sha256 = (content: Buffer): string => crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * Content-addressed key for a file, fanned out by its first two hex digits
+ */
+export const contentKey = (hash: string): string => `${hash.slice(0, 2)}/${hash}`;
+
+/**
+ * Keeps files under a local directory. Writes go through a temporary file
+ * so a crashed upload never leaves a partial file under its final key.
+ */
+export class LocalDocumentStorage implements DocumentStorage {
+  readonly name = 'local';
+
+  constructor(private directory: string) {}
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temporary = `${target}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(temporary, content);
+    await fs.rename(temporary, target);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new Error('Stored file is missing');
+      }
+      throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.directory, key);
+    if (!resolved.startsWith(path.resolve(this.directory) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return resolved;
+  }
+}
+
+/**
+ * DATA_ROOM_STORAGE picks the backend; only local disk is supported so far
+ */
+export function getDocumentStorage(): DocumentStorage {
+  const backend = process.env.DATA_ROOM_STORAGE || 'local';
+  if (backend !== 'local') {
+    throw new Error(`Unsupported data room storage: ${backend}`);
+  }
+  return new LocalDocumentStorage(process.env.DATA_ROOM_STORAGE_DIR || path.join(process.cwd(), 'storage', 'data-room'));
+}
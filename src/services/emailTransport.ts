@@ -0,0 +1,298 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+const defaultFrom = (): string => process.env.EMAIL_FROM || 'TitleBase <no-reply@titlebase.local>';
+
+const addressOnly = (value: string): string => {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+};
+
+/**
+ * Header value safe to write on one line: line breaks are dropped so a value
+ * cannot start a header of its own, and non-ASCII text is sent as RFC 2047
+ * base64 encoded-words of at most 75 characters
+ */
+function encodeHeader(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(flat)) {
+    return flat;
+  }
+
+  // 45 bytes of UTF-8 fill a 75 character word; never split a character
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of flat) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+// Base64 body wrapped at 76 characters, so any text survives 7-bit relays
+const encodeBody = (text: string): string =>
+  (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+const assertAddress = (value: string): void => {
+  if (/[\r\n]/.test(value)) {
+    throw new Error('Invalid email address');
+  }
+};
+
+/**
+ * RFC 5322 message with a text part and, if given, an HTML alternative
+ */
+function buildMimeMessage(from: string, message: EmailMessage, messageId: string): string {
+  assertAddress(from);
+  assertAddress(message.to);
+
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0'
+  ];
+  const part = (type: string, content: string) => [
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(content)
+  ];
+
+  if (!message.html) {
+    return [...headers, ...part('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `b_${crypto.randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', message.text),
+    `--${boundary}`,
+    ...part('text/html', message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+}
+
+const newMessageId = (): string => `<${crypto.randomUUID()}@${os.hostname() || 'titlebase'}>`;
+
+/**
+ * Line-oriented SMTP conversation over a socket that may be upgraded with STARTTLS
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting?: { resolve: () => void; reject: (error: Error) => void };
+  private error?: Error;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  async command(line: string | null, expected: number[]): Promise<string[]> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`);
+    }
+    const response = await this.readResponse();
+    const code = Number(response[response.length - 1].substring(0, 3));
+    if (!expected.includes(code)) {
+      const shown = line && line.startsWith('AUTH') ? 'AUTH' : line;
+      throw new Error(`SMTP ${shown || 'greeting'} failed: ${response.join(' ')}`);
+    }
+    return response;
+  }
+
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    const secured = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secured.once('secureConnect', resolve);
+      secured.once('error', reject);
+    });
+    this.socket = secured;
+    this.attach(secured);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => this.fail(new Error('SMTP connection timed out')));
+    socket.on('data', chunk => {
+      this.buffer += chunk.toString('utf8');
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) !== -1) {
+        this.lines.push(this.buffer.substring(0, index));
+        this.buffer = this.buffer.substring(index + 2);
+      }
+      this.notify();
+    });
+    socket.on('error', error => this.fail(error));
+  }
+
+  private fail(error: Error): void {
+    this.error = error;
+    this.socket.destroy();
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = undefined;
+      waiting.resolve();
+    }
+  }
+
+  // Multi-line replies use "250-" on every line but the last ("250 ")
+  private async readResponse(): Promise<string[]> {
+    for (;;) {
+      if (this.error) throw this.error;
+      const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+      if (last !== -1) {
+        return this.lines.splice(0, last + 1);
+      }
+      await new Promise<void>((resolve, reject) => {
+        this.waiting = { resolve, reject };
+      });
+    }
+  }
+}
+
+/**
+ * Minimal SMTP client: EHLO, STARTTLS when offered, AUTH PLAIN (only over
+ * TLS), one recipient
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const { host, port, secure } = this.config;
+    assertAddress(message.to);
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connected = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(connected))
+        : net.connect({ host, port }, () => resolve(connected));
+      connected.once('error', reject);
+    });
+
+    const connection = new SmtpConnection(socket);
+    const messageId = newMessageId();
+    const clientName = os.hostname() || 'localhost';
+
+    try {
+      await connection.command(null, [220]);
+      const capabilities = await connection.command(`EHLO ${clientName}`, [250]);
+
+      let encrypted = secure;
+      if (!secure && capabilities.some(line => /STARTTLS/i.test(line))) {
+        await connection.command('STARTTLS', [220]);
+        await connection.upgrade(host);
+        await connection.command(`EHLO ${clientName}`, [250]);
+        encrypted = true;
+      }
+
+      if (this.config.user) {
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials in cleartext');
+        }
+        const token = Buffer.from(`\u0000${this.config.user}\u0000${this.config.pass || ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${token}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOnly(this.config.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${addressOnly(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      // Dot-stuff lines that start with "." so they are not read as the terminator
+      const body = buildMimeMessage(this.config.from, message, messageId)
+        .replace(/\r?\n/g, '\r\n')
+        .replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, [250]);
+      await connection.command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+
+    return { messageId };
+  }
+}
+
+/**
+ * Writes each message as an .eml file instead of sending it; the default
+ * when no SMTP server is configured, and handy for local testing
+ */
+export class FileSinkTransport implements EmailTransport {
+  readonly name = 'sink';
+
+  constructor(private directory: string, private from: string = defaultFrom()) {}
+
+  async send(message: EmailMessage): Promise<{ messageId: string }> {
+    const messageId = newMessageId();
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), buildMimeMessage(this.from, message, messageId), 'utf8');
+    return { messageId };
+  }
+}
+
+/**
+ * EMAIL_TRANSPORT picks the transport explicitly; otherwise SMTP is used
+ * when SMTP_HOST is set and the file sink when it is not
+ */
+export function getEmailTransport(): EmailTransport {
+  const transport = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'sink');
+
+  if (transport === 'smtp') {
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASSWORD,
+      from: defaultFrom()
+    });
+  }
+
+  return new FileSinkTransport(process.env.EMAIL_SINK_DIR || path.join(process.cwd(), 'storage', 'mail'));
+}
@@ -0,0 +1,325 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import {
+  LedgerModel,
+  LedgerDirection,
+  NewJournalEntry,
+  NewPosting,
+  SystemAccountCode,
+  SYSTEM_ACCOUNTS,
+  toMicroUnits
+} from '../models/ledgerModel';
+import { WalletAsset, WALLET_ASSETS, DEFAULT_WALLET_ASSET } from '../models/walletModel';
+import { DisputeModel } from '../models/disputeModel';
+
+export interface LedgerLeg {
+  walletId?: string;
+  systemAccount?: SystemAccountCode;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+export interface PostedEntry {
+  journalEntryId: string;
+  walletBalances: Record<string, { before: number; after: number }>;
+}
+
+export interface WalletReconciliation {
+  walletId: string;
+  asset: WalletAsset;
+  cachedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  balanced: boolean;
+}
+
+/**
+ * Double-entry ledger behind in-app wallet balances.
+ *
+ * Every balance change is a journal entry whose postings net to zero, in a
+ * single asset. `wallet_balances` holds a cached projection of each wallet's
+ * per-asset ledger accounts (mirrored to `user_wallets.balance_usdc` for
+ * USDC) and is only ever written from here, inside the same transaction as
+ * the postings.
+ */
+export class LedgerService {
+  private ledgerModel: LedgerModel;
+  private disputeModel: DisputeModel;
+
+  constructor(private pool: Pool) {
+    this.ledgerModel = new LedgerModel(pool);
+    this.disputeModel = new DisputeModel(pool);
+  }
+
+  // ========== Posting ==========
+
+  /**
+   * Post a balanced entry on the given connection. The caller is expected to
+   * have started a transaction; wallet rows are locked for the duration.
+   * Wallets cannot be debited into funds held by an open payment dispute.
+   */
+  async postEntry(
+    connection: PoolConnection,
+    entry: NewJournalEntry,
+    legs: LedgerLeg[]
+  ): Promise<PostedEntry> {
+    const asset = entry.asset || DEFAULT_WALLET_ASSET;
+
+    // Lock wallets in a stable order so concurrent transfers cannot deadlock
+    const walletIds = [...new Set(legs.filter(leg => leg.walletId).map(leg => leg.walletId as string))].sort();
+    const cached: Record<string, number> = {};
+    const owners: Record<string, string> = {};
+
+    for (const walletId of walletIds) {
+      const [rows] = await connection.query<RowDataPacket[]>(
+        'SELECT id, user_id FROM user_wallets WHERE id = ? FOR UPDATE',
+        [walletId]
+      );
+      if (rows.length === 0) throw new Error('Wallet not found');
+      owners[walletId] = rows[0].user_id;
+
+      const [balances] = await connection.query<RowDataPacket[]>(
+        'SELECT balance FROM wallet_balances WHERE wallet_id = ? AND asset = ? FOR UPDATE',
+        [walletId, asset]
+      );
+      cached[walletId] = toMicroUnits(balances[0]?.balance || 0);
+    }
+
+    // Wallet accounts are credit-normal: credits raise the balance, debits lower it
+    const next = { ...cached };
+    for (const leg of legs) {
+      if (!leg.walletId) continue;
+      const units = toMicroUnits(leg.amount);
+      next[leg.walletId] += leg.direction === 'credit' ? units : -units;
+    }
+
+    for (const walletId of walletIds) {
+      if (next[walletId] < 0) throw new Error(`Insufficient ${asset} balance`);
+      if (next[walletId] < cached[walletId]) {
+        await this.assertNotHeld(connection, owners[walletId], asset, next[walletId]);
+      }
+    }
+
+    const postings: NewPosting[] = [];
+    for (const leg of legs) {
+      const account = leg.walletId
+        ? await this.ledgerModel.getOrCreateWalletAccount(leg.walletId, asset, connection)
+        : leg.systemAccount
+          ? await this.ledgerModel.getOrCreateSystemAccount(leg.systemAccount, asset, connection)
+          : null;
+      if (!account) throw new Error('Ledger leg requires a wallet or system account');
+
+      postings.push({ accountId: account.id, direction: leg.direction, amount: leg.amount });
+    }
+
+    const journalEntryId = await this.ledgerModel.createJournalEntry(connection, { ...entry, asset }, postings);
+
+    const walletBalances: PostedEntry['walletBalances'] = {};
+    for (const walletId of walletIds) {
+      const after = next[walletId] / 1_000_000;
+      await this.writeCachedBalance(connection, walletId, asset, after);
+      walletBalances[walletId] = { before: cached[walletId] / 1_000_000, after };
+    }
+
+    return { journalEntryId, walletBalances };
+  }
+
+  /**
+   * Credits from a subscription under an open payment dispute stay in the
+   * wallet until the dispute closes
+   */
+  private async assertNotHeld(connection: PoolConnection, userId: string, asset: WalletAsset, remainingUnits: number): Promise<void> {
+    const held = await this.disputeModel.getHeldBalance(userId, asset, connection);
+    if (held > 0 && remainingUnits < toMicroUnits(held)) {
+      throw new Error(`Insufficient ${asset} balance: ${held} ${asset} is held while a payment dispute is open`);
+    }
+  }
+
+  /**
+   * Seed opening balances for wallets that predate the ledger, so their
+   * existing balance_usdc is backed by postings against the float.
+   */
+  async backfillOpeningBalances(): Promise<number> {
+    const [wallets] = await this.pool.query<RowDataPacket[]>(
+      `SELECT w.id, w.balance_usdc
+       FROM user_wallets w
+       LEFT JOIN ledger_accounts a ON a.wallet_id = w.id
+       WHERE a.id IS NULL AND w.balance_usdc > 0`
+    );
+
+    let seeded = 0;
+    for (const wallet of wallets) {
+      const connection = await this.pool.getConnection();
+      try {
+        await connection.beginTransaction();
+
+        const amount = Number(wallet.balance_usdc);
+        // The wallet already holds this balance; post without moving the cache
+        await this.writeCachedBalance(connection, wallet.id, DEFAULT_WALLET_ASSET, 0);
+        await this.postEntry(
+          connection,
+          {
+            entryType: 'opening_balance',
+            description: 'Opening balance carried over from pre-ledger wallet',
+            referenceType: 'wallet',
+            referenceId: wallet.id
+          },
+          [
+            { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount },
+            { walletId: wallet.id, direction: 'credit', amount }
+          ]
+        );
+
+        await connection.commit();
+        seeded++;
+      } catch (error) {
+        await connection.rollback();
+        console.error(`Failed to seed opening balance for wallet ${wallet.id}:`, error);
+      } finally {
+        connection.release();
+      }
+    }
+
+    return seeded;
+  }
+
+  // ========== Balances & Proof ==========
+
+  async getWalletLedgerBalance(walletId: string, asset: WalletAsset = DEFAULT_WALLET_ASSET): Promise<number> {
+    const account = await this.ledgerModel.getWalletAccount(walletId, asset);
+    if (!account) return 0;
+    return this.ledgerModel.getAccountBalance(account.id);
+  }
+
+  /**
+   * Compare a wallet's cached balance in one asset against the sum of its postings
+   */
+  async reconcileWallet(walletId: string, asset: WalletAsset = DEFAULT_WALLET_ASSET): Promise<WalletReconciliation> {
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT w.id, b.balance
+       FROM user_wallets w
+       LEFT JOIN wallet_balances b ON b.wallet_id = w.id AND b.asset = ?
+       WHERE w.id = ?`,
+      [asset, walletId]
+    );
+    if (rows.length === 0) throw new Error('Wallet not found');
+
+    const cachedBalance = Number(rows[0].balance || 0);
+    const ledgerBalance = await this.getWalletLedgerBalance(walletId, asset);
+    const difference = (toMicroUnits(cachedBalance) - toMicroUnits(ledgerBalance)) / 1_000_000;
+
+    return {
+      walletId,
+      asset,
+      cachedBalance,
+      ledgerBalance,
+      difference,
+      balanced: difference === 0
+    };
+  }
+
+  async reconcileWalletAssets(walletId: string): Promise<WalletReconciliation[]> {
+    return Promise.all(WALLET_ASSETS.map(asset => this.reconcileWallet(walletId, asset)));
+  }
+
+  /**
+   * Postings for a wallet in one asset, newest first, with the journal entry
+   * they belong to
+   */
+  async getWalletStatement(
+    walletId: string,
+    limit: number = 50,
+    offset: number = 0,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ) {
+    const account = await this.ledgerModel.getWalletAccount(walletId, asset);
+    if (!account) return [];
+
+    const postings = await this.ledgerModel.getPostingsByAccount(account.id, limit, offset);
+    return postings.map(posting => ({
+      postingId: posting.id,
+      journalEntryId: posting.journal_entry_id,
+      entryType: posting.entry_type,
+      direction: posting.direction,
+      amount: Number(posting.amount),
+      currency: posting.currency,
+      description: posting.description,
+      referenceType: posting.reference_type,
+      referenceId: posting.reference_id,
+      createdAt: posting.created_at
+    }));
+  }
+
+  async getJournalEntry(entryId: string) {
+    const entry = await this.ledgerModel.getJournalEntry(entryId);
+    if (!entry) return null;
+
+    const postings = await this.ledgerModel.getPostingsByEntry(entryId);
+    return {
+      ...entry,
+      postings: postings.map(posting => ({ ...posting, amount: Number(posting.amount) }))
+    };
+  }
+
+  /**
+   * Per-account totals plus a check that the ledger nets to zero in each asset
+   */
+  async getTrialBalance() {
+    const rows = await this.ledgerModel.getPostingTotals();
+
+    const totals: Record<string, { debits: number; credits: number }> = {};
+    const accounts = rows.map(row => {
+      const debits = toMicroUnits(row.debits);
+      const credits = toMicroUnits(row.credits);
+      const totalsForAsset = totals[row.currency] || (totals[row.currency] = { debits: 0, credits: 0 });
+      totalsForAsset.debits += debits;
+      totalsForAsset.credits += credits;
+
+      return {
+        accountId: row.id,
+        accountCode: row.account_code,
+        accountType: row.account_type,
+        currency: row.currency,
+        debits: debits / 1_000_000,
+        credits: credits / 1_000_000,
+        balance: (row.normal_balance === 'credit' ? credits - debits : debits - credits) / 1_000_000
+      };
+    });
+
+    const assets = Object.entries(totals).map(([currency, { debits, credits }]) => ({
+      currency,
+      totalDebits: debits / 1_000_000,
+      totalCredits: credits / 1_000_000,
+      balanced: debits === credits
+    }));
+
+    return {
+      balanced: assets.every(asset => asset.balanced),
+      assets,
+      accounts
+    };
+  }
+
+  /**
+   * Write the cached per-asset balance, mirroring USDC onto user_wallets
+   */
+  private async writeCachedBalance(
+    connection: PoolConnection,
+    walletId: string,
+    asset: WalletAsset,
+    balance: number
+  ): Promise<void> {
+    await connection.execute(
+      `INSERT INTO wallet_balances (wallet_id, asset, balance)
+       VALUES (?, ?, ?)
+       ON DUPLICATE KEY UPDATE balance = VALUES(balance)`,
+      [walletId, asset, balance.toFixed(6)]
+    );
+
+    if (asset === DEFAULT_WALLET_ASSET) {
+      await connection.execute(
+        'UPDATE user_wallets SET balance_usdc = ? WHERE id = ?',
+        [balance.toFixed(6), walletId]
+      );
+    }
+  }
+}
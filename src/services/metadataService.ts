@@ -1,14 +1,28 @@
-import { PinataSDK } from 'pinata-web3';
 import { query } from '../utils/database';
+import { ContentStorageProvider, getContentStorageProvider } from './contentStorage';
+import { isVerifiableCid, verifyCid } from '../utils/cid';
+import { sha256 } from './documentStorage';
 
+export type MetadataDisplayType = 'number' | 'boost_number' | 'boost_percentage' | 'date';
+
+export interface MetadataAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: MetadataDisplayType;
+}
+
+/**
+ * ERC-721 metadata JSON with the OpenSea extensions (external_url,
+ * animation_url, typed attributes). The camelCase fields after attributes
+ * are platform data; marketplaces ignore keys they do not know.
+ */
 export interface PropertyMetadata {
   name: string;
   description: string;
   image: string;
-  attributes: Array<{
-    trait_type: string;
-    value: string | number;
-  }>;
+  external_url?: string;
+  animation_url?: string;
+  attributes: MetadataAttribute[];
   fractional: boolean;
   supply: number;
   projectId?: string;
@@ -16,16 +30,154 @@ export interface PropertyMetadata {
   address: string;
   propertyType?: string;
   ownershipType?: string;
+  documents?: Array<{
+    name: string;
+    uri: string;
+    sha256: string;
+  }>;
+}
+
+const parseList = (value: any): any[] => {
+  if (!value) return [];
+  try {
+    const list = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+};
+
+// Images and documents are stored either as URLs or as { url, name } objects
+const assetUrl = (asset: any): string | null => (typeof asset === 'string' ? asset : asset?.url || null);
+
+/**
+ * Attributes for a property row; empty values are left out rather than
+ * sent as null or ''
+ */
+function buildAttributes(prop: any): MetadataAttribute[] {
+  const attributes: MetadataAttribute[] = [];
+  const text = (trait_type: string, value: any) => {
+    if (value !== null && value !== undefined && value !== '') attributes.push({ trait_type, value: String(value) });
+  };
+  const number = (trait_type: string, value: any) => {
+    if (value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value))) {
+      attributes.push({ trait_type, value: Number(value), display_type: 'number' });
+    }
+  };
+
+  text('Property Type', prop.property_type || 'Residential');
+  text('Ownership Type', prop.ownership_type || 'Full');
+  text('Address', prop.address);
+  text('Jurisdiction', prop.jurisdiction);
+  text('Fractional', prop.fractional ? 'Yes' : 'No');
+  number('Supply', prop.supply);
+  number('Square Footage', prop.square_footage);
+  number('Bedrooms', prop.bedrooms);
+  number('Bathrooms', prop.bathrooms);
+  number('Lot Size', prop.lot_size);
+  number('Assessed Value', prop.assessed_value);
+  // Plain number so marketplaces rank it rather than format it
+  if (prop.year_built) attributes.push({ trait_type: 'Year Built', value: Number(prop.year_built) });
+  text('Verification', prop.verification_status);
+  text('Project ID', prop.project_id);
+  text('Owner', prop.owner_username || prop.owner_address);
+  if (prop.created_at) {
+    attributes.push({ trait_type: 'Listed', value: Math.floor(new Date(prop.created_at).getTime() / 1000), display_type: 'date' });
+  }
+  return attributes;
+}
+
+/**
+ * Token metadata for a property row joined with its owner's username and
+ * wallet address
+ */
+export function buildTokenMetadata(
+  prop: any,
+  assets: { image?: string | null; documents?: PropertyMetadata['documents'] } = {}
+): PropertyMetadata {
+  const image = assets.image !== undefined ? assets.image : assetUrl(parseList(prop.images)[0]);
+  const metadata: PropertyMetadata = {
+    name: prop.title,
+    description: prop.description || `${prop.title} - ${prop.address}`,
+    image: image || '',
+    attributes: buildAttributes(prop),
+    fractional: Boolean(prop.fractional),
+    supply: prop.supply !== null && prop.supply !== undefined ? Number(prop.supply) : 1,
+    projectId: prop.project_id || undefined,
+    propertyId: prop.id,
+    address: prop.address,
+    propertyType: prop.property_type || undefined,
+    ownershipType: prop.ownership_type || undefined,
+    documents: assets.documents
+  };
+
+  if (process.env.FRONTEND_URL) {
+    metadata.external_url = `${process.env.FRONTEND_URL}/property/${prop.id}`;
+  }
+  if (prop.video_tour_url) {
+    metadata.animation_url = prop.video_tour_url;
+  }
+  return metadata;
 }
 
+/**
+ * Checks a metadata document supplied by an admin before it is pinned
+ */
+export function validateTokenMetadata(metadata: any): PropertyMetadata {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new Error('Invalid metadata: expected a JSON object');
+  }
+  if (typeof metadata.name !== 'string' || !metadata.name.trim()) {
+    throw new Error('Invalid metadata: name is required');
+  }
+  if (typeof metadata.description !== 'string') {
+    throw new Error('Invalid metadata: description must be a string');
+  }
+  for (const key of ['image', 'external_url', 'animation_url']) {
+    if (metadata[key] !== undefined && typeof metadata[key] !== 'string') {
+      throw new Error(`Invalid metadata: ${key} must be a URI string`);
+    }
+  }
+  if (!Array.isArray(metadata.attributes)) {
+    throw new Error('Invalid metadata: attributes must be an array');
+  }
+  for (const attribute of metadata.attributes) {
+    if (!attribute || typeof attribute.trait_type !== 'string' || !['string', 'number'].includes(typeof attribute.value)) {
+      throw new Error('Invalid metadata: each attribute needs a trait_type and a string or number value');
+    }
+    if (attribute.display_type !== undefined) {
+      if (!['number', 'boost_number', 'boost_percentage', 'date'].includes(attribute.display_type)) {
+        throw new Error(`Invalid metadata: unsupported display_type ${attribute.display_type}`);
+      }
+      if (typeof attribute.value !== 'number') {
+        throw new Error(`Invalid metadata: ${attribute.trait_type} has a display_type and needs a numeric value`);
+      }
+    }
+  }
+  return metadata as PropertyMetadata;
+}
+
+interface PinnedAsset {
+  uri: string;
+  sha256: string | null;
+}
+
+const ASSET_TIMEOUT_MS = 30_000;
+const maxAssetBytes = () => Number(process.env.METADATA_MAX_ASSET_MB || 20) * 1024 * 1024;
+
 export class MetadataService {
-  private pinata: PinataSDK;
+  private provider?: ContentStorageProvider;
 
-  constructor() {
-    this.pinata = new PinataSDK({
-      pinataJwt: process.env.PINATA_JWT!,
-      pinataGateway: process.env.PINATA_GATEWAY || 'gateway.pinata.cloud',
-    });
+  constructor(provider?: ContentStorageProvider) {
+    this.provider = provider;
+  }
+
+  // Resolved on first use so a misconfigured provider fails the call, not the import
+  private get storage(): ContentStorageProvider {
+    if (!this.provider) {
+      this.provider = getContentStorageProvider();
+    }
+    return this.provider;
   }
 
   async prepareMetadata(propertyId: string): Promise<PropertyMetadata> {
@@ -33,7 +185,7 @@ export class MetadataService {
     const property = await query(
       `SELECT p.*, u.username as owner_username, u.wallet_address as owner_address
        FROM properties p
-       LEFT JOIN users u ON p.user_id = u.id
+       LEFT JOIN users u ON COALESCE(p.owner_id, p.user_id) = u.id
        WHERE p.id = ?`,
       [propertyId]
     );
@@ -44,88 +196,34 @@ export class MetadataService {
 
     const prop = property[0];
 
-    // Upload images and documents to IPFS
+    // Pin the actual image and document bytes, not just their URLs
     const imageUrls: string[] = [];
-    if (prop.images && Array.isArray(prop.images)) {
-      for (const image of prop.images) {
-        if (image.url) {
-          // If already IPFS, use as is
-          if (image.url.startsWith('ipfs://')) {
-            imageUrls.push(image.url);
-          } else {
-            // Upload to IPFS
-            const upload = await this.pinata.upload.file(new File([], image.url));
-            imageUrls.push(`ipfs://${upload.IpfsHash}`);
-          }
-        }
+    for (const image of parseList(prop.images)) {
+      const url = assetUrl(image);
+      if (url) {
+        imageUrls.push((await this.pinAsset(url, image.name)).uri);
       }
     }
 
-    const documentUrls: string[] = [];
-    if (prop.documents && Array.isArray(prop.documents)) {
-      for (const doc of prop.documents) {
-        if (doc.url) {
-          if (doc.url.startsWith('ipfs://')) {
-            documentUrls.push(doc.url);
-          } else {
-            const upload = await this.pinata.upload.file(new File([], doc.url));
-            documentUrls.push(`ipfs://${upload.IpfsHash}`);
-          }
-        }
+    const documents: NonNullable<PropertyMetadata['documents']> = [];
+    for (const doc of parseList(prop.documents)) {
+      const url = assetUrl(doc);
+      if (url) {
+        const pinned = await this.pinAsset(url, doc.name);
+        documents.push({
+          name: doc.name || doc.title || pinned.uri,
+          uri: pinned.uri,
+          sha256: pinned.sha256 || ''
+        });
       }
     }
 
-    // Build metadata object
-    const metadata: PropertyMetadata = {
-      name: prop.title,
-      description: prop.description || `${prop.title} - ${prop.address}`,
-      image: imageUrls.length > 0 ? imageUrls[0] : '',
-      attributes: [
-        {
-          trait_type: 'Property Type',
-          value: prop.property_type || 'Residential',
-        },
-        {
-          trait_type: 'Ownership Type',
-          value: prop.ownership_type || 'Full',
-        },
-        {
-          trait_type: 'Address',
-          value: prop.address,
-        },
-        {
-          trait_type: 'Fractional',
-          value: prop.fractional ? 'Yes' : 'No',
-        },
-        {
-          trait_type: 'Supply',
-          value: prop.supply,
-        },
-        {
-          trait_type: 'Project ID',
-          value: prop.project_id || '',
-        },
-        {
-          trait_type: 'Owner',
-          value: prop.owner_username || prop.owner_address || '',
-        },
-      ],
-      fractional: prop.fractional,
-      supply: prop.supply,
-      projectId: prop.project_id,
-      propertyId: prop.id,
-      address: prop.address,
-      propertyType: prop.property_type,
-      ownershipType: prop.ownership_type,
-    };
-
-    return metadata;
+    return buildTokenMetadata(prop, { image: imageUrls[0] || '', documents });
   }
 
   async uploadMetadataToIPFS(metadata: PropertyMetadata): Promise<string> {
     try {
-      const upload = await this.pinata.upload.json(metadata);
-      const cid = upload.IpfsHash;
+      const { cid } = await this.pinMetadata(metadata);
 
       // Update property with metadata hash
       await query(
@@ -140,15 +238,90 @@ export class MetadataService {
     }
   }
 
+  /**
+   * Pin a metadata document; sha256 is the hash of the pinned JSON bytes
+   * and the document hash recorded on-chain
+   */
+  async pinMetadata(metadata: PropertyMetadata): Promise<{ cid: string; uri: string; sha256: string }> {
+    const content = Buffer.from(JSON.stringify(metadata));
+    const cid = await this.uploadContent(content, {
+      name: `${metadata.propertyId}.json`,
+      mimeType: 'application/json'
+    });
+    return { cid, uri: `ipfs://${cid}`, sha256: sha256(content) };
+  }
+
   async getMetadataFromIPFS(cid: string): Promise<PropertyMetadata> {
     try {
-      const data = await this.pinata.gateways.get(cid.replace('ipfs://', ''));
-      return data.data as unknown as PropertyMetadata;
+      return JSON.parse((await this.getContent(cid)).toString('utf8')) as PropertyMetadata;
     } catch (error) {
       console.error('Failed to fetch metadata from IPFS:', error);
       throw new Error('IPFS fetch failed');
     }
   }
+
+  /**
+   * Store bytes with the configured provider and check the CID it returns
+   */
+  async uploadContent(content: Buffer, options: { name?: string; mimeType?: string } = {}): Promise<string> {
+    const cid = await this.storage.put(content, options);
+    if (isVerifiableCid(cid, content.length) && !verifyCid(cid, content)) {
+      throw new Error(`Storage provider ${this.storage.name} returned CID ${cid} that does not match the content`);
+    }
+    return cid;
+  }
+
+  /**
+   * Read content by CID, rejecting bytes that do not hash to it
+   */
+  async getContent(cid: string): Promise<Buffer> {
+    const id = cid.replace('ipfs://', '');
+    const content = await this.storage.get(id);
+    if (!verifyCid(id, content)) {
+      throw new Error(`Content for ${id} does not match its CID`);
+    }
+    return content;
+  }
+
+  /**
+   * HTTP URL for an ipfs:// URI through the provider's gateway; other URLs
+   * are returned unchanged
+   */
+  gatewayUrl(uri: string): string {
+    return uri.startsWith('ipfs://') ? this.storage.gatewayUrl(uri.replace('ipfs://', '')) : uri;
+  }
+
+  /**
+   * Fetch an image or document and pin its bytes. Assets already on IPFS
+   * are kept as they are.
+   */
+  private async pinAsset(url: string, name?: string): Promise<PinnedAsset> {
+    if (url.startsWith('ipfs://')) {
+      return { uri: url, sha256: null };
+    }
+    if (!/^https?:\/\//.test(url)) {
+      throw new Error(`Unsupported asset URL: ${url}`);
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch asset ${url}: ${response.status}`);
+    }
+    const declaredSize = Number(response.headers.get('content-length') || 0);
+    if (declaredSize > maxAssetBytes()) {
+      throw new Error(`Asset ${url} is larger than ${maxAssetBytes()} bytes`);
+    }
+    const content = Buffer.from(await response.arrayBuffer());
+    if (content.length === 0 || content.length > maxAssetBytes()) {
+      throw new Error(`Asset ${url} is empty or larger than ${maxAssetBytes()} bytes`);
+    }
+
+    const cid = await this.uploadContent(content, {
+      name: name || url.split('/').pop() || 'asset',
+      mimeType: response.headers.get('content-type') || undefined
+    });
+    return { uri: `ipfs://${cid}`, sha256: sha256(content) };
+  }
 }
 
-export const metadataService = new MetadataService();
\ No newline at end of file
+export const metadataService = new MetadataService();
@@ -1,7 +1,8 @@
 require("dotenv").config(); 
 import { ethers } from 'ethers';
-import { query } from '../utils/database';
+import { query, getPool } from '../utils/database';
 import { metadataService } from './metadataService';
+import { TokenMetadataService } from './tokenMetadataService';
 import { getProvider } from '../utils/ethersProvider';
 
 export interface MintingResult {
@@ -61,13 +62,13 @@ export class MintingService {
         throw new Error(`Property ${propertyId} is not approved for minting`);
       }
 
-      // Prepare metadata if not already done
-      let metadataURI = prop.metadata_hash;
-      if (!metadataURI) {
+      // Prepare metadata if not already done; metadata_hash holds the CID
+      let metadataCid: string = prop.metadata_hash;
+      if (!metadataCid) {
         const metadata = await metadataService.prepareMetadata(propertyId);
-        metadataURI = await metadataService.uploadMetadataToIPFS(metadata);
-        metadataURI = metadataURI.replace('ipfs://', 'https://gateway.pinata.cloud/ipfs/');
+        metadataCid = (await metadataService.uploadMetadataToIPFS(metadata)).replace('ipfs://', '');
       }
+      const metadataURI = metadataService.gatewayUrl(`ipfs://${metadataCid.replace('ipfs://', '')}`);
 
       // Get owner address
       const user = await query(
@@ -127,6 +128,19 @@ export class MintingService {
         [tokenId, propertyId, tokenId]
       );
 
+      // The minted metadata is version 1 of the token's history
+      try {
+        await new TokenMetadataService(getPool()).recordMintedVersion(
+          propertyId,
+          tokenId,
+          metadataCid.replace('ipfs://', ''),
+          receipt.hash,
+          receipt.blockNumber
+        );
+      } catch (historyError) {
+        console.error(`Failed to record minted metadata version for ${propertyId}:`, historyError);
+      }
+
       const result: MintingResult = {
         tokenId,
         transactionHash: receipt.hash,
@@ -0,0 +1,474 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import crypto from 'crypto';
+import dns from 'dns/promises';
+import net from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  NotificationDeliveryModel,
+  NotificationDelivery,
+  NotificationChannel,
+  NOTIFICATION_CHANNELS,
+  DEFAULT_NOTIFICATION_CHANNELS,
+  DIGEST_NOTIFICATION_TYPE
+} from '../models/notificationDeliveryModel';
+import { getEmailTransport } from './emailTransport';
+import { NotificationTemplateService } from './notificationTemplateService';
+import { NotificationScheduleService } from './notificationScheduleService';
+
+// Wait before each retry, by attempts already made; the last failure is final
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+const CLAIM_LEASE_SECONDS = 5 * 60;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const DIGEST_SUMMARY_LINES = 20;
+
+class PermanentDeliveryError extends Error {}
+
+// Loopback, private, link-local, shared and otherwise non-public ranges
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// BlockList also matches IPv4-mapped IPv6 addresses against the IPv4 ranges
+const isPublicAddress = (address: string): boolean =>
+  !NON_PUBLIC_ADDRESSES.check(address, net.isIPv4(address) ? 'ipv4' : 'ipv6');
+
+/**
+ * Webhooks may only reach public hosts; every address the name resolves to
+ * is checked so internal services cannot be addressed through DNS
+ */
+async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    throw new Error('Invalid webhook URL: host does not resolve');
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new PermanentDeliveryError('Invalid webhook URL: host must be publicly reachable');
+  }
+}
+
+interface DeliveryOutcome {
+  succeeded: boolean;
+  responseCode: number | null;
+  error: string | null;
+  permanent: boolean;
+}
+
+/**
+ * Fans notifications out to in-app, email and webhook channels according to
+ * each user's per-type preferences, records every delivery attempt and
+ * retries failed email and webhook deliveries with backoff. External sends
+ * follow the user's digest and quiet-hours schedule.
+ */
+export class NotificationDeliveryService {
+  private deliveryModel: NotificationDeliveryModel;
+  private scheduleService: NotificationScheduleService;
+
+  constructor(private pool: Pool) {
+    this.deliveryModel = new NotificationDeliveryModel(pool);
+    this.scheduleService = new NotificationScheduleService(pool);
+  }
+
+  // ========== Preferences ==========
+
+  /**
+   * Channels a notification type should go to for this user
+   */
+  async resolveChannels(userId: string, notificationType: string): Promise<NotificationChannel[]> {
+    const defaults = DEFAULT_NOTIFICATION_CHANNELS[notificationType] || ['in_app'];
+    const overrides = await this.deliveryModel.getPreferences(userId, notificationType);
+    const enabled = new Set<NotificationChannel>(defaults);
+
+    for (const preference of overrides) {
+      if (preference.enabled) enabled.add(preference.channel);
+      else enabled.delete(preference.channel);
+    }
+
+    return NOTIFICATION_CHANNELS.filter(channel => enabled.has(channel));
+  }
+
+  /**
+   * Preference matrix for every known type plus any type the user has set
+   */
+  async getPreferences(userId: string) {
+    const overrides = await this.deliveryModel.getPreferences(userId);
+    const types = new Set([...Object.keys(DEFAULT_NOTIFICATION_CHANNELS), ...overrides.map(row => row.notification_type)]);
+    const webhook = await this.deliveryModel.getWebhook(userId);
+
+    const preferences: Record<string, Record<NotificationChannel, boolean>> = {};
+    for (const type of Array.from(types).sort()) {
+      const defaults = DEFAULT_NOTIFICATION_CHANNELS[type] || ['in_app'];
+      preferences[type] = {
+        in_app: defaults.includes('in_app'),
+        email: defaults.includes('email'),
+        webhook: defaults.includes('webhook')
+      };
+    }
+    for (const row of overrides) {
+      preferences[row.notification_type][row.channel] = !!row.enabled;
+    }
+
+    return {
+      channels: NOTIFICATION_CHANNELS,
+      preferences,
+      webhook: webhook && webhook.is_active ? { url: webhook.url, updatedAt: webhook.updated_at } : null
+    };
+  }
+
+  async updatePreferences(
+    userId: string,
+    updates: Array<{ type: string; channel: string; enabled: boolean }>
+  ) {
+    if (!Array.isArray(updates) || updates.length === 0) {
+      throw new Error('preferences must be a non-empty array');
+    }
+
+    for (const update of updates) {
+      if (!update.type || typeof update.type !== 'string' || update.type.length > 50) {
+        throw new Error('Each preference needs a notification type');
+      }
+      if (!NOTIFICATION_CHANNELS.includes(update.channel as NotificationChannel)) {
+        throw new Error(`Unknown channel: ${update.channel}. Channels: ${NOTIFICATION_CHANNELS.join(', ')}`);
+      }
+      if (typeof update.enabled !== 'boolean') {
+        throw new Error('enabled must be true or false');
+      }
+    }
+
+    for (const update of updates) {
+      await this.deliveryModel.upsertPreference(userId, update.type, update.channel as NotificationChannel, update.enabled);
+    }
+
+    return this.getPreferences(userId);
+  }
+
+  // ========== Webhook Endpoint ==========
+
+  /**
+   * Register (or replace) the user's webhook; the returned secret signs every
+   * payload and is only shown once
+   */
+  async setWebhook(userId: string, url: string): Promise<{ url: string; secret: string }> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error('Invalid webhook URL');
+    }
+    if (parsed.protocol !== 'https:') {
+      throw new Error('Webhook URL must use https');
+    }
+    await assertPublicHost(parsed.hostname);
+
+    const secret = crypto.randomBytes(32).toString('hex');
+    await this.deliveryModel.upsertWebhook(userId, parsed.toString(), secret);
+    return { url: parsed.toString(), secret };
+  }
+
+  async removeWebhook(userId: string): Promise<void> {
+    await this.deliveryModel.deactivateWebhook(userId);
+  }
+
+  // ========== Fan-out ==========
+
+  /**
+   * Record deliveries for a stored notification and attempt the external
+   * channels straight away; failures are left for the retry job. Types the
+   * user gets in digests are batched instead.
+   */
+  async fanOut(
+    notificationId: string,
+    userId: string,
+    notificationType: string,
+    channels: NotificationChannel[]
+  ): Promise<void> {
+    const schedule = channels.some(channel => channel !== 'in_app')
+      ? await this.scheduleService.getSchedule(userId)
+      : null;
+
+    for (const channel of channels) {
+      if (channel === 'in_app') {
+        await this.deliveryModel.createDelivery(notificationId, userId, channel, 'delivered');
+        continue;
+      }
+      if (schedule && this.scheduleService.shouldBatch(schedule, notificationType)) {
+        await this.deliveryModel.createDelivery(notificationId, userId, channel, 'batched');
+        continue;
+      }
+
+      const deliveryId = await this.deliveryModel.createDelivery(notificationId, userId, channel);
+      try {
+        await this.attemptDelivery(deliveryId);
+      } catch (error) {
+        console.error(`Notification delivery ${deliveryId} (${channel}) errored:`, error);
+      }
+    }
+  }
+
+  /**
+   * Retry every pending delivery that is due; returns how many were attempted
+   */
+  async processDueDeliveries(limit: number = 50): Promise<{ attempted: number; delivered: number }> {
+    const ids = await this.deliveryModel.getDueDeliveryIds(limit);
+    let attempted = 0;
+    let delivered = 0;
+
+    for (const id of ids) {
+      if (!(await this.deliveryModel.claimDelivery(id, CLAIM_LEASE_SECONDS))) continue;
+      attempted++;
+      if (await this.attemptDelivery(id)) delivered++;
+    }
+
+    return { attempted, delivered };
+  }
+
+  async retryDelivery(deliveryId: string): Promise<NotificationDelivery> {
+    const delivery = await this.deliveryModel.getDeliveryById(deliveryId);
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+    if (delivery.status !== 'failed') {
+      throw new Error('Only failed deliveries can be retried');
+    }
+
+    await this.deliveryModel.requeueDelivery(deliveryId);
+    await this.attemptDelivery(deliveryId);
+    return (await this.deliveryModel.getDeliveryById(deliveryId))!;
+  }
+
+  // ========== Digests ==========
+
+  /**
+   * Send every digest that has fallen due; returns how many were sent
+   */
+  async processDueDigests(limit: number = 200): Promise<{ digests: number; notifications: number }> {
+    const queues = await this.deliveryModel.getBatchedQueues(limit);
+    const now = new Date();
+    let digests = 0;
+    let notifications = 0;
+
+    for (const queue of queues) {
+      const schedule = await this.scheduleService.getSchedule(queue.user_id);
+      if (this.scheduleService.nextDigestAt(schedule, new Date(queue.oldest)) > now) continue;
+
+      try {
+        const count = await this.sendDigest(queue.user_id, queue.channel);
+        if (count > 0) {
+          digests++;
+          notifications += count;
+        }
+      } catch (error) {
+        console.error(`Notification digest for user ${queue.user_id} (${queue.channel}) failed:`, error);
+      }
+    }
+
+    return { digests, notifications };
+  }
+
+  /**
+   * Fold a user's batched deliveries on one channel into a single digest
+   * notification and deliver it; returns how many notifications it holds
+   */
+  private async sendDigest(userId: string, channel: NotificationChannel): Promise<number> {
+    const digestId = uuidv4();
+    if (!(await this.deliveryModel.claimBatchedDeliveries(userId, channel, digestId))) return 0;
+
+    let items: Array<{ id: string; type: string; title: string; message: string; createdAt: Date }>;
+    try {
+      const templateService = new NotificationTemplateService(this.pool);
+      const locale = await templateService.getUserLocale(userId);
+      const rows = await this.deliveryModel.getDigestedDeliveries(digestId);
+
+      items = [];
+      for (const row of rows) {
+        const text = await templateService.renderNotification(row as any, locale);
+        items.push({ id: row.id, type: row.type, ...text, createdAt: row.created_at });
+      }
+
+      const data = {
+        count: items.length,
+        summary: items.slice(0, DIGEST_SUMMARY_LINES).map(item => `- ${item.title}: ${item.message}`).join('\n'),
+        omitted: Math.max(items.length - DIGEST_SUMMARY_LINES, 0),
+        notifications: items
+      };
+      const rendered = await templateService.render(DIGEST_NOTIFICATION_TYPE, locale, data);
+      if (!rendered) {
+        throw new Error(`No notification template for type ${DIGEST_NOTIFICATION_TYPE}`);
+      }
+      await this.deliveryModel.insertDigestNotification(digestId, userId, rendered.title, rendered.message, data);
+    } catch (error) {
+      await this.deliveryModel.releaseDigestedDeliveries(digestId);
+      throw error;
+    }
+
+    const deliveryId = await this.deliveryModel.createDelivery(digestId, userId, channel);
+    await this.attemptDelivery(deliveryId);
+    return items.length;
+  }
+
+  // ========== History ==========
+
+  async getUserDeliveries(userId: string, limit: number = 50, offset: number = 0) {
+    return this.deliveryModel.getDeliveriesByUser(userId, limit, offset);
+  }
+
+  async getDeliveries(filters: { status?: any; channel?: any }, limit: number = 50, offset: number = 0) {
+    return this.deliveryModel.getDeliveries(filters, limit, offset);
+  }
+
+  async getDeliveryWithAttempts(deliveryId: string) {
+    const delivery = await this.deliveryModel.getDeliveryById(deliveryId);
+    if (!delivery) {
+      throw new Error('Delivery not found');
+    }
+    return { ...delivery, attempts: await this.deliveryModel.getAttempts(deliveryId) };
+  }
+
+  // ========== Channels ==========
+
+  private async attemptDelivery(deliveryId: string): Promise<boolean> {
+    const delivery = await this.deliveryModel.getDeliveryById(deliveryId);
+    if (!delivery || delivery.status !== 'pending') return false;
+
+    // Held back, without using up an attempt, until the user's quiet hours end
+    const holdUntil = await this.quietHoursHold(delivery);
+    if (holdUntil) {
+      await this.deliveryModel.deferDelivery(delivery.id, holdUntil);
+      return false;
+    }
+
+    const startedAt = Date.now();
+    let outcome: DeliveryOutcome;
+    try {
+      const notification = await this.getNotification(delivery.notification_id);
+      const responseCode = delivery.channel === 'email'
+        ? await this.sendEmail(delivery.user_id, notification)
+        : await this.sendWebhook(delivery, notification);
+      outcome = { succeeded: true, responseCode, error: null, permanent: false };
+    } catch (error: any) {
+      outcome = {
+        succeeded: false,
+        responseCode: typeof error.responseCode === 'number' ? error.responseCode : null,
+        error: String(error.message || error).substring(0, 1000),
+        permanent: error instanceof PermanentDeliveryError
+      };
+    }
+
+    const attemptsMade = delivery.attempts + 1;
+    const nextAttemptAt = !outcome.succeeded && !outcome.permanent && attemptsMade < MAX_ATTEMPTS
+      ? new Date(Date.now() + RETRY_DELAYS_MINUTES[attemptsMade - 1] * 60 * 1000)
+      : null;
+
+    await this.deliveryModel.recordAttempt(delivery, { ...outcome, durationMs: Date.now() - startedAt }, nextAttemptAt);
+    return outcome.succeeded;
+  }
+
+  private async quietHoursHold(delivery: NotificationDelivery): Promise<Date | null> {
+    const schedule = await this.scheduleService.getSchedule(delivery.user_id);
+    const quietUntil = this.scheduleService.getQuietHoursEnd(schedule);
+    if (!quietUntil) return null;
+
+    const [rows] = await this.pool.query<RowDataPacket[]>('SELECT type FROM notifications WHERE id = ?', [delivery.notification_id]);
+    if (rows.length === 0) return null; // let the attempt record it as gone
+    return this.scheduleService.getPriority(rows[0].type) === 'urgent' ? null : quietUntil;
+  }
+
+  private async getNotification(notificationId: string): Promise<RowDataPacket> {
+    const [rows] = await this.pool.query<RowDataPacket[]>('SELECT * FROM notifications WHERE id = ?', [notificationId]);
+    if (rows.length === 0) {
+      throw new PermanentDeliveryError('Notification no longer exists');
+    }
+    const notification = rows[0];
+
+    // Rendered now, in the user's current locale, so template edits apply to retries too
+    const templateService = new NotificationTemplateService(this.pool);
+    const locale = await templateService.getUserLocale(notification.user_id);
+    const text = await templateService.renderNotification(notification as any, locale);
+
+    return {
+      ...notification,
+      ...text,
+      locale,
+      data: typeof notification.data === 'string' ? JSON.parse(notification.data) : notification.data
+    } as RowDataPacket;
+  }
+
+  private async sendEmail(userId: string, notification: RowDataPacket): Promise<number | null> {
+    const [users] = await this.pool.query<RowDataPacket[]>('SELECT email, username FROM users WHERE id = ?', [userId]);
+    const email = users[0]?.email;
+    if (!email) {
+      throw new PermanentDeliveryError('User has no email address');
+    }
+
+    const actionUrl = notification.data?.actionUrl
+      ? `${process.env.FRONTEND_URL || ''}${notification.data.actionUrl}`
+      : null;
+    const title = notification.title || 'TitleBase notification';
+
+    await getEmailTransport().send({
+      to: email,
+      subject: title,
+      text: [notification.message, actionUrl ? `\n${actionUrl}` : ''].join('\n').trim()
+    });
+    return null;
+  }
+
+  /**
+   * POST the notification as JSON, signed with HMAC-SHA256 over
+   * `${timestamp}.${body}` so receivers can check origin and freshness
+   */
+  private async sendWebhook(delivery: NotificationDelivery, notification: RowDataPacket): Promise<number> {
+    const webhook = await this.deliveryModel.getWebhook(delivery.user_id);
+    if (!webhook || !webhook.is_active) {
+      throw new PermanentDeliveryError('No active webhook endpoint');
+    }
+
+    const body = JSON.stringify({
+      id: notification.id,
+      deliveryId: delivery.id,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      locale: notification.locale,
+      data: notification.data || null,
+      createdAt: notification.created_at
+    });
+    // The name may have been pointed somewhere internal since it was registered
+    await assertPublicHost(new URL(webhook.url).hostname);
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto.createHmac('sha256', webhook.secret).update(`${timestamp}.${body}`).digest('hex');
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-TitleBase-Delivery': delivery.id,
+        'X-TitleBase-Timestamp': timestamp,
+        'X-TitleBase-Signature': `sha256=${signature}`
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const error: any = new Error(`Webhook responded with ${response.status}`);
+      error.responseCode = response.status;
+      throw error;
+    }
+    return response.status;
+  }
+}
@@ -0,0 +1,167 @@
+import { Pool } from 'mysql2/promise';
+import {
+  NotificationScheduleModel,
+  NotificationSchedule,
+  DigestFrequency,
+  DIGEST_FREQUENCIES
+} from '../models/notificationScheduleModel';
+import { NOTIFICATION_PRIORITIES, NotificationPriority } from '../models/notificationDeliveryModel';
+import { isValidTimeZone, getZonedTime, zonedTimeToUtc, addZonedDays, parseTimeOfDay } from '../utils/timezone';
+
+export const defaultTimeZone = (): string => process.env.DEFAULT_TIMEZONE || 'Pacific/Auckland';
+
+export interface ScheduleUpdate {
+  digestFrequency?: string;
+  digestHour?: number;
+  timezone?: string | null;
+  quietHours?: { start: string; end: string } | null;
+}
+
+/**
+ * When email and webhook notifications may go out: low-priority types can
+ * be gathered into hourly or daily digests, and nothing but urgent types is
+ * sent during the user's quiet hours. Both follow the user's time zone.
+ */
+export class NotificationScheduleService {
+  private scheduleModel: NotificationScheduleModel;
+
+  constructor(private pool: Pool) {
+    this.scheduleModel = new NotificationScheduleModel(pool);
+  }
+
+  getPriority(notificationType: string): NotificationPriority {
+    return NOTIFICATION_PRIORITIES[notificationType] || 'normal';
+  }
+
+  // ========== Settings ==========
+
+  async getSchedule(userId: string): Promise<NotificationSchedule> {
+    return (await this.scheduleModel.getSchedule(userId)) || {
+      user_id: userId,
+      digest_frequency: 'immediate',
+      digest_hour: 8,
+      timezone: null,
+      quiet_hours_start: null,
+      quiet_hours_end: null
+    };
+  }
+
+  async getSettings(userId: string) {
+    const schedule = await this.getSchedule(userId);
+    const typesWith = (priority: NotificationPriority) =>
+      Object.keys(NOTIFICATION_PRIORITIES).filter(type => NOTIFICATION_PRIORITIES[type] === priority).sort();
+
+    return {
+      digestFrequency: schedule.digest_frequency,
+      digestHour: schedule.digest_hour,
+      timezone: schedule.timezone || defaultTimeZone(),
+      quietHours: schedule.quiet_hours_start && schedule.quiet_hours_end
+        ? { start: schedule.quiet_hours_start, end: schedule.quiet_hours_end }
+        : null,
+      frequencies: DIGEST_FREQUENCIES,
+      // Urgent types ignore both digests and quiet hours; only low-priority types are digested
+      priorities: { urgent: typesWith('urgent'), low: typesWith('low') }
+    };
+  }
+
+  /**
+   * Apply a partial update; fields left out keep their current value and
+   * null resets timezone and quiet hours
+   */
+  async updateSchedule(userId: string, updates: ScheduleUpdate) {
+    const schedule = await this.getSchedule(userId);
+
+    if (updates.digestFrequency !== undefined) {
+      if (!DIGEST_FREQUENCIES.includes(updates.digestFrequency as DigestFrequency)) {
+        throw new Error(`digestFrequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+      }
+      schedule.digest_frequency = updates.digestFrequency as DigestFrequency;
+    }
+
+    if (updates.digestHour !== undefined) {
+      if (!Number.isInteger(updates.digestHour) || updates.digestHour < 0 || updates.digestHour > 23) {
+        throw new Error('digestHour must be a whole hour from 0 to 23');
+      }
+      schedule.digest_hour = updates.digestHour;
+    }
+
+    if (updates.timezone !== undefined) {
+      if (updates.timezone !== null && !isValidTimeZone(updates.timezone)) {
+        throw new Error(`Unknown time zone: ${updates.timezone}`);
+      }
+      schedule.timezone = updates.timezone;
+    }
+
+    if (updates.quietHours !== undefined) {
+      if (updates.quietHours === null) {
+        schedule.quiet_hours_start = null;
+        schedule.quiet_hours_end = null;
+      } else {
+        const start = parseTimeOfDay(updates.quietHours.start);
+        const end = parseTimeOfDay(updates.quietHours.end);
+        if (start === null || end === null) {
+          throw new Error('quietHours needs start and end times as HH:MM');
+        }
+        if (start === end) {
+          throw new Error('Quiet hours must start and end at different times');
+        }
+        schedule.quiet_hours_start = updates.quietHours.start;
+        schedule.quiet_hours_end = updates.quietHours.end;
+      }
+    }
+
+    await this.scheduleModel.upsertSchedule(schedule);
+    return this.getSettings(userId);
+  }
+
+  // ========== Timing ==========
+
+  /**
+   * Whether a notification type goes into the user's next digest rather
+   * than out straight away
+   */
+  shouldBatch(schedule: NotificationSchedule, notificationType: string): boolean {
+    return schedule.digest_frequency !== 'immediate' && this.getPriority(notificationType) === 'low';
+  }
+
+  /**
+   * End of the quiet period the user is in at `now`, or null outside quiet
+   * hours. Windows such as 22:00-07:00 run past midnight.
+   */
+  getQuietHoursEnd(schedule: NotificationSchedule, now: Date = new Date()): Date | null {
+    const start = parseTimeOfDay(schedule.quiet_hours_start || '');
+    const end = parseTimeOfDay(schedule.quiet_hours_end || '');
+    if (start === null || end === null || start === end) return null;
+
+    const timeZone = schedule.timezone || defaultTimeZone();
+    const local = getZonedTime(now, timeZone);
+    const minutes = local.hour * 60 + local.minute;
+    const quiet = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    if (!quiet) return null;
+
+    const endsToday = { ...local, hour: Math.floor(end / 60), minute: end % 60 };
+    return zonedTimeToUtc(minutes < end ? endsToday : addZonedDays(endsToday, 1), timeZone);
+  }
+
+  /**
+   * When a digest holding a notification batched at `oldest` falls due:
+   * the next local top of the hour, or the next digest hour for daily digests
+   */
+  nextDigestAt(schedule: NotificationSchedule, oldest: Date): Date {
+    const timeZone = schedule.timezone || defaultTimeZone();
+    const local = getZonedTime(oldest, timeZone);
+
+    switch (schedule.digest_frequency) {
+      case 'hourly':
+        return new Date(zonedTimeToUtc({ ...local, minute: 0 }, timeZone).getTime() + 60 * 60 * 1000);
+      case 'daily': {
+        const sendTime = { ...local, hour: schedule.digest_hour, minute: 0 };
+        const today = zonedTimeToUtc(sendTime, timeZone);
+        return today > oldest ? today : zonedTimeToUtc(addZonedDays(sendTime, 1), timeZone);
+      }
+      default:
+        // Switched back to immediate with a batch still waiting: send it now
+        return oldest;
+    }
+  }
+}
@@ -1,30 +1,71 @@
-import { query } from '../utils/database';
+import { query, getPool } from '../utils/database';
 import { v4 as uuidv4 } from 'uuid';
+import { NotificationDeliveryService } from './notificationDeliveryService';
+import { RealtimeEventService, REALTIME_EVENTS } from './realtimeEventService';
+import { NotificationTemplateService } from './notificationTemplateService';
 
 export interface NotificationPayload {
   userId: string;
   type: string;
-  title: string;
-  message: string;
+  // Omit both to use the type's template, rendered from data in the user's locale
+  title?: string;
+  message?: string;
   data?: Record<string, any>;
 }
 
 export class NotificationService {
   /**
-   * Create a new notification
+   * Create a new notification and deliver it on the channels the user has
+   * enabled for its type. The row is always stored; it only shows in the
+   * in-app list when the in-app channel is enabled.
    */
   static async createNotification(payload: NotificationPayload): Promise<string> {
     try {
       const id = uuidv4();
       const dataJson = payload.data ? JSON.stringify(payload.data) : null;
+      const deliveryService = new NotificationDeliveryService(getPool());
+      const channels = await deliveryService.resolveChannels(payload.userId, payload.type);
+
+      // Templated rows are re-rendered at delivery; the text stored here is
+      // the fallback if the template later stops rendering
+      const templated = payload.title === undefined && payload.message === undefined;
+      let title = payload.title || '';
+      let message = payload.message || '';
+      if (templated) {
+        const templateService = new NotificationTemplateService(getPool());
+        const locale = await templateService.getUserLocale(payload.userId);
+        const rendered = await templateService.render(payload.type, locale, payload.data || {});
+        if (!rendered) {
+          throw new Error(`No notification template for type ${payload.type}`);
+        }
+        ({ title, message } = rendered);
+      }
 
       await query(
-        `INSERT INTO notifications (id, user_id, type, title, message, data, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
-        [id, payload.userId, payload.type, payload.title, payload.message, dataJson]
+        `INSERT INTO notifications (id, user_id, type, title, message, data, in_app_visible, templated, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [id, payload.userId, payload.type, title, message, dataJson, channels.includes('in_app'), templated]
       );
 
-      console.log(`Notification created: ${payload.type} for user ${payload.userId}`);
+      // Open streams get in-app notifications, with the new unread count for badges
+      if (channels.includes('in_app')) {
+        const unreadCount = await this.getUnreadCount(payload.userId);
+        await new RealtimeEventService(getPool()).publish(payload.userId, REALTIME_EVENTS.NOTIFICATION_CREATED, {
+          id,
+          type: payload.type,
+          title,
+          message,
+          data: payload.data || null,
+          unreadCount
+        });
+      }
+
+      // Email and webhook sends must not hold up the caller
+      deliveryService.fanOut(id, payload.userId, payload.type, channels).catch(error => {
+        console.error(`Notification fan-out failed for ${id}:`, error);
+      });
+
+      console.log(`Notification created: ${payload.type} for user ${payload.userId} via ${channels.join(', ') || 'no channels'}`);
       return id;
     } catch (error) {
       console.error('Error creating notification:', error);
@@ -38,7 +79,7 @@ export class NotificationService {
   static async getUnreadCount(userId: string): Promise<number> {
     try {
       const result = await query(
-        'SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND read_at IS NULL',
+        'SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND read_at IS NULL AND in_app_visible = TRUE',
         [userId]
       );
       return result[0]?.count || 0;
@@ -78,8 +119,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'bid_received',
-      title: 'New Bid Received',
-      message: `${bidderUsername} placed a bid of ${bidAmount} ETH on ${propertyTitle}`,
       data: {
         bidderUsername,
         propertyTitle,
@@ -102,8 +141,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'dividend_paid',
-      title: 'Dividend Payment Received',
-      message: `You received ${amount} ${currency} dividend from ${propertyTitle}`,
       data: {
         amount,
         currency,
@@ -123,8 +160,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'kyc_submission',
-      title: 'KYC Submission Received',
-      message: `KYC submission from ${username} has been received and is under review`,
       data: {
         username,
         actionUrl: '/admin/kyc',
@@ -139,8 +174,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'kyc_approved',
-      title: 'KYC Verification Approved',
-      message: 'Your KYC verification has been approved. You can now access full platform features.',
       data: {
         actionUrl: '/dashboard',
       },
@@ -157,10 +190,8 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'kyc_rejected',
-      title: 'KYC Verification Rejected',
-      message: `Your KYC verification has been rejected. Reason: ${reason}`,
       data: {
-        reason,
+        reason: reason || 'No reason given',
         actionUrl: '/kyc/retry',
       },
     });
@@ -177,8 +208,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'escrow_dispute',
-      title: 'Escrow Dispute Filed',
-      message: `A dispute has been filed for ${propertyTitle}. Please review the details.`,
       data: {
         propertyTitle,
         escrowId,
@@ -199,8 +228,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'escrow_released',
-      title: 'Escrow Funds Released',
-      message: `${amount} ${currency} has been released for ${propertyTitle}`,
       data: {
         amount,
         currency,
@@ -221,8 +248,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'property_listed',
-      title: 'Property Listed Successfully',
-      message: `Your property "${propertyTitle}" has been listed on the marketplace`,
       data: {
         propertyTitle,
         propertyId,
@@ -243,8 +268,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'auction_ended',
-      title: 'Auction Ended',
-      message: `Auction for ${propertyTitle} has ended. Won by ${winnerUsername} at ${finalAmount} ETH`,
       data: {
         propertyTitle,
         winnerUsername,
@@ -265,8 +288,6 @@ export class NotificationService {
     return this.createNotification({
       userId,
       type: 'subscription_update',
-      title: 'Subscription Updated',
-      message: `Your ${subscriptionType} subscription is now ${status}`,
       data: {
         subscriptionType,
         status,
@@ -0,0 +1,273 @@
+import { Pool } from 'mysql2/promise';
+import {
+  NotificationTemplateModel,
+  NotificationTemplate,
+  TemplateDefinition,
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  BASE_TEMPLATE_LOCALE
+} from '../models/notificationTemplateModel';
+import { compileTemplate, renderTemplate, getTemplateVariables } from '../utils/messageTemplate';
+
+export interface ResolvedTemplate extends TemplateDefinition {
+  type: string;
+  locale: string;
+  source: 'custom' | 'default';
+}
+
+export interface RenderedNotification {
+  title: string;
+  message: string;
+  locale: string;
+}
+
+const TEMPLATE_CACHE_TTL_MS = 30 * 1000;
+
+// Custom templates are few and read on every delivery; edits in this process
+// clear the cache, other processes pick them up when it expires
+let templateCache: { templates: Map<string, NotificationTemplate>; expiresAt: number } | null = null;
+
+const cacheKey = (type: string, locale: string) => `${type}:${locale}`;
+
+export const defaultLocale = (): string => process.env.DEFAULT_LOCALE || 'en-NZ';
+
+/**
+ * Notification copy keyed by type and locale, with {variable} interpolation
+ * and plural forms. Templated notifications store only their data and are
+ * rendered in the recipient's locale each time they are delivered.
+ */
+export class NotificationTemplateService {
+  private templateModel: NotificationTemplateModel;
+
+  constructor(private pool: Pool) {
+    this.templateModel = new NotificationTemplateModel(pool);
+  }
+
+  static invalidate(): void {
+    templateCache = null;
+  }
+
+  // ========== Locales ==========
+
+  /**
+   * Canonical BCP 47 form of a locale tag (en-nz -> en-NZ); throws if invalid
+   */
+  normalizeLocale(locale: string): string {
+    if (typeof locale !== 'string' || !locale || locale.length > 16) {
+      throw new Error('Invalid locale');
+    }
+    try {
+      return Intl.getCanonicalLocales(locale)[0];
+    } catch {
+      throw new Error(`Invalid locale: ${locale}`);
+    }
+  }
+
+  async getUserLocale(userId: string): Promise<string> {
+    return (await this.templateModel.getUserLocale(userId)) || defaultLocale();
+  }
+
+  async setUserLocale(userId: string, locale: string | null): Promise<string> {
+    const normalized = locale ? this.normalizeLocale(locale) : null;
+    await this.templateModel.setUserLocale(userId, normalized);
+    return normalized || defaultLocale();
+  }
+
+  // ========== Resolution & Rendering ==========
+
+  /**
+   * Template for a type in the closest available locale: the exact locale,
+   * then its language, then the base locale. Custom copy wins at each step.
+   */
+  async resolveTemplate(type: string, locale: string): Promise<ResolvedTemplate | null> {
+    const custom = await this.getCustomTemplates();
+    const defaults = DEFAULT_NOTIFICATION_TEMPLATES[type]?.locales || {};
+
+    for (const candidate of this.localeChain(locale)) {
+      const row = custom.get(cacheKey(type, candidate));
+      if (row) {
+        return { type, locale: candidate, source: 'custom', title: row.title_template, message: row.message_template };
+      }
+      if (defaults[candidate]) {
+        return { type, locale: candidate, source: 'default', ...defaults[candidate] };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Render a type's template; null when the type has none. Throws if the
+   * data lacks a variable the template needs.
+   */
+  async render(type: string, locale: string, data: Record<string, any>): Promise<RenderedNotification | null> {
+    const template = await this.resolveTemplate(type, locale);
+    if (!template) return null;
+
+    return {
+      title: renderTemplate(template.title, data, locale),
+      message: renderTemplate(template.message, data, locale),
+      locale: template.locale
+    };
+  }
+
+  /**
+   * Title and message of a stored notification as the user should see it
+   * now. Untemplated rows, and rows the current template cannot render,
+   * keep the text stored with them.
+   */
+  async renderNotification(
+    notification: { type: string; title: string; message: string; data: any; templated?: any },
+    locale: string
+  ): Promise<{ title: string; message: string }> {
+    const stored = { title: notification.title, message: notification.message };
+    if (!notification.templated) return stored;
+
+    try {
+      const data = typeof notification.data === 'string' ? JSON.parse(notification.data) : notification.data;
+      const rendered = await this.render(notification.type, locale, data || {});
+      return rendered ? { title: rendered.title, message: rendered.message } : stored;
+    } catch (error: any) {
+      console.warn(`Falling back to stored text for ${notification.type} notification:`, error.message);
+      return stored;
+    }
+  }
+
+  // ========== Administration ==========
+
+  /**
+   * Every template in effect: the built-in copy plus custom rows, with the
+   * variables each reads
+   */
+  async listTemplates() {
+    const custom = await this.getCustomTemplates(true);
+    const entries = new Map<string, any>();
+
+    for (const [type, definition] of Object.entries(DEFAULT_NOTIFICATION_TEMPLATES)) {
+      for (const [locale, template] of Object.entries(definition.locales)) {
+        entries.set(cacheKey(type, locale), {
+          type,
+          locale,
+          source: 'default',
+          ...template,
+          updatedBy: null,
+          updatedAt: null
+        });
+      }
+    }
+    for (const row of custom.values()) {
+      entries.set(cacheKey(row.notification_type, row.locale), {
+        type: row.notification_type,
+        locale: row.locale,
+        source: 'custom',
+        title: row.title_template,
+        message: row.message_template,
+        updatedBy: row.updated_by,
+        updatedAt: row.updated_at
+      });
+    }
+
+    return Array.from(entries.values())
+      .sort((a, b) => a.type.localeCompare(b.type) || a.locale.localeCompare(b.locale))
+      .map(entry => ({
+        ...entry,
+        hasDefault: !!DEFAULT_NOTIFICATION_TEMPLATES[entry.type]?.locales[entry.locale],
+        variables: this.templateVariables(entry.title, entry.message)
+      }));
+  }
+
+  async saveTemplate(
+    type: string,
+    locale: string,
+    template: { title?: string; message?: string },
+    updatedBy: string
+  ): Promise<ResolvedTemplate> {
+    if (!type || typeof type !== 'string' || type.length > 50) {
+      throw new Error('Notification type is required');
+    }
+    if (typeof template.title !== 'string' || !template.title.trim()) {
+      throw new Error('title is required');
+    }
+    if (typeof template.message !== 'string' || !template.message.trim()) {
+      throw new Error('message is required');
+    }
+
+    const normalizedLocale = this.normalizeLocale(locale);
+    compileTemplate(template.title);
+    compileTemplate(template.message);
+
+    await this.templateModel.upsertTemplate(type, normalizedLocale, template.title, template.message, updatedBy);
+    NotificationTemplateService.invalidate();
+
+    return { type, locale: normalizedLocale, source: 'custom', title: template.title, message: template.message };
+  }
+
+  /**
+   * Drop a custom template, reverting to the built-in copy if there is one
+   */
+  async deleteTemplate(type: string, locale: string): Promise<void> {
+    const removed = await this.templateModel.deleteTemplate(type, this.normalizeLocale(locale));
+    if (!removed) {
+      throw new Error('Custom template not found');
+    }
+    NotificationTemplateService.invalidate();
+  }
+
+  /**
+   * Render a template with sample or supplied data. Passing title/message
+   * previews unsaved copy; otherwise the template in effect is used.
+   */
+  async preview(options: {
+    type: string;
+    locale?: string;
+    title?: string;
+    message?: string;
+    data?: Record<string, any>;
+  }) {
+    if (!options.type) {
+      throw new Error('type is required');
+    }
+
+    const locale = this.normalizeLocale(options.locale || defaultLocale());
+    const resolved = await this.resolveTemplate(options.type, locale);
+    const title = options.title ?? resolved?.title;
+    const message = options.message ?? resolved?.message;
+    if (title === undefined || message === undefined) {
+      throw new Error(`No template for ${options.type} in ${locale}`);
+    }
+
+    const data = { ...(DEFAULT_NOTIFICATION_TEMPLATES[options.type]?.sampleData || {}), ...(options.data || {}) };
+    const isDraft = options.title !== undefined || options.message !== undefined;
+
+    return {
+      type: options.type,
+      locale,
+      source: isDraft ? 'draft' : resolved!.source,
+      templateLocale: isDraft ? null : resolved!.locale,
+      variables: this.templateVariables(title, message),
+      data,
+      rendered: {
+        title: renderTemplate(title, data, locale),
+        message: renderTemplate(message, data, locale)
+      }
+    };
+  }
+
+  private localeChain(locale: string): string[] {
+    const chain = [locale, locale.split('-')[0], BASE_TEMPLATE_LOCALE];
+    return chain.filter((candidate, index) => candidate && chain.indexOf(candidate) === index);
+  }
+
+  private async getCustomTemplates(fresh: boolean = false): Promise<Map<string, NotificationTemplate>> {
+    if (!fresh && templateCache && templateCache.expiresAt > Date.now()) {
+      return templateCache.templates;
+    }
+
+    const rows = await this.templateModel.getTemplates();
+    const templates = new Map(rows.map(row => [cacheKey(row.notification_type, row.locale), row]));
+    templateCache = { templates, expiresAt: Date.now() + TEMPLATE_CACHE_TTL_MS };
+    return templates;
+  }
+
+  private templateVariables(title: string, message: string): string[] {
+    return Array.from(new Set([...getTemplateVariables(title), ...getTemplateVariables(message)]));
+  }
+}
@@ -1,14 +1,22 @@
 // Payment Gateway Service
 // Integrates multiple payment processors: Stripe, Eway, POLi, and NZD
+// Gateway calls go through the PaymentProvider registry in paymentProviders.ts
 
 import { Pool } from 'mysql2/promise';
-// Stripe is optional - can be installed later with: npm install stripe
-let Stripe: any;
-try {
-    Stripe = require('stripe');
-} catch (e) {
-    console.warn('Stripe package not installed. Run: npm install stripe');
-}
+import { v4 as uuidv4 } from 'uuid';
+import { LEGACY_STATUSES } from '../models/paymentModel';
+import { PaymentStateService, WebhookResult, stateForGatewayResult } from './paymentStateService';
+import {
+    ChargeRequest,
+    EwayPaymentProvider,
+    PaymentProviderRegistry,
+    PaymentWebhookEvent,
+    ProviderPayment,
+    StripePaymentProvider,
+    WebhookHeaders,
+    getPaymentProviders,
+} from './paymentProviders';
+import { transferReference } from '../utils/bankStatement';
 
 export interface StripePaymentRequest {
     propertyId: string;
@@ -34,85 +42,126 @@ export interface POLiPaymentRequest {
     transactionToken?: string;
 }
 
+export interface GatewayPaymentRequest {
+    propertyId?: string;
+    subscriberUserId: string;
+    amount: number;
+    currency: string;
+    source?: string;
+    reference?: string;
+}
+
 export interface PaymentResult {
     transactionId: string;
     status: string;
     amount: number;
     currency: string;
     timestamp: Date;
+    redirectUrl?: string;
+    paymentId?: string; // payment_transactions.id
 }
 
 export class PaymentGatewayService {
     private db: Pool;
-    private stripe: any;
-    private ewayApiKey: string;
-    private poliPartnerCode: string;
-    private poliMerchantCode: string;
+    private providers: PaymentProviderRegistry;
+    private paymentStateService: PaymentStateService;
 
-    constructor(db: Pool) {
+    constructor(db: Pool, providers: PaymentProviderRegistry = getPaymentProviders()) {
         this.db = db;
-        
-        // Initialize Stripe
-        if (Stripe) {
-            this.stripe = Stripe(process.env.STRIPE_SECRET_KEY || '', {
-                apiVersion: '2023-10-16',
-            });
-        }
+        this.providers = providers;
+        this.paymentStateService = new PaymentStateService(db, providers);
+    }
 
-        // Initialize Eway
-        this.ewayApiKey = process.env.EWAY_API_KEY || '';
+    /**
+     * Gateways that can take payments
+     */
+    getGateways(): string[] {
+        return this.providers.names();
+    }
 
-        // Initialize POLi
-        this.poliPartnerCode = process.env.POLI_PARTNER_CODE || '';
-        this.poliMerchantCode = process.env.POLI_MERCHANT_CODE || '';
+    /**
+     * Charge through any registered gateway and log the transaction.
+     * Declined payments are logged as failed and throw; pending ones
+     * (redirects, bank transfers) stay created until a webhook moves them.
+     */
+    async charge(gateway: string, request: GatewayPaymentRequest): Promise<PaymentResult> {
+        const provider = this.providers.get(gateway);
+        try {
+            const payment = await provider.charge(this.toChargeRequest(request));
+            return await this.complete(provider.name, request, payment);
+        } catch (error) {
+            console.error(`${provider.name} payment processing error:`, error);
+            throw new Error(`${this.label(provider.name)} payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
     }
 
     /**
-     * Process Stripe payment
+     * Reserve funds without taking them; capture later with capturePayment
      */
-    async processStripePayment(request: StripePaymentRequest): Promise<PaymentResult> {
+    async authorize(gateway: string, request: GatewayPaymentRequest): Promise<PaymentResult> {
+        const provider = this.providers.get(gateway);
         try {
-            if (!request.paymentIntentId) {
-                throw new Error('Payment Intent ID is required for Stripe payments');
-            }
+            const payment = await provider.authorize(this.toChargeRequest(request));
+            return await this.complete(provider.name, request, payment);
+        } catch (error) {
+            console.error(`${provider.name} authorization error:`, error);
+            throw new Error(`${this.label(provider.name)} authorization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-            // Confirm the payment intent
-            const paymentIntent = await this.stripe.paymentIntents.confirm(request.paymentIntentId);
+    /**
+     * Capture an authorized payment, in full or for a smaller amount
+     */
+    async capturePayment(transactionId: string, gateway: string, amount?: number): Promise<PaymentResult> {
+        const provider = this.providers.get(gateway);
+        const payment = await provider.capture(transactionId, amount);
+        const record = await this.paymentStateService.transitionByGatewayTransaction(
+            provider.name,
+            transactionId,
+            payment.status === 'succeeded' ? 'captured' : 'failed',
+            'api',
+            { failureReason: payment.failureReason }
+        );
+        return { ...this.toResult(payment), status: record.status, paymentId: record.id };
+    }
 
-            if (paymentIntent.status !== 'succeeded') {
-                throw new Error(`Payment failed: ${paymentIntent.status}`);
-            }
+    /**
+     * Link a logged payment to the subscription it pays for
+     */
+    async linkSubscription(paymentId: string, subscriptionId: string): Promise<void> {
+        await this.paymentStateService.linkSubscription(paymentId, subscriptionId);
+    }
 
-            // Log transaction in database
-            const connection = await this.db.getConnection();
-            try {
-                await connection.query(
-                    `INSERT INTO payment_transactions 
-                    (property_id, subscriber_user_id, amount, currency, gateway, gateway_transaction_id, status, created_at)
-                    VALUES (?, ?, ?, ?, 'STRIPE', ?, 'COMPLETED', NOW())`,
-                    [
-                        request.propertyId,
-                        request.subscriberUserId,
-                        request.amount,
-                        request.currency,
-                        paymentIntent.id
-                    ]
-                );
-            } finally {
-                connection.release();
-            }
+    /**
+     * Current status as reported by the gateway
+     */
+    async getPaymentStatus(transactionId: string, gateway: string): Promise<ProviderPayment> {
+        return this.providers.get(gateway).getStatus(transactionId);
+    }
 
-            return {
-                transactionId: paymentIntent.id,
-                status: 'COMPLETED',
-                amount: request.amount,
-                currency: request.currency,
-                timestamp: new Date(),
-            };
-        } catch (error) {
-            console.error('Stripe payment processing error:', error);
-            throw new Error(`Stripe payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    /**
+     * Verify a gateway webhook or notification and normalise it into a payment event
+     */
+    async parseWebhook(gateway: string, payload: Buffer, headers: WebhookHeaders = {}): Promise<PaymentWebhookEvent | null> {
+        return this.providers.get(gateway).parseWebhook(payload, headers);
+    }
+
+    /**
+     * Verify a webhook and apply it to the payment's state
+     */
+    async handleWebhook(gateway: string, payload: Buffer, headers: WebhookHeaders = {}): Promise<WebhookResult> {
+        return this.paymentStateService.handleWebhook(gateway, payload, headers);
+    }
+
+    /**
+     * Process Stripe payment
+     */
+    async processStripePayment(request: StripePaymentRequest): Promise<PaymentResult> {
+        const result = await this.charge('STRIPE', { ...request, source: request.paymentIntentId });
+        if (result.status !== 'COMPLETED') {
+            throw new Error(`Stripe payment failed: Payment failed: ${result.status}`);
         }
+        return result;
     }
 
     /**
@@ -120,18 +169,10 @@ export class PaymentGatewayService {
      */
     async createStripePaymentIntent(amount: number, currency: string, metadata?: any): Promise<any> {
         try {
-            const paymentIntent = await this.stripe.paymentIntents.create({
-                amount: Math.round(amount * 100), // Stripe requires amount in cents
-                currency: currency.toLowerCase(),
-                metadata: metadata || {},
-                automatic_payment_methods: {
-                    enabled: true,
-                },
-            });
-
+            const intent = await this.providers.get<StripePaymentProvider>('STRIPE').createPaymentIntent(amount, currency, metadata);
             return {
-                clientSecret: paymentIntent.client_secret,
-                paymentIntentId: paymentIntent.id,
+                clientSecret: intent.clientSecret,
+                paymentIntentId: intent.transactionId,
             };
         } catch (error) {
             console.error('Stripe payment intent creation error:', error);
@@ -144,72 +185,7 @@ export class PaymentGatewayService {
      * Eway is an Australian payment processor
      */
     async processEwayPayment(request: EwayPaymentRequest): Promise<PaymentResult> {
-        try {
-            if (!request.tokenCustomerID) {
-                throw new Error('Eway Token Customer ID is required');
-            }
-
-            // Eway API call
-            const ewayUrl = process.env.EWAY_API_URL || 'https://api.ewaypayments.com/v3';
-            const response = await fetch(`${ewayUrl}/Transaction`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Basic ${Buffer.from(`:${this.ewayApiKey}`).toString('base64')}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    Customer: {
-                        TokenCustomerID: request.tokenCustomerID,
-                    },
-                    Payment: {
-                        TotalAmount: Math.round(request.amount * 100), // Eway requires amount in cents
-                        CurrencyCode: request.currency === 'NZD' ? '554' : '036', // Currency codes
-                    },
-                    Method: 'ProcessPayment',
-                    RedirectUrl: `${process.env.APP_URL}/payment/eway/callback`,
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error(`Eway API error: ${response.statusText}`);
-            }
-
-            const result = await response.json() as any;
-
-            if (!result.TransactionStatus) {
-                throw new Error(`Payment failed: ${result.Messages?.join(', ') || 'Unknown error'}`);
-            }
-
-            // Log transaction
-            const connection = await this.db.getConnection();
-            try {
-                await connection.query(
-                    `INSERT INTO payment_transactions 
-                    (property_id, subscriber_user_id, amount, currency, gateway, gateway_transaction_id, status, created_at)
-                    VALUES (?, ?, ?, ?, 'EWAY', ?, 'COMPLETED', NOW())`,
-                    [
-                        request.propertyId,
-                        request.subscriberUserId,
-                        request.amount,
-                        request.currency,
-                        result.TransactionID
-                    ]
-                );
-            } finally {
-                connection.release();
-            }
-
-            return {
-                transactionId: result.TransactionID,
-                status: 'COMPLETED',
-                amount: request.amount,
-                currency: request.currency,
-                timestamp: new Date(),
-            };
-        } catch (error) {
-            console.error('Eway payment processing error:', error);
-            throw new Error(`Eway payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+        return this.charge('EWAY', { ...request, source: request.tokenCustomerID });
     }
 
     /**
@@ -217,28 +193,7 @@ export class PaymentGatewayService {
      */
     async createEwayPaymentToken(customerName: string, cardNumber: string, expiryMonth: string, expiryYear: string): Promise<string> {
         try {
-            const ewayUrl = process.env.EWAY_API_URL || 'https://api.ewaypayments.com/v3';
-            const response = await fetch(`${ewayUrl}/Customer`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Basic ${Buffer.from(`:${this.ewayApiKey}`).toString('base64')}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    Title: 'Mr',
-                    FirstName: customerName.split(' ')[0],
-                    LastName: customerName.split(' ').slice(1).join(' '),
-                    CardDetails: {
-                        Name: customerName,
-                        Number: cardNumber,
-                        ExpiryMonth: expiryMonth,
-                        ExpiryYear: expiryYear,
-                    },
-                }),
-            });
-
-            const result = await response.json() as any;
-            return result.TokenCustomerID;
+            return await this.providers.get<EwayPaymentProvider>('EWAY').createToken(customerName, cardNumber, expiryMonth, expiryYear);
         } catch (error) {
             console.error('Eway token creation error:', error);
             throw new Error(`Failed to create Eway token: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -250,69 +205,14 @@ export class PaymentGatewayService {
      * POLi is an Australian online payment service (bank transfer via POLi)
      */
     async processPOLiPayment(request: POLiPaymentRequest): Promise<PaymentResult> {
-        try {
-            if (!request.transactionToken) {
-                throw new Error('POLi transaction token is required');
-            }
-
-            // POLi API call to get transaction details
-            const poliUrl = process.env.POLI_API_URL || 'https://poliapi.polipayments.com/api/v2';
-            const response = await fetch(`${poliUrl}/GetTransaction`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `${this.poliMerchantCode}:${this.poliPartnerCode}`,
-                },
-                body: JSON.stringify({
-                    Token: request.transactionToken,
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error(`POLi API error: ${response.statusText}`);
-            }
-
-            const result = await response.json() as any;
-
-            if (result.TransactionStatus !== 'Completed') {
-                throw new Error(`Payment incomplete: ${result.TransactionStatus}`);
-            }
-
-            // Verify amount matches
-            if (result.Amount !== Math.round(request.amount * 100)) {
-                throw new Error('Amount mismatch in POLi response');
-            }
-
-            // Log transaction
-            const connection = await this.db.getConnection();
-            try {
-                await connection.query(
-                    `INSERT INTO payment_transactions 
-                    (property_id, subscriber_user_id, amount, currency, gateway, gateway_transaction_id, status, created_at)
-                    VALUES (?, ?, ?, ?, 'POLI', ?, 'COMPLETED', NOW())`,
-                    [
-                        request.propertyId,
-                        request.subscriberUserId,
-                        request.amount,
-                        request.currency,
-                        result.TransactionRefNumber
-                    ]
-                );
-            } finally {
-                connection.release();
-            }
-
-            return {
-                transactionId: result.TransactionRefNumber,
-                status: 'COMPLETED',
-                amount: request.amount,
-                currency: request.currency,
-                timestamp: new Date(),
-            };
-        } catch (error) {
-            console.error('POLi payment processing error:', error);
-            throw new Error(`POLi payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (!request.transactionToken) {
+            throw new Error('POLi payment failed: POLi transaction token is required');
         }
+        const result = await this.charge('POLI', { ...request, source: request.transactionToken });
+        if (result.status !== 'COMPLETED') {
+            throw new Error(`POLi payment failed: Payment incomplete: ${result.status}`);
+        }
+        return result;
     }
 
     /**
@@ -320,30 +220,8 @@ export class PaymentGatewayService {
      */
     async initiatePOLiPayment(amount: number, currency: string, merchantReference: string): Promise<string> {
         try {
-            const poliUrl = process.env.POLI_API_URL || 'https://poliapi.polipayments.com/api/v2';
-            const response = await fetch(`${poliUrl}/InitiateTransaction`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `${this.poliMerchantCode}:${this.poliPartnerCode}`,
-                },
-                body: JSON.stringify({
-                    Amount: Math.round(amount * 100), // POLi requires amount in cents
-                    CurrencyCode: currency === 'NZD' ? '554' : '036',
-                    MerchantReference: merchantReference,
-                    NotificationURL: `${process.env.APP_URL}/api/payments/poli/notification`,
-                    SuccessURL: `${process.env.APP_URL}/subscription/success`,
-                    FailureURL: `${process.env.APP_URL}/subscription/failed`,
-                    CancellationURL: `${process.env.APP_URL}/subscription/cancelled`,
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error(`POLi API error: ${response.statusText}`);
-            }
-
-            const result = await response.json() as any;
-            return result.NavigateURL;
+            const payment = await this.providers.get('POLI').charge({ amount, currency, reference: merchantReference });
+            return payment.redirectUrl!;
         } catch (error) {
             console.error('POLi payment initiation error:', error);
             throw new Error(`Failed to initiate POLi payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -355,95 +233,50 @@ export class PaymentGatewayService {
      * NZD payments can be processed through:
      * 1. Stripe (if merchant account supports NZD)
      * 2. POLi (for bank transfers in NZ)
-     * 3. 2Checkout (Verifone) - alternative processor
      */
     async processNZDPayment(request: any): Promise<PaymentResult> {
-        try {
-            const { subscriberUserId, amount, paymentMethodId } = request;
-
-            // Use Stripe for NZD if available
-            if (process.env.STRIPE_SECRET_KEY) {
-                const paymentIntent = await this.stripe.paymentIntents.create({
-                    amount: Math.round(amount * 100),
-                    currency: 'nzd',
-                    payment_method: paymentMethodId,
-                    confirm: true,
-                    automatic_payment_methods: {
-                        enabled: true,
-                    },
-                });
-
-                if (paymentIntent.status !== 'succeeded') {
-                    throw new Error(`NZD payment failed: ${paymentIntent.status}`);
-                }
-
-                // Log transaction
-                const connection = await this.db.getConnection();
-                try {
-                    await connection.query(
-                        `INSERT INTO payment_transactions 
-                        (subscriber_user_id, amount, currency, gateway, gateway_transaction_id, status, created_at)
-                        VALUES (?, ?, 'NZD', 'STRIPE_NZD', ?, 'COMPLETED', NOW())`,
-                        [subscriberUserId, amount, paymentIntent.id]
-                    );
-                } finally {
-                    connection.release();
-                }
-
-                return {
-                    transactionId: paymentIntent.id,
-                    status: 'COMPLETED',
-                    amount,
-                    currency: 'NZD',
-                    timestamp: new Date(),
-                };
-            }
-
-            // Fallback to POLi for NZD bank transfers
-            const poliRedirectUrl = await this.initiatePOLiPayment(amount, 'NZD', `NZD-${subscriberUserId}-${Date.now()}`);
-            
-            return {
-                transactionId: 'POLI_INITIATED',
-                status: 'PENDING',
-                amount,
-                currency: 'NZD',
-                timestamp: new Date(),
-            };
-        } catch (error) {
-            console.error('NZD payment processing error:', error);
-            throw new Error(`NZD payment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+        const { propertyId, subscriberUserId, amount, paymentMethodId } = request;
+
+        // Use Stripe for NZD if available, otherwise fall back to POLi bank transfers
+        const gateway = process.env.STRIPE_SECRET_KEY ? 'STRIPE' : 'POLI';
+        return this.charge(gateway, {
+            propertyId,
+            subscriberUserId,
+            amount,
+            currency: 'NZD',
+            source: gateway === 'STRIPE' ? paymentMethodId : undefined,
+            reference: `NZD-${subscriberUserId}-${Date.now()}`,
+        });
     }
 
     /**
-     * Log pending bank transfer for manual reconciliation
+     * Log a pending bank transfer for statement reconciliation
+     * Returns the reference the payer must quote so the transfer can be matched
      */
-    async logPendingTransfer(transferData: any): Promise<void> {
+    async logPendingTransfer(transferData: any): Promise<string> {
+        const reference = transferReference(transferData.subscriptionId);
+        const connection = await this.db.getConnection();
         try {
-            const connection = await this.db.getConnection();
-            try {
-                await connection.query(
-                    `INSERT INTO pending_transfers 
-                    (subscription_id, amount, currency, account_holder, account_number, bank_name, reference, subscriber_user_id, created_at)
-                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
-                    [
-                        transferData.subscriptionId,
-                        transferData.amount,
-                        transferData.currency,
-                        transferData.accountDetails.accountHolder,
-                        transferData.accountDetails.accountNumber,
-                        transferData.accountDetails.bankName,
-                        transferData.accountDetails.reference,
-                        transferData.subscriber.userId,
-                    ]
-                );
-            } finally {
-                connection.release();
-            }
-        } catch (error) {
-            console.error('Error logging pending transfer:', error);
-            // Don't throw - this is non-critical logging
+            await connection.query(
+                `INSERT INTO pending_transfers 
+                (id, subscription_id, amount, currency, account_holder, account_number, bank_name, reference, subscriber_user_id, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+                [
+                    uuidv4(),
+                    transferData.subscriptionId,
+                    transferData.amount,
+                    transferData.currency,
+                    transferData.accountDetails.account_holder,
+                    transferData.accountDetails.account_number,
+                    transferData.accountDetails.bank_name,
+                    reference,
+                    transferData.subscriber.userId,
+                ]
+            );
+        } finally {
+            connection.release();
         }
+        return reference;
     }
 
     /**
@@ -474,21 +307,51 @@ export class PaymentGatewayService {
      */
     async refundPayment(transactionId: string, gateway: string, amount: number): Promise<boolean> {
         try {
-            if (gateway === 'STRIPE') {
-                const refund = await this.stripe.refunds.create({
-                    payment_intent: transactionId,
-                    amount: Math.round(amount * 100),
-                });
-
-                return refund.status === 'succeeded';
-            }
-
-            // Implement Eway and POLi refunds as needed
-            console.warn(`Refund not implemented for gateway: ${gateway}`);
-            return false;
+            const refund = await this.providers.get(gateway).refund(transactionId, amount);
+            return refund.status === 'succeeded';
         } catch (error) {
             console.error('Refund error:', error);
             return false;
         }
     }
+
+    private async complete(gateway: string, request: GatewayPaymentRequest, payment: ProviderPayment): Promise<PaymentResult> {
+        // Payments that have not started at the gateway yet (a POLi redirect) have no id to log
+        const record = payment.transactionId
+            ? await this.paymentStateService.recordPayment(gateway, request, payment)
+            : null;
+
+        if (payment.status === 'failed' || payment.status === 'cancelled') {
+            throw new Error(payment.failureReason || `Payment ${payment.status}`);
+        }
+        return { ...this.toResult(payment), ...(record ? { status: record.status, paymentId: record.id } : {}) };
+    }
+
+    private toChargeRequest(request: GatewayPaymentRequest): ChargeRequest {
+        return {
+            amount: request.amount,
+            currency: request.currency,
+            source: request.source,
+            reference: request.reference,
+            metadata: {
+                subscriberUserId: request.subscriberUserId,
+                ...(request.propertyId ? { propertyId: request.propertyId } : {}),
+            },
+        };
+    }
+
+    private toResult(payment: ProviderPayment): PaymentResult {
+        return {
+            transactionId: payment.transactionId,
+            status: LEGACY_STATUSES[stateForGatewayResult(payment.status)],
+            amount: payment.amount,
+            currency: payment.currency,
+            timestamp: new Date(),
+            ...(payment.redirectUrl ? { redirectUrl: payment.redirectUrl } : {}),
+        };
+    }
+
+    private label(gateway: string): string {
+        return { STRIPE: 'Stripe', EWAY: 'Eway', POLI: 'POLi', SANDBOX: 'Sandbox' }[gateway] || gateway;
+    }
 }
@@ -0,0 +1,950 @@
+import crypto from 'crypto';
+
+// Stripe is optional - can be installed later with: npm install stripe
+let Stripe: any;
+try {
+  Stripe = require('stripe');
+} catch (e) {
+  Stripe = null;
+}
+
+export type ProviderPaymentStatus = 'pending' | 'authorized' | 'succeeded' | 'failed' | 'cancelled' | 'refunded';
+
+export interface ChargeRequest {
+  amount: number;
+  currency: string;
+  // Gateway token for the payer: Stripe payment intent or payment method,
+  // eWAY TokenCustomerID, POLi transaction token, sandbox test token
+  source?: string;
+  reference?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ProviderPayment {
+  transactionId: string;
+  status: ProviderPaymentStatus;
+  amount: number;
+  currency: string;
+  // Set when the payer has to complete the payment elsewhere
+  redirectUrl?: string;
+  clientSecret?: string;
+  failureReason?: string;
+}
+
+export interface ProviderRefund {
+  refundId: string;
+  transactionId: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  amount: number;
+}
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export type ProviderDisputeStatus = 'needs_response' | 'under_review' | 'won' | 'lost';
+
+export interface ProviderDispute {
+  disputeId: string;
+  status: ProviderDisputeStatus;
+  reason: string;
+  amount: number;
+  currency: string;
+  evidenceDueBy?: Date;
+}
+
+export interface PaymentWebhookEvent {
+  provider: string;
+  eventId: string;
+  type: string;
+  transactionId: string;
+  status: ProviderPaymentStatus;
+  amount?: number;
+  currency?: string;
+  // Set for chargeback and dispute events; status is then the original payment's
+  dispute?: ProviderDispute;
+}
+
+/**
+ * One payment gateway. Amounts are in major units (dollars); providers
+ * convert to what their API expects. Operations a gateway cannot do throw.
+ * parseWebhook verifies the delivery before trusting it and returns null
+ * for authentic events that do not concern a payment.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ProviderPayment>;
+  authorize(request: ChargeRequest): Promise<ProviderPayment>;
+  capture(transactionId: string, amount?: number): Promise<ProviderPayment>;
+  refund(transactionId: string, amount: number, reason?: string): Promise<ProviderRefund>;
+  getStatus(transactionId: string): Promise<ProviderPayment>;
+  parseWebhook(payload: Buffer, headers: WebhookHeaders): Promise<PaymentWebhookEvent | null>;
+  submitDisputeEvidence(disputeId: string, evidence: Record<string, string>): Promise<void>;
+}
+
+const GATEWAY_TIMEOUT_MS = 30_000;
+
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+const fromMinorUnits = (amount: number): number => Number(amount) / 100;
+
+const unsupported = (provider: string, operation: string): Error =>
+  new Error(`Not supported: ${provider} does not support ${operation}`);
+
+// Deliveries older than this are rejected so a captured request cannot be replayed later
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+const headerValue = (headers: WebhookHeaders, name: string): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Stripe's signature scheme, also used by the sandbox: a header of the form
+ * "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${payload}`>"
+ */
+export function signWebhookPayload(payload: Buffer, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(payload).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+function verifyWebhookSignature(payload: Buffer, header: string | undefined, secret: string): void {
+  if (!secret) {
+    throw new Error('Invalid signature: webhook secret is not configured');
+  }
+  if (!header) {
+    throw new Error('Invalid signature: missing signature header');
+  }
+
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new Error('Invalid signature: malformed signature header');
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new Error('Invalid signature: timestamp outside the tolerance');
+  }
+
+  const expected = Buffer.from(signWebhookPayload(payload, secret, timestamp).split('v1=')[1], 'hex');
+  const matches = signatures.some(signature => {
+    const candidate = Buffer.from(signature, 'hex');
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+  if (!matches) {
+    throw new Error('Invalid signature: signature does not match');
+  }
+}
+
+const parseJsonPayload = (payload: Buffer): any => {
+  try {
+    return JSON.parse(payload.toString('utf8'));
+  } catch {
+    throw new Error('Invalid webhook payload');
+  }
+};
+
+// ========== Stripe ==========
+
+const STRIPE_STATUSES: Record<string, ProviderPaymentStatus> = {
+  succeeded: 'succeeded',
+  requires_capture: 'authorized',
+  canceled: 'cancelled',
+  requires_payment_method: 'pending',
+  requires_confirmation: 'pending',
+  requires_action: 'pending',
+  processing: 'pending'
+};
+
+const STRIPE_EVENTS: Record<string, ProviderPaymentStatus> = {
+  'payment_intent.succeeded': 'succeeded',
+  'payment_intent.amount_capturable_updated': 'authorized',
+  'payment_intent.payment_failed': 'failed',
+  'payment_intent.canceled': 'cancelled',
+  'payment_intent.processing': 'pending',
+  'charge.refunded': 'refunded'
+};
+
+// Inquiries (warning_*) that close without a chargeback leave the funds with us
+const STRIPE_DISPUTE_STATUSES: Record<string, ProviderDisputeStatus> = {
+  warning_needs_response: 'needs_response',
+  needs_response: 'needs_response',
+  warning_under_review: 'under_review',
+  under_review: 'under_review',
+  warning_closed: 'won',
+  won: 'won',
+  lost: 'lost'
+};
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'STRIPE';
+  private client: any;
+
+  constructor(private secretKey: string, private webhookSecret: string = '') {}
+
+  private get stripe(): any {
+    if (!this.client) {
+      if (!Stripe) {
+        throw new Error('Stripe package not installed. Run: npm install stripe');
+      }
+      if (!this.secretKey) {
+        throw new Error('STRIPE_SECRET_KEY is not configured');
+      }
+      this.client = Stripe(this.secretKey, { apiVersion: '2023-10-16' });
+    }
+    return this.client;
+  }
+
+  /**
+   * Payment intent the frontend confirms with Stripe.js
+   */
+  async createPaymentIntent(amount: number, currency: string, metadata?: Record<string, string>): Promise<ProviderPayment> {
+    const intent = await this.stripe.paymentIntents.create({
+      amount: toMinorUnits(amount),
+      currency: currency.toLowerCase(),
+      metadata: metadata || {},
+      automatic_payment_methods: { enabled: true }
+    });
+    return this.toPayment(intent);
+  }
+
+  /**
+   * Confirms an existing payment intent (pi_...) or charges a payment method
+   */
+  async charge(request: ChargeRequest): Promise<ProviderPayment> {
+    if (!request.source) {
+      throw new Error('Payment Intent ID or payment method is required for Stripe payments');
+    }
+    if (request.source.startsWith('pi_')) {
+      return this.toPayment(await this.stripe.paymentIntents.confirm(request.source));
+    }
+    return this.toPayment(await this.createAndConfirm(request, 'automatic'));
+  }
+
+  async authorize(request: ChargeRequest): Promise<ProviderPayment> {
+    if (!request.source || request.source.startsWith('pi_')) {
+      throw new Error('A payment method is required to authorize a Stripe payment');
+    }
+    return this.toPayment(await this.createAndConfirm(request, 'manual'));
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<ProviderPayment> {
+    const intent = await this.stripe.paymentIntents.capture(
+      transactionId,
+      amount !== undefined ? { amount_to_capture: toMinorUnits(amount) } : {}
+    );
+    return this.toPayment(intent);
+  }
+
+  async refund(transactionId: string, amount: number, reason?: string): Promise<ProviderRefund> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: transactionId,
+      amount: toMinorUnits(amount),
+      ...(reason ? { metadata: { reason } } : {})
+    });
+    return {
+      refundId: refund.id,
+      transactionId,
+      status: refund.status === 'succeeded' ? 'succeeded' : refund.status === 'failed' || refund.status === 'canceled' ? 'failed' : 'pending',
+      amount: fromMinorUnits(refund.amount)
+    };
+  }
+
+  async getStatus(transactionId: string): Promise<ProviderPayment> {
+    return this.toPayment(await this.stripe.paymentIntents.retrieve(transactionId));
+  }
+
+  async parseWebhook(payload: Buffer, headers: WebhookHeaders): Promise<PaymentWebhookEvent | null> {
+    verifyWebhookSignature(payload, headerValue(headers, 'stripe-signature'), this.webhookSecret);
+
+    const event = parseJsonPayload(payload);
+    const object = event.data?.object;
+    if (String(event.type).startsWith('charge.dispute.') && object) {
+      return this.toDisputeEvent(event, object);
+    }
+    const status = STRIPE_EVENTS[event.type];
+    if (!status || !object) {
+      return null;
+    }
+
+    const isCharge = object.object === 'charge';
+    // Partial refunds leave the payment settled
+    if (isCharge && !object.refunded) {
+      return null;
+    }
+    return {
+      provider: this.name,
+      eventId: event.id,
+      type: event.type,
+      transactionId: isCharge ? object.payment_intent : object.id,
+      status,
+      amount: fromMinorUnits(isCharge ? object.amount_refunded : object.amount_received || object.amount),
+      currency: String(object.currency || '').toUpperCase() || undefined
+    };
+  }
+
+  async submitDisputeEvidence(disputeId: string, evidence: Record<string, string>): Promise<void> {
+    await this.stripe.disputes.update(disputeId, { evidence, submit: true });
+  }
+
+  private toDisputeEvent(event: any, dispute: any): PaymentWebhookEvent | null {
+    const status = STRIPE_DISPUTE_STATUSES[dispute.status];
+    if (!status || !dispute.payment_intent) {
+      return null;
+    }
+    const dueBy = dispute.evidence_details?.due_by;
+    return {
+      provider: this.name,
+      eventId: event.id,
+      type: event.type,
+      transactionId: typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent.id,
+      // A charge can only be disputed once it has succeeded
+      status: 'succeeded',
+      dispute: {
+        disputeId: dispute.id,
+        status,
+        reason: dispute.reason || 'general',
+        amount: fromMinorUnits(dispute.amount),
+        currency: String(dispute.currency || '').toUpperCase(),
+        evidenceDueBy: dueBy ? new Date(dueBy * 1000) : undefined
+      }
+    };
+  }
+
+  private createAndConfirm(request: ChargeRequest, captureMethod: 'automatic' | 'manual') {
+    return this.stripe.paymentIntents.create({
+      amount: toMinorUnits(request.amount),
+      currency: request.currency.toLowerCase(),
+      payment_method: request.source,
+      capture_method: captureMethod,
+      confirm: true,
+      metadata: { ...(request.metadata || {}), ...(request.reference ? { reference: request.reference } : {}) },
+      automatic_payment_methods: { enabled: true, allow_redirects: 'never' }
+    });
+  }
+
+  private toPayment(intent: any): ProviderPayment {
+    return {
+      transactionId: intent.id,
+      status: intent.last_payment_error ? 'failed' : STRIPE_STATUSES[intent.status] || 'pending',
+      amount: fromMinorUnits(intent.amount),
+      currency: String(intent.currency).toUpperCase(),
+      clientSecret: intent.client_secret || undefined,
+      failureReason: intent.last_payment_error?.message
+    };
+  }
+}
+
+// ========== eWAY ==========
+
+export class EwayPaymentProvider implements PaymentProvider {
+  readonly name = 'EWAY';
+
+  constructor(private config: { apiKey: string; apiUrl: string; callbackUrl: string }) {}
+
+  /**
+   * Store card details with eWAY and return the TokenCustomerID to charge later
+   */
+  async createToken(customerName: string, cardNumber: string, expiryMonth: string, expiryYear: string): Promise<string> {
+    const result = await this.request('POST', '/Customer', {
+      Title: 'Mr',
+      FirstName: customerName.split(' ')[0],
+      LastName: customerName.split(' ').slice(1).join(' '),
+      CardDetails: {
+        Name: customerName,
+        Number: cardNumber,
+        ExpiryMonth: expiryMonth,
+        ExpiryYear: expiryYear
+      }
+    });
+    return result.TokenCustomerID;
+  }
+
+  async charge(request: ChargeRequest): Promise<ProviderPayment> {
+    return this.transaction(request, 'ProcessPayment');
+  }
+
+  async authorize(request: ChargeRequest): Promise<ProviderPayment> {
+    return this.transaction(request, 'Authorise');
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<ProviderPayment> {
+    const current = await this.getStatus(transactionId);
+    const captureAmount = amount ?? current.amount;
+    const result = await this.request('POST', '/CapturePayment', {
+      Payment: { TotalAmount: toMinorUnits(captureAmount), CurrencyCode: this.currencyCode(current.currency) },
+      TransactionId: transactionId
+    });
+    return {
+      transactionId: String(result.TransactionID || transactionId),
+      status: result.TransactionStatus ? 'succeeded' : 'failed',
+      amount: captureAmount,
+      currency: current.currency,
+      failureReason: result.TransactionStatus ? undefined : this.errors(result)
+    };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<ProviderRefund> {
+    const result = await this.request('POST', `/Transaction/${encodeURIComponent(transactionId)}/Refund`, {
+      Refund: { TotalAmount: toMinorUnits(amount), TransactionID: transactionId }
+    });
+    return {
+      refundId: String(result.TransactionID || ''),
+      transactionId,
+      status: result.TransactionStatus ? 'succeeded' : 'failed',
+      amount
+    };
+  }
+
+  async getStatus(transactionId: string): Promise<ProviderPayment> {
+    const result = await this.request('GET', `/Transaction/${encodeURIComponent(transactionId)}`);
+    const transaction = result.Transactions?.[0];
+    if (!transaction) {
+      throw new Error('Payment not found');
+    }
+    return this.toPayment(transaction);
+  }
+
+  /**
+   * eWAY does not sign its callbacks, so only the transaction (or AccessCode)
+   * is taken from the post and the result is read back from the API with
+   * our credentials
+   */
+  async parseWebhook(payload: Buffer): Promise<PaymentWebhookEvent> {
+    const body = parseFormOrJson(payload);
+    let payment: ProviderPayment;
+    if (body.AccessCode) {
+      const result = await this.request('GET', `/AccessCode/${encodeURIComponent(body.AccessCode)}`);
+      payment = this.toPayment(result);
+    } else if (body.TransactionID) {
+      payment = await this.getStatus(String(body.TransactionID));
+    } else {
+      throw new Error('Invalid webhook payload');
+    }
+
+    return {
+      provider: this.name,
+      eventId: `${payment.transactionId}:${payment.status}`,
+      type: 'transaction',
+      transactionId: payment.transactionId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency
+    };
+  }
+
+  async submitDisputeEvidence(): Promise<void> {
+    // Chargebacks are answered through eWAY's merchant portal
+    throw unsupported(this.name, 'dispute evidence');
+  }
+
+  private async transaction(request: ChargeRequest, method: 'ProcessPayment' | 'Authorise'): Promise<ProviderPayment> {
+    if (!request.source) {
+      throw new Error('Eway Token Customer ID is required');
+    }
+    const result = await this.request('POST', '/Transaction', {
+      Customer: { TokenCustomerID: request.source },
+      Payment: {
+        TotalAmount: toMinorUnits(request.amount),
+        CurrencyCode: this.currencyCode(request.currency),
+        ...(request.reference ? { InvoiceReference: request.reference } : {})
+      },
+      Method: method,
+      RedirectUrl: this.config.callbackUrl
+    });
+
+    return {
+      transactionId: String(result.TransactionID || ''),
+      status: !result.TransactionStatus ? 'failed' : method === 'Authorise' ? 'authorized' : 'succeeded',
+      amount: request.amount,
+      currency: request.currency,
+      failureReason: result.TransactionStatus ? undefined : this.errors(result)
+    };
+  }
+
+  private toPayment(transaction: any): ProviderPayment {
+    return {
+      transactionId: String(transaction.TransactionID),
+      status: transaction.TransactionStatus ? 'succeeded' : 'failed',
+      amount: fromMinorUnits(transaction.TotalAmount ?? transaction.Payment?.TotalAmount ?? 0),
+      currency: this.currencyName(String(transaction.CurrencyCode ?? transaction.Payment?.CurrencyCode ?? '')),
+      failureReason: transaction.TransactionStatus ? undefined : this.errors(transaction)
+    };
+  }
+
+  private currencyCode(currency: string): string {
+    return currency === 'NZD' ? '554' : '036';
+  }
+
+  private currencyName(code: string): string {
+    return code === '554' ? 'NZD' : code === '036' ? 'AUD' : code.toUpperCase();
+  }
+
+  private errors(result: any): string {
+    return result.Messages?.join?.(', ') || result.Errors || result.ResponseMessage || 'Unknown error';
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: object): Promise<any> {
+    const response = await fetch(`${this.config.apiUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`:${this.config.apiKey}`).toString('base64')}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Eway API error: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+// ========== POLi ==========
+
+const POLI_STATUSES: Record<string, ProviderPaymentStatus> = {
+  Completed: 'succeeded',
+  Failed: 'failed',
+  TimedOut: 'failed',
+  Cancelled: 'cancelled'
+};
+
+export class PoliPaymentProvider implements PaymentProvider {
+  readonly name = 'POLI';
+
+  constructor(private config: { merchantCode: string; partnerCode: string; apiUrl: string; appUrl: string }) {}
+
+  /**
+   * With a transaction token, confirms the completed transfer; without one,
+   * starts a transaction and returns the bank login URL as redirectUrl
+   */
+  async charge(request: ChargeRequest): Promise<ProviderPayment> {
+    if (request.source) {
+      const payment = await this.getStatus(request.source);
+      if (payment.status === 'succeeded' && toMinorUnits(payment.amount) !== toMinorUnits(request.amount)) {
+        throw new Error('Amount mismatch in POLi response');
+      }
+      return payment;
+    }
+
+    const result = await this.request('/InitiateTransaction', {
+      Amount: toMinorUnits(request.amount),
+      CurrencyCode: request.currency === 'NZD' ? '554' : '036',
+      MerchantReference: request.reference || `TBBE-${Date.now()}`,
+      NotificationURL: `${this.config.appUrl}/api/payments/webhooks/poli`,
+      SuccessURL: `${this.config.appUrl}/subscription/success`,
+      FailureURL: `${this.config.appUrl}/subscription/failed`,
+      CancellationURL: `${this.config.appUrl}/subscription/cancelled`
+    });
+
+    return {
+      transactionId: String(result.TransactionRefNo || ''),
+      status: 'pending',
+      amount: request.amount,
+      currency: request.currency,
+      redirectUrl: result.NavigateURL
+    };
+  }
+
+  async authorize(): Promise<ProviderPayment> {
+    throw unsupported(this.name, 'authorization');
+  }
+
+  async capture(): Promise<ProviderPayment> {
+    throw unsupported(this.name, 'capture');
+  }
+
+  async refund(): Promise<ProviderRefund> {
+    // POLi moves money straight from the payer's bank; there is no reversal API
+    throw unsupported(this.name, 'refunds');
+  }
+
+  async getStatus(transactionToken: string): Promise<ProviderPayment> {
+    const result = await this.request('/GetTransaction', { Token: transactionToken });
+    return {
+      transactionId: String(result.TransactionRefNumber || ''),
+      status: POLI_STATUSES[result.TransactionStatus] || 'pending',
+      amount: fromMinorUnits(result.Amount ?? 0),
+      currency: String(result.CurrencyCode || ''),
+      failureReason: POLI_STATUSES[result.TransactionStatus] === 'failed' ? result.ErrorMessage || result.TransactionStatus : undefined
+    };
+  }
+
+  /**
+   * POLi's nudge is unsigned and only carries the token; the outcome is
+   * fetched from the API with it, so a forged nudge changes nothing
+   */
+  async parseWebhook(payload: Buffer): Promise<PaymentWebhookEvent> {
+    const body = parseFormOrJson(payload);
+    if (!body.Token) {
+      throw new Error('Invalid webhook payload');
+    }
+    const payment = await this.getStatus(String(body.Token));
+    return {
+      provider: this.name,
+      eventId: `${payment.transactionId}:${payment.status}`,
+      type: 'nudge',
+      transactionId: payment.transactionId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency
+    };
+  }
+
+  async submitDisputeEvidence(): Promise<void> {
+    throw unsupported(this.name, 'dispute evidence');
+  }
+
+  private async request(path: string, body: object): Promise<any> {
+    const response = await fetch(`${this.config.apiUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `${this.config.merchantCode}:${this.config.partnerCode}`
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(GATEWAY_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`POLi API error: ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+function parseFormOrJson(payload: Buffer): Record<string, any> {
+  const text = payload.toString('utf8').trim();
+  if (text.startsWith('{')) {
+    return parseJsonPayload(payload);
+  }
+  return Object.fromEntries(new URLSearchParams(text));
+}
+
+// ========== Sandbox ==========
+
+interface SandboxPayment extends ProviderPayment {
+  authorizedAmount: number;
+  refundedAmount: number;
+}
+
+// Test tokens, in the spirit of Stripe's test cards
+export const SANDBOX_TOKENS = {
+  SUCCEED: 'sandbox_ok',
+  DECLINE: 'sandbox_decline',
+  PENDING: 'sandbox_pending',
+  REDIRECT: 'sandbox_redirect'
+} as const;
+
+/**
+ * In-memory gateway for development and tests. Outcomes depend only on the
+ * source token and transaction ids on a counter, so a run is repeatable
+ * without network access. Pending payments are settled with webhook
+ * payloads from buildWebhook.
+ */
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'SANDBOX';
+  private payments = new Map<string, SandboxPayment>();
+  private disputeEvidence = new Map<string, Record<string, string>>();
+  private sequence = 0;
+  private refundSequence = 0;
+
+  constructor(private options: { seed?: string; appUrl?: string; webhookSecret?: string } = {}) {}
+
+  async charge(request: ChargeRequest): Promise<ProviderPayment> {
+    return this.create(request, false);
+  }
+
+  async authorize(request: ChargeRequest): Promise<ProviderPayment> {
+    return this.create(request, true);
+  }
+
+  async capture(transactionId: string, amount?: number): Promise<ProviderPayment> {
+    const payment = this.find(transactionId);
+    if (payment.status !== 'authorized') {
+      throw new Error(`Invalid state: sandbox payment ${transactionId} is ${payment.status}`);
+    }
+    const captured = amount ?? payment.authorizedAmount;
+    if (toMinorUnits(captured) > toMinorUnits(payment.authorizedAmount)) {
+      throw new Error('Capture amount exceeds the authorized amount');
+    }
+    payment.amount = captured;
+    payment.status = 'succeeded';
+    return this.view(payment);
+  }
+
+  async refund(transactionId: string, amount: number): Promise<ProviderRefund> {
+    const payment = this.find(transactionId);
+    if (payment.status !== 'succeeded' && payment.status !== 'refunded') {
+      throw new Error(`Invalid state: sandbox payment ${transactionId} is ${payment.status}`);
+    }
+    if (toMinorUnits(payment.refundedAmount + amount) > toMinorUnits(payment.amount)) {
+      throw new Error('Refund amount exceeds the amount paid');
+    }
+    payment.refundedAmount += amount;
+    if (toMinorUnits(payment.refundedAmount) === toMinorUnits(payment.amount)) {
+      payment.status = 'refunded';
+    }
+    return {
+      refundId: `${this.prefix()}_re_${String(++this.refundSequence).padStart(6, '0')}`,
+      transactionId,
+      status: 'succeeded',
+      amount
+    };
+  }
+
+  async getStatus(transactionId: string): Promise<ProviderPayment> {
+    return this.view(this.find(transactionId));
+  }
+
+  async parseWebhook(payload: Buffer, headers: WebhookHeaders): Promise<PaymentWebhookEvent> {
+    verifyWebhookSignature(payload, headerValue(headers, 'x-sandbox-signature'), this.options.webhookSecret || '');
+
+    const event = parseJsonPayload(payload);
+    if (event.id && event.transactionId && event.dispute) {
+      return this.toDisputeEvent(event);
+    }
+    if (!event.id || !event.transactionId || !event.status) {
+      throw new Error('Invalid webhook payload');
+    }
+    const payment = this.find(event.transactionId);
+    if (event.status !== 'pending') {
+      payment.status = event.status;
+    }
+    return {
+      provider: this.name,
+      eventId: event.id,
+      type: event.type || `payment.${event.status}`,
+      transactionId: payment.transactionId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency
+    };
+  }
+
+  /**
+   * Signed webhook that moves a sandbox payment to the given status, as the
+   * gateway would deliver it
+   */
+  buildWebhook(transactionId: string, status: ProviderPaymentStatus): { payload: Buffer; headers: Record<string, string> } {
+    this.find(transactionId);
+    const payload = Buffer.from(JSON.stringify({
+      id: `${transactionId}:${status}`,
+      type: `payment.${status}`,
+      transactionId,
+      status
+    }));
+    return {
+      payload,
+      headers: {
+        'content-type': 'application/json',
+        'x-sandbox-signature': signWebhookPayload(payload, this.webhookSecret())
+      }
+    };
+  }
+
+  /**
+   * Signed chargeback webhook for a sandbox payment. The dispute id defaults
+   * to one per transaction so successive statuses update the same dispute.
+   */
+  buildDisputeWebhook(
+    transactionId: string,
+    status: ProviderDisputeStatus,
+    options: { disputeId?: string; amount?: number; reason?: string; evidenceDueBy?: Date } = {}
+  ): { payload: Buffer; headers: Record<string, string> } {
+    const payment = this.find(transactionId);
+    const disputeId = options.disputeId || `${transactionId}_dp`;
+    const payload = Buffer.from(JSON.stringify({
+      id: `${disputeId}:${status}`,
+      type: `dispute.${status}`,
+      transactionId,
+      dispute: {
+        id: disputeId,
+        status,
+        reason: options.reason || 'fraudulent',
+        amount: options.amount ?? payment.amount,
+        currency: payment.currency,
+        evidenceDueBy: options.evidenceDueBy ? options.evidenceDueBy.toISOString() : undefined
+      }
+    }));
+    return {
+      payload,
+      headers: {
+        'content-type': 'application/json',
+        'x-sandbox-signature': signWebhookPayload(payload, this.webhookSecret())
+      }
+    };
+  }
+
+  async submitDisputeEvidence(disputeId: string, evidence: Record<string, string>): Promise<void> {
+    this.disputeEvidence.set(disputeId, { ...evidence });
+  }
+
+  /**
+   * Evidence last submitted for a sandbox dispute
+   */
+  getDisputeEvidence(disputeId: string): Record<string, string> | undefined {
+    return this.disputeEvidence.get(disputeId);
+  }
+
+  private toDisputeEvent(event: any): PaymentWebhookEvent {
+    const payment = this.find(event.transactionId);
+    const dispute = event.dispute;
+    if (!dispute.id || !['needs_response', 'under_review', 'won', 'lost'].includes(dispute.status)) {
+      throw new Error('Invalid webhook payload');
+    }
+    return {
+      provider: this.name,
+      eventId: event.id,
+      type: event.type || `dispute.${dispute.status}`,
+      transactionId: payment.transactionId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      dispute: {
+        disputeId: dispute.id,
+        status: dispute.status,
+        reason: dispute.reason || 'general',
+        amount: Number(dispute.amount ?? payment.amount),
+        currency: dispute.currency || payment.currency,
+        evidenceDueBy: dispute.evidenceDueBy ? new Date(dispute.evidenceDueBy) : undefined
+      }
+    };
+  }
+
+  private create(request: ChargeRequest, authorizeOnly: boolean): ProviderPayment {
+    if (!(request.amount > 0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    const source = request.source || SANDBOX_TOKENS.SUCCEED;
+    const transactionId = `${this.prefix()}_${String(++this.sequence).padStart(6, '0')}`;
+
+    let status: ProviderPaymentStatus;
+    let failureReason: string | undefined;
+    switch (source) {
+      case SANDBOX_TOKENS.SUCCEED:
+        status = authorizeOnly ? 'authorized' : 'succeeded';
+        break;
+      case SANDBOX_TOKENS.DECLINE:
+        status = 'failed';
+        failureReason = 'Card declined';
+        break;
+      case SANDBOX_TOKENS.PENDING:
+      case SANDBOX_TOKENS.REDIRECT:
+        status = 'pending';
+        break;
+      default:
+        throw new Error(`Unknown sandbox token: ${source}`);
+    }
+
+    const payment: SandboxPayment = {
+      transactionId,
+      status,
+      amount: request.amount,
+      currency: request.currency.toUpperCase(),
+      failureReason,
+      redirectUrl: source === SANDBOX_TOKENS.REDIRECT
+        ? `${this.options.appUrl || ''}/subscription/success?token=${transactionId}`
+        : undefined,
+      authorizedAmount: request.amount,
+      refundedAmount: 0
+    };
+    this.payments.set(transactionId, payment);
+    return this.view(payment);
+  }
+
+  private find(transactionId: string): SandboxPayment {
+    const payment = this.payments.get(transactionId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    return payment;
+  }
+
+  private view(payment: SandboxPayment): ProviderPayment {
+    const { authorizedAmount, refundedAmount, ...view } = payment;
+    return { ...view };
+  }
+
+  private webhookSecret(): string {
+    if (!this.options.webhookSecret) {
+      throw new Error('PAYMENT_SANDBOX_WEBHOOK_SECRET is not configured');
+    }
+    return this.options.webhookSecret;
+  }
+
+  private prefix(): string {
+    return this.options.seed ? `sbx_${this.options.seed}` : 'sbx';
+  }
+}
+
+// ========== Registry ==========
+
+export class PaymentProviderRegistry {
+  private providers = new Map<string, PaymentProvider>();
+
+  register(provider: PaymentProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name.toUpperCase());
+  }
+
+  get<T extends PaymentProvider = PaymentProvider>(name: string): T {
+    const provider = this.providers.get(name.toUpperCase());
+    if (!provider) {
+      throw new Error(`Unsupported payment gateway: ${name}`);
+    }
+    return provider as T;
+  }
+
+  names(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+let registry: PaymentProviderRegistry | null = null;
+
+/**
+ * The sandbox accepts payments without moving money, so it is only offered
+ * when PAYMENT_SANDBOX_ENABLED is explicitly 'true'
+ */
+export function isSandboxEnabled(): boolean {
+  return process.env.PAYMENT_SANDBOX_ENABLED === 'true';
+}
+
+/**
+ * Stripe, eWAY and POLi are always registered and fail on use when not
+ * configured. The sandbox is added only when enabled, and its webhooks are
+ * rejected until PAYMENT_SANDBOX_WEBHOOK_SECRET is set. Built once so
+ * sandbox state is shared by every service.
+ */
+export function getPaymentProviders(): PaymentProviderRegistry {
+  if (registry) {
+    return registry;
+  }
+
+  const appUrl = process.env.APP_URL || '';
+  registry = new PaymentProviderRegistry()
+    .register(new StripePaymentProvider(process.env.STRIPE_SECRET_KEY || '', process.env.STRIPE_WEBHOOK_SECRET || ''))
+    .register(new EwayPaymentProvider({
+      apiKey: process.env.EWAY_API_KEY || '',
+      apiUrl: process.env.EWAY_API_URL || 'https://api.ewaypayments.com/v3',
+      callbackUrl: `${appUrl}/payment/eway/callback`
+    }))
+    .register(new PoliPaymentProvider({
+      merchantCode: process.env.POLI_MERCHANT_CODE || '',
+      partnerCode: process.env.POLI_PARTNER_CODE || '',
+      apiUrl: process.env.POLI_API_URL || 'https://poliapi.polipayments.com/api/v2',
+      appUrl
+    }));
+
+  if (isSandboxEnabled()) {
+    registry.register(new SandboxPaymentProvider({
+      seed: process.env.PAYMENT_SANDBOX_SEED,
+      appUrl,
+      webhookSecret: process.env.PAYMENT_SANDBOX_WEBHOOK_SECRET
+    }));
+  }
+
+  return registry;
+}
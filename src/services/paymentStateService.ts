@@ -0,0 +1,293 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import {
+  PaymentModel,
+  PaymentState,
+  PaymentTransaction,
+  PAYMENT_STATES,
+  TransitionDetails,
+  TransitionSource
+} from '../models/paymentModel';
+import {
+  PaymentProviderRegistry,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  WebhookHeaders,
+  getPaymentProviders
+} from './paymentProviders';
+import { DisputeService } from './disputeService';
+
+/**
+ * Allowed moves between payment states. captured means the gateway accepted
+ * the charge; settled means it confirmed the funds, which is what activates
+ * a pending subscription. chargeback is a dispute lost in full.
+ */
+export const PAYMENT_TRANSITIONS: Record<PaymentState, PaymentState[]> = {
+  created: ['authorized', 'captured', 'settled', 'failed'],
+  authorized: ['captured', 'settled', 'failed'],
+  captured: ['settled', 'failed', 'refunded', 'disputed'],
+  settled: ['refunded', 'disputed'],
+  disputed: ['settled', 'refunded', 'chargeback'],
+  failed: [],
+  refunded: [],
+  chargeback: []
+};
+
+// State for the result of a call made to the gateway
+const API_STATES: Record<ProviderPaymentStatus, PaymentState> = {
+  pending: 'created',
+  authorized: 'authorized',
+  succeeded: 'captured',
+  failed: 'failed',
+  cancelled: 'failed',
+  refunded: 'refunded'
+};
+
+// State the gateway reports in a webhook; pending reports do not move anything
+const WEBHOOK_STATES: Record<ProviderPaymentStatus, PaymentState | null> = {
+  pending: null,
+  authorized: 'authorized',
+  succeeded: 'settled',
+  failed: 'failed',
+  cancelled: 'failed',
+  refunded: 'refunded'
+};
+
+const toCents = (amount: number | string): number => Math.round(Number(amount) * 100);
+
+/**
+ * Why a settlement report cannot be trusted for this payment, or null when
+ * the amount and currency the gateway settled (where it reports them) match
+ * what was charged
+ */
+const settlementMismatch = (payment: PaymentTransaction, event: { amount?: number; currency?: string }): string | null => {
+  if (event.amount !== undefined && toCents(event.amount) !== toCents(payment.amount)) {
+    return `gateway settled ${Number(event.amount).toFixed(2)}, payment is for ${payment.amount}`;
+  }
+  if (event.currency && event.currency.toUpperCase() !== payment.currency.toUpperCase()) {
+    return `gateway settled in ${event.currency.toUpperCase()}, payment is in ${payment.currency.toUpperCase()}`;
+  }
+  return null;
+};
+
+export const stateForGatewayResult = (status: ProviderPaymentStatus): PaymentState => API_STATES[status];
+
+export const canTransition = (from: PaymentState, to: PaymentState): boolean => PAYMENT_TRANSITIONS[from].includes(to);
+
+export const isPaymentState = (value: any): value is PaymentState => PAYMENT_STATES.includes(value);
+
+export interface WebhookResult {
+  outcome: 'applied' | 'ignored' | 'flagged' | 'duplicate';
+  gateway: string;
+  eventId?: string;
+  paymentId?: string;
+  state?: PaymentState;
+  disputeId?: string;
+}
+
+export class PaymentStateService {
+  private paymentModel: PaymentModel;
+  private disputeService: DisputeService;
+
+  constructor(private pool: Pool, private providers: PaymentProviderRegistry = getPaymentProviders()) {
+    this.paymentModel = new PaymentModel(pool);
+    this.disputeService = new DisputeService(pool, providers);
+  }
+
+  // ========== Recording ==========
+
+  /**
+   * Log a payment made through a gateway in the state its result implies
+   */
+  async recordPayment(
+    gateway: string,
+    request: { propertyId?: string; subscriberUserId: string; amount: number; currency: string },
+    payment: ProviderPayment
+  ): Promise<PaymentTransaction> {
+    return this.paymentModel.create(
+      {
+        propertyId: request.propertyId || null,
+        subscriberUserId: request.subscriberUserId,
+        amount: request.amount,
+        currency: request.currency.toUpperCase(),
+        gateway,
+        gatewayTransactionId: payment.transactionId,
+        state: stateForGatewayResult(payment.status),
+        failureReason: payment.failureReason || null
+      },
+      'api'
+    );
+  }
+
+  /**
+   * Attach the subscription a payment pays for. If the payment has already
+   * settled or failed (its webhook beat the subscription), that is applied now.
+   */
+  async linkSubscription(paymentId: string, subscriptionId: string): Promise<void> {
+    await this.withPayment(paymentId, async (connection, payment) => {
+      await this.paymentModel.setSubscription(connection, payment.id, subscriptionId);
+      await this.applyToSubscription(connection, subscriptionId, payment.state);
+    });
+  }
+
+  // ========== Transitions ==========
+
+  async transition(
+    paymentId: string,
+    to: PaymentState,
+    source: TransitionSource,
+    details: TransitionDetails = {}
+  ): Promise<PaymentTransaction> {
+    await this.withPayment(paymentId, async (connection, payment) => {
+      if (payment.state === to) {
+        return;
+      }
+      if (!canTransition(payment.state, to)) {
+        throw new Error(`Invalid state: cannot move payment from ${payment.state} to ${to}`);
+      }
+      await this.apply(connection, payment, to, source, details);
+    });
+    return (await this.paymentModel.getById(paymentId))!;
+  }
+
+  async transitionByGatewayTransaction(
+    gateway: string,
+    gatewayTransactionId: string,
+    to: PaymentState,
+    source: TransitionSource,
+    details: TransitionDetails = {}
+  ): Promise<PaymentTransaction> {
+    const payment = await this.paymentModel.findByGatewayTransaction(gateway, gatewayTransactionId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    return this.transition(payment.id, to, source, details);
+  }
+
+  // ========== Webhooks ==========
+
+  /**
+   * Verify and apply a gateway webhook. Each event is applied once; events
+   * that would move a payment backwards are recorded and ignored. Dispute
+   * events are handed to the dispute workflow.
+   */
+  async handleWebhook(gateway: string, payload: Buffer, headers: WebhookHeaders): Promise<WebhookResult> {
+    const provider = this.providers.get(gateway);
+    const event = await provider.parseWebhook(payload, headers);
+    if (!event) {
+      return { outcome: 'ignored', gateway: provider.name };
+    }
+
+    const found = await this.paymentModel.findByGatewayTransaction(provider.name, event.transactionId);
+    if (!found) {
+      // Not acknowledged, so the gateway redelivers once the payment is logged
+      throw new Error('Payment not found');
+    }
+    if (event.dispute) {
+      return this.disputeService.handleWebhookEvent(provider.name, event, found.id);
+    }
+
+    let outcome: WebhookResult['outcome'] = 'duplicate';
+    await this.withPayment(found.id, async (connection, payment) => {
+      const to = WEBHOOK_STATES[event.status];
+      const moves = to !== null && to !== payment.state && canTransition(payment.state, to);
+      // A settlement for a different amount or currency is held for review rather than activating anything
+      const mismatch = moves && to === 'settled' ? settlementMismatch(payment, event) : null;
+      const recorded = !moves ? 'ignored' : mismatch ? 'flagged' : 'applied';
+
+      const claimed = await this.paymentModel.recordWebhookEvent(connection, {
+        gateway: provider.name,
+        eventId: event.eventId,
+        eventType: event.type,
+        paymentId: payment.id,
+        outcome: recorded
+      });
+      if (!claimed) {
+        return;
+      }
+
+      outcome = recorded;
+      if (mismatch) {
+        console.error(`Settlement mismatch on payment ${payment.id} (${provider.name} event ${event.eventId}): ${mismatch}`);
+      }
+      if (recorded === 'applied') {
+        await this.apply(connection, payment, to!, 'webhook', {
+          eventId: event.eventId,
+          note: event.type,
+          failureReason: event.status === 'failed' || event.status === 'cancelled' ? `Gateway reported ${event.status}` : undefined
+        });
+      }
+    });
+
+    const payment = (await this.paymentModel.getById(found.id))!;
+    return { outcome, gateway: provider.name, eventId: event.eventId, paymentId: payment.id, state: payment.state };
+  }
+
+  // ========== Queries ==========
+
+  async getPayment(paymentId: string) {
+    const payment = await this.paymentModel.getById(paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    return { ...payment, transitions: await this.paymentModel.getTransitions(paymentId) };
+  }
+
+  async listPayments(filters: { state?: PaymentState; gateway?: string; subscriptionId?: string }, limit: number, offset: number) {
+    return this.paymentModel.list(filters, limit, offset);
+  }
+
+  private async apply(
+    connection: PoolConnection,
+    payment: PaymentTransaction,
+    to: PaymentState,
+    source: TransitionSource,
+    details: TransitionDetails
+  ): Promise<void> {
+    const moved = await this.paymentModel.transition(connection, payment.id, payment.state, to, source, details);
+    if (!moved) {
+      throw new Error(`Invalid state: payment is no longer ${payment.state}`);
+    }
+    if (payment.subscription_id) {
+      await this.applyToSubscription(connection, payment.subscription_id, to);
+    }
+  }
+
+  /**
+   * A settled payment activates its pending subscription; a failed one
+   * cancels it and releases the allotment
+   */
+  private async applyToSubscription(connection: PoolConnection, subscriptionId: string, state: PaymentState): Promise<void> {
+    if (state === 'settled') {
+      await connection.execute(
+        "UPDATE subscriptions SET status = 'ACTIVE', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'PENDING'",
+        [subscriptionId]
+      );
+    } else if (state === 'failed') {
+      await connection.execute(
+        "UPDATE subscriptions SET status = 'CANCELLED', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'PENDING'",
+        [subscriptionId]
+      );
+    }
+  }
+
+  private async withPayment(
+    paymentId: string,
+    work: (connection: PoolConnection, payment: PaymentTransaction) => Promise<void>
+  ): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const payment = await this.paymentModel.getById(paymentId, connection, true);
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      await work(connection, payment);
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { Pool } from 'mysql2/promise';
+import { PermissionModel, PermissionEffect, SUPER_ADMIN_USER_ID } from '../models/permissionModel';
+
+export interface ResolvedAccess {
+  role: string;
+  permissions: string[];
+  isActive: boolean;
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 30;
+
+// Shared across instances; entries are dropped whenever this process changes
+// a user's access and otherwise expire, so other processes catch up quickly
+const accessCache = new Map<string, { access: ResolvedAccess | null; expiresAt: number }>();
+
+const cacheTtlMs = (): number => {
+  const seconds = Number(process.env.PERMISSION_CACHE_TTL_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+};
+
+/**
+ * Roles and permissions stored in the database. A user's effective
+ * permissions are their role's permissions plus per-user allows, minus
+ * per-user denies, resolved per request rather than read from the token.
+ */
+export class PermissionService {
+  private permissionModel: PermissionModel;
+
+  constructor(private pool: Pool) {
+    this.permissionModel = new PermissionModel(pool);
+  }
+
+  // ========== Resolution ==========
+
+  /**
+   * Current role and permissions for a user; null if the user does not exist
+   */
+  async resolveUser(userId: string): Promise<ResolvedAccess | null> {
+    const cached = accessCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.access;
+    }
+
+    const user = userId === SUPER_ADMIN_USER_ID
+      ? { role: 'super-admin', is_active: true }
+      : await this.permissionModel.getUserAccess(userId);
+    let access: ResolvedAccess | null = null;
+
+    if (user) {
+      const role = user.role || 'user';
+      const [rolePermissions, overrides] = await Promise.all([
+        this.permissionModel.getRolePermissions(role),
+        this.permissionModel.getUserOverrides(userId)
+      ]);
+
+      const permissions = new Set(rolePermissions);
+      for (const override of overrides) {
+        if (override.effect === 'allow') permissions.add(override.permission);
+        else permissions.delete(override.permission);
+      }
+
+      access = {
+        role,
+        permissions: Array.from(permissions).sort(),
+        isActive: user.is_active !== false && user.is_active !== 0
+      };
+    }
+
+    accessCache.set(userId, { access, expiresAt: Date.now() + cacheTtlMs() });
+    return access;
+  }
+
+  async hasPermission(userId: string, permission: string): Promise<boolean> {
+    const access = await this.resolveUser(userId);
+    return !!access && access.isActive && access.permissions.includes(permission);
+  }
+
+  static invalidate(userId?: string): void {
+    if (userId) accessCache.delete(userId);
+    else accessCache.clear();
+  }
+
+  // ========== Catalogue ==========
+
+  async getRoles() {
+    const roles = await this.permissionModel.getRoles();
+    return Promise.all(
+      roles.map(async role => ({
+        name: role.name,
+        description: role.description,
+        permissions: await this.permissionModel.getRolePermissions(role.name)
+      }))
+    );
+  }
+
+  async getPermissions() {
+    return this.permissionModel.getPermissions();
+  }
+
+  // ========== Users ==========
+
+  async getUserAccess(userId: string) {
+    const access = await this.resolveUser(userId);
+    if (!access) {
+      throw new Error('User not found');
+    }
+
+    const [rolePermissions, overrides] = await Promise.all([
+      this.permissionModel.getRolePermissions(access.role),
+      this.permissionModel.getUserOverrides(userId)
+    ]);
+
+    return {
+      userId,
+      role: access.role,
+      isActive: access.isActive,
+      permissions: access.permissions,
+      rolePermissions,
+      overrides: overrides.map(override => ({
+        permission: override.permission,
+        effect: override.effect,
+        grantedBy: override.granted_by,
+        updatedAt: override.updated_at
+      }))
+    };
+  }
+
+  async grantUserPermission(userId: string, permission: string, grantedBy: string) {
+    return this.setUserOverride(userId, permission, 'allow', grantedBy);
+  }
+
+  /**
+   * Revoking also overrides the user's role, so the permission is removed
+   * even if the role grants it
+   */
+  async revokeUserPermission(userId: string, permission: string, revokedBy: string) {
+    return this.setUserOverride(userId, permission, 'deny', revokedBy);
+  }
+
+  /**
+   * Drop a user-level allow/deny so the role's permission applies again
+   */
+  async resetUserPermission(userId: string, permission: string) {
+    await this.assertUserExists(userId);
+    await this.permissionModel.clearUserOverride(userId, permission);
+    PermissionService.invalidate(userId);
+    return this.getUserAccess(userId);
+  }
+
+  /**
+   * Only super-admins can promote to or demote from super-admin
+   */
+  async setUserRole(userId: string, role: string, actor: { id: string; role: string }) {
+    if (!(await this.permissionModel.getRole(role))) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+
+    const current = await this.assertUserExists(userId);
+    if ((role === 'super-admin' || current.role === 'super-admin') && actor.role !== 'super-admin') {
+      throw new Error('Only a super-admin can change super-admin access');
+    }
+    if (userId === actor.id) {
+      throw new Error('You cannot change your own role');
+    }
+
+    await this.permissionModel.setUserRole(userId, role);
+    PermissionService.invalidate(userId);
+    return this.getUserAccess(userId);
+  }
+
+  // ========== Roles ==========
+
+  async grantRolePermission(role: string, permission: string) {
+    await this.assertRoleAndPermission(role, permission);
+    await this.permissionModel.addRolePermission(role, permission);
+    PermissionService.invalidate();
+    return this.permissionModel.getRolePermissions(role);
+  }
+
+  async revokeRolePermission(role: string, permission: string) {
+    await this.assertRoleAndPermission(role, permission);
+    await this.permissionModel.removeRolePermission(role, permission);
+    PermissionService.invalidate();
+    return this.permissionModel.getRolePermissions(role);
+  }
+
+  private async setUserOverride(userId: string, permission: string, effect: PermissionEffect, actorId: string) {
+    if (!(await this.permissionModel.getPermission(permission))) {
+      throw new Error(`Unknown permission: ${permission}`);
+    }
+    await this.assertUserExists(userId);
+
+    await this.permissionModel.setUserOverride(userId, permission, effect, actorId);
+    PermissionService.invalidate(userId);
+    return this.getUserAccess(userId);
+  }
+
+  private async assertUserExists(userId: string) {
+    const user = await this.permissionModel.getUserAccess(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  private async assertRoleAndPermission(role: string, permission: string) {
+    if (!(await this.permissionModel.getRole(role))) {
+      throw new Error(`Unknown role: ${role}`);
+    }
+    if (!(await this.permissionModel.getPermission(permission))) {
+      throw new Error(`Unknown permission: ${permission}`);
+    }
+  }
+}
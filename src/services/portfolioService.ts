@@ -0,0 +1,237 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { xirr, CashFlow } from '../utils/xirr';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRAILING_YEAR_MS = 365 * DAY_MS;
+
+interface IncomePayment {
+  subscriptionId: string;
+  currency: string;
+  amount: number;
+  paidAt: Date;
+}
+
+interface Holding {
+  subscriptionId: string;
+  propertyId: string;
+  propertyTitle: string | null;
+  currency: string;
+  sharePercentage: number;
+  subscribedAt: Date;
+  costBasis: number;
+  income: IncomePayment[];
+}
+
+const round = (value: number, places: number = 8): number => parseFloat(value.toFixed(places));
+const percent = (value: number | null): number | null => (value === null ? null : round(value * 100, 2));
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Investor returns built from active subscriptions and the ROI credited
+ * against them. Holdings are valued at cost, so XIRR measures the income
+ * return on the capital still invested; amounts never mix currencies.
+ */
+export class PortfolioService {
+  constructor(private pool: Pool) {}
+
+  // ========== Portfolio ==========
+
+  async getPortfolio(userId: string, asOf: Date = new Date()) {
+    const holdings = await this.getHoldings(userId);
+    const currencies = Array.from(new Set(holdings.map(holding => holding.currency))).sort();
+
+    const totals = currencies.map(currency => {
+      const inCurrency = holdings.filter(holding => holding.currency === currency);
+      return {
+        currency,
+        holdings: inCurrency.length,
+        ...this.summarise(inCurrency, asOf)
+      };
+    });
+
+    // Allocation is by cost basis within each currency
+    const costByCurrency = new Map(totals.map(total => [total.currency, total.costBasis]));
+    const byProperty = new Map<string, Holding[]>();
+    for (const holding of holdings) {
+      const key = `${holding.propertyId}:${holding.currency}`;
+      byProperty.set(key, [...(byProperty.get(key) || []), holding]);
+    }
+
+    const properties = Array.from(byProperty.values()).map(group => {
+      const { propertyId, propertyTitle, currency } = group[0];
+      const summary = this.summarise(group, asOf);
+      const currencyCost = costByCurrency.get(currency) || 0;
+      return {
+        propertyId,
+        propertyTitle,
+        currency,
+        sharePercentage: round(sum(group.map(holding => holding.sharePercentage)), 4),
+        firstSubscribedAt: new Date(Math.min(...group.map(holding => holding.subscribedAt.getTime()))),
+        ...summary,
+        allocation: currencyCost > 0 ? round((summary.costBasis / currencyCost) * 100, 2) : 0
+      };
+    }).sort((a, b) => a.currency.localeCompare(b.currency) || b.costBasis - a.costBasis);
+
+    return { asOf, valuation: 'cost', totals, properties };
+  }
+
+  /**
+   * One property's holdings with every income payment, monthly income and
+   * the cash flows behind its XIRR
+   */
+  async getPropertyPerformance(userId: string, propertyId: string, asOf: Date = new Date()) {
+    const holdings = (await this.getHoldings(userId)).filter(holding => holding.propertyId === propertyId);
+    if (holdings.length === 0) {
+      throw new Error('No active holding in this property');
+    }
+
+    const [properties] = await this.pool.query<RowDataPacket[]>(
+      'SELECT id, title, address, property_type, assessed_value, price FROM properties WHERE id = ?',
+      [propertyId]
+    );
+    const property = properties[0];
+
+    const currencies = Array.from(new Set(holdings.map(holding => holding.currency))).sort();
+    return {
+      asOf,
+      valuation: 'cost',
+      property: property
+        ? {
+            id: property.id,
+            title: property.title,
+            address: property.address,
+            propertyType: property.property_type,
+            assessedValue: property.assessed_value !== null ? Number(property.assessed_value) : null,
+            price: property.price !== null ? Number(property.price) : null
+          }
+        : { id: propertyId },
+      performance: currencies.map(currency => {
+        const inCurrency = holdings.filter(holding => holding.currency === currency);
+        const payments = inCurrency.flatMap(holding => holding.income).sort((a, b) => a.paidAt.getTime() - b.paidAt.getTime());
+
+        return {
+          currency,
+          sharePercentage: round(sum(inCurrency.map(holding => holding.sharePercentage)), 4),
+          ...this.summarise(inCurrency, asOf),
+          subscriptions: inCurrency.map(holding => ({
+            subscriptionId: holding.subscriptionId,
+            subscribedAt: holding.subscribedAt,
+            sharePercentage: holding.sharePercentage,
+            ...this.summarise([holding], asOf)
+          })),
+          incomeByMonth: this.incomeByMonth(payments),
+          payments: payments.map(payment => ({
+            subscriptionId: payment.subscriptionId,
+            amount: payment.amount,
+            paidAt: payment.paidAt
+          })),
+          cashFlows: this.cashFlows(inCurrency, asOf).map(flow => ({ amount: round(flow.amount), date: flow.date }))
+        };
+      })
+    };
+  }
+
+  // ========== Calculations ==========
+
+  /**
+   * Cost basis, cumulative income, trailing-twelve-month cash-on-cash yield
+   * and XIRR for holdings in one currency
+   */
+  private summarise(holdings: Holding[], asOf: Date) {
+    const costBasis = sum(holdings.map(holding => holding.costBasis));
+    const payments = holdings.flatMap(holding => holding.income).filter(payment => payment.paidAt <= asOf);
+    const income = sum(payments.map(payment => payment.amount));
+    const trailingIncome = sum(
+      payments.filter(payment => asOf.getTime() - payment.paidAt.getTime() < TRAILING_YEAR_MS).map(payment => payment.amount)
+    );
+    const lastPayment = payments.reduce<Date | null>((latest, payment) => (!latest || payment.paidAt > latest ? payment.paidAt : latest), null);
+
+    return {
+      costBasis: round(costBasis),
+      income: round(income),
+      trailingIncome: round(trailingIncome),
+      lastIncomeAt: lastPayment,
+      cashOnCashYield: costBasis > 0 ? round((trailingIncome / costBasis) * 100, 2) : null,
+      totalReturn: costBasis > 0 ? round((income / costBasis) * 100, 2) : null,
+      xirr: percent(xirr(this.cashFlows(holdings, asOf)))
+    };
+  }
+
+  /**
+   * Subscriptions out, income in, and the capital still held returned at
+   * cost on the valuation date
+   */
+  private cashFlows(holdings: Holding[], asOf: Date): CashFlow[] {
+    const flows: CashFlow[] = [];
+    for (const holding of holdings) {
+      if (holding.subscribedAt > asOf) continue;
+      flows.push({ amount: -holding.costBasis, date: holding.subscribedAt });
+      for (const payment of holding.income) {
+        if (payment.paidAt <= asOf) flows.push({ amount: payment.amount, date: payment.paidAt });
+      }
+      flows.push({ amount: holding.costBasis, date: asOf });
+    }
+    return flows.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private incomeByMonth(payments: IncomePayment[]): Array<{ month: string; amount: number }> {
+    const months = new Map<string, number>();
+    for (const payment of payments) {
+      const month = payment.paidAt.toISOString().slice(0, 7);
+      months.set(month, (months.get(month) || 0) + payment.amount);
+    }
+    return Array.from(months.entries()).map(([month, amount]) => ({ month, amount: round(amount) }));
+  }
+
+  // ========== Data ==========
+
+  /**
+   * Active subscriptions with the ROI credits paid against each. Credits in
+   * a different asset from the subscription are left out of its figures.
+   */
+  private async getHoldings(userId: string): Promise<Holding[]> {
+    const [subscriptions] = await this.pool.query<RowDataPacket[]>(
+      `SELECT s.id, s.property_id, s.subscription_amount, s.subscription_date, s.share_percentage, s.currency,
+              p.title AS property_title
+       FROM subscriptions s
+       LEFT JOIN properties p ON p.id = s.property_id
+       WHERE s.subscriber_user_id = ? AND s.status = 'ACTIVE'
+       ORDER BY s.subscription_date`,
+      [userId]
+    );
+    if (subscriptions.length === 0) return [];
+
+    // ROI credits name their subscription in the transaction metadata
+    const [credits] = await this.pool.query<RowDataPacket[]>(
+      `SELECT JSON_UNQUOTE(JSON_EXTRACT(metadata, '$.subscriptionId')) AS subscription_id, asset, amount, created_at
+       FROM wallet_transactions
+       WHERE user_id = ? AND transaction_type = 'roi_disbursement' AND status = 'completed'
+       ORDER BY created_at`,
+      [userId]
+    );
+
+    const incomeBySubscription = new Map<string, IncomePayment[]>();
+    for (const credit of credits) {
+      if (!credit.subscription_id) continue;
+      const payments = incomeBySubscription.get(credit.subscription_id) || [];
+      payments.push({
+        subscriptionId: credit.subscription_id,
+        currency: credit.asset,
+        amount: Number(credit.amount),
+        paidAt: new Date(credit.created_at)
+      });
+      incomeBySubscription.set(credit.subscription_id, payments);
+    }
+
+    return subscriptions.map(subscription => ({
+      subscriptionId: subscription.id,
+      propertyId: subscription.property_id,
+      propertyTitle: subscription.property_title || null,
+      currency: subscription.currency,
+      sharePercentage: Number(subscription.share_percentage),
+      subscribedAt: new Date(subscription.subscription_date),
+      costBasis: Number(subscription.subscription_amount) || 0,
+      income: (incomeBySubscription.get(subscription.id) || []).filter(payment => payment.currency === subscription.currency)
+    }));
+  }
+}
@@ -0,0 +1,139 @@
+import { Pool } from 'mysql2/promise';
+import { EventEmitter } from 'events';
+import { RealtimeEventModel, RealtimeEventRow } from '../models/realtimeEventModel';
+
+export const REALTIME_EVENTS = {
+  NOTIFICATION_CREATED: 'notification.created',
+  WALLET_BALANCE_CHANGED: 'wallet.balance_changed',
+  WITHDRAWAL_STATUS_CHANGED: 'wallet.withdrawal_status_changed',
+  DISBURSEMENT_STATUS_CHANGED: 'disbursement.status_changed',
+  LISTING_CREATED: 'listing.created',
+  LISTING_UPDATED: 'listing.updated',
+  LISTING_CANCELLED: 'listing.cancelled',
+  BID_PLACED: 'bid.placed',
+  BID_UPDATED: 'bid.updated',
+  BID_OUTBID: 'bid.outbid'
+} as const;
+
+export type RealtimeEventType = typeof REALTIME_EVENTS[keyof typeof REALTIME_EVENTS];
+
+export interface RealtimeEvent {
+  id: number;
+  userId: string | null; // null for broadcasts
+  type: string;
+  data: Record<string, any>;
+  createdAt: Date;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+const REPLAY_PAGE_SIZE = 500;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Live fan-out to open streams in this process; the table is what lets a
+// client that reconnects, or is served by another process, catch up
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+let lastPrunedAt = 0;
+
+const retentionHours = (): number => Number(process.env.REALTIME_EVENT_RETENTION_HOURS) || 24;
+
+/**
+ * Event log and in-process bus behind the real-time stream. Publishing is
+ * best-effort: a failure is logged and never fails the caller's operation.
+ */
+export class RealtimeEventService {
+  private eventModel: RealtimeEventModel;
+
+  constructor(private pool: Pool) {
+    this.eventModel = new RealtimeEventModel(pool);
+  }
+
+  // ========== Publishing ==========
+
+  /**
+   * Record an event for one user, or for everyone when userId is null, and
+   * push it to open streams. Call after the change it describes has committed.
+   */
+  async publish(userId: string | null, type: RealtimeEventType, data: Record<string, any>): Promise<RealtimeEvent | null> {
+    try {
+      const id = await this.eventModel.insertEvent(userId, type, data);
+      const event: RealtimeEvent = { id, userId, type, data, createdAt: new Date() };
+      emitter.emit('event', event);
+
+      this.pruneIfDue();
+      return event;
+    } catch (error) {
+      console.error(`Failed to publish realtime event ${type}:`, error);
+      return null;
+    }
+  }
+
+  // ========== Subscribing ==========
+
+  /**
+   * Listen for live events addressed to a user, including broadcasts.
+   * Returns the unsubscribe function.
+   */
+  static subscribe(userId: string, listener: RealtimeListener): () => void {
+    const handler = (event: RealtimeEvent) => {
+      if (event.userId === null || event.userId === userId) {
+        listener(event);
+      }
+    };
+    emitter.on('event', handler);
+    return () => {
+      emitter.off('event', handler);
+    };
+  }
+
+  /**
+   * Events a user missed after lastEventId, oldest first. `complete` is false
+   * when the log no longer reaches back that far, so the client should
+   * refetch its state rather than trust the replay.
+   */
+  async getEventsSince(userId: string, lastEventId: number): Promise<{ events: RealtimeEvent[]; complete: boolean }> {
+    const oldestId = await this.eventModel.getOldestEventId();
+    const complete = lastEventId === 0 || (oldestId !== null && oldestId <= lastEventId + 1);
+
+    const events: RealtimeEvent[] = [];
+    let afterId = lastEventId;
+    for (;;) {
+      const rows = await this.eventModel.getEventsAfter(userId, afterId, REPLAY_PAGE_SIZE);
+      events.push(...rows.map(row => this.formatEvent(row)));
+      if (rows.length < REPLAY_PAGE_SIZE) break;
+      afterId = Number(rows[rows.length - 1].id);
+    }
+
+    return { events, complete };
+  }
+
+  async getLatestEventId(): Promise<number> {
+    return this.eventModel.getLatestEventId();
+  }
+
+  // ========== Retention ==========
+
+  async pruneExpired(): Promise<number> {
+    return this.eventModel.deleteOlderThan(retentionHours());
+  }
+
+  private pruneIfDue(): void {
+    if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    lastPrunedAt = Date.now();
+
+    this.pruneExpired().catch(error => {
+      console.error('Failed to prune realtime events:', error);
+    });
+  }
+
+  private formatEvent(row: RealtimeEventRow): RealtimeEvent {
+    return {
+      id: Number(row.id),
+      userId: row.user_id,
+      type: row.event_type,
+      data: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload,
+      createdAt: row.created_at
+    };
+  }
+}
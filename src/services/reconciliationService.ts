@@ -0,0 +1,343 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { ethers } from 'ethers';
+import { getProvider } from '../utils/ethersProvider';
+import { toMicroUnits } from '../models/ledgerModel';
+import { WalletAsset, WALLET_ASSETS } from '../models/walletModel';
+import {
+  ReconciliationModel,
+  NewDiscrepancy,
+  DiscrepancyStatus,
+  DiscrepancyType
+} from '../models/reconciliationModel';
+import { LedgerService } from './ledgerService';
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function decimals() view returns (uint8)'
+]);
+
+// Transaction types that add to a wallet; everything else except transfers subtracts
+const CREDIT_TYPES = ['deposit', 'roi_disbursement', 'refund'];
+const TRANSFER_TYPES = ['internal_transfer', 'transfer'];
+
+export interface ReconciliationSummary {
+  runId: string;
+  walletsChecked: number;
+  disbursementsChecked: number;
+  discrepanciesFound: number;
+}
+
+/**
+ * Reconciles wallet balances against their transaction history and the
+ * ledger, and verifies executed disbursements against on-chain receipts.
+ * Findings are persisted as discrepancies for admins to work through.
+ */
+export class ReconciliationService {
+  private reconciliationModel: ReconciliationModel;
+  private ledgerService: LedgerService;
+  private provider: ethers.JsonRpcProvider;
+  private decimalsCache = new Map<string, number>();
+
+  constructor(private pool: Pool) {
+    this.reconciliationModel = new ReconciliationModel(pool);
+    this.ledgerService = new LedgerService(pool);
+    this.provider = getProvider();
+  }
+
+  // ========== Runs ==========
+
+  /**
+   * Run a full reconciliation pass
+   */
+  async runReconciliation(triggeredBy: string = 'scheduler'): Promise<ReconciliationSummary> {
+    const runId = await this.reconciliationModel.createRun(triggeredBy);
+
+    try {
+      const walletResult = await this.reconcileWallets(runId);
+      const disbursementResult = await this.verifyDisbursements(runId);
+
+      const discrepanciesFound = walletResult.discrepancies + disbursementResult.discrepancies;
+      await this.reconciliationModel.completeRun(runId, walletResult.checked, disbursementResult.checked, discrepanciesFound);
+
+      return {
+        runId,
+        walletsChecked: walletResult.checked,
+        disbursementsChecked: disbursementResult.checked,
+        discrepanciesFound
+      };
+    } catch (error) {
+      console.error('Reconciliation run failed:', error);
+      await this.reconciliationModel.failRun(runId, error instanceof Error ? error.message : 'Unknown error');
+      throw error;
+    }
+  }
+
+  async getRuns(limit: number = 20, offset: number = 0) {
+    return this.reconciliationModel.getRuns(limit, offset);
+  }
+
+  async getRun(runId: string) {
+    return this.reconciliationModel.getRunById(runId);
+  }
+
+  // ========== Wallets ==========
+
+  /**
+   * Replay each wallet's completed transactions per asset and compare the
+   * result with its stored balance and its ledger account
+   */
+  async reconcileWallets(runId: string): Promise<{ checked: number; discrepancies: number }> {
+    const [wallets] = await this.pool.query<RowDataPacket[]>(
+      'SELECT id, user_id, wallet_address FROM user_wallets'
+    );
+
+    let discrepancies = 0;
+    for (const wallet of wallets) {
+      for (const asset of WALLET_ASSETS) {
+        try {
+          const findings = await this.reconcileWallet(wallet, asset);
+          for (const finding of findings) {
+            await this.reconciliationModel.upsertDiscrepancy(runId, finding);
+          }
+          discrepancies += findings.length;
+        } catch (error) {
+          console.error(`Failed to reconcile ${asset} for wallet ${wallet.id}:`, error);
+        }
+      }
+    }
+
+    return { checked: wallets.length, discrepancies };
+  }
+
+  private async reconcileWallet(wallet: RowDataPacket, asset: WalletAsset): Promise<NewDiscrepancy[]> {
+    const [transactions] = await this.pool.query<RowDataPacket[]>(
+      `SELECT id, transaction_type, amount, balance_before, balance_after, from_address
+       FROM wallet_transactions
+       WHERE wallet_id = ? AND asset = ? AND status = 'completed'
+       ORDER BY created_at ASC, id ASC`,
+      [wallet.id, asset]
+    );
+    const [balances] = await this.pool.query<RowDataPacket[]>(
+      'SELECT balance FROM wallet_balances WHERE wallet_id = ? AND asset = ?',
+      [wallet.id, asset]
+    );
+
+    const findings: NewDiscrepancy[] = [];
+    const storedUnits = toMicroUnits(balances[0]?.balance || 0);
+    let replayedUnits = 0;
+    let previousAfter: number | null = null;
+    let firstGap: Record<string, any> | null = null;
+
+    for (const tx of transactions) {
+      const units = toMicroUnits(tx.amount);
+      const isCredit = CREDIT_TYPES.includes(tx.transaction_type)
+        || (TRANSFER_TYPES.includes(tx.transaction_type)
+          && String(tx.from_address).toLowerCase() !== String(wallet.wallet_address).toLowerCase());
+      replayedUnits += isCredit ? units : -units;
+
+      // Each row should pick up where the previous one left off
+      if (!firstGap && previousAfter !== null && tx.balance_before !== null
+        && toMicroUnits(tx.balance_before) !== previousAfter) {
+        firstGap = {
+          transactionId: tx.id,
+          expectedBalanceBefore: (previousAfter / 1_000_000).toFixed(6),
+          recordedBalanceBefore: Number(tx.balance_before).toFixed(6)
+        };
+      }
+      previousAfter = tx.balance_after !== null ? toMicroUnits(tx.balance_after) : null;
+    }
+
+    if (replayedUnits !== storedUnits) {
+      findings.push({
+        discrepancyType: 'wallet_history_mismatch',
+        entityType: 'wallet',
+        entityId: wallet.id,
+        asset,
+        expectedValue: (replayedUnits / 1_000_000).toFixed(6),
+        actualValue: (storedUnits / 1_000_000).toFixed(6),
+        details: { userId: wallet.user_id, transactionsReplayed: transactions.length }
+      });
+    }
+
+    if (firstGap) {
+      findings.push({
+        discrepancyType: 'wallet_history_gap',
+        entityType: 'wallet',
+        entityId: wallet.id,
+        asset,
+        expectedValue: firstGap.expectedBalanceBefore,
+        actualValue: firstGap.recordedBalanceBefore,
+        details: { userId: wallet.user_id, transactionId: firstGap.transactionId }
+      });
+    }
+
+    const ledger = await this.ledgerService.reconcileWallet(wallet.id, asset);
+    if (!ledger.balanced) {
+      findings.push({
+        discrepancyType: 'wallet_ledger_mismatch',
+        entityType: 'wallet',
+        entityId: wallet.id,
+        asset,
+        expectedValue: ledger.ledgerBalance.toFixed(6),
+        actualValue: ledger.cachedBalance.toFixed(6),
+        details: { userId: wallet.user_id, difference: ledger.difference }
+      });
+    }
+
+    return findings;
+  }
+
+  // ========== Disbursements ==========
+
+  /**
+   * Check that executed disbursements have a successful receipt carrying an
+   * ERC-20 Transfer of the right amount to the subscriber
+   */
+  async verifyDisbursements(runId: string): Promise<{ checked: number; discrepancies: number }> {
+    const lookbackDays = parseInt(process.env.RECONCILIATION_LOOKBACK_DAYS || '30');
+    const [disbursements] = await this.pool.query<RowDataPacket[]>(
+      `SELECT id, property_id, subscriber_wallet_address, disbursement_amount, currency, transaction_hash
+       FROM disbursements
+       WHERE status = 'EXECUTED'
+         AND COALESCE(executed_at, updated_at) >= DATE_SUB(NOW(), INTERVAL ? DAY)`,
+      [lookbackDays]
+    );
+
+    let discrepancies = 0;
+    for (const disbursement of disbursements) {
+      try {
+        const finding = await this.verifyDisbursement(disbursement);
+        if (finding) {
+          await this.reconciliationModel.upsertDiscrepancy(runId, finding);
+          discrepancies++;
+        }
+      } catch (error) {
+        console.error(`Failed to verify disbursement ${disbursement.id}:`, error);
+      }
+    }
+
+    return { checked: disbursements.length, discrepancies };
+  }
+
+  private async verifyDisbursement(disbursement: RowDataPacket): Promise<NewDiscrepancy | null> {
+    const base = {
+      entityType: 'disbursement' as const,
+      entityId: disbursement.id,
+    };
+    const context = {
+      propertyId: disbursement.property_id,
+      transactionHash: disbursement.transaction_hash,
+      currency: disbursement.currency
+    };
+
+    if (!disbursement.transaction_hash) {
+      return { ...base, discrepancyType: 'disbursement_missing_hash', details: context };
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(disbursement.transaction_hash);
+    if (!receipt) {
+      return { ...base, discrepancyType: 'disbursement_missing_receipt', details: context };
+    }
+
+    if (receipt.status !== 1) {
+      return {
+        ...base,
+        discrepancyType: 'disbursement_failed_onchain',
+        expectedValue: '1',
+        actualValue: String(receipt.status),
+        details: { ...context, blockNumber: receipt.blockNumber }
+      };
+    }
+
+    const recipient = String(disbursement.subscriber_wallet_address).toLowerCase();
+    const transfers = receipt.logs
+      .map(log => {
+        try {
+          const parsed = ERC20_INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+          return parsed && parsed.name === 'Transfer' ? { token: log.address, parsed } : null;
+        } catch {
+          return null;
+        }
+      })
+      .filter((transfer): transfer is NonNullable<typeof transfer> => transfer !== null);
+
+    const toRecipient = transfers.filter(
+      transfer => String(transfer.parsed.args.to).toLowerCase() === recipient
+    );
+
+    if (toRecipient.length === 0) {
+      return {
+        ...base,
+        discrepancyType: 'disbursement_recipient_mismatch',
+        expectedValue: disbursement.subscriber_wallet_address,
+        actualValue: transfers.map(transfer => transfer.parsed.args.to).join(',') || null,
+        details: { ...context, blockNumber: receipt.blockNumber }
+      };
+    }
+
+    for (const transfer of toRecipient) {
+      const decimals = await this.getTokenDecimals(transfer.token);
+      const expected = ethers.parseUnits(String(disbursement.disbursement_amount), decimals);
+      if (transfer.parsed.args.value === expected) {
+        return null;
+      }
+    }
+
+    const first = toRecipient[0];
+    const decimals = await this.getTokenDecimals(first.token);
+    return {
+      ...base,
+      discrepancyType: 'disbursement_amount_mismatch',
+      expectedValue: String(disbursement.disbursement_amount),
+      actualValue: ethers.formatUnits(first.parsed.args.value, decimals),
+      details: { ...context, tokenAddress: first.token, blockNumber: receipt.blockNumber }
+    };
+  }
+
+  private async getTokenDecimals(tokenAddress: string): Promise<number> {
+    const key = tokenAddress.toLowerCase();
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const token = new ethers.Contract(tokenAddress, ERC20_INTERFACE, this.provider);
+    const decimals = Number(await token.decimals());
+    this.decimalsCache.set(key, decimals);
+    return decimals;
+  }
+
+  // ========== Discrepancy Review ==========
+
+  async getDiscrepancies(
+    filters: { status?: DiscrepancyStatus; type?: DiscrepancyType; entityType?: string; runId?: string },
+    limit: number = 50,
+    offset: number = 0
+  ) {
+    return this.reconciliationModel.getDiscrepancies(filters, limit, offset);
+  }
+
+  async getDiscrepancy(discrepancyId: string) {
+    return this.reconciliationModel.getDiscrepancyById(discrepancyId);
+  }
+
+  /**
+   * Close out a discrepancy with a note explaining what was done
+   */
+  async resolveDiscrepancy(
+    discrepancyId: string,
+    resolvedBy: string,
+    note: string,
+    status: 'resolved' | 'ignored' = 'resolved'
+  ) {
+    const discrepancy = await this.reconciliationModel.getDiscrepancyById(discrepancyId);
+    if (!discrepancy) {
+      throw new Error('Discrepancy not found');
+    }
+
+    if (discrepancy.status !== 'open') {
+      throw new Error(`Discrepancy already ${discrepancy.status}`);
+    }
+
+    await this.reconciliationModel.resolveDiscrepancy(discrepancyId, status, resolvedBy, note);
+    return this.reconciliationModel.getDiscrepancyById(discrepancyId);
+  }
+}
@@ -0,0 +1,390 @@
+import { Pool, PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { PaymentModel, PaymentTransaction } from '../models/paymentModel';
+import { RefundMethod, RefundModel, RefundRequest, RefundStatus } from '../models/refundModel';
+import { WalletAsset, WalletModel } from '../models/walletModel';
+import { PERMISSIONS } from '../models/permissionModel';
+import { canTransition } from './paymentStateService';
+import { PaymentProviderRegistry, ProviderRefund, getPaymentProviders } from './paymentProviders';
+import { WalletTransactionService } from './walletTransactionService';
+
+// Wallet asset a refund in each subscription currency is credited in
+const WALLET_REFUND_ASSETS: Record<string, WalletAsset> = {
+  USDC: 'USDC',
+  USD: 'USDC',
+  NZD: 'dNZD',
+  DNZD: 'dNZD',
+  ETH: 'ETH'
+};
+
+// Payment states the gateway still holds funds for
+const REFUNDABLE_STATES = ['captured', 'settled', 'disputed'];
+
+const toCents = (amount: number | string): number => Math.round(Number(amount) * 100);
+
+interface RefundSubscription extends RowDataPacket {
+  id: string;
+  property_id: string;
+  subscriber_user_id: string;
+  subscription_amount: string;
+  share_percentage: string;
+  currency: string;
+  status: string;
+  supply: number | null;
+}
+
+// The user acting on a subscription's refunds
+export interface RefundActor {
+  id: string;
+  address?: string;
+  permissions: string[];
+}
+
+export interface RefundDecision {
+  method?: RefundMethod;
+  note?: string | null;
+}
+
+/**
+ * Subscription refunds. A subscriber asks, an admin approves, and the money
+ * goes back through the gateway that took it. Gateways that cannot refund
+ * (POLi, bank transfers, wallet payments) are paid back as wallet credit.
+ * Partial refunds shrink the subscription and its share; refunding the whole
+ * amount cancels it.
+ */
+export class RefundService {
+  private refundModel: RefundModel;
+  private paymentModel: PaymentModel;
+  private walletModel: WalletModel;
+  private walletTransactionService: WalletTransactionService;
+
+  constructor(private pool: Pool, private providers: PaymentProviderRegistry = getPaymentProviders()) {
+    this.refundModel = new RefundModel(pool);
+    this.paymentModel = new PaymentModel(pool);
+    this.walletModel = new WalletModel(pool);
+    this.walletTransactionService = new WalletTransactionService(pool);
+  }
+
+  // ========== Requests ==========
+
+  /**
+   * Ask for some or all of a subscription back. Defaults to the full amount
+   * and the latest payment that settled it.
+   */
+  async requestRefund(
+    subscriptionId: string,
+    request: { amount?: number; reason: string; paymentId?: string },
+    actor: RefundActor
+  ): Promise<RefundRequest> {
+    const subscription = await this.getSubscription(subscriptionId);
+    this.assertCanAccess(subscription, actor);
+    if (subscription.status !== 'ACTIVE') {
+      throw new Error(`Invalid state: subscription is ${subscription.status}`);
+    }
+    if (await this.refundModel.hasOpenRequest(subscriptionId)) {
+      throw new Error('Invalid state: a refund is already open for this subscription');
+    }
+
+    const amount = request.amount === undefined ? Number(subscription.subscription_amount) : Number(request.amount);
+    if (!(toCents(amount) > 0) || toCents(amount) > toCents(subscription.subscription_amount)) {
+      throw new Error(`Invalid amount: must be more than 0 and at most ${subscription.subscription_amount}`);
+    }
+
+    const payment = await this.findPayment(subscriptionId, request.paymentId);
+
+    return this.refundModel.create({
+      subscriptionId,
+      paymentId: payment ? payment.id : null,
+      amount,
+      currency: subscription.currency,
+      reason: request.reason,
+      requestedBy: actor.id
+    });
+  }
+
+  /**
+   * Cancel a subscription. Nothing has been paid on a pending one, so it is
+   * cancelled straight away; an active one raises a full refund request and
+   * is cancelled when that is approved.
+   */
+  async cancelSubscription(subscriptionId: string, actor: RefundActor): Promise<RefundRequest | null> {
+    const subscription = await this.getSubscription(subscriptionId);
+    this.assertCanAccess(subscription, actor);
+    if (subscription.status === 'PENDING') {
+      await this.pool.execute(
+        "UPDATE subscriptions SET status = 'CANCELLED', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'PENDING'",
+        [subscriptionId]
+      );
+      await this.pool.execute(
+        "UPDATE pending_transfers SET status = 'FAILED', notes = 'Subscription cancelled' WHERE subscription_id = ? AND status = 'PENDING'",
+        [subscriptionId]
+      );
+      return null;
+    }
+    return this.requestRefund(subscriptionId, { reason: 'Subscription cancelled' }, actor);
+  }
+
+  // ========== Review ==========
+
+  /**
+   * Approve and pay out a refund. The gateway is tried first unless wallet
+   * credit is asked for; a gateway that does not support refunds falls back
+   * to wallet credit, while a gateway error leaves the request failed so it
+   * can be retried or rejected.
+   */
+  async approveRefund(refundId: string, reviewerId: string, decision: RefundDecision = {}): Promise<RefundRequest> {
+    const refund = await this.getRefund(refundId);
+    if (refund.status !== 'requested' && refund.status !== 'failed') {
+      throw new Error(`Invalid state: refund is ${refund.status}`);
+    }
+
+    const subscription = await this.getSubscription(refund.subscription_id);
+    if (subscription.status !== 'ACTIVE' && !refund.gateway_refund_id) {
+      throw new Error(`Invalid state: subscription is ${subscription.status}`);
+    }
+    const payment = refund.payment_id ? await this.paymentModel.getById(refund.payment_id) : null;
+    const amount = Number(refund.amount);
+
+    // A retry after the gateway already paid out must not refund twice
+    let gatewayRefund: ProviderRefund | null = refund.gateway_refund_id
+      ? { refundId: refund.gateway_refund_id, transactionId: payment?.gateway_transaction_id || '', status: 'succeeded', amount }
+      : null;
+    let method: RefundMethod = gatewayRefund ? 'gateway' : decision.method || (this.canRefundAtGateway(payment) ? 'gateway' : 'wallet');
+
+    if (method === 'gateway' && !gatewayRefund) {
+      if (!this.canRefundAtGateway(payment)) {
+        throw new Error('Invalid state: there is no gateway payment to refund');
+      }
+      const remaining = toCents(payment!.amount) - toCents(await this.refundModel.getGatewayRefundedAmount(payment!.id));
+      if (toCents(amount) > remaining) {
+        throw new Error(`Invalid amount: only ${remaining / 100} of the payment is left to refund at the gateway`);
+      }
+    }
+    if (method === 'wallet') {
+      this.walletAsset(subscription.currency);
+    }
+
+    if (!(await this.refundModel.claim(refundId, reviewerId, decision.note || null))) {
+      throw new Error('Invalid state: refund is already being processed');
+    }
+
+    if (method === 'gateway' && !gatewayRefund) {
+      try {
+        gatewayRefund = await this.providers.get(payment!.gateway).refund(payment!.gateway_transaction_id, amount, refund.reason);
+      } catch (error: any) {
+        if (!error.message?.startsWith('Not supported') || decision.method === 'gateway') {
+          await this.refundModel.fail(refundId, error.message || 'Gateway refund failed');
+          throw new Error(`Gateway refund failed: ${error.message}`);
+        }
+        method = 'wallet';
+      }
+      if (gatewayRefund && gatewayRefund.status === 'failed') {
+        await this.refundModel.fail(refundId, 'Refund declined by the gateway');
+        throw new Error('Gateway refund failed: refund declined by the gateway');
+      }
+    }
+
+    const paidAtGateway = method === 'gateway' && gatewayRefund ? { gateway: payment!.gateway, refundId: gatewayRefund.refundId } : null;
+    try {
+      await this.complete(refund, method, paidAtGateway, reviewerId);
+    } catch (error: any) {
+      // The gateway reference is kept so a retry records this refund instead of repeating it
+      await this.refundModel.fail(
+        refundId,
+        error.message || 'Failed to record refund',
+        paidAtGateway ? { gateway: paidAtGateway.gateway, gatewayRefundId: paidAtGateway.refundId } : undefined
+      );
+      throw error;
+    }
+    return this.getRefund(refundId);
+  }
+
+  async rejectRefund(refundId: string, reviewerId: string, note: string): Promise<RefundRequest> {
+    const refund = await this.getRefund(refundId);
+    if (refund.status === 'failed' && refund.gateway_refund_id) {
+      throw new Error('Invalid state: the gateway has already paid this refund; approve it to record it');
+    }
+    if (!(await this.refundModel.reject(refundId, reviewerId, note))) {
+      throw new Error(`Invalid state: refund is ${refund.status}`);
+    }
+    return this.getRefund(refundId);
+  }
+
+  // ========== Queries ==========
+
+  async getRefund(refundId: string): Promise<RefundRequest> {
+    const refund = await this.refundModel.getById(refundId);
+    if (!refund) {
+      throw new Error('Refund not found');
+    }
+    return refund;
+  }
+
+  async getSubscriptionRefunds(subscriptionId: string, actor: RefundActor): Promise<RefundRequest[]> {
+    this.assertCanAccess(await this.getSubscription(subscriptionId), actor);
+    return this.refundModel.findBySubscription(subscriptionId);
+  }
+
+  async listRefunds(filters: { status?: RefundStatus; subscriptionId?: string }, limit: number, offset: number) {
+    return this.refundModel.list(filters, limit, offset);
+  }
+
+  /**
+   * Record a paid-out refund: credit the wallet if that is how it was paid,
+   * mark a fully refunded payment, and shrink or cancel the subscription
+   */
+  private async complete(
+    refund: RefundRequest,
+    method: RefundMethod,
+    gatewayRefund: { gateway: string; refundId: string } | null,
+    reviewerId: string
+  ): Promise<void> {
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const subscription = await this.getSubscription(refund.subscription_id, connection);
+      const amount = Number(refund.amount);
+      let walletTransactionId: string | null = null;
+
+      if (method === 'wallet') {
+        const wallet = await this.walletModel.getWalletByUserId(subscription.subscriber_user_id);
+        if (!wallet) {
+          throw new Error('User wallet not found');
+        }
+        const credit = await this.walletTransactionService.recordRefund(
+          subscription.subscriber_user_id,
+          wallet.id,
+          amount,
+          'system',
+          wallet.wallet_address,
+          refund.reason,
+          { refundId: refund.id, subscriptionId: subscription.id, propertyId: subscription.property_id },
+          this.walletAsset(subscription.currency),
+          connection
+        );
+        walletTransactionId = credit.id;
+      } else if (refund.payment_id) {
+        await this.markPaymentRefunded(connection, refund.payment_id, amount, refund.id, reviewerId);
+      }
+
+      const shares = await this.reduceSubscription(connection, subscription.id, amount);
+
+      await this.refundModel.complete(connection, refund.id, {
+        method,
+        gateway: gatewayRefund ? gatewayRefund.gateway : null,
+        gatewayRefundId: gatewayRefund ? gatewayRefund.refundId : null,
+        walletTransactionId,
+        ...shares
+      });
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  /**
+   * Take an amount off a subscription inside the caller's transaction. The
+   * amount and share shrink; taking all of it cancels the subscription.
+   * Lost chargebacks are reversed the same way.
+   */
+  async reduceSubscription(
+    connection: PoolConnection,
+    subscriptionId: string,
+    amount: number
+  ): Promise<{ sharePercentageBefore: number; sharePercentageAfter: number }> {
+    const subscription = await this.getSubscription(subscriptionId, connection);
+    const remaining = Math.max(toCents(subscription.subscription_amount) - toCents(amount), 0);
+    const sharePercentageBefore = Number(subscription.share_percentage);
+    const sharePercentageAfter = remaining > 0 ? (remaining / 100 / (subscription.supply || 1)) * 100 : 0;
+    if (remaining > 0) {
+      await connection.execute(
+        `UPDATE subscriptions SET subscription_amount = ?, share_percentage = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [String(remaining / 100), sharePercentageAfter, subscription.id]
+      );
+    } else {
+      await connection.execute(
+        "UPDATE subscriptions SET status = 'CANCELLED', updated_at = CURRENT_TIMESTAMP WHERE id = ?",
+        [subscription.id]
+      );
+    }
+    return { sharePercentageBefore, sharePercentageAfter };
+  }
+
+  /**
+   * Move the payment to refunded once the gateway has paid all of it back
+   */
+  private async markPaymentRefunded(
+    connection: PoolConnection,
+    paymentId: string,
+    amount: number,
+    refundId: string,
+    reviewerId: string
+  ): Promise<void> {
+    const payment = await this.paymentModel.getById(paymentId, connection, true);
+    if (!payment) {
+      return;
+    }
+    const refunded = toCents(await this.refundModel.getGatewayRefundedAmount(paymentId, connection)) + toCents(amount);
+    if (refunded >= toCents(payment.amount) && canTransition(payment.state, 'refunded')) {
+      await this.paymentModel.transition(connection, payment.id, payment.state, 'refunded', 'admin', {
+        note: `Refund ${refundId}`,
+        actorId: reviewerId
+      });
+    }
+  }
+
+  private canRefundAtGateway(payment: PaymentTransaction | null): boolean {
+    return !!payment && this.providers.has(payment.gateway) && REFUNDABLE_STATES.includes(payment.state);
+  }
+
+  private walletAsset(currency: string): WalletAsset {
+    const asset = WALLET_REFUND_ASSETS[currency.toUpperCase()];
+    if (!asset) {
+      throw new Error(`Invalid state: ${currency} refunds cannot be credited to a wallet`);
+    }
+    return asset;
+  }
+
+  private async findPayment(subscriptionId: string, paymentId?: string): Promise<PaymentTransaction | null> {
+    if (paymentId) {
+      const payment = await this.paymentModel.getById(paymentId);
+      if (!payment || payment.subscription_id !== subscriptionId) {
+        throw new Error('Payment not found');
+      }
+      return payment;
+    }
+    const payments = await this.paymentModel.findBySubscription(subscriptionId);
+    return payments.find(payment => REFUNDABLE_STATES.includes(payment.state)) || null;
+  }
+
+  /**
+   * Subscribers act on their own subscriptions; holders of manage_payments on
+   * any. Subscriptions made without an account are keyed by wallet address.
+   */
+  private assertCanAccess(subscription: RefundSubscription, actor: RefundActor): void {
+    const owner = subscription.subscriber_user_id;
+    const isOwner = owner === actor.id || (!!actor.address && owner.toLowerCase() === actor.address.toLowerCase());
+    if (!isOwner && !actor.permissions.includes(PERMISSIONS.MANAGE_PAYMENTS)) {
+      throw new Error('Not authorised to manage refunds for this subscription');
+    }
+  }
+
+  private async getSubscription(subscriptionId: string, connection?: PoolConnection): Promise<RefundSubscription> {
+    const [rows] = await (connection || this.pool).query<RefundSubscription[]>(
+      `SELECT s.id, s.property_id, s.subscriber_user_id, s.subscription_amount, s.share_percentage, s.currency, s.status, p.supply
+       FROM subscriptions s
+       LEFT JOIN properties p ON p.id = s.property_id
+       WHERE s.id = ?${connection ? ' FOR UPDATE' : ''}`,
+      [subscriptionId]
+    );
+    if (rows.length === 0) {
+      throw new Error('Subscription not found');
+    }
+    return rows[0];
+  }
+}
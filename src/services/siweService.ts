@@ -0,0 +1,215 @@
+import { Pool } from 'mysql2/promise';
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { SiweNonceModel } from '../models/siweNonceModel';
+import { SiweMessage, formatSiweMessage, parseSiweMessage } from '../utils/siweMessage';
+import { getProvider } from '../utils/ethersProvider';
+
+const DEFAULT_NONCE_TTL_MINUTES = 10;
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+const ERC1271_ABI = ['function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)'];
+
+const SIWE_STATEMENT = 'Sign in to TitleBase.';
+
+export interface SiweChallenge {
+  nonce: string;
+  expiresAt: Date;
+  message: string;
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361). The server issues a single-use nonce and
+ * the message to sign; a login is accepted only if the message is bound to
+ * this domain and chain and the nonce has not been used or expired.
+ * Contract wallets are verified through ERC-1271.
+ */
+export class SiweService {
+  private nonceModel: SiweNonceModel;
+
+  constructor(private pool: Pool) {
+    this.nonceModel = new SiweNonceModel(pool);
+  }
+
+  // ========== Challenge ==========
+
+  async issueNonce(address: string, chainId?: number): Promise<SiweChallenge> {
+    if (!ethers.isAddress(address)) {
+      throw new Error('Invalid address');
+    }
+
+    const resolvedChainId = chainId ?? this.getAllowedChainIds()[0];
+    if (!this.getAllowedChainIds().includes(resolvedChainId)) {
+      throw new Error(`Unsupported chain ID: ${resolvedChainId}`);
+    }
+
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.getNonceTtlMinutes() * 60 * 1000);
+    const checksummed = ethers.getAddress(address);
+
+    await this.nonceModel.createNonce(nonce, checksummed.toLowerCase(), expiresAt);
+
+    const domain = this.getAllowedDomains()[0];
+    const message = formatSiweMessage({
+      domain,
+      address: checksummed,
+      statement: SIWE_STATEMENT,
+      uri: this.getOrigin(domain),
+      version: '1',
+      chainId: resolvedChainId,
+      nonce,
+      issuedAt: issuedAt.toISOString(),
+      expirationTime: expiresAt.toISOString()
+    });
+
+    return { nonce, expiresAt, message };
+  }
+
+  // ========== Verification ==========
+
+  /**
+   * Verify a signed message and consume its nonce. Returns the parsed message;
+   * throws with a client-safe reason on any failure.
+   */
+  async verify(messageText: string, signature: string): Promise<SiweMessage> {
+    const message = parseSiweMessage(messageText);
+    const now = Date.now();
+
+    if (!this.getAllowedDomains().includes(message.domain)) {
+      throw new Error(`Message domain ${message.domain} is not accepted`);
+    }
+
+    let uriHost: string;
+    try {
+      uriHost = new URL(message.uri).host;
+    } catch {
+      throw new Error('Message URI is invalid');
+    }
+    if (uriHost !== message.domain) {
+      throw new Error('Message URI does not match its domain');
+    }
+
+    if (message.version !== '1') {
+      throw new Error(`Unsupported SIWE version: ${message.version}`);
+    }
+    if (!this.getAllowedChainIds().includes(message.chainId)) {
+      throw new Error(`Unsupported chain ID: ${message.chainId}`);
+    }
+
+    const issuedAt = this.parseTimestamp(message.issuedAt, 'Issued At');
+    if (issuedAt > now + CLOCK_SKEW_MS) {
+      throw new Error('Message was issued in the future');
+    }
+    if (message.expirationTime && this.parseTimestamp(message.expirationTime, 'Expiration Time') <= now) {
+      throw new Error('Message has expired');
+    }
+    if (message.notBefore && this.parseTimestamp(message.notBefore, 'Not Before') > now) {
+      throw new Error('Message is not yet valid');
+    }
+
+    const stored = await this.nonceModel.getNonce(message.nonce);
+    if (!stored) {
+      throw new Error('Unknown nonce');
+    }
+    if (stored.address && stored.address !== message.address.toLowerCase()) {
+      throw new Error('Nonce was issued for a different address');
+    }
+
+    if (!(await this.isValidSignature(message.address, messageText, signature, message.chainId))) {
+      throw new Error('Invalid signature');
+    }
+
+    // Consume last so a bad signature cannot burn someone else's nonce
+    if (!(await this.nonceModel.consumeNonce(message.nonce))) {
+      throw new Error('Nonce has already been used or has expired');
+    }
+
+    return message;
+  }
+
+  /**
+   * EOA signatures are recovered locally; anything else is checked against
+   * the address as an ERC-1271 contract wallet
+   */
+  private async isValidSignature(address: string, message: string, signature: string, chainId: number): Promise<boolean> {
+    try {
+      if (ethers.verifyMessage(message, signature).toLowerCase() === address.toLowerCase()) {
+        return true;
+      }
+    } catch {
+      // Not a recoverable 65-byte signature; contract wallets often use other encodings
+    }
+
+    try {
+      const provider = getProvider();
+      const network = await provider.getNetwork();
+      if (Number(network.chainId) !== chainId) {
+        return false;
+      }
+
+      const code = await provider.getCode(address);
+      if (code === '0x') {
+        return false;
+      }
+
+      const contract = new ethers.Contract(address, ERC1271_ABI, provider);
+      const result: string = await contract.isValidSignature(ethers.hashMessage(message), signature);
+      return result.toLowerCase() === ERC1271_MAGIC_VALUE;
+    } catch (error) {
+      console.error('ERC-1271 signature check failed:', error);
+      return false;
+    }
+  }
+
+  // ========== Configuration ==========
+
+  private getAllowedDomains(): string[] {
+    if (process.env.SIWE_DOMAIN) {
+      return process.env.SIWE_DOMAIN.split(',').map(domain => domain.trim()).filter(Boolean);
+    }
+    if (process.env.FRONTEND_URL) {
+      try {
+        return [new URL(process.env.FRONTEND_URL).host];
+      } catch {
+        // fall through to the development default
+      }
+    }
+    return ['localhost:3000'];
+  }
+
+  private getAllowedChainIds(): number[] {
+    return (process.env.SIWE_CHAIN_IDS || process.env.CHAIN_ID || '8453')
+      .split(',')
+      .map(value => Number(value.trim()))
+      .filter(value => Number.isInteger(value) && value > 0);
+  }
+
+  private getNonceTtlMinutes(): number {
+    const minutes = Number(process.env.SIWE_NONCE_TTL_MINUTES);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_NONCE_TTL_MINUTES;
+  }
+
+  private getOrigin(domain: string): string {
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (frontendUrl) {
+      try {
+        const url = new URL(frontendUrl);
+        if (url.host === domain) return url.origin;
+      } catch {
+        // fall through
+      }
+    }
+    return `${domain.startsWith('localhost') ? 'http' : 'https'}://${domain}`;
+  }
+
+  private parseTimestamp(value: string, field: string): number {
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+      throw new Error(`Message ${field} is not a valid timestamp`);
+    }
+    return time;
+  }
+}
@@ -8,6 +8,7 @@ import { Subscription, DisbursementRecord, subscriptionQueries, disbursementQuer
 import { getProvider } from '../utils/ethersProvider';
 import { query } from '../utils/database';
 import { WalletService } from './walletService';
+import { parseWalletAsset } from '../models/walletModel';
 
 export interface CreateSubscriptionRequest {
   propertyId: string;
@@ -26,6 +27,7 @@ export interface CreateDisbursementRequest {
   distributionId: string;
   subscriberId: string;
   disbursementAmount: string;
+  withholdingTax?: string; // tax withheld from the gross amount, in the same currency
   currency: string;
   type: 'YIELD' | 'RETURN' | 'REVENUE' | 'DIVIDEND';
 }
@@ -67,8 +69,8 @@ export class SubscriptionService {
 
       // Check if subscription already exists for this property and wallet
       const existingResult = await query(
-        'SELECT id FROM subscriptions WHERE property_id = ? AND subscriber_wallet_address = ? AND status = ?',
-        [request.propertyId, request.subscriberWalletAddress, 'ACTIVE']
+        "SELECT id FROM subscriptions WHERE property_id = ? AND subscriber_wallet_address = ? AND status IN ('ACTIVE', 'PENDING')",
+        [request.propertyId, request.subscriberWalletAddress]
       );
 
       if (existingResult && existingResult.length > 0) {
@@ -91,7 +93,8 @@ export class SubscriptionService {
         subscriber_wallet_address: request.subscriberWalletAddress,
         subscription_amount: subscriptionAmountStr,
         subscription_date: new Date(),
-        status: 'ACTIVE',
+        // Payments still waiting on a redirect, authorization or bank transfer
+        status: request.paymentStatus === 'PENDING' || request.paymentStatus === 'AUTHORIZED' ? 'PENDING' : 'ACTIVE',
         share_percentage: sharePercentage,
         currency: request.currency,
         transaction_hash: request.transactionHash,
@@ -265,6 +268,7 @@ export class SubscriptionService {
         subscriber_id: request.subscriberId,
         subscriber_wallet_address: '',
         disbursement_amount: request.disbursementAmount,
+        withholding_tax: request.withholdingTax || '0',
         disbursement_date: new Date(),
         currency: request.currency,
         type: request.type,
@@ -286,6 +290,7 @@ export class SubscriptionService {
         disbursement.subscriber_id,
         disbursement.subscriber_wallet_address,
         disbursement.disbursement_amount,
+        disbursement.withholding_tax,
         disbursement.disbursement_date,
         disbursement.currency,
         disbursement.type,
@@ -307,7 +312,8 @@ export class SubscriptionService {
     distributionId: string,
     disbursementAmountPerSubscriber: string,
     currency: string,
-    type: 'YIELD' | 'RETURN' | 'REVENUE' | 'DIVIDEND'
+    type: 'YIELD' | 'RETURN' | 'REVENUE' | 'DIVIDEND',
+    withholdingTaxPerSubscriber?: string
   ): Promise<DisbursementRecord[]> {
     try {
       const activeSubscriptions = await this.getActiveSubscriptionsByProperty(propertyId);
@@ -320,6 +326,7 @@ export class SubscriptionService {
           distributionId,
           subscriberId: subscription.id!,
           disbursementAmount: disbursementAmountPerSubscriber,
+          withholdingTax: withholdingTaxPerSubscriber,
           currency,
           type,
         });
@@ -466,16 +473,18 @@ export class SubscriptionService {
         disbursementId,
       ]);
 
-      // Credit the in-app wallet of the subscriber
+      // Credit the in-app wallet of the subscriber in the disbursed currency
       const disbursementAmount = parseFloat(disbursement.disbursement_amount);
       try {
+        const asset = parseWalletAsset(disbursement.currency);
         await this.walletService.disburseROI(
           disbursement.subscriber_user_id || '',
           disbursementAmount,
           disbursement.subscription_id || '',
-          0 // ROI percentage (can be calculated if needed)
+          0, // ROI percentage (can be calculated if needed)
+          asset
         );
-        console.log(`In-app wallet credited for user ${disbursement.subscriber_user_id}: ${disbursementAmount} USDC`);
+        console.log(`In-app wallet credited for user ${disbursement.subscriber_user_id}: ${disbursementAmount} ${asset}`);
       } catch (walletError) {
         console.warn(`Failed to credit in-app wallet: ${walletError}. Continuing with blockchain transaction.`);
       }
@@ -589,7 +598,12 @@ export class SubscriptionService {
 
       const allotment = result[0];
       const subscriptions = await this.getActiveSubscriptionsByProperty(propertyId);
-      const subscribedAmount = subscriptions.reduce((sum: number, sub: any) => {
+      // Subscriptions waiting on payment hold their share of the allotment
+      const pending = await query(
+        "SELECT subscription_amount FROM subscriptions WHERE property_id = ? AND status = 'PENDING'",
+        [propertyId]
+      );
+      const subscribedAmount = [...subscriptions, ...(pending || [])].reduce((sum: number, sub: any) => {
         return sum + parseFloat(sub.subscription_amount || 0);
       }, 0);
 
@@ -0,0 +1,614 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { TaxStatementModel } from '../models/taxStatementModel';
+import { getZonedTime, zonedTimeToUtc } from '../utils/timezone';
+import { toCsv, CsvValue } from '../utils/csv';
+import { PdfDocument } from '../utils/pdf';
+
+export interface TaxJurisdiction {
+  name: string;
+  startMonth: number; // 1-12; the year is named after the calendar year it ends in
+  timeZone: string;
+}
+
+export const TAX_JURISDICTIONS: Record<string, TaxJurisdiction> = {
+  NZ: { name: 'New Zealand', startMonth: 4, timeZone: 'Pacific/Auckland' },
+  AU: { name: 'Australia', startMonth: 7, timeZone: 'Australia/Sydney' }
+};
+
+export const defaultJurisdiction = (): string => (process.env.TAX_JURISDICTION || 'NZ').toUpperCase();
+
+// Taxable distribution types; RETURN is capital coming back and listed apart
+const INCOME_TYPES = ['YIELD', 'REVENUE', 'DIVIDEND'];
+
+export interface StatementIncomeLine {
+  date: string;
+  propertyId: string | null;
+  propertyTitle: string | null;
+  type: string;
+  currency: string;
+  gross: number;
+  withholding: number;
+  net: number;
+  reference: string;
+  source: 'disbursement' | 'wallet';
+}
+
+export interface StatementFeeLine {
+  date: string;
+  currency: string;
+  amount: number;
+  description: string;
+  reference: string;
+}
+
+export interface StatementTotals {
+  currency: string;
+  grossIncome: number;
+  withholding: number;
+  netIncome: number;
+  capitalReturned: number;
+  fees: number;
+  byType: Record<string, number>;
+}
+
+export interface TaxStatement {
+  jurisdiction: string;
+  jurisdictionName: string;
+  financialYear: number;
+  periodStart: string;
+  periodEnd: string;
+  timeZone: string;
+  provisional: boolean;
+  generatedAt: string;
+  investor: { id: string; name: string | null; email: string | null; walletAddress: string | null };
+  income: StatementIncomeLine[];
+  capitalReturns: StatementIncomeLine[];
+  fees: StatementFeeLine[];
+  byProperty: Array<{
+    propertyId: string | null;
+    propertyTitle: string | null;
+    currency: string;
+    byType: Record<string, number>;
+    gross: number;
+    withholding: number;
+    net: number;
+  }>;
+  totals: StatementTotals[];
+}
+
+interface FinancialPeriod {
+  jurisdiction: string;
+  financialYear: number;
+  periodStart: string; // local dates, inclusive
+  periodEnd: string;
+  start: Date; // UTC instants, end exclusive
+  end: Date;
+}
+
+const round = (value: number): number => parseFloat(value.toFixed(8));
+const pad = (value: number) => String(value).padStart(2, '0');
+const formatAmount = (amount: number, currency: string): string => amount.toFixed(currency === 'ETH' ? 8 : 2);
+
+/**
+ * Financial-year statements of investment income for investors' tax
+ * returns: distributions itemised by property and type, tax withheld, fees
+ * and totals per currency, as JSON, CSV or PDF
+ */
+export class TaxStatementService {
+  private statementModel: TaxStatementModel;
+
+  constructor(private pool: Pool) {
+    this.statementModel = new TaxStatementModel(pool);
+  }
+
+  // ========== Periods ==========
+
+  resolveJurisdiction(code?: string): string {
+    const jurisdiction = (code || defaultJurisdiction()).toUpperCase();
+    if (!TAX_JURISDICTIONS[jurisdiction]) {
+      throw new Error(`Unsupported jurisdiction: ${code}. Supported: ${Object.keys(TAX_JURISDICTIONS).join(', ')}`);
+    }
+    return jurisdiction;
+  }
+
+  /**
+   * The financial year in progress, named after the year it ends in
+   */
+  currentFinancialYear(jurisdiction: string, now: Date = new Date()): number {
+    const { startMonth, timeZone } = TAX_JURISDICTIONS[jurisdiction];
+    const local = getZonedTime(now, timeZone);
+    return startMonth > 1 && local.month >= startMonth ? local.year + 1 : local.year;
+  }
+
+  getPeriod(jurisdiction: string, financialYear: number): FinancialPeriod {
+    const { startMonth, timeZone } = TAX_JURISDICTIONS[jurisdiction];
+    if (!Number.isInteger(financialYear) || financialYear < 2000 || financialYear > this.currentFinancialYear(jurisdiction)) {
+      throw new Error('Invalid financial year');
+    }
+
+    const startYear = startMonth > 1 ? financialYear - 1 : financialYear;
+    const endYear = startMonth > 1 ? financialYear : financialYear + 1;
+    const start = zonedTimeToUtc({ year: startYear, month: startMonth, day: 1, hour: 0, minute: 0 }, timeZone);
+    const end = zonedTimeToUtc({ year: endYear, month: startMonth, day: 1, hour: 0, minute: 0 }, timeZone);
+    const lastDay = new Date(Date.UTC(endYear, startMonth - 1, 0));
+
+    return {
+      jurisdiction,
+      financialYear,
+      periodStart: `${startYear}-${pad(startMonth)}-01`,
+      periodEnd: `${lastDay.getUTCFullYear()}-${pad(lastDay.getUTCMonth() + 1)}-${pad(lastDay.getUTCDate())}`,
+      start,
+      end
+    };
+  }
+
+  // ========== Statements ==========
+
+  /**
+   * A user's statement. Closed years return the issued statement when there
+   * is one and store it otherwise; the current year is always rebuilt and
+   * marked provisional.
+   */
+  async getStatement(userId: string, jurisdiction: string, financialYear: number): Promise<TaxStatement> {
+    const period = this.getPeriod(jurisdiction, financialYear);
+    const closed = period.end <= new Date();
+
+    if (closed) {
+      const stored = await this.statementModel.getStatement(userId, jurisdiction, financialYear);
+      if (stored && !stored.statement.provisional) {
+        return stored.statement as TaxStatement;
+      }
+    }
+
+    const statement = await this.buildStatement(userId, period);
+    if (closed) {
+      await this.store(statement, null);
+    }
+    return statement;
+  }
+
+  async listStatements(filters: { userId?: string; jurisdiction?: string; financialYear?: number }, limit?: number, offset?: number) {
+    return this.statementModel.listStatements(filters, limit, offset);
+  }
+
+  /**
+   * Build and store statements for every user with income or fees in the
+   * year, replacing earlier copies
+   */
+  async generateAll(jurisdiction: string, financialYear: number, generatedBy: string) {
+    const period = this.getPeriod(jurisdiction, financialYear);
+    const [rows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT s.subscriber_user_id AS user_id
+       FROM disbursements d
+       JOIN subscriptions s ON s.id = d.subscriber_id
+       WHERE d.status = 'EXECUTED'
+         AND COALESCE(d.executed_at, d.disbursement_date) >= ? AND COALESCE(d.executed_at, d.disbursement_date) < ?
+       UNION
+       SELECT user_id
+       FROM wallet_transactions
+       WHERE transaction_type IN ('roi_disbursement', 'withdrawal_fee') AND status = 'completed'
+         AND created_at >= ? AND created_at < ?`,
+      [period.start, period.end, period.start, period.end]
+    );
+
+    let generated = 0;
+    const failed: Array<{ userId: string; error: string }> = [];
+    for (const row of rows) {
+      try {
+        await this.store(await this.buildStatement(row.user_id, period), generatedBy);
+        generated++;
+      } catch (error: any) {
+        console.error(`Tax statement for user ${row.user_id} failed:`, error);
+        failed.push({ userId: row.user_id, error: error.message || 'Unknown error' });
+      }
+    }
+
+    return {
+      jurisdiction,
+      financialYear,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      provisional: period.end > new Date(),
+      investors: rows.length,
+      generated,
+      failed
+    };
+  }
+
+  private async store(statement: TaxStatement, generatedBy: string | null): Promise<void> {
+    await this.statementModel.upsertStatement(
+      statement.investor.id,
+      statement.jurisdiction,
+      statement.financialYear,
+      statement.periodStart,
+      statement.periodEnd,
+      statement.totals,
+      statement,
+      generatedBy
+    );
+  }
+
+  private async buildStatement(userId: string, period: FinancialPeriod): Promise<TaxStatement> {
+    const { name, timeZone } = TAX_JURISDICTIONS[period.jurisdiction];
+    const [users] = await this.pool.query<RowDataPacket[]>(
+      'SELECT id, username, email, wallet_address FROM users WHERE id = ?',
+      [userId]
+    );
+    if (users.length === 0) {
+      throw new Error('User not found');
+    }
+
+    const localDate = (value: Date) => {
+      const local = getZonedTime(new Date(value), timeZone);
+      return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+    };
+
+    const [disbursements] = await this.pool.query<RowDataPacket[]>(
+      `SELECT d.id, d.property_id, p.title AS property_title, d.type, d.currency,
+              d.disbursement_amount, d.withholding_tax, d.transaction_hash,
+              COALESCE(d.executed_at, d.disbursement_date) AS paid_at
+       FROM disbursements d
+       JOIN subscriptions s ON s.id = d.subscriber_id
+       LEFT JOIN properties p ON p.id = d.property_id
+       WHERE s.subscriber_user_id = ? AND d.status = 'EXECUTED'
+         AND COALESCE(d.executed_at, d.disbursement_date) >= ? AND COALESCE(d.executed_at, d.disbursement_date) < ?
+       ORDER BY paid_at`,
+      [userId, period.start, period.end]
+    );
+
+    // ROI credited straight to the in-app wallet. Credits that do not name
+    // a subscription come from on-chain disbursements already listed above.
+    const [credits] = await this.pool.query<RowDataPacket[]>(
+      `SELECT wt.id, wt.asset, wt.amount, wt.created_at, s.property_id, p.title AS property_title
+       FROM wallet_transactions wt
+       JOIN subscriptions s
+         ON s.id = JSON_UNQUOTE(JSON_EXTRACT(wt.metadata, '$.subscriptionId')) COLLATE utf8mb4_unicode_ci
+       LEFT JOIN properties p ON p.id = s.property_id
+       WHERE wt.user_id = ? AND wt.transaction_type = 'roi_disbursement' AND wt.status = 'completed'
+         AND wt.created_at >= ? AND wt.created_at < ?
+       ORDER BY wt.created_at`,
+      [userId, period.start, period.end]
+    );
+
+    const [feeRows] = await this.pool.query<RowDataPacket[]>(
+      `SELECT id, asset, amount, description, created_at
+       FROM wallet_transactions
+       WHERE user_id = ? AND transaction_type = 'withdrawal_fee' AND status = 'completed'
+         AND created_at >= ? AND created_at < ?
+       ORDER BY created_at`,
+      [userId, period.start, period.end]
+    );
+
+    const lines: StatementIncomeLine[] = [
+      ...disbursements.map(row => {
+        const gross = Number(row.disbursement_amount) || 0;
+        const withholding = Number(row.withholding_tax) || 0;
+        return {
+          date: localDate(row.paid_at),
+          propertyId: row.property_id,
+          propertyTitle: row.property_title || null,
+          type: row.type,
+          currency: row.currency,
+          gross: round(gross),
+          withholding: round(withholding),
+          net: round(gross - withholding),
+          reference: row.transaction_hash || row.id,
+          source: 'disbursement' as const
+        };
+      }),
+      ...credits.map(row => ({
+        date: localDate(row.created_at),
+        propertyId: row.property_id,
+        propertyTitle: row.property_title || null,
+        type: 'YIELD',
+        currency: row.asset,
+        gross: round(Number(row.amount)),
+        withholding: 0,
+        net: round(Number(row.amount)),
+        reference: row.id,
+        source: 'wallet' as const
+      }))
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    const income = lines.filter(line => INCOME_TYPES.includes(line.type));
+    const capitalReturns = lines.filter(line => !INCOME_TYPES.includes(line.type));
+    const fees: StatementFeeLine[] = feeRows.map(row => ({
+      date: localDate(row.created_at),
+      currency: row.asset,
+      amount: round(Number(row.amount)),
+      description: row.description || 'Withdrawal fee',
+      reference: row.id
+    }));
+
+    const user = users[0];
+    return {
+      jurisdiction: period.jurisdiction,
+      jurisdictionName: name,
+      financialYear: period.financialYear,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      timeZone,
+      provisional: period.end > new Date(),
+      generatedAt: new Date().toISOString(),
+      investor: {
+        id: user.id,
+        name: user.username || null,
+        email: user.email || null,
+        walletAddress: user.wallet_address || null
+      },
+      income,
+      capitalReturns,
+      fees,
+      byProperty: this.groupByProperty(income),
+      totals: this.totalByCurrency(income, capitalReturns, fees)
+    };
+  }
+
+  private groupByProperty(income: StatementIncomeLine[]): TaxStatement['byProperty'] {
+    const groups = new Map<string, TaxStatement['byProperty'][number]>();
+    for (const line of income) {
+      const key = `${line.propertyId}:${line.currency}`;
+      const group = groups.get(key) || {
+        propertyId: line.propertyId,
+        propertyTitle: line.propertyTitle,
+        currency: line.currency,
+        byType: {},
+        gross: 0,
+        withholding: 0,
+        net: 0
+      };
+      group.byType[line.type] = round((group.byType[line.type] || 0) + line.gross);
+      group.gross = round(group.gross + line.gross);
+      group.withholding = round(group.withholding + line.withholding);
+      group.net = round(group.net + line.net);
+      groups.set(key, group);
+    }
+    return Array.from(groups.values())
+      .sort((a, b) => a.currency.localeCompare(b.currency) || (a.propertyTitle || '').localeCompare(b.propertyTitle || ''));
+  }
+
+  private totalByCurrency(
+    income: StatementIncomeLine[],
+    capitalReturns: StatementIncomeLine[],
+    fees: StatementFeeLine[]
+  ): StatementTotals[] {
+    const totals = new Map<string, StatementTotals>();
+    const totalFor = (currency: string) => {
+      if (!totals.has(currency)) {
+        totals.set(currency, { currency, grossIncome: 0, withholding: 0, netIncome: 0, capitalReturned: 0, fees: 0, byType: {} });
+      }
+      return totals.get(currency)!;
+    };
+
+    for (const line of income) {
+      const total = totalFor(line.currency);
+      total.grossIncome = round(total.grossIncome + line.gross);
+      total.withholding = round(total.withholding + line.withholding);
+      total.netIncome = round(total.netIncome + line.net);
+      total.byType[line.type] = round((total.byType[line.type] || 0) + line.gross);
+    }
+    for (const line of capitalReturns) {
+      const total = totalFor(line.currency);
+      total.capitalReturned = round(total.capitalReturned + line.gross);
+    }
+    for (const fee of fees) {
+      const total = totalFor(fee.currency);
+      total.fees = round(total.fees + fee.amount);
+    }
+    return Array.from(totals.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  // ========== Rendering ==========
+
+  /**
+   * Statement body, content type and download filename for a requested
+   * format (json, csv or pdf)
+   */
+  render(statement: TaxStatement, format: string = 'json'): { contentType: string; filename: string; body: string | Buffer } {
+    const filename = `income-statement-${statement.jurisdiction}-FY${statement.financialYear}`;
+    switch (format) {
+      case 'json':
+        return { contentType: 'application/json', filename: `${filename}.json`, body: JSON.stringify(statement) };
+      case 'csv':
+        return { contentType: 'text/csv; charset=utf-8', filename: `${filename}.csv`, body: this.renderCsv(statement) };
+      case 'pdf':
+        return { contentType: 'application/pdf', filename: `${filename}.pdf`, body: this.renderPdf(statement) };
+      default:
+        throw new Error('Unsupported format. Use json, csv or pdf');
+    }
+  }
+
+  renderCsv(statement: TaxStatement): string {
+    const rows: CsvValue[][] = [
+      ['Investor income statement'],
+      ['Investor', statement.investor.name || statement.investor.email || statement.investor.id],
+      ['Jurisdiction', statement.jurisdictionName],
+      ['Financial year', statement.financialYear],
+      ['Period', statement.periodStart, statement.periodEnd],
+      ['Status', statement.provisional ? 'Provisional' : 'Final'],
+      [],
+      ['Date', 'Property', 'Property ID', 'Type', 'Currency', 'Gross', 'Withholding', 'Net', 'Reference'],
+      ...[...statement.income, ...statement.capitalReturns].map(line => [
+        line.date,
+        line.propertyTitle,
+        line.propertyId,
+        line.type,
+        line.currency,
+        formatAmount(line.gross, line.currency),
+        formatAmount(line.withholding, line.currency),
+        formatAmount(line.net, line.currency),
+        line.reference
+      ]),
+      [],
+      ['Fee date', 'Description', 'Currency', 'Amount', 'Reference'],
+      ...statement.fees.map(fee => [fee.date, fee.description, fee.currency, formatAmount(fee.amount, fee.currency), fee.reference]),
+      [],
+      ['Currency', 'Gross income', 'Withholding', 'Net income', 'Capital returned', 'Fees', ...INCOME_TYPES],
+      ...statement.totals.map(total => [
+        total.currency,
+        formatAmount(total.grossIncome, total.currency),
+        formatAmount(total.withholding, total.currency),
+        formatAmount(total.netIncome, total.currency),
+        formatAmount(total.capitalReturned, total.currency),
+        formatAmount(total.fees, total.currency),
+        ...INCOME_TYPES.map(type => formatAmount(total.byType[type] || 0, total.currency))
+      ])
+    ];
+    return toCsv(rows);
+  }
+
+  renderPdf(statement: TaxStatement): Buffer {
+    const title = `Investment income statement ${statement.financialYear}`;
+    const pdf = new PdfDocument({ title, author: 'TitleBase' });
+    const left = 50;
+    const right = PdfDocument.WIDTH - 50;
+    const bottom = PdfDocument.HEIGHT - 60;
+    let y = 0;
+
+    const newPage = () => {
+      pdf.addPage();
+      y = 60;
+      pdf.text(left, y, title, { size: 16, bold: true });
+      y += 24;
+    };
+    const ensureSpace = (height: number) => {
+      if (y + height > bottom) newPage();
+    };
+    const fit = (value: string, width: number, size: number) => {
+      let text = value;
+      while (text.length > 1 && PdfDocument.textWidth(text, size) > width) text = text.slice(0, -1);
+      return text === value ? text : `${text.slice(0, -1)}...`;
+    };
+    const heading = (text: string) => {
+      ensureSpace(40);
+      y += 10;
+      pdf.text(left, y, text, { size: 12, bold: true });
+      y += 6;
+      pdf.line(left, y, right, y);
+      y += 14;
+    };
+    const row = (cells: Array<{ x: number; text: string; align?: 'left' | 'right'; width?: number }>, bold = false) => {
+      ensureSpace(14);
+      for (const cell of cells) {
+        const text = cell.width ? fit(cell.text, cell.width, 9) : cell.text;
+        pdf.text(cell.x, y, text, { size: 9, bold, align: cell.align });
+      }
+      y += 14;
+    };
+
+    newPage();
+    const investor = statement.investor;
+    for (const [label, value] of [
+      ['Investor', investor.name || investor.email || investor.id],
+      ['Email', investor.email || '-'],
+      ['Wallet', investor.walletAddress || '-'],
+      ['Jurisdiction', statement.jurisdictionName],
+      ['Period', `${statement.periodStart} to ${statement.periodEnd} (${statement.timeZone})`],
+      ['Status', statement.provisional ? 'Provisional - the financial year has not ended' : 'Final']
+    ]) {
+      pdf.text(left, y, label, { size: 10, bold: true });
+      pdf.text(left + 90, y, value, { size: 10 });
+      y += 15;
+    }
+
+    heading('Summary by currency');
+    row([
+      { x: left, text: 'Currency' },
+      { x: 220, text: 'Gross income', align: 'right' },
+      { x: 300, text: 'Withheld', align: 'right' },
+      { x: 380, text: 'Net income', align: 'right' },
+      { x: 465, text: 'Capital returned', align: 'right' },
+      { x: right, text: 'Fees', align: 'right' }
+    ], true);
+    if (statement.totals.length === 0) row([{ x: left, text: 'No income or fees in this period.' }]);
+    for (const total of statement.totals) {
+      row([
+        { x: left, text: total.currency },
+        { x: 220, text: formatAmount(total.grossIncome, total.currency), align: 'right' },
+        { x: 300, text: formatAmount(total.withholding, total.currency), align: 'right' },
+        { x: 380, text: formatAmount(total.netIncome, total.currency), align: 'right' },
+        { x: 465, text: formatAmount(total.capitalReturned, total.currency), align: 'right' },
+        { x: right, text: formatAmount(total.fees, total.currency), align: 'right' }
+      ]);
+    }
+
+    if (statement.byProperty.length > 0) {
+      heading('Income by property');
+      row([
+        { x: left, text: 'Property' },
+        { x: 250, text: 'Currency' },
+        ...INCOME_TYPES.map((type, index) => ({ x: 350 + index * 65, text: type, align: 'right' as const })),
+        { x: right, text: 'Gross', align: 'right' }
+      ], true);
+      for (const property of statement.byProperty) {
+        row([
+          { x: left, text: property.propertyTitle || property.propertyId || 'Unknown property', width: 190 },
+          { x: 250, text: property.currency },
+          ...INCOME_TYPES.map((type, index) => ({
+            x: 350 + index * 65,
+            text: formatAmount(property.byType[type] || 0, property.currency),
+            align: 'right' as const
+          })),
+          { x: right, text: formatAmount(property.gross, property.currency), align: 'right' }
+        ]);
+      }
+    }
+
+    const lineTable = (lines: StatementIncomeLine[]) => {
+      row([
+        { x: left, text: 'Date' },
+        { x: 115, text: 'Property' },
+        { x: 290, text: 'Type' },
+        { x: 350, text: 'Currency' },
+        { x: 440, text: 'Gross', align: 'right' },
+        { x: 495, text: 'Withheld', align: 'right' },
+        { x: right, text: 'Net', align: 'right' }
+      ], true);
+      for (const line of lines) {
+        row([
+          { x: left, text: line.date },
+          { x: 115, text: line.propertyTitle || line.propertyId || '-', width: 170 },
+          { x: 290, text: line.type },
+          { x: 350, text: line.currency },
+          { x: 440, text: formatAmount(line.gross, line.currency), align: 'right' },
+          { x: 495, text: formatAmount(line.withholding, line.currency), align: 'right' },
+          { x: right, text: formatAmount(line.net, line.currency), align: 'right' }
+        ]);
+      }
+    };
+
+    if (statement.income.length > 0) {
+      heading('Income received');
+      lineTable(statement.income);
+    }
+    if (statement.capitalReturns.length > 0) {
+      heading('Capital returned (not income)');
+      lineTable(statement.capitalReturns);
+    }
+    if (statement.fees.length > 0) {
+      heading('Fees paid');
+      row([
+        { x: left, text: 'Date' },
+        { x: 115, text: 'Description' },
+        { x: 400, text: 'Currency' },
+        { x: right, text: 'Amount', align: 'right' }
+      ], true);
+      for (const fee of statement.fees) {
+        row([
+          { x: left, text: fee.date },
+          { x: 115, text: fee.description, width: 270 },
+          { x: 400, text: fee.currency },
+          { x: right, text: formatAmount(fee.amount, fee.currency), align: 'right' }
+        ]);
+      }
+    }
+
+    ensureSpace(40);
+    y += 16;
+    pdf.text(left, y, `Generated ${statement.generatedAt.slice(0, 10)}. Dates are in ${statement.timeZone} time.`, { size: 8 });
+    y += 11;
+    pdf.text(left, y, 'This statement summarises platform records and is not tax advice.', { size: 8 });
+
+    return pdf.toBuffer();
+  }
+}
@@ -0,0 +1,166 @@
+import { Pool, RowDataPacket } from 'mysql2/promise';
+import { TokenMetadataModel, TokenMetadataVersion, MetadataVersionSource } from '../models/tokenMetadataModel';
+import { metadataService, validateTokenMetadata, PropertyMetadata } from './metadataService';
+import { updateTitleMetadata } from './blockchain';
+import { sha256 } from './documentStorage';
+
+/**
+ * Versioned token metadata. Each published version is pinned, becomes the
+ * property's metadata_hash and, once the property is minted, is anchored
+ * on-chain with TitleNFT.updateMetadata using the SHA-256 of the JSON.
+ */
+export class TokenMetadataService {
+  private tokenMetadataModel: TokenMetadataModel;
+
+  constructor(private pool: Pool) {
+    this.tokenMetadataModel = new TokenMetadataModel(pool);
+  }
+
+  // ========== History ==========
+
+  async getHistoryByToken(tokenId: string, includeMetadata: boolean = false) {
+    const [properties] = await this.pool.query<RowDataPacket[]>(
+      'SELECT id, token_id, metadata_hash FROM properties WHERE token_id = ?',
+      [tokenId]
+    );
+    if (properties.length === 0) {
+      throw new Error('Token not found');
+    }
+
+    const property = properties[0];
+    const versions = await this.tokenMetadataModel.getHistoryByProperty(property.id);
+    return {
+      tokenId: String(property.token_id),
+      propertyId: property.id,
+      currentCid: property.metadata_hash || null,
+      versions: versions.map(version => this.present(version, includeMetadata))
+    };
+  }
+
+  // ========== Publishing ==========
+
+  /**
+   * Publish a new metadata version: the given document, or one rebuilt from
+   * the property's current data when metadata is omitted
+   */
+  async publish(propertyId: string, metadata: any | null, actorId: string | null, reason?: string) {
+    const [properties] = await this.pool.query<RowDataPacket[]>(
+      'SELECT id, token_id FROM properties WHERE id = ?',
+      [propertyId]
+    );
+    if (properties.length === 0) {
+      throw new Error('Property not found');
+    }
+
+    let document: PropertyMetadata;
+    let source: MetadataVersionSource;
+    if (metadata) {
+      document = { ...validateTokenMetadata(metadata), propertyId };
+      source = 'update';
+    } else {
+      document = await metadataService.prepareMetadata(propertyId);
+      source = 'refresh';
+    }
+
+    const pinned = await metadataService.pinMetadata(document);
+    await this.pool.execute('UPDATE properties SET metadata_hash = ? WHERE id = ?', [pinned.cid, propertyId]);
+
+    const tokenId = properties[0].token_id !== null ? Number(properties[0].token_id) : null;
+    const version = await this.tokenMetadataModel.createVersion({
+      propertyId,
+      tokenId,
+      cid: pinned.cid,
+      documentHash: `0x${pinned.sha256}`,
+      metadata: document,
+      source,
+      reason: reason ? reason.slice(0, 500) : null,
+      createdBy: actorId
+    });
+
+    if (tokenId === null) {
+      return this.present(version, false);
+    }
+    return this.present(await this.anchor(version), false);
+  }
+
+  /**
+   * Retry the on-chain update for a version that failed or was never sent
+   */
+  async resubmit(propertyId: string, versionNumber: number) {
+    const version = (await this.tokenMetadataModel.getHistoryByProperty(propertyId)).find(
+      candidate => candidate.version === versionNumber
+    );
+    if (!version) {
+      throw new Error('Metadata version not found');
+    }
+    if (version.chain_status === 'confirmed' || version.chain_status === 'submitted') {
+      throw new Error(`Invalid state: version ${versionNumber} is already ${version.chain_status}`);
+    }
+
+    const [properties] = await this.pool.query<RowDataPacket[]>('SELECT token_id FROM properties WHERE id = ?', [propertyId]);
+    if (!properties[0] || properties[0].token_id === null) {
+      throw new Error('Invalid state: the property has not been minted');
+    }
+
+    return this.present(await this.anchor({ ...version, token_id: Number(properties[0].token_id) } as TokenMetadataVersion), false);
+  }
+
+  /**
+   * Record the metadata a token was minted with as its first version
+   */
+  async recordMintedVersion(propertyId: string, tokenId: number, cid: string, txHash: string, blockNumber: number): Promise<void> {
+    if (await this.tokenMetadataModel.findByCid(propertyId, cid)) {
+      return;
+    }
+
+    const content = await metadataService.getContent(cid);
+    await this.tokenMetadataModel.createVersion({
+      propertyId,
+      tokenId,
+      cid,
+      documentHash: `0x${sha256(content)}`,
+      metadata: JSON.parse(content.toString('utf8')),
+      source: 'mint',
+      createdBy: null,
+      chainStatus: 'confirmed',
+      txHash,
+      blockNumber
+    });
+  }
+
+  private async anchor(version: TokenMetadataVersion): Promise<TokenMetadataVersion> {
+    try {
+      const result = await updateTitleMetadata(version.token_id!, version.document_hash, transactionHash =>
+        this.tokenMetadataModel.markSubmitted(version.id, transactionHash)
+      );
+      await this.tokenMetadataModel.markConfirmed(version.id, result.transactionHash, result.blockNumber);
+    } catch (error: any) {
+      console.error(`On-chain metadata update for version ${version.version} of ${version.property_id} failed:`, error);
+      await this.tokenMetadataModel.markFailed(version.id, error.shortMessage || error.message || 'Unknown error');
+    }
+    return (await this.tokenMetadataModel.getVersionById(version.id))!;
+  }
+
+  private present(version: TokenMetadataVersion, includeMetadata: boolean) {
+    return {
+      version: version.version,
+      cid: version.cid,
+      uri: `ipfs://${version.cid}`,
+      gatewayUrl: metadataService.gatewayUrl(`ipfs://${version.cid}`),
+      documentHash: version.document_hash,
+      source: version.source,
+      reason: version.reason,
+      tokenId: version.token_id !== null ? String(version.token_id) : null,
+      chain: {
+        status: version.chain_status,
+        transactionHash: version.tx_hash,
+        blockNumber: version.block_number !== null ? Number(version.block_number) : null,
+        error: version.chain_error,
+        confirmedAt: version.confirmed_at
+      },
+      createdBy: version.created_by,
+      createdAt: version.created_at,
+      ...(includeMetadata ? { metadata: version.metadata } : {})
+    };
+  }
+}
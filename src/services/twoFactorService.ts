@@ -0,0 +1,246 @@
+import { Pool } from 'mysql2/promise';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { TwoFactorModel, UserTwoFactor } from '../models/twoFactorModel';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+
+export type TwoFactorMethod = 'totp' | 'backup_code';
+
+const BACKUP_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_LOCKOUT_SECONDS = 15 * 60;
+const DEFAULT_STEP_UP_TTL_SECONDS = 5 * 60;
+const DEFAULT_ISSUER = 'TitleBase';
+
+const hash = (value: string): string => crypto.createHash('sha256').update(value).digest('hex');
+
+const normalizeBackupCode = (code: string): string => String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * TOTP (RFC 6238) second factor: enrolment, backup codes, the login
+ * challenge for password accounts and short-lived step-up tokens for
+ * sensitive actions
+ */
+export class TwoFactorService {
+  private twoFactorModel: TwoFactorModel;
+
+  constructor(private pool: Pool) {
+    this.twoFactorModel = new TwoFactorModel(pool);
+  }
+
+  // ========== Enrolment ==========
+
+  async getStatus(userId: string) {
+    const record = await this.twoFactorModel.getByUser(userId);
+    const enabled = record?.status === 'enabled';
+    return {
+      enabled,
+      pendingEnrolment: record?.status === 'pending',
+      enabledAt: record?.enabled_at || null,
+      backupCodesRemaining: enabled ? await this.twoFactorModel.countUnusedBackupCodes(userId) : 0
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.twoFactorModel.getByUser(userId);
+    return record?.status === 'enabled';
+  }
+
+  /**
+   * Generate a secret and the otpauth:// URI to show as a QR code. Nothing
+   * is enforced until the user confirms with a valid code.
+   */
+  async beginEnrolment(userId: string, accountName: string) {
+    if (await this.isEnabled(userId)) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorModel.savePendingSecret(userId, this.encrypt(secret));
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, accountName, process.env.TWO_FACTOR_ISSUER || DEFAULT_ISSUER)
+    };
+  }
+
+  async confirmEnrolment(userId: string, code: string): Promise<{ backupCodes: string[] }> {
+    const record = await this.twoFactorModel.getByUser(userId);
+    if (!record) {
+      throw new Error('Start enrolment before confirming');
+    }
+    if (record.status === 'enabled') {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(this.decrypt(record.secret_encrypted), code);
+    if (step === null || !(await this.twoFactorModel.recordUsedStep(userId, step))) {
+      throw new Error('Invalid verification code');
+    }
+
+    await this.twoFactorModel.enable(userId);
+    return { backupCodes: await this.issueBackupCodes(userId) };
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    await this.verifyCode(userId, code);
+    await this.twoFactorModel.remove(userId);
+  }
+
+  async regenerateBackupCodes(userId: string, code: string): Promise<{ backupCodes: string[] }> {
+    await this.verifyCode(userId, code);
+    return { backupCodes: await this.issueBackupCodes(userId) };
+  }
+
+  // ========== Verification ==========
+
+  /**
+   * Accept a current TOTP code or an unused backup code; throws otherwise.
+   * Every path that checks a code comes through here, so failures count
+   * towards one per-user lockout.
+   */
+  async verifyCode(userId: string, code: string): Promise<TwoFactorMethod> {
+    const record = await this.twoFactorModel.getByUser(userId);
+    if (!record || record.status !== 'enabled') {
+      throw new Error('Two-factor authentication is not enabled');
+    }
+    if (record.locked_until && new Date(record.locked_until) > new Date()) {
+      throw new Error('Too many failed verification attempts; try again later');
+    }
+
+    try {
+      const method = await this.checkCode(record, code);
+      await this.twoFactorModel.clearFailedAttempts(userId);
+      return method;
+    } catch (error) {
+      await this.twoFactorModel.recordFailedAttempt(userId, MAX_CODE_ATTEMPTS, CODE_LOCKOUT_SECONDS);
+      throw error;
+    }
+  }
+
+  private async checkCode(record: UserTwoFactor, code: string): Promise<TwoFactorMethod> {
+    const step = verifyTotp(this.decrypt(record.secret_encrypted), code);
+    if (step !== null) {
+      if (!(await this.twoFactorModel.recordUsedStep(record.user_id, step))) {
+        throw new Error('Verification code has already been used');
+      }
+      return 'totp';
+    }
+
+    const backupCode = normalizeBackupCode(code);
+    if (backupCode.length > 0 && (await this.twoFactorModel.consumeBackupCode(record.user_id, hash(backupCode)))) {
+      return 'backup_code';
+    }
+
+    throw new Error('Invalid verification code');
+  }
+
+  // ========== Login Challenge ==========
+
+  async createLoginChallenge(userId: string): Promise<{ challengeToken: string; expiresAt: Date }> {
+    const challengeToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + LOGIN_CHALLENGE_TTL_MS);
+    await this.twoFactorModel.createChallenge(userId, hash(challengeToken), 'login', expiresAt);
+    return { challengeToken, expiresAt };
+  }
+
+  /**
+   * Exchange a login challenge and a code for the user id to start a session for
+   */
+  async completeLoginChallenge(challengeToken: string, code: string): Promise<string> {
+    const challenge = await this.twoFactorModel.getChallengeByHash(hash(String(challengeToken || '')));
+    if (!challenge || challenge.purpose !== 'login') {
+      throw new Error('Invalid or expired login challenge');
+    }
+    if (challenge.consumed_at || new Date(challenge.expires_at) <= new Date()) {
+      throw new Error('Invalid or expired login challenge');
+    }
+    if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      throw new Error('Too many attempts; sign in again');
+    }
+
+    try {
+      await this.verifyCode(challenge.user_id, code);
+    } catch (error) {
+      await this.twoFactorModel.incrementChallengeAttempts(challenge.id);
+      throw error;
+    }
+
+    if (!(await this.twoFactorModel.consumeChallenge(challenge.id))) {
+      throw new Error('Invalid or expired login challenge');
+    }
+    return challenge.user_id;
+  }
+
+  // ========== Step-up ==========
+
+  /**
+   * Verify a code and issue a short-lived token that sensitive routes accept
+   * in place of a fresh code. Bound to the user and, if present, the session.
+   */
+  async issueStepUpToken(userId: string, sessionId: string | undefined, code: string) {
+    const method = await this.verifyCode(userId, code);
+    const expiresIn = this.stepUpTtlSeconds();
+    const stepUpToken = jwt.sign(
+      { sub: userId, sid: sessionId || null, purpose: 'step_up', method },
+      this.jwtSecret(),
+      { expiresIn }
+    );
+    return { stepUpToken, expiresIn };
+  }
+
+  verifyStepUpToken(token: string, userId: string, sessionId?: string): boolean {
+    try {
+      const decoded: any = jwt.verify(token, this.jwtSecret());
+      return (
+        decoded.purpose === 'step_up' &&
+        decoded.sub === userId &&
+        (!decoded.sid || decoded.sid === (sessionId || null))
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private async issueBackupCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    await this.twoFactorModel.replaceBackupCodes(userId, codes.map(code => hash(normalizeBackupCode(code))));
+    return codes;
+  }
+
+  private stepUpTtlSeconds(): number {
+    const seconds = Number(process.env.TWO_FACTOR_STEP_UP_TTL_SECONDS);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_STEP_UP_TTL_SECONDS;
+  }
+
+  private jwtSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error('Server configuration error');
+    return secret;
+  }
+
+  // ========== Secret Encryption ==========
+
+  private encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || this.jwtSecret()).digest();
+  }
+
+  private encrypt(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, ciphertext] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
@@ -1,13 +1,21 @@
-import { Pool } from 'mysql2/promise';
+import { Pool, PoolConnection, ResultSetHeader } from 'mysql2/promise';
 import { ethers } from 'ethers';
 import { v4 as uuidv4 } from 'uuid';
-import { WalletModel, UserWallet } from '../models/walletModel';
+import { WalletModel, UserWallet, WalletAsset, WalletDeposit, DEFAULT_WALLET_ASSET } from '../models/walletModel';
 import { WalletTransactionModel } from '../models/walletTransactionModel';
+import { DisputeModel } from '../models/disputeModel';
+import { SYSTEM_ACCOUNTS, toMicroUnits } from '../models/ledgerModel';
+import { PERMISSIONS } from '../models/permissionModel';
+import { LedgerService } from './ledgerService';
+import { WithdrawalLimitService } from './withdrawalLimitService';
+import { WithdrawalFeeService, FeeQuote, DEFAULT_WITHDRAWAL_NETWORK } from './withdrawalFeeService';
+import { RealtimeEventService, REALTIME_EVENTS } from './realtimeEventService';
 
 export interface WalletBalance {
   walletId: string;
   address: string;
   balanceUsdc: number;
+  balances: Record<WalletAsset, number>;
   kycStatus: string;
   nonce: number;
 }
@@ -19,15 +27,35 @@ export interface TransactionResult {
   balanceAfter: number;
 }
 
+export interface DepositActor {
+  id: string;
+  permissions: string[];
+}
+
+const ERC20_TRANSFER_INTERFACE = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function decimals() view returns (uint8)'
+]);
+
 export class WalletService {
   private walletModel: WalletModel;
   private transactionModel: WalletTransactionModel;
+  private disputeModel: DisputeModel;
+  private ledgerService: LedgerService;
+  private withdrawalLimitService: WithdrawalLimitService;
+  private withdrawalFeeService: WithdrawalFeeService;
+  private realtimeService: RealtimeEventService;
   private provider: ethers.JsonRpcProvider;
   private USDC_CONTRACT = process.env.USDC_CONTRACT_ADDRESS || '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'; // Base mainnet USDC
 
   constructor(private pool: Pool, rpcUrl?: string) {
     this.walletModel = new WalletModel(pool);
     this.transactionModel = new WalletTransactionModel(pool);
+    this.disputeModel = new DisputeModel(pool);
+    this.ledgerService = new LedgerService(pool);
+    this.withdrawalLimitService = new WithdrawalLimitService(pool);
+    this.withdrawalFeeService = new WithdrawalFeeService(pool);
+    this.realtimeService = new RealtimeEventService(pool);
     this.provider = new ethers.JsonRpcProvider(
       rpcUrl || process.env.BASE_RPC_URL || 'https://mainnet.base.org'
     );
@@ -62,10 +90,13 @@ export class WalletService {
       }
     }
 
+    const balances = await this.walletModel.getAssetBalances(wallet.id);
+
     return {
       walletId: wallet.id,
       address: wallet.wallet_address,
-      balanceUsdc: wallet.balance_usdc,
+      balanceUsdc: balances.USDC,
+      balances,
       kycStatus: wallet.kyc_status,
       nonce: wallet.nonce
     };
@@ -81,7 +112,8 @@ export class WalletService {
     fromUserId: string,
     toUserId: string,
     amount: number,
-    reason: string = 'internal_transfer'
+    reason: string = 'internal_transfer',
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
   ): Promise<TransactionResult> {
     const fromWallet = await this.walletModel.getWalletByUserId(fromUserId);
     const toWallet = await this.walletModel.getWalletByUserId(toUserId);
@@ -90,67 +122,126 @@ export class WalletService {
       throw new Error('One or both wallets not found');
     }
 
-    if (fromWallet.balance_usdc < amount) {
-      throw new Error('Insufficient balance');
-    }
-
     const connection = await this.pool.getConnection();
     try {
       await connection.beginTransaction();
 
-      const balanceBefore = fromWallet.balance_usdc;
-
-      // Deduct from sender
-      const fromNewBalance = await this.walletModel.decrementWalletBalance(fromWallet.id, amount);
-
-      // Add to recipient
-      const toNewBalance = await this.walletModel.incrementWalletBalance(toWallet.id, amount);
-
-      // Create transaction record for sender
-      const txId = uuidv4();
-      await connection.execute(
-        `INSERT INTO wallet_transactions 
-         (id, user_id, wallet_id, transaction_type, amount, balance_before, balance_after, from_address, to_address, status, description)
-         VALUES (?, ?, ?, 'internal_transfer', ?, ?, ?, ?, ?, 'completed', ?)`,
+      const posted = await this.ledgerService.postEntry(
+        connection,
+        { entryType: 'transfer', asset, description: reason, referenceType: 'wallet', referenceId: fromWallet.id },
         [
-          txId,
-          fromUserId,
-          fromWallet.id,
-          amount,
-          balanceBefore,
-          fromNewBalance,
-          fromWallet.wallet_address,
-          toWallet.wallet_address,
-          reason
+          { walletId: fromWallet.id, direction: 'debit', amount },
+          { walletId: toWallet.id, direction: 'credit', amount }
         ]
       );
+      const fromBalances = posted.walletBalances[fromWallet.id];
+      const toBalances = posted.walletBalances[toWallet.id];
+
+      // Create transaction record for sender
+      const txId = await this.insertTransactionRecord(connection, {
+        userId: fromUserId,
+        walletId: fromWallet.id,
+        type: 'internal_transfer',
+        asset,
+        amount,
+        balanceBefore: fromBalances.before,
+        balanceAfter: fromBalances.after,
+        fromAddress: fromWallet.wallet_address,
+        toAddress: toWallet.wallet_address,
+        description: reason,
+        journalEntryId: posted.journalEntryId
+      });
 
       // Create transaction record for recipient
-      const toTxId = uuidv4();
-      await connection.execute(
-        `INSERT INTO wallet_transactions 
-         (id, user_id, wallet_id, transaction_type, amount, balance_before, balance_after, from_address, to_address, status, description)
-         VALUES (?, ?, ?, 'internal_transfer', ?, ?, ?, ?, ?, 'completed', ?)`,
+      const recipientTxId = await this.insertTransactionRecord(connection, {
+        userId: toUserId,
+        walletId: toWallet.id,
+        type: 'internal_transfer',
+        asset,
+        amount,
+        balanceBefore: toBalances.before,
+        balanceAfter: toBalances.after,
+        fromAddress: fromWallet.wallet_address,
+        toAddress: toWallet.wallet_address,
+        description: reason,
+        journalEntryId: posted.journalEntryId
+      });
+
+      await connection.commit();
+
+      await this.publishBalanceChange(fromUserId, fromWallet.id, asset, fromBalances, 'internal_transfer', txId);
+      await this.publishBalanceChange(toUserId, toWallet.id, asset, toBalances, 'internal_transfer', recipientTxId);
+
+      return {
+        transactionId: txId,
+        status: 'completed',
+        balanceBefore: fromBalances.before,
+        balanceAfter: fromBalances.after
+      };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  // ========== Subscription Payments ==========
+
+  /**
+   * Pay for a property subscription from the in-app wallet. Funds move to the
+   * platform's subscription proceeds account rather than another user wallet.
+   */
+  async paySubscriptionFromWallet(
+    userId: string,
+    amount: number,
+    propertyId: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ): Promise<TransactionResult> {
+    const wallet = await this.walletModel.getWalletByUserId(userId);
+    if (!wallet) {
+      throw new Error('User wallet not found');
+    }
+
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      const description = `Subscription to property ${propertyId}`;
+      const posted = await this.ledgerService.postEntry(
+        connection,
+        { entryType: 'subscription_payment', asset, description, referenceType: 'property', referenceId: propertyId },
         [
-          toTxId,
-          toUserId,
-          toWallet.id,
-          amount,
-          toWallet.balance_usdc,
-          toNewBalance,
-          fromWallet.wallet_address,
-          toWallet.wallet_address,
-          reason
+          { walletId: wallet.id, direction: 'debit', amount },
+          { systemAccount: SYSTEM_ACCOUNTS.SUBSCRIPTION_PROCEEDS, direction: 'credit', amount }
         ]
       );
+      const balances = posted.walletBalances[wallet.id];
+
+      const txId = await this.insertTransactionRecord(connection, {
+        userId,
+        walletId: wallet.id,
+        type: 'subscription_payment',
+        asset,
+        amount,
+        balanceBefore: balances.before,
+        balanceAfter: balances.after,
+        fromAddress: wallet.wallet_address,
+        toAddress: 'system',
+        description,
+        metadata: { propertyId },
+        journalEntryId: posted.journalEntryId
+      });
 
       await connection.commit();
 
+      await this.publishBalanceChange(userId, wallet.id, asset, balances, 'subscription_payment', txId);
+
       return {
         transactionId: txId,
         status: 'completed',
-        balanceBefore,
-        balanceAfter: fromNewBalance
+        balanceBefore: balances.before,
+        balanceAfter: balances.after
       };
     } catch (error) {
       await connection.rollback();
@@ -166,52 +257,67 @@ export class WalletService {
     userId: string,
     amount: number,
     subscriptionId: string,
-    roiPercentage: number
+    roiPercentage: number,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
   ): Promise<TransactionResult> {
     const wallet = await this.walletModel.getWalletByUserId(userId);
     if (!wallet) {
       throw new Error('User wallet not found');
     }
+    if (await this.disputeModel.hasOpenDispute(subscriptionId)) {
+      throw new Error('Invalid state: disbursements are frozen while a payment dispute is open');
+    }
 
     const connection = await this.pool.getConnection();
     try {
       await connection.beginTransaction();
 
-      const balanceBefore = wallet.balance_usdc;
-      const newBalance = await this.walletModel.incrementWalletBalance(wallet.id, amount);
-
-      // Create disbursement transaction
-      const txId = uuidv4();
-      await connection.execute(
-        `INSERT INTO wallet_transactions 
-         (id, user_id, wallet_id, transaction_type, amount, balance_before, balance_after, 
-          from_address, to_address, status, description, metadata)
-         VALUES (?, ?, ?, 'roi_disbursement', ?, ?, ?, ?, ?, 'completed', ?, ?)`,
+      const posted = await this.ledgerService.postEntry(
+        connection,
+        {
+          entryType: 'roi_disbursement',
+          asset,
+          description: 'ROI disbursement for subscription',
+          referenceType: 'subscription',
+          referenceId: subscriptionId,
+          metadata: { roiPercentage }
+        },
         [
-          txId,
-          userId,
-          wallet.id,
-          amount,
-          balanceBefore,
-          newBalance,
-          'system',
-          wallet.wallet_address,
-          `ROI disbursement for subscription`,
-          JSON.stringify({
-            subscriptionId,
-            roiPercentage,
-            disbursementDate: new Date().toISOString()
-          })
+          { systemAccount: SYSTEM_ACCOUNTS.ROI_DISTRIBUTIONS, direction: 'debit', amount },
+          { walletId: wallet.id, direction: 'credit', amount }
         ]
       );
+      const balances = posted.walletBalances[wallet.id];
+
+      // Create disbursement transaction
+      const txId = await this.insertTransactionRecord(connection, {
+        userId,
+        walletId: wallet.id,
+        type: 'roi_disbursement',
+        asset,
+        amount,
+        balanceBefore: balances.before,
+        balanceAfter: balances.after,
+        fromAddress: 'system',
+        toAddress: wallet.wallet_address,
+        description: `ROI disbursement for subscription`,
+        metadata: {
+          subscriptionId,
+          roiPercentage,
+          disbursementDate: new Date().toISOString()
+        },
+        journalEntryId: posted.journalEntryId
+      });
 
       await connection.commit();
 
+      await this.publishBalanceChange(userId, wallet.id, asset, balances, 'roi_disbursement', txId);
+
       return {
         transactionId: txId,
         status: 'completed',
-        balanceBefore,
-        balanceAfter: newBalance
+        balanceBefore: balances.before,
+        balanceAfter: balances.after
       };
     } catch (error) {
       await connection.rollback();
@@ -226,8 +332,9 @@ export class WalletService {
   async initiateDeposit(
     userId: string,
     amount: number,
-    sourceAddress: string
-  ): Promise<{ depositId: string; depositAddress: string }> {
+    sourceAddress: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ): Promise<{ depositId: string; depositAddress: string; asset: WalletAsset }> {
     const wallet = await this.walletModel.getWalletByUserId(userId);
     if (!wallet) {
       throw new Error('User wallet not found');
@@ -238,58 +345,95 @@ export class WalletService {
       wallet.id,
       amount,
       sourceAddress,
-      wallet.wallet_address
+      wallet.wallet_address,
+      asset
     );
 
     return {
       depositId: deposit.id,
-      depositAddress: wallet.wallet_address
+      depositAddress: wallet.wallet_address,
+      asset
     };
   }
 
-  async confirmDeposit(depositId: string, txHash: string, amount?: number): Promise<void> {
+  /**
+   * Credit a pending deposit with the amount recorded when it was initiated.
+   * Payment managers confirm on the strength of their own checks; the
+   * depositor can only confirm a transaction that verifiably paid the
+   * deposit into their wallet on-chain.
+   */
+  async confirmDeposit(depositId: string, txHash: string, actor: DepositActor): Promise<void> {
     const deposit = await this.walletModel.getDepositById(depositId);
     if (!deposit) {
       throw new Error('Deposit not found');
     }
 
+    const isManager = actor.permissions.includes(PERMISSIONS.MANAGE_PAYMENTS);
+    if (!isManager && deposit.user_id !== actor.id) {
+      throw new Error('Not authorised to confirm this deposit');
+    }
+
+    if (deposit.status !== 'pending') {
+      throw new Error(`Deposit already ${deposit.status}`);
+    }
+
+    if (await this.walletModel.isDepositTxHashUsed(txHash, depositId)) {
+      throw new Error('Invalid transaction: already credited to another deposit');
+    }
+    if (!isManager) {
+      await this.verifyDepositOnChain(deposit, txHash);
+    }
+
     const connection = await this.pool.getConnection();
     try {
       await connection.beginTransaction();
 
-      // Update deposit status
-      await this.walletModel.updateDepositStatus(depositId, 'confirmed', txHash);
+      // Only one confirmation can move a pending deposit; a concurrent one finds it taken
+      const [updated] = await connection.execute<ResultSetHeader>(
+        `UPDATE wallet_deposits SET status = 'confirmed', tx_hash = ? WHERE id = ? AND status = 'pending'`,
+        [txHash, depositId]
+      );
+      if (updated.affectedRows === 0) {
+        throw new Error('Deposit already confirmed');
+      }
 
-      // Update wallet balance
       const wallet = await this.walletModel.getWalletById(deposit.wallet_id);
       if (!wallet) throw new Error('Wallet not found');
 
-      const balanceBefore = wallet.balance_usdc;
-      const depositAmount = amount || deposit.amount;
-      const newBalance = await this.walletModel.incrementWalletBalance(wallet.id, depositAmount);
+      const depositAmount = Number(deposit.amount);
+      const asset = deposit.asset || DEFAULT_WALLET_ASSET;
+      const description = `${asset} deposit from external wallet`;
 
-      // Create transaction record
-      const txId = uuidv4();
-      await connection.execute(
-        `INSERT INTO wallet_transactions 
-         (id, user_id, wallet_id, transaction_type, amount, balance_before, balance_after, 
-          from_address, to_address, tx_hash, status, description)
-         VALUES (?, ?, ?, 'deposit', ?, ?, ?, ?, ?, ?, 'completed', ?)`,
+      // Funds arriving on-chain grow the float and the user's claim on it
+      const posted = await this.ledgerService.postEntry(
+        connection,
+        { entryType: 'deposit', asset, description, referenceType: 'deposit', referenceId: depositId, metadata: { txHash } },
         [
-          txId,
-          deposit.user_id,
-          wallet.id,
-          depositAmount,
-          balanceBefore,
-          newBalance,
-          deposit.source_address,
-          wallet.wallet_address,
-          txHash,
-          `USDC deposit from external wallet`
+          { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: depositAmount },
+          { walletId: wallet.id, direction: 'credit', amount: depositAmount }
         ]
       );
+      const balances = posted.walletBalances[wallet.id];
+
+      // Create transaction record
+      const txId = await this.insertTransactionRecord(connection, {
+        userId: deposit.user_id,
+        walletId: wallet.id,
+        type: 'deposit',
+        asset,
+        amount: depositAmount,
+        balanceBefore: balances.before,
+        balanceAfter: balances.after,
+        fromAddress: deposit.source_address,
+        toAddress: wallet.wallet_address,
+        txHash,
+        description,
+        journalEntryId: posted.journalEntryId
+      });
 
       await connection.commit();
+
+      await this.publishBalanceChange(deposit.user_id, wallet.id, asset, balances, 'deposit', txId);
     } catch (error) {
       await connection.rollback();
       throw error;
@@ -298,56 +442,156 @@ export class WalletService {
     }
   }
 
+  /**
+   * Require txHash to be a successful transfer of at least the deposit amount
+   * of its asset from the source address into the deposit address
+   */
+  private async verifyDepositOnChain(deposit: WalletDeposit, txHash: string): Promise<void> {
+    const asset = deposit.asset || DEFAULT_WALLET_ASSET;
+    const from = deposit.source_address.toLowerCase();
+    const to = deposit.deposit_address.toLowerCase();
+
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error('Invalid transaction: not found or not successful on-chain');
+    }
+
+    if (asset === 'ETH') {
+      const transaction = await this.provider.getTransaction(txHash);
+      const paid = transaction && transaction.from.toLowerCase() === from && transaction.to?.toLowerCase() === to
+        && transaction.value >= ethers.parseEther(String(deposit.amount));
+      if (!paid) {
+        throw new Error('Invalid transaction: it does not pay this deposit');
+      }
+      return;
+    }
+
+    const tokenAddress = asset === 'USDC' ? this.USDC_CONTRACT : process.env.DNZD_ADDRESS;
+    if (!tokenAddress) {
+      throw new Error(`Cannot verify ${asset} deposits on-chain; ask an admin to confirm this deposit`);
+    }
+    const token = new ethers.Contract(tokenAddress, ERC20_TRANSFER_INTERFACE, this.provider);
+    const expected = ethers.parseUnits(String(deposit.amount), Number(await token.decimals()));
+
+    const paid = receipt.logs.some(log => {
+      if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) return false;
+      const parsed = ERC20_TRANSFER_INTERFACE.parseLog({ topics: [...log.topics], data: log.data });
+      return parsed?.name === 'Transfer' && parsed.args.from.toLowerCase() === from
+        && parsed.args.to.toLowerCase() === to && parsed.args.value >= expected;
+    });
+    if (!paid) {
+      throw new Error('Invalid transaction: it does not pay this deposit');
+    }
+  }
+
   // ========== Withdrawal Handling ==========
 
   async requestWithdrawal(
     userId: string,
     amount: number,
-    destinationAddress: string
-  ): Promise<{ withdrawalId: string; requiresKYC: boolean }> {
+    destinationAddress: string,
+    options: { asset?: WalletAsset; network?: string; promoCode?: string | null } = {}
+  ): Promise<{ withdrawalId: string; requiresKYC: boolean; fee: FeeQuote }> {
     const wallet = await this.walletModel.getWalletByUserId(userId);
     if (!wallet) {
       throw new Error('User wallet not found');
     }
 
-    if (wallet.balance_usdc < amount) {
-      throw new Error('Insufficient balance');
+    const asset = options.asset || DEFAULT_WALLET_ASSET;
+    const balance = await this.walletModel.getAssetBalance(wallet.id, asset);
+    if (balance < amount) {
+      throw new Error(`Insufficient ${asset} balance`);
     }
+    await this.assertNotHeld(userId, asset, balance, amount);
 
     // Check if user is KYC verified
     const kycVerification = await this.walletModel.getKYCByUserId(userId);
     const isKYCVerified = kycVerification?.status === 'approved' && wallet.kyc_status === 'verified';
 
-    if (!isKYCVerified) {
-      // Create withdrawal request that's pending KYC
+    const connection = await this.pool.getConnection();
+    try {
+      await connection.beginTransaction();
+
+      // Serialise requests per wallet so concurrent ones count against each other's limits
+      await connection.query('SELECT id FROM user_wallets WHERE id = ? FOR UPDATE', [wallet.id]);
+
+      await this.withdrawalLimitService.assertWithinLimits(
+        userId,
+        this.withdrawalLimitService.resolveTier(wallet.kyc_status),
+        amount,
+        asset,
+        connection
+      );
+
+      // Quote the fee now and lock it into the request; any waiver is consumed here
+      const fee = await this.withdrawalFeeService.quote(
+        userId,
+        amount,
+        asset,
+        options.network || DEFAULT_WITHDRAWAL_NETWORK,
+        options.promoCode || null,
+        connection
+      );
+
       const withdrawal = await this.walletModel.createWithdrawalRequest(
         userId,
         wallet.id,
         amount,
-        destinationAddress
+        destinationAddress,
+        asset,
+        connection,
+        {
+          network: fee.network,
+          feeAmount: fee.feeAmount,
+          netAmount: fee.netAmount,
+          waiverId: fee.waiverId,
+          quote: fee
+        }
       );
 
+      // Verified users skip the KYC hold
+      if (isKYCVerified) {
+        await this.walletModel.markWithdrawalKYCVerified(withdrawal.id, connection);
+      }
+
+      await connection.commit();
+
+      await this.publishWithdrawalStatus(userId, withdrawal.id, 'pending', { asset, amount, network: fee.network });
+
       return {
         withdrawalId: withdrawal.id,
-        requiresKYC: true
+        requiresKYC: !isKYCVerified,
+        fee
       };
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
     }
+  }
 
-    // If KYC verified, create approved withdrawal
-    const withdrawal = await this.walletModel.createWithdrawalRequest(
-      userId,
-      wallet.id,
-      amount,
-      destinationAddress
-    );
+  async getWithdrawalFeeSchedule(asset: WalletAsset = DEFAULT_WALLET_ASSET) {
+    return this.withdrawalFeeService.getSchedule(asset);
+  }
 
-    // Mark as KYC verified and auto-approve
-    await this.walletModel.markWithdrawalKYCVerified(withdrawal.id);
+  async quoteWithdrawalFee(
+    userId: string,
+    amount: number,
+    network?: string,
+    promoCode?: string | null,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ) {
+    return this.withdrawalFeeService.quote(userId, amount, asset, network || DEFAULT_WITHDRAWAL_NETWORK, promoCode || null);
+  }
 
-    return {
-      withdrawalId: withdrawal.id,
-      requiresKYC: false
-    };
+  async getWithdrawalLimits(userId: string, asset: WalletAsset = DEFAULT_WALLET_ASSET) {
+    const wallet = await this.walletModel.getWalletByUserId(userId);
+    return this.withdrawalLimitService.getLimitStatus(
+      userId,
+      this.withdrawalLimitService.resolveTier(wallet?.kyc_status),
+      asset
+    );
   }
 
   async approveWithdrawal(withdrawalId: string, txHash?: string): Promise<void> {
@@ -356,6 +600,11 @@ export class WalletService {
       throw new Error('Withdrawal request not found');
     }
 
+    // A rejected request has already given its fee waiver back, so it can never be paid out
+    if (withdrawal.status !== 'pending' && withdrawal.status !== 'approved') {
+      throw new Error(`Withdrawal already ${withdrawal.status}`);
+    }
+
     // Check KYC requirement
     if (withdrawal.requires_kyc && !withdrawal.kyc_verified) {
       throw new Error('KYC verification required');
@@ -365,38 +614,110 @@ export class WalletService {
     try {
       await connection.beginTransaction();
 
-      // Deduct from wallet
+      // Claim the request before posting so a concurrent approval cannot pay it out twice
+      if (!(await this.walletModel.completeWithdrawalRequest(withdrawalId, txHash || null, connection))) {
+        throw new Error('Withdrawal already processed');
+      }
+
       const wallet = await this.walletModel.getWalletById(withdrawal.wallet_id);
       if (!wallet) throw new Error('Wallet not found');
 
-      const balanceBefore = wallet.balance_usdc;
-      const newBalance = await this.walletModel.decrementWalletBalance(wallet.id, withdrawal.amount);
-
-      // Update withdrawal status
-      await this.walletModel.updateWithdrawalStatus(withdrawalId, 'completed', txHash);
-
-      // Create transaction record
-      const txId = uuidv4();
-      await connection.execute(
-        `INSERT INTO wallet_transactions 
-         (id, user_id, wallet_id, transaction_type, amount, balance_before, balance_after, 
-          from_address, to_address, tx_hash, status, description)
-         VALUES (?, ?, ?, 'withdraw', ?, ?, ?, ?, ?, ?, 'completed', ?)`,
+      const asset = withdrawal.asset || DEFAULT_WALLET_ASSET;
+      const grossAmount = Number(withdrawal.amount);
+
+      const feeAmount = Number(withdrawal.fee_amount || 0);
+      const netAmount = withdrawal.net_amount !== null && withdrawal.net_amount !== undefined
+        ? Number(withdrawal.net_amount)
+        : grossAmount - feeAmount;
+
+      // Funds leaving on-chain shrink both the user's claim and the float
+      const posted = await this.ledgerService.postEntry(
+        connection,
+        {
+          entryType: 'withdrawal',
+          asset,
+          description: `${asset} withdrawal to external wallet`,
+          referenceType: 'withdrawal',
+          referenceId: withdrawalId,
+          metadata: { txHash, network: withdrawal.network, grossAmount, feeAmount, netAmount }
+        },
         [
-          txId,
-          withdrawal.user_id,
-          wallet.id,
-          withdrawal.amount,
-          balanceBefore,
-          newBalance,
-          wallet.wallet_address,
-          withdrawal.destination_address,
-          txHash || 'pending',
-          `USDC withdrawal to external wallet`
+          { walletId: wallet.id, direction: 'debit', amount: netAmount },
+          { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'credit', amount: netAmount }
         ]
       );
+      const balances = posted.walletBalances[wallet.id];
+
+      // Create transaction record
+      const txId = await this.insertTransactionRecord(connection, {
+        userId: withdrawal.user_id,
+        walletId: wallet.id,
+        type: 'withdraw',
+        asset,
+        amount: netAmount,
+        balanceBefore: balances.before,
+        balanceAfter: balances.after,
+        fromAddress: wallet.wallet_address,
+        toAddress: withdrawal.destination_address,
+        txHash: txHash || 'pending',
+        description: `${asset} withdrawal to external wallet`,
+        metadata: { withdrawalId, network: withdrawal.network, grossAmount, feeAmount, netAmount },
+        journalEntryId: posted.journalEntryId
+      });
+
+      // The fee is its own entry so statements show gross, fee and net separately
+      let balanceAfter = balances.after;
+      if (feeAmount > 0) {
+        const feePosted = await this.ledgerService.postEntry(
+          connection,
+          {
+            entryType: 'withdrawal_fee',
+            asset,
+            description: `Withdrawal fee (${withdrawal.network})`,
+            referenceType: 'withdrawal',
+            referenceId: withdrawalId,
+            metadata: { feeWaiverId: withdrawal.fee_waiver_id }
+          },
+          [
+            { walletId: wallet.id, direction: 'debit', amount: feeAmount },
+            { systemAccount: SYSTEM_ACCOUNTS.FEE_REVENUE, direction: 'credit', amount: feeAmount }
+          ]
+        );
+        const feeBalances = feePosted.walletBalances[wallet.id];
+
+        await this.insertTransactionRecord(connection, {
+          userId: withdrawal.user_id,
+          walletId: wallet.id,
+          type: 'withdrawal_fee',
+          asset,
+          amount: feeAmount,
+          balanceBefore: feeBalances.before,
+          balanceAfter: feeBalances.after,
+          fromAddress: wallet.wallet_address,
+          toAddress: 'system',
+          description: `Withdrawal fee (${withdrawal.network})`,
+          metadata: { withdrawalId, grossAmount, feeAmount, netAmount },
+          journalEntryId: feePosted.journalEntryId
+        });
+        balanceAfter = feeBalances.after;
+      }
 
       await connection.commit();
+
+      await this.publishBalanceChange(
+        withdrawal.user_id,
+        wallet.id,
+        asset,
+        { before: balances.before, after: balanceAfter },
+        'withdrawal',
+        txId
+      );
+      await this.publishWithdrawalStatus(withdrawal.user_id, withdrawalId, 'completed', {
+        asset,
+        amount: grossAmount,
+        network: withdrawal.network,
+        txHash: txHash || null
+      });
     } catch (error) {
       await connection.rollback();
       throw error;
@@ -406,7 +727,49 @@ export class WalletService {
   }
 
   async rejectWithdrawal(withdrawalId: string, reason: string): Promise<void> {
-    await this.walletModel.updateWithdrawalStatus(withdrawalId, 'rejected', undefined, reason);
+    const connection = await this.pool.getConnection();
+    let withdrawal;
+    try {
+      await connection.beginTransaction();
+
+      withdrawal = await this.walletModel.getWithdrawalRequest(withdrawalId, connection);
+      if (!withdrawal) {
+        throw new Error('Withdrawal request not found');
+      }
+      if (!(await this.walletModel.rejectWithdrawalRequest(withdrawalId, reason, connection))) {
+        throw new Error(`Withdrawal already ${withdrawal.status}`);
+      }
+
+      // The fee waiver used by the request is available again
+      if (withdrawal.fee_waiver_id) {
+        await this.withdrawalFeeService.releaseWaiver(withdrawal.fee_waiver_id, connection);
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    await this.publishWithdrawalStatus(withdrawal.user_id, withdrawalId, 'rejected', {
+      asset: withdrawal.asset || DEFAULT_WALLET_ASSET,
+      amount: Number(withdrawal.amount),
+      network: withdrawal.network,
+      reason
+    });
+  }
+
+  /**
+   * Reject a withdrawal request up front when it would reach into funds held
+   * by an open payment dispute; the ledger enforces the hold when it posts
+   */
+  private async assertNotHeld(userId: string, asset: WalletAsset, balance: number, amount: number): Promise<void> {
+    const held = await this.disputeModel.getHeldBalance(userId, asset);
+    if (held > 0 && toMicroUnits(balance) - toMicroUnits(held) < toMicroUnits(amount)) {
+      throw new Error(`Insufficient ${asset} balance: ${held} ${asset} is held while a payment dispute is open`);
+    }
   }
 
   // ========== Transaction History ==========
@@ -447,7 +810,8 @@ export class WalletService {
     const wallet = await this.walletModel.getWalletByUserId(userId);
     if (!wallet) return null;
 
-    const [transactions, deposits, withdrawals, kycStatus] = await Promise.all([
+    const [balances, transactions, deposits, withdrawals, kycStatus] = await Promise.all([
+      this.walletModel.getAssetBalances(wallet.id),
       this.walletModel.getTransactionsByWalletId(wallet.id, 10),
       this.walletModel.getDepositsByWalletId(wallet.id),
       this.walletModel.getWithdrawalsByUserId(userId),
@@ -458,7 +822,8 @@ export class WalletService {
       wallet: {
         id: wallet.id,
         address: wallet.wallet_address,
-        balance: wallet.balance_usdc,
+        balance: balances.USDC,
+        balances,
         kycStatus: wallet.kyc_status,
         kycVerifiedAt: wallet.kyc_verified_at,
         createdAt: wallet.created_at
@@ -469,4 +834,107 @@ export class WalletService {
       kyc: kycStatus
     };
   }
+
+  // ========== Ledger ==========
+
+  async getLedgerStatement(
+    userId: string,
+    limit: number = 50,
+    offset: number = 0,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ) {
+    const wallet = await this.walletModel.getWalletByUserId(userId);
+    if (!wallet) return null;
+
+    const [entries, reconciliation] = await Promise.all([
+      this.ledgerService.getWalletStatement(wallet.id, limit, offset, asset),
+      this.ledgerService.reconcileWallet(wallet.id, asset)
+    ]);
+
+    return { walletId: wallet.id, asset, reconciliation, entries };
+  }
+
+  // ========== Real-time Events ==========
+
+  /**
+   * Push a committed balance change to the wallet owner's open streams
+   */
+  private async publishBalanceChange(
+    userId: string,
+    walletId: string,
+    asset: WalletAsset,
+    balances: { before: number; after: number },
+    reason: string,
+    transactionId: string
+  ): Promise<void> {
+    await this.realtimeService.publish(userId, REALTIME_EVENTS.WALLET_BALANCE_CHANGED, {
+      walletId,
+      asset,
+      balanceBefore: balances.before,
+      balance: balances.after,
+      change: (toMicroUnits(balances.after) - toMicroUnits(balances.before)) / 1_000_000,
+      reason,
+      transactionId
+    });
+  }
+
+  private async publishWithdrawalStatus(
+    userId: string,
+    withdrawalId: string,
+    status: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    await this.realtimeService.publish(userId, REALTIME_EVENTS.WITHDRAWAL_STATUS_CHANGED, {
+      withdrawalId,
+      status,
+      ...details
+    });
+  }
+
+  /**
+   * Write the wallet_transactions history row for a posted ledger entry
+   */
+  private async insertTransactionRecord(
+    connection: PoolConnection,
+    record: {
+      userId: string;
+      walletId: string;
+      type: string;
+      asset: WalletAsset;
+      amount: number;
+      balanceBefore: number;
+      balanceAfter: number;
+      fromAddress: string;
+      toAddress: string;
+      txHash?: string;
+      description: string;
+      metadata?: any;
+      journalEntryId: string;
+    }
+  ): Promise<string> {
+    const txId = uuidv4();
+    await connection.execute(
+      `INSERT INTO wallet_transactions 
+       (id, user_id, wallet_id, transaction_type, asset, amount, balance_before, balance_after, 
+        from_address, to_address, tx_hash, status, description, metadata, journal_entry_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'completed', ?, ?, ?)`,
+      [
+        txId,
+        record.userId,
+        record.walletId,
+        record.type,
+        record.asset,
+        record.amount,
+        record.balanceBefore,
+        record.balanceAfter,
+        record.fromAddress,
+        record.toAddress,
+        record.txHash || null,
+        record.description,
+        record.metadata ? JSON.stringify(record.metadata) : null,
+        record.journalEntryId
+      ]
+    );
+    return txId;
+  }
 }
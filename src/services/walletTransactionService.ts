@@ -1,6 +1,8 @@
-import { Pool } from 'mysql2/promise';
+import { Pool, PoolConnection } from 'mysql2/promise';
 import { WalletTransactionModel, WalletTransactionRecord, TransactionMetadata } from '../models/walletTransactionModel';
-import { WalletModel } from '../models/walletModel';
+import { WalletModel, WalletAsset, DEFAULT_WALLET_ASSET } from '../models/walletModel';
+import { SYSTEM_ACCOUNTS } from '../models/ledgerModel';
+import { LedgerService } from './ledgerService';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface TransactionDetails {
@@ -29,10 +31,12 @@ export interface TransactionSummary {
 export class WalletTransactionService {
   private transactionModel: WalletTransactionModel;
   private walletModel: WalletModel;
+  private ledgerService: LedgerService;
 
   constructor(private pool: Pool) {
     this.transactionModel = new WalletTransactionModel(pool);
     this.walletModel = new WalletModel(pool);
+    this.ledgerService = new LedgerService(pool);
   }
 
   async recordDeposit(
@@ -176,6 +180,11 @@ export class WalletTransactionService {
     return this.formatTransactionDetails(transaction);
   }
 
+  /**
+   * Credit a refund to a wallet. The balance moves through the ledger, out of
+   * subscription proceeds; pass a connection to post inside the caller's
+   * transaction.
+   */
   async recordRefund(
     userId: string,
     walletId: string,
@@ -183,26 +192,125 @@ export class WalletTransactionService {
     fromAddress: string,
     toAddress: string,
     reason: string,
-    metadata?: TransactionMetadata
+    metadata?: TransactionMetadata,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection
   ): Promise<TransactionDetails> {
+    if (!connection) {
+      const own = await this.pool.getConnection();
+      try {
+        await own.beginTransaction();
+        const details = await this.recordRefund(userId, walletId, amount, fromAddress, toAddress, reason, metadata, asset, own);
+        await own.commit();
+        return details;
+      } catch (error) {
+        await own.rollback();
+        throw error;
+      } finally {
+        own.release();
+      }
+    }
+
     const fullMetadata: TransactionMetadata = {
       reason,
       ...metadata
     };
+    const description = `Refund: ${reason}`;
+
+    const posted = await this.ledgerService.postEntry(
+      connection,
+      {
+        entryType: 'refund',
+        asset,
+        description,
+        referenceType: metadata?.refundId ? 'refund' : 'wallet',
+        referenceId: metadata?.refundId || walletId,
+        metadata: fullMetadata
+      },
+      [
+        { systemAccount: SYSTEM_ACCOUNTS.SUBSCRIPTION_PROCEEDS, direction: 'debit', amount },
+        { walletId, direction: 'credit', amount }
+      ]
+    );
+    const balances = posted.walletBalances[walletId];
 
-    const transaction = await this.transactionModel.createTransaction(
+    const transactionId = await this.transactionModel.createPostedTransaction(connection, {
       userId,
       walletId,
-      'refund',
+      type: 'refund',
+      asset,
       amount,
+      balanceBefore: balances.before,
+      balanceAfter: balances.after,
       fromAddress,
       toAddress,
-      'completed',
-      `Refund: ${reason}`,
-      fullMetadata
+      description,
+      metadata: fullMetadata,
+      journalEntryId: posted.journalEntryId
+    });
+
+    return {
+      id: transactionId,
+      type: 'refund',
+      amount,
+      fromAddress,
+      toAddress,
+      status: 'completed',
+      description,
+      balanceBefore: balances.before,
+      balanceAfter: balances.after,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Take back wallet credits paid out on a payment the gateway charged back.
+   * The amount returns to ROI distributions clearing, inside the caller's
+   * transaction.
+   */
+  async recordChargeback(
+    connection: PoolConnection,
+    userId: string,
+    walletId: string,
+    amount: number,
+    asset: WalletAsset,
+    reason: string,
+    metadata: TransactionMetadata
+  ): Promise<string> {
+    const wallet = await this.walletModel.getWalletById(walletId);
+    const description = `Chargeback: ${reason}`;
+
+    const posted = await this.ledgerService.postEntry(
+      connection,
+      {
+        entryType: 'chargeback',
+        asset,
+        description,
+        referenceType: 'dispute',
+        referenceId: metadata.disputeId,
+        metadata
+      },
+      [
+        { walletId, direction: 'debit', amount },
+        { systemAccount: SYSTEM_ACCOUNTS.ROI_DISTRIBUTIONS, direction: 'credit', amount }
+      ]
     );
+    const balances = posted.walletBalances[walletId];
 
-    return this.formatTransactionDetails(transaction);
+    return this.transactionModel.createPostedTransaction(connection, {
+      userId,
+      walletId,
+      type: 'chargeback',
+      asset,
+      amount,
+      balanceBefore: balances.before,
+      balanceAfter: balances.after,
+      fromAddress: wallet?.wallet_address || walletId,
+      toAddress: 'system',
+      description,
+      metadata,
+      journalEntryId: posted.journalEntryId
+    });
   }
 
   async getTransactionHistory(
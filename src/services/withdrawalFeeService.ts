@@ -0,0 +1,285 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import {
+  WithdrawalFeeModel,
+  WithdrawalFeeSchedule,
+  DEFAULT_FEE_NETWORK
+} from '../models/withdrawalFeeModel';
+import { toMicroUnits } from '../models/ledgerModel';
+import { WalletAsset, WALLET_ASSETS, DEFAULT_WALLET_ASSET } from '../models/walletModel';
+
+export interface FeeTerms {
+  network: string;
+  asset: WalletAsset;
+  feePercentage: number; // fraction of the gross amount, 0.01 = 1%
+  minFee: number;
+  maxFee: number;
+  minAmount: number;
+}
+
+export interface FeeQuote {
+  network: string;
+  asset: WalletAsset;
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+  feePercentage: number;
+  minFee: number;
+  maxFee: number;
+  waiverId: string | null;
+  waiverDiscountPercentage: number;
+  feeBeforeWaiver: number;
+}
+
+type TermValues = Omit<FeeTerms, 'network' | 'asset'>;
+
+// Fallback schedule used until admins store their own. Fees and minimums are
+// denominated in the asset being withdrawn.
+const DEFAULT_TERMS: Record<WalletAsset, TermValues> = {
+  USDC: { feePercentage: 0.01, minFee: 1, maxFee: 100, minAmount: 10 },
+  dNZD: { feePercentage: 0.01, minFee: 1.5, maxFee: 150, minAmount: 15 },
+  ETH: { feePercentage: 0.005, minFee: 0.0005, maxFee: 0.05, minAmount: 0.005 }
+};
+
+// Networks each asset can be withdrawn on by default
+const DEFAULT_NETWORK_OVERRIDES: Record<WalletAsset, Record<string, Partial<TermValues>>> = {
+  USDC: {
+    ethereum: { feePercentage: 0.01, minAmount: 10 },
+    polygon: { feePercentage: 0.005, minAmount: 5 },
+    base: { feePercentage: 0.005, minAmount: 5 }
+  },
+  dNZD: {
+    ethereum: { feePercentage: 0.01, minAmount: 15 },
+    polygon: { feePercentage: 0.005, minAmount: 7.5 },
+    base: { feePercentage: 0.005, minAmount: 7.5 }
+  },
+  ETH: {
+    ethereum: { feePercentage: 0.005, minAmount: 0.01 },
+    base: { feePercentage: 0.0025, minAmount: 0.002 }
+  }
+};
+
+export const DEFAULT_WITHDRAWAL_NETWORK = 'base';
+
+const roundMicro = (value: number): number => toMicroUnits(value) / 1_000_000;
+
+/**
+ * Withdrawal fee schedule: a default percentage with min/max clamps per
+ * asset, per-network overrides and promotional waivers
+ */
+export class WithdrawalFeeService {
+  private feeModel: WithdrawalFeeModel;
+
+  constructor(private pool: Pool) {
+    this.feeModel = new WithdrawalFeeModel(pool);
+  }
+
+  // ========== Schedule ==========
+
+  /**
+   * Effective terms per network for one asset: stored overrides layered on
+   * the asset's default row
+   */
+  async getSchedule(
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ): Promise<{ asset: WalletAsset; default: FeeTerms; networks: Record<string, FeeTerms> }> {
+    const rows = await this.feeModel.getSchedules(asset);
+    const stored = new Map(rows.map(row => [row.network, row]));
+
+    const base = this.applyRow(
+      { network: DEFAULT_FEE_NETWORK, asset, ...DEFAULT_TERMS[asset] },
+      stored.get(DEFAULT_FEE_NETWORK)
+    );
+
+    const networkNames = new Set([
+      ...Object.keys(DEFAULT_NETWORK_OVERRIDES[asset]),
+      ...rows.map(row => row.network).filter(network => network !== DEFAULT_FEE_NETWORK)
+    ]);
+
+    const networks: Record<string, FeeTerms> = {};
+    for (const network of networkNames) {
+      const withDefaults = { ...base, ...DEFAULT_NETWORK_OVERRIDES[asset][network], network };
+      networks[network] = this.applyRow(withDefaults, stored.get(network));
+    }
+
+    return { asset, default: base, networks };
+  }
+
+  async getAllSchedules() {
+    return Promise.all(WALLET_ASSETS.map(asset => this.getSchedule(asset)));
+  }
+
+  async getTerms(network: string, asset: WalletAsset = DEFAULT_WALLET_ASSET): Promise<FeeTerms> {
+    const schedule = await this.getSchedule(asset);
+    const terms = schedule.networks[network];
+    if (!terms) {
+      throw new Error(`Unsupported withdrawal network for ${asset}: ${network}`);
+    }
+    return terms;
+  }
+
+  async updateSchedule(
+    network: string,
+    values: { feePercentage?: number | null; minFee?: number | null; maxFee?: number | null; minAmount?: number | null },
+    updatedBy: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ) {
+    const normalized = {
+      feePercentage: values.feePercentage ?? null,
+      minFee: values.minFee ?? null,
+      maxFee: values.maxFee ?? null,
+      minAmount: values.minAmount ?? null
+    };
+
+    if (normalized.feePercentage !== null && (normalized.feePercentage < 0 || normalized.feePercentage >= 1)) {
+      throw new Error('feePercentage must be a fraction between 0 and 1');
+    }
+    for (const [field, value] of Object.entries(normalized)) {
+      if (value !== null && (!Number.isFinite(value) || value < 0)) {
+        throw new Error(`${field} must be a non-negative number`);
+      }
+    }
+    if (normalized.minFee !== null && normalized.maxFee !== null && normalized.minFee > normalized.maxFee) {
+      throw new Error('minFee cannot exceed maxFee');
+    }
+
+    await this.feeModel.upsertSchedule(network.toLowerCase(), asset, normalized, updatedBy);
+    return this.getSchedule(asset);
+  }
+
+  async removeNetworkOverride(network: string, asset: WalletAsset = DEFAULT_WALLET_ASSET) {
+    await this.feeModel.deactivateSchedule(network.toLowerCase(), asset);
+    return this.getSchedule(asset);
+  }
+
+  // ========== Quotes ==========
+
+  /**
+   * Quote the fee for a gross withdrawal amount. With a connection the best
+   * waiver is also consumed, so the quote can be locked into a request.
+   */
+  async quote(
+    userId: string,
+    grossAmount: number,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    network: string = DEFAULT_WITHDRAWAL_NETWORK,
+    promoCode: string | null = null,
+    connection?: PoolConnection
+  ): Promise<FeeQuote> {
+    const terms = await this.getTerms(network.toLowerCase(), asset);
+
+    if (grossAmount < terms.minAmount) {
+      throw new Error(`Minimum ${asset} withdrawal on ${terms.network} is ${terms.minAmount}`);
+    }
+
+    const feeBeforeWaiver = roundMicro(
+      Math.min(terms.maxFee, Math.max(terms.minFee, grossAmount * terms.feePercentage))
+    );
+
+    let waiverId: string | null = null;
+    let waiverDiscountPercentage = 0;
+    const waivers = await this.feeModel.findApplicableWaivers(userId, terms.network, promoCode, connection);
+
+    for (const waiver of waivers) {
+      if (connection && !(await this.feeModel.incrementWaiverUse(waiver.id, connection))) {
+        continue;
+      }
+      waiverId = waiver.id;
+      waiverDiscountPercentage = Number(waiver.discount_percentage);
+      break;
+    }
+
+    const feeAmount = roundMicro(feeBeforeWaiver * (1 - waiverDiscountPercentage / 100));
+    const netAmount = roundMicro(grossAmount - feeAmount);
+
+    if (netAmount <= 0) {
+      throw new Error('Withdrawal amount does not cover the fee');
+    }
+
+    return {
+      network: terms.network,
+      asset,
+      grossAmount: roundMicro(grossAmount),
+      feeAmount,
+      netAmount,
+      feePercentage: terms.feePercentage,
+      minFee: terms.minFee,
+      maxFee: terms.maxFee,
+      waiverId,
+      waiverDiscountPercentage,
+      feeBeforeWaiver
+    };
+  }
+
+  // ========== Waivers ==========
+
+  async releaseWaiver(waiverId: string, connection: PoolConnection): Promise<void> {
+    await this.feeModel.releaseWaiverUse(waiverId, connection);
+  }
+
+  async getWaivers(includeInactive: boolean = false) {
+    return this.feeModel.getWaivers(includeInactive);
+  }
+
+  async createWaiver(
+    waiver: {
+      description: string;
+      promoCode?: string | null;
+      userId?: string | null;
+      network?: string | null;
+      discountPercentage?: number;
+      startsAt?: string | Date;
+      endsAt?: string | Date | null;
+      maxUses?: number | null;
+    },
+    createdBy: string
+  ) {
+    const discountPercentage = waiver.discountPercentage ?? 100;
+    if (!waiver.description) {
+      throw new Error('description is required');
+    }
+    if (!Number.isFinite(discountPercentage) || discountPercentage <= 0 || discountPercentage > 100) {
+      throw new Error('discountPercentage must be between 0 and 100');
+    }
+
+    const startsAt = waiver.startsAt ? new Date(waiver.startsAt) : new Date();
+    const endsAt = waiver.endsAt ? new Date(waiver.endsAt) : null;
+    if (isNaN(startsAt.getTime()) || (endsAt && isNaN(endsAt.getTime()))) {
+      throw new Error('Invalid waiver dates');
+    }
+    if (endsAt && endsAt <= startsAt) {
+      throw new Error('endsAt must be after startsAt');
+    }
+
+    return this.feeModel.createWaiver({
+      description: waiver.description,
+      promoCode: waiver.promoCode || null,
+      userId: waiver.userId || null,
+      network: waiver.network ? waiver.network.toLowerCase() : null,
+      discountPercentage,
+      startsAt,
+      endsAt,
+      maxUses: waiver.maxUses ?? null,
+      createdBy
+    });
+  }
+
+  async deactivateWaiver(waiverId: string) {
+    const waiver = await this.feeModel.getWaiverById(waiverId);
+    if (!waiver) {
+      throw new Error('Fee waiver not found');
+    }
+    await this.feeModel.deactivateWaiver(waiverId);
+  }
+
+  private applyRow(terms: FeeTerms, row?: WithdrawalFeeSchedule): FeeTerms {
+    if (!row) return terms;
+    return {
+      network: terms.network,
+      asset: terms.asset,
+      feePercentage: row.fee_percentage !== null ? Number(row.fee_percentage) : terms.feePercentage,
+      minFee: row.min_fee !== null ? Number(row.min_fee) : terms.minFee,
+      maxFee: row.max_fee !== null ? Number(row.max_fee) : terms.maxFee,
+      minAmount: row.min_amount !== null ? Number(row.min_amount) : terms.minAmount
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { Pool, PoolConnection } from 'mysql2/promise';
+import { WithdrawalLimitModel, KYCTier } from '../models/withdrawalLimitModel';
+import { toMicroUnits } from '../models/ledgerModel';
+import { WalletAsset, WALLET_ASSETS, DEFAULT_WALLET_ASSET } from '../models/walletModel';
+
+export interface WithdrawalLimitStatus {
+  kycTier: KYCTier;
+  currency: string;
+  perTransaction: number;
+  daily: number;
+  monthly: number;
+  used24h: number;
+  used30d: number;
+  remaining24h: number;
+  remaining30d: number;
+  maxWithdrawable: number;
+}
+
+// Fallbacks used until an admin stores a policy for the tier and asset
+const DEFAULT_POLICIES: Record<WalletAsset, Record<KYCTier, { perTransaction: number; daily: number; monthly: number }>> = {
+  USDC: {
+    unverified: { perTransaction: 1000, daily: 1000, monthly: 5000 },
+    verified: { perTransaction: 50000, daily: 100000, monthly: 500000 }
+  },
+  dNZD: {
+    unverified: { perTransaction: 1500, daily: 1500, monthly: 7500 },
+    verified: { perTransaction: 75000, daily: 150000, monthly: 750000 }
+  },
+  ETH: {
+    unverified: { perTransaction: 0.5, daily: 0.5, monthly: 2.5 },
+    verified: { perTransaction: 20, daily: 40, monthly: 200 }
+  }
+};
+
+export const KYC_TIERS = Object.keys(DEFAULT_POLICIES[DEFAULT_WALLET_ASSET]) as KYCTier[];
+
+const DAY_HOURS = 24;
+const MONTH_HOURS = 30 * 24;
+
+/**
+ * KYC-tier withdrawal limits enforced against rolling 24h / 30d usage
+ */
+export class WithdrawalLimitService {
+  private limitModel: WithdrawalLimitModel;
+
+  constructor(private pool: Pool) {
+    this.limitModel = new WithdrawalLimitModel(pool);
+  }
+
+  /**
+   * Map a wallet's KYC status onto a limit tier
+   */
+  resolveTier(kycStatus: string | null | undefined): KYCTier {
+    return kycStatus === 'verified' ? 'verified' : 'unverified';
+  }
+
+  async getPolicy(kycTier: KYCTier, asset: WalletAsset = DEFAULT_WALLET_ASSET) {
+    const policy = await this.limitModel.getPolicy(kycTier, asset);
+    if (policy) {
+      return {
+        kycTier,
+        currency: asset,
+        perTransaction: Number(policy.per_transaction_limit),
+        daily: Number(policy.daily_limit),
+        monthly: Number(policy.monthly_limit),
+        updatedBy: policy.updated_by,
+        updatedAt: policy.updated_at
+      };
+    }
+
+    return { kycTier, currency: asset, ...DEFAULT_POLICIES[asset][kycTier], updatedBy: null, updatedAt: null };
+  }
+
+  async getAllPolicies() {
+    return Promise.all(
+      WALLET_ASSETS.flatMap(asset => KYC_TIERS.map(tier => this.getPolicy(tier, asset)))
+    );
+  }
+
+  async updatePolicy(
+    kycTier: KYCTier,
+    limits: { perTransaction: number; daily: number; monthly: number },
+    updatedBy: string,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET
+  ) {
+    if (!KYC_TIERS.includes(kycTier)) {
+      throw new Error(`Unknown KYC tier: ${kycTier}`);
+    }
+
+    const { perTransaction, daily, monthly } = limits;
+    if ([perTransaction, daily, monthly].some(value => !Number.isFinite(value) || value <= 0)) {
+      throw new Error('Limits must be positive numbers');
+    }
+    if (perTransaction > daily || daily > monthly) {
+      throw new Error('Limits must satisfy perTransaction <= daily <= monthly');
+    }
+
+    await this.limitModel.upsertPolicy(kycTier, asset, perTransaction, daily, monthly, updatedBy);
+    return this.getPolicy(kycTier, asset);
+  }
+
+  /**
+   * Current limits and remaining headroom for a user in one asset
+   */
+  async getLimitStatus(
+    userId: string,
+    kycTier: KYCTier,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection
+  ): Promise<WithdrawalLimitStatus> {
+    const [policy, used24h, used30d] = await Promise.all([
+      this.getPolicy(kycTier, asset),
+      this.limitModel.getUsage(userId, asset, DAY_HOURS, connection),
+      this.limitModel.getUsage(userId, asset, MONTH_HOURS, connection)
+    ]);
+
+    const remaining24h = Math.max(0, (toMicroUnits(policy.daily) - toMicroUnits(used24h)) / 1_000_000);
+    const remaining30d = Math.max(0, (toMicroUnits(policy.monthly) - toMicroUnits(used30d)) / 1_000_000);
+
+    return {
+      kycTier,
+      currency: policy.currency,
+      perTransaction: policy.perTransaction,
+      daily: policy.daily,
+      monthly: policy.monthly,
+      used24h,
+      used30d,
+      remaining24h,
+      remaining30d,
+      maxWithdrawable: Math.min(policy.perTransaction, remaining24h, remaining30d)
+    };
+  }
+
+  /**
+   * Throw if the amount would breach any of the tier's limits
+   */
+  async assertWithinLimits(
+    userId: string,
+    kycTier: KYCTier,
+    amount: number,
+    asset: WalletAsset = DEFAULT_WALLET_ASSET,
+    connection?: PoolConnection
+  ): Promise<WithdrawalLimitStatus> {
+    const status = await this.getLimitStatus(userId, kycTier, asset, connection);
+    const units = toMicroUnits(amount);
+
+    if (units > toMicroUnits(status.perTransaction)) {
+      throw new Error(`Amount exceeds the per-transaction withdrawal limit of ${status.perTransaction} ${status.currency}`);
+    }
+    if (units > toMicroUnits(status.remaining24h)) {
+      throw new Error(`Amount exceeds the remaining daily withdrawal limit of ${status.remaining24h} ${status.currency}`);
+    }
+    if (units > toMicroUnits(status.remaining30d)) {
+      throw new Error(`Amount exceeds the remaining monthly withdrawal limit of ${status.remaining30d} ${status.currency}`);
+    }
+
+    return status;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Bank statement parsing for transfer reconciliation. Supports a generic CSV
+ * export with a header row, NZ bank CSV exports (ANZ, ASB, BNZ, Kiwibank,
+ * Westpac) and OFX. Slash-separated dates are read day-first, as AU and NZ
+ * banks write them.
+ */
+
+import { parseCsv } from './csv';
+
+export const STATEMENT_FORMATS = ['csv', 'nz-bank', 'ofx'] as const;
+export type StatementFormat = typeof STATEMENT_FORMATS[number];
+
+export interface StatementLine {
+  lineNumber: number;
+  transactionDate: string; // YYYY-MM-DD
+  amount: number; // positive for money in
+  currency: string | null;
+  description: string;
+  reference: string | null;
+  bankTransactionId: string | null;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountNumber: string | null;
+  currency: string | null;
+  lines: StatementLine[];
+}
+
+const COLUMNS = {
+  date: ['date', 'transaction date', 'posted date', 'posting date', 'processed date', 'value date'],
+  amount: ['amount', 'transaction amount', 'value'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposits', 'money in', 'paid in'],
+  debit: ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'money out', 'paid out'],
+  description: ['description', 'details', 'payee', 'other party', 'memo', 'narrative', 'transaction details', 'name'],
+  reference: ['reference', 'ref', 'payment reference'],
+  particulars: ['particulars'],
+  code: ['code', 'analysis code'],
+  id: ['unique id', 'transaction id', 'id', 'fitid', 'bank reference'],
+  currency: ['currency']
+};
+
+type Column = keyof typeof COLUMNS;
+
+// NZ exports put a few lines of account details above the header
+const MAX_PREAMBLE_ROWS = 20;
+
+export const isStatementFormat = (value: any): value is StatementFormat => STATEMENT_FORMATS.includes(value);
+
+/**
+ * Reference a payer is asked to quote on a bank transfer. Twelve characters
+ * so it fits the NZ reference field.
+ */
+export const transferReference = (subscriptionId: string): string =>
+  `TB${subscriptionId.replace(/-/g, '').slice(0, 10).toUpperCase()}`;
+
+/**
+ * Uppercase alphanumerics only, so references survive the spacing and
+ * punctuation banks add
+ */
+export const normaliseReference = (value: string | null | undefined): string =>
+  (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export function detectStatementFormat(content: string): StatementFormat {
+  if (/^\s*OFXHEADER|<OFX>/i.test(content)) return 'ofx';
+  const rows = parseCsv(content).slice(0, MAX_PREAMBLE_ROWS);
+  return rows.some(row => row.some(cell => normaliseHeader(cell) === 'particulars')) ? 'nz-bank' : 'csv';
+}
+
+export function parseStatement(content: string, format: StatementFormat = detectStatementFormat(content)): ParsedStatement {
+  const statement = format === 'ofx' ? parseOfx(content) : parseCsvStatement(content, format);
+  if (statement.lines.length === 0) {
+    throw new Error('Invalid statement: no transactions found');
+  }
+  return statement;
+}
+
+// ========== CSV ==========
+
+const normaliseHeader = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ').trim();
+
+function mapColumns(header: string[]): Partial<Record<Column, number>> {
+  const names = header.map(normaliseHeader);
+  const columns: Partial<Record<Column, number>> = {};
+  for (const column of Object.keys(COLUMNS) as Column[]) {
+    for (const alias of COLUMNS[column]) {
+      const index = names.indexOf(alias);
+      if (index !== -1) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+const hasRequiredColumns = (columns: Partial<Record<Column, number>>): boolean =>
+  columns.date !== undefined && (columns.amount !== undefined || columns.credit !== undefined);
+
+function parseCsvStatement(content: string, format: StatementFormat): ParsedStatement {
+  const rows = parseCsv(content);
+  const headerIndex = format === 'nz-bank'
+    ? rows.slice(0, MAX_PREAMBLE_ROWS).findIndex(row => hasRequiredColumns(mapColumns(row)))
+    : 0;
+  const columns = headerIndex === -1 || rows.length === 0 ? {} : mapColumns(rows[headerIndex]);
+  if (!hasRequiredColumns(columns)) {
+    throw new Error('Invalid statement: expected a header row with date and amount (or credit) columns');
+  }
+
+  const cell = (row: string[], column: Column): string => {
+    const index = columns[column];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  // Exports split the narrative over several columns (ASB: Payee and Memo), so keep them all
+  const header = rows[headerIndex].map(normaliseHeader);
+  const descriptionColumns = header
+    .map((name, index) => (COLUMNS.description.includes(name) ? index : -1))
+    .filter(index => index !== -1);
+
+  const lines = rows.slice(headerIndex + 1).map((row, i): StatementLine => {
+    const lineNumber = headerIndex + i + 2;
+    const amount = columns.amount !== undefined
+      ? parseAmount(cell(row, 'amount'), lineNumber)
+      : parseAmount(cell(row, 'credit') || '0', lineNumber) - Math.abs(parseAmount(cell(row, 'debit') || '0', lineNumber));
+
+    // NZ payers fill in particulars, code and reference separately
+    const reference = [cell(row, 'particulars'), cell(row, 'code'), cell(row, 'reference')].filter(Boolean).join(' ');
+
+    return {
+      lineNumber,
+      transactionDate: parseDate(cell(row, 'date'), lineNumber),
+      amount,
+      currency: cell(row, 'currency').toUpperCase() || null,
+      description: descriptionColumns.map(index => (row[index] || '').trim()).filter(Boolean).join(' '),
+      reference: reference || null,
+      bankTransactionId: cell(row, 'id') || null
+    };
+  });
+
+  return {
+    format,
+    accountNumber: format === 'nz-bank' ? findNzAccountNumber(rows.slice(0, headerIndex)) : null,
+    currency: null,
+    lines
+  };
+}
+
+function findNzAccountNumber(preamble: string[][]): string | null {
+  const text = preamble.map(row => row.join(' ')).join('\n');
+  const hyphenated = text.match(/\b(\d{2})-(\d{4})-(\d{7})-(\d{2,3})\b/);
+  // ASB: "Bank 12; Branch 3040; Account 0123456-50"
+  const asb = text.match(/Bank\s+(\d{2});\s*Branch\s+(\d{4});\s*Account\s+(\d{7})-(\d{2,3})/i);
+  const match = hyphenated || asb;
+  return match ? match.slice(1, 5).join('-') : null;
+}
+
+// ========== OFX ==========
+
+const ofxValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match && match[1].trim() !== '' ? decodeOfx(match[1].trim()) : null;
+};
+
+const decodeOfx = (value: string): string =>
+  value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+function parseOfx(content: string): ParsedStatement {
+  const currency = ofxValue(content, 'CURDEF');
+  // Works for both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x)
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  const lines = blocks.map((block, i): StatementLine => {
+    const lineNumber = i + 1;
+    return {
+      lineNumber,
+      transactionDate: parseDate(ofxValue(block, 'DTPOSTED') || '', lineNumber),
+      amount: parseAmount(ofxValue(block, 'TRNAMT') || '', lineNumber),
+      // TRNAMT is in CURDEF unless the transaction carries its own CURRENCY
+      currency: /<CURRENCY>/i.test(block) ? ofxValue(block, 'CURSYM') : null,
+      description: [ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')].filter(Boolean).join(' '),
+      reference: ofxValue(block, 'REFNUM') || ofxValue(block, 'CHECKNUM'),
+      bankTransactionId: ofxValue(block, 'FITID')
+    };
+  });
+
+  return {
+    format: 'ofx',
+    accountNumber: ofxValue(content, 'ACCTID'),
+    currency: currency ? currency.toUpperCase() : null,
+    lines
+  };
+}
+
+// ========== Values ==========
+
+function parseAmount(value: string, lineNumber: number): number {
+  let text = value.replace(/[\s$,]|NZD|AUD|USD/gi, '');
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/DR$/i.test(text)) {
+    sign = -1;
+    text = text.slice(0, -2);
+  } else if (/CR$/i.test(text)) {
+    text = text.slice(0, -2);
+  }
+
+  const amount = Number(text);
+  if (text === '' || !Number.isFinite(amount)) {
+    throw new Error(`Invalid statement: unrecognised amount "${value}" on line ${lineNumber}`);
+  }
+  return Math.round(sign * amount * 100) / 100;
+}
+
+function parseDate(value: string, lineNumber: number): string {
+  const pad = (part: string | number) => String(part).padStart(2, '0');
+  let year: number, month: number, day: number;
+
+  let match = value.match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})/); // ISO and OFX (20240315120000)
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (year < 100) year += 2000;
+  } else {
+    throw new Error(`Invalid statement: unrecognised date "${value}" on line ${lineNumber}`);
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid statement: unrecognised date "${value}" on line ${lineNumber}`);
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
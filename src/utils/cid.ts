@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+
+/**
+ * IPFS content identifiers for single-block content, enough to address
+ * stored files and to check that bytes fetched from a gateway match the CID
+ * they were requested by. Covers CIDv1 raw leaves (what Pinata and kubo
+ * produce for files up to one chunk with CID version 1) and single-block
+ * UnixFS files under dag-pb, including CIDv0 "Qm..." hashes.
+ */
+
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const SHA2_256 = 0x12;
+
+// Default UnixFS chunk size; larger files span several blocks
+export const MAX_SINGLE_BLOCK_BYTES = 256 * 1024;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export interface ParsedCid {
+  version: 0 | 1;
+  codec: number;
+  hashCode: number;
+  digest: Buffer;
+}
+
+function encodeBase32(bytes: Buffer): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function decodeBase32(value: string): Buffer {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of value) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid CID: bad base32 character');
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeBase58(value: string): Buffer {
+  let number = BigInt(0);
+  for (const char of value) {
+    const index = BASE58_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid CID: bad base58 character');
+    number = number * BigInt(58) + BigInt(index);
+  }
+  let hex = number.toString(16);
+  if (hex.length % 2) hex = `0${hex}`;
+  const leadingZeros = value.length - value.replace(/^1+/, '').length;
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(number > BigInt(0) ? hex : '', 'hex')]);
+}
+
+function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+function readVarint(bytes: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let shift = 0;
+  for (let i = offset; i < bytes.length && i < offset + 8; i++) {
+    value += (bytes[i] & 0x7f) * Math.pow(2, shift);
+    if ((bytes[i] & 0x80) === 0) return [value, i + 1];
+    shift += 7;
+  }
+  throw new Error('Invalid CID: truncated varint');
+}
+
+const sha256 = (bytes: Buffer): Buffer => crypto.createHash('sha256').update(bytes).digest();
+
+/**
+ * The dag-pb block kubo builds for a file that fits in one chunk:
+ * PBNode { Data: UnixFS { Type: File, Data, filesize } } with no links
+ */
+function unixFsFileBlock(content: Buffer): Buffer {
+  const unixFs = Buffer.concat([
+    Buffer.from([0x08, 0x02]),
+    content.length > 0 ? Buffer.concat([Buffer.from([0x12]), encodeVarint(content.length), content]) : Buffer.alloc(0),
+    Buffer.from([0x18]),
+    encodeVarint(content.length)
+  ]);
+  return Buffer.concat([Buffer.from([0x0a]), encodeVarint(unixFs.length), unixFs]);
+}
+
+export function parseCid(cid: string): ParsedCid {
+  const value = cid.trim().replace(/^ipfs:\/\//, '');
+
+  if (value.length === 46 && value.startsWith('Qm')) {
+    const multihash = decodeBase58(value);
+    if (multihash[0] !== SHA2_256 || multihash[1] !== 32 || multihash.length !== 34) {
+      throw new Error('Invalid CID: unsupported CIDv0 multihash');
+    }
+    return { version: 0, codec: DAG_PB_CODEC, hashCode: SHA2_256, digest: multihash.subarray(2) };
+  }
+
+  let bytes: Buffer;
+  if (value.startsWith('b')) {
+    bytes = decodeBase32(value.slice(1));
+  } else if (value.startsWith('z')) {
+    bytes = decodeBase58(value.slice(1));
+  } else {
+    throw new Error('Invalid CID: unsupported multibase');
+  }
+
+  const [version, afterVersion] = readVarint(bytes, 0);
+  if (version !== 1) throw new Error('Invalid CID: unsupported version');
+  const [codec, afterCodec] = readVarint(bytes, afterVersion);
+  const [hashCode, afterHashCode] = readVarint(bytes, afterCodec);
+  const [length, digestStart] = readVarint(bytes, afterHashCode);
+  const digest = bytes.subarray(digestStart);
+  if (digest.length !== length) throw new Error('Invalid CID: digest length mismatch');
+
+  return { version: 1, codec, hashCode, digest };
+}
+
+/**
+ * CIDv1 (raw codec, sha2-256, base32) of the given bytes
+ */
+export function computeCid(content: Buffer): string {
+  const prefix = Buffer.concat([encodeVarint(1), encodeVarint(RAW_CODEC), encodeVarint(SHA2_256), encodeVarint(32)]);
+  return `b${encodeBase32(Buffer.concat([prefix, sha256(content)]))}`;
+}
+
+/**
+ * Whether a CID can be checked locally against its content
+ */
+export function isVerifiableCid(cid: string, size: number): boolean {
+  try {
+    const parsed = parseCid(cid);
+    if (parsed.hashCode !== SHA2_256) return false;
+    return parsed.codec === RAW_CODEC || (parsed.codec === DAG_PB_CODEC && size <= MAX_SINGLE_BLOCK_BYTES);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when the content hashes to the CID. Throws for CIDs that cannot be
+ * checked without the full block graph (multi-block files, other hashes).
+ */
+export function verifyCid(cid: string, content: Buffer): boolean {
+  const parsed = parseCid(cid);
+  if (!isVerifiableCid(cid, content.length)) {
+    throw new Error(`Cannot verify CID ${cid} locally`);
+  }
+
+  const block = parsed.codec === RAW_CODEC ? content : unixFsFileBlock(content);
+  return sha256(block).equals(parsed.digest);
+}
@@ -0,0 +1,64 @@
+/**
+ * RFC 4180 CSV output: fields holding commas, quotes or line breaks are
+ * quoted, and rows end with CRLF for spreadsheet compatibility
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+const escapeField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // A leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(text) && Number.isNaN(Number(text)) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse RFC 4180 CSV into rows of fields. Accepts CRLF or LF line endings
+ * and a leading byte-order mark; blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^﻿/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
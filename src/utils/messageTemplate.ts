@@ -0,0 +1,200 @@
+/**
+ * Small message-template language for notification copy:
+ *
+ *   {name}                                      variable (dotted paths allowed)
+ *   {count, plural, =0 {none} one {# bid} other {# bids}}
+ *                                               CLDR plural categories via
+ *                                               Intl.PluralRules; # is the number
+ *   \{ \} \# \\                                 literal characters
+ */
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'plural'; name: string; cases: Record<string, TemplateNode[]> }
+  | { kind: 'count' };
+
+const IDENTIFIER = /^[A-Za-z_][\w.]*/;
+const PLURAL_SELECTOR = /^(=\d+|zero|one|two|few|many|other)/;
+
+const COMPILED_CACHE_LIMIT = 500;
+const compiled = new Map<string, TemplateNode[]>();
+
+class TemplateParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): TemplateNode[] {
+    const nodes = this.parseNodes(false);
+    if (this.pos < this.source.length) {
+      this.fail("unexpected '}'");
+    }
+    return nodes;
+  }
+
+  private parseNodes(inPlural: boolean): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+    const flushText = () => {
+      if (text) nodes.push({ kind: 'text', value: text });
+      text = '';
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === '\\' && this.pos + 1 < this.source.length) {
+        text += this.source[this.pos + 1];
+        this.pos += 2;
+      } else if (char === '{') {
+        flushText();
+        nodes.push(this.parsePlaceholder());
+      } else if (char === '}') {
+        break;
+      } else if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ kind: 'count' });
+        this.pos++;
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  private parsePlaceholder(): TemplateNode {
+    this.pos++; // {
+    this.skipWhitespace();
+    const name = this.match(IDENTIFIER, 'expected a variable name');
+    this.skipWhitespace();
+
+    if (this.source[this.pos] === '}') {
+      this.pos++;
+      return { kind: 'variable', name };
+    }
+
+    this.expect(',');
+    this.skipWhitespace();
+    const format = this.match(/^\w+/, 'expected a format after the comma');
+    if (format !== 'plural') {
+      this.fail(`unsupported format "${format}"`);
+    }
+    this.skipWhitespace();
+    this.expect(',');
+
+    const cases: Record<string, TemplateNode[]> = {};
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        break;
+      }
+      const selector = this.match(PLURAL_SELECTOR, 'expected a plural category or =N');
+      if (cases[selector]) {
+        this.fail(`duplicate plural case "${selector}"`);
+      }
+      this.skipWhitespace();
+      this.expect('{');
+      cases[selector] = this.parseNodes(true);
+      this.expect('}');
+    }
+
+    if (!cases.other) {
+      this.fail(`plural for "${name}" needs an "other" case`);
+    }
+    return { kind: 'plural', name, cases };
+  }
+
+  private match(pattern: RegExp, message: string): string {
+    const found = pattern.exec(this.source.slice(this.pos));
+    if (!found) this.fail(message);
+    this.pos += found![0].length;
+    return found![0];
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.pos] !== char) {
+      this.fail(this.pos >= this.source.length ? `expected '${char}' before the end` : `expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Template syntax error at position ${this.pos}: ${message}`);
+  }
+}
+
+/**
+ * Parse a template, throwing on syntax errors. Parsed templates are cached.
+ */
+export function compileTemplate(source: string): TemplateNode[] {
+  let nodes = compiled.get(source);
+  if (!nodes) {
+    nodes = new TemplateParser(source).parse();
+    if (compiled.size >= COMPILED_CACHE_LIMIT) compiled.clear();
+    compiled.set(source, nodes);
+  }
+  return nodes;
+}
+
+/**
+ * Names of the variables a template reads, in order of first use
+ */
+export function getTemplateVariables(source: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === 'variable') names.add(node.name);
+      if (node.kind === 'plural') {
+        names.add(node.name);
+        Object.values(node.cases).forEach(visit);
+      }
+    }
+  };
+  visit(compileTemplate(source));
+  return Array.from(names);
+}
+
+const lookup = (variables: Record<string, any>, path: string): any =>
+  path.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), variables as any);
+
+/**
+ * Render a template; throws if a variable it needs is missing
+ */
+export function renderTemplate(source: string, variables: Record<string, any>, locale: string): string {
+  const renderNodes = (nodes: TemplateNode[], count: number | null): string =>
+    nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.value;
+        case 'count':
+          return count === null ? '#' : new Intl.NumberFormat(locale).format(count);
+        case 'variable': {
+          const value = lookup(variables, node.name);
+          if (value === undefined || value === null) {
+            throw new Error(`Missing template variable: ${node.name}`);
+          }
+          return String(value);
+        }
+        case 'plural': {
+          const value = Number(lookup(variables, node.name));
+          if (!Number.isFinite(value)) {
+            throw new Error(`Template variable ${node.name} must be a number`);
+          }
+          const exact = node.cases[`=${value}`];
+          const category = new Intl.PluralRules(locale).select(value);
+          return renderNodes(exact || node.cases[category] || node.cases.other, value);
+        }
+      }
+    }).join('');
+
+  return renderNodes(compileTemplate(source), null);
+}
@@ -0,0 +1,123 @@
+/**
+ * Minimal PDF writer for text reports: A4 pages, the built-in Helvetica
+ * fonts (no embedding) and ruled lines. Positions are in points from the
+ * top-left corner. Text is WinAnsi encoded; other characters print as '?'.
+ */
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+// Bold glyphs run wider; close enough for right-aligning figures
+const BOLD_WIDTH_FACTOR = 1.06;
+
+const toWinAnsi = (value: string): string => value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const escapeText = (value: string): string => toWinAnsi(value).replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number): string => parseFloat(value.toFixed(2)).toString();
+
+export class PdfDocument {
+  static readonly WIDTH = 595.28;
+  static readonly HEIGHT = 841.89;
+
+  private pages: string[][] = [];
+
+  constructor(private info: { title?: string; author?: string } = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Width of a string in points, for alignment and wrapping
+   */
+  static textWidth(value: string, size: number, bold: boolean = false): number {
+    let units = 0;
+    for (const char of toWinAnsi(value)) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const left = options.align === 'right' ? x - PdfDocument.textWidth(value, size, options.bold) : x;
+    this.currentPage().push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(PdfDocument.HEIGHT - y)} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5): void {
+    this.currentPage().push(
+      `0.6 G ${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PdfDocument.HEIGHT - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(PdfDocument.HEIGHT - y2)} l S 0 G`
+    );
+  }
+
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage();
+
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info; pages and contents follow
+    let nextId = 6;
+    const pageObjects: Array<{ id: number; body: string }> = [];
+    for (const operations of this.pages) {
+      const pageId = nextId++;
+      const contentId = nextId++;
+      const stream = operations.join('\n');
+      pageIds.push(pageId);
+      pageObjects.push({
+        id: pageId,
+        body: `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PdfDocument.WIDTH} ${PdfDocument.HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      });
+      pageObjects.push({ id: contentId, body: `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream` });
+    }
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${escapeText(this.info.title || '')}) /Author (${escapeText(this.info.author || '')}) /Producer (TitleBase) >>`;
+    for (const { id, body } of pageObjects) objects[id] = body;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private currentPage(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+}
@@ -0,0 +1,149 @@
+import { ethers } from 'ethers';
+
+/**
+ * Fields of an EIP-4361 (Sign-In with Ethereum) message
+ */
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const HEADER_PATTERN = /^(?:([a-zA-Z][a-zA-Z0-9+\-.]*):\/\/)?(\S+) wants you to sign in with your Ethereum account:$/;
+
+// Optional fields in the order the spec requires them
+const FIELDS: Array<[keyof SiweMessage, string, boolean]> = [
+  ['uri', 'URI', true],
+  ['version', 'Version', true],
+  ['chainId', 'Chain ID', true],
+  ['nonce', 'Nonce', true],
+  ['issuedAt', 'Issued At', true],
+  ['expirationTime', 'Expiration Time', false],
+  ['notBefore', 'Not Before', false],
+  ['requestId', 'Request ID', false]
+];
+
+/**
+ * Render a message exactly as wallets display and sign it
+ */
+export function formatSiweMessage(message: SiweMessage): string {
+  const header = `${message.scheme ? `${message.scheme}://` : ''}${message.domain}${HEADER_SUFFIX}`;
+  const lines = [header, message.address, ''];
+
+  if (message.statement) {
+    lines.push(message.statement);
+  }
+  lines.push('');
+
+  for (const [key, label, required] of FIELDS) {
+    const value = message[key];
+    if (value === undefined || value === null || value === '') {
+      if (required) throw new Error(`SIWE message is missing ${label}`);
+      continue;
+    }
+    lines.push(`${label}: ${value}`);
+  }
+
+  if (message.resources && message.resources.length > 0) {
+    lines.push('Resources:');
+    for (const resource of message.resources) {
+      lines.push(`- ${resource}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse a signed EIP-4361 message; throws on anything that does not follow
+ * the grammar so malformed messages are never half-verified
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = String(text).split('\n');
+
+  const header = HEADER_PATTERN.exec(lines[0] || '');
+  if (!header) {
+    throw new Error('Invalid SIWE message header');
+  }
+
+  const address = lines[1] || '';
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new Error('SIWE message address must be an EIP-55 checksummed address');
+  }
+
+  if (lines[2] !== '') {
+    throw new Error('Invalid SIWE message layout');
+  }
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index];
+    index++;
+    if (lines[index] !== '') {
+      throw new Error('Invalid SIWE message layout');
+    }
+  }
+  index++;
+
+  const values: Record<string, string> = {};
+  for (const [key, label, required] of FIELDS) {
+    const line = lines[index];
+    if (line !== undefined && line.startsWith(`${label}: `)) {
+      values[key] = line.substring(label.length + 2);
+      index++;
+    } else if (required) {
+      throw new Error(`SIWE message is missing ${label}`);
+    }
+  }
+
+  let resources: string[] | undefined;
+  if (lines[index] === 'Resources:') {
+    resources = [];
+    index++;
+    while (index < lines.length && lines[index].startsWith('- ')) {
+      resources.push(lines[index].substring(2));
+      index++;
+    }
+  }
+
+  if (index < lines.length) {
+    throw new Error('Unexpected content in SIWE message');
+  }
+
+  if (!/^[a-zA-Z0-9]{8,}$/.test(values.nonce)) {
+    throw new Error('SIWE nonce must be at least 8 alphanumeric characters');
+  }
+
+  const chainId = Number(values.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error('Invalid SIWE chain ID');
+  }
+
+  return {
+    scheme: header[1] || undefined,
+    domain: header[2],
+    address,
+    statement,
+    uri: values.uri,
+    version: values.version,
+    chainId,
+    nonce: values.nonce,
+    issuedAt: values.issuedAt,
+    expirationTime: values.expirationTime,
+    notBefore: values.notBefore,
+    requestId: values.requestId,
+    resources
+  };
+}
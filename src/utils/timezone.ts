@@ -0,0 +1,89 @@
+/**
+ * IANA time zone helpers built on Intl, for wall-clock schedules such as
+ * quiet hours and daily digests
+ */
+
+export interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time in a zone at the given instant
+ */
+export function getZonedTime(date: Date, timeZone: string): ZonedTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+/**
+ * Instant at which a zone's clock shows the given wall-clock time. Times in
+ * a daylight-saving gap resolve to the nearest valid instant.
+ */
+export function zonedTimeToUtc(time: ZonedTime, timeZone: string): Date {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute);
+  const offsetAt = (instant: number) => {
+    const local = getZonedTime(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - Math.floor(instant / 60000) * 60000;
+  };
+
+  let guess = asUtc - offsetAt(asUtc);
+  guess = asUtc - offsetAt(guess);
+  return new Date(guess);
+}
+
+/**
+ * Same wall-clock time a number of days later, normalising month ends
+ */
+export function addZonedDays(time: ZonedTime, days: number): ZonedTime {
+  const shifted = new Date(Date.UTC(time.year, time.month - 1, time.day + days));
+  return {
+    ...time,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate()
+  };
+}
+
+/**
+ * Minutes past midnight for an "HH:MM" string; null if malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+/**
+ * RFC 4226 (HOTP) / RFC 6238 (TOTP) primitives. Pure functions with an
+ * injectable clock so codes can be checked against the RFC test vectors.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  stepSeconds?: number;
+  digits?: number;
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+}
+
+const DEFAULTS: Required<TotpOptions> = { stepSeconds: 30, digits: 6, algorithm: 'sha1' };
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * 20 random bytes (160 bits), the key length RFC 4226 recommends for SHA-1
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function generateHotp(secret: string, counter: number, options: TotpOptions = {}): string {
+  const { digits, algorithm } = { ...DEFAULTS, ...options };
+
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac(algorithm, base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export function totpStep(timeMs: number = Date.now(), options: TotpOptions = {}): number {
+  const { stepSeconds } = { ...DEFAULTS, ...options };
+  return Math.floor(timeMs / 1000 / stepSeconds);
+}
+
+export function generateTotp(secret: string, timeMs: number = Date.now(), options: TotpOptions = {}): string {
+  return generateHotp(secret, totpStep(timeMs, options), options);
+}
+
+/**
+ * Check a code against the current step and `window` steps either side.
+ * Returns the matching step so callers can reject replays, or null.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: TotpOptions & { window?: number; timeMs?: number } = {}
+): number | null {
+  const { digits } = { ...DEFAULTS, ...options };
+  const window = options.window ?? 1;
+  const normalized = String(code || '').replace(/\s+/g, '');
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const current = totpStep(options.timeMs ?? Date.now(), options);
+  for (let offset = -window; offset <= window; offset++) {
+    const step = current + offset;
+    if (step < 0) continue;
+    const expected = generateHotp(secret, step, options);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Key URI understood by authenticator apps; render it as a QR code client-side
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string, options: TotpOptions = {}): string {
+  const { digits, stepSeconds, algorithm } = { ...DEFAULTS, ...options };
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: algorithm.toUpperCase(),
+    digits: String(digits),
+    period: String(stepSeconds)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
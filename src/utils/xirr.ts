@@ -0,0 +1,64 @@
+/**
+ * Annualised internal rate of return for irregular cash flows (Excel's
+ * XIRR). Investments are negative, returns positive.
+ */
+
+export interface CashFlow {
+  amount: number;
+  date: Date;
+}
+
+const DAYS_PER_YEAR = 365;
+const TOLERANCE = 1e-7;
+const MAX_ITERATIONS = 100;
+
+const netPresentValue = (rate: number, flows: CashFlow[], start: number): number =>
+  flows.reduce((total, flow) => {
+    const years = (flow.date.getTime() - start) / (DAYS_PER_YEAR * 86400000);
+    return total + flow.amount / Math.pow(1 + rate, years);
+  }, 0);
+
+/**
+ * Rate as a fraction (0.074 = 7.4%), or null when the flows have no sign
+ * change or no rate solves them
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  const nonZero = flows.filter(flow => flow.amount !== 0);
+  if (!nonZero.some(flow => flow.amount < 0) || !nonZero.some(flow => flow.amount > 0)) {
+    return null;
+  }
+
+  const start = Math.min(...nonZero.map(flow => flow.date.getTime()));
+  const npv = (rate: number) => netPresentValue(rate, nonZero, start);
+
+  // Newton's method from 10%, with a numeric derivative
+  let rate = 0.1;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < TOLERANCE) return rate;
+    const slope = (npv(rate + 1e-6) - value) / 1e-6;
+    if (!Number.isFinite(slope) || slope === 0) break;
+    const next = rate - value / slope;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Fall back to bisection over (-99.99%, 10000%)
+  let low = -0.9999;
+  let high = 100;
+  let lowValue = npv(low);
+  if (lowValue * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid);
+    if (Math.abs(midValue) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid;
+    if (midValue * lowValue > 0) {
+      low = mid;
+      lowValue = midValue;
+    } else {
+      high = mid;
+    }
+  }
+  return null;
+}
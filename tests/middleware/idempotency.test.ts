@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import express from 'express';
+import { idempotent } from '../../src/middleware/idempotency';
+import { AuthRequest } from '../../src/middleware/auth';
+import { duplicateEntry, FakePool } from '../support/fakePool';
+import { connectFakeDatabase } from '../support/database';
+import { listen, TestServer } from '../support/http';
+
+describe('idempotent middleware', () => {
+  let db: FakePool;
+  let server: TestServer;
+  let calls: number;
+  let nextStatus: number;
+
+  const keys = () => db.rows('idempotency_keys');
+
+  const send = async (body: object, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${server.url}/wallet/transfer`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-test-user': 'user-1', ...headers },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, replayed: response.headers.get('idempotent-replayed'), body: await response.json() as any };
+  };
+
+  before(async () => {
+    db = new FakePool()
+      .on(/^INSERT INTO idempotency_keys/, ([id, userId, key, method, path, requestHash]) => {
+        if (keys().some(row => row.user_id === userId && row.idempotency_key === key)) throw duplicateEntry();
+        db.insert('idempotency_keys', {
+          id, user_id: userId, idempotency_key: key, method, path, request_hash: requestHash,
+          status: 'processing', response_status: null, response_body: null, created_at: new Date()
+        });
+      })
+      .on(/^SELECT \* FROM idempotency_keys WHERE user_id = \? AND idempotency_key = \?$/, ([userId, key]) =>
+        keys().filter(row => row.user_id === userId && row.idempotency_key === key)
+      )
+      .on(/^UPDATE idempotency_keys SET status = 'completed'/, ([status, body, id]) => {
+        const row = keys().find(candidate => candidate.id === id);
+        if (row) db.update(row, { status: 'completed', response_status: status, response_body: body });
+      })
+      .on(/^DELETE FROM idempotency_keys WHERE id = \?$/, ([id]) => {
+        const row = keys().find(candidate => candidate.id === id);
+        if (row) db.remove('idempotency_keys', row);
+      })
+      .on(/^DELETE FROM idempotency_keys WHERE id = \? AND status = 'processing'$/, ([id]) => {
+        const row = keys().find(candidate => candidate.id === id && candidate.status === 'processing');
+        if (row) db.remove('idempotency_keys', row);
+        return { affectedRows: row ? 1 : 0 };
+      });
+    await connectFakeDatabase(db);
+
+    const app = express();
+    app.use(express.json());
+    app.use((req: AuthRequest, _res, next) => {
+      const userId = req.header('x-test-user');
+      if (userId) req.user = { id: userId, address: `0x${userId}`, role: 'user', permissions: [] };
+      next();
+    });
+    app.post('/wallet/transfer', idempotent, (req, res) => {
+      calls++;
+      res.status(nextStatus).json({ transfer: calls, amount: req.body.amount });
+    });
+    server = await listen(app);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    keys().length = 0;
+    calls = 0;
+    nextStatus = 201;
+  });
+
+  it('runs the handler once per key and replays its response', async () => {
+    const first = await send({ amount: 10, to: 'user-2' }, { 'idempotency-key': 'key-1' });
+    const retry = await send({ to: 'user-2', amount: 10 }, { 'idempotency-key': 'key-1' });
+
+    expect(first).to.deep.equal({ status: 201, replayed: null, body: { transfer: 1, amount: 10 } });
+    expect(retry).to.deep.equal({ status: 201, replayed: 'true', body: { transfer: 1, amount: 10 } });
+    expect(calls).to.equal(1);
+  });
+
+  it('rejects a key reused with a different request', async () => {
+    await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+    const reused = await send({ amount: 11 }, { 'idempotency-key': 'key-1' });
+
+    expect(reused.status).to.equal(409);
+    expect(reused.body.error).to.equal('Idempotency-Key was already used with a different request');
+    expect(calls).to.equal(1);
+  });
+
+  it('scopes keys to the user', async () => {
+    await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+    const other = await send({ amount: 10 }, { 'idempotency-key': 'key-1', 'x-test-user': 'user-2' });
+
+    expect(other.replayed).to.equal(null);
+    expect(calls).to.equal(2);
+  });
+
+  it('releases the key when the handler fails with a server error', async () => {
+    nextStatus = 503;
+    await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+    nextStatus = 201;
+    const retry = await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+
+    expect(retry).to.deep.include({ status: 201, replayed: null });
+    expect(calls).to.equal(2);
+  });
+
+  it('holds a processing claim until its lease runs out', async () => {
+    await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+    Object.assign(keys()[0], { status: 'processing', response_status: null, response_body: null });
+
+    const inFlight = await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+    expect(inFlight.status).to.equal(409);
+
+    keys()[0].created_at = new Date(Date.now() - 301 * 1000);
+    const retry = await send({ amount: 10 }, { 'idempotency-key': 'key-1' });
+
+    expect(retry).to.deep.include({ status: 201, replayed: null });
+    expect(calls).to.equal(2);
+    expect(keys()).to.have.length(1);
+  });
+
+  it('leaves requests without a key alone', async () => {
+    await send({ amount: 10 });
+    await send({ amount: 10 });
+
+    expect(calls).to.equal(2);
+    expect(keys()).to.have.length(0);
+  });
+
+  it('ignores keys from callers without a user', async () => {
+    await send({ amount: 10 }, { 'idempotency-key': 'key-1', 'x-test-user': '' });
+    await send({ amount: 10 }, { 'idempotency-key': 'key-1', 'x-test-user': '' });
+
+    expect(calls).to.equal(2);
+    expect(keys()).to.have.length(0);
+  });
+
+  it('refuses keys longer than 255 characters', async () => {
+    const response = await send({ amount: 10 }, { 'idempotency-key': 'k'.repeat(256) });
+
+    expect(response.status).to.equal(400);
+    expect(calls).to.equal(0);
+  });
+});
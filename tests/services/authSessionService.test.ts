@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AuthSessionService } from '../../src/services/authSessionService';
+import { PermissionService } from '../../src/services/permissionService';
+import { FakePool, Row } from '../support/fakePool';
+import { installPermissionTables } from '../support/permissionTables';
+
+const CONTEXT = { ipAddress: '203.0.113.5', userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0' };
+
+describe('AuthSessionService', () => {
+  let db: FakePool;
+  let sessions: AuthSessionService;
+  let previousSecret: string | undefined;
+
+  const session = (id: string) => db.rows('auth_sessions').find(row => row.id === id);
+  const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  before(() => {
+    previousSecret = process.env.JWT_SECRET;
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  after(() => {
+    process.env.JWT_SECRET = previousSecret;
+  });
+
+  beforeEach(() => {
+    const revoke = (row: Row | undefined, reason: string) => {
+      if (!row || row.revoked_at) return 0;
+      db.update(row, { revoked_at: new Date(), revoked_reason: reason });
+      return 1;
+    };
+
+    db = new FakePool()
+      .on(/^INSERT INTO auth_sessions/, ([id, userId, refreshHash, claims, device, userAgent, ip, expiresAt]) => {
+        db.insert('auth_sessions', {
+          id, user_id: userId, refresh_token_hash: refreshHash, previous_token_hash: null, claims,
+          device_name: device, user_agent: userAgent, ip_address: ip, created_at: new Date(), last_seen_at: new Date(),
+          expires_at: expiresAt, revoked_at: null, revoked_reason: null
+        });
+      })
+      .on(/^SELECT \* FROM auth_sessions WHERE id = \?$/, ([id]) => [session(id)].filter(Boolean) as Row[])
+      .on(/^SELECT \* FROM auth_sessions WHERE user_id = \? AND revoked_at IS NULL/, ([userId]) =>
+        db.rows('auth_sessions').filter(row => row.user_id === userId && !row.revoked_at)
+      )
+      .on(/^UPDATE auth_sessions SET previous_token_hash = refresh_token_hash/, ([nextHash, claims, , , id, currentHash]) => {
+        const row = session(id);
+        if (!row || row.revoked_at || row.refresh_token_hash !== currentHash) return { affectedRows: 0 };
+        db.update(row, { previous_token_hash: row.refresh_token_hash, refresh_token_hash: nextHash, claims });
+        return { affectedRows: 1 };
+      })
+      .on(/^UPDATE auth_sessions SET last_seen_at = NOW\(\)/, () => ({ affectedRows: 0 }))
+      .on(/^UPDATE auth_sessions SET revoked_at = NOW\(\), revoked_reason = \? WHERE id = \?/, ([reason, id]) =>
+        ({ affectedRows: revoke(session(id), reason) })
+      )
+      .on(/^UPDATE auth_sessions SET revoked_at = NOW\(\), revoked_reason = \? WHERE user_id = \?/, ([reason, userId, exceptId]) => ({
+        affectedRows: db.rows('auth_sessions')
+          .filter(row => row.user_id === userId && row.id !== exceptId)
+          .reduce((count, row) => count + revoke(row, reason), 0)
+      }));
+    installPermissionTables(db);
+    db.rows('users').push({ id: 'user-1', role: 'user', is_active: 1 });
+    PermissionService.invalidate();
+    sessions = new AuthSessionService(db.asPool());
+  });
+
+  it('issues an access token bound to a session and stores only the refresh token hash', async () => {
+    const tokens = await sessions.startSession({ id: 'user-1', role: 'user' }, CONTEXT);
+
+    const stored = session(tokens.sessionId)!;
+    expect(stored.refresh_token_hash).to.equal(hash(tokens.refreshToken));
+    expect(JSON.stringify(stored)).not.to.include(tokens.refreshToken);
+    expect(stored.device_name).to.equal('Chrome on Windows');
+    expect(jwt.verify(tokens.token, 'test-secret')).to.include({ id: 'user-1', sid: tokens.sessionId });
+    expect(tokens.expiresIn).to.equal(15 * 60);
+  });
+
+  it('rotates the refresh token and picks up role changes', async () => {
+    const first = await sessions.startSession({ id: 'user-1', role: 'user' }, CONTEXT);
+    db.rows('users')[0].role = 'admin';
+    PermissionService.invalidate('user-1');
+
+    const second = await sessions.refresh(first.refreshToken, CONTEXT);
+
+    expect(second.sessionId).to.equal(first.sessionId);
+    expect(second.refreshToken).not.to.equal(first.refreshToken);
+    const claims = jwt.verify(second.token, 'test-secret') as jwt.JwtPayload;
+    expect(claims).to.include({ role: 'admin', sid: first.sessionId });
+    expect(claims.permissions).to.include('process_distributions').and.not.include('manage_roles');
+    expect(session(first.sessionId)).to.include({
+      refresh_token_hash: hash(second.refreshToken),
+      previous_token_hash: hash(first.refreshToken)
+    });
+  });
+
+  it('revokes the whole session when a rotated-out token is presented again', async () => {
+    const first = await sessions.startSession({ id: 'user-1', role: 'user' }, CONTEXT);
+    const second = await sessions.refresh(first.refreshToken, CONTEXT);
+
+    expect((await failure(sessions.refresh(first.refreshToken, CONTEXT)))?.message)
+      .to.equal('Refresh token has already been used; session revoked');
+    expect(session(first.sessionId)!.revoked_reason).to.equal('refresh_token_reuse');
+    expect((await failure(sessions.refresh(second.refreshToken, CONTEXT)))?.message).to.equal('Session has been revoked');
+    expect(await sessions.isSessionActive(first.sessionId)).to.equal(false);
+  });
+
+  it('lets only one of two concurrent refreshes with the same token win', async () => {
+    const first = await sessions.startSession({ id: 'user-1', role: 'user' }, CONTEXT);
+
+    const results = await Promise.allSettled([
+      sessions.refresh(first.refreshToken, CONTEXT),
+      sessions.refresh(first.refreshToken, CONTEXT)
+    ]);
+
+    expect(results.map(result => result.status).sort()).to.deep.equal(['fulfilled', 'rejected']);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason.message).to.equal('Refresh token has already been used');
+  });
+
+  it('refuses unknown tokens and deactivated accounts', async () => {
+    const first = await sessions.startSession({ id: 'user-1', role: 'user' }, CONTEXT);
+
+    expect((await failure(sessions.refresh(`${first.sessionId}.forged`, CONTEXT)))?.message).to.equal('Invalid refresh token');
+    expect((await failure(sessions.refresh('no-such-session.secret', CONTEXT)))?.message).to.equal('Invalid refresh token');
+
+    db.rows('users')[0].is_active = 0;
+    PermissionService.invalidate('user-1');
+    expect((await failure(sessions.refresh(first.refreshToken, CONTEXT)))?.message).to.equal('Account is deactivated');
+    expect(session(first.sessionId)!.revoked_reason).to.equal('account_deactivated');
+  });
+
+  it('revokes other devices and only the owner can revoke a session', async () => {
+    const laptop = await sessions.startSession({ id: 'user-1', role: 'user' }, CONTEXT);
+    const phone = await sessions.startSession({ id: 'user-1', role: 'user' }, { ipAddress: null, userAgent: null });
+
+    expect((await failure(sessions.revokeSession('user-2', phone.sessionId)))?.message).to.equal('Session not found');
+    expect(await sessions.revokeAllSessions('user-1', laptop.sessionId)).to.equal(1);
+
+    expect(await sessions.isSessionActive(laptop.sessionId)).to.equal(true);
+    expect(await sessions.isSessionActive(phone.sessionId)).to.equal(false);
+    expect((await sessions.listSessions('user-1', laptop.sessionId)).map(listed => listed.current)).to.deep.equal([true]);
+  });
+});
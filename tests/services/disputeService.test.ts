@@ -0,0 +1,217 @@
+import { expect } from 'chai';
+import { DisputeModel } from '../../src/models/disputeModel';
+import { SYSTEM_ACCOUNTS } from '../../src/models/ledgerModel';
+import { DisputeService } from '../../src/services/disputeService';
+import { LedgerService } from '../../src/services/ledgerService';
+import { PaymentStateService } from '../../src/services/paymentStateService';
+import { PaymentProviderRegistry, SANDBOX_TOKENS, SandboxPaymentProvider } from '../../src/services/paymentProviders';
+import { FakePool, Row } from '../support/fakePool';
+import { installDisputeTables } from '../support/disputeTables';
+import { accountBalance, installLedgerTables } from '../support/ledgerTables';
+import { installPaymentTables, paymentTransitions } from '../support/paymentTables';
+import { installSubscriptionTables } from '../support/subscriptionTables';
+
+describe('DisputeService', () => {
+  let db: FakePool;
+  let sandbox: SandboxPaymentProvider;
+  let payments: PaymentStateService;
+  let disputes: DisputeService;
+  let payment: Row;
+
+  const subscription = () => db.rows('subscriptions')[0];
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  const deliver = (webhook: { payload: Buffer; headers: Record<string, string> }) =>
+    payments.handleWebhook('SANDBOX', webhook.payload, webhook.headers);
+
+  beforeEach(async () => {
+    db = installDisputeTables(installSubscriptionTables(installPaymentTables(installLedgerTables(new FakePool()))));
+    db.rows('properties').push({ id: 'property-1', supply: 10000 });
+    db.rows('subscriptions').push({
+      id: 'sub-1', property_id: 'property-1', subscriber_user_id: 'investor-1', subscription_amount: '1500.00',
+      share_percentage: '15.000000', currency: 'NZD', status: 'ACTIVE'
+    });
+
+    sandbox = new SandboxPaymentProvider({ seed: 'test', webhookSecret: 'whsec_test' });
+    const charged = await sandbox.charge({ amount: 1500, currency: 'NZD', source: SANDBOX_TOKENS.SUCCEED });
+    payment = db.insert('payment_transactions', {
+      id: 'payment-1', subscription_id: 'sub-1', amount: '1500.00', currency: 'NZD', gateway: 'SANDBOX',
+      gateway_transaction_id: charged.transactionId, status: 'COMPLETED', state: 'settled', created_at: new Date()
+    });
+
+    const registry = new PaymentProviderRegistry().register(sandbox);
+    payments = new PaymentStateService(db.asPool(), registry);
+    disputes = new DisputeService(db.asPool(), registry);
+  });
+
+  describe('webhooks', () => {
+    it('opens a dispute that freezes the subscription, once per event', async () => {
+      const opened = sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'needs_response');
+
+      const result = await deliver(opened);
+      const redelivered = await deliver(opened);
+
+      expect(result).to.include({ outcome: 'applied', state: 'disputed' });
+      expect(redelivered).to.include({ outcome: 'duplicate', disputeId: result.disputeId });
+      expect(db.rows('payment_disputes')).to.have.length(1);
+      expect(db.rows('payment_disputes')[0]).to.include({ status: 'needs_response', amount: '1500.00', subscription_frozen: 1 });
+      expect(subscription().status).to.equal('INACTIVE');
+    });
+
+    it('settles the payment and unfreezes the subscription when the dispute is won', async () => {
+      await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'needs_response'));
+      await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'under_review'));
+      const won = await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'won'));
+
+      expect(won).to.include({ outcome: 'applied', state: 'settled' });
+      expect(paymentTransitions(db, payment.id)).to.deep.equal([
+        ['settled', 'disputed', 'webhook'],
+        ['disputed', 'settled', 'webhook']
+      ]);
+      expect(subscription()).to.include({ status: 'ACTIVE', subscription_amount: '1500.00' });
+    });
+
+    it('reverses a fully lost chargeback off the subscription', async () => {
+      await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'needs_response'));
+      await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'lost'));
+
+      expect(db.rows('payment_disputes')[0]).to.include({ status: 'lost', subscription_frozen: 0 });
+      expect(paymentTransitions(db, payment.id)).to.deep.equal([
+        ['settled', 'disputed', 'webhook'],
+        ['disputed', 'chargeback', 'webhook']
+      ]);
+      expect(payment.state).to.equal('chargeback');
+      expect(subscription().status).to.equal('CANCELLED');
+      const ignored = await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'won'));
+      expect(ignored.outcome).to.equal('ignored');
+    });
+  });
+
+  describe('recordDispute and resolveDispute', () => {
+    it('takes a partially lost dispute off the subscription and reactivates it', async () => {
+      const dispute = await disputes.recordDispute(payment.id, { amount: 500, reason: 'Duplicate charge' }, 'admin-1');
+      expect(subscription().status).to.equal('INACTIVE');
+
+      const resolved = await disputes.resolveDispute(dispute.id, 'lost', 'admin-1', 'Bank sided with the cardholder');
+
+      expect(resolved).to.include({ status: 'lost', resolved_by: 'admin-1' });
+      expect(subscription()).to.include({ status: 'ACTIVE', subscription_amount: '1000', share_percentage: 10 });
+      expect(db.rows('payment_transactions')[0].state).to.equal('settled');
+      expect((await failure(disputes.resolveDispute(dispute.id, 'won', 'admin-1', null)))?.message)
+        .to.equal('Invalid state: dispute is already lost');
+    });
+
+    it('keeps the subscription frozen until its last open dispute closes', async () => {
+      const first = await disputes.recordDispute(payment.id, { amount: 100, reason: 'Fraudulent' }, 'admin-1');
+      const second = await disputes.recordDispute(payment.id, { amount: 200, reason: 'Not received' }, 'admin-1');
+
+      await disputes.resolveDispute(first.id, 'won', 'admin-1', null);
+      expect(subscription().status).to.equal('INACTIVE');
+      expect(db.rows('payment_disputes').find(row => row.id === second.id)!.subscription_frozen).to.equal(1);
+
+      await disputes.resolveDispute(second.id, 'won', 'admin-1', null);
+      expect(subscription().status).to.equal('ACTIVE');
+    });
+
+    it('refuses amounts above the payment and disputes already recorded', async () => {
+      expect((await failure(disputes.recordDispute(payment.id, { amount: 1500.01, reason: 'Fraudulent' }, 'admin-1')))?.message)
+        .to.equal('Invalid amount: must be more than 0 and at most 1500.00');
+
+      await disputes.recordDispute(payment.id, { reason: 'Fraudulent', gatewayDisputeId: 'dp_1' }, 'admin-1');
+      expect((await failure(disputes.recordDispute(payment.id, { reason: 'Fraudulent', gatewayDisputeId: 'dp_1' }, 'admin-1')))?.message)
+        .to.equal('Invalid state: this dispute has already been recorded');
+      expect(db.rows('payment_disputes')).to.have.length(1);
+    });
+  });
+
+  describe('clawbacks', () => {
+    const disburse = async (amount: number) => {
+      const connection = await db.asPool().getConnection();
+      await connection.beginTransaction();
+      await new LedgerService(db.asPool()).postEntry(connection, { entryType: 'roi_disbursement', asset: 'dNZD', description: 'ROI' }, [
+        { systemAccount: SYSTEM_ACCOUNTS.ROI_DISTRIBUTIONS, direction: 'debit', amount },
+        { walletId: 'wallet-1', direction: 'credit', amount }
+      ]);
+      await connection.commit();
+      db.rows('wallet_transactions').push({
+        user_id: 'investor-1', wallet_id: 'wallet-1', asset: 'dNZD', amount: amount.toFixed(6), status: 'completed',
+        transaction_type: 'roi_disbursement', metadata: JSON.stringify({ subscriptionId: 'sub-1' })
+      });
+    };
+
+    beforeEach(() => {
+      db.rows('user_wallets').push({ id: 'wallet-1', user_id: 'investor-1', wallet_address: '0xinvestor', balance_usdc: '0.000000' });
+    });
+
+    it('takes the lost share of disbursements back out of the wallet', async () => {
+      await disburse(90);
+      const dispute = await disputes.recordDispute(payment.id, { amount: 500, reason: 'Duplicate charge' }, 'admin-1');
+
+      await disputes.resolveDispute(dispute.id, 'lost', 'admin-1', null);
+
+      expect(accountBalance(db, 'wallet:wallet-1:dNZD')).to.equal(60);
+      const clawback = db.rows('wallet_transactions').find(row => row.transaction_type === 'chargeback')!;
+      expect(clawback).to.include({ amount: 30, balance_before: 90, balance_after: 60 });
+      expect(JSON.parse(clawback.metadata)).to.include({ disputeId: dispute.id, shortfall: 0 });
+      expect(await new DisputeModel(db.asPool()).getHeldBalance('investor-1', 'dNZD')).to.equal(0);
+    });
+
+    it('claws back what is left when credits were spent before the dispute', async () => {
+      await disburse(90);
+      db.rows('wallet_balances')[0].balance = '20.000000';
+
+      await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'needs_response'));
+      await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'lost'));
+
+      const clawback = db.rows('wallet_transactions').find(row => row.transaction_type === 'chargeback')!;
+      expect(clawback).to.include({ amount: 20, balance_after: 0 });
+      expect(JSON.parse(clawback.metadata).shortfall).to.equal(70);
+    });
+  });
+
+  describe('evidence', () => {
+    it('merges drafts and submits them to the gateway once', async () => {
+      const { disputeId } = await deliver(sandbox.buildDisputeWebhook(payment.gateway_transaction_id, 'needs_response'));
+
+      await disputes.saveEvidence(disputeId!, { customer_name: 'Jane Investor', uncategorized_text: 'draft' });
+      const saved = await disputes.saveEvidence(disputeId!, { uncategorized_text: '', service_date: '2026-03-01' });
+      expect(saved.evidence).to.deep.equal({ customer_name: 'Jane Investor', service_date: '2026-03-01' });
+      expect((await failure(disputes.saveEvidence(disputeId!, { favourite_colour: 'blue' })))?.message)
+        .to.equal('Invalid evidence field: favourite_colour');
+
+      const submitted = await disputes.submitEvidence(disputeId!, 'admin-1');
+
+      expect(submitted).to.include({ status: 'under_review', submitted_to_gateway: 1, evidence_submitted_by: 'admin-1' });
+      expect(sandbox.getDisputeEvidence(`${payment.gateway_transaction_id}_dp`)).to.deep.equal(saved.evidence);
+      expect((await failure(disputes.saveEvidence(disputeId!, { customer_name: 'Someone else' })))?.message)
+        .to.equal('Invalid state: evidence can no longer be changed (dispute is under_review)');
+    });
+  });
+
+  describe('held balances', () => {
+    it('holds wallet credits from a disputed subscription until the dispute closes', async () => {
+      const credit = (subscriptionId: string, amount: number) => db.rows('wallet_transactions').push({
+        user_id: 'investor-1', asset: 'dNZD', amount: amount.toFixed(6), status: 'completed',
+        transaction_type: 'roi_disbursement', metadata: JSON.stringify({ subscriptionId })
+      });
+      credit('sub-1', 40);
+      credit('sub-2', 25);
+      const model = new DisputeModel(db.asPool());
+
+      expect(await model.getHeldBalance('investor-1', 'dNZD')).to.equal(0);
+      const dispute = await disputes.recordDispute(payment.id, { reason: 'Fraudulent' }, 'admin-1');
+      expect(await model.getHeldBalance('investor-1', 'dNZD')).to.equal(40);
+
+      await disputes.resolveDispute(dispute.id, 'won', 'admin-1', null);
+      expect(await model.getHeldBalance('investor-1', 'dNZD')).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { expect } from 'chai';
+import { SYSTEM_ACCOUNTS } from '../../src/models/ledgerModel';
+import { WalletAsset } from '../../src/models/walletModel';
+import { LedgerService } from '../../src/services/ledgerService';
+import { FakePool } from '../support/fakePool';
+import { installDisputeTables } from '../support/disputeTables';
+import { accountBalance, installLedgerTables } from '../support/ledgerTables';
+
+describe('LedgerService', () => {
+  let db: FakePool;
+  let ledger: LedgerService;
+
+  const post = async (legs: Parameters<LedgerService['postEntry']>[2], asset?: WalletAsset) => {
+    const connection = await db.asPool().getConnection();
+    await connection.beginTransaction();
+    try {
+      const posted = await ledger.postEntry(connection, { entryType: 'transfer', asset, description: 'test' }, legs);
+      await connection.commit();
+      return posted;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    }
+  };
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    db = installDisputeTables(installLedgerTables(new FakePool()));
+    db.rows('user_wallets').push(
+      { id: 'wallet-a', user_id: 'user-a', balance_usdc: '0.000000' },
+      { id: 'wallet-b', user_id: 'user-b', balance_usdc: '0.000000' }
+    );
+    ledger = new LedgerService(db.asPool());
+  });
+
+  describe('postEntry', () => {
+    it('posts balanced legs and moves the cached balances with them', async () => {
+      await post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 100 },
+        { walletId: 'wallet-a', direction: 'credit', amount: 100 }
+      ]);
+      const posted = await post([
+        { walletId: 'wallet-a', direction: 'debit', amount: 40.25 },
+        { walletId: 'wallet-b', direction: 'credit', amount: 40.25 }
+      ]);
+
+      expect(posted.walletBalances).to.deep.equal({
+        'wallet-a': { before: 100, after: 59.75 },
+        'wallet-b': { before: 0, after: 40.25 }
+      });
+      expect(db.rows('user_wallets').map(row => row.balance_usdc)).to.deep.equal(['59.750000', '40.250000']);
+      expect(accountBalance(db, 'wallet:wallet-a')).to.equal(59.75);
+      expect(accountBalance(db, SYSTEM_ACCOUNTS.FLOAT)).to.equal(100);
+      expect(db.rows('ledger_postings')).to.have.length(4);
+    });
+
+    it('refuses to take a wallet below zero and leaves nothing behind', async () => {
+      const error = await failure(post([
+        { walletId: 'wallet-a', direction: 'debit', amount: 1 },
+        { walletId: 'wallet-b', direction: 'credit', amount: 1 }
+      ]));
+
+      expect(error?.message).to.equal('Insufficient USDC balance');
+      expect(db.rows('ledger_journal_entries')).to.have.length(0);
+      expect(db.rows('user_wallets').map(row => row.balance_usdc)).to.deep.equal(['0.000000', '0.000000']);
+    });
+
+    it('keeps credits from a disputed subscription out of reach until the dispute closes', async () => {
+      await post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 100 },
+        { walletId: 'wallet-a', direction: 'credit', amount: 100 }
+      ]);
+      db.rows('wallet_transactions').push({
+        user_id: 'user-a', asset: 'USDC', amount: '60.000000', status: 'completed',
+        transaction_type: 'roi_disbursement', metadata: JSON.stringify({ subscriptionId: 'sub-1' })
+      });
+      db.rows('payment_disputes').push({ id: 'dispute-1', subscription_id: 'sub-1', status: 'needs_response' });
+      const transfer = (amount: number) => post([
+        { walletId: 'wallet-a', direction: 'debit', amount },
+        { walletId: 'wallet-b', direction: 'credit', amount }
+      ]);
+
+      expect((await failure(transfer(40.01)))?.message)
+        .to.equal('Insufficient USDC balance: 60 USDC is held while a payment dispute is open');
+      await transfer(40);
+      expect(accountBalance(db, 'wallet:wallet-a')).to.equal(60);
+
+      db.rows('payment_disputes')[0].status = 'won';
+      await transfer(60);
+      expect(accountBalance(db, 'wallet:wallet-a')).to.equal(0);
+    });
+
+    it('keeps each asset in its own accounts and cached balance', async () => {
+      await post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 100 },
+        { walletId: 'wallet-a', direction: 'credit', amount: 100 }
+      ]);
+      await post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 0.25 },
+        { walletId: 'wallet-a', direction: 'credit', amount: 0.25 }
+      ], 'ETH');
+
+      const error = await failure(post([
+        { walletId: 'wallet-a', direction: 'debit', amount: 1 },
+        { walletId: 'wallet-b', direction: 'credit', amount: 1 }
+      ], 'ETH'));
+
+      expect(error?.message).to.equal('Insufficient ETH balance');
+      expect(db.rows('wallet_balances')).to.deep.equal([
+        { wallet_id: 'wallet-a', asset: 'USDC', balance: '100.000000' },
+        { wallet_id: 'wallet-a', asset: 'ETH', balance: '0.250000' }
+      ]);
+      expect(db.rows('user_wallets')[0].balance_usdc).to.equal('100.000000');
+      expect(accountBalance(db, 'wallet:wallet-a:ETH')).to.equal(0.25);
+      expect(accountBalance(db, `${SYSTEM_ACCOUNTS.FLOAT}:ETH`)).to.equal(0.25);
+      expect(db.rows('ledger_postings').filter(posting => posting.currency === 'ETH')).to.have.length(2);
+    });
+
+    it('rejects entries whose legs do not net to zero', async () => {
+      const error = await failure(post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 10 },
+        { walletId: 'wallet-a', direction: 'credit', amount: 10.000001 }
+      ]));
+
+      expect(error?.message).to.equal('Unbalanced journal entry');
+      expect(db.rows('ledger_postings')).to.have.length(0);
+      expect(db.rows('user_wallets')[0].balance_usdc).to.equal('0.000000');
+    });
+
+    it('fails for an unknown wallet', async () => {
+      const error = await failure(post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 10 },
+        { walletId: 'wallet-missing', direction: 'credit', amount: 10 }
+      ]));
+
+      expect(error?.message).to.equal('Wallet not found');
+    });
+  });
+
+  describe('backfillOpeningBalances', () => {
+    it('backs pre-ledger balances with float postings once', async () => {
+      db.rows('user_wallets')[0].balance_usdc = '250.500000';
+
+      expect(await ledger.backfillOpeningBalances()).to.equal(1);
+      expect(await ledger.backfillOpeningBalances()).to.equal(0);
+
+      expect(db.rows('user_wallets')[0].balance_usdc).to.equal('250.500000');
+      expect(db.rows('wallet_balances')).to.deep.equal([{ wallet_id: 'wallet-a', asset: 'USDC', balance: '250.500000' }]);
+      expect(accountBalance(db, 'wallet:wallet-a')).to.equal(250.5);
+      expect(accountBalance(db, SYSTEM_ACCOUNTS.FLOAT)).to.equal(250.5);
+      expect(db.rows('ledger_journal_entries')[0].entry_type).to.equal('opening_balance');
+    });
+  });
+
+  describe('reconcileWallet and getTrialBalance', () => {
+    it('report a cached balance that drifted from the postings', async () => {
+      await post([
+        { systemAccount: SYSTEM_ACCOUNTS.FLOAT, direction: 'debit', amount: 20 },
+        { walletId: 'wallet-a', direction: 'credit', amount: 20 }
+      ]);
+      db.rows('wallet_balances')[0].balance = '25.000000';
+
+      expect(await ledger.reconcileWallet('wallet-a')).to.include({
+        asset: 'USDC',
+        cachedBalance: 25,
+        ledgerBalance: 20,
+        difference: 5,
+        balanced: false
+      });
+      const trial = await ledger.getTrialBalance();
+      expect(trial.balanced).to.equal(true);
+      expect(trial.assets).to.deep.equal([{ currency: 'USDC', totalDebits: 20, totalCredits: 20, balanced: true }]);
+    });
+  });
+});
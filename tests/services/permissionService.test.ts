@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import { PERMISSIONS, SUPER_ADMIN_USER_ID } from '../../src/models/permissionModel';
+import { PermissionService } from '../../src/services/permissionService';
+import { FakePool } from '../support/fakePool';
+import { installPermissionTables } from '../support/permissionTables';
+
+describe('PermissionService', () => {
+  let db: FakePool;
+  let permissions: PermissionService;
+
+  const admin = { id: 'admin-1', role: 'admin' };
+  const superAdmin = { id: SUPER_ADMIN_USER_ID, role: 'super-admin' };
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    db = installPermissionTables(new FakePool());
+    db.rows('users').push(
+      { id: 'admin-1', role: 'admin', is_active: 1 },
+      { id: 'user-1', role: 'user', is_active: 1 },
+      { id: 'user-2', role: 'compliance_officer', is_active: 0 }
+    );
+    PermissionService.invalidate();
+    permissions = new PermissionService(db.asPool());
+  });
+
+  describe('resolveUser', () => {
+    it('adds per-user allows to the role and removes per-user denies', async () => {
+      db.rows('user_permissions').push(
+        { user_id: 'user-1', permission: PERMISSIONS.VIEW_REPORTS, effect: 'allow' },
+        { user_id: 'user-1', permission: PERMISSIONS.CREATE_PROPERTY, effect: 'deny' }
+      );
+
+      expect(await permissions.resolveUser('user-1')).to.deep.equal({
+        role: 'user', permissions: [PERMISSIONS.VIEW_REPORTS], isActive: true
+      });
+    });
+
+    it('treats the password-only super-admin as holding every permission', async () => {
+      const access = await permissions.resolveUser(SUPER_ADMIN_USER_ID);
+
+      expect(access?.role).to.equal('super-admin');
+      expect(access?.permissions).to.have.members(Object.values(PERMISSIONS));
+    });
+
+    it('returns null for unknown users and denies deactivated ones', async () => {
+      expect(await permissions.resolveUser('user-missing')).to.equal(null);
+      expect(await permissions.hasPermission('user-missing', PERMISSIONS.CREATE_PROPERTY)).to.equal(false);
+      expect(await permissions.hasPermission('user-2', PERMISSIONS.REVIEW_KYC)).to.equal(false);
+      expect(await permissions.hasPermission('admin-1', PERMISSIONS.REVIEW_KYC)).to.equal(true);
+    });
+
+    it('serves cached access until this process changes it', async () => {
+      expect(await permissions.hasPermission('user-1', PERMISSIONS.VIEW_REPORTS)).to.equal(false);
+
+      db.rows('user_permissions').push({ user_id: 'user-1', permission: PERMISSIONS.VIEW_REPORTS, effect: 'allow' });
+      expect(await permissions.hasPermission('user-1', PERMISSIONS.VIEW_REPORTS)).to.equal(false);
+
+      await permissions.revokeUserPermission('user-1', PERMISSIONS.CREATE_PROPERTY, 'admin-1');
+      expect(await permissions.resolveUser('user-1')).to.deep.include({ permissions: [PERMISSIONS.VIEW_REPORTS] });
+    });
+  });
+
+  describe('user overrides', () => {
+    it('lets a deny beat the role and a reset restore it', async () => {
+      const denied = await permissions.revokeUserPermission('user-1', PERMISSIONS.CREATE_PROPERTY, 'admin-1');
+      expect(denied.permissions).to.deep.equal([]);
+      expect(denied.overrides).to.deep.equal([
+        { permission: PERMISSIONS.CREATE_PROPERTY, effect: 'deny', grantedBy: 'admin-1', updatedAt: denied.overrides[0].updatedAt }
+      ]);
+
+      const reset = await permissions.resetUserPermission('user-1', PERMISSIONS.CREATE_PROPERTY);
+      expect(reset.permissions).to.deep.equal([PERMISSIONS.CREATE_PROPERTY]);
+      expect(reset.overrides).to.deep.equal([]);
+    });
+
+    it('refuses unknown permissions and users', async () => {
+      expect((await failure(permissions.grantUserPermission('user-1', 'launch_rockets', 'admin-1')))?.message)
+        .to.equal('Unknown permission: launch_rockets');
+      expect((await failure(permissions.grantUserPermission('user-missing', PERMISSIONS.VIEW_REPORTS, 'admin-1')))?.message)
+        .to.equal('User not found');
+      expect(db.rows('user_permissions')).to.have.length(0);
+    });
+  });
+
+  describe('setUserRole', () => {
+    it('changes the role and the permissions that come with it', async () => {
+      const access = await permissions.setUserRole('user-1', 'auditor', admin);
+
+      expect(access).to.deep.include({ role: 'auditor', permissions: [PERMISSIONS.VIEW_REPORTS] });
+      expect(db.rows('users')[1].role).to.equal('auditor');
+    });
+
+    it('keeps super-admin changes to super-admins and stops self-changes', async () => {
+      expect((await failure(permissions.setUserRole('user-1', 'super-admin', admin)))?.message)
+        .to.equal('Only a super-admin can change super-admin access');
+      expect((await failure(permissions.setUserRole('admin-1', 'user', admin)))?.message)
+        .to.equal('You cannot change your own role');
+      expect((await failure(permissions.setUserRole('user-1', 'owner', admin)))?.message)
+        .to.equal('Unknown role: owner');
+      expect(db.rows('users').map(row => row.role)).to.deep.equal(['admin', 'user', 'compliance_officer']);
+
+      expect((await permissions.setUserRole('user-1', 'super-admin', superAdmin)).role).to.equal('super-admin');
+      expect((await failure(permissions.setUserRole('user-1', 'user', admin)))?.message)
+        .to.equal('Only a super-admin can change super-admin access');
+    });
+  });
+
+  describe('role permissions', () => {
+    it('applies role grants to every holder of the role', async () => {
+      expect(await permissions.hasPermission('user-1', PERMISSIONS.VIEW_REPORTS)).to.equal(false);
+
+      expect(await permissions.grantRolePermission('user', PERMISSIONS.VIEW_REPORTS))
+        .to.deep.equal([PERMISSIONS.CREATE_PROPERTY, PERMISSIONS.VIEW_REPORTS]);
+      expect(await permissions.hasPermission('user-1', PERMISSIONS.VIEW_REPORTS)).to.equal(true);
+
+      await permissions.revokeRolePermission('user', PERMISSIONS.VIEW_REPORTS);
+      expect(await permissions.hasPermission('user-1', PERMISSIONS.VIEW_REPORTS)).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { expect } from 'chai';
+import { PaymentProvider, PaymentProviderRegistry, SANDBOX_TOKENS, SandboxPaymentProvider } from '../../src/services/paymentProviders';
+import { RefundService } from '../../src/services/refundService';
+import { FakePool, Row } from '../support/fakePool';
+import { accountBalance, installLedgerTables } from '../support/ledgerTables';
+import { installPaymentTables, paymentTransitions } from '../support/paymentTables';
+import { installSubscriptionTables } from '../support/subscriptionTables';
+
+describe('RefundService', () => {
+  let db: FakePool;
+  let sandbox: SandboxPaymentProvider;
+  let refunds: RefundService;
+  let flakyFailures: number;
+
+  const investor = { id: 'investor-1', permissions: [] };
+  const subscription = () => db.rows('subscriptions')[0];
+  const refundRow = (id: string) => db.rows('refund_requests').find(row => row.id === id)!;
+
+  // POLi cannot refund; FLAKY times out until flakyFailures runs out
+  const poli = {
+    name: 'POLI',
+    refund: async () => {
+      throw new Error('Not supported: POLI does not support refunds');
+    }
+  } as unknown as PaymentProvider;
+  const flaky = {
+    name: 'FLAKY',
+    refund: async (transactionId: string, amount: number) => {
+      if (flakyFailures-- > 0) throw new Error('Gateway timeout');
+      return { refundId: 'flaky_re_1', transactionId, status: 'succeeded', amount };
+    }
+  } as unknown as PaymentProvider;
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  const settledPayment = async (gateway: string, amount = 1500) => {
+    const transactionId = gateway === 'SANDBOX'
+      ? (await sandbox.charge({ amount, currency: 'NZD', source: SANDBOX_TOKENS.SUCCEED })).transactionId
+      : `${gateway.toLowerCase()}_txn_1`;
+    return db.insert('payment_transactions', {
+      id: `payment-${gateway.toLowerCase()}`,
+      subscription_id: 'sub-1',
+      amount: amount.toFixed(2),
+      currency: 'NZD',
+      gateway,
+      gateway_transaction_id: transactionId,
+      status: 'COMPLETED',
+      state: 'settled',
+      created_at: new Date()
+    });
+  };
+
+  beforeEach(() => {
+    const byStatus = (statuses: string[]) => (row: Row) => statuses.includes(row.status);
+
+    db = installSubscriptionTables(installPaymentTables(installLedgerTables(new FakePool())))
+      .on(/^INSERT INTO refund_requests/, ([id, subscriptionId, paymentId, amount, currency, reason, requestedBy]) => {
+        db.insert('refund_requests', {
+          id, subscription_id: subscriptionId, payment_id: paymentId, amount: Number(amount).toFixed(2), currency, reason,
+          status: 'requested', method: null, requested_by: requestedBy, reviewed_by: null, gateway: null,
+          gateway_refund_id: null, wallet_transaction_id: null, failure_reason: null, created_at: new Date()
+        });
+      })
+      .on(/^SELECT \* FROM refund_requests WHERE id = \?$/, ([id]) =>
+        db.rows('refund_requests').filter(row => row.id === id).map(row => ({ ...row }))
+      )
+      .on(/^SELECT \* FROM refund_requests WHERE subscription_id = \? ORDER BY/, ([subscriptionId]) =>
+        db.rows('refund_requests').filter(row => row.subscription_id === subscriptionId).reverse()
+      )
+      .on(/^SELECT id FROM refund_requests WHERE subscription_id = \? AND status IN/, ([subscriptionId]) =>
+        db.rows('refund_requests').filter(row =>
+          row.subscription_id === subscriptionId && byStatus(['requested', 'processing', 'failed'])(row)
+        )
+      )
+      .on(/^SELECT COALESCE\(SUM\(amount\), 0\) AS total FROM refund_requests/, ([paymentId]) => [{
+        total: db.rows('refund_requests')
+          .filter(row => row.payment_id === paymentId && row.method === 'gateway' && row.status === 'completed')
+          .reduce((total, row) => total + Number(row.amount), 0)
+      }])
+      .on(/^UPDATE refund_requests SET status = 'processing'/, ([reviewerId, note, id]) => {
+        const row = db.rows('refund_requests').find(candidate => candidate.id === id && byStatus(['requested', 'failed'])(candidate));
+        if (row) db.update(row, { status: 'processing', reviewed_by: reviewerId, review_note: note, failure_reason: null });
+        return { affectedRows: row ? 1 : 0 };
+      })
+      .on(/^UPDATE refund_requests SET status = 'rejected'/, ([reviewerId, note, id]) => {
+        const row = db.rows('refund_requests').find(candidate => candidate.id === id && byStatus(['requested', 'failed'])(candidate));
+        if (row) db.update(row, { status: 'rejected', reviewed_by: reviewerId, review_note: note });
+        return { affectedRows: row ? 1 : 0 };
+      })
+      .on(/^UPDATE refund_requests SET status = 'completed'/, ([method, gateway, gatewayRefundId, walletTransactionId, before, after, id]) => {
+        const row = db.rows('refund_requests').find(candidate => candidate.id === id && candidate.status === 'processing');
+        if (row) {
+          db.update(row, {
+            status: 'completed', method, gateway, gateway_refund_id: gatewayRefundId, wallet_transaction_id: walletTransactionId,
+            share_percentage_before: before, share_percentage_after: after
+          });
+        }
+      })
+      .on(/^UPDATE refund_requests SET status = 'failed'/, ([reason, gateway, gatewayRefundId, id]) => {
+        const row = db.rows('refund_requests').find(candidate => candidate.id === id && candidate.status === 'processing');
+        if (row) {
+          db.update(row, {
+            status: 'failed', failure_reason: reason, gateway: gateway ?? row.gateway, gateway_refund_id: gatewayRefundId ?? row.gateway_refund_id
+          });
+        }
+      });
+
+    db.rows('properties').push({ id: 'property-1', supply: 10000 });
+    db.rows('subscriptions').push({
+      id: 'sub-1', property_id: 'property-1', subscriber_user_id: 'investor-1', subscription_amount: '1500.00',
+      share_percentage: '15.000000', currency: 'NZD', status: 'ACTIVE'
+    });
+    db.rows('user_wallets').push({ id: 'wallet-1', user_id: 'investor-1', wallet_address: '0xinvestor', balance_usdc: '0.000000' });
+
+    flakyFailures = 0;
+    sandbox = new SandboxPaymentProvider({ seed: 'test', webhookSecret: 'whsec_test' });
+    refunds = new RefundService(db.asPool(), new PaymentProviderRegistry().register(sandbox).register(poli).register(flaky));
+  });
+
+  describe('requestRefund', () => {
+    it('defaults to the whole subscription and its settled payment, one open request at a time', async () => {
+      await settledPayment('SANDBOX');
+
+      const refund = await refunds.requestRefund('sub-1', { reason: 'Changed my mind' }, investor);
+
+      expect(refund).to.include({ amount: '1500.00', currency: 'NZD', payment_id: 'payment-sandbox', requested_by: 'investor-1' });
+      expect((await failure(refunds.requestRefund('sub-1', { reason: 'Again' }, investor)))?.message)
+        .to.equal('Invalid state: a refund is already open for this subscription');
+    });
+
+    it('refuses amounts above the subscription and inactive subscriptions', async () => {
+      expect((await failure(refunds.requestRefund('sub-1', { amount: 1500.01, reason: 'Too much' }, investor)))?.message)
+        .to.equal('Invalid amount: must be more than 0 and at most 1500.00');
+
+      subscription().status = 'CANCELLED';
+      expect((await failure(refunds.requestRefund('sub-1', { reason: 'Late' }, investor)))?.message)
+        .to.equal('Invalid state: subscription is CANCELLED');
+      expect(db.rows('refund_requests')).to.have.length(0);
+    });
+
+    it('is open to the subscriber and payment managers only', async () => {
+      const stranger = { id: 'investor-2', address: '0xstranger', permissions: [] };
+      const manager = { id: 'admin-1', permissions: ['manage_payments'] };
+
+      expect((await failure(refunds.requestRefund('sub-1', { reason: 'Not mine' }, stranger)))?.message)
+        .to.equal('Not authorised to manage refunds for this subscription');
+      expect((await failure(refunds.getSubscriptionRefunds('sub-1', stranger)))?.message)
+        .to.equal('Not authorised to manage refunds for this subscription');
+
+      expect(await refunds.requestRefund('sub-1', { reason: 'Goodwill' }, manager)).to.include({ requested_by: 'admin-1' });
+      expect(await refunds.getSubscriptionRefunds('sub-1', investor)).to.have.length(1);
+    });
+  });
+
+  describe('approveRefund', () => {
+    it('refunds in full at the gateway and cancels the subscription', async () => {
+      const payment = await settledPayment('SANDBOX');
+      const refund = await refunds.requestRefund('sub-1', { reason: 'Changed my mind' }, investor);
+
+      const approved = await refunds.approveRefund(refund.id, 'admin-1');
+
+      expect(approved).to.include({ status: 'completed', method: 'gateway', gateway: 'SANDBOX', gateway_refund_id: 'sbx_test_re_000001' });
+      expect((await sandbox.getStatus(payment.gateway_transaction_id)).status).to.equal('refunded');
+      expect(paymentTransitions(db, payment.id)).to.deep.equal([['settled', 'refunded', 'admin']]);
+      expect(subscription().status).to.equal('CANCELLED');
+      expect(db.rows('wallet_transactions')).to.have.length(0);
+    });
+
+    it('credits a partial refund to the wallet and shrinks the subscription', async () => {
+      await settledPayment('SANDBOX');
+      const refund = await refunds.requestRefund('sub-1', { amount: 500, reason: 'Reduce' }, investor);
+
+      const approved = await refunds.approveRefund(refund.id, 'admin-1', { method: 'wallet' });
+
+      expect(approved).to.include({ status: 'completed', method: 'wallet', share_percentage_before: 15, share_percentage_after: 10 });
+      expect(subscription()).to.include({ status: 'ACTIVE', subscription_amount: '1000' });
+      expect(db.rows('wallet_transactions')[0]).to.include({ transaction_type: 'refund', asset: 'dNZD', amount: 500 });
+      expect(accountBalance(db, 'wallet:wallet-1:dNZD')).to.equal(500);
+      expect(db.rows('payment_transactions')[0].state).to.equal('settled');
+    });
+
+    it('pays back as wallet credit when the gateway cannot refund', async () => {
+      await settledPayment('POLI');
+      const refund = await refunds.requestRefund('sub-1', { reason: 'Changed my mind' }, investor);
+
+      expect(await refunds.approveRefund(refund.id, 'admin-1')).to.include({ status: 'completed', method: 'wallet' });
+      expect(accountBalance(db, 'wallet:wallet-1:dNZD')).to.equal(1500);
+    });
+
+    it('leaves a gateway error failed for a retry', async () => {
+      await settledPayment('FLAKY');
+      const refund = await refunds.requestRefund('sub-1', { reason: 'Changed my mind' }, investor);
+      flakyFailures = 1;
+
+      expect((await failure(refunds.approveRefund(refund.id, 'admin-1')))?.message).to.equal('Gateway refund failed: Gateway timeout');
+      expect(refundRow(refund.id)).to.include({ status: 'failed', failure_reason: 'Gateway timeout' });
+      expect(subscription().status).to.equal('ACTIVE');
+
+      expect(await refunds.approveRefund(refund.id, 'admin-1')).to.include({ status: 'completed', gateway_refund_id: 'flaky_re_1' });
+    });
+
+    it('lets only one of two concurrent approvals pay out', async () => {
+      await settledPayment('SANDBOX');
+      const refund = await refunds.requestRefund('sub-1', { amount: 100, reason: 'Reduce' }, investor);
+
+      const results = await Promise.allSettled([
+        refunds.approveRefund(refund.id, 'admin-1'),
+        refunds.approveRefund(refund.id, 'admin-2')
+      ]);
+
+      const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+      expect(rejected.map(result => result.reason.message)).to.deep.equal(['Invalid state: refund is already being processed']);
+      expect(subscription().subscription_amount).to.equal('1400');
+      expect(db.rows('refund_requests')[0].gateway_refund_id).to.equal('sbx_test_re_000001');
+    });
+  });
+
+  describe('rejectRefund', () => {
+    it('closes an open request once', async () => {
+      const refund = await refunds.requestRefund('sub-1', { reason: 'Changed my mind' }, investor);
+
+      expect(await refunds.rejectRefund(refund.id, 'admin-1', 'Outside the cooling-off period')).to.include({ status: 'rejected' });
+      expect((await failure(refunds.rejectRefund(refund.id, 'admin-1', 'Again')))?.message).to.equal('Invalid state: refund is rejected');
+      expect((await failure(refunds.approveRefund(refund.id, 'admin-1')))?.message).to.equal('Invalid state: refund is rejected');
+    });
+  });
+});
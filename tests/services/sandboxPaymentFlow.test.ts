@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { PaymentGatewayService } from '../../src/services/paymentGatewayService';
+import { PaymentProviderRegistry, SANDBOX_TOKENS, SandboxPaymentProvider } from '../../src/services/paymentProviders';
+import { FakePool } from '../support/fakePool';
+import { installPaymentTables, paymentTransitions } from '../support/paymentTables';
+import { installSubscriptionTables } from '../support/subscriptionTables';
+
+describe('sandbox payment flow', () => {
+  const WEBHOOK_SECRET = 'whsec_sandbox_test';
+  const SUBSCRIPTION_ID = '1a2b3c4d-5e6f-7890-abcd-ef1234567890';
+  const request = { propertyId: 'property-1', subscriberUserId: 'investor-1', amount: 1500, currency: 'nzd' };
+
+  let db: FakePool;
+  let sandbox: SandboxPaymentProvider;
+  let gateway: PaymentGatewayService;
+
+  const subscription = () => db.rows('subscriptions')[0];
+  const payment = () => db.rows('payment_transactions')[0];
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    db = installSubscriptionTables(installPaymentTables(new FakePool()));
+    db.rows('subscriptions').push({ id: SUBSCRIPTION_ID, status: 'PENDING' });
+    sandbox = new SandboxPaymentProvider({ seed: 'test', webhookSecret: WEBHOOK_SECRET });
+    gateway = new PaymentGatewayService(db.asPool(), new PaymentProviderRegistry().register(sandbox));
+  });
+
+  it('activates the subscription once the settlement webhook arrives', async () => {
+    const charged = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    expect(charged).to.include({ transactionId: 'sbx_test_000001', status: 'PENDING', currency: 'NZD' });
+    await gateway.linkSubscription(charged.paymentId!, SUBSCRIPTION_ID);
+    expect(subscription().status).to.equal('PENDING');
+
+    const webhook = sandbox.buildWebhook(charged.transactionId, 'succeeded');
+    const result = await gateway.handleWebhook('sandbox', webhook.payload, webhook.headers);
+
+    expect(result).to.include({ outcome: 'applied', gateway: 'SANDBOX', paymentId: charged.paymentId, state: 'settled' });
+    expect(payment()).to.include({ state: 'settled', status: 'COMPLETED', subscription_id: SUBSCRIPTION_ID });
+    expect(paymentTransitions(db, charged.paymentId!)).to.deep.equal([
+      [null, 'created', 'api'],
+      ['created', 'settled', 'webhook']
+    ]);
+    expect(subscription().status).to.equal('ACTIVE');
+  });
+
+  it('applies a redelivered webhook only once', async () => {
+    const charged = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    await gateway.linkSubscription(charged.paymentId!, SUBSCRIPTION_ID);
+    const webhook = sandbox.buildWebhook(charged.transactionId, 'succeeded');
+
+    await gateway.handleWebhook('SANDBOX', webhook.payload, webhook.headers);
+    const redelivered = await gateway.handleWebhook('SANDBOX', webhook.payload, webhook.headers);
+
+    expect(redelivered).to.include({ outcome: 'duplicate', state: 'settled' });
+    expect(db.rows('payment_state_transitions')).to.have.length(2);
+    expect(db.rows('payment_webhook_events')).to.have.length(1);
+  });
+
+  it('flags a settlement for a different amount or currency instead of activating', async () => {
+    const charged = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    const other = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    await gateway.linkSubscription(charged.paymentId!, SUBSCRIPTION_ID);
+    payment().amount = '15000.00';
+    db.rows('payment_transactions')[1].currency = 'AUD';
+
+    const originalError = console.error;
+    console.error = () => {};
+    const results = [];
+    try {
+      for (const transactionId of [charged.transactionId, other.transactionId]) {
+        const webhook = sandbox.buildWebhook(transactionId, 'succeeded');
+        results.push(await gateway.handleWebhook('SANDBOX', webhook.payload, webhook.headers));
+      }
+    } finally {
+      console.error = originalError;
+    }
+
+    expect(results.map(result => [result.outcome, result.state])).to.deep.equal([['flagged', 'created'], ['flagged', 'created']]);
+    expect(db.rows('payment_webhook_events').map(row => row.outcome)).to.deep.equal(['flagged', 'flagged']);
+    expect(db.rows('payment_state_transitions')).to.have.length(2);
+    expect(subscription().status).to.equal('PENDING');
+  });
+
+  it('activates the subscription when settlement beat the link', async () => {
+    const charged = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    const webhook = sandbox.buildWebhook(charged.transactionId, 'succeeded');
+    await gateway.handleWebhook('SANDBOX', webhook.payload, webhook.headers);
+    expect(subscription().status).to.equal('PENDING');
+
+    await gateway.linkSubscription(charged.paymentId!, SUBSCRIPTION_ID);
+    expect(subscription().status).to.equal('ACTIVE');
+  });
+
+  it('cancels the subscription when the gateway reports the payment failed', async () => {
+    const charged = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    await gateway.linkSubscription(charged.paymentId!, SUBSCRIPTION_ID);
+
+    const webhook = sandbox.buildWebhook(charged.transactionId, 'failed');
+    const result = await gateway.handleWebhook('SANDBOX', webhook.payload, webhook.headers);
+
+    expect(result).to.include({ outcome: 'applied', state: 'failed' });
+    expect(payment().failure_reason).to.equal('Gateway reported failed');
+    expect(subscription().status).to.equal('CANCELLED');
+  });
+
+  it('logs a declined card as failed and throws', async () => {
+    const error = await failure(gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.DECLINE }));
+
+    expect(error?.message).to.equal('Sandbox payment failed: Card declined');
+    expect(payment()).to.include({ state: 'failed', status: 'FAILED', failure_reason: 'Card declined' });
+  });
+
+  it('rejects webhooks with a bad signature without touching the payment', async () => {
+    const charged = await gateway.charge('SANDBOX', { ...request, source: SANDBOX_TOKENS.PENDING });
+    await gateway.linkSubscription(charged.paymentId!, SUBSCRIPTION_ID);
+    const webhook = sandbox.buildWebhook(charged.transactionId, 'succeeded');
+    const forged = Buffer.from(webhook.payload.toString('utf8').replace('"succeeded"', '"refunded"'));
+
+    const error = await failure(gateway.handleWebhook('SANDBOX', forged, webhook.headers));
+
+    expect(error?.message).to.match(/^Invalid signature/);
+    expect(payment().state).to.equal('created');
+    expect(subscription().status).to.equal('PENDING');
+  });
+});
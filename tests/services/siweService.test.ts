@@ -0,0 +1,140 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import { SiweService } from '../../src/services/siweService';
+import { formatSiweMessage, parseSiweMessage } from '../../src/utils/siweMessage';
+import { FakePool, Row } from '../support/fakePool';
+
+const ENV = {
+  SIWE_DOMAIN: 'app.titlebase.test',
+  SIWE_CHAIN_IDS: '8453,84532',
+  // Nothing listens here, so the ERC-1271 fallback fails fast
+  BASE_RPC_URL: 'http://127.0.0.1:9'
+};
+
+describe('SiweService', () => {
+  let db: FakePool;
+  let siwe: SiweService;
+  let previousEnv: Record<string, string | undefined>;
+  const alice = ethers.Wallet.createRandom();
+  const bob = ethers.Wallet.createRandom();
+
+  const nonces = () => db.rows('siwe_nonces');
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  // Re-render an issued message with some fields changed
+  const altered = (message: string, changes: Partial<ReturnType<typeof parseSiweMessage>>) =>
+    formatSiweMessage({ ...parseSiweMessage(message), ...changes });
+
+  before(() => {
+    previousEnv = Object.fromEntries(Object.keys(ENV).map(key => [key, process.env[key]]));
+    Object.assign(process.env, ENV);
+  });
+
+  after(() => {
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  beforeEach(() => {
+    db = new FakePool()
+      .on(/^INSERT INTO siwe_nonces/, ([nonce, address, expiresAt]) => {
+        db.insert('siwe_nonces', { nonce, address, issued_at: new Date(), expires_at: expiresAt, consumed_at: null });
+      })
+      .on(/^SELECT \* FROM siwe_nonces WHERE nonce = \?$/, ([nonce]) => nonces().filter(row => row.nonce === nonce))
+      .on(/^UPDATE siwe_nonces SET consumed_at = NOW\(\)/, ([nonce]) => {
+        const row = nonces().find((candidate: Row) =>
+          candidate.nonce === nonce && !candidate.consumed_at && candidate.expires_at.getTime() > Date.now()
+        );
+        if (row) db.update(row, { consumed_at: new Date() });
+        return { affectedRows: row ? 1 : 0 };
+      });
+    siwe = new SiweService(db.asPool());
+  });
+
+  it('issues a message bound to the domain, chain and address that verifies once', async () => {
+    const challenge = await siwe.issueNonce(alice.address.toLowerCase());
+    const parsed = parseSiweMessage(challenge.message);
+
+    expect(parsed).to.include({
+      domain: 'app.titlebase.test', uri: 'https://app.titlebase.test', address: alice.address, chainId: 8453, nonce: challenge.nonce
+    });
+    expect(nonces()[0].address).to.equal(alice.address.toLowerCase());
+
+    const signature = await alice.signMessage(challenge.message);
+    expect((await siwe.verify(challenge.message, signature)).address).to.equal(alice.address);
+    expect(nonces()[0].consumed_at).to.be.an.instanceOf(Date);
+
+    expect((await failure(siwe.verify(challenge.message, signature)))?.message)
+      .to.equal('Nonce has already been used or has expired');
+  });
+
+  it('refuses nonces for unsupported chains and malformed addresses', async () => {
+    expect((await failure(siwe.issueNonce(alice.address, 1)))?.message).to.equal('Unsupported chain ID: 1');
+    expect((await failure(siwe.issueNonce('0x1234')))?.message).to.equal('Invalid address');
+    expect(nonces()).to.have.length(0);
+  });
+
+  it('rejects messages for another domain or chain before touching the nonce', async () => {
+    const challenge = await siwe.issueNonce(alice.address);
+
+    const phishing = altered(challenge.message, { domain: 'evil.test', uri: 'https://evil.test' });
+    expect((await failure(siwe.verify(phishing, await alice.signMessage(phishing)))))
+      .to.have.property('message', 'Message domain evil.test is not accepted');
+
+    const mismatchedUri = altered(challenge.message, { uri: 'https://evil.test/login' });
+    expect((await failure(siwe.verify(mismatchedUri, await alice.signMessage(mismatchedUri)))))
+      .to.have.property('message', 'Message URI does not match its domain');
+
+    const mainnet = altered(challenge.message, { chainId: 1 });
+    expect((await failure(siwe.verify(mainnet, await alice.signMessage(mainnet)))))
+      .to.have.property('message', 'Unsupported chain ID: 1');
+
+    expect(nonces()[0].consumed_at).to.equal(null);
+  });
+
+  it('rejects expired messages and unknown or expired nonces', async () => {
+    const challenge = await siwe.issueNonce(alice.address);
+
+    const expired = altered(challenge.message, { expirationTime: new Date(Date.now() - 1000).toISOString() });
+    expect((await failure(siwe.verify(expired, await alice.signMessage(expired)))))
+      .to.have.property('message', 'Message has expired');
+
+    const unknown = altered(challenge.message, { nonce: 'f'.repeat(32) });
+    expect((await failure(siwe.verify(unknown, await alice.signMessage(unknown)))))
+      .to.have.property('message', 'Unknown nonce');
+
+    nonces()[0].expires_at = new Date(Date.now() - 1000);
+    expect((await failure(siwe.verify(challenge.message, await alice.signMessage(challenge.message)))))
+      .to.have.property('message', 'Nonce has already been used or has expired');
+  });
+
+  it('does not let another address use or burn a nonce', async () => {
+    const challenge = await siwe.issueNonce(alice.address);
+
+    const hijacked = altered(challenge.message, { address: bob.address });
+    expect((await failure(siwe.verify(hijacked, await bob.signMessage(hijacked)))))
+      .to.have.property('message', 'Nonce was issued for a different address');
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      expect((await failure(siwe.verify(challenge.message, await bob.signMessage(challenge.message)))))
+        .to.have.property('message', 'Invalid signature');
+    } finally {
+      console.error = originalError;
+    }
+
+    expect(nonces()[0].consumed_at).to.equal(null);
+    expect((await siwe.verify(challenge.message, await alice.signMessage(challenge.message))).nonce).to.equal(challenge.nonce);
+  });
+});
@@ -0,0 +1,195 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import { SYSTEM_ACCOUNTS } from '../../src/models/ledgerModel';
+import { WalletService } from '../../src/services/walletService';
+import { FakePool } from '../support/fakePool';
+import { installDisputeTables } from '../support/disputeTables';
+import { accountBalance, installLedgerTables } from '../support/ledgerTables';
+
+const SOURCE = '0x1111111111111111111111111111111111111111';
+const WALLET = '0x2222222222222222222222222222222222222222';
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const ERC20 = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function decimals() view returns (uint8)'
+]);
+
+/**
+ * Chain stand-in answering receipt lookups for the given USDC transfers
+ */
+const fakeChain = (transfers: Record<string, { from: string; to: string; amount: string }>) => ({
+  getTransactionReceipt: async (txHash: string) => {
+    const transfer = transfers[txHash];
+    if (!transfer) return null;
+    const log = ERC20.encodeEventLog('Transfer', [transfer.from, transfer.to, ethers.parseUnits(transfer.amount, 6)]);
+    return { status: 1, logs: [{ address: USDC, ...log }] };
+  },
+  call: async () => ERC20.encodeFunctionResult('decimals', [6])
+});
+
+describe('WalletService', () => {
+  let db: FakePool;
+  let wallets: WalletService;
+
+  const manager = { id: 'admin-1', permissions: ['manage_payments'] };
+  const depositor = { id: 'user-1', permissions: [] };
+  const deposit = () => db.rows('wallet_deposits')[0];
+  const withdrawal = () => db.rows('withdrawal_requests')[0];
+  const waiver = () => db.rows('withdrawal_fee_waivers')[0];
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    db = installDisputeTables(installLedgerTables(new FakePool()))
+      .on(/^SELECT \* FROM wallet_deposits WHERE id = \?$/, ([id]) =>
+        db.rows('wallet_deposits').filter(row => row.id === id).map(row => ({ ...row }))
+      )
+      .on(/^SELECT id FROM wallet_deposits WHERE tx_hash = \? AND id <> \? AND status = 'confirmed'/, ([txHash, id]) =>
+        db.rows('wallet_deposits').filter(row => row.tx_hash === txHash && row.id !== id && row.status === 'confirmed')
+      )
+      .on(/^UPDATE wallet_deposits SET status = 'confirmed', tx_hash = \? WHERE id = \? AND status = 'pending'$/, ([txHash, id]) => {
+        const row = db.rows('wallet_deposits').find(candidate => candidate.id === id && candidate.status === 'pending');
+        if (row) db.update(row, { status: 'confirmed', tx_hash: txHash });
+        return { affectedRows: row ? 1 : 0 };
+      })
+      .on(/^SELECT \* FROM withdrawal_requests WHERE id = \?$/, ([id]) =>
+        db.rows('withdrawal_requests').filter(row => row.id === id).map(row => ({ ...row }))
+      )
+      .on(/^UPDATE withdrawal_requests SET status = 'completed', tx_hash = \?, completed_at = NOW\(\) WHERE id = \? AND status IN \('pending', 'approved'\)$/, ([txHash, id]) => {
+        const row = db.rows('withdrawal_requests').find(candidate => candidate.id === id && ['pending', 'approved'].includes(candidate.status));
+        if (row) db.update(row, { status: 'completed', tx_hash: txHash });
+        return { affectedRows: row ? 1 : 0 };
+      })
+      .on(/^UPDATE withdrawal_requests SET status = 'rejected', rejection_reason = \? WHERE id = \? AND status IN \('pending', 'approved'\)$/, ([reason, id]) => {
+        const row = db.rows('withdrawal_requests').find(candidate => candidate.id === id && ['pending', 'approved'].includes(candidate.status));
+        if (row) db.update(row, { status: 'rejected', rejection_reason: reason });
+        return { affectedRows: row ? 1 : 0 };
+      })
+      .on(/^UPDATE withdrawal_fee_waivers SET used_count = used_count - 1 WHERE id = \? AND used_count > 0$/, ([id]) => {
+        const row = db.rows('withdrawal_fee_waivers').find(candidate => candidate.id === id && candidate.used_count > 0);
+        if (row) db.update(row, { used_count: row.used_count - 1 });
+        return { affectedRows: row ? 1 : 0 };
+      })
+      .on(/^INSERT INTO realtime_events/, () => ({ affectedRows: 1, insertId: db.rows('realtime_events').push({}) }))
+      .on(/^DELETE FROM realtime_events/, () => ({ affectedRows: 0 }));
+
+    db.rows('user_wallets').push({ id: 'wallet-1', user_id: 'user-1', wallet_address: WALLET, balance_usdc: '0.000000' });
+    db.rows('wallet_deposits').push({
+      id: 'deposit-1', user_id: 'user-1', wallet_id: 'wallet-1', asset: 'USDC', amount: '250.000000',
+      source_address: SOURCE, deposit_address: WALLET, status: 'pending', tx_hash: null
+    });
+    db.rows('withdrawal_fee_waivers').push({ id: 'waiver-1', user_id: 'user-1', max_uses: 1, used_count: 1 });
+    db.rows('withdrawal_requests').push({
+      id: 'withdrawal-1', user_id: 'user-1', wallet_id: 'wallet-1', asset: 'USDC', amount: '100.000000', network: 'base',
+      fee_amount: '0.000000', net_amount: '100.000000', fee_waiver_id: 'waiver-1', status: 'pending'
+    });
+    wallets = new WalletService(db.asPool(), 'http://127.0.0.1:9');
+  });
+
+  describe('confirmDeposit', () => {
+    it('credits the wallet from the float and records the transaction', async () => {
+      await wallets.confirmDeposit('deposit-1', '0xhash', manager);
+
+      expect(deposit()).to.include({ status: 'confirmed', tx_hash: '0xhash' });
+      expect(accountBalance(db, 'wallet:wallet-1')).to.equal(250);
+      expect(accountBalance(db, SYSTEM_ACCOUNTS.FLOAT)).to.equal(250);
+      expect(db.rows('wallet_transactions')[0]).to.include({ transaction_type: 'deposit', tx_hash: '0xhash', status: 'completed' });
+    });
+
+    it('lets the depositor confirm only a transfer that paid the deposit on-chain', async () => {
+      Object.assign(wallets, {
+        provider: fakeChain({
+          '0xshort': { from: SOURCE, to: WALLET, amount: '249.99' },
+          '0xelsewhere': { from: SOURCE, to: SOURCE, amount: '250' },
+          '0xpaid': { from: SOURCE, to: WALLET, amount: '250' }
+        })
+      });
+
+      expect((await failure(wallets.confirmDeposit('deposit-1', '0xmissing', depositor)))?.message)
+        .to.equal('Invalid transaction: not found or not successful on-chain');
+      for (const txHash of ['0xshort', '0xelsewhere']) {
+        expect((await failure(wallets.confirmDeposit('deposit-1', txHash, depositor)))?.message)
+          .to.equal('Invalid transaction: it does not pay this deposit');
+      }
+      expect(deposit().status).to.equal('pending');
+
+      await wallets.confirmDeposit('deposit-1', '0xpaid', depositor);
+      expect(accountBalance(db, 'wallet:wallet-1')).to.equal(250);
+    });
+
+    it('refuses other users and transactions already credited to another deposit', async () => {
+      expect((await failure(wallets.confirmDeposit('deposit-1', '0xhash', { id: 'user-2', permissions: [] })))?.message)
+        .to.equal('Not authorised to confirm this deposit');
+
+      db.rows('wallet_deposits').push({ ...deposit(), id: 'deposit-0', status: 'confirmed', tx_hash: '0xhash' });
+      expect((await failure(wallets.confirmDeposit('deposit-1', '0xhash', manager)))?.message)
+        .to.equal('Invalid transaction: already credited to another deposit');
+      expect(accountBalance(db, 'wallet:wallet-1')).to.equal(0);
+    });
+
+    it('credits a deposit once when confirmations race', async () => {
+      const results = await Promise.allSettled([
+        wallets.confirmDeposit('deposit-1', '0xhash', manager),
+        wallets.confirmDeposit('deposit-1', '0xhash', manager)
+      ]);
+
+      expect(results.map(result => result.status).sort()).to.deep.equal(['fulfilled', 'rejected']);
+      expect(accountBalance(db, 'wallet:wallet-1')).to.equal(250);
+      expect(db.rows('wallet_transactions')).to.have.length(1);
+      expect((await failure(wallets.confirmDeposit('deposit-1', '0xhash', manager)))?.message).to.equal('Deposit already confirmed');
+    });
+  });
+
+  describe('approveWithdrawal', () => {
+    beforeEach(async () => {
+      await wallets.confirmDeposit('deposit-1', '0xdeposit', manager);
+    });
+
+    it('pays a withdrawal out once when approvals race', async () => {
+      const results = await Promise.allSettled([
+        wallets.approveWithdrawal('withdrawal-1', '0xpayout'),
+        wallets.approveWithdrawal('withdrawal-1', '0xpayout')
+      ]);
+
+      expect(results.map(result => result.status).sort()).to.deep.equal(['fulfilled', 'rejected']);
+      expect(withdrawal()).to.include({ status: 'completed', tx_hash: '0xpayout' });
+      expect(accountBalance(db, 'wallet:wallet-1')).to.equal(150);
+      expect(db.rows('wallet_transactions').filter(row => row.transaction_type === 'withdraw')).to.have.length(1);
+    });
+
+    it('refuses a withdrawal that was rejected after its waiver was released', async () => {
+      await wallets.rejectWithdrawal('withdrawal-1', 'Address failed screening');
+
+      expect((await failure(wallets.approveWithdrawal('withdrawal-1', '0xpayout')))?.message).to.equal('Withdrawal already rejected');
+
+      withdrawal().status = 'pending';
+      const raced = wallets.approveWithdrawal('withdrawal-1', '0xpayout');
+      withdrawal().status = 'rejected';
+      expect((await failure(raced))?.message).to.equal('Withdrawal already processed');
+
+      expect(withdrawal().status).to.equal('rejected');
+      expect(waiver().used_count).to.equal(0);
+      expect(accountBalance(db, 'wallet:wallet-1')).to.equal(250);
+    });
+  });
+
+  describe('rejectWithdrawal', () => {
+    it('gives the fee waiver its use back once', async () => {
+      await wallets.rejectWithdrawal('withdrawal-1', 'Address failed screening');
+
+      expect(withdrawal()).to.include({ status: 'rejected', rejection_reason: 'Address failed screening' });
+      expect(waiver().used_count).to.equal(0);
+
+      waiver().used_count = 1;
+      expect((await failure(wallets.rejectWithdrawal('withdrawal-1', 'Again')))?.message).to.equal('Withdrawal already rejected');
+      expect(waiver().used_count).to.equal(1);
+    });
+  });
+});
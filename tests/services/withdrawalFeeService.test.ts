@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import { WithdrawalFeeService } from '../../src/services/withdrawalFeeService';
+import { FakePool, Row } from '../support/fakePool';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('WithdrawalFeeService', () => {
+  let db: FakePool;
+  let fees: WithdrawalFeeService;
+
+  const waiver = (values: Row): Row => ({
+    id: values.id,
+    description: 'promo',
+    promo_code: null,
+    user_id: null,
+    network: null,
+    discount_percentage: '100.00',
+    starts_at: new Date(Date.now() - DAY),
+    ends_at: null,
+    max_uses: null,
+    used_count: 0,
+    is_active: true,
+    created_at: new Date(),
+    ...values
+  });
+
+  const quoteAndLock = async (userId: string, amount: number, network: string, promoCode: string | null = null) => {
+    const connection = await db.asPool().getConnection();
+    await connection.beginTransaction();
+    const quote = await fees.quote(userId, amount, 'USDC', network, promoCode, connection);
+    await connection.commit();
+    return quote;
+  };
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    const waivers = () => db.rows('withdrawal_fee_waivers');
+    db = new FakePool()
+      .on(/^SELECT \* FROM withdrawal_fee_schedules WHERE asset = \? AND is_active = TRUE ORDER BY network$/, ([asset]) =>
+        db.rows('withdrawal_fee_schedules').filter(row => row.asset === asset && row.is_active)
+      )
+      .on(/^INSERT INTO withdrawal_fee_schedules/, ([id, network, asset, feePercentage, minFee, maxFee, minAmount, updatedBy]) => {
+        const values = { fee_percentage: feePercentage, min_fee: minFee, max_fee: maxFee, min_amount: minAmount, is_active: true, updated_by: updatedBy };
+        const existing = db.rows('withdrawal_fee_schedules').find(row => row.network === network && row.asset === asset);
+        if (existing) db.update(existing, values);
+        else db.insert('withdrawal_fee_schedules', { id, network, asset, ...values });
+      })
+      .on(/^SELECT \* FROM withdrawal_fee_waivers WHERE is_active = TRUE AND starts_at <= NOW\(\)/, ([userId, network, promoCode]) => {
+        const now = Date.now();
+        return waivers()
+          .filter(row =>
+            row.is_active &&
+            row.starts_at.getTime() <= now &&
+            (row.ends_at === null || row.ends_at.getTime() > now) &&
+            (row.max_uses === null || row.used_count < row.max_uses) &&
+            (row.user_id === null || row.user_id === userId) &&
+            (row.network === null || row.network === network) &&
+            (row.promo_code === null || row.promo_code === promoCode)
+          )
+          .sort((a, b) => Number(b.discount_percentage) - Number(a.discount_percentage));
+      })
+      .on(/^UPDATE withdrawal_fee_waivers SET used_count = used_count \+ 1/, ([id]) => {
+        const row = waivers().find(candidate => candidate.id === id && (candidate.max_uses === null || candidate.used_count < candidate.max_uses));
+        if (row) db.update(row, { used_count: row.used_count + 1 });
+        return { affectedRows: row ? 1 : 0 };
+      });
+    fees = new WithdrawalFeeService(db.asPool());
+  });
+
+  describe('getSchedule', () => {
+    it('layers stored rows over the built-in defaults', async () => {
+      await fees.updateSchedule('default', { maxFee: 50 }, 'admin-1');
+      await fees.updateSchedule('Polygon', { feePercentage: 0.002 }, 'admin-1');
+
+      const schedule = await fees.getSchedule();
+
+      expect(schedule.default).to.deep.equal({ network: 'default', asset: 'USDC', feePercentage: 0.01, minFee: 1, maxFee: 50, minAmount: 10 });
+      expect(schedule.networks.polygon).to.deep.equal({ network: 'polygon', asset: 'USDC', feePercentage: 0.002, minFee: 1, maxFee: 50, minAmount: 5 });
+      expect(schedule.networks.ethereum.maxFee).to.equal(50);
+    });
+
+    it('keeps a separate schedule per asset', async () => {
+      await fees.updateSchedule('base', { minFee: 0.001 }, 'admin-1', 'ETH');
+
+      const eth = await fees.getSchedule('ETH');
+
+      expect(Object.keys(eth.networks)).to.deep.equal(['ethereum', 'base']);
+      expect(eth.networks.base).to.include({ asset: 'ETH', feePercentage: 0.0025, minFee: 0.001, maxFee: 0.05 });
+      expect((await fees.getSchedule()).networks.base.minFee).to.equal(1);
+    });
+
+    it('validates the values it stores', async () => {
+      expect((await failure(fees.updateSchedule('base', { feePercentage: 1 }, 'admin-1')))?.message)
+        .to.equal('feePercentage must be a fraction between 0 and 1');
+      expect((await failure(fees.updateSchedule('base', { minFee: 5, maxFee: 2 }, 'admin-1')))?.message)
+        .to.equal('minFee cannot exceed maxFee');
+    });
+  });
+
+  describe('quote', () => {
+    it('charges the network percentage clamped to the minimum and maximum fee', async () => {
+      expect(await fees.quote('user-1', 1000, 'USDC', 'base')).to.include({ feeAmount: 5, netAmount: 995, feeBeforeWaiver: 5 });
+      expect(await fees.quote('user-1', 50, 'USDC', 'base')).to.include({ feeAmount: 1, netAmount: 49 });
+      expect(await fees.quote('user-1', 20000, 'USDC', 'ethereum')).to.include({ feeAmount: 100, netAmount: 19900 });
+    });
+
+    it('refuses amounts under the network minimum and unknown networks', async () => {
+      expect((await failure(fees.quote('user-1', 4.99, 'USDC', 'base')))?.message).to.equal('Minimum USDC withdrawal on base is 5');
+      expect((await failure(fees.quote('user-1', 100, 'USDC', 'solana')))?.message).to.equal('Unsupported withdrawal network for USDC: solana');
+      expect((await failure(fees.quote('user-1', 1, 'ETH', 'polygon')))?.message).to.equal('Unsupported withdrawal network for ETH: polygon');
+    });
+
+    it('prices fees in the asset being withdrawn', async () => {
+      expect(await fees.quote('user-1', 1, 'ETH', 'ethereum')).to.include({ asset: 'ETH', feeAmount: 0.005, netAmount: 0.995 });
+      expect(await fees.quote('user-1', 0.01, 'ETH', 'base')).to.include({ feeAmount: 0.0005, netAmount: 0.0095 });
+      expect(await fees.quote('user-1', 100, 'dNZD', 'polygon')).to.include({ asset: 'dNZD', feeAmount: 1.5 });
+    });
+
+    it('applies the best matching waiver and only consumes it when locking a quote', async () => {
+      db.rows('withdrawal_fee_waivers').push(
+        waiver({ id: 'half-off', discount_percentage: '50.00' }),
+        waiver({ id: 'promo', promo_code: 'FREE', discount_percentage: '100.00' }),
+        waiver({ id: 'other-user', user_id: 'user-2', discount_percentage: '100.00' })
+      );
+
+      expect(await fees.quote('user-1', 1000, 'USDC', 'base')).to.include({ waiverId: 'half-off', feeAmount: 2.5 });
+      expect(await quoteAndLock('user-1', 1000, 'base', 'FREE')).to.include({ waiverId: 'promo', feeAmount: 0, netAmount: 1000 });
+      expect(db.rows('withdrawal_fee_waivers').map(row => row.used_count)).to.deep.equal([0, 1, 0]);
+    });
+
+    it('moves on to the next waiver once one is used up', async () => {
+      db.rows('withdrawal_fee_waivers').push(
+        waiver({ id: 'once', max_uses: 1 }),
+        waiver({ id: 'fallback', discount_percentage: '20.00' })
+      );
+
+      expect(await quoteAndLock('user-1', 1000, 'base')).to.include({ waiverId: 'once', feeAmount: 0 });
+      expect(await quoteAndLock('user-1', 1000, 'base')).to.include({ waiverId: 'fallback', feeAmount: 4 });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { WithdrawalLimitService } from '../../src/services/withdrawalLimitService';
+import { FakePool, Row } from '../support/fakePool';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('WithdrawalLimitService', () => {
+  let db: FakePool;
+  let limits: WithdrawalLimitService;
+
+  const withdrawal = (amount: number, status: string, hoursAgo: number, asset = 'USDC'): Row => ({
+    user_id: 'user-1',
+    asset,
+    amount: amount.toFixed(6),
+    status,
+    created_at: new Date(Date.now() - hoursAgo * HOUR)
+  });
+
+  const failure = async (work: Promise<unknown>): Promise<Error | undefined> => {
+    try {
+      await work;
+    } catch (error) {
+      return error as Error;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    db = new FakePool()
+      .on(/^SELECT \* FROM withdrawal_limit_policies WHERE kyc_tier = \? AND currency = \?$/, ([tier, currency]) =>
+        db.rows('withdrawal_limit_policies').filter(row => row.kyc_tier === tier && row.currency === currency)
+      )
+      .on(/^INSERT INTO withdrawal_limit_policies/, ([tier, currency, perTransaction, daily, monthly, updatedBy]) => {
+        const existing = db.rows('withdrawal_limit_policies').find(row => row.kyc_tier === tier && row.currency === currency);
+        const values = {
+          per_transaction_limit: perTransaction, daily_limit: daily, monthly_limit: monthly, updated_by: updatedBy
+        };
+        if (existing) db.update(existing, values);
+        else db.insert('withdrawal_limit_policies', { kyc_tier: tier, currency, ...values });
+      })
+      .on(/^SELECT COALESCE\(SUM\(amount\), 0\) AS used FROM withdrawal_requests/, ([userId, asset, statuses, hours]) => {
+        const since = Date.now() - hours * HOUR;
+        const used = db.rows('withdrawal_requests')
+          .filter(row => row.user_id === userId && row.asset === asset && statuses.includes(row.status) && row.created_at.getTime() >= since)
+          .reduce((total, row) => total + Number(row.amount), 0);
+        return [{ used: used.toFixed(6) }];
+      });
+    limits = new WithdrawalLimitService(db.asPool());
+  });
+
+  it('puts wallets without verified KYC on the unverified tier', () => {
+    expect(limits.resolveTier('verified')).to.equal('verified');
+    expect(limits.resolveTier('pending')).to.equal('unverified');
+    expect(limits.resolveTier(null)).to.equal('unverified');
+  });
+
+  it('counts open and completed withdrawals in each rolling window', async () => {
+    db.rows('withdrawal_requests').push(
+      withdrawal(300, 'pending', 1),
+      withdrawal(200, 'completed', 23),
+      withdrawal(1000, 'completed', 48),
+      withdrawal(700, 'rejected', 2),
+      withdrawal(900, 'completed', 24 * 31),
+      withdrawal(0.4, 'completed', 1, 'ETH')
+    );
+
+    const status = await limits.getLimitStatus('user-1', 'unverified');
+
+    expect(status).to.include({ used24h: 500, used30d: 1500, remaining24h: 500, remaining30d: 3500, maxWithdrawable: 500 });
+  });
+
+  it('rejects amounts over the per-transaction, daily or monthly limit', async () => {
+    await limits.updatePolicy('unverified', { perTransaction: 400, daily: 600, monthly: 1000 }, 'admin-1');
+
+    expect((await failure(limits.assertWithinLimits('user-1', 'unverified', 400.000001)))?.message)
+      .to.equal('Amount exceeds the per-transaction withdrawal limit of 400 USDC');
+
+    db.rows('withdrawal_requests').push(withdrawal(300, 'approved', 2));
+    expect((await failure(limits.assertWithinLimits('user-1', 'unverified', 301)))?.message)
+      .to.equal('Amount exceeds the remaining daily withdrawal limit of 300 USDC');
+
+    db.rows('withdrawal_requests').push(withdrawal(600, 'completed', 72));
+    expect((await failure(limits.assertWithinLimits('user-1', 'unverified', 101)))?.message)
+      .to.equal('Amount exceeds the remaining monthly withdrawal limit of 100 USDC');
+
+    expect(await limits.assertWithinLimits('user-1', 'unverified', 100)).to.include({ remaining30d: 100 });
+  });
+
+  it('applies each asset its own policy and usage', async () => {
+    db.rows('withdrawal_requests').push(withdrawal(0.3, 'pending', 1, 'ETH'), withdrawal(400, 'completed', 1));
+
+    expect(await limits.getLimitStatus('user-1', 'unverified', 'ETH')).to.include({
+      currency: 'ETH', perTransaction: 0.5, used24h: 0.3, remaining24h: 0.2, remaining30d: 2.2
+    });
+    expect((await failure(limits.assertWithinLimits('user-1', 'unverified', 0.25, 'ETH')))?.message)
+      .to.equal('Amount exceeds the remaining daily withdrawal limit of 0.2 ETH');
+
+    await limits.updatePolicy('unverified', { perTransaction: 1, daily: 1, monthly: 5 }, 'admin-1', 'ETH');
+    expect(await limits.assertWithinLimits('user-1', 'unverified', 0.7, 'ETH')).to.include({ remaining24h: 0.7 });
+    expect((await limits.getPolicy('unverified')).daily).to.equal(1000);
+  });
+
+  it('only stores policies that are positive and ordered', async () => {
+    expect((await failure(limits.updatePolicy('verified', { perTransaction: 0, daily: 10, monthly: 10 }, 'admin-1')))?.message)
+      .to.equal('Limits must be positive numbers');
+    expect((await failure(limits.updatePolicy('verified', { perTransaction: 20, daily: 10, monthly: 30 }, 'admin-1')))?.message)
+      .to.equal('Limits must satisfy perTransaction <= daily <= monthly');
+    expect((await failure(limits.updatePolicy('gold' as any, { perTransaction: 1, daily: 1, monthly: 1 }, 'admin-1')))?.message)
+      .to.equal('Unknown KYC tier: gold');
+    expect(db.rows('withdrawal_limit_policies')).to.have.length(0);
+  });
+});
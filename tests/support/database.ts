@@ -0,0 +1,20 @@
+import mysql from 'mysql2/promise';
+import { connectDB } from '../../src/utils/database';
+import { FakePool } from './fakePool';
+
+/**
+ * Point the shared pool behind utils/database's query() at a fake, for code
+ * that does not take a pool of its own
+ */
+export async function connectFakeDatabase(db: FakePool): Promise<void> {
+  const createPool = mysql.createPool;
+  const log = console.log;
+  (mysql as any).createPool = () => db.asPool();
+  console.log = () => {};
+  try {
+    await connectDB();
+  } finally {
+    (mysql as any).createPool = createPool;
+    console.log = log;
+  }
+}
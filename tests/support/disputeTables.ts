@@ -0,0 +1,89 @@
+import { OPEN_DISPUTE_STATUSES } from '../../src/models/disputeModel';
+import { FakePool, Row } from './fakePool';
+
+/**
+ * In-memory payment_disputes answering the statements DisputeModel issues,
+ * including the held-balance and credit queries over posted wallet_transactions
+ */
+export function installDisputeTables(db: FakePool): FakePool {
+  const disputes = () => db.rows('payment_disputes');
+  const dispute = (id: string) => disputes().find(row => row.id === id);
+  const isOpen = (row: Row) => (OPEN_DISPUTE_STATUSES as string[]).includes(row.status);
+
+  return db
+    .on(/^INSERT INTO payment_disputes/, ([
+      id, paymentId, subscriptionId, gateway, gatewayDisputeId, amount, currency, reason, status, evidenceDueBy, openedBy
+    ]) => {
+      db.insert('payment_disputes', {
+        id, payment_id: paymentId, subscription_id: subscriptionId, gateway, gateway_dispute_id: gatewayDisputeId,
+        amount: Number(amount).toFixed(2), currency, reason, status, evidence: null, evidence_due_by: evidenceDueBy,
+        evidence_submitted_at: null, evidence_submitted_by: null, submitted_to_gateway: 0, subscription_frozen: 0,
+        opened_by: openedBy, resolved_by: null, resolution_note: null, closed_at: null, created_at: new Date(disputes().length)
+      });
+    })
+    .on(/^SELECT \* FROM payment_disputes WHERE id = \?/, ([id]) =>
+      [dispute(id)].filter(Boolean).map(row => ({ ...row, evidence: row!.evidence ? JSON.parse(row!.evidence) : null }))
+    )
+    .on(/^SELECT \* FROM payment_disputes WHERE gateway = \? AND gateway_dispute_id = \?/, ([gateway, gatewayDisputeId]) =>
+      disputes().filter(row => row.gateway === gateway && row.gateway_dispute_id === gatewayDisputeId).map(row => ({ ...row }))
+    )
+    .on(/^SELECT id FROM payment_disputes WHERE subscription_id = \? AND status IN/, ([subscriptionId, excludeId]) =>
+      disputes().filter(row => row.subscription_id === subscriptionId && isOpen(row) && row.id !== excludeId)
+    )
+    .on(/^SELECT COALESCE\(SUM\(wt\.amount\), 0\) AS held FROM wallet_transactions wt/, ([userId, asset]) => [{
+      held: db.rows('wallet_transactions')
+        .filter(row =>
+          row.user_id === userId && row.asset === asset && row.status === 'completed' &&
+          ['roi_disbursement', 'refund'].includes(row.transaction_type) &&
+          disputes().some(candidate => isOpen(candidate) && candidate.subscription_id === JSON.parse(row.metadata || '{}').subscriptionId)
+        )
+        .reduce((total, row) => total + Number(row.amount), 0)
+    }])
+    .on(/^SELECT wt\.user_id, wt\.wallet_id, wt\.asset, SUM\(wt\.amount\) AS credited/, ([subscriptionId]) => {
+      const credits = new Map<string, Row>();
+      for (const row of db.rows('wallet_transactions')) {
+        const paidOnSubscription = row.status === 'completed' && ['roi_disbursement', 'refund'].includes(row.transaction_type) &&
+          JSON.parse(row.metadata || '{}').subscriptionId === subscriptionId;
+        if (!paidOnSubscription) continue;
+        const key = `${row.user_id}:${row.wallet_id}:${row.asset}`;
+        const credit = credits.get(key) || { user_id: row.user_id, wallet_id: row.wallet_id, asset: row.asset, credited: 0 };
+        credit.credited += Number(row.amount);
+        credit.balance = db.rows('wallet_balances').find(balance => balance.wallet_id === row.wallet_id && balance.asset === row.asset)?.balance ?? 0;
+        credits.set(key, credit);
+      }
+      return [...credits.values()];
+    })
+    .on(/^UPDATE payment_disputes SET status = \?, amount = COALESCE/, ([status, amount, evidenceDueBy, id]) => {
+      const row = dispute(id);
+      if (row) db.update(row, { status, amount: amount ?? row.amount, evidence_due_by: evidenceDueBy ?? row.evidence_due_by });
+    })
+    .on(/^UPDATE payment_disputes SET subscription_frozen = \? WHERE id = \?$/, ([frozen, id]) => {
+      const row = dispute(id);
+      if (row) db.update(row, { subscription_frozen: frozen });
+    })
+    .on(/^UPDATE payment_disputes SET subscription_frozen = 1 WHERE subscription_id = \?/, ([subscriptionId, fromId]) => {
+      const row = disputes().find(candidate => candidate.subscription_id === subscriptionId && candidate.id !== fromId && isOpen(candidate));
+      if (row) db.update(row, { subscription_frozen: 1 });
+      return { affectedRows: row ? 1 : 0 };
+    })
+    .on(/^UPDATE payment_disputes SET status = \?, subscription_frozen = 0/, ([outcome, resolvedBy, note, id]) => {
+      const row = dispute(id);
+      if (!row || !isOpen(row)) return { affectedRows: 0 };
+      db.update(row, { status: outcome, subscription_frozen: 0, resolved_by: resolvedBy, resolution_note: note, closed_at: new Date() });
+      return { affectedRows: 1 };
+    })
+    .on(/^UPDATE payment_disputes SET evidence = \?/, ([evidence, id]) => {
+      const row = dispute(id);
+      if (!row || row.status !== 'needs_response' || row.evidence_submitted_at) return { affectedRows: 0 };
+      db.update(row, { evidence });
+      return { affectedRows: 1 };
+    })
+    .on(/^UPDATE payment_disputes SET status = 'under_review'/, ([submittedBy, submittedToGateway, id]) => {
+      const row = dispute(id);
+      if (!row || row.status !== 'needs_response' || row.evidence_submitted_at) return { affectedRows: 0 };
+      db.update(row, {
+        status: 'under_review', evidence_submitted_at: new Date(), evidence_submitted_by: submittedBy, submitted_to_gateway: submittedToGateway
+      });
+      return { affectedRows: 1 };
+    });
+}
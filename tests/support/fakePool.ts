@@ -0,0 +1,121 @@
+import { Pool } from 'mysql2/promise';
+
+export type Row = Record<string, any>;
+export type QueryResult = Row[] | { affectedRows: number; insertId?: number } | void;
+type Handler = (params: any[], sql: string) => QueryResult;
+
+class FakeConnection {
+  private undo: Array<() => void> | null = null;
+
+  constructor(private db: FakePool) {}
+
+  query = async (sql: string, params: any[] = []) => this.db.run(this, sql, params);
+
+  execute = async (sql: string, params: any[] = []) => this.db.run(this, sql, params);
+
+  async beginTransaction(): Promise<void> {
+    this.undo = [];
+  }
+
+  async commit(): Promise<void> {
+    this.undo = null;
+    this.db.commits++;
+  }
+
+  async rollback(): Promise<void> {
+    for (const step of (this.undo || []).reverse()) step();
+    this.undo = null;
+    this.db.rollbacks++;
+  }
+
+  release(): void {}
+
+  record(step: () => void): void {
+    this.undo?.push(step);
+  }
+}
+
+/**
+ * Stand-in for a mysql2 pool in unit tests. Tables are plain arrays of rows
+ * and each statement the code under test issues is answered by a handler
+ * registered against a pattern of its whitespace-collapsed SQL; anything no
+ * handler matches fails the test, so queries a change adds get noticed.
+ *
+ * Rows changed through insert, update and remove are restored when the
+ * connection that changed them rolls back, which is enough to observe
+ * transactional behaviour. Row locks are not modelled.
+ */
+export class FakePool {
+  commits = 0;
+  rollbacks = 0;
+  readonly statements: string[] = [];
+  private tables = new Map<string, Row[]>();
+  private handlers: Array<{ pattern: RegExp; handle: Handler }> = [];
+  private current: FakeConnection | null = null;
+  private direct = new FakeConnection(this);
+
+  on(pattern: RegExp, handle: Handler): this {
+    this.handlers.push({ pattern, handle });
+    return this;
+  }
+
+  rows(table: string): Row[] {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  insert(table: string, row: Row): Row {
+    const rows = this.rows(table);
+    rows.push(row);
+    this.current?.record(() => rows.splice(rows.indexOf(row), 1));
+    return row;
+  }
+
+  update(row: Row, changes: Row): void {
+    const previous = Object.fromEntries(Object.keys(changes).map(key => [key, row[key]]));
+    Object.assign(row, changes);
+    this.current?.record(() => Object.assign(row, previous));
+  }
+
+  remove(table: string, row: Row): void {
+    const rows = this.rows(table);
+    const index = rows.indexOf(row);
+    if (index === -1) return;
+    rows.splice(index, 1);
+    this.current?.record(() => rows.splice(index, 0, row));
+  }
+
+  asPool(): Pool {
+    return {
+      query: this.direct.query,
+      execute: this.direct.execute,
+      getConnection: async () => new FakeConnection(this)
+    } as unknown as Pool;
+  }
+
+  async run(connection: FakeConnection, sql: string, params: any[]): Promise<[any, any[]]> {
+    const statement = sql.replace(/\s+/g, ' ').trim();
+    this.statements.push(statement);
+
+    const handler = this.handlers.find(candidate => candidate.pattern.test(statement));
+    if (!handler) {
+      throw new Error(`Unexpected query: ${statement}`);
+    }
+
+    this.current = connection;
+    try {
+      const result = handler.handle(params, statement);
+      return [result === undefined ? { affectedRows: 0 } : result, []];
+    } finally {
+      this.current = null;
+    }
+  }
+}
+
+export function duplicateEntry(): Error {
+  return Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY', errno: 1062 });
+}
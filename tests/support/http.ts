@@ -0,0 +1,23 @@
+import { Express } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve an app on an ephemeral port for the length of a test
+ */
+export async function listen(app: Express): Promise<TestServer> {
+  const server: Server = await new Promise(resolve => {
+    const started = app.listen(0, () => resolve(started));
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
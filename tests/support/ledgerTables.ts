@@ -0,0 +1,109 @@
+import { FakePool, Row } from './fakePool';
+
+/**
+ * In-memory user_wallets, wallet_balances, posted wallet_transactions and
+ * ledger tables, answering the statements LedgerModel and LedgerService
+ * issue and the wallet lookups that go with them
+ */
+export function installLedgerTables(db: FakePool): FakePool {
+  const account = (code: string) => db.rows('ledger_accounts').find(row => row.account_code === code);
+  const wallet = (id: string) => db.rows('user_wallets').find(row => row.id === id);
+  const balance = (walletId: string, asset: string) =>
+    db.rows('wallet_balances').find(row => row.wallet_id === walletId && row.asset === asset);
+
+  const totals = (row: Row) => {
+    const postings = db.rows('ledger_postings').filter(posting => posting.account_id === row.id);
+    const sum = (direction: string) => postings
+      .filter(posting => posting.direction === direction)
+      .reduce((total, posting) => total + Number(posting.amount), 0)
+      .toFixed(6);
+    return { ...row, debits: sum('debit'), credits: sum('credit') };
+  };
+
+  return db
+    .on(/^SELECT \* FROM user_wallets WHERE user_id = \?$/, ([userId]) =>
+      db.rows('user_wallets').filter(row => row.user_id === userId)
+    )
+    .on(/^SELECT \* FROM user_wallets WHERE id = \?$/, ([id]) => [wallet(id)].filter(Boolean) as Row[])
+    .on(/^SELECT id, user_id FROM user_wallets WHERE id = \? FOR UPDATE$/, ([id]) => [wallet(id)].filter(Boolean) as Row[])
+    .on(/^SELECT balance FROM wallet_balances WHERE wallet_id = \? AND asset = \?/, ([walletId, asset]) =>
+      [balance(walletId, asset)].filter(Boolean) as Row[]
+    )
+    .on(/^INSERT INTO wallet_balances \(wallet_id, asset, balance\)/, ([walletId, asset, amount]) => {
+      const existing = balance(walletId, asset);
+      if (existing) db.update(existing, { balance: amount });
+      else db.insert('wallet_balances', { wallet_id: walletId, asset, balance: amount });
+    })
+    .on(/^UPDATE user_wallets SET balance_usdc = \? WHERE id = \?$/, ([amount, id]) => {
+      const row = wallet(id);
+      if (row) db.update(row, { balance_usdc: amount });
+      return { affectedRows: row ? 1 : 0 };
+    })
+    .on(/^SELECT w\.id, b\.balance FROM user_wallets w LEFT JOIN wallet_balances b/, ([asset, id]) =>
+      [wallet(id)].filter(Boolean).map(row => ({ id: row!.id, balance: balance(row!.id, asset)?.balance ?? null }))
+    )
+    .on(/^SELECT w\.id, w\.balance_usdc FROM user_wallets w LEFT JOIN ledger_accounts a/, () =>
+      db.rows('user_wallets').filter(row =>
+        Number(row.balance_usdc) > 0 && !db.rows('ledger_accounts').some(candidate => candidate.wallet_id === row.id)
+      )
+    )
+    .on(/^SELECT \* FROM ledger_accounts WHERE account_code = \?$/, ([code]) => [account(code)].filter(Boolean) as Row[])
+    .on(/^INSERT INTO ledger_accounts .* VALUES \(\?, \?, 'user_wallet', \?, \?, \?, 'credit'\)/, ([id, code, walletId, name, asset]) => {
+      if (!account(code)) {
+        db.insert('ledger_accounts', {
+          id, account_code: code, account_type: 'user_wallet', wallet_id: walletId, name, currency: asset, normal_balance: 'credit'
+        });
+      }
+    })
+    .on(/^INSERT INTO ledger_accounts .* VALUES \(\?, \?, 'system', NULL, \?, \?, \?\)/, ([id, code, name, asset, normalBalance]) => {
+      if (!account(code)) {
+        db.insert('ledger_accounts', {
+          id, account_code: code, account_type: 'system', wallet_id: null, name, currency: asset, normal_balance: normalBalance
+        });
+      }
+    })
+    .on(/^INSERT INTO ledger_journal_entries/, ([id, entryType, referenceType, referenceId, description, metadata]) => {
+      db.insert('ledger_journal_entries', {
+        id, entry_type: entryType, reference_type: referenceType, reference_id: referenceId, description, metadata
+      });
+    })
+    .on(/^INSERT INTO wallet_transactions .* VALUES \(\?, \?, \?, \?, \?, \?, \?, \?, \?, \?, 'completed'/, ([
+      id, userId, walletId, type, asset, amount, before, after, from, to, description, metadata, journalEntryId
+    ]) => {
+      db.insert('wallet_transactions', {
+        id, user_id: userId, wallet_id: walletId, transaction_type: type, asset, amount, balance_before: before,
+        balance_after: after, from_address: from, to_address: to, status: 'completed', description, metadata,
+        journal_entry_id: journalEntryId
+      });
+    })
+    .on(/^INSERT INTO wallet_transactions .* tx_hash, status, .* VALUES \(\?, \?, \?, \?, \?, \?, \?, \?, \?, \?, \?, 'completed'/, ([
+      id, userId, walletId, type, asset, amount, before, after, from, to, txHash, description, metadata, journalEntryId
+    ]) => {
+      db.insert('wallet_transactions', {
+        id, user_id: userId, wallet_id: walletId, transaction_type: type, asset, amount, balance_before: before,
+        balance_after: after, from_address: from, to_address: to, tx_hash: txHash, status: 'completed', description,
+        metadata, journal_entry_id: journalEntryId
+      });
+    })
+    .on(/^INSERT INTO ledger_postings/, ([id, entryId, accountId, direction, amount, asset]) => {
+      db.insert('ledger_postings', { id, journal_entry_id: entryId, account_id: accountId, direction, amount, currency: asset });
+    })
+    .on(/^SELECT a\.normal_balance, .* WHERE a\.id = \?/, ([id]) =>
+      db.rows('ledger_accounts').filter(row => row.id === id).map(totals)
+    )
+    .on(/^SELECT a\.id, a\.account_code, a\.account_type, a\.currency, a\.normal_balance, .* GROUP BY/, () =>
+      db.rows('ledger_accounts').map(totals)
+    );
+}
+
+/**
+ * Postings of one account, signed by its normal balance
+ */
+export function accountBalance(db: FakePool, code: string): number {
+  const row = db.rows('ledger_accounts').find(candidate => candidate.account_code === code);
+  if (!row) return 0;
+  const signed = db.rows('ledger_postings')
+    .filter(posting => posting.account_id === row.id)
+    .reduce((total, posting) => total + (posting.direction === row.normal_balance ? 1 : -1) * Number(posting.amount), 0);
+  return Math.round(signed * 1_000_000) / 1_000_000;
+}
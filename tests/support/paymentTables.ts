@@ -0,0 +1,69 @@
+import { FakePool, duplicateEntry } from './fakePool';
+
+/**
+ * In-memory payment_transactions, payment_state_transitions and
+ * payment_webhook_events, answering the statements PaymentModel issues
+ */
+export function installPaymentTables(db: FakePool): FakePool {
+  const payments = () => db.rows('payment_transactions');
+  const payment = (id: string) => payments().find(row => row.id === id);
+
+  return db
+    .on(/^INSERT INTO payment_transactions/, ([
+      id, propertyId, subscriberUserId, subscriptionId, amount, currency, gateway, gatewayTransactionId, status, state, failureReason
+    ]) => {
+      db.insert('payment_transactions', {
+        id,
+        property_id: propertyId,
+        subscriber_user_id: subscriberUserId,
+        subscription_id: subscriptionId,
+        amount: Number(amount).toFixed(2),
+        currency,
+        gateway,
+        gateway_transaction_id: gatewayTransactionId,
+        status,
+        state,
+        failure_reason: failureReason,
+        created_at: new Date()
+      });
+    })
+    .on(/^SELECT \* FROM payment_transactions WHERE id = \?/, ([id]) =>
+      [payment(id)].filter(Boolean).map(row => ({ ...row }))
+    )
+    .on(/^SELECT \* FROM payment_transactions WHERE gateway = \? AND gateway_transaction_id = \?/, ([gateway, transactionId]) =>
+      payments().filter(row => row.gateway === gateway && row.gateway_transaction_id === transactionId)
+    )
+    .on(/^SELECT \* FROM payment_transactions WHERE subscription_id = \?/, ([subscriptionId]) =>
+      payments().filter(row => row.subscription_id === subscriptionId).reverse()
+    )
+    .on(/^UPDATE payment_transactions SET subscription_id = \? WHERE id = \?$/, ([subscriptionId, id]) => {
+      const row = payment(id);
+      if (row) db.update(row, { subscription_id: subscriptionId });
+      return { affectedRows: row ? 1 : 0 };
+    })
+    .on(/^UPDATE payment_transactions SET state = \?/, ([state, status, failureReason, id, from]) => {
+      const row = payment(id);
+      if (!row || row.state !== from) return { affectedRows: 0 };
+      db.update(row, { state, status, failure_reason: failureReason ?? row.failure_reason });
+      return { affectedRows: 1 };
+    })
+    .on(/^INSERT INTO payment_state_transitions/, ([id, paymentId, from, to, source, eventId, note, createdBy]) => {
+      db.insert('payment_state_transitions', {
+        id, payment_id: paymentId, from_state: from, to_state: to, source, event_id: eventId, note, created_by: createdBy
+      });
+    })
+    .on(/^INSERT INTO payment_webhook_events/, ([id, gateway, eventId, eventType, paymentId, outcome]) => {
+      const events = db.rows('payment_webhook_events');
+      if (events.some(row => row.gateway === gateway && row.event_id === eventId)) throw duplicateEntry();
+      db.insert('payment_webhook_events', { id, gateway, event_id: eventId, event_type: eventType, payment_id: paymentId, outcome });
+    });
+}
+
+/**
+ * Transitions recorded for a payment as `[from, to, source]`
+ */
+export function paymentTransitions(db: FakePool, paymentId: string): Array<[string | null, string, string]> {
+  return db.rows('payment_state_transitions')
+    .filter(row => row.payment_id === paymentId)
+    .map(row => [row.from_state, row.to_state, row.source]);
+}
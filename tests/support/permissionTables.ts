@@ -0,0 +1,57 @@
+import { DEFAULT_ROLES, PERMISSION_DESCRIPTIONS } from '../../src/models/permissionModel';
+import { FakePool, Row } from './fakePool';
+
+/**
+ * In-memory roles, permissions and user grants seeded with the default
+ * roles, answering the statements PermissionModel issues. Users go in the
+ * `users` table as `{ id, role, is_active }`.
+ */
+export function installPermissionTables(db: FakePool): FakePool {
+  const byName = (a: Row, b: Row) => String(a.name).localeCompare(String(b.name));
+  const grants = () => db.rows('role_permissions');
+  const overrides = () => db.rows('user_permissions');
+
+  for (const [name, role] of Object.entries(DEFAULT_ROLES)) {
+    db.rows('roles').push({ name, description: role.description, created_at: new Date() });
+    for (const permission of role.permissions) grants().push({ role: name, permission });
+  }
+  for (const [name, description] of Object.entries(PERMISSION_DESCRIPTIONS)) {
+    db.rows('permissions').push({ name, description });
+  }
+
+  return db
+    .on(/^SELECT \* FROM roles ORDER BY name$/, () => [...db.rows('roles')].sort(byName))
+    .on(/^SELECT \* FROM roles WHERE name = \?$/, ([name]) => db.rows('roles').filter(row => row.name === name))
+    .on(/^SELECT \* FROM permissions ORDER BY name$/, () => [...db.rows('permissions')].sort(byName))
+    .on(/^SELECT \* FROM permissions WHERE name = \?$/, ([name]) => db.rows('permissions').filter(row => row.name === name))
+    .on(/^SELECT permission FROM role_permissions WHERE role = \?/, ([role]) =>
+      grants().filter(row => row.role === role).sort((a, b) => a.permission.localeCompare(b.permission))
+    )
+    .on(/^INSERT IGNORE INTO role_permissions/, ([role, permission]) => {
+      if (!grants().some(row => row.role === role && row.permission === permission)) {
+        db.insert('role_permissions', { role, permission });
+      }
+    })
+    .on(/^DELETE FROM role_permissions WHERE role = \? AND permission = \?$/, ([role, permission]) => {
+      const row = grants().find(candidate => candidate.role === role && candidate.permission === permission);
+      if (row) db.remove('role_permissions', row);
+    })
+    .on(/^SELECT \* FROM user_permissions WHERE user_id = \?/, ([userId]) =>
+      overrides().filter(row => row.user_id === userId).sort((a, b) => a.permission.localeCompare(b.permission))
+    )
+    .on(/^INSERT INTO user_permissions/, ([userId, permission, effect, grantedBy]) => {
+      const existing = overrides().find(row => row.user_id === userId && row.permission === permission);
+      if (existing) db.update(existing, { effect, granted_by: grantedBy });
+      else db.insert('user_permissions', { user_id: userId, permission, effect, granted_by: grantedBy, updated_at: new Date() });
+    })
+    .on(/^DELETE FROM user_permissions WHERE user_id = \? AND permission = \?$/, ([userId, permission]) => {
+      const row = overrides().find(candidate => candidate.user_id === userId && candidate.permission === permission);
+      if (row) db.remove('user_permissions', row);
+    })
+    .on(/^SELECT role, is_active FROM users WHERE id = \?$/, ([id]) => db.rows('users').filter(row => row.id === id))
+    .on(/^UPDATE users SET role = \? WHERE id = \?$/, ([role, id]) => {
+      const row = db.rows('users').find(candidate => candidate.id === id);
+      if (row) db.update(row, { role });
+      return { affectedRows: row ? 1 : 0 };
+    });
+}
@@ -0,0 +1,31 @@
+import { FakePool } from './fakePool';
+
+const STATUS_UPDATE = /^UPDATE subscriptions SET status = '(\w+)', updated_at = CURRENT_TIMESTAMP WHERE id = \?(?: AND status = '(\w+)')?$/;
+
+/**
+ * In-memory subscriptions and properties, answering the subscription reads
+ * and status changes the refund and dispute workflows issue
+ */
+export function installSubscriptionTables(db: FakePool): FakePool {
+  const subscription = (id: string) => db.rows('subscriptions').find(row => row.id === id);
+
+  return db
+    .on(/^SELECT s\.id, s\.property_id, s\.subscriber_user_id/, ([id]) =>
+      db.rows('subscriptions').filter(row => row.id === id).map(row => ({
+        ...row, supply: db.rows('properties').find(property => property.id === row.property_id)?.supply ?? null
+      }))
+    )
+    .on(/^UPDATE subscriptions SET subscription_amount = \?, share_percentage = \?/, ([amount, share, id]) => {
+      const row = subscription(id);
+      if (row) db.update(row, { subscription_amount: amount, share_percentage: share });
+      return { affectedRows: row ? 1 : 0 };
+    })
+    .on(STATUS_UPDATE, ([id], sql) => {
+      const [, status, from] = sql.match(STATUS_UPDATE)!;
+      const row = subscription(id);
+      if (!row || (from && row.status !== from)) return { affectedRows: 0 };
+      db.update(row, { status });
+      return { affectedRows: 1 };
+    })
+    .on(/^UPDATE pending_transfers SET status = 'FAILED'/, () => ({ affectedRows: 0 }));
+}
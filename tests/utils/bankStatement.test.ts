@@ -0,0 +1,108 @@
+import { expect } from 'chai';
+import {
+  detectStatementFormat,
+  normaliseReference,
+  parseStatement,
+  transferReference
+} from '../../src/utils/bankStatement';
+
+const ASB_EXPORT = [
+  'Created date / time : 15 March 2024 / 09:12:45',
+  'Bank 12; Branch 3040; Account 0123456-50',
+  'From date 20240301',
+  'Date,Unique Id,Tran Type,Cheque Number,Payee,Memo,Amount',
+  '2024/03/14,2024031401,D/C,,"SMITH J","TB1A2B3C4D5E",1500.00',
+  '2024/03/14,2024031402,POS,,"COFFEE",,-4.50'
+].join('\n');
+
+const ANZ_EXPORT = [
+  'Type,Details,Particulars,Code,Reference,Amount,Date,ForeignCurrencyAmount,ConversionCharge',
+  'Direct Credit,J SMITH,Subscription,TB1A2B3C,4D5E,"2,000.00",14/03/2024,,'
+].join('\n');
+
+const OFX_EXPORT = `OFXHEADER:100
+DATA:OFXSGML
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>NZD
+<BANKACCTFROM><ACCTID>12-3040-0123456-50</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240314120000
+<TRNAMT>1500.00
+<FITID>A1
+<NAME>SMITH J &amp; CO
+<MEMO>TB1A2B3C4D5E
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+describe('bankStatement', () => {
+  describe('references', () => {
+    it('builds a 12 character reference from the subscription id', () => {
+      expect(transferReference('1a2b3c4d-5e6f-7890-abcd-ef1234567890')).to.equal('TB1A2B3C4D5E');
+    });
+
+    it('normalises spacing and punctuation away', () => {
+      expect(normaliseReference(' tb-1a2b 3c4d.5e ')).to.equal('TB1A2B3C4D5E');
+      expect(normaliseReference(null)).to.equal('');
+    });
+  });
+
+  describe('detectStatementFormat', () => {
+    it('recognises OFX, NZ bank and generic CSV exports', () => {
+      expect(detectStatementFormat(OFX_EXPORT)).to.equal('ofx');
+      expect(detectStatementFormat(ANZ_EXPORT)).to.equal('nz-bank');
+      expect(detectStatementFormat('Date,Amount,Description\n2024-03-14,10,x')).to.equal('csv');
+    });
+  });
+
+  describe('parseStatement', () => {
+    it('skips the ASB preamble and reads the account number from it', () => {
+      const statement = parseStatement(ASB_EXPORT, 'nz-bank');
+      expect(statement.accountNumber).to.equal('12-3040-0123456-50');
+      expect(statement.lines).to.have.length(2);
+      expect(statement.lines[0]).to.include({
+        lineNumber: 5,
+        transactionDate: '2024-03-14',
+        amount: 1500,
+        description: 'SMITH J TB1A2B3C4D5E',
+        bankTransactionId: '2024031401'
+      });
+      expect(statement.lines[1].amount).to.equal(-4.5);
+    });
+
+    it('joins NZ particulars, code and reference and reads day-first dates', () => {
+      const [line] = parseStatement(ANZ_EXPORT).lines;
+      expect(line.reference).to.equal('Subscription TB1A2B3C 4D5E');
+      expect(line.amount).to.equal(2000);
+      expect(line.transactionDate).to.equal('2024-03-14');
+    });
+
+    it('reads split credit and debit columns', () => {
+      const statement = parseStatement('Date,Description,Credit,Debit\n2024-03-14,in,100.00,\n2024-03-15,out,,25.00', 'csv');
+      expect(statement.lines.map(line => line.amount)).to.deep.equal([100, -25]);
+    });
+
+    it('parses OFX transactions with the statement currency', () => {
+      const statement = parseStatement(OFX_EXPORT);
+      expect(statement.format).to.equal('ofx');
+      expect(statement.currency).to.equal('NZD');
+      expect(statement.accountNumber).to.equal('12-3040-0123456-50');
+      expect(statement.lines[0]).to.include({
+        transactionDate: '2024-03-14',
+        amount: 1500,
+        description: 'SMITH J & CO TB1A2B3C4D5E',
+        bankTransactionId: 'A1',
+        currency: null
+      });
+    });
+
+    it('rejects statements it cannot read', () => {
+      expect(() => parseStatement('Payee,Memo\nx,y', 'csv')).to.throw('expected a header row');
+      expect(() => parseStatement('Date,Amount\n31/02/2024,10', 'csv')).to.throw('unrecognised date "31/02/2024" on line 2');
+      expect(() => parseStatement('Date,Amount\n2024-03-14,ten', 'csv')).to.throw('unrecognised amount "ten" on line 2');
+      expect(() => parseStatement('Date,Amount', 'csv')).to.throw('no transactions found');
+    });
+  });
+});
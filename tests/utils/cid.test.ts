@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { computeCid, isVerifiableCid, MAX_SINGLE_BLOCK_BYTES, parseCid, verifyCid } from '../../src/utils/cid';
+
+// What `ipfs add` (CIDv0) reports for these files
+const EMPTY_FILE_CID = 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH';
+const HELLO_WORLD_CID = 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o';
+
+describe('cid', () => {
+  describe('computeCid', () => {
+    it('produces a base32 CIDv1 raw leaf that verifies against its content', () => {
+      const content = Buffer.from('TitleBase property document');
+      const cid = computeCid(content);
+
+      expect(cid).to.match(/^bafkrei[a-z2-7]{52}$/);
+      expect(parseCid(cid)).to.include({ version: 1, codec: 0x55, hashCode: 0x12 });
+      expect(verifyCid(cid, content)).to.equal(true);
+      expect(verifyCid(cid, Buffer.from('tampered'))).to.equal(false);
+    });
+  });
+
+  describe('verifyCid', () => {
+    it('checks CIDv0 hashes of single-block UnixFS files', () => {
+      expect(verifyCid(EMPTY_FILE_CID, Buffer.alloc(0))).to.equal(true);
+      expect(verifyCid(HELLO_WORLD_CID, Buffer.from('hello world\n'))).to.equal(true);
+      expect(verifyCid(`ipfs://${HELLO_WORLD_CID}`, Buffer.from('hello world'))).to.equal(false);
+    });
+
+    it('refuses CIDs it cannot check locally', () => {
+      const large = Buffer.alloc(MAX_SINGLE_BLOCK_BYTES + 1);
+      expect(() => verifyCid(HELLO_WORLD_CID, large)).to.throw('Cannot verify CID');
+    });
+  });
+
+  describe('parseCid', () => {
+    it('rejects unsupported multibases and malformed digests', () => {
+      expect(() => parseCid('fdeadbeef')).to.throw('Invalid CID: unsupported multibase');
+      expect(() => parseCid(computeCid(Buffer.from('x')).slice(0, -4))).to.throw('Invalid CID');
+    });
+  });
+
+  describe('isVerifiableCid', () => {
+    it('accepts raw leaves of any size and dag-pb only within one block', () => {
+      const raw = computeCid(Buffer.from('x'));
+      expect(isVerifiableCid(raw, MAX_SINGLE_BLOCK_BYTES * 4)).to.equal(true);
+      expect(isVerifiableCid(HELLO_WORLD_CID, MAX_SINGLE_BLOCK_BYTES)).to.equal(true);
+      expect(isVerifiableCid(HELLO_WORLD_CID, MAX_SINGLE_BLOCK_BYTES + 1)).to.equal(false);
+      expect(isVerifiableCid('not-a-cid', 1)).to.equal(false);
+    });
+  });
+});
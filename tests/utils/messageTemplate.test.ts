@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { compileTemplate, getTemplateVariables, renderTemplate } from '../../src/utils/messageTemplate';
+
+describe('messageTemplate', () => {
+  describe('renderTemplate', () => {
+    it('substitutes variables, including dotted paths', () => {
+      expect(renderTemplate('Hi {user.name}, {amount} NZD received', { user: { name: 'Aroha' }, amount: 250 }, 'en-NZ'))
+        .to.equal('Hi Aroha, 250 NZD received');
+    });
+
+    it('picks plural cases by CLDR category and formats #', () => {
+      const template = '{count, plural, =0 {No bids} one {# bid} other {# bids}}';
+      expect(renderTemplate(template, { count: 0 }, 'en-NZ')).to.equal('No bids');
+      expect(renderTemplate(template, { count: 1 }, 'en-NZ')).to.equal('1 bid');
+      expect(renderTemplate(template, { count: 1200 }, 'en-NZ')).to.equal('1,200 bids');
+    });
+
+    it('follows the locale plural rules', () => {
+      const template = '{count, plural, one {# plik} few {# pliki} many {# plików} other {# pliku}}';
+      expect(renderTemplate(template, { count: 3 }, 'pl')).to.equal('3 pliki');
+      expect(renderTemplate(template, { count: 5 }, 'pl')).to.equal('5 plików');
+    });
+
+    it('keeps escaped characters literally', () => {
+      expect(renderTemplate('\\{not a variable\\} \\# \\\\', {}, 'en-NZ')).to.equal('{not a variable} # \\');
+    });
+
+    it('throws when a variable is missing or a plural value is not a number', () => {
+      expect(() => renderTemplate('Hi {name}', {}, 'en-NZ')).to.throw('Missing template variable: name');
+      expect(() => renderTemplate('{n, plural, other {#}}', { n: 'many' }, 'en-NZ'))
+        .to.throw('Template variable n must be a number');
+    });
+  });
+
+  describe('compileTemplate', () => {
+    it('reports syntax errors with their position', () => {
+      expect(() => compileTemplate('Hi {name')).to.throw("Template syntax error at position 8: expected ',' before the end");
+      expect(() => compileTemplate('{n, select, other {x}}')).to.throw('unsupported format "select"');
+      expect(() => compileTemplate('{n, plural, one {x}}')).to.throw('needs an "other" case');
+      expect(() => compileTemplate('oops }')).to.throw("unexpected '}'");
+    });
+  });
+
+  describe('getTemplateVariables', () => {
+    it('lists variables in order of first use, including inside plurals', () => {
+      expect(getTemplateVariables('{a} {n, plural, one {{b}} other {{a} {c}}}'))
+        .to.deep.equal(['a', 'n', 'b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateHotp,
+  generateTotp,
+  verifyTotp
+} from '../../src/utils/totp';
+
+// The ASCII secret "12345678901234567890" from RFC 4226 and RFC 6238
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('round-trips arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes)).equals(bytes)).to.equal(true);
+    });
+
+    it('encodes the RFC 4648 test vectors', () => {
+      expect(base32Encode(Buffer.from('foobar'))).to.equal('MZXW6YTBOI');
+      expect(base32Decode('mzxw6ytboi======').toString()).to.equal('foobar');
+    });
+
+    it('rejects characters outside the alphabet', () => {
+      expect(() => base32Decode('MZXW1')).to.throw('Invalid base32 character');
+    });
+  });
+
+  describe('generateHotp', () => {
+    it('matches the RFC 4226 appendix D values', () => {
+      const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+      expected.forEach((code, counter) => {
+        expect(generateHotp(RFC_SECRET, counter)).to.equal(code);
+      });
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('matches the RFC 6238 appendix B SHA-1 values', () => {
+      const vectors: Array<[number, string]> = [
+        [59, '94287082'],
+        [1111111109, '07081804'],
+        [1111111111, '14050471'],
+        [1234567890, '89005924'],
+        [2000000000, '69279037']
+      ];
+      for (const [seconds, code] of vectors) {
+        expect(generateTotp(RFC_SECRET, seconds * 1000, { digits: 8 })).to.equal(code);
+      }
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const timeMs = 1234567890 * 1000;
+
+    it('returns the matching step for a current code', () => {
+      const code = generateTotp(RFC_SECRET, timeMs);
+      expect(verifyTotp(RFC_SECRET, code, { timeMs })).to.equal(Math.floor(1234567890 / 30));
+    });
+
+    it('accepts codes one step either side by default', () => {
+      const previous = generateTotp(RFC_SECRET, timeMs - 30_000);
+      const next = generateTotp(RFC_SECRET, timeMs + 30_000);
+      expect(verifyTotp(RFC_SECRET, previous, { timeMs })).to.not.equal(null);
+      expect(verifyTotp(RFC_SECRET, next, { timeMs })).to.not.equal(null);
+    });
+
+    it('rejects codes outside the window', () => {
+      const stale = generateTotp(RFC_SECRET, timeMs - 90_000);
+      expect(verifyTotp(RFC_SECRET, stale, { timeMs })).to.equal(null);
+    });
+
+    it('rejects malformed codes without comparing them', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', { timeMs })).to.equal(null);
+      expect(verifyTotp(RFC_SECRET, 'abcdef', { timeMs })).to.equal(null);
+      expect(verifyTotp(RFC_SECRET, '', { timeMs })).to.equal(null);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('labels the key with the issuer and account', () => {
+      const uri = new URL(buildOtpauthUri(RFC_SECRET, 'investor@example.com', 'TitleBase'));
+      expect(uri.protocol).to.equal('otpauth:');
+      expect(uri.host).to.equal('totp');
+      expect(decodeURIComponent(uri.pathname)).to.equal('/TitleBase:investor@example.com');
+      expect(uri.searchParams.get('secret')).to.equal(RFC_SECRET);
+      expect(uri.searchParams.get('period')).to.equal('30');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { xirr } from '../../src/utils/xirr';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe('xirr', () => {
+  it('returns the simple annual rate for one year held', () => {
+    const rate = xirr([
+      { amount: -1000, date: day('2023-01-01') },
+      { amount: 1100, date: day('2024-01-01') }
+    ]);
+    expect(rate).to.be.closeTo(0.1, 1e-6);
+  });
+
+  it("matches Excel's XIRR documentation example", () => {
+    const rate = xirr([
+      { amount: -10000, date: day('2008-01-01') },
+      { amount: 2750, date: day('2008-03-01') },
+      { amount: 4250, date: day('2008-10-30') },
+      { amount: 3250, date: day('2009-02-15') },
+      { amount: 2750, date: day('2009-04-01') }
+    ]);
+    expect(rate).to.be.closeTo(0.373362535, 1e-6);
+  });
+
+  it('handles losses', () => {
+    const rate = xirr([
+      { amount: -1000, date: day('2023-01-01') },
+      { amount: 800, date: day('2024-01-01') }
+    ]);
+    expect(rate).to.be.closeTo(-0.2, 1e-6);
+  });
+
+  it('ignores the order the flows are given in', () => {
+    const rate = xirr([
+      { amount: 1100, date: day('2024-01-01') },
+      { amount: -1000, date: day('2023-01-01') }
+    ]);
+    expect(rate).to.be.closeTo(0.1, 1e-6);
+  });
+
+  it('returns null without both an investment and a return', () => {
+    expect(xirr([])).to.equal(null);
+    expect(xirr([{ amount: -1000, date: day('2023-01-01') }])).to.equal(null);
+    expect(xirr([
+      { amount: 500, date: day('2023-01-01') },
+      { amount: 0, date: day('2023-06-01') }
+    ])).to.equal(null);
+  });
+});